@@ -25,6 +25,8 @@ import Solutions from "./pages/Solutions";
 import UserSolutions from "./pages/UserSolutions";
 import PerspectiveSelection from "./pages/PerspectiveSelection";
 import Upload from "./pages/Upload";
+import BatchReview from "./pages/BatchReview";
+import ContractRepository from "./pages/ContractRepository";
 import ContractReview from "./pages/ContractReview";
 import Loading from "./pages/Loading";
 import News from "./pages/News";
@@ -164,6 +166,14 @@ const router = createBrowserRouter([
         path: "upload",
         element: <Upload />,
       },
+      {
+        path: "batch-review",
+        element: <BatchReview />,
+      },
+      {
+        path: "contract-repository",
+        element: <ContractRepository />,
+      },
       {
         path: "loading",
         element: <Loading />,
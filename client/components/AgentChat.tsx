@@ -7,10 +7,30 @@ import React, {
   useRef,
   useState,
 } from "react";
-import { Bot, Loader2, Send, X } from "lucide-react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Bot,
+  Check,
+  Loader2,
+  Pencil,
+  Plus,
+  Send,
+  Square,
+  Users,
+  X,
+} from "lucide-react";
+import type {
+  AgentChatResult,
+  AgentChatStreamEvents,
+  AgentChatThreadMessage,
+  AppendAgentChatMessageInput,
+} from "@shared/api";
+import { createSseParser } from "@shared/ai/llmProviders";
+import { authorizedFetch } from "@/lib/authorizedFetch";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { AgentThreadsService } from "@/services/agentThreadsService";
 
 type ChatRole = "user" | "assistant";
 
@@ -19,6 +39,14 @@ interface AgentChatMessage {
   role: ChatRole;
   content: string;
   timestamp: string;
+  /** Set when the user stopped the reply before it finished. */
+  stopped?: boolean;
+  proposedEdits?: AgentProposedEdit[];
+  acceptedEditIds?: string[];
+  provider?: string | null;
+  model?: string | null;
+  /** True once the message is saved, so `id` is its thread message id. */
+  persisted?: boolean;
 }
 
 export interface AgentChatContext {
@@ -91,6 +119,37 @@ interface AgentChatProps {
     edits: AgentProposedEdit[],
     meta: AgentInteractionMeta,
   ) => void;
+  /** Enables saved conversations; without it the chat lives in memory. */
+  authUserId?: string | null;
+  reviewId?: string | null;
+  canShare?: boolean;
+  /** Edits accepted in the open conversation, ids prefixed by message id. */
+  onAcceptedEditsChange?: (edits: AgentProposedEdit[]) => void;
+}
+
+export const agentThreadsQueryKey = (contractId: string | null) =>
+  ["agent-threads", contractId] as const;
+
+const BOOTSTRAP_PROMPT =
+  "Provide a quick overview of the priority edits to begin with.";
+
+function threadTitleFrom(prompt: string): string {
+  const trimmed = prompt.trim().replace(/\s+/g, " ");
+  return trimmed.length > 60 ? `${trimmed.slice(0, 59)}…` : trimmed;
+}
+
+function toChatMessage(message: AgentChatThreadMessage): AgentChatMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    content: message.content,
+    timestamp: message.createdAt,
+    proposedEdits: message.proposedEdits as AgentProposedEdit[],
+    acceptedEditIds: message.acceptedEditIds,
+    provider: message.provider,
+    model: message.model,
+    persisted: true,
+  };
 }
 
 export interface AgentChatHandle {
@@ -98,13 +157,98 @@ export interface AgentChatHandle {
 }
 
 const AgentChat = forwardRef<AgentChatHandle, AgentChatProps>(
-  ({ open, onOpen, onClose, context, onEdits }, ref) => {
+  (
+    {
+      open,
+      onOpen,
+      onClose,
+      context,
+      onEdits,
+      authUserId,
+      reviewId,
+      canShare,
+      onAcceptedEditsChange,
+    },
+    ref,
+  ) => {
     const [messages, setMessages] = useState<AgentChatMessage[]>([]);
     const [input, setInput] = useState("");
     const [isStreaming, setIsStreaming] = useState(false);
     const [hasBootstrapped, setHasBootstrapped] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [hasPartial, setHasPartial] = useState(false);
     const containerRef = useRef<HTMLDivElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const queryClient = useQueryClient();
+    const contractId = context.contract?.id ?? null;
+    const threadsEnabled = Boolean(authUserId && contractId);
+    const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+    const activeThreadIdRef = useRef<string | null>(null);
+    const conversationRef = useRef(0);
+    const [isThreadLoading, setIsThreadLoading] = useState(false);
+    const [renameDraft, setRenameDraft] = useState<string | null>(null);
+
+    const threadsQuery = useQuery({
+      queryKey: agentThreadsQueryKey(contractId),
+      queryFn: () => AgentThreadsService.listThreads(contractId!),
+      enabled: open && threadsEnabled,
+    });
+    const threads = threadsQuery.data ?? [];
+    const activeThread =
+      threads.find((thread) => thread.id === activeThreadId) ?? null;
+    const isReadOnly = Boolean(activeThread && !activeThread.isOwner);
+
+    const selectThread = useCallback((threadId: string | null) => {
+      activeThreadIdRef.current = threadId;
+      setActiveThreadId(threadId);
+      setRenameDraft(null);
+    }, []);
+
+    const refreshThreads = useCallback(() => {
+      void queryClient.invalidateQueries({
+        queryKey: agentThreadsQueryKey(contractId),
+      });
+    }, [contractId, queryClient]);
+
+    const persistMessages = useCallback(
+      async (
+        entries: Array<{ localId: string; input: AppendAgentChatMessageInput }>,
+      ) => {
+        if (!authUserId || !contractId || !entries.length) return;
+        try {
+          let threadId = activeThreadIdRef.current;
+          if (!threadId) {
+            const firstUser = entries.find(
+              (entry) => entry.input.role === "user",
+            );
+            const thread = await AgentThreadsService.createThread(
+              contractId,
+              threadTitleFrom(firstUser?.input.content ?? ""),
+            );
+            threadId = thread.id;
+            selectThread(thread.id);
+          }
+          const saved = await AgentThreadsService.appendMessages(
+            threadId,
+            entries.map((entry) => entry.input),
+          );
+          setMessages((prev) =>
+            prev.map((message) => {
+              const index = entries.findIndex(
+                (entry) => entry.localId === message.id,
+              );
+              return index === -1 || !saved[index]
+                ? message
+                : { ...message, id: saved[index].id, persisted: true };
+            }),
+          );
+          refreshThreads();
+        } catch (persistError) {
+          console.warn("[AgentChat] Failed to save conversation", persistError);
+        }
+      },
+      [authUserId, contractId, refreshThreads, selectThread],
+    );
 
     const scrollToBottom = useCallback(() => {
       requestAnimationFrame(() => {
@@ -136,13 +280,22 @@ const AgentChat = forwardRef<AgentChatHandle, AgentChatProps>(
         setError(null);
 
         const payloadMessages = [...mappedHistory];
+        const userId = `user-${Date.now()}`;
+        const pending: Array<{
+          localId: string;
+          input: AppendAgentChatMessageInput;
+        }> = [];
         if (userContent) {
           const timestamp = new Date().toISOString();
           payloadMessages.push({ role: "user", content: userContent });
+          pending.push({
+            localId: userId,
+            input: { role: "user", content: userContent },
+          });
           setMessages((prev) => [
             ...prev,
             {
-              id: `user-${Date.now()}`,
+              id: userId,
               role: "user",
               content: userContent,
               timestamp,
@@ -153,8 +306,35 @@ const AgentChat = forwardRef<AgentChatHandle, AgentChatProps>(
         const startTime =
           typeof performance !== "undefined" ? performance.now() : null;
 
+        const controller = new AbortController();
+        abortRef.current = controller;
+        const conversationAtStart = conversationRef.current;
+        let streamedText = "";
+        const assistantId = `assistant-${Date.now()}`;
+        const updateAssistant = (
+          update: (message: AgentChatMessage) => AgentChatMessage,
+        ) => {
+          setMessages((prev) => {
+            const existing = prev.find((message) => message.id === assistantId);
+            if (existing) {
+              return prev.map((message) =>
+                message.id === assistantId ? update(message) : message,
+              );
+            }
+            return [
+              ...prev,
+              update({
+                id: assistantId,
+                role: "assistant",
+                content: "",
+                timestamp: new Date().toISOString(),
+              }),
+            ];
+          });
+        };
+
         try {
-          const response = await fetch("/api/agent/chat", {
+          const response = await authorizedFetch("/api/agent/chat/stream", {
             method: "POST",
             headers: {
               "Content-Type": "application/json",
@@ -164,21 +344,59 @@ const AgentChat = forwardRef<AgentChatHandle, AgentChatProps>(
               messages: payloadMessages,
               context,
             }),
+            signal: controller.signal,
           });
 
-          if (!response.ok) {
+          if (!response.ok || !response.body) {
             throw new Error(`Agent request failed: ${response.status}`);
           }
 
-          const data = (await response.json()) as {
-            message?: { role: "assistant"; content: string };
-            proposedEdits?: AgentProposedEdit[];
-            provider?: string;
-            model?: string;
-          };
+          const outcome: {
+            result: AgentChatResult | null;
+            error: string | null;
+          } = { result: null, error: null };
+          const parse = createSseParser(({ event, data: raw }) => {
+            if (event === "delta") {
+              const { text } = JSON.parse(
+                raw,
+              ) as AgentChatStreamEvents["delta"];
+              streamedText += text;
+              setHasPartial(true);
+              updateAssistant((message) => ({
+                ...message,
+                content: message.content + text,
+              }));
+            } else if (event === "reset") {
+              streamedText = "";
+              updateAssistant((message) => ({ ...message, content: "" }));
+            } else if (event === "done") {
+              outcome.result = JSON.parse(raw) as AgentChatStreamEvents["done"];
+            } else if (event === "error") {
+              outcome.error = (
+                JSON.parse(raw) as AgentChatStreamEvents["error"]
+              ).error;
+            }
+          });
+
+          const reader = response.body.getReader();
+          const decoder = new TextDecoder();
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            parse(decoder.decode(value, { stream: true }));
+          }
+          parse(`${decoder.decode()}\n\n`);
+
+          if (outcome.error) {
+            throw new Error(outcome.error);
+          }
+          const result = outcome.result;
+          if (!result) {
+            throw new Error("Agent response ended unexpectedly");
+          }
 
-          const sanitizedEdits = Array.isArray(data.proposedEdits)
-            ? data.proposedEdits.filter(
+          const sanitizedEdits = Array.isArray(result.proposedEdits)
+            ? (result.proposedEdits as AgentProposedEdit[]).filter(
                 (edit) =>
                   edit &&
                   typeof edit.suggestedText === "string" &&
@@ -186,36 +404,29 @@ const AgentChat = forwardRef<AgentChatHandle, AgentChatProps>(
               )
             : [];
 
-          if (data.message?.content) {
-            let assistantContent = data.message.content;
-
-            if (sanitizedEdits.length) {
-              const editsSummary = sanitizedEdits
-                .map((edit) => {
-                  const reference =
-                    edit.clauseReference || edit.id || "Clause update";
-                  const changeType = edit.changeType || "modify";
-                  return `• ${reference} — ${changeType}\n  Suggestion: ${edit.suggestedText}\n  Rationale: ${edit.rationale}`;
-                })
-                .join("\n");
-
-              assistantContent = `${assistantContent}\n\nProposed Edits:\n${editsSummary}`;
-            }
-
-            if (data.provider && data.model) {
-              assistantContent = `${assistantContent}\n\n(Source: ${data.provider} – ${data.model})`;
-            }
-
-            setMessages((prev) => [
-              ...prev,
-              {
-                id: `assistant-${Date.now()}`,
+          if (result.message?.content) {
+            // The final payload replaces the streamed text, which may have
+            // been cut short or reset by a provider failover.
+            updateAssistant((message) => ({
+              ...message,
+              content: result.message.content,
+              proposedEdits: sanitizedEdits,
+              acceptedEditIds: [],
+              provider: result.provider,
+              model: result.model,
+            }));
+            pending.push({
+              localId: assistantId,
+              input: {
                 role: "assistant",
-                content: assistantContent,
-                timestamp: new Date().toISOString(),
+                content: result.message.content,
+                proposedEdits: sanitizedEdits,
+                provider: result.provider,
+                model: result.model,
               },
-            ]);
+            });
           }
+          void persistMessages(pending);
 
           const latencyMs =
             startTime !== null && typeof performance !== "undefined"
@@ -223,36 +434,189 @@ const AgentChat = forwardRef<AgentChatHandle, AgentChatProps>(
               : undefined;
 
           onEdits?.(sanitizedEdits, {
-            provider: data.provider,
-            model: data.model,
+            provider: result.provider,
+            model: result.model,
             latencyMs,
           });
         } catch (agentError) {
+          if (controller.signal.aborted) {
+            // Keep whatever arrived before the user pressed stop.
+            const partial = streamedText.trim();
+            setMessages((prev) =>
+              prev.flatMap((message) => {
+                if (message.id !== assistantId) return [message];
+                return partial ? [{ ...message, stopped: true }] : [];
+              }),
+            );
+            // Switching conversations also aborts; only a stop is saved.
+            if (conversationRef.current === conversationAtStart) {
+              if (partial) {
+                pending.push({
+                  localId: assistantId,
+                  input: { role: "assistant", content: partial },
+                });
+              }
+              void persistMessages(pending);
+            }
+            return;
+          }
           const message =
             agentError instanceof Error ? agentError.message : String(agentError);
           setError(message);
         } finally {
+          if (abortRef.current === controller) {
+            abortRef.current = null;
+          }
+          setHasPartial(false);
           setIsStreaming(false);
         }
       },
-      [context, mappedHistory, onEdits],
+      [context, mappedHistory, onEdits, persistMessages],
     );
 
+    const stopStreaming = useCallback(() => {
+      abortRef.current?.abort();
+    }, []);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const openThread = useCallback(
+      async (threadId: string) => {
+        if (!authUserId) return;
+        conversationRef.current += 1;
+        abortRef.current?.abort();
+        selectThread(threadId);
+        setError(null);
+        setIsThreadLoading(true);
+        try {
+          const detail = await AgentThreadsService.getThread(threadId);
+          if (activeThreadIdRef.current === threadId) {
+            setMessages(detail.messages.map(toChatMessage));
+          }
+        } catch (threadError) {
+          setError(
+            threadError instanceof Error
+              ? threadError.message
+              : String(threadError),
+          );
+        } finally {
+          setIsThreadLoading(false);
+        }
+      },
+      [authUserId, selectThread],
+    );
+
+    const startNewThread = useCallback(() => {
+      conversationRef.current += 1;
+      abortRef.current?.abort();
+      selectThread(null);
+      setMessages([]);
+      setError(null);
+      setHasBootstrapped(true);
+    }, [selectThread]);
+
+    const runThreadAction = useCallback(
+      async (action: () => Promise<unknown>) => {
+        try {
+          await action();
+          refreshThreads();
+        } catch (threadError) {
+          setError(
+            threadError instanceof Error
+              ? threadError.message
+              : String(threadError),
+          );
+        }
+      },
+      [refreshThreads],
+    );
+
+    const handleAcceptEdit = useCallback(
+      async (messageId: string, edit: AgentProposedEdit) => {
+        const markAccepted = () =>
+          setMessages((prev) =>
+            prev.map((message) =>
+              message.id === messageId
+                ? {
+                    ...message,
+                    acceptedEditIds: [
+                      ...(message.acceptedEditIds ?? []),
+                      edit.id,
+                    ],
+                  }
+                : message,
+            ),
+          );
+        const threadId = activeThreadIdRef.current;
+        if (!authUserId || !threadId) {
+          markAccepted();
+          return;
+        }
+        try {
+          await AgentThreadsService.acceptEdit(threadId, {
+            messageId,
+            editId: edit.id,
+            reviewId,
+          });
+          markAccepted();
+        } catch (acceptError) {
+          setError(
+            acceptError instanceof Error
+              ? acceptError.message
+              : String(acceptError),
+          );
+        }
+      },
+      [authUserId, reviewId],
+    );
+
+    const acceptedEdits = useMemo(
+      () =>
+        messages.flatMap((message) =>
+          (message.proposedEdits ?? [])
+            .filter((edit) => message.acceptedEditIds?.includes(edit.id))
+            .map((edit) => ({ ...edit, id: `${message.id}-${edit.id}` })),
+        ),
+      [messages],
+    );
+    const acceptedEditsRef = useRef(acceptedEdits);
+    acceptedEditsRef.current = acceptedEdits;
+    // Streaming rewrites `messages` on every delta; only report real changes.
+    const acceptedSignature = acceptedEdits.map((edit) => edit.id).join("|");
+    useEffect(() => {
+      onAcceptedEditsChange?.(acceptedEditsRef.current);
+    }, [acceptedSignature, onAcceptedEditsChange]);
+
     useEffect(() => {
       if (!open || hasBootstrapped) return;
+      if (threadsEnabled && !threadsQuery.isFetched) return;
       setHasBootstrapped(true);
-      void callAgent("Provide a quick overview of the priority edits to begin with.");
-    }, [open, hasBootstrapped, callAgent]);
+      // Resume the member's latest conversation rather than starting over.
+      const resumable = threadsQuery.data?.find((thread) => thread.isOwner);
+      if (resumable) {
+        void openThread(resumable.id);
+        return;
+      }
+      void callAgent(BOOTSTRAP_PROMPT);
+    }, [
+      open,
+      hasBootstrapped,
+      callAgent,
+      openThread,
+      threadsEnabled,
+      threadsQuery.isFetched,
+      threadsQuery.data,
+    ]);
 
     const handleSubmit = useCallback(
       async (event: React.FormEvent<HTMLFormElement>) => {
         event.preventDefault();
-        if (!input.trim() || isStreaming) return;
+        if (!input.trim() || isStreaming || isReadOnly) return;
         const content = input.trim();
         setInput("");
         await callAgent(content);
       },
-      [callAgent, input, isStreaming],
+      [callAgent, input, isStreaming, isReadOnly],
     );
 
     const renderMessage = useCallback((message: AgentChatMessage) => {
@@ -285,10 +649,58 @@ const AgentChat = forwardRef<AgentChatHandle, AgentChatProps>(
               </span>
             </div>
             <p className="whitespace-pre-wrap">{message.content}</p>
+            {message.stopped && (
+              <p className="mt-1 text-[11px] italic text-[#9A7C7C]">Stopped</p>
+            )}
+            {message.proposedEdits && message.proposedEdits.length > 0 && (
+              <div className="mt-3 space-y-2">
+                {message.proposedEdits.map((edit) => {
+                  const accepted = message.acceptedEditIds?.includes(edit.id);
+                  return (
+                    <div
+                      key={edit.id}
+                      className="rounded-lg border border-[#E8DDDD] bg-[#FDFBFB] px-3 py-2 text-xs"
+                    >
+                      <p className="font-semibold text-[#271D1D]">
+                        {edit.clauseReference || "Clause update"} ·{" "}
+                        {edit.changeType || "modify"}
+                      </p>
+                      <p className="mt-1 whitespace-pre-wrap text-[#271D1D]">
+                        {edit.suggestedText}
+                      </p>
+                      <p className="mt-1 text-[#725A5A]">{edit.rationale}</p>
+                      {accepted ? (
+                        <p className="mt-2 inline-flex items-center gap-1 font-medium text-emerald-700">
+                          <Check className="w-3 h-3" /> Accepted for the draft
+                        </p>
+                      ) : (
+                        !isReadOnly && (
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            className="mt-2 h-7 text-xs"
+                            disabled={threadsEnabled && !message.persisted}
+                            onClick={() => void handleAcceptEdit(message.id, edit)}
+                          >
+                            Accept edit
+                          </Button>
+                        )
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            {!isUser && message.provider && message.model && (
+              <p className="mt-2 text-[10px] text-[#9A7C7C]">
+                Source: {message.provider} – {message.model}
+              </p>
+            )}
           </div>
         </div>
       );
-    }, []);
+    }, [handleAcceptEdit, isReadOnly, threadsEnabled]);
 
     useImperativeHandle(ref, () => ({
       sendPrompt: async (content: string) => {
@@ -324,6 +736,109 @@ const AgentChat = forwardRef<AgentChatHandle, AgentChatProps>(
               </button>
             </div>
 
+            {threadsEnabled && (
+              <div className="px-4 py-2 border-b border-[#E8DDDD] space-y-1">
+                <div className="flex items-center gap-1">
+                  {renameDraft !== null && activeThread ? (
+                    <form
+                      className="flex-1"
+                      onSubmit={(event) => {
+                        event.preventDefault();
+                        const title = renameDraft;
+                        setRenameDraft(null);
+                        void runThreadAction(() =>
+                          AgentThreadsService.updateThread(
+                            activeThread.id,
+                            { title },
+                          ),
+                        );
+                      }}
+                    >
+                      <Input
+                        autoFocus
+                        value={renameDraft}
+                        onChange={(event) => setRenameDraft(event.target.value)}
+                        onBlur={() => setRenameDraft(null)}
+                        className="h-8 text-xs"
+                        aria-label="Conversation name"
+                      />
+                    </form>
+                  ) : (
+                    <select
+                      value={activeThreadId ?? ""}
+                      onChange={(event) => {
+                        if (event.target.value) {
+                          void openThread(event.target.value);
+                        } else {
+                          startNewThread();
+                        }
+                      }}
+                      className="flex-1 min-w-0 h-8 rounded-md border border-[#E8DDDD] bg-white px-2 text-xs text-[#271D1D]"
+                      aria-label="Conversation"
+                    >
+                      <option value="">New conversation</option>
+                      {threads.map((thread) => (
+                        <option key={thread.id} value={thread.id}>
+                          {thread.isOwner
+                            ? thread.title
+                            : `${thread.title} — ${thread.ownerName ?? "Teammate"}`}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  {activeThread?.isOwner && (
+                    <button
+                      type="button"
+                      onClick={() => setRenameDraft(activeThread.title)}
+                      className="h-8 w-8 inline-flex items-center justify-center rounded-full text-[#725A5A] hover:bg-[#F9F8F8]"
+                      aria-label="Rename conversation"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  {activeThread?.isOwner && canShare && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        void runThreadAction(() =>
+                          AgentThreadsService.updateThread(
+                            activeThread.id,
+                            { sharedWithOrg: !activeThread.sharedWithOrg },
+                          ),
+                        )
+                      }
+                      className={`h-8 w-8 inline-flex items-center justify-center rounded-full hover:bg-[#F9F8F8] ${
+                        activeThread.sharedWithOrg
+                          ? "text-[#9A7C7C] bg-[#9A7C7C]/15"
+                          : "text-[#725A5A]"
+                      }`}
+                      aria-label={
+                        activeThread.sharedWithOrg
+                          ? "Stop sharing with organization"
+                          : "Share read-only with organization"
+                      }
+                      aria-pressed={activeThread.sharedWithOrg}
+                    >
+                      <Users className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={startNewThread}
+                    className="h-8 w-8 inline-flex items-center justify-center rounded-full text-[#725A5A] hover:bg-[#F9F8F8]"
+                    aria-label="New conversation"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </div>
+                {isReadOnly && activeThread && (
+                  <p className="text-[11px] text-[#725A5A]">
+                    Shared by {activeThread.ownerName ?? "a teammate"} · read-only
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="px-3 pt-3 pb-2">
               <div className="bg-[#FDFBFB] border border-[#E8DDDD] rounded-xl h-80 overflow-hidden flex flex-col">
                 <div
@@ -332,7 +847,13 @@ const AgentChat = forwardRef<AgentChatHandle, AgentChatProps>(
                 >
                   {messages.map(renderMessage)}
 
-                  {isStreaming && (
+                  {isThreadLoading && (
+                    <div className="flex items-center gap-2 text-xs text-[#725A5A]">
+                      <Loader2 className="w-3 h-3 animate-spin" /> Loading conversation…
+                    </div>
+                  )}
+
+                  {isStreaming && !hasPartial && (
                     <div className="flex items-center gap-2 text-xs text-[#725A5A]">
                       <Loader2 className="w-3 h-3 animate-spin" /> Agent is preparing a suggestion…
                     </div>
@@ -353,22 +874,34 @@ const AgentChat = forwardRef<AgentChatHandle, AgentChatProps>(
                     <Input
                       value={input}
                       onChange={(event) => setInput(event.target.value)}
-                      placeholder="Describe the clause or change you need..."
+                      placeholder={
+                        isReadOnly
+                          ? "This shared conversation is read-only"
+                          : "Describe the clause or change you need..."
+                      }
                       className="flex-1 text-sm"
-                      disabled={isStreaming}
+                      disabled={isStreaming || isReadOnly}
                     />
-                    <Button
-                      type="submit"
-                      disabled={isStreaming || !input.trim()}
-                      className="bg-[#9A7C7C] hover:bg-[#725A5A] text-white"
-                      size="icon"
-                    >
-                      {isStreaming ? (
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                      ) : (
+                    {isStreaming ? (
+                      <Button
+                        type="button"
+                        onClick={stopStreaming}
+                        className="bg-[#725A5A] hover:bg-[#271D1D] text-white"
+                        size="icon"
+                        aria-label="Stop generating"
+                      >
+                        <Square className="w-4 h-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        type="submit"
+                        disabled={!input.trim() || isReadOnly}
+                        className="bg-[#9A7C7C] hover:bg-[#725A5A] text-white"
+                        size="icon"
+                      >
                         <Send className="w-4 h-4" />
-                      )}
-                    </Button>
+                      </Button>
+                    )}
                   </div>
                 </form>
               </div>
@@ -0,0 +1,318 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import ApprovalsService from "@/services/approvalsService";
+import type {
+  ApprovalInboxItem,
+  ContractApprovalState,
+  ContractWorkflowStatus,
+} from "@shared/api";
+import { CheckCircle2, Loader2, Send, XCircle } from "lucide-react";
+
+export const approvalInboxQueryKey = ["approval-inbox"];
+
+export const contractApprovalQueryKey = (contractId: string | null) => [
+  "contract-approval",
+  contractId,
+];
+
+const STATUS_LABELS: Record<ContractWorkflowStatus, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  awaiting_approval: "Awaiting approval",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+const STATUS_STYLES: Record<ContractWorkflowStatus, string> = {
+  draft: "bg-gray-100 text-gray-700",
+  in_review: "bg-blue-50 text-blue-700",
+  awaiting_approval: "bg-amber-50 text-amber-700",
+  approved: "bg-green-50 text-green-700",
+  rejected: "bg-red-50 text-red-700",
+};
+
+export const WorkflowStatusBadge: React.FC<{
+  status: ContractWorkflowStatus;
+}> = ({ status }) => (
+  <span
+    className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[status]}`}
+  >
+    {STATUS_LABELS[status]}
+  </span>
+);
+
+/**
+ * Approve/reject controls shared by the inbox rows and the review page card.
+ * Rejecting needs a reason, so the first click opens the reason box instead
+ * of submitting.
+ */
+const DecisionControls: React.FC<{ contractId: string }> = ({ contractId }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [rejecting, setRejecting] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const decideMutation = useMutation({
+    mutationFn: (decision: "approve" | "reject") =>
+      ApprovalsService.decide(
+        contractId,
+        decision,
+        decision === "reject" ? reason.trim() : undefined,
+      ),
+    onSuccess: (state) => {
+      setRejecting(false);
+      setReason("");
+      queryClient.invalidateQueries({ queryKey: approvalInboxQueryKey });
+      queryClient.setQueryData(contractApprovalQueryKey(contractId), state);
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Failed to record decision",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      {rejecting && (
+        <Textarea
+          aria-label="Rejection reason"
+          placeholder="Why is this contract being rejected?"
+          value={reason}
+          onChange={(event) => setReason(event.target.value)}
+          rows={2}
+          maxLength={2000}
+        />
+      )}
+      <div className="flex gap-2">
+        {rejecting ? (
+          <>
+            <Button
+              size="sm"
+              variant="destructive"
+              disabled={decideMutation.isPending || !reason.trim()}
+              onClick={() => decideMutation.mutate("reject")}
+            >
+              Confirm rejection
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={decideMutation.isPending}
+              onClick={() => setRejecting(false)}
+            >
+              Cancel
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button
+              size="sm"
+              className="bg-[#9A7C7C] text-white hover:bg-[#9A7C7C]/90"
+              disabled={decideMutation.isPending}
+              onClick={() => decideMutation.mutate("approve")}
+            >
+              {decideMutation.isPending ? (
+                <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+              ) : (
+                <CheckCircle2 className="mr-1 h-4 w-4" />
+              )}
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={decideMutation.isPending}
+              onClick={() => setRejecting(true)}
+            >
+              <XCircle className="mr-1 h-4 w-4" />
+              Reject
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const InboxRow: React.FC<{ item: ApprovalInboxItem }> = ({ item }) => (
+  <div className="space-y-2 rounded-lg border border-[#271D1D]/10 p-4">
+    <div className="flex flex-wrap items-start justify-between gap-2">
+      <div>
+        <p className="text-sm font-medium text-[#271D1D]">
+          {item.contractTitle}
+        </p>
+        <p className="text-xs text-[#271D1D]/60">
+          {item.chainName}: stage {item.stageNumber} of {item.stageCount} (
+          {item.stageName})
+          {item.maxSeverity ? `, worst issue ${item.maxSeverity}` : ""}
+        </p>
+      </div>
+      <p className="text-xs text-[#271D1D]/50">
+        {item.submittedBy ? `Submitted by ${item.submittedBy}` : "Submitted"}
+        {item.submittedAt
+          ? ` on ${new Date(item.submittedAt).toLocaleDateString()}`
+          : ""}
+      </p>
+    </div>
+    <DecisionControls contractId={item.contractId} />
+  </div>
+);
+
+/**
+ * Contracts waiting on the signed-in user's sign-off. Renders nothing when the
+ * inbox is empty so members outside any approval chain never see it.
+ */
+export const ApprovalInbox: React.FC<{ authUserId: string | null }> = ({
+  authUserId,
+}) => {
+  const inboxQuery = useQuery<ApprovalInboxItem[]>({
+    queryKey: approvalInboxQueryKey,
+    queryFn: () => ApprovalsService.getInbox(),
+    enabled: Boolean(authUserId),
+  });
+
+  const items = inboxQuery.data ?? [];
+  if (!authUserId || items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg p-6 border border-[#271D1D]/10">
+      <h2 className="font-lora text-lg font-medium text-[#271D1D] mb-4">
+        Awaiting Your Approval ({items.length})
+      </h2>
+      <div className="space-y-3">
+        {items.map((item) => (
+          <InboxRow key={item.contractId} item={item} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Workflow status, stage progress and decision history for one contract,
+ * with the submit or approve/reject actions the signed-in user may take.
+ */
+export const ContractApprovalCard: React.FC<{
+  authUserId: string | null;
+  contractId: string | null;
+}> = ({ authUserId, contractId }) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const stateQuery = useQuery<ContractApprovalState>({
+    queryKey: contractApprovalQueryKey(contractId),
+    queryFn: () => ApprovalsService.getState(contractId!),
+    enabled: Boolean(authUserId && contractId),
+    retry: false,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: () => ApprovalsService.submit(contractId!),
+    onSuccess: (state) => {
+      queryClient.setQueryData(contractApprovalQueryKey(contractId), state);
+      queryClient.invalidateQueries({ queryKey: approvalInboxQueryKey });
+      toast({
+        title:
+          state.status === "approved"
+            ? "Contract approved"
+            : "Submitted for approval",
+        description:
+          state.status === "approved"
+            ? "No approval chain applies to this contract."
+            : `Waiting on ${state.stages[state.currentStageIndex ?? 0]?.name ?? "the first stage"}.`,
+      });
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Failed to submit for approval",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const state = stateQuery.data;
+  if (!authUserId || !contractId || !state) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 space-y-3 rounded-lg border border-[#271D1D]/10 bg-white p-4 print:hidden">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <h3 className="text-sm font-semibold text-[#271D1D]">Approval</h3>
+          <WorkflowStatusBadge status={state.status} />
+          {state.chainName && (
+            <span className="text-xs text-[#271D1D]/60">{state.chainName}</span>
+          )}
+        </div>
+        {state.canSubmit && (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={submitMutation.isPending}
+            onClick={() => submitMutation.mutate()}
+          >
+            {submitMutation.isPending ? (
+              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+            ) : (
+              <Send className="mr-1 h-4 w-4" />
+            )}
+            {state.status === "rejected" ? "Resubmit" : "Submit for approval"}
+          </Button>
+        )}
+      </div>
+
+      {state.stages.length > 0 && (
+        <ol className="flex flex-wrap gap-2 text-xs">
+          {state.stages.map((stage, index) => {
+            const done =
+              state.status === "approved" ||
+              (state.currentStageIndex !== null &&
+                index < state.currentStageIndex);
+            const current =
+              state.status === "awaiting_approval" &&
+              index === state.currentStageIndex;
+            return (
+              <li
+                key={`${stage.name}-${index}`}
+                className={`rounded-full border px-2 py-0.5 ${
+                  done
+                    ? "border-green-200 bg-green-50 text-green-700"
+                    : current
+                      ? "border-amber-200 bg-amber-50 text-amber-700"
+                      : "border-[#271D1D]/10 text-[#271D1D]/60"
+                }`}
+              >
+                {index + 1}. {stage.name}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {state.canDecide && <DecisionControls contractId={contractId} />}
+
+      {state.trail.length > 0 && (
+        <ul className="space-y-1 border-t border-[#271D1D]/10 pt-2 text-xs text-[#271D1D]/70">
+          {state.trail.map((event) => (
+            <li key={event.id}>
+              {new Date(event.createdAt).toLocaleString()}: {event.action}
+              {event.stageName ? ` at ${event.stageName}` : ""}
+              {event.actorEmail ? ` by ${event.actorEmail}` : ""}
+              {event.reason ? `: "${event.reason}"` : ""}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
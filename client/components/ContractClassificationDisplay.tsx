@@ -3,6 +3,7 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { CheckCircle, FileText, Lightbulb, Target } from "lucide-react";
 import {
+  contractTypeLabel,
   solutionKeyToDisplayName,
   type SolutionKey,
 } from "@shared/solutions";
@@ -29,21 +30,6 @@ const ContractClassificationDisplay: React.FC<ContractClassificationDisplayProps
 }) => {
   if (!isVisible) return null;
 
-  const getContractTypeDisplayName = (contractType: string): string => {
-    const displayNames: Record<string, string> = {
-      data_processing_agreement: 'Data Processing Agreement',
-      non_disclosure_agreement: 'Non-Disclosure Agreement',
-      privacy_policy_document: 'Privacy Policy Document',
-      consultancy_agreement: 'Consultancy Agreement',
-      research_development_agreement: 'R&D Agreement',
-      end_user_license_agreement: 'End User License Agreement',
-      product_supply_agreement: 'Product Supply Agreement',
-      general_commercial: 'General Commercial Agreement'
-    };
-
-    return displayNames[contractType] || 'Commercial Agreement';
-  };
-
   const getSolutionDisplayName = (solution: string): string => {
     const names: Record<string, string> = {
       risk_assessment: 'Risk Assessment',
@@ -68,7 +54,7 @@ const ContractClassificationDisplay: React.FC<ContractClassificationDisplayProps
         <div className="flex items-center gap-2">
           <FileText className="w-4 h-4 text-blue-600" />
           <span className="font-medium text-gray-900">
-            {getContractTypeDisplayName(classification.contractType)}
+            {contractTypeLabel(classification.contractType)}
           </span>
           {classification.subType && (
             <span className="text-sm text-gray-600">({classification.subType})</span>
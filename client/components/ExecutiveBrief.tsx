@@ -0,0 +1,186 @@
+import React from "react";
+import {
+  BRIEF_ACTION_LIMIT,
+  BRIEF_ISSUE_LIMIT,
+  selectTopIssues,
+} from "@shared/ai/solutionProfiles";
+
+export interface ExecutiveBriefIssue {
+  id: string;
+  title: string;
+  severity: string;
+  recommendation: string;
+}
+
+export interface ExecutiveBriefStep {
+  id: string;
+  description: string;
+  owner?: string | null;
+}
+
+interface ExecutiveBriefProps {
+  contractName: string;
+  parties: string[];
+  purpose?: string | null;
+  perspective?: string | null;
+  generatedAt: string;
+  score: number | null;
+  /** Band label from the scoring profile, e.g. "Negotiate". */
+  scoreBand?: string | null;
+  issues: ExecutiveBriefIssue[];
+  nextSteps: ExecutiveBriefStep[];
+  missingInformationCount: number;
+}
+
+const SEVERITY_LEVELS = ["critical", "high", "medium", "low"] as const;
+
+const SEVERITY_STYLES: Record<string, string> = {
+  critical: "bg-red-50 text-red-800 border-red-200",
+  high: "bg-orange-50 text-orange-800 border-orange-200",
+  medium: "bg-yellow-50 text-yellow-800 border-yellow-200",
+  low: "bg-green-50 text-green-800 border-green-200",
+  info: "bg-gray-50 text-gray-700 border-gray-200",
+};
+
+/**
+ * One-page brief for the executive report format. Sized to print on a single
+ * A4 page, so it shows the top issues and next steps rather than every item.
+ */
+export const ExecutiveBrief: React.FC<ExecutiveBriefProps> = ({
+  contractName,
+  parties,
+  purpose,
+  perspective,
+  generatedAt,
+  score,
+  scoreBand,
+  issues,
+  nextSteps,
+  missingInformationCount,
+}) => {
+  const topIssues = selectTopIssues(issues, BRIEF_ISSUE_LIMIT);
+  const counts = SEVERITY_LEVELS.map((level) => ({
+    level,
+    count: issues.filter((issue) => issue.severity === level).length,
+  }));
+  const boundedScore =
+    typeof score === "number" ? Math.min(100, Math.max(0, score)) : null;
+
+  return (
+    <section className="mb-8 rounded-lg border border-[#E8DDDD] bg-white p-6 shadow-sm print:mb-0 print:break-inside-avoid print:border-0 print:p-0 print:shadow-none">
+      <div className="flex items-start justify-between gap-6 border-b border-[#E8DDDD] pb-4">
+        <div className="min-w-0">
+          <p className="text-xs uppercase tracking-wide text-[#9A7C7C]">
+            Executive brief
+          </p>
+          <h2 className="mt-1 text-xl font-medium text-[#271D1D] font-lora">
+            {contractName}
+          </h2>
+          {parties.length > 0 && (
+            <p className="mt-1 text-sm text-gray-600">{parties.join(" · ")}</p>
+          )}
+          <p className="mt-1 text-xs text-gray-500">
+            {perspective ? `${perspective} perspective · ` : ""}
+            {new Date(generatedAt).toLocaleDateString()}
+          </p>
+        </div>
+        <div className="shrink-0 text-right">
+          <p className="text-xs uppercase tracking-wide text-gray-500">Score</p>
+          <p className="text-3xl font-semibold text-[#271D1D]">
+            {boundedScore ?? "–"}
+            <span className="text-base font-normal text-gray-500">/100</span>
+          </p>
+          {scoreBand && (
+            <p className="text-sm font-medium text-[#725A5A]">{scoreBand}</p>
+          )}
+        </div>
+      </div>
+
+      {purpose && (
+        <p className="mt-4 text-sm leading-relaxed text-gray-700">{purpose}</p>
+      )}
+
+      <div className="mt-4 grid grid-cols-2 gap-2 sm:grid-cols-4">
+        {counts.map(({ level, count }) => (
+          <div
+            key={level}
+            className={`rounded-md border px-3 py-2 ${SEVERITY_STYLES[level]}`}
+          >
+            <p className="text-xs uppercase tracking-wide opacity-70">
+              {level}
+            </p>
+            <p className="text-lg font-semibold">{count}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-5">
+        <h3 className="text-sm font-semibold uppercase tracking-wide text-[#271D1D]">
+          Top issues
+        </h3>
+        {topIssues.length === 0 ? (
+          <p className="mt-2 text-sm text-gray-600">
+            No issues were flagged in this review.
+          </p>
+        ) : (
+          <ol className="mt-2 space-y-2">
+            {topIssues.map((issue) => (
+              <li key={issue.id} className="text-sm">
+                <div className="flex items-center gap-2">
+                  <span
+                    className={`rounded-full border px-2 py-0.5 text-[10px] font-medium uppercase ${
+                      SEVERITY_STYLES[issue.severity] ?? SEVERITY_STYLES.info
+                    }`}
+                  >
+                    {issue.severity}
+                  </span>
+                  <span className="font-medium text-[#271D1D]">
+                    {issue.title}
+                  </span>
+                </div>
+                <p className="mt-0.5 line-clamp-2 text-gray-600">
+                  {issue.recommendation}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+        {issues.length > topIssues.length && (
+          <p className="mt-2 text-xs text-gray-500">
+            {issues.length - topIssues.length} further issue
+            {issues.length - topIssues.length === 1 ? "" : "s"} in the detailed
+            report.
+          </p>
+        )}
+      </div>
+
+      {nextSteps.length > 0 && (
+        <div className="mt-5">
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-[#271D1D]">
+            Next steps
+          </h3>
+          <ul className="mt-2 space-y-1 text-sm text-gray-700">
+            {nextSteps.slice(0, BRIEF_ACTION_LIMIT).map((step) => (
+              <li key={step.id}>
+                • {step.description}
+                {step.owner ? (
+                  <span className="text-gray-500"> ({step.owner})</span>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {missingInformationCount > 0 && (
+        <p className="mt-4 text-xs text-red-700">
+          {missingInformationCount} item
+          {missingInformationCount === 1 ? " needs" : "s need"} confirmation
+          before signing.
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default ExecutiveBrief;
@@ -0,0 +1,362 @@
+import React, { useMemo, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import ReviewCommentsService from "@/services/reviewCommentsService";
+import type {
+  ReviewComment,
+  ReviewCommentAnchorType,
+  ReviewCommentAuthor,
+  ReviewCommentThread,
+} from "@shared/api";
+import { CheckCircle2, Loader2, RotateCcw } from "lucide-react";
+
+const MENTION_PATTERN = /(?:^|\s)@([^\s@]*)$/;
+
+export const reviewCommentsQueryKey = (reviewId: string | null) => [
+  "review-comments",
+  reviewId,
+];
+
+export const commentAnchorKey = (
+  anchorType: ReviewCommentAnchorType,
+  anchorId: string,
+) => `${anchorType}:${anchorId.toLowerCase()}`;
+
+/**
+ * Loads the comment threads and mentionable members for a review and indexes
+ * the threads by anchor so cards can look up their own.
+ */
+export function useReviewComments(
+  reviewId: string | null,
+  authUserId: string | null,
+) {
+  const enabled = Boolean(reviewId && authUserId);
+  const threadsQuery = useQuery<ReviewCommentThread[]>({
+    queryKey: reviewCommentsQueryKey(reviewId),
+    queryFn: () => ReviewCommentsService.listThreads(reviewId!),
+    enabled,
+  });
+  const membersQuery = useQuery<ReviewCommentAuthor[]>({
+    queryKey: ["review-comment-members", reviewId],
+    queryFn: () => ReviewCommentsService.listMembers(reviewId!),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const threadsByAnchor = useMemo(() => {
+    const lookup = new Map<string, ReviewCommentThread[]>();
+    (threadsQuery.data ?? []).forEach((thread) => {
+      const key = commentAnchorKey(thread.anchorType, thread.anchorId);
+      lookup.set(key, [...(lookup.get(key) ?? []), thread]);
+    });
+    return lookup;
+  }, [threadsQuery.data]);
+
+  return {
+    enabled,
+    threads: threadsQuery.data ?? [],
+    threadsByAnchor,
+    members: membersQuery.data ?? [],
+    isLoading: threadsQuery.isLoading,
+  };
+}
+
+export const countComments = (threads: ReviewCommentThread[]) =>
+  threads.reduce((total, thread) => total + 1 + thread.replies.length, 0);
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+interface CommentComposerProps {
+  members: ReviewCommentAuthor[];
+  placeholder: string;
+  submitLabel: string;
+  isSubmitting: boolean;
+  onSubmit: (body: string, mentions: string[]) => Promise<unknown>;
+}
+
+function CommentComposer({
+  members,
+  placeholder,
+  submitLabel,
+  isSubmitting,
+  onSubmit,
+}: CommentComposerProps) {
+  const [body, setBody] = useState("");
+  const [mentionIds, setMentionIds] = useState<string[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const suggestions = useMemo(() => {
+    if (mentionQuery === null) return [];
+    const query = mentionQuery.toLowerCase();
+    return members
+      .filter(
+        (member) =>
+          member.name.toLowerCase().includes(query) ||
+          (member.email ?? "").toLowerCase().includes(query),
+      )
+      .slice(0, 6);
+  }, [members, mentionQuery]);
+
+  const updateMentionQuery = (text: string, caret: number) => {
+    const match = MENTION_PATTERN.exec(text.slice(0, caret));
+    setMentionQuery(match ? match[1] : null);
+  };
+
+  const insertMention = (member: ReviewCommentAuthor) => {
+    const caret = textareaRef.current?.selectionStart ?? body.length;
+    const before = body
+      .slice(0, caret)
+      .replace(/@[^\s@]*$/, `@${member.name} `);
+    setBody(`${before}${body.slice(caret)}`);
+    setMentionIds((current) =>
+      current.includes(member.id) ? current : [...current, member.id],
+    );
+    setMentionQuery(null);
+    textareaRef.current?.focus();
+  };
+
+  const handleSubmit = async () => {
+    const trimmed = body.trim();
+    if (!trimmed) return;
+    try {
+      await onSubmit(trimmed, mentionIds);
+    } catch {
+      // The mutation reports the failure; keep the draft for a retry.
+      return;
+    }
+    setBody("");
+    setMentionIds([]);
+    setMentionQuery(null);
+  };
+
+  return (
+    <div className="relative space-y-2">
+      <Textarea
+        ref={textareaRef}
+        value={body}
+        rows={2}
+        maxLength={5000}
+        placeholder={placeholder}
+        className="min-h-[60px] bg-white text-sm"
+        onChange={(event) => {
+          setBody(event.target.value);
+          updateMentionQuery(
+            event.target.value,
+            event.target.selectionStart ?? event.target.value.length,
+          );
+        }}
+        onKeyDown={(event) => {
+          if (event.key === "Escape") {
+            setMentionQuery(null);
+          }
+        }}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 top-full z-10 mt-1 w-64 rounded-md border border-[#E8DDDD] bg-white py-1 shadow-lg">
+          {suggestions.map((member) => (
+            <button
+              key={member.id}
+              type="button"
+              className="flex w-full flex-col px-3 py-1.5 text-left hover:bg-[#F9F8F8]"
+              onMouseDown={(event) => {
+                event.preventDefault();
+                insertMention(member);
+              }}
+            >
+              <span className="text-xs font-medium text-[#271D1D]">
+                {member.name}
+              </span>
+              {member.email && (
+                <span className="text-[11px] text-[#6B7280]">
+                  {member.email}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          className="bg-[#271D1D] hover:bg-[#3A2F2F] text-white"
+          disabled={!body.trim() || isSubmitting}
+          onClick={handleSubmit}
+        >
+          {isSubmitting ? <Loader2 className="h-3 w-3 animate-spin" /> : null}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function CommentBody({ comment }: { comment: ReviewComment }) {
+  return (
+    <div className="space-y-0.5">
+      <p className="text-xs text-[#6B7280]">
+        <span className="font-medium text-[#271D1D]">
+          {comment.author?.name ?? "Former member"}
+        </span>
+        {" · "}
+        {formatTimestamp(comment.createdAt)}
+      </p>
+      <p className="whitespace-pre-wrap text-sm text-[#271D1D]">
+        {comment.body}
+      </p>
+    </div>
+  );
+}
+
+interface ReviewCommentThreadsProps {
+  reviewId: string;
+  anchorType: ReviewCommentAnchorType;
+  anchorId: string;
+  threads: ReviewCommentThread[];
+  members: ReviewCommentAuthor[];
+}
+
+const ReviewCommentThreads: React.FC<ReviewCommentThreadsProps> = ({
+  reviewId,
+  anchorType,
+  anchorId,
+  threads,
+  members,
+}) => {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: (input: {
+      body: string;
+      mentions: string[];
+      parentId?: string;
+    }) =>
+      ReviewCommentsService.addComment(reviewId, {
+        anchorType,
+        anchorId,
+        ...input,
+      }),
+    onSuccess: () => {
+      setReplyingTo(null);
+      queryClient.invalidateQueries({
+        queryKey: reviewCommentsQueryKey(reviewId),
+      });
+    },
+    onError: onError("Failed to post comment"),
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: (input: { threadId: string; resolved: boolean }) =>
+      ReviewCommentsService.setResolved(
+        reviewId,
+        input.threadId,
+        input.resolved,
+      ),
+    onSuccess: () =>
+      queryClient.invalidateQueries({
+        queryKey: reviewCommentsQueryKey(reviewId),
+      }),
+    onError: onError("Failed to update thread"),
+  });
+
+  return (
+    <div className="mt-3 space-y-3 rounded-md border border-[#E8DDDD] bg-white p-3 print:hidden">
+      {threads.map((thread) => {
+        const resolved = Boolean(thread.resolvedAt);
+        return (
+          <div
+            key={thread.id}
+            className={`space-y-2 rounded-md border border-[#F3E9E9] p-3 ${
+              resolved ? "bg-[#F9F8F8] opacity-80" : "bg-[#FFFDFB]"
+            }`}
+          >
+            <CommentBody comment={thread.root} />
+            {thread.replies.map((reply) => (
+              <div
+                key={reply.id}
+                className="ml-3 border-l-2 border-[#E8DDDD] pl-3"
+              >
+                <CommentBody comment={reply} />
+              </div>
+            ))}
+            <div className="flex flex-wrap items-center gap-3 text-xs">
+              {resolved ? (
+                <span className="inline-flex items-center gap-1 text-emerald-700">
+                  <CheckCircle2 className="h-3 w-3" />
+                  Resolved
+                  {thread.resolvedBy ? ` by ${thread.resolvedBy.name}` : ""}
+                </span>
+              ) : (
+                <button
+                  type="button"
+                  className="text-[#9A7C7C] underline"
+                  onClick={() =>
+                    setReplyingTo(replyingTo === thread.id ? null : thread.id)
+                  }
+                >
+                  Reply
+                </button>
+              )}
+              <button
+                type="button"
+                className="inline-flex items-center gap-1 text-[#9A7C7C] underline"
+                disabled={resolveMutation.isPending}
+                onClick={() =>
+                  resolveMutation.mutate({
+                    threadId: thread.id,
+                    resolved: !resolved,
+                  })
+                }
+              >
+                {resolved ? <RotateCcw className="h-3 w-3" /> : null}
+                {resolved ? "Reopen" : "Resolve"}
+              </button>
+            </div>
+            {replyingTo === thread.id && !resolved && (
+              <CommentComposer
+                members={members}
+                placeholder="Reply… type @ to mention a colleague"
+                submitLabel="Reply"
+                isSubmitting={addMutation.isPending}
+                onSubmit={(body, mentions) =>
+                  addMutation.mutateAsync({
+                    body,
+                    mentions,
+                    parentId: thread.id,
+                  })
+                }
+              />
+            )}
+          </div>
+        );
+      })}
+      <CommentComposer
+        members={members}
+        placeholder="Add a comment… type @ to mention a colleague"
+        submitLabel="Comment"
+        isSubmitting={addMutation.isPending}
+        onSubmit={(body, mentions) =>
+          addMutation.mutateAsync({ body, mentions })
+        }
+      />
+    </div>
+  );
+};
+
+export default ReviewCommentThreads;
@@ -0,0 +1,169 @@
+import React, { useState } from "react";
+import {
+  DEFAULT_SCORING_PROFILE,
+  resolveScoreBand,
+  type ScoreBreakdown,
+} from "@shared/ai/scoringProfile";
+import { ChevronDown, ChevronUp } from "lucide-react";
+
+/** Reviews scored before scoring profiles only carry the three penalties. */
+export type ScoreExplainerBreakdown = Pick<
+  ScoreBreakdown,
+  "issuePenalty" | "criteriaPenalty" | "coveragePenalty"
+> &
+  Partial<
+    Omit<ScoreBreakdown, "issuePenalty" | "criteriaPenalty" | "coveragePenalty">
+  >;
+
+interface ScoreExplainerProps {
+  score: number;
+  breakdown: ScoreExplainerBreakdown;
+}
+
+const PROFILE_SOURCE_LABELS: Record<string, string> = {
+  default: "Maigon's default scoring profile",
+  organization: "your organization's scoring profile",
+  solution: "this solution's scoring profile",
+};
+
+const formatPenalty = (value: number) => (value > 0 ? `−${value}` : "0");
+
+/**
+ * "Why this score" panel: the deductions that took the compliance score down
+ * from 100 and the band the result falls in.
+ */
+export const ScoreExplainer: React.FC<ScoreExplainerProps> = ({
+  score,
+  breakdown,
+}) => {
+  const [open, setOpen] = useState(false);
+  const band =
+    breakdown.band ?? resolveScoreBand(score, DEFAULT_SCORING_PROFILE.bands);
+  const contributions = breakdown.contributions ?? [];
+  const criteriaMissed = breakdown.criteriaMissed ?? [];
+  const severityCounts = Object.entries(breakdown.issuesBySeverity ?? {});
+
+  const rows = [
+    {
+      label: "Issues to address",
+      penalty: breakdown.issuePenalty,
+      detail: severityCounts.length
+        ? severityCounts
+            .map(([severity, count]) => `${count} ${severity}`)
+            .join(", ")
+        : "No issues flagged",
+    },
+    {
+      label: "Criteria not met",
+      penalty: breakdown.criteriaPenalty,
+      detail: `${criteriaMissed.length} missed`,
+    },
+    {
+      label: "Playbook coverage",
+      penalty: breakdown.coveragePenalty,
+      detail:
+        typeof breakdown.coverageScore === "number"
+          ? `${Math.round(breakdown.coverageScore * 100)}% of playbook clauses found`
+          : "Not assessed",
+    },
+  ];
+
+  return (
+    <div className="mt-3 border-t border-[#F3E9E9] pt-3 text-sm">
+      <div className="flex items-center justify-between gap-3">
+        {band ? (
+          <p className="text-[#271D1D]">
+            <span className="font-semibold">{band.label}</span>
+            {band.description ? (
+              <span className="text-[#6B4F4F]"> · {band.description}</span>
+            ) : null}
+          </p>
+        ) : (
+          <span />
+        )}
+        <button
+          type="button"
+          onClick={() => setOpen((value) => !value)}
+          className="flex shrink-0 items-center gap-1 text-xs font-medium text-[#9A7C7C] hover:text-[#725A5A] print:hidden"
+          aria-expanded={open}
+        >
+          Why this score?
+          {open ? (
+            <ChevronUp className="h-3 w-3" />
+          ) : (
+            <ChevronDown className="h-3 w-3" />
+          )}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-3 space-y-3">
+          <table className="w-full text-left text-xs">
+            <tbody>
+              <tr className="text-[#6B4F4F]">
+                <td className="py-1">Starting score</td>
+                <td />
+                <td className="py-1 text-right font-medium">100</td>
+              </tr>
+              {rows.map((row) => (
+                <tr key={row.label} className="border-t border-[#F3E9E9]">
+                  <td className="py-1 text-[#271D1D]">{row.label}</td>
+                  <td className="py-1 text-[#6B4F4F]">{row.detail}</td>
+                  <td className="py-1 text-right font-medium text-[#271D1D]">
+                    {formatPenalty(row.penalty)}
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-t border-[#E8DDDD] font-semibold text-[#271D1D]">
+                <td className="py-1">Score</td>
+                <td />
+                <td className="py-1 text-right">{score}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          {contributions.length > 0 && (
+            <div>
+              <p className="text-xs font-semibold uppercase tracking-wide text-[#6B4F4F]">
+                Largest issue deductions
+              </p>
+              <ul className="mt-1 space-y-0.5 text-xs text-[#271D1D]">
+                {contributions.slice(0, 5).map((entry) => (
+                  <li key={`${entry.severity}:${entry.category ?? ""}`}>
+                    {entry.count} {entry.severity}
+                    {entry.category
+                      ? ` ${entry.category.replace(/_/g, " ")} (×${entry.multiplier})`
+                      : ""}
+                    : {formatPenalty(entry.penalty)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {criteriaMissed.length > 0 && (
+            <div>
+              <p className="text-xs font-semibold uppercase tracking-wide text-[#6B4F4F]">
+                Criteria not met
+              </p>
+              <ul className="mt-1 list-disc pl-4 text-xs text-[#271D1D]">
+                {criteriaMissed.map((title) => (
+                  <li key={title}>{title}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <p className="text-xs text-[#6B4F4F]">
+            Scored with{" "}
+            {PROFILE_SOURCE_LABELS[breakdown.profileSource ?? "default"]}. The
+            issue deduction is capped, so many findings of one kind do not drive
+            the score to zero on their own.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScoreExplainer;
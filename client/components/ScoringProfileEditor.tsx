@@ -0,0 +1,283 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  SCORING_SEVERITIES,
+  type ScoreBand,
+  type ScoringProfile,
+} from "@shared/ai/scoringProfile";
+import { Plus, Trash2 } from "lucide-react";
+
+interface ScoringProfileEditorProps {
+  value: ScoringProfile;
+  onChange: (profile: ScoringProfile) => void;
+  disabled?: boolean;
+}
+
+const PENALTY_FIELDS: Array<{
+  key:
+    | "issuePenaltyCap"
+    | "criteriaMissPenalty"
+    | "criteriaPenaltyCap"
+    | "coveragePenaltyCap";
+  label: string;
+}> = [
+  { key: "issuePenaltyCap", label: "Issue penalty cap" },
+  { key: "criteriaMissPenalty", label: "Per missed criterion" },
+  { key: "criteriaPenaltyCap", label: "Criteria penalty cap" },
+  { key: "coveragePenaltyCap", label: "Playbook coverage penalty" },
+];
+
+const toNumber = (value: string): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0;
+};
+
+/**
+ * Controlled editor for a scoring profile, shared by the organization admin
+ * panel and the custom solution builder.
+ */
+export const ScoringProfileEditor: React.FC<ScoringProfileEditorProps> = ({
+  value,
+  onChange,
+  disabled = false,
+}) => {
+  const multipliers = Object.entries(value.categoryMultipliers);
+
+  const updateMultiplier = (
+    index: number,
+    category: string,
+    multiplier: number,
+  ) => {
+    const next = multipliers.map((entry, entryIndex) =>
+      entryIndex === index ? ([category, multiplier] as const) : entry,
+    );
+    onChange({ ...value, categoryMultipliers: Object.fromEntries(next) });
+  };
+
+  const removeMultiplier = (index: number) => {
+    onChange({
+      ...value,
+      categoryMultipliers: Object.fromEntries(
+        multipliers.filter((_, entryIndex) => entryIndex !== index),
+      ),
+    });
+  };
+
+  const addMultiplier = () => {
+    let category = "category";
+    for (let suffix = 2; category in value.categoryMultipliers; suffix += 1) {
+      category = `category_${suffix}`;
+    }
+    onChange({
+      ...value,
+      categoryMultipliers: { ...value.categoryMultipliers, [category]: 2 },
+    });
+  };
+
+  const updateBand = (index: number, patch: Partial<ScoreBand>) => {
+    onChange({
+      ...value,
+      bands: value.bands.map((band, bandIndex) =>
+        bandIndex === index ? { ...band, ...patch } : band,
+      ),
+    });
+  };
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <Label className="text-sm font-medium text-[#271D1D]">
+          Severity weights
+        </Label>
+        <div className="mt-2 grid grid-cols-2 gap-3 sm:grid-cols-5">
+          {SCORING_SEVERITIES.map((severity) => (
+            <div key={severity} className="space-y-1">
+              <span className="text-xs capitalize text-[#725A5A]">
+                {severity}
+              </span>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={value.severityWeights[severity]}
+                disabled={disabled}
+                onChange={(event) =>
+                  onChange({
+                    ...value,
+                    severityWeights: {
+                      ...value.severityWeights,
+                      [severity]: toNumber(event.target.value),
+                    },
+                  })
+                }
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <Label className="text-sm font-medium text-[#271D1D]">Penalties</Label>
+        <div className="mt-2 grid grid-cols-2 gap-3 sm:grid-cols-4">
+          {PENALTY_FIELDS.map(({ key, label }) => (
+            <div key={key} className="space-y-1">
+              <span className="text-xs text-[#725A5A]">{label}</span>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={value[key]}
+                disabled={disabled}
+                onChange={(event) =>
+                  onChange({ ...value, [key]: toNumber(event.target.value) })
+                }
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <Label className="text-sm font-medium text-[#271D1D]">
+            Category multipliers
+          </Label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={disabled}
+            onClick={addMultiplier}
+          >
+            <Plus className="mr-1 h-3 w-3" /> Add category
+          </Button>
+        </div>
+        <p className="text-xs text-[#725A5A]">
+          Issues whose category or tag matches count this many times their
+          severity weight.
+        </p>
+        <div className="mt-2 space-y-2">
+          {multipliers.map(([category, multiplier], index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={category}
+                placeholder="liability"
+                disabled={disabled}
+                onChange={(event) =>
+                  updateMultiplier(index, event.target.value, multiplier)
+                }
+              />
+              <Input
+                type="number"
+                min={0}
+                max={10}
+                step={0.5}
+                className="w-24"
+                value={multiplier}
+                disabled={disabled}
+                onChange={(event) =>
+                  updateMultiplier(
+                    index,
+                    category,
+                    toNumber(event.target.value),
+                  )
+                }
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={disabled}
+                onClick={() => removeMultiplier(index)}
+                aria-label={`Remove ${category}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <Label className="text-sm font-medium text-[#271D1D]">
+            Score bands
+          </Label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={disabled}
+            onClick={() =>
+              onChange({
+                ...value,
+                bands: [...value.bands, { minScore: 0, label: "" }],
+              })
+            }
+          >
+            <Plus className="mr-1 h-3 w-3" /> Add band
+          </Button>
+        </div>
+        <p className="text-xs text-[#725A5A]">
+          A score falls in the highest band whose minimum it reaches.
+        </p>
+        <div className="mt-2 space-y-2">
+          {value.bands.map((band, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                className="w-20"
+                value={band.minScore}
+                disabled={disabled}
+                onChange={(event) =>
+                  updateBand(index, {
+                    minScore: toNumber(event.target.value),
+                  })
+                }
+              />
+              <Input
+                value={band.label}
+                placeholder="Negotiate"
+                disabled={disabled}
+                onChange={(event) =>
+                  updateBand(index, { label: event.target.value })
+                }
+              />
+              <Input
+                value={band.description ?? ""}
+                placeholder="What the reader should do"
+                disabled={disabled}
+                onChange={(event) =>
+                  updateBand(index, { description: event.target.value })
+                }
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={disabled || value.bands.length === 1}
+                onClick={() =>
+                  onChange({
+                    ...value,
+                    bands: value.bands.filter(
+                      (_, bandIndex) => bandIndex !== index,
+                    ),
+                  })
+                }
+                aria-label={`Remove ${band.label || "band"}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScoringProfileEditor;
@@ -0,0 +1,497 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/components/ui/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useUser } from "@/contexts/SupabaseUserContext";
+import OrgAdminService, {
+  type UpdateAlertPreferencesRequest,
+} from "@/services/orgAdminService";
+import type {
+  OrgAlertChannel,
+  OrgAlertDelivery,
+  OrgAlertDeliveryMode,
+  OrgAlertDeliveryStatus,
+  OrgAlertPreferences,
+} from "@shared/api";
+import { Pencil, RotateCcw } from "lucide-react";
+
+type ChannelDraft = {
+  deliveryMode: OrgAlertDeliveryMode;
+  alertChannel: OrgAlertChannel;
+  emailRecipients: string;
+  webhookUrl: string;
+  webhookSecret: string;
+  slackWebhookUrl: string;
+};
+
+const CHANNEL_OPTIONS: Array<{ key: OrgAlertChannel; label: string }> = [
+  { key: "email", label: "Email" },
+  { key: "webhook", label: "Signed webhook" },
+  { key: "slack", label: "Slack webhook" },
+];
+
+const MODE_OPTIONS: Array<{
+  key: OrgAlertDeliveryMode;
+  label: string;
+  description: string;
+}> = [
+  {
+    key: "immediate",
+    label: "Immediate",
+    description: "Send each alert as soon as it is detected",
+  },
+  {
+    key: "digest",
+    label: "Daily digest",
+    description: "Bundle alerts into one message per day",
+  },
+];
+
+const STATUS_STYLES: Record<OrgAlertDeliveryStatus, string> = {
+  pending: "border-amber-200 bg-amber-100 text-amber-900",
+  sending: "border-blue-200 bg-blue-100 text-blue-900",
+  sent: "border-emerald-200 bg-emerald-100 text-emerald-900",
+  failed: "border-red-200 bg-red-100 text-red-900",
+};
+
+const ALERT_TYPE_LABELS: Record<OrgAlertDelivery["alertType"], string> = {
+  high_risk_review: "High-risk review",
+  pending_edits: "Pending edits",
+  digest: "Daily digest",
+};
+
+function createDraft(preferences?: OrgAlertPreferences): ChannelDraft {
+  const channel = preferences?.alertChannel;
+  return {
+    deliveryMode: preferences?.deliveryMode ?? "immediate",
+    alertChannel:
+      channel === "webhook" || channel === "slack" ? channel : "email",
+    emailRecipients: (preferences?.emailRecipients ?? []).join("\n"),
+    webhookUrl: preferences?.webhookUrl ?? "",
+    webhookSecret: "",
+    slackWebhookUrl: preferences?.slackWebhookUrl ?? "",
+  };
+}
+
+function formatDateTime(value: string | null): string {
+  if (!value) return "—";
+  try {
+    return new Date(value).toLocaleString();
+  } catch {
+    return value;
+  }
+}
+
+function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const jsonStart = message.indexOf("{");
+  if (jsonStart >= 0) {
+    try {
+      const parsed = JSON.parse(message.slice(jsonStart));
+      if (typeof parsed?.error === "string") return parsed.error;
+    } catch {
+      // fall through to the raw message
+    }
+  }
+  return message;
+}
+
+const OrgAlertDeliveriesPanel: React.FC = () => {
+  const { user } = useUser();
+  const organizationId = user?.organization?.id ?? null;
+  const authUserId = user?.authUserId ?? null;
+  const canManage = Boolean(
+    organizationId &&
+    authUserId &&
+    (user?.isMaigonAdmin || user?.isOrgAdmin),
+  );
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const [draft, setDraft] = useState<ChannelDraft | null>(null);
+
+  const preferencesQueryKey = ["org-alert-prefs", organizationId];
+  const deliveriesQueryKey = ["org-alert-deliveries", organizationId];
+
+  const preferencesQuery = useQuery<OrgAlertPreferences>({
+    queryKey: preferencesQueryKey,
+    queryFn: () =>
+      OrgAdminService.getAlertPreferences(organizationId!, authUserId!),
+    enabled: canManage,
+  });
+
+  const deliveriesQuery = useQuery<OrgAlertDelivery[]>({
+    queryKey: deliveriesQueryKey,
+    queryFn: () =>
+      OrgAdminService.listAlertDeliveries(organizationId!, authUserId!),
+    enabled: canManage,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (updates: UpdateAlertPreferencesRequest) =>
+      OrgAdminService.updateAlertPreferences(
+        organizationId!,
+        authUserId!,
+        updates,
+      ),
+    onSuccess: () => {
+      toast({ title: "Alert delivery settings saved" });
+      queryClient.invalidateQueries({ queryKey: preferencesQueryKey });
+      setDraft(null);
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Failed to save alert settings",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: (deliveryId: string) =>
+      OrgAdminService.retryAlertDelivery(
+        organizationId!,
+        authUserId!,
+        deliveryId,
+      ),
+    onSuccess: (delivery) => {
+      toast({
+        title: delivery.status === "sent" ? "Alert sent" : "Retry failed",
+        description: delivery.lastError ?? undefined,
+        variant: delivery.status === "sent" ? undefined : "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: deliveriesQueryKey });
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Failed to retry delivery",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!canManage) {
+    return null;
+  }
+
+  const preferences = preferencesQuery.data;
+  const deliveries = deliveriesQuery.data ?? [];
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft) return;
+    saveMutation.mutate({
+      deliveryMode: draft.deliveryMode,
+      alertChannel: draft.alertChannel,
+      emailRecipients: draft.emailRecipients
+        .split(/[\n,]/)
+        .map((item) => item.trim())
+        .filter(Boolean),
+      webhookUrl: draft.webhookUrl.trim() || null,
+      slackWebhookUrl: draft.slackWebhookUrl.trim() || null,
+      // Leave the stored secret untouched unless a new one was typed.
+      webhookSecret: draft.webhookSecret.trim() || undefined,
+    });
+  };
+
+  const renderEditor = (current: ChannelDraft) => (
+    <form
+      className="space-y-4 rounded-lg border border-[#E8DDDD] p-4"
+      onSubmit={handleSubmit}
+    >
+      <div className="flex gap-2">
+        {MODE_OPTIONS.map((option) => (
+          <button
+            key={option.key}
+            type="button"
+            onClick={() =>
+              setDraft((prev) =>
+                prev ? { ...prev, deliveryMode: option.key } : prev,
+              )
+            }
+            className={`flex-1 rounded-lg border px-3 py-2 text-left transition ${
+              current.deliveryMode === option.key
+                ? "border-[#9A7C7C] bg-[#FDF9F8] text-[#271D1D]"
+                : "border-[#E8DDDD] text-[#6B7280]"
+            }`}
+          >
+            <p className="text-sm font-medium">{option.label}</p>
+            <p className="text-xs">{option.description}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <label
+          className="text-sm font-medium text-[#271D1D]"
+          htmlFor="org-alert-channel"
+        >
+          Channel
+        </label>
+        <select
+          id="org-alert-channel"
+          className="h-10 w-full rounded-md border border-[#E8DDDD] bg-white px-3 text-sm"
+          value={current.alertChannel}
+          onChange={(event) =>
+            setDraft((prev) =>
+              prev
+                ? {
+                    ...prev,
+                    alertChannel: event.target.value as OrgAlertChannel,
+                  }
+                : prev,
+            )
+          }
+        >
+          {CHANNEL_OPTIONS.map((option) => (
+            <option key={option.key} value={option.key}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {current.alertChannel === "email" && (
+        <div className="space-y-2">
+          <label
+            className="text-sm font-medium text-[#271D1D]"
+            htmlFor="org-alert-recipients"
+          >
+            Recipients
+          </label>
+          <Textarea
+            id="org-alert-recipients"
+            placeholder="One email per line. Leave empty to notify all org admins."
+            value={current.emailRecipients}
+            onChange={(event) =>
+              setDraft((prev) =>
+                prev ? { ...prev, emailRecipients: event.target.value } : prev,
+              )
+            }
+          />
+        </div>
+      )}
+
+      {current.alertChannel === "webhook" && (
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <label
+              className="text-sm font-medium text-[#271D1D]"
+              htmlFor="org-alert-webhook-url"
+            >
+              Webhook URL
+            </label>
+            <Input
+              id="org-alert-webhook-url"
+              placeholder="https://"
+              value={current.webhookUrl}
+              onChange={(event) =>
+                setDraft((prev) =>
+                  prev ? { ...prev, webhookUrl: event.target.value } : prev,
+                )
+              }
+            />
+          </div>
+          <div className="space-y-2">
+            <label
+              className="text-sm font-medium text-[#271D1D]"
+              htmlFor="org-alert-webhook-secret"
+            >
+              Signing secret
+            </label>
+            <Input
+              id="org-alert-webhook-secret"
+              type="password"
+              placeholder={
+                preferences?.webhookSecretConfigured
+                  ? "Configured — type to replace"
+                  : "Used to sign the X-Maigon-Signature header"
+              }
+              value={current.webhookSecret}
+              onChange={(event) =>
+                setDraft((prev) =>
+                  prev ? { ...prev, webhookSecret: event.target.value } : prev,
+                )
+              }
+            />
+          </div>
+        </div>
+      )}
+
+      {current.alertChannel === "slack" && (
+        <div className="space-y-2">
+          <label
+            className="text-sm font-medium text-[#271D1D]"
+            htmlFor="org-alert-slack-url"
+          >
+            Slack incoming webhook URL
+          </label>
+          <Input
+            id="org-alert-slack-url"
+            placeholder="https://hooks.slack.com/services/..."
+            value={current.slackWebhookUrl}
+            onChange={(event) =>
+              setDraft((prev) =>
+                prev ? { ...prev, slackWebhookUrl: event.target.value } : prev,
+              )
+            }
+          />
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={() => setDraft(null)}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={saveMutation.isPending}>
+          {saveMutation.isPending ? "Saving..." : "Save settings"}
+        </Button>
+      </div>
+    </form>
+  );
+
+  const channelLabel =
+    CHANNEL_OPTIONS.find((option) => option.key === preferences?.alertChannel)
+      ?.label ?? "Email";
+
+  return (
+    <Card className="border-[#E8DDDD]">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg font-semibold text-[#271D1D]">
+          Alert Delivery
+        </CardTitle>
+        {draft === null && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={!preferences}
+            onClick={() => setDraft(createDraft(preferences))}
+          >
+            <Pencil className="mr-1 h-4 w-4" />
+            Edit settings
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {preferencesQuery.isLoading ? (
+          <Skeleton className="h-6 w-64" />
+        ) : (
+          preferences && (
+            <p className="text-sm text-[#6B7280]">
+              Alerts go out via{" "}
+              <span className="font-medium text-[#271D1D]">
+                {channelLabel}
+              </span>{" "}
+              {preferences.deliveryMode === "digest"
+                ? "as a daily digest."
+                : "as soon as they are detected."}
+            </p>
+          )
+        )}
+
+        {draft !== null && renderEditor(draft)}
+
+        {deliveriesQuery.isError && (
+          <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            Failed to load the delivery log. Please refresh and try again.
+          </div>
+        )}
+
+        {deliveriesQuery.isLoading ? (
+          <div className="space-y-2">
+            {[1, 2].map((item) => (
+              <Skeleton key={item} className="h-12 w-full rounded" />
+            ))}
+          </div>
+        ) : deliveries.length === 0 ? (
+          <div className="rounded border border-dashed border-[#E8DDDD] p-6 text-center text-sm text-[#6B7280]">
+            No alerts have been sent yet.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Alert</TableHead>
+                <TableHead>Channel</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell className="text-sm text-[#271D1D]">
+                    <div className="font-medium">
+                      {ALERT_TYPE_LABELS[delivery.alertType] ??
+                        delivery.alertType}
+                    </div>
+                    <div className="text-xs text-[#6B7280]">
+                      {delivery.message?.summary}
+                    </div>
+                    {delivery.lastError && (
+                      <div className="text-xs text-red-600">
+                        {delivery.lastError}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-[#271D1D]">
+                    {CHANNEL_OPTIONS.find(
+                      (option) => option.key === delivery.channel,
+                    )?.label ?? delivery.channel}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant="outline"
+                      className={STATUS_STYLES[delivery.status]}
+                    >
+                      {delivery.status}
+                    </Badge>
+                    <div className="mt-1 text-xs text-[#6B7280]">
+                      {delivery.attempts}/{delivery.maxAttempts} attempts
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-[#271D1D]">
+                    {formatDateTime(delivery.sentAt ?? delivery.createdAt)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {delivery.status === "failed" && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        disabled={retryMutation.isPending}
+                        onClick={() => retryMutation.mutate(delivery.id)}
+                      >
+                        <RotateCcw className="mr-1 h-4 w-4" />
+                        Retry
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrgAlertDeliveriesPanel;
@@ -0,0 +1,303 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/components/ui/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useUser } from "@/contexts/SupabaseUserContext";
+import OrgAdminService from "@/services/orgAdminService";
+import {
+  ORG_API_KEY_SCOPES,
+  type OrgApiKeyListResponse,
+  type OrgApiKeyScope,
+} from "@shared/api";
+import { Copy, KeyRound } from "lucide-react";
+
+function formatTimestamp(value: string | null): string {
+  if (!value) return "Never";
+  try {
+    return new Date(value).toLocaleString();
+  } catch {
+    return value;
+  }
+}
+
+function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const jsonStart = message.indexOf("{");
+  if (jsonStart >= 0) {
+    try {
+      const parsed = JSON.parse(message.slice(jsonStart));
+      if (typeof parsed?.error === "string") return parsed.error;
+    } catch {
+      // fall through to the raw message
+    }
+  }
+  return message;
+}
+
+const OrgApiKeysPanel: React.FC = () => {
+  const { user } = useUser();
+  const organizationId = user?.organization?.id ?? null;
+  const authUserId = user?.authUserId ?? null;
+  const canManage = Boolean(
+    organizationId &&
+    authUserId &&
+    (user?.isMaigonAdmin || user?.isOrgAdmin),
+  );
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const [name, setName] = useState("");
+  const [rateLimit, setRateLimit] = useState("60");
+  const [scopes, setScopes] = useState<OrgApiKeyScope[]>([
+    ...ORG_API_KEY_SCOPES,
+  ]);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+
+  const keysQuery = useQuery<OrgApiKeyListResponse>({
+    queryKey: ["org-api-keys", organizationId],
+    queryFn: () => OrgAdminService.listApiKeys(organizationId!, authUserId!),
+    enabled: canManage,
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({
+      queryKey: ["org-api-keys", organizationId],
+    });
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      OrgAdminService.createApiKey(organizationId!, authUserId!, {
+        name: name.trim(),
+        scopes,
+        rateLimitPerMinute: Number(rateLimit) || undefined,
+      }),
+    onSuccess: (created) => {
+      setRevealedSecret(created.secret);
+      setName("");
+      invalidate();
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Failed to create API key",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (keyId: string) =>
+      OrgAdminService.revokeApiKey(organizationId!, authUserId!, keyId),
+    onSuccess: () => {
+      invalidate();
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Failed to revoke API key",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!canManage) {
+    return null;
+  }
+
+  const keys = keysQuery.data?.keys ?? [];
+  const usage = keysQuery.data?.usage;
+
+  const toggleScope = (scope: OrgApiKeyScope) => {
+    setScopes((current) =>
+      current.includes(scope)
+        ? current.filter((entry) => entry !== scope)
+        : [...current, scope],
+    );
+  };
+
+  const copySecret = async () => {
+    if (!revealedSecret) return;
+    try {
+      await navigator.clipboard.writeText(revealedSecret);
+      toast({ title: "API key copied" });
+    } catch {
+      toast({ title: "Copy failed", description: "Select the key and copy it manually." });
+    }
+  };
+
+  return (
+    <Card className="border-[#E8DDDD]">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg font-semibold text-[#271D1D]">
+          API Keys
+        </CardTitle>
+        {usage && (
+          <span className="text-sm text-[#6B7280]">
+            Documents {usage.documentsUsed}
+            {usage.documentsLimit !== null ? `/${usage.documentsLimit}` : ""}
+          </span>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="grid gap-3 md:grid-cols-[2fr_1fr_auto]"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (!name.trim() || scopes.length === 0) return;
+            createMutation.mutate();
+          }}
+        >
+          <Input
+            aria-label="Key name"
+            placeholder="Key name, e.g. CLM integration"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+          />
+          <Input
+            aria-label="Requests per minute"
+            type="number"
+            min={1}
+            max={600}
+            value={rateLimit}
+            onChange={(event) => setRateLimit(event.target.value)}
+          />
+          <Button
+            type="submit"
+            disabled={
+              createMutation.isPending || !name.trim() || scopes.length === 0
+            }
+          >
+            <KeyRound className="mr-1 h-4 w-4" />
+            Create key
+          </Button>
+          <div className="flex flex-wrap gap-4 text-sm text-[#271D1D] md:col-span-3">
+            {ORG_API_KEY_SCOPES.map((scope) => (
+              <label key={scope} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                />
+                {scope}
+              </label>
+            ))}
+          </div>
+        </form>
+
+        {revealedSecret && (
+          <div className="space-y-2 rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+            <div>
+              Copy this key now. It will not be shown again.
+            </div>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 break-all rounded bg-white px-2 py-1 text-xs">
+                {revealedSecret}
+              </code>
+              <Button type="button" size="sm" variant="outline" onClick={copySecret}>
+                <Copy className="mr-1 h-4 w-4" />
+                Copy
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => setRevealedSecret(null)}
+              >
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {keysQuery.isError && (
+          <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            Failed to load API keys. Please refresh and try again.
+          </div>
+        )}
+
+        {keysQuery.isLoading ? (
+          <div className="space-y-2">
+            {[1, 2].map((item) => (
+              <Skeleton key={item} className="h-12 w-full rounded" />
+            ))}
+          </div>
+        ) : keys.length === 0 ? (
+          <div className="rounded border border-dashed border-[#E8DDDD] p-6 text-center text-sm text-[#6B7280]">
+            No API keys yet. Keys let other systems submit contracts through
+            the /api/v1 endpoints.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Key</TableHead>
+                <TableHead>Scopes</TableHead>
+                <TableHead>Last used</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {keys.map((key) => (
+                <TableRow key={key.id}>
+                  <TableCell className="text-sm text-[#271D1D]">
+                    <div className="font-medium">{key.name}</div>
+                    <div className="text-xs text-[#6B7280]">
+                      {key.rateLimitPerMinute}/min · created{" "}
+                      {formatTimestamp(key.createdAt)}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs text-[#271D1D]">
+                    {key.keyPrefix}_…
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {key.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline">
+                          {scope}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-[#271D1D]">
+                    {formatTimestamp(key.lastUsedAt)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {key.revokedAt ? (
+                      <Badge variant="secondary">Revoked</Badge>
+                    ) : (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        className="text-red-700"
+                        disabled={revokeMutation.isPending}
+                        onClick={() => revokeMutation.mutate(key.id)}
+                      >
+                        Revoke
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrgApiKeysPanel;
@@ -0,0 +1,445 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/components/ui/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useUser } from "@/contexts/SupabaseUserContext";
+import OrgAdminService from "@/services/orgAdminService";
+import {
+  APPROVAL_SEVERITIES,
+  type ApprovalChain,
+  type ApprovalSeverity,
+  type ApprovalStage,
+  type ApprovalTrailEvent,
+  type OrgMemberSummary,
+} from "@shared/api";
+import { Download, Plus, Trash2, X } from "lucide-react";
+
+const EMPTY_STAGE: ApprovalStage = { name: "", approverIds: [] };
+
+function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const jsonStart = message.indexOf("{");
+  if (jsonStart >= 0) {
+    try {
+      const parsed = JSON.parse(message.slice(jsonStart));
+      if (typeof parsed?.error === "string") return parsed.error;
+    } catch {
+      // fall through to the raw message
+    }
+  }
+  return message;
+}
+
+const OrgApprovalChainsPanel: React.FC = () => {
+  const { user } = useUser();
+  const organizationId = user?.organization?.id ?? null;
+  const authUserId = user?.authUserId ?? null;
+  const canManage = Boolean(
+    organizationId && authUserId && (user?.isMaigonAdmin || user?.isOrgAdmin),
+  );
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const [name, setName] = useState("");
+  const [contractTypes, setContractTypes] = useState("");
+  const [minSeverity, setMinSeverity] = useState<ApprovalSeverity | "">("");
+  const [stages, setStages] = useState<ApprovalStage[]>([{ ...EMPTY_STAGE }]);
+
+  const chainsQuery = useQuery<ApprovalChain[]>({
+    queryKey: ["org-approvals", organizationId, "chains"],
+    queryFn: () =>
+      OrgAdminService.listApprovalChains(organizationId!, authUserId!),
+    enabled: canManage,
+  });
+
+  const membersQuery = useQuery<OrgMemberSummary[]>({
+    queryKey: ["org-members", organizationId],
+    queryFn: () => OrgAdminService.getMembers(organizationId!, authUserId!),
+    enabled: canManage,
+  });
+
+  const trailQuery = useQuery<ApprovalTrailEvent[]>({
+    queryKey: ["org-approvals", organizationId, "trail"],
+    queryFn: () =>
+      OrgAdminService.getApprovalTrail(organizationId!, authUserId!),
+    enabled: canManage,
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({
+      queryKey: ["org-approvals", organizationId],
+    });
+
+  const onMutationError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: describeError(error),
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      OrgAdminService.createApprovalChain(organizationId!, authUserId!, {
+        name: name.trim(),
+        contractTypes: contractTypes
+          .split(",")
+          .map((type) => type.trim())
+          .filter(Boolean),
+        minSeverity: minSeverity || null,
+        stages: stages.map((stage) => ({ ...stage, name: stage.name.trim() })),
+        priority: (chainsQuery.data?.length ?? 0) * 10,
+        enabled: true,
+      }),
+    onSuccess: () => {
+      setName("");
+      setContractTypes("");
+      setMinSeverity("");
+      setStages([{ ...EMPTY_STAGE }]);
+      invalidate();
+    },
+    onError: onMutationError("Failed to create approval chain"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (chain: ApprovalChain) =>
+      OrgAdminService.updateApprovalChain(
+        organizationId!,
+        authUserId!,
+        chain.id,
+        { enabled: !chain.enabled },
+      ),
+    onSuccess: () => {
+      invalidate();
+    },
+    onError: onMutationError("Failed to update approval chain"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (chainId: string) =>
+      OrgAdminService.deleteApprovalChain(
+        organizationId!,
+        authUserId!,
+        chainId,
+      ),
+    onSuccess: () => {
+      invalidate();
+    },
+    onError: onMutationError("Failed to delete approval chain"),
+  });
+
+  if (!canManage) {
+    return null;
+  }
+
+  const chains = chainsQuery.data ?? [];
+  const members = (membersQuery.data ?? []).filter((member) => member.isActive);
+  const memberNames = new Map(
+    (membersQuery.data ?? []).map((member) => [member.userId, member.name]),
+  );
+  const trail = trailQuery.data ?? [];
+  const canCreate =
+    name.trim().length > 0 && stages.every((stage) => stage.name.trim());
+
+  const updateStage = (index: number, stage: Partial<ApprovalStage>) =>
+    setStages((current) =>
+      current.map((entry, position) =>
+        position === index ? { ...entry, ...stage } : entry,
+      ),
+    );
+
+  const toggleApprover = (index: number, profileId: string) => {
+    const stage = stages[index];
+    updateStage(index, {
+      approverIds: stage.approverIds.includes(profileId)
+        ? stage.approverIds.filter((id) => id !== profileId)
+        : [...stage.approverIds, profileId],
+    });
+  };
+
+  const describeApprovers = (stage: ApprovalStage) =>
+    stage.approverIds.length
+      ? stage.approverIds.map((id) => memberNames.get(id) ?? id).join(", ")
+      : "Any org admin";
+
+  const exportTrail = () => {
+    OrgAdminService.triggerDownload(
+      OrgAdminService.buildApprovalTrailCsv(trail),
+      `org-${organizationId}-approval-trail.csv`,
+      "text/csv",
+    );
+  };
+
+  return (
+    <Card className="border-[#E8DDDD]">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-[#271D1D]">
+          Approval chains
+        </CardTitle>
+        <p className="text-sm text-[#6B7280]">
+          Contracts submitted for approval follow the first enabled chain whose
+          contract types and severity threshold match. Each stage must sign off
+          before the next is asked; with no matching chain a contract is cleared
+          straight away.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="space-y-3 rounded-lg border border-[#E8DDDD] bg-white p-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (!canCreate) return;
+            createMutation.mutate();
+          }}
+        >
+          <div className="grid gap-3 md:grid-cols-3">
+            <Input
+              aria-label="Chain name"
+              placeholder="Chain name, e.g. High-risk NDAs"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              maxLength={100}
+            />
+            <Input
+              aria-label="Contract types"
+              placeholder="Contract types, comma separated (blank for all)"
+              value={contractTypes}
+              onChange={(event) => setContractTypes(event.target.value)}
+            />
+            <select
+              aria-label="Minimum severity"
+              className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+              value={minSeverity}
+              onChange={(event) =>
+                setMinSeverity(event.target.value as ApprovalSeverity | "")
+              }
+            >
+              <option value="">Any severity</option>
+              {APPROVAL_SEVERITIES.map((severity) => (
+                <option key={severity} value={severity}>
+                  {`Worst issue ${severity} or above`}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {stages.map((stage, index) => (
+            <div
+              key={index}
+              className="space-y-2 rounded-md border border-[#F3E9E9] bg-[#FFFDFB] p-3"
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-medium text-[#725A5A]">
+                  Stage {index + 1}
+                </span>
+                <Input
+                  aria-label={`Stage ${index + 1} name`}
+                  placeholder="Stage name, e.g. Legal lead"
+                  value={stage.name}
+                  onChange={(event) =>
+                    updateStage(index, { name: event.target.value })
+                  }
+                  maxLength={100}
+                />
+                {stages.length > 1 && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() =>
+                      setStages((current) =>
+                        current.filter((_, position) => position !== index),
+                      )
+                    }
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-3 text-xs text-[#271D1D]">
+                {members.map((member) => (
+                  <label
+                    key={member.userId}
+                    className="flex items-center gap-1"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={stage.approverIds.includes(member.userId)}
+                      onChange={() => toggleApprover(index, member.userId)}
+                    />
+                    {member.name}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-[#6B7280]">
+                Approvers: {describeApprovers(stage)}
+              </p>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                setStages((current) => [...current, { ...EMPTY_STAGE }])
+              }
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add stage
+            </Button>
+            <Button
+              type="submit"
+              disabled={createMutation.isPending || !canCreate}
+            >
+              Create chain
+            </Button>
+          </div>
+        </form>
+
+        {(chainsQuery.isError || trailQuery.isError) && (
+          <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            Failed to load approval settings. Please refresh and try again.
+          </div>
+        )}
+
+        {chainsQuery.isLoading ? (
+          <div className="space-y-2">
+            {[1, 2].map((item) => (
+              <Skeleton key={item} className="h-12 w-full rounded" />
+            ))}
+          </div>
+        ) : chains.length === 0 ? (
+          <div className="rounded border border-dashed border-[#E8DDDD] p-6 text-center text-sm text-[#6B7280]">
+            No approval chains yet. Contracts are cleared as soon as they are
+            submitted.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Chain</TableHead>
+                <TableHead>Applies to</TableHead>
+                <TableHead>Stages</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {chains.map((chain) => (
+                <TableRow key={chain.id}>
+                  <TableCell className="text-sm font-medium text-[#271D1D]">
+                    {chain.name}
+                  </TableCell>
+                  <TableCell className="text-xs text-[#6B7280]">
+                    {chain.contractTypes.length
+                      ? chain.contractTypes.join(", ")
+                      : "All contract types"}
+                    {chain.minSeverity
+                      ? `; worst issue ${chain.minSeverity} or above`
+                      : ""}
+                  </TableCell>
+                  <TableCell className="text-xs text-[#6B7280]">
+                    {chain.stages
+                      .map(
+                        (stage) =>
+                          `${stage.name} (${describeApprovers(stage)})`,
+                      )
+                      .join(" → ")}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={chain.enabled}
+                      disabled={toggleMutation.isPending}
+                      onCheckedChange={() => toggleMutation.mutate(chain)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(chain.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-[#271D1D]">
+              Approval trail
+            </h3>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!trail.length}
+              onClick={exportTrail}
+            >
+              <Download className="mr-1 h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
+          {trailQuery.isLoading ? (
+            <Skeleton className="h-10 w-full rounded" />
+          ) : trail.length === 0 ? (
+            <div className="rounded border border-dashed border-[#E8DDDD] p-6 text-center text-sm text-[#6B7280]">
+              No approval decisions recorded yet.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Contract</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>When</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {trail.slice(0, 20).map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="text-sm text-[#271D1D]">
+                      {event.contractTitle ?? event.contractId}
+                    </TableCell>
+                    <TableCell className="text-xs text-[#6B7280]">
+                      {event.action}
+                      {event.stageName ? ` at ${event.stageName}` : ""}
+                      {event.reason ? `: ${event.reason}` : ""}
+                    </TableCell>
+                    <TableCell className="text-xs text-[#6B7280]">
+                      {event.actorEmail ?? "—"}
+                    </TableCell>
+                    <TableCell className="text-xs text-[#6B7280]">
+                      {new Date(event.createdAt).toLocaleString()}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrgApprovalChainsPanel;
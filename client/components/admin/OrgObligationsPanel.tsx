@@ -0,0 +1,323 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/components/ui/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useUser } from "@/contexts/SupabaseUserContext";
+import OrgAdminService from "@/services/orgAdminService";
+import type {
+  ContractObligation,
+  ContractObligationStatus,
+  ObligationCalendarScope,
+} from "@shared/api";
+import { CalendarPlus, Check, X } from "lucide-react";
+
+const WINDOW_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: "30", label: "Next 30 days" },
+  { value: "90", label: "Next 90 days" },
+  { value: "365", label: "Next 12 months" },
+  { value: "", label: "All dates" },
+];
+
+const KIND_LABELS: Record<ContractObligation["kind"], string> = {
+  renewal: "Renewal",
+  notice: "Notice deadline",
+  termination: "Termination",
+  confidentiality_survival: "Confidentiality",
+  payment: "Payment",
+  action_item: "Action item",
+};
+
+function formatDate(value: string | null): string {
+  if (!value) return "—";
+  try {
+    return new Date(`${value}T00:00:00`).toLocaleDateString();
+  } catch {
+    return value;
+  }
+}
+
+function isOverdue(value: string | null): boolean {
+  return Boolean(value && value < new Date().toISOString().slice(0, 10));
+}
+
+function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const jsonStart = message.indexOf("{");
+  if (jsonStart >= 0) {
+    try {
+      const parsed = JSON.parse(message.slice(jsonStart));
+      if (typeof parsed?.error === "string") return parsed.error;
+    } catch {
+      // fall through to the raw message
+    }
+  }
+  return message;
+}
+
+const OrgObligationsPanel: React.FC = () => {
+  const { user } = useUser();
+  const organizationId = user?.organization?.id ?? null;
+  const authUserId = user?.authUserId ?? null;
+  const canManage = Boolean(
+    organizationId &&
+    authUserId &&
+    (user?.isMaigonAdmin || user?.isOrgAdmin),
+  );
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const [dueWithin, setDueWithin] = useState("90");
+  const [contractType, setContractType] = useState("");
+  const [owner, setOwner] = useState("");
+
+  const filters = {
+    dueWithinDays: dueWithin ? Number(dueWithin) : undefined,
+    contractType: contractType.trim() || undefined,
+    owner: owner.trim() || undefined,
+  };
+  const obligationsQueryKey = ["org-obligations", organizationId, filters];
+
+  const obligationsQuery = useQuery<ContractObligation[]>({
+    queryKey: obligationsQueryKey,
+    queryFn: () =>
+      OrgAdminService.listObligations(organizationId!, authUserId!, filters),
+    enabled: canManage,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: (input: { id: string; status: ContractObligationStatus }) =>
+      OrgAdminService.updateObligationStatus(
+        organizationId!,
+        authUserId!,
+        input.id,
+        input.status,
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["org-obligations", organizationId],
+      });
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Failed to update obligation",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const feedMutation = useMutation({
+    mutationFn: (scope: ObligationCalendarScope) =>
+      OrgAdminService.getObligationCalendarFeed(
+        organizationId!,
+        authUserId!,
+        scope,
+      ),
+    onSuccess: async (feed) => {
+      try {
+        await navigator.clipboard.writeText(feed.url);
+        toast({
+          title: "Calendar link copied",
+          description: "Subscribe to it from Outlook or Google Calendar.",
+        });
+      } catch {
+        toast({ title: "Calendar link", description: feed.url });
+      }
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Failed to create calendar link",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!canManage) {
+    return null;
+  }
+
+  const obligations = obligationsQuery.data ?? [];
+
+  return (
+    <Card className="border-[#E8DDDD]">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg font-semibold text-[#271D1D]">
+          Obligations &amp; Key Dates
+        </CardTitle>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={feedMutation.isPending}
+            onClick={() => feedMutation.mutate("organization")}
+          >
+            <CalendarPlus className="mr-1 h-4 w-4" />
+            Organization calendar
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            disabled={feedMutation.isPending}
+            onClick={() => feedMutation.mutate("user")}
+          >
+            My calendar
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-3">
+          <select
+            aria-label="Due window"
+            className="h-10 w-full rounded-md border border-[#E8DDDD] bg-white px-3 text-sm"
+            value={dueWithin}
+            onChange={(event) => setDueWithin(event.target.value)}
+          >
+            {WINDOW_OPTIONS.map((option) => (
+              <option key={option.label} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <Input
+            aria-label="Contract type"
+            placeholder="Contract type, e.g. nda"
+            value={contractType}
+            onChange={(event) => setContractType(event.target.value)}
+          />
+          <Input
+            aria-label="Owner"
+            placeholder="Owner or department"
+            value={owner}
+            onChange={(event) => setOwner(event.target.value)}
+          />
+        </div>
+
+        {obligationsQuery.isError && (
+          <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            Failed to load obligations. Please refresh and try again.
+          </div>
+        )}
+
+        {obligationsQuery.isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((item) => (
+              <Skeleton key={item} className="h-12 w-full rounded" />
+            ))}
+          </div>
+        ) : obligations.length === 0 ? (
+          <div className="rounded border border-dashed border-[#E8DDDD] p-6 text-center text-sm text-[#6B7280]">
+            No open obligations match these filters.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Due</TableHead>
+                <TableHead>Obligation</TableHead>
+                <TableHead>Contract</TableHead>
+                <TableHead>Owner</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {obligations.map((obligation) => (
+                <TableRow key={obligation.id}>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    <span
+                      className={
+                        isOverdue(obligation.dueDate)
+                          ? "font-medium text-red-700"
+                          : "text-[#271D1D]"
+                      }
+                    >
+                      {formatDate(obligation.dueDate)}
+                    </span>
+                    {!obligation.dueDate && obligation.period && (
+                      <div className="text-xs text-[#6B7280]">
+                        {obligation.period}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-[#271D1D]">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{obligation.title}</span>
+                      <Badge variant="outline">
+                        {KIND_LABELS[obligation.kind] ?? obligation.kind}
+                      </Badge>
+                    </div>
+                    <div
+                      className="text-xs text-[#6B7280]"
+                      title={obligation.sourceText ?? undefined}
+                    >
+                      {obligation.description}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-[#271D1D]">
+                    {obligation.contractTitle ?? "Contract"}
+                    {obligation.contractType && (
+                      <div className="text-xs text-[#6B7280]">
+                        {obligation.contractType}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-[#271D1D]">
+                    {obligation.owner ?? obligation.department ?? "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      disabled={statusMutation.isPending}
+                      onClick={() =>
+                        statusMutation.mutate({
+                          id: obligation.id,
+                          status: "done",
+                        })
+                      }
+                    >
+                      <Check className="mr-1 h-4 w-4" />
+                      Done
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      disabled={statusMutation.isPending}
+                      onClick={() =>
+                        statusMutation.mutate({
+                          id: obligation.id,
+                          status: "dismissed",
+                        })
+                      }
+                    >
+                      <X className="mr-1 h-4 w-4" />
+                      Dismiss
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrgObligationsPanel;
@@ -0,0 +1,758 @@
+import React, { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/components/ui/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useUser } from "@/contexts/SupabaseUserContext";
+import OrgAdminService from "@/services/orgAdminService";
+import {
+  CONTRACT_PLAYBOOKS,
+  type PlaybookKey,
+} from "@shared/ai/playbooks";
+import type {
+  OrgPlaybook,
+  OrgPlaybookDefinition,
+  OrgPlaybookMode,
+  OrgPlaybookVersion,
+} from "@shared/api";
+import { History, Pencil, Plus, RotateCcw, Trash2 } from "lucide-react";
+
+type ClauseDraft = {
+  title: string;
+  mustInclude: string;
+  redFlags: string;
+  fallbackPositions: string;
+};
+
+type PlaybookDraft = {
+  playbookKey: PlaybookKey;
+  name: string;
+  description: string;
+  mode: OrgPlaybookMode;
+  isActive: boolean;
+  clauses: ClauseDraft[];
+  clauseAnchors: string;
+  negotiationGuidance: string;
+  changeNote: string;
+};
+
+const MODE_OPTIONS: Array<{
+  key: OrgPlaybookMode;
+  label: string;
+  description: string;
+}> = [
+  {
+    key: "extend",
+    label: "Extend built-in",
+    description: "Add terms and red flags on top of the Maigon playbook",
+  },
+  {
+    key: "replace",
+    label: "Replace built-in",
+    description: "Only your critical clauses are checked",
+  },
+];
+
+const PLAYBOOK_OPTIONS = Object.values(CONTRACT_PLAYBOOKS);
+
+const emptyClause = (): ClauseDraft => ({
+  title: "",
+  mustInclude: "",
+  redFlags: "",
+  fallbackPositions: "",
+});
+
+const toLines = (items: string[]) => items.join("\n");
+
+const fromLines = (value: string) =>
+  value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+function createDraft(playbook?: OrgPlaybook | null): PlaybookDraft {
+  if (!playbook) {
+    return {
+      playbookKey: PLAYBOOK_OPTIONS[0].key,
+      name: "",
+      description: "",
+      mode: "extend",
+      isActive: true,
+      clauses: [emptyClause()],
+      clauseAnchors: "",
+      negotiationGuidance: "",
+      changeNote: "",
+    };
+  }
+  return {
+    playbookKey: playbook.playbookKey as PlaybookKey,
+    name: playbook.name,
+    description: playbook.description ?? "",
+    mode: playbook.mode,
+    isActive: playbook.isActive,
+    clauses: playbook.criticalClauses.map((clause) => ({
+      title: clause.title,
+      mustInclude: toLines(clause.mustInclude),
+      redFlags: toLines(clause.redFlags),
+      fallbackPositions: toLines(clause.fallbackPositions),
+    })),
+    clauseAnchors: toLines(playbook.clauseAnchors),
+    negotiationGuidance: toLines(playbook.negotiationGuidance),
+    changeNote: "",
+  };
+}
+
+function draftToDefinition(draft: PlaybookDraft): OrgPlaybookDefinition {
+  return {
+    playbookKey: draft.playbookKey,
+    name:
+      draft.name.trim() || CONTRACT_PLAYBOOKS[draft.playbookKey].displayName,
+    description: draft.description.trim() || null,
+    mode: draft.mode,
+    isActive: draft.isActive,
+    criticalClauses: draft.clauses
+      .filter((clause) => clause.title.trim())
+      .map((clause) => ({
+        title: clause.title.trim(),
+        mustInclude: fromLines(clause.mustInclude),
+        redFlags: fromLines(clause.redFlags),
+        fallbackPositions: fromLines(clause.fallbackPositions),
+      })),
+    clauseAnchors: fromLines(draft.clauseAnchors),
+    negotiationGuidance: fromLines(draft.negotiationGuidance),
+  };
+}
+
+function formatDate(value: string | null): string {
+  if (!value) return "—";
+  try {
+    return new Date(value).toLocaleDateString();
+  } catch {
+    return value;
+  }
+}
+
+function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const jsonStart = message.indexOf("{");
+  if (jsonStart >= 0) {
+    try {
+      const parsed = JSON.parse(message.slice(jsonStart));
+      if (typeof parsed?.error === "string") return parsed.error;
+    } catch {
+      // fall through to the raw message
+    }
+  }
+  return message;
+}
+
+const OrgPlaybooksPanel: React.FC = () => {
+  const { user } = useUser();
+  const organizationId = user?.organization?.id ?? null;
+  const authUserId = user?.authUserId ?? null;
+  const canManage = Boolean(
+    organizationId &&
+    authUserId &&
+    (user?.isMaigonAdmin || user?.isOrgAdmin),
+  );
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const [editing, setEditing] = useState<OrgPlaybook | "new" | null>(null);
+  const [draft, setDraft] = useState<PlaybookDraft>(() => createDraft());
+  const [historyFor, setHistoryFor] = useState<OrgPlaybook | null>(null);
+
+  const playbooksQueryKey = ["org-playbooks", organizationId];
+
+  const playbooksQuery = useQuery<OrgPlaybook[]>({
+    queryKey: playbooksQueryKey,
+    queryFn: () => OrgAdminService.listPlaybooks(organizationId!, authUserId!),
+    enabled: canManage,
+  });
+
+  const versionsQuery = useQuery<OrgPlaybookVersion[]>({
+    queryKey: ["org-playbook-versions", historyFor?.id, historyFor?.version],
+    queryFn: () =>
+      OrgAdminService.listPlaybookVersions(
+        organizationId!,
+        authUserId!,
+        historyFor!.id,
+      ),
+    enabled: canManage && Boolean(historyFor),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (current: PlaybookDraft) => {
+      const existing = editing && editing !== "new" ? editing : null;
+      return OrgAdminService.savePlaybook(
+        organizationId!,
+        authUserId!,
+        existing?.id ?? null,
+        {
+          ...draftToDefinition(current),
+          expectedVersion: existing?.version,
+          changeNote: current.changeNote.trim() || undefined,
+        },
+      );
+    },
+    onSuccess: (playbook) => {
+      toast({
+        title: "Playbook saved",
+        description: `${playbook.name} is now on version ${playbook.version}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: playbooksQueryKey });
+      setEditing(null);
+      if (historyFor?.id === playbook.id) setHistoryFor(playbook);
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Failed to save playbook",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (playbookId: string) =>
+      OrgAdminService.deletePlaybook(organizationId!, authUserId!, playbookId),
+    onSuccess: (_, playbookId) => {
+      toast({ title: "Playbook deleted" });
+      queryClient.invalidateQueries({ queryKey: playbooksQueryKey });
+      if (historyFor?.id === playbookId) setHistoryFor(null);
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Failed to delete playbook",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (payload: { playbookId: string; version: number }) =>
+      OrgAdminService.restorePlaybookVersion(
+        organizationId!,
+        authUserId!,
+        payload.playbookId,
+        payload.version,
+      ),
+    onSuccess: (playbook) => {
+      toast({
+        title: "Version restored",
+        description: `${playbook.name} is now on version ${playbook.version}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: playbooksQueryKey });
+      setHistoryFor(playbook);
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Failed to restore version",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const playbooks = playbooksQuery.data ?? [];
+  const configuredKeys = useMemo(
+    () => new Set(playbooks.map((playbook) => playbook.playbookKey)),
+    [playbooks],
+  );
+  const availableNewKeys = PLAYBOOK_OPTIONS.filter(
+    (option) => !configuredKeys.has(option.key),
+  );
+
+  if (!canManage) {
+    return null;
+  }
+
+  const updateClause = (index: number, patch: Partial<ClauseDraft>) => {
+    setDraft((prev) => ({
+      ...prev,
+      clauses: prev.clauses.map((clause, clauseIndex) =>
+        clauseIndex === index ? { ...clause, ...patch } : clause,
+      ),
+    }));
+  };
+
+  const loadBuiltInClauses = () => {
+    const builtIn = CONTRACT_PLAYBOOKS[draft.playbookKey];
+    setDraft((prev) => ({
+      ...prev,
+      clauses: builtIn.criticalClauses.map((clause) => ({
+        title: clause.title,
+        mustInclude: toLines(clause.mustInclude),
+        redFlags: toLines(clause.redFlags),
+        fallbackPositions: "",
+      })),
+    }));
+  };
+
+  const handleNew = () => {
+    setEditing("new");
+    setDraft({
+      ...createDraft(),
+      playbookKey: availableNewKeys[0]?.key ?? PLAYBOOK_OPTIONS[0].key,
+    });
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (
+      draft.mode === "replace" &&
+      !draft.clauses.some((clause) => clause.title.trim())
+    ) {
+      toast({
+        title: "Critical clauses required",
+        description:
+          "A replacing playbook needs at least one critical clause with a title.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(draft);
+  };
+
+  const renderEditor = () => (
+    <form
+      className="space-y-4 rounded-lg border border-[#E8DDDD] p-4"
+      onSubmit={handleSubmit}
+    >
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <label
+            className="text-sm font-medium text-[#271D1D]"
+            htmlFor="org-playbook-key"
+          >
+            Contract type
+          </label>
+          <select
+            id="org-playbook-key"
+            className="h-10 w-full rounded-md border border-[#E8DDDD] bg-white px-3 text-sm"
+            value={draft.playbookKey}
+            disabled={editing !== "new"}
+            onChange={(event) =>
+              setDraft((prev) => ({
+                ...prev,
+                playbookKey: event.target.value as PlaybookKey,
+              }))
+            }
+          >
+            {(editing === "new" ? availableNewKeys : PLAYBOOK_OPTIONS).map(
+              (option) => (
+                <option key={option.key} value={option.key}>
+                  {option.displayName}
+                </option>
+              ),
+            )}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label
+            className="text-sm font-medium text-[#271D1D]"
+            htmlFor="org-playbook-name"
+          >
+            Playbook name
+          </label>
+          <Input
+            id="org-playbook-name"
+            placeholder={CONTRACT_PLAYBOOKS[draft.playbookKey].displayName}
+            value={draft.name}
+            onChange={(event) =>
+              setDraft((prev) => ({ ...prev, name: event.target.value }))
+            }
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        {MODE_OPTIONS.map((option) => (
+          <button
+            key={option.key}
+            type="button"
+            onClick={() => setDraft((prev) => ({ ...prev, mode: option.key }))}
+            className={`flex-1 rounded-lg border px-3 py-2 text-left transition ${
+              draft.mode === option.key
+                ? "border-[#9A7C7C] bg-[#FDF9F8] text-[#271D1D]"
+                : "border-[#E8DDDD] text-[#6B7280]"
+            }`}
+          >
+            <p className="text-sm font-medium">{option.label}</p>
+            <p className="text-xs">{option.description}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-semibold text-[#271D1D]">
+            Critical clauses
+          </h4>
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={loadBuiltInClauses}
+            >
+              Copy built-in clauses
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() =>
+                setDraft((prev) => ({
+                  ...prev,
+                  clauses: [...prev.clauses, emptyClause()],
+                }))
+              }
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add clause
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-[#6B7280]">
+          One item per line. When extending, clauses with the same title as a
+          built-in clause add to its terms instead of duplicating it.
+        </p>
+        {draft.clauses.map((clause, index) => (
+          <div
+            key={index}
+            className="space-y-2 rounded border border-[#E8DDDD] bg-[#FDF9F8] p-3"
+          >
+            <div className="flex gap-2">
+              <Input
+                aria-label="Clause title"
+                placeholder="Clause title, e.g. Limitation of liability"
+                value={clause.title}
+                onChange={(event) =>
+                  updateClause(index, { title: event.target.value })
+                }
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                aria-label="Remove clause"
+                onClick={() =>
+                  setDraft((prev) => ({
+                    ...prev,
+                    clauses: prev.clauses.filter(
+                      (_, clauseIndex) => clauseIndex !== index,
+                    ),
+                  }))
+                }
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="grid gap-2 md:grid-cols-3">
+              <Textarea
+                aria-label="Must include"
+                placeholder="Must include"
+                value={clause.mustInclude}
+                onChange={(event) =>
+                  updateClause(index, { mustInclude: event.target.value })
+                }
+              />
+              <Textarea
+                aria-label="Red flags"
+                placeholder="Red flags"
+                value={clause.redFlags}
+                onChange={(event) =>
+                  updateClause(index, { redFlags: event.target.value })
+                }
+              />
+              <Textarea
+                aria-label="Fallback positions"
+                placeholder="Fallback positions"
+                value={clause.fallbackPositions}
+                onChange={(event) =>
+                  updateClause(index, {
+                    fallbackPositions: event.target.value,
+                  })
+                }
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <label
+            className="text-sm font-medium text-[#271D1D]"
+            htmlFor="org-playbook-anchors"
+          >
+            Clause anchors
+          </label>
+          <Textarea
+            id="org-playbook-anchors"
+            placeholder="Headings every contract of this type should contain"
+            value={draft.clauseAnchors}
+            onChange={(event) =>
+              setDraft((prev) => ({
+                ...prev,
+                clauseAnchors: event.target.value,
+              }))
+            }
+          />
+        </div>
+        <div className="space-y-2">
+          <label
+            className="text-sm font-medium text-[#271D1D]"
+            htmlFor="org-playbook-guidance"
+          >
+            Negotiation guidance
+          </label>
+          <Textarea
+            id="org-playbook-guidance"
+            value={draft.negotiationGuidance}
+            onChange={(event) =>
+              setDraft((prev) => ({
+                ...prev,
+                negotiationGuidance: event.target.value,
+              }))
+            }
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={draft.isActive}
+            onCheckedChange={(checked) =>
+              setDraft((prev) => ({ ...prev, isActive: Boolean(checked) }))
+            }
+          />
+          <span className="text-sm text-[#271D1D]">Apply to new reviews</span>
+        </div>
+        <Input
+          aria-label="Change note"
+          className="max-w-sm"
+          placeholder="Change note (optional)"
+          value={draft.changeNote}
+          onChange={(event) =>
+            setDraft((prev) => ({ ...prev, changeNote: event.target.value }))
+          }
+        />
+        <div className="ml-auto flex gap-2">
+          <Button type="button" variant="ghost" onClick={() => setEditing(null)}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? "Saving..." : "Save playbook"}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+
+  return (
+    <Card className="border-[#E8DDDD]">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg font-semibold text-[#271D1D]">
+          Review Playbooks
+        </CardTitle>
+        {editing === null && availableNewKeys.length > 0 && (
+          <Button type="button" size="sm" onClick={handleNew}>
+            <Plus className="mr-1 h-4 w-4" />
+            New playbook
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-[#6B7280]">
+          Customise the critical clauses, red flags and fallback positions
+          used when your team reviews contracts. Changes apply to reviews
+          started after saving.
+        </p>
+
+        {editing !== null && renderEditor()}
+
+        {playbooksQuery.isError && (
+          <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            Failed to load playbooks. Please refresh and try again.
+          </div>
+        )}
+
+        {playbooksQuery.isLoading ? (
+          <div className="space-y-2">
+            {[1, 2].map((item) => (
+              <Skeleton key={item} className="h-12 w-full rounded" />
+            ))}
+          </div>
+        ) : playbooks.length === 0 ? (
+          <div className="rounded border border-dashed border-[#E8DDDD] p-6 text-center text-sm text-[#6B7280]">
+            Reviews use the built-in Maigon playbooks. Add a playbook to apply
+            your own positions.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Playbook</TableHead>
+                <TableHead>Mode</TableHead>
+                <TableHead>Version</TableHead>
+                <TableHead>Updated</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {playbooks.map((playbook) => (
+                <TableRow key={playbook.id}>
+                  <TableCell className="text-sm text-[#271D1D]">
+                    <div className="font-medium">{playbook.name}</div>
+                    <div className="text-xs text-[#6B7280]">
+                      {CONTRACT_PLAYBOOKS[playbook.playbookKey as PlaybookKey]
+                        ?.displayName ?? playbook.playbookKey}{" "}
+                      · {playbook.criticalClauses.length} clause
+                      {playbook.criticalClauses.length === 1 ? "" : "s"}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant="outline"
+                      className={
+                        playbook.isActive
+                          ? "border-emerald-200 bg-emerald-100 text-emerald-900"
+                          : "border-gray-200 bg-gray-100 text-gray-700"
+                      }
+                    >
+                      {playbook.isActive
+                        ? playbook.mode === "replace"
+                          ? "Replaces built-in"
+                          : "Extends built-in"
+                        : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-[#271D1D]">
+                    v{playbook.version}
+                  </TableCell>
+                  <TableCell className="text-sm text-[#271D1D]">
+                    {formatDate(playbook.updatedAt)}
+                  </TableCell>
+                  <TableCell className="flex justify-end gap-2">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        setEditing(playbook);
+                        setDraft(createDraft(playbook));
+                      }}
+                    >
+                      <Pencil className="mr-1 h-4 w-4" />
+                      Edit
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() =>
+                        setHistoryFor((prev) =>
+                          prev?.id === playbook.id ? null : playbook,
+                        )
+                      }
+                    >
+                      <History className="mr-1 h-4 w-4" />
+                      History
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => {
+                        if (
+                          window.confirm(
+                            `Delete ${playbook.name}? Reviews will fall back to the built-in playbook.`,
+                          )
+                        ) {
+                          deleteMutation.mutate(playbook.id);
+                        }
+                      }}
+                    >
+                      <Trash2 className="mr-1 h-4 w-4" />
+                      Delete
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {historyFor && (
+          <div className="space-y-3">
+            <h3 className="text-sm font-semibold text-[#271D1D]">
+              Version history · {historyFor.name}
+            </h3>
+            {versionsQuery.isLoading ? (
+              <Skeleton className="h-12 w-full rounded" />
+            ) : (
+              <ul className="divide-y divide-[#E8DDDD] rounded border border-[#E8DDDD]">
+                {(versionsQuery.data ?? []).map((version) => (
+                  <li
+                    key={version.id}
+                    className="flex items-center justify-between gap-4 px-4 py-2 text-sm"
+                  >
+                    <div>
+                      <span className="font-medium text-[#271D1D]">
+                        v{version.version}
+                      </span>{" "}
+                      <span className="text-[#6B7280]">
+                        {formatDate(version.createdAt)} ·{" "}
+                        {version.definition.criticalClauses.length} clauses ·{" "}
+                        {version.definition.mode}
+                        {version.changeNote ? ` · ${version.changeNote}` : ""}
+                      </span>
+                    </div>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      disabled={
+                        version.version === historyFor.version ||
+                        restoreMutation.isPending
+                      }
+                      onClick={() =>
+                        restoreMutation.mutate({
+                          playbookId: historyFor.id,
+                          version: version.version,
+                        })
+                      }
+                    >
+                      <RotateCcw className="mr-1 h-4 w-4" />
+                      Restore
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrgPlaybooksPanel;
@@ -0,0 +1,111 @@
+import React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/components/ui/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { useUser } from "@/contexts/SupabaseUserContext";
+import OrgAdminService from "@/services/orgAdminService";
+import type { OrgPrivacySettings } from "@shared/api";
+import { EyeOff, Recycle } from "lucide-react";
+
+const OrgPrivacyPanel: React.FC = () => {
+  const { user } = useUser();
+  const organizationId = user?.organization?.id ?? null;
+  const authUserId = user?.authUserId ?? null;
+  const canManage = Boolean(
+    organizationId && authUserId && (user?.isMaigonAdmin || user?.isOrgAdmin),
+  );
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const queryKey = ["org-privacy", organizationId];
+
+  const settingsQuery = useQuery<OrgPrivacySettings>({
+    queryKey,
+    queryFn: () =>
+      OrgAdminService.getPrivacySettings(organizationId!, authUserId!),
+    enabled: canManage,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (settings: Partial<OrgPrivacySettings>) =>
+      OrgAdminService.updatePrivacySettings(
+        organizationId!,
+        authUserId!,
+        settings,
+      ),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(queryKey, settings);
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Failed to update privacy settings",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!canManage) {
+    return null;
+  }
+
+  return (
+    <Card className="border-[#E8DDDD]">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-[#271D1D]">
+          Privacy
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between rounded-lg border border-[#E8DDDD] bg-white px-4 py-3">
+          <div className="flex items-center gap-3">
+            <EyeOff className="h-4 w-4 text-[#9A7C7C]" />
+            <div>
+              <p className="text-sm font-medium text-[#271D1D]">
+                Redact before analysis
+              </p>
+              <p className="text-xs text-[#6B7280]">
+                Replace party names, people, contact details, addresses, IBANs
+                and VAT or company numbers with placeholders before contract
+                text is sent to the AI provider. Reports and drafts show the
+                original values.
+              </p>
+            </div>
+          </div>
+          <Switch
+            checked={settingsQuery.data?.redactBeforeAnalysis ?? false}
+            disabled={settingsQuery.isLoading || updateMutation.isPending}
+            onCheckedChange={(checked) =>
+              updateMutation.mutate({ redactBeforeAnalysis: checked })
+            }
+          />
+        </div>
+        <div className="flex items-center justify-between rounded-lg border border-[#E8DDDD] bg-white px-4 py-3">
+          <div className="flex items-center gap-3">
+            <Recycle className="h-4 w-4 text-[#9A7C7C]" />
+            <div>
+              <p className="text-sm font-medium text-[#271D1D]">
+                Reuse identical reviews
+              </p>
+              <p className="text-xs text-[#6B7280]">
+                When a contract your organization has already reviewed is
+                uploaded again with the same solution, perspective and playbook,
+                show the earlier report instead of re-running the analysis.
+                Cached reviews do not use credits.
+              </p>
+            </div>
+          </div>
+          <Switch
+            checked={settingsQuery.data?.reviewCacheEnabled ?? true}
+            disabled={settingsQuery.isLoading || updateMutation.isPending}
+            onCheckedChange={(checked) =>
+              updateMutation.mutate({ reviewCacheEnabled: checked })
+            }
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrgPrivacyPanel;
@@ -0,0 +1,173 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/components/ui/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useUser } from "@/contexts/SupabaseUserContext";
+import OrgAdminService from "@/services/orgAdminService";
+import type { OrgRetentionPurge, OrgRetentionSettings } from "@shared/api";
+import { Lock } from "lucide-react";
+
+type RetentionPayload = {
+  settings: OrgRetentionSettings;
+  purges: OrgRetentionPurge[];
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+const OrgRetentionPanel: React.FC = () => {
+  const { user } = useUser();
+  const organizationId = user?.organization?.id ?? null;
+  const authUserId = user?.authUserId ?? null;
+  const canManage = Boolean(
+    organizationId && authUserId && (user?.isMaigonAdmin || user?.isOrgAdmin),
+  );
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const queryKey = ["org-retention", organizationId];
+  const [reason, setReason] = useState("");
+
+  const retentionQuery = useQuery<RetentionPayload>({
+    queryKey,
+    queryFn: () => OrgAdminService.getRetention(organizationId!, authUserId!),
+    enabled: canManage,
+  });
+
+  const holdMutation = useMutation({
+    mutationFn: (legalHold: boolean) =>
+      OrgAdminService.updateLegalHold(
+        organizationId!,
+        authUserId!,
+        legalHold,
+        reason,
+      ),
+    onSuccess: (settings) => {
+      queryClient.setQueryData<RetentionPayload>(queryKey, (current) => ({
+        purges: current?.purges ?? [],
+        settings,
+      }));
+      setReason("");
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Failed to update legal hold",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!canManage) {
+    return null;
+  }
+
+  const settings = retentionQuery.data?.settings;
+  const purges = retentionQuery.data?.purges ?? [];
+
+  return (
+    <Card className="border-[#E8DDDD]">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-[#271D1D]">
+          Retention
+        </CardTitle>
+        <p className="text-sm text-[#6B7280]">
+          {settings?.reportStorageDays
+            ? `Reports, uploads and drafts are deleted ${settings.reportStorageDays} days after the latest review of each contract. Members are emailed before anything is deleted.`
+            : "Reports are kept permanently under your organization's plan. Members on time-limited plans have their own reports deleted when the plan's storage period ends."}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {retentionQuery.isError && (
+          <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            Failed to load retention settings. Please refresh and try again.
+          </div>
+        )}
+
+        <div className="space-y-3 rounded-lg border border-[#E8DDDD] bg-white px-4 py-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <Lock className="h-4 w-4 text-[#9A7C7C]" />
+              <div>
+                <p className="text-sm font-medium text-[#271D1D]">Legal hold</p>
+                <p className="text-xs text-[#6B7280]">
+                  {settings?.legalHold
+                    ? `On since ${settings.legalHoldSetAt ? formatDate(settings.legalHoldSetAt) : "—"}${settings.legalHoldReason ? `: ${settings.legalHoldReason}` : ""}. Nothing is deleted while the hold is on.`
+                    : "Suspend all retention deletions for your organization, for example during litigation or an audit."}
+                </p>
+              </div>
+            </div>
+            <Switch
+              checked={settings?.legalHold ?? false}
+              disabled={retentionQuery.isLoading || holdMutation.isPending}
+              onCheckedChange={(checked) => holdMutation.mutate(checked)}
+            />
+          </div>
+          {!settings?.legalHold && (
+            <Input
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              placeholder="Reason for the hold (optional)"
+              maxLength={500}
+            />
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-[#271D1D]">Deletion log</h3>
+          {retentionQuery.isLoading ? (
+            <div className="space-y-2">
+              {[1, 2].map((item) => (
+                <Skeleton key={item} className="h-10 w-full rounded" />
+              ))}
+            </div>
+          ) : purges.length === 0 ? (
+            <div className="rounded border border-dashed border-[#E8DDDD] p-6 text-center text-sm text-[#6B7280]">
+              No contracts have been deleted by retention.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Contract</TableHead>
+                  <TableHead>Expired</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Removed</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {purges.map((purge) => (
+                  <TableRow key={purge.id}>
+                    <TableCell className="text-sm text-[#271D1D]">
+                      {purge.contractTitle ?? purge.contractId}
+                    </TableCell>
+                    <TableCell className="text-xs text-[#6B7280]">
+                      {formatDate(purge.expiredAt)}
+                    </TableCell>
+                    <TableCell className="text-xs text-[#6B7280]">
+                      {formatDate(purge.createdAt)}
+                    </TableCell>
+                    <TableCell className="text-xs text-[#6B7280]">
+                      {`${purge.purged.reviews} review(s), ${purge.purged.ingestions} upload(s), ${purge.purged.draftSnapshots} draft(s), ${purge.purged.storageObjects} file(s)`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrgRetentionPanel;
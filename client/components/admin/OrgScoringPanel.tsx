@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/components/ui/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import ScoringProfileEditor from "@/components/ScoringProfileEditor";
+import { useUser } from "@/contexts/SupabaseUserContext";
+import OrgAdminService from "@/services/orgAdminService";
+import {
+  DEFAULT_SCORING_PROFILE,
+  validateScoringProfile,
+  type ScoringProfile,
+} from "@shared/ai/scoringProfile";
+import type { OrgScoringSettings } from "@shared/api";
+
+const OrgScoringPanel: React.FC = () => {
+  const { user } = useUser();
+  const organizationId = user?.organization?.id ?? null;
+  const authUserId = user?.authUserId ?? null;
+  const canManage = Boolean(
+    organizationId && authUserId && (user?.isMaigonAdmin || user?.isOrgAdmin),
+  );
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const queryKey = ["org-scoring", organizationId];
+
+  const [draft, setDraft] = useState<ScoringProfile>(DEFAULT_SCORING_PROFILE);
+
+  const settingsQuery = useQuery<OrgScoringSettings>({
+    queryKey,
+    queryFn: () =>
+      OrgAdminService.getScoringSettings(organizationId!, authUserId!),
+    enabled: canManage,
+  });
+
+  useEffect(() => {
+    if (settingsQuery.data) {
+      setDraft(settingsQuery.data.profile ?? DEFAULT_SCORING_PROFILE);
+    }
+  }, [settingsQuery.data]);
+
+  const updateMutation = useMutation({
+    mutationFn: (profile: ScoringProfile | null) =>
+      OrgAdminService.updateScoringProfile(
+        organizationId!,
+        authUserId!,
+        profile,
+      ),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(queryKey, settings);
+      toast({ title: "Scoring profile saved" });
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Failed to update scoring profile",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!canManage) {
+    return null;
+  }
+
+  const validationError = validateScoringProfile(draft);
+  const usesDefault = settingsQuery.data?.profile == null;
+
+  return (
+    <Card className="border-[#E8DDDD]">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-[#271D1D]">
+          Scoring
+        </CardTitle>
+        <p className="text-sm text-[#6B7280]">
+          How the compliance score is calculated for your organization's
+          reviews. Custom solutions can refine this profile. Changes apply to
+          new reviews only.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {settingsQuery.isError && (
+          <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            Failed to load the scoring profile. Please refresh and try again.
+          </div>
+        )}
+        {settingsQuery.isLoading ? (
+          <Skeleton className="h-48 w-full rounded" />
+        ) : (
+          <ScoringProfileEditor
+            value={draft}
+            onChange={setDraft}
+            disabled={updateMutation.isPending}
+          />
+        )}
+        {validationError && (
+          <p className="text-xs text-red-700">{validationError}</p>
+        )}
+        <div className="flex items-center justify-end gap-2">
+          <Button
+            variant="outline"
+            disabled={usesDefault || updateMutation.isPending}
+            onClick={() => updateMutation.mutate(null)}
+          >
+            Restore default
+          </Button>
+          <Button
+            disabled={
+              Boolean(validationError) ||
+              settingsQuery.isLoading ||
+              updateMutation.isPending
+            }
+            onClick={() => updateMutation.mutate(draft)}
+          >
+            Save scoring profile
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrgScoringPanel;
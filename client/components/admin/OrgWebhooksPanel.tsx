@@ -0,0 +1,477 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/components/ui/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useUser } from "@/contexts/SupabaseUserContext";
+import OrgAdminService from "@/services/orgAdminService";
+import {
+  ORG_WEBHOOK_EVENT_TYPES,
+  type OrgWebhookDelivery,
+  type OrgWebhookDeliveryStatus,
+  type OrgWebhookEndpoint,
+  type OrgWebhookEventType,
+} from "@shared/api";
+import { Copy, RotateCcw, Webhook } from "lucide-react";
+
+const EVENT_LABELS: Record<OrgWebhookEventType, string> = {
+  "ingestion.extracted": "Document extracted",
+  "review.completed": "Review completed",
+  "review.fallback": "Review fell back",
+  "draft.succeeded": "Draft succeeded",
+  "draft.failed": "Draft failed",
+  "agent_edit.approved": "Agent edit approved",
+};
+
+const STATUS_STYLES: Record<OrgWebhookDeliveryStatus, string> = {
+  pending: "border-amber-200 bg-amber-100 text-amber-900",
+  sending: "border-blue-200 bg-blue-100 text-blue-900",
+  sent: "border-emerald-200 bg-emerald-100 text-emerald-900",
+  failed: "border-red-200 bg-red-100 text-red-900",
+};
+
+function formatDateTime(value: string | null): string {
+  if (!value) return "—";
+  try {
+    return new Date(value).toLocaleString();
+  } catch {
+    return value;
+  }
+}
+
+function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const jsonStart = message.indexOf("{");
+  if (jsonStart >= 0) {
+    try {
+      const parsed = JSON.parse(message.slice(jsonStart));
+      if (typeof parsed?.error === "string") return parsed.error;
+    } catch {
+      // fall through to the raw message
+    }
+  }
+  return message;
+}
+
+const OrgWebhooksPanel: React.FC = () => {
+  const { user } = useUser();
+  const organizationId = user?.organization?.id ?? null;
+  const authUserId = user?.authUserId ?? null;
+  const canManage = Boolean(
+    organizationId && authUserId && (user?.isMaigonAdmin || user?.isOrgAdmin),
+  );
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [eventTypes, setEventTypes] = useState<OrgWebhookEventType[]>([
+    ...ORG_WEBHOOK_EVENT_TYPES,
+  ]);
+  const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+
+  const endpointsQuery = useQuery<OrgWebhookEndpoint[]>({
+    queryKey: ["org-webhooks", organizationId, "endpoints"],
+    queryFn: () =>
+      OrgAdminService.listWebhookEndpoints(organizationId!, authUserId!),
+    enabled: canManage,
+  });
+
+  const deliveriesQuery = useQuery<OrgWebhookDelivery[]>({
+    queryKey: ["org-webhooks", organizationId, "deliveries"],
+    queryFn: () =>
+      OrgAdminService.listWebhookDeliveries(organizationId!, authUserId!),
+    enabled: canManage,
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({
+      queryKey: ["org-webhooks", organizationId],
+    });
+
+  const onMutationError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: describeError(error),
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      OrgAdminService.createWebhookEndpoint(organizationId!, authUserId!, {
+        url: url.trim(),
+        description: description.trim() || null,
+        eventTypes,
+      }),
+    onSuccess: (created) => {
+      setRevealedSecret(created.secret);
+      setUrl("");
+      setDescription("");
+      invalidate();
+    },
+    onError: onMutationError("Failed to add webhook endpoint"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (endpoint: OrgWebhookEndpoint) =>
+      OrgAdminService.updateWebhookEndpoint(
+        organizationId!,
+        authUserId!,
+        endpoint.id,
+        { enabled: !endpoint.enabled },
+      ),
+    onSuccess: () => {
+      invalidate();
+    },
+    onError: onMutationError("Failed to update webhook endpoint"),
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: (endpointId: string) =>
+      OrgAdminService.rotateWebhookSecret(
+        organizationId!,
+        authUserId!,
+        endpointId,
+      ),
+    onSuccess: (rotated) => {
+      setRevealedSecret(rotated.secret);
+    },
+    onError: onMutationError("Failed to rotate signing secret"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (endpointId: string) =>
+      OrgAdminService.deleteWebhookEndpoint(
+        organizationId!,
+        authUserId!,
+        endpointId,
+      ),
+    onSuccess: () => {
+      invalidate();
+    },
+    onError: onMutationError("Failed to delete webhook endpoint"),
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: (deliveryId: string) =>
+      OrgAdminService.replayWebhookDelivery(
+        organizationId!,
+        authUserId!,
+        deliveryId,
+      ),
+    onSuccess: (delivery) => {
+      toast({
+        title: delivery.status === "sent" ? "Event replayed" : "Replay failed",
+        description: delivery.lastError ?? undefined,
+        variant: delivery.status === "sent" ? undefined : "destructive",
+      });
+      invalidate();
+    },
+    onError: onMutationError("Failed to replay event"),
+  });
+
+  if (!canManage) {
+    return null;
+  }
+
+  const endpoints = endpointsQuery.data ?? [];
+  const deliveries = deliveriesQuery.data ?? [];
+  const endpointUrls = new Map(
+    endpoints.map((endpoint) => [endpoint.id, endpoint.url]),
+  );
+
+  const toggleEventType = (type: OrgWebhookEventType) => {
+    setEventTypes((current) =>
+      current.includes(type)
+        ? current.filter((entry) => entry !== type)
+        : [...current, type],
+    );
+  };
+
+  const copySecret = async () => {
+    if (!revealedSecret) return;
+    try {
+      await navigator.clipboard.writeText(revealedSecret);
+      toast({ title: "Signing secret copied" });
+    } catch {
+      toast({
+        title: "Copy failed",
+        description: "Select the secret and copy it manually.",
+      });
+    }
+  };
+
+  return (
+    <Card className="border-[#E8DDDD]">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-[#271D1D]">
+          Webhooks
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="grid gap-3 md:grid-cols-[2fr_1fr_auto]"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (!url.trim() || eventTypes.length === 0) return;
+            createMutation.mutate();
+          }}
+        >
+          <Input
+            aria-label="Endpoint URL"
+            placeholder="https://example.com/maigon/webhooks"
+            value={url}
+            onChange={(event) => setUrl(event.target.value)}
+          />
+          <Input
+            aria-label="Description"
+            placeholder="Description (optional)"
+            value={description}
+            onChange={(event) => setDescription(event.target.value)}
+          />
+          <Button
+            type="submit"
+            disabled={
+              createMutation.isPending || !url.trim() || eventTypes.length === 0
+            }
+          >
+            <Webhook className="mr-1 h-4 w-4" />
+            Add endpoint
+          </Button>
+          <div className="flex flex-wrap gap-4 text-sm text-[#271D1D] md:col-span-3">
+            {ORG_WEBHOOK_EVENT_TYPES.map((type) => (
+              <label key={type} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={eventTypes.includes(type)}
+                  onChange={() => toggleEventType(type)}
+                />
+                {EVENT_LABELS[type]}
+              </label>
+            ))}
+          </div>
+        </form>
+
+        {revealedSecret && (
+          <div className="space-y-2 rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+            <div>
+              Copy this signing secret now. It will not be shown again. Verify
+              the x-maigon-signature header against it.
+            </div>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 break-all rounded bg-white px-2 py-1 text-xs">
+                {revealedSecret}
+              </code>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={copySecret}
+              >
+                <Copy className="mr-1 h-4 w-4" />
+                Copy
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => setRevealedSecret(null)}
+              >
+                Done
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {(endpointsQuery.isError || deliveriesQuery.isError) && (
+          <div className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+            Failed to load webhooks. Please refresh and try again.
+          </div>
+        )}
+
+        {endpointsQuery.isLoading ? (
+          <div className="space-y-2">
+            {[1, 2].map((item) => (
+              <Skeleton key={item} className="h-12 w-full rounded" />
+            ))}
+          </div>
+        ) : endpoints.length === 0 ? (
+          <div className="rounded border border-dashed border-[#E8DDDD] p-6 text-center text-sm text-[#6B7280]">
+            No webhook endpoints yet. Endpoints receive signed JSON events when
+            documents, reviews, drafts and agent edits change state.
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Endpoint</TableHead>
+                <TableHead>Events</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {endpoints.map((endpoint) => (
+                <TableRow key={endpoint.id}>
+                  <TableCell className="text-sm text-[#271D1D]">
+                    <div className="break-all font-medium">{endpoint.url}</div>
+                    {endpoint.description && (
+                      <div className="text-xs text-[#6B7280]">
+                        {endpoint.description}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {endpoint.eventTypes.map((type) => (
+                        <Badge key={type} variant="outline">
+                          {type}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={endpoint.enabled ? "outline" : "secondary"}>
+                      {endpoint.enabled ? "Enabled" : "Disabled"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="space-x-1 text-right">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      disabled={toggleMutation.isPending}
+                      onClick={() => toggleMutation.mutate(endpoint)}
+                    >
+                      {endpoint.enabled ? "Disable" : "Enable"}
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      disabled={rotateMutation.isPending}
+                      onClick={() => rotateMutation.mutate(endpoint.id)}
+                    >
+                      Rotate secret
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      className="text-red-700"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(endpoint.id)}
+                    >
+                      Delete
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-[#271D1D]">
+            Delivery history
+          </h3>
+          {deliveriesQuery.isLoading ? (
+            <div className="space-y-2">
+              {[1, 2, 3].map((item) => (
+                <Skeleton key={item} className="h-10 w-full rounded" />
+              ))}
+            </div>
+          ) : deliveries.length === 0 ? (
+            <div className="rounded border border-dashed border-[#E8DDDD] p-6 text-center text-sm text-[#6B7280]">
+              No events have been delivered yet.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((delivery) => (
+                  <TableRow key={delivery.id}>
+                    <TableCell className="text-sm text-[#271D1D]">
+                      <div className="font-medium">
+                        {EVENT_LABELS[delivery.eventType] ?? delivery.eventType}
+                        {delivery.replayOf && (
+                          <span className="ml-2 text-xs text-[#6B7280]">
+                            replay
+                          </span>
+                        )}
+                      </div>
+                      <div className="font-mono text-xs text-[#6B7280]">
+                        {delivery.eventId}
+                      </div>
+                      {delivery.lastError && (
+                        <div className="text-xs text-red-600">
+                          {delivery.lastError}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="break-all text-xs text-[#271D1D]">
+                      {endpointUrls.get(delivery.endpointId) ??
+                        delivery.endpointId}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant="outline"
+                        className={STATUS_STYLES[delivery.status]}
+                      >
+                        {delivery.status}
+                      </Badge>
+                      <div className="mt-1 text-xs text-[#6B7280]">
+                        {delivery.attempts}/{delivery.maxAttempts} attempts
+                        {delivery.responseStatus !== null &&
+                          ` · HTTP ${delivery.responseStatus}`}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-[#271D1D]">
+                      {formatDateTime(
+                        delivery.deliveredAt ?? delivery.createdAt,
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        disabled={replayMutation.isPending}
+                        onClick={() => replayMutation.mutate(delivery.id)}
+                      >
+                        <RotateCcw className="mr-1 h-4 w-4" />
+                        Replay
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrgWebhooksPanel;
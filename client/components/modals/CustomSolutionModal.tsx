@@ -2,6 +2,16 @@ import React, { useEffect, useState } from "react";
 import { useUser } from "@/contexts/SupabaseUserContext";
 import { aiService, AIModel } from "@/services/aiService";
 import AdminOrgService from "@/services/adminOrgService";
+import {
+  ANALYSIS_DEPTH_PROFILES,
+  REPORT_FORMAT_LAYOUTS,
+} from "@shared/ai/solutionProfiles";
+import {
+  DEFAULT_SCORING_PROFILE,
+  validateScoringProfile,
+  type ScoringProfile,
+} from "@shared/ai/scoringProfile";
+import ScoringProfileEditor from "@/components/ScoringProfileEditor";
 import { toast } from "@/hooks/use-toast";
 import {
   Dialog,
@@ -39,6 +49,7 @@ import {
   GitBranch,
   Link2,
   Trash2,
+  Gauge,
 } from "lucide-react";
 import type {
   AdminOrganizationSummary,
@@ -86,6 +97,10 @@ const AI_MODEL_OPTIONS: Array<{ label: string; value: AIModel }> = [
   { label: "Anthropic Claude 3", value: AIModel.ANTHROPIC_CLAUDE },
   { label: "Anthropic Claude 3 Opus", value: AIModel.ANTHROPIC_CLAUDE_OPUS },
   { label: "Google Gemini Pro", value: AIModel.GOOGLE_GEMINI },
+  {
+    label: "Self-hosted / EU model (OpenAI-compatible)",
+    value: AIModel.SELF_HOSTED,
+  },
 ];
 
 const SECTION_PRESETS: ReadonlyArray<CustomSolutionSectionConfig> = [
@@ -200,6 +215,10 @@ export default function CustomSolutionModal({
     });
   const [draftingSettings, setDraftingSettings] =
     useState<CustomSolutionDraftingSettings>(buildDefaultDraftingSettings());
+  // Null inherits the organization's scoring profile.
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfile | null>(
+    null,
+  );
 
   const [loading, setLoading] = useState(false);
   const { user } = useUser();
@@ -472,6 +491,7 @@ export default function CustomSolutionModal({
           reasoningModel: modelSettings.reasoningModel || formData.aiModel,
         },
         draftingSettings,
+        scoringProfile,
       };
 
       // Save to database
@@ -517,8 +537,12 @@ export default function CustomSolutionModal({
     formData.name.trim().length > 0 &&
     formData.description.trim().length > 0 &&
     formData.contractType.trim().length > 0;
+  const scoringProfileError = scoringProfile
+    ? validateScoringProfile(scoringProfile)
+    : null;
   const canSubmit =
     requiredFieldsComplete &&
+    !scoringProfileError &&
     Boolean(user) &&
     Boolean(organizationId) &&
     !organizationError &&
@@ -550,6 +574,7 @@ export default function CustomSolutionModal({
     setNewBenchmark(createNewBenchmarkDraft());
     setModelSettings({ ...DEFAULT_MODEL_SETTINGS });
     setDraftingSettings(buildDefaultDraftingSettings());
+    setScoringProfile(null);
   };
 
   useEffect(() => {
@@ -804,6 +829,9 @@ export default function CustomSolutionModal({
                     <SelectItem value="comprehensive">Comprehensive Analysis</SelectItem>
                   </SelectContent>
                 </Select>
+                <p className="text-xs text-[#725A5A]">
+                  {ANALYSIS_DEPTH_PROFILES[formData.analysisDepth].description}
+                </p>
               </div>
 
               <div className="space-y-2">
@@ -821,6 +849,9 @@ export default function CustomSolutionModal({
                     <SelectItem value="executive">Executive Summary</SelectItem>
                   </SelectContent>
                 </Select>
+                <p className="text-xs text-[#725A5A]">
+                  {REPORT_FORMAT_LAYOUTS[formData.reportFormat].description}
+                </p>
               </div>
             </div>
 
@@ -1445,6 +1476,43 @@ export default function CustomSolutionModal({
             </div>
           </div>
 
+          {/* Scoring */}
+          <div className="space-y-4">
+            <h3 className="font-medium text-[#271D1D] flex items-center gap-2">
+              <Gauge className="w-4 h-4" />
+              Scoring
+            </h3>
+            <div className="border border-[#271D1D]/10 rounded-md p-3 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-[#271D1D]">
+                  Custom scoring profile
+                </p>
+                <p className="text-xs text-[#725A5A]">
+                  Off uses the organization's scoring profile.
+                </p>
+              </div>
+              <Switch
+                checked={scoringProfile !== null}
+                onCheckedChange={(checked) =>
+                  setScoringProfile(
+                    checked ? { ...DEFAULT_SCORING_PROFILE } : null,
+                  )
+                }
+              />
+            </div>
+            {scoringProfile && (
+              <>
+                <ScoringProfileEditor
+                  value={scoringProfile}
+                  onChange={setScoringProfile}
+                />
+                {scoringProfileError && (
+                  <p className="text-xs text-red-700">{scoringProfileError}</p>
+                )}
+              </>
+            )}
+          </div>
+
           {/* Advanced AI Configuration */}
           <div className="space-y-4 pt-4 border-t">
             <h4 className="font-medium text-[#271D1D] flex items-center gap-2">
@@ -0,0 +1,24 @@
+import { supabase } from "./supabase";
+
+/**
+ * fetch() for API routes that verify the caller's Supabase session. Sends the
+ * current access token as a bearer token; without a session the request goes
+ * out unauthenticated and the server answers 401.
+ */
+export async function authorizedFetch(
+  input: RequestInfo | URL,
+  init: RequestInit = {},
+): Promise<Response> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  const headers = new Headers(init.headers);
+  if (session?.access_token) {
+    headers.set("Authorization", `Bearer ${session.access_token}`);
+  }
+
+  return fetch(input, { ...init, headers });
+}
+
+export default authorizedFetch;
@@ -1,5 +1,6 @@
 
 import type { ExtractionAssets } from "@shared/api";
+import type { ReportLanguageMode } from "@shared/contractLanguage";
 
 export interface PendingClauseSnippet {
   id: string;
@@ -36,6 +37,8 @@ export interface PendingReviewMetadata {
   solutionKey?: string;
   customSolutionId?: string;
   organizationId?: string | null;
+  previousContractId?: string;
+  reportLanguage?: ReportLanguageMode;
   clauseSnippets?: PendingClauseSnippet[];
   similarityReferences?: PendingSimilarityReference[];
   editAnchors?: PendingEditAnchor[];
@@ -65,6 +68,9 @@ export interface PendingReviewRequest {
     selected_solution_key?: string;
     assets?: ExtractionAssets;
     organization_id?: string | null;
+    /** Contract this upload revises; triggers a version comparison. */
+    previous_contract_id?: string;
+    report_language?: ReportLanguageMode;
   };
   reviewType: string;
   metadata: PendingReviewMetadata;
@@ -242,6 +242,8 @@ export type Database = {
           custom_solution_id: string | null;
           metadata: Json | null;
           organization_id: string | null;
+          previous_version_id: string | null;
+          version_number: number;
         };
         Insert: {
           id?: string;
@@ -258,6 +260,8 @@ export type Database = {
           custom_solution_id?: string | null;
           metadata?: Json | null;
           organization_id?: string | null;
+          previous_version_id?: string | null;
+          version_number?: number;
         };
         Update: {
           id?: string;
@@ -274,6 +278,8 @@ export type Database = {
           custom_solution_id?: string | null;
           metadata?: Json | null;
           organization_id?: string | null;
+          previous_version_id?: string | null;
+          version_number?: number;
         };
       };
       contract_reviews: {
@@ -450,6 +456,8 @@ export type Database = {
           rationale: string | null;
           metadata: Json;
           accepted_at: string;
+          thread_id: string | null;
+          message_id: string | null;
         };
         Insert: {
           id?: string;
@@ -465,6 +473,8 @@ export type Database = {
           rationale?: string | null;
           metadata?: Json;
           accepted_at?: string;
+          thread_id?: string | null;
+          message_id?: string | null;
         };
         Update: {
           id?: string;
@@ -480,6 +490,8 @@ export type Database = {
           rationale?: string | null;
           metadata?: Json;
           accepted_at?: string;
+          thread_id?: string | null;
+          message_id?: string | null;
         };
       };
       custom_solutions: {
@@ -507,6 +519,7 @@ export type Database = {
           similarity_benchmarks: Json | null;
           model_settings: Json | null;
           drafting_settings: Json | null;
+          scoring_profile: Json | null;
         };
         Insert: {
           id?: string;
@@ -532,6 +545,7 @@ export type Database = {
           similarity_benchmarks?: Json | null;
           model_settings?: Json | null;
           drafting_settings?: Json | null;
+          scoring_profile?: Json | null;
         };
         Update: {
           id?: string;
@@ -557,6 +571,7 @@ export type Database = {
           similarity_benchmarks?: Json | null;
           model_settings?: Json | null;
           drafting_settings?: Json | null;
+          scoring_profile?: Json | null;
         };
       };
       admin_analytics: {
@@ -0,0 +1,375 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+import { ArrowDown, ArrowUp, Upload as UploadIcon } from "lucide-react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import Logo from "@/components/Logo";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useUser } from "@/contexts/SupabaseUserContext";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BatchCreditsExhaustedError,
+  BatchReviewService,
+} from "@/services/batchReviewService";
+import { ContractsService } from "@/services/contractsService";
+import { ContractReviewsService } from "@/services/contractReviewsService";
+import type {
+  ContractReviewPayload,
+  ReviewBatchDetail,
+  ReviewBatchItem,
+} from "@shared/api";
+
+const REVIEW_TYPE_OPTIONS = [
+  { value: "full_summary", label: "Full summary" },
+  { value: "compliance_score", label: "Compliance" },
+  { value: "risk_assessment", label: "Risk assessment" },
+  { value: "perspective_review", label: "Perspective review" },
+];
+
+const STATUS_LABELS: Record<ReviewBatchItem["status"], string> = {
+  queued: "Queued",
+  extracting: "Extracting",
+  classifying: "Classifying",
+  reviewing: "Reviewing",
+  completed: "Completed",
+  failed: "Failed",
+  skipped: "Skipped",
+};
+
+type SortKey = "complianceScore" | "criticalIssues";
+
+function describeError(error: unknown) {
+  return error instanceof Error ? error.message : "Unexpected error";
+}
+
+export default function BatchReview() {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const statePerspective = (location.state as { perspective?: string } | null)
+    ?.perspective;
+
+  const [files, setFiles] = useState<File[]>([]);
+  const [reviewType, setReviewType] = useState("full_summary");
+  const [batch, setBatch] = useState<ReviewBatchDetail | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [openingItemId, setOpeningItemId] = useState<string | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; direction: "asc" | "desc" }>(
+    { key: "criticalIssues", direction: "desc" },
+  );
+  const stopRequested = useRef(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const authUserId = user?.authUserId ?? null;
+  const profileId = user?.profileId ?? user?.id ?? null;
+
+  const handleItemChange = useCallback((item: ReviewBatchItem) => {
+    setBatch((current) =>
+      current
+        ? {
+            ...current,
+            items: current.items.map((existing) =>
+              existing.id === item.id ? item : existing,
+            ),
+          }
+        : current,
+    );
+  }, []);
+
+  const handleStart = async () => {
+    if (!authUserId || !profileId || !files.length) return;
+    setIsRunning(true);
+    stopRequested.current = false;
+
+    try {
+      const created = await BatchReviewService.createBatch(files, {
+        reviewType,
+        perspective: statePerspective,
+      });
+      setBatch(created);
+
+      await BatchReviewService.runBatch(created, reviewType, {
+        authUserId,
+        profileId,
+        organizationId: user?.organization?.id ?? null,
+        onItemChange: handleItemChange,
+        shouldStop: () => stopRequested.current,
+      });
+
+      setBatch(await BatchReviewService.getBatch(created.id));
+      toast({ title: "Batch review finished" });
+    } catch (error) {
+      toast({
+        title:
+          error instanceof BatchCreditsExhaustedError
+            ? "Not enough review credits"
+            : "Batch review failed",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!authUserId || !batch) return;
+    stopRequested.current = true;
+    try {
+      await BatchReviewService.cancelBatch(batch.id);
+    } catch (error) {
+      toast({
+        title: "Unable to cancel batch",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleOpen = async (item: ReviewBatchItem) => {
+    if (!item.contractId || !item.reviewId) return;
+    setOpeningItemId(item.id);
+    try {
+      const [contract, review] = await Promise.all([
+        ContractsService.getContract(item.contractId),
+        ContractReviewsService.getReview(item.reviewId),
+      ]);
+      const payload = {
+        contract,
+        review,
+        metadata: { fileName: item.fileName },
+        classification: null,
+      } as unknown as ContractReviewPayload;
+      sessionStorage.setItem("maigon:lastReview", JSON.stringify(payload));
+      navigate("/contract-review", { state: payload });
+    } catch (error) {
+      toast({
+        title: "Unable to open review",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setOpeningItemId(null);
+    }
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort((current) =>
+      current.key === key
+        ? { key, direction: current.direction === "asc" ? "desc" : "asc" }
+        : { key, direction: key === "complianceScore" ? "asc" : "desc" },
+    );
+  };
+
+  const sortedItems = useMemo(() => {
+    if (!batch) return [];
+    const factor = sort.direction === "asc" ? 1 : -1;
+    return [...batch.items].sort((a, b) => {
+      const left = a[sort.key];
+      const right = b[sort.key];
+      // Documents without a result always sink to the bottom.
+      if (left === null && right === null) return a.position - b.position;
+      if (left === null) return 1;
+      if (right === null) return -1;
+      return (left - right) * factor || a.position - b.position;
+    });
+  }, [batch, sort]);
+
+  const finishedCount = batch
+    ? batch.items.filter((item) =>
+        ["completed", "failed", "skipped"].includes(item.status),
+      ).length
+    : 0;
+
+  const renderSortHeader = (key: SortKey, label: string) => (
+    <button
+      type="button"
+      onClick={() => toggleSort(key)}
+      className="inline-flex items-center gap-1"
+    >
+      {label}
+      {sort.key === key &&
+        (sort.direction === "asc" ? (
+          <ArrowUp className="h-3 w-3" />
+        ) : (
+          <ArrowDown className="h-3 w-3" />
+        ))}
+    </button>
+  );
+
+  return (
+    <div className="min-h-screen bg-[#F9F8F8] flex flex-col">
+      <nav className="flex items-center justify-between px-8 lg:px-16 py-6">
+        <Link to="/home">
+          <Logo size="xl" />
+        </Link>
+        <Link
+          to="/upload"
+          className="text-[#271D1D] hover:text-[#9A7C7C] transition-colors"
+        >
+          Single upload
+        </Link>
+      </nav>
+
+      <main className="flex-1 px-8 lg:px-16 py-12">
+        <div className="mx-auto w-full max-w-[1100px] flex flex-col gap-8">
+          <div>
+            <h1 className="text-[#271D1D] font-lora text-3xl lg:text-5xl font-medium mb-3">
+              Batch review
+            </h1>
+            <p className="text-black font-roboto text-sm lg:text-base">
+              Upload a ZIP of a data room or several contracts at once. Each
+              document is classified automatically and reviewed in turn; one
+              review credit is used per completed contract.
+            </p>
+          </div>
+
+          <div className="flex flex-col gap-4 rounded-lg border border-[#D6CECE] bg-white p-6 md:flex-row md:items-end">
+            <div className="flex-1">
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept=".zip,.pdf,.docx,.txt,.md,.html,.htm"
+                className="hidden"
+                onChange={(event) =>
+                  setFiles(Array.from(event.target.files ?? []))
+                }
+              />
+              <Button
+                type="button"
+                variant="outline"
+                disabled={isRunning}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <UploadIcon className="mr-2 h-4 w-4" />
+                Choose files or ZIP
+              </Button>
+              <p className="mt-2 text-sm text-[#9A7C7C] font-roboto">
+                {files.length
+                  ? `${files.length} file${files.length === 1 ? "" : "s"} selected`
+                  : "No files selected"}
+              </p>
+            </div>
+            <select
+              value={reviewType}
+              onChange={(event) => setReviewType(event.target.value)}
+              disabled={isRunning}
+              className="h-9 rounded-lg border border-[#D6CECE] bg-white px-3 text-[#271D1D] font-roboto text-sm focus:outline-none focus:ring-2 focus:ring-[#9A7C7C]/40"
+            >
+              {REVIEW_TYPE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {isRunning && batch ? (
+              <Button type="button" variant="outline" onClick={handleCancel}>
+                Cancel batch
+              </Button>
+            ) : (
+              <Button
+                type="button"
+                onClick={handleStart}
+                disabled={isRunning || !files.length || !authUserId}
+                className="bg-[#9A7C7C] hover:bg-[#9A7C7C]/90 text-[#F9F8F8]"
+              >
+                {isRunning ? "Uploading..." : "Start batch review"}
+              </Button>
+            )}
+          </div>
+
+          {batch && (
+            <div className="rounded-lg border border-[#D6CECE] bg-white p-6">
+              <div className="mb-4 flex items-center justify-between">
+                <h2 className="text-[#271D1D] font-lora text-xl font-medium">
+                  {batch.name}
+                </h2>
+                <span className="text-sm text-[#9A7C7C] font-roboto">
+                  {finishedCount} of {batch.items.length} processed
+                </span>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Document</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>
+                      {renderSortHeader("complianceScore", "Compliance score")}
+                    </TableHead>
+                    <TableHead>
+                      {renderSortHeader("criticalIssues", "Critical issues")}
+                    </TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortedItems.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell className="max-w-[280px] truncate">
+                        {item.fileName}
+                      </TableCell>
+                      <TableCell>{item.contractType ?? "—"}</TableCell>
+                      <TableCell className="min-w-[160px]">
+                        {item.status === "completed" ||
+                        item.status === "queued" ? (
+                          STATUS_LABELS[item.status]
+                        ) : item.status === "failed" ||
+                          item.status === "skipped" ? (
+                          <span title={item.error ?? undefined}>
+                            {STATUS_LABELS[item.status]}
+                            {item.error ? ` · ${item.error}` : ""}
+                          </span>
+                        ) : (
+                          <div className="flex flex-col gap-1">
+                            <span>{STATUS_LABELS[item.status]}</span>
+                            <Progress value={item.progress} className="h-1.5" />
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {item.complianceScore !== null
+                          ? Math.round(item.complianceScore)
+                          : "—"}
+                      </TableCell>
+                      <TableCell>
+                        {item.criticalIssues !== null
+                          ? item.criticalIssues
+                          : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.reviewId && (
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            disabled={openingItemId === item.id}
+                            onClick={() => handleOpen(item)}
+                          >
+                            Open
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,626 @@
+import { useState } from "react";
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { Folder, FolderPlus, Search, Trash2 } from "lucide-react";
+import { Link, useNavigate } from "react-router-dom";
+import Logo from "@/components/Logo";
+import Footer from "@/components/Footer";
+import { WorkflowStatusBadge } from "@/components/ContractApprovals";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useUser } from "@/contexts/SupabaseUserContext";
+import { useToast } from "@/hooks/use-toast";
+import ContractRepositoryService from "@/services/contractRepositoryService";
+import { ContractsService } from "@/services/contractsService";
+import { ContractReviewsService } from "@/services/contractReviewsService";
+import type {
+  ContractFolder,
+  ContractRepositoryFacet,
+  ContractRepositoryFacets,
+  ContractRepositoryItem,
+  ContractRepositoryScope,
+  ContractReviewPayload,
+  ContractSearchFilters,
+  ContractSearchResponse,
+} from "@shared/api";
+
+const PAGE_SIZE = 25;
+
+const SELECT_CLASS =
+  "h-9 rounded-lg border border-[#D6CECE] bg-white px-3 text-[#271D1D] font-roboto text-sm focus:outline-none focus:ring-2 focus:ring-[#9A7C7C]/40";
+
+type FilterKey =
+  | "contractType"
+  | "governingLaw"
+  | "counterparty"
+  | "tag"
+  | "minScore"
+  | "maxScore"
+  | "from"
+  | "to";
+
+function describeError(error: unknown) {
+  return error instanceof Error ? error.message : "Unexpected error";
+}
+
+function FacetSelect({
+  label,
+  value,
+  facets,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  facets: ContractRepositoryFacet[] | undefined;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <select
+      aria-label={label}
+      value={value}
+      onChange={(event) => onChange(event.target.value)}
+      className={SELECT_CLASS}
+    >
+      <option value="">{`Any ${label.toLowerCase()}`}</option>
+      {(facets ?? []).map((facet) => (
+        <option key={facet.value} value={facet.value}>
+          {`${facet.value} (${facet.count})`}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default function ContractRepository() {
+  const { user } = useUser();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const authUserId = user?.authUserId ?? null;
+  const hasOrganization = Boolean(user?.organization?.id);
+
+  const [scope, setScope] = useState<ContractRepositoryScope>("mine");
+  const [queryText, setQueryText] = useState("");
+  const [submittedQuery, setSubmittedQuery] = useState("");
+  const [folderId, setFolderId] = useState<string>("");
+  const [filters, setFilters] = useState<Record<FilterKey, string>>({
+    contractType: "",
+    governingLaw: "",
+    counterparty: "",
+    tag: "",
+    minScore: "",
+    maxScore: "",
+    from: "",
+    to: "",
+  });
+  const [page, setPage] = useState(1);
+  const [newFolderName, setNewFolderName] = useState("");
+  const [editingTagsFor, setEditingTagsFor] = useState<string | null>(null);
+  const [tagDraft, setTagDraft] = useState("");
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  const searchFilters: ContractSearchFilters = {
+    query: submittedQuery || undefined,
+    scope,
+    folderId: folderId || undefined,
+    contractType: filters.contractType || undefined,
+    governingLaw: filters.governingLaw || undefined,
+    counterparty: filters.counterparty || undefined,
+    tag: filters.tag || undefined,
+    minScore: filters.minScore ? Number(filters.minScore) : undefined,
+    maxScore: filters.maxScore ? Number(filters.maxScore) : undefined,
+    from: filters.from || undefined,
+    to: filters.to || undefined,
+    page,
+    pageSize: PAGE_SIZE,
+  };
+
+  const searchQuery = useQuery<ContractSearchResponse>({
+    queryKey: ["contract-repository", "search", searchFilters],
+    queryFn: () => ContractRepositoryService.search(searchFilters),
+    enabled: Boolean(authUserId),
+    placeholderData: keepPreviousData,
+  });
+
+  const facetsQuery = useQuery<ContractRepositoryFacets>({
+    queryKey: ["contract-repository", "facets", scope],
+    queryFn: () => ContractRepositoryService.getFacets(scope),
+    enabled: Boolean(authUserId),
+  });
+
+  const foldersQuery = useQuery<ContractFolder[]>({
+    queryKey: ["contract-repository", "folders"],
+    queryFn: () => ContractRepositoryService.listFolders(),
+    enabled: Boolean(authUserId),
+  });
+
+  const invalidate = () =>
+    queryClient.invalidateQueries({ queryKey: ["contract-repository"] });
+
+  const onMutationError = (title: string) => (error: unknown) => {
+    toast({ title, description: describeError(error), variant: "destructive" });
+  };
+
+  const createFolderMutation = useMutation({
+    mutationFn: (name: string) => ContractRepositoryService.createFolder(name),
+    onSuccess: () => {
+      setNewFolderName("");
+      invalidate();
+    },
+    onError: onMutationError("Unable to create folder"),
+  });
+
+  const deleteFolderMutation = useMutation({
+    mutationFn: (id: string) => ContractRepositoryService.deleteFolder(id),
+    onSuccess: (_, id) => {
+      if (folderId === id) setFolderId("");
+      invalidate();
+    },
+    onError: onMutationError("Unable to delete folder"),
+  });
+
+  const updateContractMutation = useMutation({
+    mutationFn: (input: {
+      contractId: string;
+      folderId?: string | null;
+      tags?: string[];
+    }) =>
+      ContractRepositoryService.updateContract(input.contractId, {
+        folderId: input.folderId,
+        tags: input.tags,
+      }),
+    onSuccess: () => {
+      setEditingTagsFor(null);
+      invalidate();
+    },
+    onError: onMutationError("Unable to update contract"),
+  });
+
+  const updateFilter = (key: FilterKey, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+    setPage(1);
+  };
+
+  const selectFolder = (id: string) => {
+    setFolderId(id);
+    setPage(1);
+  };
+
+  const handleOpen = async (item: ContractRepositoryItem) => {
+    if (!item.latestReviewId) return;
+    setOpeningId(item.id);
+    try {
+      const [contract, review] = await Promise.all([
+        ContractsService.getContract(item.id),
+        ContractReviewsService.getReview(item.latestReviewId),
+      ]);
+      const payload = {
+        contract,
+        review,
+        metadata: { fileName: item.fileName },
+        classification: null,
+      } as unknown as ContractReviewPayload;
+      sessionStorage.setItem("maigon:lastReview", JSON.stringify(payload));
+      navigate("/contract-review", { state: payload });
+    } catch (error) {
+      toast({
+        title: "Unable to open review",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  const saveTags = (contractId: string) => {
+    updateContractMutation.mutate({
+      contractId,
+      tags: tagDraft
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+    });
+  };
+
+  const folders = foldersQuery.data ?? [];
+  const facets = facetsQuery.data;
+  const result = searchQuery.data;
+  const total = result?.total ?? 0;
+  const firstShown = total ? (page - 1) * PAGE_SIZE + 1 : 0;
+  const lastShown = Math.min(page * PAGE_SIZE, total);
+  const canManageContract = (item: ContractRepositoryItem) =>
+    item.ownerId === user?.profileId ||
+    Boolean(user?.isOrgAdmin || user?.isMaigonAdmin);
+
+  const renderFolderButton = (id: string, label: string, count?: number) => (
+    <button
+      type="button"
+      onClick={() => selectFolder(id)}
+      className={`flex w-full items-center justify-between rounded px-2 py-1.5 text-left text-sm ${
+        folderId === id
+          ? "bg-[#9A7C7C]/10 text-[#271D1D] font-medium"
+          : "text-[#271D1D]/80 hover:bg-[#F9F8F8]"
+      }`}
+    >
+      <span className="flex items-center gap-2 truncate">
+        <Folder className="h-4 w-4 shrink-0 text-[#9A7C7C]" />
+        {label}
+      </span>
+      {count !== undefined && (
+        <span className="text-xs text-[#271D1D]/50">{count}</span>
+      )}
+    </button>
+  );
+
+  return (
+    <div className="min-h-screen bg-[#F9F8F8] flex flex-col">
+      <nav className="flex items-center justify-between px-8 lg:px-16 py-6">
+        <Link to="/home">
+          <Logo size="xl" />
+        </Link>
+        <Link
+          to="/user-dashboard"
+          className="text-[#271D1D] hover:text-[#9A7C7C] transition-colors"
+        >
+          Dashboard
+        </Link>
+      </nav>
+
+      <main className="flex-1 px-8 lg:px-16 py-12">
+        <div className="mx-auto w-full max-w-[1200px] flex flex-col gap-8">
+          <div>
+            <h1 className="text-[#271D1D] font-lora text-3xl lg:text-5xl font-medium mb-3">
+              Contract repository
+            </h1>
+            <p className="text-black font-roboto text-sm lg:text-base">
+              Search the text of every contract you have reviewed and the
+              findings of its latest review. Counterparties, governing law and
+              scores are filled in from the review; folders and tags are yours
+              to manage.
+            </p>
+          </div>
+
+          <form
+            className="flex flex-col gap-3 rounded-lg border border-[#D6CECE] bg-white p-6"
+            onSubmit={(event) => {
+              event.preventDefault();
+              setSubmittedQuery(queryText.trim());
+              setPage(1);
+            }}
+          >
+            <div className="flex flex-col gap-3 md:flex-row">
+              <Input
+                aria-label="Search contracts"
+                placeholder='Search, e.g. "limitation of liability" -indemnity'
+                value={queryText}
+                onChange={(event) => setQueryText(event.target.value)}
+                maxLength={200}
+              />
+              {hasOrganization && (
+                <select
+                  aria-label="Scope"
+                  value={scope}
+                  onChange={(event) => {
+                    setScope(event.target.value as ContractRepositoryScope);
+                    setPage(1);
+                  }}
+                  className={SELECT_CLASS}
+                >
+                  <option value="mine">My contracts</option>
+                  <option value="organization">Whole organization</option>
+                </select>
+              )}
+              <Button
+                type="submit"
+                className="bg-[#9A7C7C] hover:bg-[#9A7C7C]/90 text-[#F9F8F8]"
+              >
+                <Search className="mr-2 h-4 w-4" />
+                Search
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-3">
+              <FacetSelect
+                label="Contract type"
+                value={filters.contractType}
+                facets={facets?.contractTypes}
+                onChange={(value) => updateFilter("contractType", value)}
+              />
+              <FacetSelect
+                label="Governing law"
+                value={filters.governingLaw}
+                facets={facets?.governingLaws}
+                onChange={(value) => updateFilter("governingLaw", value)}
+              />
+              <FacetSelect
+                label="Counterparty"
+                value={filters.counterparty}
+                facets={facets?.counterparties}
+                onChange={(value) => updateFilter("counterparty", value)}
+              />
+              <FacetSelect
+                label="Tag"
+                value={filters.tag}
+                facets={facets?.tags}
+                onChange={(value) => updateFilter("tag", value)}
+              />
+              <Input
+                aria-label="Minimum score"
+                type="number"
+                min={0}
+                max={100}
+                placeholder="Min score"
+                value={filters.minScore}
+                onChange={(event) =>
+                  updateFilter("minScore", event.target.value)
+                }
+                className="w-28"
+              />
+              <Input
+                aria-label="Maximum score"
+                type="number"
+                min={0}
+                max={100}
+                placeholder="Max score"
+                value={filters.maxScore}
+                onChange={(event) =>
+                  updateFilter("maxScore", event.target.value)
+                }
+                className="w-28"
+              />
+              <Input
+                aria-label="Uploaded from"
+                type="date"
+                value={filters.from}
+                onChange={(event) => updateFilter("from", event.target.value)}
+                className="w-40"
+              />
+              <Input
+                aria-label="Uploaded to"
+                type="date"
+                value={filters.to}
+                onChange={(event) => updateFilter("to", event.target.value)}
+                className="w-40"
+              />
+            </div>
+          </form>
+
+          <div className="grid gap-6 lg:grid-cols-[220px_1fr]">
+            <aside className="flex flex-col gap-1 rounded-lg border border-[#D6CECE] bg-white p-4">
+              {renderFolderButton("", "All contracts")}
+              {renderFolderButton("none", "Unfiled")}
+              {folders.map((folder) => (
+                <div key={folder.id} className="group flex items-center">
+                  {renderFolderButton(
+                    folder.id,
+                    folder.name,
+                    folder.contractCount,
+                  )}
+                  <button
+                    type="button"
+                    aria-label={`Delete ${folder.name}`}
+                    className="ml-1 hidden text-[#271D1D]/40 hover:text-red-600 group-hover:block"
+                    disabled={deleteFolderMutation.isPending}
+                    onClick={() => deleteFolderMutation.mutate(folder.id)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              ))}
+              <form
+                className="mt-3 flex gap-1"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  if (newFolderName.trim()) {
+                    createFolderMutation.mutate(newFolderName.trim());
+                  }
+                }}
+              >
+                <Input
+                  aria-label="New folder name"
+                  placeholder="New folder"
+                  value={newFolderName}
+                  onChange={(event) => setNewFolderName(event.target.value)}
+                  maxLength={100}
+                  className="h-8 text-sm"
+                />
+                <Button
+                  type="submit"
+                  size="sm"
+                  variant="outline"
+                  disabled={
+                    createFolderMutation.isPending || !newFolderName.trim()
+                  }
+                >
+                  <FolderPlus className="h-4 w-4" />
+                </Button>
+              </form>
+            </aside>
+
+            <div className="rounded-lg border border-[#D6CECE] bg-white p-6">
+              {searchQuery.isError ? (
+                <p className="text-sm text-red-700">
+                  {describeError(searchQuery.error)}
+                </p>
+              ) : searchQuery.isPending ? (
+                <p className="text-sm text-[#9A7C7C]">Loading contracts...</p>
+              ) : !result?.items.length ? (
+                <p className="py-8 text-center text-sm text-[#271D1D]/60">
+                  No contracts match these filters.
+                </p>
+              ) : (
+                <>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Contract</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Governing law</TableHead>
+                        <TableHead>Score</TableHead>
+                        <TableHead>Tags</TableHead>
+                        <TableHead>Folder</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.items.map((item) => (
+                        <TableRow key={item.id}>
+                          <TableCell className="max-w-[260px]">
+                            <div className="truncate font-medium text-[#271D1D]">
+                              {item.title}
+                            </div>
+                            <div className="truncate text-xs text-[#271D1D]/60">
+                              {item.counterparties.join(", ") || "—"}
+                            </div>
+                            <div className="mt-1 flex items-center gap-2 text-xs text-[#271D1D]/50">
+                              <WorkflowStatusBadge
+                                status={item.workflowStatus}
+                              />
+                              {new Date(item.createdAt).toLocaleDateString()}
+                            </div>
+                          </TableCell>
+                          <TableCell>{item.contractType ?? "—"}</TableCell>
+                          <TableCell className="max-w-[160px] truncate">
+                            {item.governingLaw ?? "—"}
+                          </TableCell>
+                          <TableCell>{item.score ?? "—"}</TableCell>
+                          <TableCell className="min-w-[160px]">
+                            {editingTagsFor === item.id ? (
+                              <form
+                                onSubmit={(event) => {
+                                  event.preventDefault();
+                                  saveTags(item.id);
+                                }}
+                              >
+                                <Input
+                                  autoFocus
+                                  aria-label="Tags"
+                                  placeholder="Comma separated"
+                                  value={tagDraft}
+                                  onChange={(event) =>
+                                    setTagDraft(event.target.value)
+                                  }
+                                  onKeyDown={(event) => {
+                                    if (event.key === "Escape") {
+                                      setEditingTagsFor(null);
+                                    }
+                                  }}
+                                  className="h-8 text-xs"
+                                />
+                              </form>
+                            ) : (
+                              <button
+                                type="button"
+                                disabled={!canManageContract(item)}
+                                className="flex flex-wrap gap-1 text-left"
+                                onClick={() => {
+                                  setEditingTagsFor(item.id);
+                                  setTagDraft(item.tags.join(", "));
+                                }}
+                              >
+                                {item.tags.length ? (
+                                  item.tags.map((tag) => (
+                                    <span
+                                      key={tag}
+                                      className="rounded-full bg-[#9A7C7C]/10 px-2 py-0.5 text-xs text-[#725A5A]"
+                                    >
+                                      {tag}
+                                    </span>
+                                  ))
+                                ) : (
+                                  <span className="text-xs text-[#271D1D]/40">
+                                    {canManageContract(item) ? "Add tags" : "—"}
+                                  </span>
+                                )}
+                              </button>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <select
+                              aria-label="Folder"
+                              value={item.folderId ?? ""}
+                              disabled={
+                                !canManageContract(item) ||
+                                updateContractMutation.isPending
+                              }
+                              onChange={(event) =>
+                                updateContractMutation.mutate({
+                                  contractId: item.id,
+                                  folderId: event.target.value || null,
+                                })
+                              }
+                              className={`${SELECT_CLASS} h-8 max-w-[140px] text-xs`}
+                            >
+                              <option value="">Unfiled</option>
+                              {folders.map((folder) => (
+                                <option key={folder.id} value={folder.id}>
+                                  {folder.name}
+                                </option>
+                              ))}
+                            </select>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {item.latestReviewId && (
+                              <Button
+                                type="button"
+                                size="sm"
+                                variant="outline"
+                                disabled={openingId === item.id}
+                                onClick={() => handleOpen(item)}
+                              >
+                                Open
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <div className="mt-4 flex items-center justify-between text-sm text-[#271D1D]/70">
+                    <span>
+                      {firstShown}–{lastShown} of {total}
+                    </span>
+                    <div className="flex gap-2">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        disabled={page <= 1}
+                        onClick={() => setPage((current) => current - 1)}
+                      >
+                        Previous
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        disabled={lastShown >= total}
+                        onClick={() => setPage((current) => current + 1)}
+                      >
+                        Next
+                      </Button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import {
   Clock,
   Copy,
   Loader2,
+  MessageSquare,
   Sparkles,
   X,
 } from "lucide-react";
@@ -32,7 +33,26 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { logError, createUserFriendlyMessage } from "@/utils/errorLogger";
 import { DataService } from "@/services/dataService";
-import type { AgentChatContext, AgentProposedEdit } from "@/components/AgentChat";
+import ReviewCommentThreads, {
+  commentAnchorKey,
+  countComments,
+  useReviewComments,
+} from "@/components/ReviewComments";
+import { ContractApprovalCard } from "@/components/ContractApprovals";
+import ExecutiveBrief from "@/components/ExecutiveBrief";
+import ScoreExplainer, {
+  type ScoreExplainerBreakdown,
+} from "@/components/ScoreExplainer";
+import {
+  REPORT_FORMAT_LAYOUTS,
+  resolveReportFormat,
+  type ReportFormat,
+} from "@shared/ai/solutionProfiles";
+import { authorizedFetch } from "@/lib/authorizedFetch";
+import AgentChat, {
+  type AgentChatContext,
+  type AgentProposedEdit,
+} from "@/components/AgentChat";
 import type {
   ContractReviewPayload,
   AgentDraftResponse,
@@ -46,6 +66,7 @@ import type {
   ClauseEditJobStatusResponse,
   CustomSolution,
   CustomSolutionSectionConfig,
+  ReviewCommentAnchorType,
 } from "@shared/api";
 import type {
   AnalysisReport,
@@ -58,8 +79,17 @@ import type {
   SimilarityMatch,
   DeviationInsight,
 } from "@shared/ai/reviewSchema";
+import type {
+  IssueDeltaStatus,
+  ProposedEditOutcomeType,
+  VersionComparisonReport,
+} from "@shared/ai/versionComparison";
+import { readReviewCacheMarker } from "@shared/ai/reviewCache";
+import { findContractLanguage } from "@shared/contractLanguage";
+import { computeReportExpiry, resolveReportStorageDays } from "@shared/plans";
 import DOMPurify from "dompurify";
 import {
+  contractTypeLabel,
   solutionKeyToDisplayName,
   type SolutionKey,
 } from "@/utils/solutionMapping";
@@ -86,6 +116,7 @@ interface ReviewData {
   confidence_level: number;
   created_at: string;
   contract_id?: string;
+  expires_at?: string | null;
 }
 
 const DEFAULT_SECTION_LAYOUT: CustomSolutionSectionConfig[] = [
@@ -108,6 +139,25 @@ const SECTION_ANCHORS: Record<string, { id: string; label: string }> = {
   clauseInsights: { id: "clause-insights-section", label: "Clause Insights" },
   similarity: { id: "similarity-section", label: "Similarity" },
   actionItems: { id: "action-items-section", label: "Action Items" },
+  versionComparison: {
+    id: "version-comparison-section",
+    label: "Changes Since Last Review",
+  },
+};
+
+const ISSUE_DELTA_STYLES: Record<IssueDeltaStatus, { label: string; badge: string }> = {
+  resolved: { label: "Resolved", badge: "bg-emerald-100 text-emerald-800" },
+  new: { label: "New", badge: "bg-red-100 text-red-800" },
+  persisting: { label: "Still open", badge: "bg-amber-100 text-amber-800" },
+};
+
+const EDIT_OUTCOME_STYLES: Record<
+  ProposedEditOutcomeType,
+  { label: string; badge: string }
+> = {
+  accepted: { label: "Accepted", badge: "bg-emerald-100 text-emerald-800" },
+  altered: { label: "Altered", badge: "bg-amber-100 text-amber-800" },
+  rejected: { label: "Rejected", badge: "bg-red-100 text-red-800" },
 };
 
 type NormalizedDecision = {
@@ -235,17 +285,6 @@ function shouldHideFallbackMessage(value: string) {
   );
 }
 
-const CONTRACT_TYPE_LABELS: Record<string, string> = {
-  data_processing_agreement: "Data Processing Agreement",
-  non_disclosure_agreement: "Non-Disclosure Agreement",
-  privacy_policy_document: "Privacy Policy Document",
-  consultancy_agreement: "Consultancy Agreement",
-  research_development_agreement: "R&D Agreement",
-  end_user_license_agreement: "End User License Agreement",
-  product_supply_agreement: "Product Supply Agreement",
-  general_commercial: "General Commercial Agreement",
-};
-
 const SEVERITY_CARD_STYLES: Record<
   string,
   { container: string; accent: string }
@@ -2311,6 +2350,16 @@ export default function ContractReview() {
   const [isLoading, setIsLoading] = useState(
     !initialContract || !initialReview,
   );
+  const reviewComments = useReviewComments(
+    reviewData?.id ?? null,
+    user?.authUserId ?? null,
+  );
+  const [openCommentAnchors, setOpenCommentAnchors] = useState<
+    Record<string, boolean>
+  >({});
+  const [printWithComments, setPrintWithComments] = useState(false);
+  const [reportFormatOverride, setReportFormatOverride] =
+    useState<ReportFormat | null>(null);
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
     actions: true,
@@ -2339,6 +2388,10 @@ export default function ContractReview() {
   const [aiEditStatus, setAiEditStatus] = useState<
     Record<string, { isLoading: boolean; error?: string | null }>
   >({});
+  const [agentChatOpen, setAgentChatOpen] = useState(false);
+  const [acceptedAgentEdits, setAcceptedAgentEdits] = useState<
+    AgentProposedEdit[]
+  >([]);
 
   const originalHtml = useMemo(() => {
     if (draftResult?.originalHtml) {
@@ -2457,9 +2510,10 @@ const updatedPlainText = useMemo(() => {
     readString((contractData as unknown as Record<string, unknown>) ?? null, "contract_type") ||
     "general_commercial";
 
-  const classificationLabel =
-    CONTRACT_TYPE_LABELS[classificationContractType] ||
-    formatLabel(classificationContractType);
+  const classificationLabel = contractTypeLabel(
+    classificationContractType,
+    formatLabel(classificationContractType),
+  );
 
   const classificationSubType = readString(
     classification,
@@ -2815,6 +2869,14 @@ Next step: ${
     window.print();
   };
 
+  // The appendix only renders while printWithComments is set, so print once
+  // React has committed it and hide it again afterwards.
+  useEffect(() => {
+    if (!printWithComments) return;
+    window.print();
+    setPrintWithComments(false);
+  }, [printWithComments]);
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-white flex items-center justify-center">
@@ -2862,6 +2924,24 @@ Next step: ${
   }, [results]);
 
   const generalInformation = structuredReport?.generalInformation;
+  const scoreBreakdown = (structuredReport?.metadata?.scoreBreakdown ??
+    (results as Record<string, unknown>).score_breakdown ??
+    null) as ScoreExplainerBreakdown | null;
+  const reportLanguage = structuredReport?.metadata?.language;
+  const contractLanguageName = reportLanguage
+    ? (findContractLanguage(reportLanguage.contract)?.name ??
+      reportLanguage.contract)
+    : null;
+  // The server stamps expiries on save; a review opened straight after upload
+  // may not carry one yet, so fall back to the viewer's plan.
+  const reportExpiresAt =
+    reviewData?.expires_at ??
+    (reviewData?.created_at
+      ? computeReportExpiry(
+          reviewData.created_at,
+          resolveReportStorageDays([user?.plan?.type]),
+        )
+      : null);
   const contractSummaryReport = structuredReport?.contractSummary;
   const resolvedPerspectiveLabel = useMemo(() => {
     if (contractSummaryReport?.agreementDirection) {
@@ -3568,7 +3648,7 @@ const actionItemEntries = useMemo(
           },
         };
 
-        const startResponse = await fetch("/api/agent/clause-edit/start", {
+        const startResponse = await authorizedFetch("/api/agent/clause-edit/start", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -3593,7 +3673,7 @@ const actionItemEntries = useMemo(
             pollCount++;
             await new Promise((resolve) => setTimeout(resolve, pollInterval));
 
-            const statusResponse = await fetch(`/api/agent/clause-edit/status/${jobId}`);
+            const statusResponse = await authorizedFetch(`/api/agent/clause-edit/status/${jobId}`);
             if (!statusResponse.ok) {
               throw new Error(`Failed to check AI edit status (${statusResponse.status})`);
             }
@@ -3659,6 +3739,44 @@ const actionItemEntries = useMemo(
     return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
   }, [combinedDecisions]);
 
+  const agentChatContext: AgentChatContext = {
+    contract: {
+      id: contractData.id,
+      title: contractData.title ?? null,
+      contractType: classificationContractType ?? null,
+      classificationFallback: classificationFallbackUsed,
+    },
+    severitySnapshot: {
+      critical: severitySummary.critical ?? 0,
+      high: severitySummary.high ?? 0,
+      medium: severitySummary.medium ?? 0,
+      low: severitySummary.low ?? 0,
+      total: severityTotal,
+    },
+    topDepartments: topDepartments.slice(0, 3).map(([dept, count]) => ({
+      key: dept,
+      label: getDepartmentStyle(dept).label,
+      count,
+    })),
+    missingInformation: displayMissingInformation.slice(0, 6),
+    recommendations: normalizedRecommendations.slice(0, 6).map((item) => ({
+      id: item.id,
+      description: item.description,
+      severity: item.severity,
+      department: item.department,
+      owner: item.owner,
+      dueTimeline: item.dueTimeline,
+    })),
+    actionItems: normalizedActionItems.slice(0, 6).map((item) => ({
+      id: item.id,
+      description: item.description,
+      severity: item.severity,
+      department: item.department,
+      owner: item.owner,
+      dueTimeline: item.dueTimeline,
+    })),
+  };
+
   const hasSeverityBreakdown = useMemo(
     () =>
       SEVERITY_DISPLAY_ORDER.some(
@@ -3701,8 +3819,8 @@ const actionItemEntries = useMemo(
 
 
   const hasSelectedDraftInputs = useMemo(
-    () => selectedSuggestionCount > 0,
-    [selectedSuggestionCount],
+    () => selectedSuggestionCount > 0 || acceptedAgentEdits.length > 0,
+    [selectedSuggestionCount, acceptedAgentEdits.length],
   );
 
   const handleGenerateDraft = useCallback(async () => {
@@ -3745,7 +3863,7 @@ const actionItemEntries = useMemo(
       },
     );
 
-    if (suggestionsPayload.length === 0) {
+    if (suggestionsPayload.length === 0 && acceptedAgentEdits.length === 0) {
       toast({
         title: "Nothing selected",
         description: "Choose at least one recommendation to apply.",
@@ -3760,7 +3878,7 @@ const actionItemEntries = useMemo(
       setDraftJobId(null);
       setDraftJobStatus(null);
 
-      const startResponse = await fetch("/api/agent/compose/start", {
+      const startResponse = await authorizedFetch("/api/agent/compose/start", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -3768,6 +3886,14 @@ const actionItemEntries = useMemo(
         body: JSON.stringify({
           contractId: contractData.id,
           suggestions: suggestionsPayload,
+          agentEdits: acceptedAgentEdits.map((edit) => ({
+            id: edit.id,
+            clauseReference: edit.clauseReference ?? null,
+            changeType: edit.changeType ?? null,
+            originalText: edit.originalText ?? null,
+            suggestedText: edit.suggestedText,
+            rationale: edit.rationale,
+          })),
         }),
       });
 
@@ -3789,7 +3915,7 @@ const actionItemEntries = useMemo(
         const delayMs = 3000;
 
         for (let attempt = 0; attempt < maxAttempts; attempt += 1) {
-          const statusResponse = await fetch(`/api/agent/compose/status/${jobId}`);
+          const statusResponse = await authorizedFetch(`/api/agent/compose/status/${jobId}`);
           if (!statusResponse.ok) {
             const payload = await statusResponse.json().catch(() => ({}));
             throw new Error(
@@ -3844,6 +3970,7 @@ const actionItemEntries = useMemo(
   }, [
     contractData?.id,
     selectedSuggestions,
+    acceptedAgentEdits,
     resolveUpdatedTextForItem,
     toast,
   ]);
@@ -3935,7 +4062,7 @@ const actionItemEntries = useMemo(
     }
 
     try {
-      const response = await fetch("/api/export/docx", {
+      const response = await authorizedFetch("/api/export/docx", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -3990,7 +4117,7 @@ const actionItemEntries = useMemo(
     }
 
     try {
-      const response = await fetch("/api/export/pdf", {
+      const response = await authorizedFetch("/api/export/pdf", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -4044,7 +4171,7 @@ const actionItemEntries = useMemo(
     }
 
     try {
-      const response = await fetch("/api/export/redline", {
+      const response = await authorizedFetch("/api/export/redline", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -4052,6 +4179,11 @@ const actionItemEntries = useMemo(
         body: JSON.stringify({
           contractName: summaryContractName,
           proposedEdits: structuredProposedEdits,
+          ingestionId:
+            typeof contractData?.metadata?.ingestionId === "string"
+              ? contractData.metadata.ingestionId
+              : undefined,
+          includeComments: true,
         }),
       });
 
@@ -4064,6 +4196,9 @@ const actionItemEntries = useMemo(
         );
       }
 
+      const unmatchedEdits = Number(
+        response.headers.get("X-Redline-Unmatched-Edits") ?? 0,
+      );
       const blob = await response.blob();
       const safeTitle = contractData?.file_name
         ? contractData.file_name.replace(/\.[^.]+$/, "")
@@ -4077,6 +4212,12 @@ const actionItemEntries = useMemo(
       link.click();
       document.body.removeChild(link);
       URL.revokeObjectURL(url);
+      if (unmatchedEdits > 0) {
+        toast({
+          title: "Some edits could not be placed",
+          description: `${unmatchedEdits} proposed edit${unmatchedEdits === 1 ? "" : "s"} did not match the original wording and were left out of the tracked changes.`,
+        });
+      }
     } catch (error) {
       toast({
         title: "Redline export failed",
@@ -4091,6 +4232,7 @@ const actionItemEntries = useMemo(
     structuredProposedEdits,
     summaryContractName,
     contractData?.file_name,
+    contractData?.metadata,
     toast,
   ]);
 
@@ -4119,9 +4261,20 @@ const resolvedSectionLayout = useMemo(() => {
   return DEFAULT_SECTION_LAYOUT;
 }, [customSolution]);
 
+// The solution's report format picks the layout; readers can switch views.
+const reportFormat =
+  reportFormatOverride ?? resolveReportFormat(customSolution?.reportFormat);
+const reportLayout = REPORT_FORMAT_LAYOUTS[reportFormat];
+const showExecutiveBrief = reportLayout.brief && Boolean(structuredReport);
+
 const enabledSectionLayout = useMemo(
-  () => resolvedSectionLayout.filter((section) => section.enabled !== false),
-  [resolvedSectionLayout],
+  () =>
+    resolvedSectionLayout.filter(
+      (section) =>
+        section.enabled !== false &&
+        (!reportLayout.sections || reportLayout.sections.includes(section.id)),
+    ),
+  [resolvedSectionLayout, reportLayout],
 );
 
 const enabledSectionIds = useMemo(
@@ -4146,7 +4299,15 @@ const heroFileName =
   (locationState.metadata?.fileName as string | undefined) ??
   storedPayload?.metadata?.fileName ??
   "Contract";
+const versionComparison =
+  typeof resultsRecord.version_comparison === "object" &&
+  resultsRecord.version_comparison !== null
+    ? (resultsRecord.version_comparison as VersionComparisonReport)
+    : null;
 const heroNavItems: { id: string; label: string }[] = [];
+if (versionComparison) {
+  heroNavItems.push(SECTION_ANCHORS.versionComparison);
+}
 enabledSectionLayout.forEach((section) => {
   const config = SECTION_ANCHORS[section.id];
   if (!config) return;
@@ -4194,9 +4355,9 @@ const generalInformationSection =
         <div className="col-span-2">
           <dt className="text-xs uppercase text-gray-500">Report expires</dt>
           <dd>
-            {generalInformation?.reportExpiry
-              ? new Date(generalInformation.reportExpiry).toLocaleDateString()
-              : "n/a"}
+            {reportExpiresAt
+              ? new Date(reportExpiresAt).toLocaleDateString()
+              : "Not scheduled"}
           </dd>
         </div>
       </dl>
@@ -4246,6 +4407,57 @@ const contractSummarySection = showContractSummarySection ? (
   </div>
 ) : null;
 
+const toggleCommentAnchor = (key: string) =>
+  setOpenCommentAnchors((prev) => ({ ...prev, [key]: !prev[key] }));
+
+const renderCommentToggle = (
+  anchorType: ReviewCommentAnchorType,
+  anchorId: string,
+) => {
+  if (!reviewComments.enabled) return null;
+  const key = commentAnchorKey(anchorType, anchorId);
+  const threads = reviewComments.threadsByAnchor.get(key) ?? [];
+  const openThreads = threads.filter((thread) => !thread.resolvedAt).length;
+  const total = countComments(threads);
+  return (
+    <button
+      type="button"
+      onClick={() => toggleCommentAnchor(key)}
+      className="inline-flex items-center gap-1 rounded-full border border-[#E8DDDD] bg-white px-2 py-0.5 text-xs text-[#725A5A] hover:bg-[#F9F8F8] print:hidden"
+      title={
+        total
+          ? `${total} comment${total === 1 ? "" : "s"}, ${openThreads} open thread${openThreads === 1 ? "" : "s"}`
+          : "Add a comment"
+      }
+    >
+      <MessageSquare className="h-3 w-3" />
+      {total > 0 ? total : null}
+      {openThreads > 0 ? (
+        <span className="h-1.5 w-1.5 rounded-full bg-[#D97757]" />
+      ) : null}
+    </button>
+  );
+};
+
+const renderCommentThreads = (
+  anchorType: ReviewCommentAnchorType,
+  anchorId: string,
+) => {
+  const key = commentAnchorKey(anchorType, anchorId);
+  if (!reviewComments.enabled || !openCommentAnchors[key] || !user?.authUserId) {
+    return null;
+  }
+  return (
+    <ReviewCommentThreads
+      reviewId={reviewData.id}
+      anchorType={anchorType}
+      anchorId={anchorId}
+      threads={reviewComments.threadsByAnchor.get(key) ?? []}
+      members={reviewComments.members}
+    />
+  );
+};
+
 const issuesSection =
   showIssuesSection && structuredIssues.length > 0 ? (
     <div id={SECTION_ANCHORS.issues.id}>
@@ -4324,11 +4536,14 @@ const issuesSection =
                             <p className="text-sm font-semibold text-[#271D1D]">
                               {issue.title}
                             </p>
-                            <span
-                              className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${style.badge}`}
-                            >
-                              {style.label}
-                            </span>
+                            <div className="flex items-center gap-2">
+                              {renderCommentToggle("issue", issue.id)}
+                              <span
+                                className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${style.badge}`}
+                              >
+                                {style.label}
+                              </span>
+                            </div>
                           </div>
                           <p className="text-sm text-gray-700">
                             {issue.recommendation}
@@ -4350,6 +4565,7 @@ const issuesSection =
                               </p>
                             </div>
                           ) : null}
+                          {renderCommentThreads("issue", issue.id)}
                         </div>
                       </div>
                     );
@@ -4656,6 +4872,12 @@ const actionItemsSection =
             <span>
               {selectedSuggestionCount} of {combinedDecisions.length} review suggestions selected
             </span>
+            {acceptedAgentEdits.length > 0 && (
+              <span>
+                + {acceptedAgentEdits.length} edit
+                {acceptedAgentEdits.length === 1 ? "" : "s"} accepted in the copilot chat
+              </span>
+            )}
             {combinedDecisions.length > 0 && (
               <div className="flex items-center gap-3 text-xs">
                 <button
@@ -4798,6 +5020,10 @@ const actionItemsSection =
                         )}
                       </div>
                       <div className="flex items-center gap-2">
+                        {renderCommentToggle(
+                          "edit",
+                          item.proposedEdit?.id ?? item.id,
+                        )}
                         {severityStyle ? (
                           <span
                             className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${severityStyle.badge}`}
@@ -4832,6 +5058,10 @@ const actionItemsSection =
                         aiEditText={pendingAiText}
                       />
                     </div>
+                    {renderCommentThreads(
+                      "edit",
+                      item.proposedEdit?.id ?? item.id,
+                    )}
                   </div>
                 );
               })}
@@ -4842,6 +5072,198 @@ const actionItemsSection =
     </div>
   ) : null;
 
+const commentAnchorLabels = new Map<string, string>();
+structuredIssues.forEach((issue) =>
+  commentAnchorLabels.set(commentAnchorKey("issue", issue.id), issue.title),
+);
+structuredProposedEdits.forEach((edit) =>
+  commentAnchorLabels.set(
+    commentAnchorKey("edit", edit.id),
+    (edit.clauseId && clauseTitleMap.get(edit.clauseId)) || edit.intent,
+  ),
+);
+const commentsAppendix =
+  printWithComments && reviewComments.threads.length > 0 ? (
+    <div className="hidden print:block mt-10 break-before-page">
+      <h2 className="text-lg font-medium text-[#271D1D] mb-4">
+        Appendix: Comments
+      </h2>
+      <div className="space-y-4">
+        {reviewComments.threads.map((thread) => (
+          <div
+            key={thread.id}
+            className="border border-[#E8DDDD] rounded-md p-3 break-inside-avoid"
+          >
+            <p className="text-xs uppercase tracking-wide text-[#725A5A]">
+              {thread.anchorType === "edit" ? "Proposed edit" : thread.anchorType}
+              {": "}
+              {commentAnchorLabels.get(
+                commentAnchorKey(thread.anchorType, thread.anchorId),
+              ) ?? thread.anchorId}
+              {thread.resolvedAt ? " · Resolved" : " · Open"}
+            </p>
+            {[thread.root, ...thread.replies].map((comment) => (
+              <div key={comment.id} className="mt-2 text-sm text-gray-800">
+                <p className="text-xs text-gray-500">
+                  {comment.author?.name ?? "Former member"},{" "}
+                  {new Date(comment.createdAt).toLocaleString()}
+                </p>
+                <p className="whitespace-pre-wrap">{comment.body}</p>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  ) : null;
+
+const reviewCacheMarker = readReviewCacheMarker(resultsRecord);
+const reviewCacheNotice = reviewCacheMarker?.hit ? (
+  <p className="mb-6 rounded-lg border border-[#E8DDDD] bg-[#FCFAFA] px-4 py-3 text-xs text-[#6B4F4F]">
+    This report was reused from an earlier review of an identical contract
+    {reviewCacheMarker.cachedAt
+      ? ` on ${new Date(reviewCacheMarker.cachedAt).toLocaleDateString()}`
+      : ""}
+    . No analysis credit was used.
+  </p>
+) : null;
+
+const changedClauses = versionComparison
+  ? versionComparison.clauseChanges.filter(
+      (change) => change.changeType !== "unchanged",
+    )
+  : [];
+const versionComparisonSection = versionComparison ? (
+  <div
+    id={SECTION_ANCHORS.versionComparison.id}
+    className="mb-6 rounded-lg border border-[#E8DDDD] bg-[#FCFAFA] p-6 shadow-sm"
+  >
+    <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+      <h3 className="text-sm font-semibold text-[#271D1D] uppercase tracking-wide">
+        Changes since last review
+      </h3>
+      <p className="text-xs text-gray-500">
+        Compared with version {versionComparison.previousVersionNumber ?? 1}
+        {" · "}
+        {new Date(versionComparison.comparedAt).toLocaleDateString()}
+      </p>
+    </div>
+
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6 text-sm">
+      {[
+        { label: "Issues resolved", value: versionComparison.summary.issuesResolved },
+        { label: "New issues", value: versionComparison.summary.issuesNew },
+        { label: "Edits accepted", value: versionComparison.summary.editsAccepted },
+        {
+          label: "Clauses changed",
+          value:
+            versionComparison.summary.clausesModified +
+            versionComparison.summary.clausesAdded +
+            versionComparison.summary.clausesRemoved,
+        },
+      ].map((metric) => (
+        <div
+          key={metric.label}
+          className="rounded-md border border-[#E8DDDD] bg-white px-4 py-3"
+        >
+          <p className="text-xs uppercase tracking-wide text-gray-500">
+            {metric.label}
+          </p>
+          <p className="text-xl font-semibold text-[#271D1D]">{metric.value}</p>
+        </div>
+      ))}
+    </div>
+
+    {versionComparison.issues.length > 0 && (
+      <div className="mb-6">
+        <p className="text-sm font-semibold text-[#271D1D] mb-2">Issues</p>
+        <div className="space-y-2">
+          {versionComparison.issues.map((issue, index) => {
+            const style = ISSUE_DELTA_STYLES[issue.status];
+            return (
+              <div
+                key={`${issue.status}-${issue.previousIssueId ?? issue.currentIssueId ?? index}`}
+                className="flex items-start justify-between gap-4 rounded-md border border-[#F0E6E6] bg-white px-4 py-3 text-sm"
+              >
+                <div>
+                  <p className="font-medium text-[#271D1D]">{issue.title}</p>
+                  {issue.clauseTitle && (
+                    <p className="text-xs text-gray-500">{issue.clauseTitle}</p>
+                  )}
+                </div>
+                <Badge className={style.badge}>{style.label}</Badge>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    )}
+
+    {versionComparison.proposedEdits.length > 0 && (
+      <div className="mb-6">
+        <p className="text-sm font-semibold text-[#271D1D] mb-2">
+          Previously proposed edits
+        </p>
+        <div className="space-y-2">
+          {versionComparison.proposedEdits.map((edit) => {
+            const style = EDIT_OUTCOME_STYLES[edit.outcome];
+            return (
+              <div
+                key={edit.editId}
+                className="rounded-md border border-[#F0E6E6] bg-white px-4 py-3 text-sm"
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <p className="font-medium text-[#271D1D]">
+                    {edit.clauseTitle ?? edit.intent ?? "Proposed edit"}
+                  </p>
+                  <Badge className={style.badge}>{style.label}</Badge>
+                </div>
+                <p className="mt-1 text-gray-600">
+                  <span className="font-medium">Proposed:</span> {edit.proposedText}
+                </p>
+                {edit.outcome !== "accepted" && edit.currentExcerpt && (
+                  <p className="mt-1 text-gray-600">
+                    <span className="font-medium">Now reads:</span>{" "}
+                    {edit.currentExcerpt}
+                  </p>
+                )}
+                {edit.note && (
+                  <p className="mt-1 text-xs text-gray-500">{edit.note}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    )}
+
+    {changedClauses.length > 0 && (
+      <div>
+        <p className="text-sm font-semibold text-[#271D1D] mb-2">
+          Clause changes
+        </p>
+        <ul className="space-y-1 text-sm text-gray-700">
+          {changedClauses.map((change, index) => (
+            <li
+              key={`${change.changeType}-${change.previousClauseId ?? change.currentClauseId ?? index}`}
+            >
+              <span className="font-medium capitalize">{change.changeType}</span>
+              {": "}
+              {change.title}
+              {change.changeType === "modified" && (
+                <span className="text-xs text-gray-500">
+                  {" "}
+                  ({Math.round(change.similarity * 100)}% similar)
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+  </div>
+) : null;
+
 const orderedSections = enabledSectionLayout
   .map((section) => {
     const blocks: Record<string, React.ReactNode> = {
@@ -4887,6 +5309,28 @@ const orderedSections = enabledSectionLayout
           </div>
 
           <div className="flex items-center gap-3">
+            <div
+              className="flex items-center rounded-md border border-[#E8DDDD] p-0.5"
+              role="group"
+              aria-label="Report layout"
+            >
+              {(Object.keys(REPORT_FORMAT_LAYOUTS) as ReportFormat[]).map((format) => (
+                <button
+                  key={format}
+                  type="button"
+                  onClick={() => setReportFormatOverride(format)}
+                  title={REPORT_FORMAT_LAYOUTS[format].description}
+                  aria-pressed={reportFormat === format}
+                  className={`rounded px-2 py-1 text-xs ${
+                    reportFormat === format
+                      ? "bg-[#9A7C7C] text-white"
+                      : "text-[#725A5A] hover:bg-[#F9F8F8]"
+                  }`}
+                >
+                  {REPORT_FORMAT_LAYOUTS[format].label}
+                </button>
+              ))}
+            </div>
             <Button
               onClick={handleNewReview}
               variant="outline"
@@ -4934,6 +5378,17 @@ const orderedSections = enabledSectionLayout
                   >
                     Print / Save as PDF
                   </button>
+                  {reviewComments.threads.length > 0 && (
+                    <button
+                      onClick={() => {
+                        setShowExportMenu(false);
+                        setPrintWithComments(true);
+                      }}
+                      className="block w-full px-3 py-2 text-left text-sm text-[#271D1D] hover:bg-[#F9F8F8]"
+                    >
+                      Print with comments
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -5053,6 +5508,35 @@ const orderedSections = enabledSectionLayout
           </div>
           )}
 
+          <ContractApprovalCard
+            authUserId={user?.authUserId ?? null}
+            contractId={contractData?.id ?? null}
+          />
+
+          {showExecutiveBrief ? (
+            <ExecutiveBrief
+              contractName={heroFileName}
+              parties={contractSummaryReport?.parties ?? []}
+              purpose={contractSummaryReport?.purpose ?? null}
+              perspective={resolvedPerspectiveLabel}
+              generatedAt={reviewData.created_at}
+              score={generalInformation?.complianceScore ?? null}
+              scoreBand={scoreBreakdown?.band?.label ?? null}
+              issues={structuredIssues.map((issue) => ({
+                id: issue.id,
+                title: issue.title,
+                severity: issue.severity,
+                recommendation: issue.recommendation,
+              }))}
+              nextSteps={normalizedActionItems.map((item) => ({
+                id: item.id,
+                description: item.description,
+                owner: item.owner ?? null,
+              }))}
+              missingInformationCount={displayMissingInformation.length}
+            />
+          ) : (
+          <>
           {/* Executive Summary */}
           <div className="mb-8 print:mb-6">
             <h2 className="text-xl font-medium text-[#271D1D] mb-4 print:text-lg">
@@ -5080,8 +5564,25 @@ const orderedSections = enabledSectionLayout
                   }}
                 />
               </div>
+              {scoreBreakdown && typeof generalInformation?.complianceScore === "number" && (
+                <ScoreExplainer
+                  score={generalInformation.complianceScore}
+                  breakdown={scoreBreakdown}
+                />
+              )}
+              {reportLanguage && contractLanguageName && (
+                <p className="mt-3 text-xs text-[#6B4F4F]">
+                  Contract language: {contractLanguageName}.{" "}
+                  {reportLanguage.report === "contract"
+                    ? `Report written in ${contractLanguageName}.`
+                    : `Findings in English; quotes and proposed edits in ${contractLanguageName}.`}
+                </p>
+              )}
             </div>
 
+          {reviewCacheNotice}
+          {versionComparisonSection}
+
           {structuredReport && (
             <div className="mb-6 space-y-6">{orderedSections}</div>
           )}
@@ -5183,7 +5684,7 @@ const orderedSections = enabledSectionLayout
           </div>
 
           {/* Detailed Analysis Results */}
-          {reviewData.review_type === "risk_assessment" && results.risks && (
+          {reportFormat === "detailed" && reviewData.review_type === "risk_assessment" && results.risks && (
             <div className="mb-8 print:mb-6">
               <h2 className="text-xl font-medium text-[#271D1D] mb-4 print:text-lg">
                 Risk Analysis
@@ -5217,6 +5718,11 @@ const orderedSections = enabledSectionLayout
             </div>
           )}
 
+          </>
+          )}
+
+          {commentsAppendix}
+
           {/* Footer */}
           <div className="mt-12 pt-6 border-t border-gray-200 text-center text-xs text-gray-500 print:mt-8 print:pt-4">
             <p>
@@ -5405,6 +5911,16 @@ const orderedSections = enabledSectionLayout
         </DialogContent>
       </Dialog>
 
+      <AgentChat
+        open={agentChatOpen}
+        onOpen={() => setAgentChatOpen(true)}
+        onClose={() => setAgentChatOpen(false)}
+        context={agentChatContext}
+        authUserId={user?.authUserId ?? null}
+        reviewId={reviewData.id}
+        canShare={Boolean(user?.organization)}
+        onAcceptedEditsChange={setAcceptedAgentEdits}
+      />
     </>
   );
 }
@@ -11,6 +11,7 @@ import { logError, createUserFriendlyMessage } from "@/utils/errorLogger";
 import { reviewProcessingStore } from "@/lib/reviewProcessingStore";
 import { DataService } from "@/services/dataService";
 import type { ContractReviewPayload } from "@shared/api";
+import { readReviewCacheMarker } from "@shared/ai/reviewCache";
 
 const PROGRESS_MESSAGES: Record<string, string> = {
   preparing: "Preparing contract upload…",
@@ -134,7 +135,14 @@ export default function Loading() {
           },
         );
 
-        if (user?.plan.type === "pay_as_you_go" && user?.id) {
+        // A report reused from the review cache cost no analysis.
+        const servedFromCache =
+          readReviewCacheMarker(result.review?.results)?.hit === true;
+        if (
+          user?.plan.type === "pay_as_you_go" &&
+          user?.id &&
+          !servedFromCache
+        ) {
           try {
             await DataService.paygCredits.consume({
               userId: user.id,
@@ -40,6 +40,15 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import OrgMemberInvitesPanel from "@/components/admin/OrgMemberInvitesPanel";
+import OrgPlaybooksPanel from "@/components/admin/OrgPlaybooksPanel";
+import OrgAlertDeliveriesPanel from "@/components/admin/OrgAlertDeliveriesPanel";
+import OrgObligationsPanel from "@/components/admin/OrgObligationsPanel";
+import OrgApiKeysPanel from "@/components/admin/OrgApiKeysPanel";
+import OrgWebhooksPanel from "@/components/admin/OrgWebhooksPanel";
+import OrgPrivacyPanel from "@/components/admin/OrgPrivacyPanel";
+import OrgScoringPanel from "@/components/admin/OrgScoringPanel";
+import OrgRetentionPanel from "@/components/admin/OrgRetentionPanel";
+import OrgApprovalChainsPanel from "@/components/admin/OrgApprovalChainsPanel";
 import Logo from "@/components/Logo";
 import MobileNavigation from "@/components/MobileNavigation";
 import {
@@ -203,6 +212,10 @@ const OrgAdminDashboard: React.FC = () => {
       ["org-review-insights", organizationId],
       ["org-alert-prefs", organizationId],
       ["org-alert-summary", organizationId],
+      ["org-alert-deliveries", organizationId],
+      ["org-obligations", organizationId],
+      ["org-api-keys", organizationId],
+      ["org-webhooks", organizationId],
     ];
     keys.forEach((key) => {
       queryClient.invalidateQueries({ queryKey: key });
@@ -515,6 +528,10 @@ const OrgAdminDashboard: React.FC = () => {
           </div>
         </section> */}
 
+        <section id="org-admin-playbooks-section">
+          <OrgPlaybooksPanel />
+        </section>
+
         <section className="bg-white border border-[#E8DDDD] rounded-2xl p-6 space-y-4 shadow-sm">
           <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
             <div>
@@ -688,10 +705,10 @@ const OrgAdminDashboard: React.FC = () => {
                       <Users className="h-4 w-4 text-[#9A7C7C]" />
                       <div>
                         <p className="text-sm font-medium text-[#271D1D]">
-                          Pending agent edits digest
+                          Pending agent edits
                         </p>
                         <p className="text-xs text-[#6B7280]">
-                          Receive periodic summaries of agent interactions that still need attention.
+                          Notify org admins when agent edits sit unapproved for more than a day.
                         </p>
                       </div>
                     </div>
@@ -854,6 +871,38 @@ const OrgAdminDashboard: React.FC = () => {
           </Card>
         </section>
 
+        <section id="org-admin-alert-deliveries-section">
+          <OrgAlertDeliveriesPanel />
+        </section>
+
+        <section id="org-admin-obligations-section">
+          <OrgObligationsPanel />
+        </section>
+
+        <section id="org-admin-api-keys-section">
+          <OrgApiKeysPanel />
+        </section>
+
+        <section id="org-admin-webhooks-section">
+          <OrgWebhooksPanel />
+        </section>
+
+        <section id="org-admin-privacy-section">
+          <OrgPrivacyPanel />
+        </section>
+
+        <section id="org-admin-scoring-section">
+          <OrgScoringPanel />
+        </section>
+
+        <section id="org-admin-retention-section">
+          <OrgRetentionPanel />
+        </section>
+
+        <section id="org-admin-approvals-section">
+          <OrgApprovalChainsPanel />
+        </section>
+
         <section className="grid gap-6 lg:grid-cols-3">
           <Card className="lg:col-span-2">
             <CardHeader>
@@ -5,226 +5,7 @@ import Logo from "@/components/Logo";
 import MobileNavigation from "@/components/MobileNavigation";
 import { useUser } from "@/contexts/SupabaseUserContext";
 import { useToast } from "@/hooks/use-toast";
-
-type PerspectiveOption = {
-  value: string;
-  title: string;
-  description: string;
-  focusAreas: string[];
-  tone: "blue" | "green" | "rose" | "amber";
-};
-
-const PERSPECTIVE_OPTIONS: Record<string, PerspectiveOption[]> = {
-  ppc: [
-    {
-      value: "data-subject",
-      title: "Data Subject",
-      description:
-        "Review from the individual’s viewpoint with emphasis on privacy rights, consent, and transparency.",
-      focusAreas: [
-        "Individual privacy rights and data access",
-        "Consent mechanisms and withdrawal options",
-        "Data retention and deletion rights",
-        "Data portability and transparency requirements",
-      ],
-      tone: "blue",
-    },
-    {
-      value: "organization",
-      title: "Organization",
-      description:
-        "Assess obligations and liabilities for the business publishing the privacy notice.",
-      focusAreas: [
-        "Organizational compliance obligations",
-        "Business risk assessment and mitigation",
-        "Legal liability and financial exposure",
-        "Operational and procedural requirements",
-      ],
-      tone: "green",
-    },
-  ],
-  dpa: [
-    {
-      value: "data-controller",
-      title: "Data Controller",
-      description:
-        "Ensure processor commitments, safeguards, and data subject protections meet controller obligations.",
-      focusAreas: [
-        "Processor obligations and sub-processor controls",
-        "Data breach notification and cooperation",
-        "Security safeguards and audit rights",
-        "Data subject rights support and deletion/return",
-      ],
-      tone: "blue",
-    },
-    {
-      value: "data-processor",
-      title: "Data Processor",
-      description:
-        "Evaluate controller requirements, liability exposure, and operational feasibility for the processor.",
-      focusAreas: [
-        "Scope of processing and documented instructions",
-        "Limitation of liability and indemnities",
-        "Security, certifications, and audit scope",
-        "Return/deletion timelines and assistance duties",
-      ],
-      tone: "green",
-    },
-  ],
-  nda: [
-    {
-      value: "disclosing-party",
-      title: "Disclosing Party",
-      description:
-        "Protect confidential information, limit use, and secure remedies for unauthorized disclosure.",
-      focusAreas: [
-        "Definition and scope of Confidential Information",
-        "Use restrictions and purpose limitations",
-        "Return/destruction obligations",
-        "Remedies, injunctive relief, and liability caps",
-      ],
-      tone: "blue",
-    },
-    {
-      value: "receiving-party",
-      title: "Receiving Party",
-      description:
-        "Ensure obligations are feasible, exclusions are reasonable, and liability is proportionate.",
-      focusAreas: [
-        "Exclusions (public domain, independently developed)",
-        "Duration of confidentiality and survival",
-        "Information handling and security requirements",
-        "Liability exposure and indemnities",
-      ],
-      tone: "green",
-    },
-    {
-      value: "mutual",
-      title: "Mutual",
-      description:
-        "Balance obligations for both parties when each shares confidential information.",
-      focusAreas: [
-        "Reciprocal confidentiality duties and exclusions",
-        "Residual knowledge and purpose limits",
-        "Return/destruction and survival periods",
-        "Remedies and enforcement symmetry",
-      ],
-      tone: "amber",
-    },
-  ],
-  ca: [
-    {
-      value: "supplier",
-      title: "Supplier",
-      description:
-        "Check scope clarity, payment triggers, IP ownership, and limits on liability for delivering services.",
-      focusAreas: [
-        "Scope of work and change control",
-        "Fees, milestones, and payment terms",
-        "IP ownership and license back",
-        "Liability caps and exclusions",
-      ],
-      tone: "blue",
-    },
-    {
-      value: "client",
-      title: "Client",
-      description:
-        "Validate deliverable quality, acceptance rights, IP ownership, and protections for delays or defects.",
-      focusAreas: [
-        "Acceptance criteria and remedies",
-        "Service levels and delivery timelines",
-        "IP transfer/use rights",
-        "Indemnities and liability coverage",
-      ],
-      tone: "green",
-    },
-  ],
-  psa: [
-    {
-      value: "supplier",
-      title: "Supplier",
-      description:
-        "Assess supply commitments, forecasts, warranties, and limits on liability for providing goods.",
-      focusAreas: [
-        "Order commitments and forecast flexibility",
-        "Delivery terms, risk transfer, and delays",
-        "Product warranties and remedy scope",
-        "Liability caps and exclusions",
-      ],
-      tone: "blue",
-    },
-    {
-      value: "customer",
-      title: "Customer",
-      description:
-        "Check supply reliability, quality protections, and commercial remedies for non-conforming goods.",
-      focusAreas: [
-        "Quantity/forecast protections and minimums",
-        "Delivery obligations and penalties",
-        "Quality standards, inspections, and returns",
-        "Indemnities and limitation of liability",
-      ],
-      tone: "green",
-    },
-  ],
-  rda: [
-    {
-      value: "contractor",
-      title: "Contractor",
-      description:
-        "Clarify research scope, IP ownership, and risk allocation while delivering development work.",
-      focusAreas: [
-        "Scope, milestones, and change control",
-        "Foreground/background IP and licensing",
-        "Confidential data handling",
-        "Liability caps and indemnities",
-      ],
-      tone: "blue",
-    },
-    {
-      value: "customer",
-      title: "Customer",
-      description:
-        "Protect investment with clear deliverables, ownership rights, and remedies for delays or defects.",
-      focusAreas: [
-        "Milestones, acceptance, and performance criteria",
-        "Ownership of results and license rights",
-        "Data security and confidentiality",
-        "Warranties, indemnities, and liability",
-      ],
-      tone: "green",
-    },
-  ],
-  eula: [
-    {
-      value: "supplier",
-      title: "Supplier",
-      description:
-        "Review licensing scope, restrictions, and liability to protect the software publisher.",
-      focusAreas: [
-        "License scope, restrictions, and revocation",
-        "Warranty disclaimers and limitation of liability",
-        "IP protection and enforcement",
-        "Support/maintenance obligations",
-      ],
-      tone: "blue",
-    },
-    {
-      value: "end-user",
-      title: "End User",
-      description:
-        "Validate license rights, acceptable use, and available remedies for the software user.",
-      focusAreas: [
-        "Permitted uses and restrictions",
-        "Data usage/telemetry and privacy",
-        "Support, updates, and uptime expectations",
-        "Liability caps and available remedies",
-      ],
-      tone: "green",
-    },
-  ],
-};
+import { findContractType, getContractType } from "@shared/contractTypes";
 
 export default function PerspectiveSelection() {
   const navigate = useNavigate();
@@ -243,11 +24,12 @@ export default function PerspectiveSelection() {
   const normalizedKey = (solutionKey ?? solutionId ?? "")
     ?.toString()
     .toLowerCase();
-  const perspectiveOptions =
-    PERSPECTIVE_OPTIONS[normalizedKey] ?? PERSPECTIVE_OPTIONS.ppc;
+  const perspectiveOptions = (
+    findContractType(normalizedKey) ?? getContractType("ppc")
+  ).perspectives;
 
   const [selectedPerspective, setSelectedPerspective] = useState<string>(
-    perspectiveOptions[0]?.value ?? "data-subject",
+    perspectiveOptions[0]?.id ?? "data-subject",
   );
   const [userDropdownOpen, setUserDropdownOpen] = useState(false);
 
@@ -284,8 +66,8 @@ export default function PerspectiveSelection() {
         state: {
           perspective: selectedPerspective,
           perspectiveLabel:
-            perspectiveOptions.find((opt) => opt.value === selectedPerspective)
-              ?.title ?? selectedPerspective,
+            perspectiveOptions.find((opt) => opt.id === selectedPerspective)
+              ?.label ?? selectedPerspective,
           solutionTitle,
           quickUpload,
           adminAccess,
@@ -422,7 +204,7 @@ export default function PerspectiveSelection() {
           {/* Perspective Options */}
           <div className="space-y-6 mb-8">
             {perspectiveOptions.map((option) => {
-              const isSelected = selectedPerspective === option.value;
+              const isSelected = selectedPerspective === option.id;
               const accentBg =
                 option.tone === "blue"
                   ? "bg-blue-100 text-blue-700"
@@ -442,13 +224,13 @@ export default function PerspectiveSelection() {
 
               return (
                 <div
-                  key={option.value}
+                  key={option.id}
                   className={`bg-white rounded-lg border-2 p-6 shadow-sm cursor-pointer transition-all hover:shadow-md ${
                     isSelected
                       ? "border-[#9A7C7C] bg-[#9A7C7C]/5"
                       : "border-gray-200 hover:border-gray-300"
                   }`}
-                  onClick={() => setSelectedPerspective(option.value)}
+                  onClick={() => setSelectedPerspective(option.id)}
                 >
                   <div className="flex items-start gap-6">
                     <div
@@ -467,7 +249,7 @@ export default function PerspectiveSelection() {
                     <div className="flex-1">
                       <div className="flex items-center gap-3 mb-3">
                         <h3 className="text-xl font-medium text-[#271D1D]">
-                          {option.title}
+                          {option.label}
                         </h3>
                         <div
                           className={`w-5 h-5 border-2 rounded-full flex items-center justify-center ${
@@ -508,7 +290,7 @@ export default function PerspectiveSelection() {
             </h4>
             <div className="space-y-2">
               {perspectiveOptions
-                .find((opt) => opt.value === selectedPerspective)
+                .find((opt) => opt.id === selectedPerspective)
                 ?.focusAreas.map((area) => (
                   <div
                     key={area}
@@ -14,7 +14,13 @@ import {
   extractDocument,
 } from "@/services/documentIngestionService";
 import { supabase } from "@/lib/supabase";
+import { ContractsService } from "@/services/contractsService";
 import { deriveSolutionKey } from "@/utils/solutionMapping";
+import {
+  DEFAULT_REPORT_LANGUAGE_MODE,
+  resolveReportLanguageMode,
+  type ReportLanguageMode,
+} from "@shared/contractLanguage";
 
 export default function Upload() {
   const { user, logout } = useUser();
@@ -43,7 +49,17 @@ export default function Upload() {
     quickUpload,
     adminAccess,
     customSolutionId: stateCustomSolutionId,
+    previousContractId: statePreviousContractId,
   } = location.state || {};
+  const [previousContractId, setPreviousContractId] = useState<string>(
+    typeof statePreviousContractId === "string" ? statePreviousContractId : "",
+  );
+  const [reportLanguage, setReportLanguage] = useState<ReportLanguageMode>(
+    DEFAULT_REPORT_LANGUAGE_MODE,
+  );
+  const [previousContracts, setPreviousContracts] = useState<
+    Array<{ id: string; title: string; created_at: string | null; version_number: number }>
+  >([]);
 
   const isUuid = (value?: string | null) =>
     typeof value === "string" &&
@@ -106,6 +122,33 @@ export default function Upload() {
     }
   }, [navigate, paygOutOfCredits, toast]);
 
+  // Existing contracts a revised draft can be compared against
+  useEffect(() => {
+    const ownerId = user?.profileId ?? user?.id;
+    if (!ownerId) {
+      return;
+    }
+    let cancelled = false;
+    ContractsService.getUserContracts(ownerId)
+      .then((contracts) => {
+        if (cancelled) return;
+        setPreviousContracts(
+          (contracts ?? []).map((contract) => ({
+            id: contract.id,
+            title: contract.title,
+            created_at: contract.created_at,
+            version_number: contract.version_number ?? 1,
+          })),
+        );
+      })
+      .catch((error) => {
+        console.warn("⚠️ Failed to load contracts for version selection", error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.profileId, user?.id]);
+
   // Block navigation when user is on upload page (always show confirmation), but not during submission
   const blocker = useBlocker(
     ({ currentLocation, nextLocation }) =>
@@ -439,7 +482,7 @@ export default function Upload() {
 
       if (extraction.needsOcr) {
         throw new Error(
-          "This document requires OCR processing before analysis. Please upload a text-based version (PDF/DOCX/TXT).",
+          "We couldn't read enough text from this document. It may be a scan; please upload a clearer scan or a text-based version (PDF/DOCX/TXT).",
         );
       }
 
@@ -495,8 +538,10 @@ export default function Upload() {
           selected_solution_key: solutionKey,
           assets: extraction.assets ?? undefined,
           organization_id: organizationId,
+          previous_contract_id: previousContractId || undefined,
           perspective,
           perspective_label: perspectiveLabel,
+          report_language: reportLanguage,
         },
         reviewType,
         metadata: {
@@ -511,6 +556,8 @@ export default function Upload() {
           userProfileId,
           customSolutionId,
           organizationId,
+          previousContractId: previousContractId || undefined,
+          reportLanguage,
         },
       });
 
@@ -809,6 +856,62 @@ function getReviewTypeFromPerspective(perspective: string): string {
               </span>
             </div>
 
+            {/* Revised Version Of */}
+            {previousContracts.length > 0 && (
+              <div className="flex flex-col gap-1 mt-4 max-w-[360px]">
+                <label
+                  htmlFor="previous-contract"
+                  className="text-black font-lora text-xs font-medium"
+                >
+                  New version of an existing contract (optional)
+                </label>
+                <select
+                  id="previous-contract"
+                  value={previousContractId}
+                  onChange={(event) => setPreviousContractId(event.target.value)}
+                  disabled={isSubmitting}
+                  className="h-9 rounded-lg border border-[#D6CECE] bg-white px-3 text-[#271D1D] font-roboto text-sm focus:outline-none focus:ring-2 focus:ring-[#9A7C7C]/40"
+                >
+                  <option value="">Not a revision</option>
+                  {previousContracts.map((contract) => (
+                    <option key={contract.id} value={contract.id}>
+                      {contract.title}
+                      {contract.version_number > 1
+                        ? ` (v${contract.version_number})`
+                        : ""}
+                      {contract.created_at
+                        ? ` · ${new Date(contract.created_at).toLocaleDateString()}`
+                        : ""}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {/* Report Language */}
+            <div className="flex flex-col gap-1 mt-4 max-w-[360px]">
+              <label
+                htmlFor="report-language"
+                className="text-black font-lora text-xs font-medium"
+              >
+                Report language for non-English contracts
+              </label>
+              <select
+                id="report-language"
+                value={reportLanguage}
+                onChange={(event) =>
+                  setReportLanguage(resolveReportLanguageMode(event.target.value))
+                }
+                disabled={isSubmitting}
+                className="h-9 rounded-lg border border-[#D6CECE] bg-white px-3 text-[#271D1D] font-roboto text-sm focus:outline-none focus:ring-2 focus:ring-[#9A7C7C]/40"
+              >
+                <option value="bilingual">
+                  English findings, edits in the contract's language
+                </option>
+                <option value="contract">Contract language throughout</option>
+              </select>
+            </div>
+
             {/* Submit Button */}
             <div
               className={`absolute right-0 top-[66px] transition-all duration-1000 ease-out ${
@@ -827,6 +930,16 @@ function getReviewTypeFromPerspective(perspective: string): string {
             </div>
           </div>
 
+          {!quickUpload && (
+            <Link
+              to="/batch-review"
+              state={{ perspective }}
+              className="text-sm text-[#9A7C7C] hover:text-[#271D1D] font-roboto underline-offset-2 hover:underline"
+            >
+              Reviewing a whole folder? Upload a ZIP or several files at once
+            </Link>
+          )}
+
           {/* Solution Info */}
           {solutionTitle && perspective && (
             <div className="text-center text-sm text-[#9A7C7C] font-roboto">
@@ -20,6 +20,7 @@ import {
 import { Link, useNavigate } from "react-router-dom";
 import Logo from "@/components/Logo";
 import Footer from "@/components/Footer";
+import { ApprovalInbox } from "@/components/ContractApprovals";
 import MobileNavigation from "@/components/MobileNavigation";
 import { useUser } from "@/contexts/SupabaseUserContext";
 import { DataService } from "@/services/dataService";
@@ -857,7 +858,7 @@ export default function UserDashboard() {
                 <h2 className="font-lora text-lg font-medium text-[#271D1D]">
                   Recent Contracts
                 </h2>
-                <Link to="/user-solutions">
+                <Link to="/contract-repository">
                   <Button variant="outline" size="sm" className="text-[#271D1D] border-[#271D1D]/20">
                     View All
                   </Button>
@@ -915,6 +916,8 @@ export default function UserDashboard() {
               )}
             </div>
 
+            <ApprovalInbox authUserId={user?.authUserId ?? null} />
+
             {/* Recent Reviews */}
             <div className="bg-white rounded-lg p-6 border border-[#271D1D]/10">
               <div className="flex items-center justify-between mb-6">
@@ -0,0 +1,107 @@
+import type {
+  AgentChatThread,
+  AgentChatThreadDetail,
+  AgentChatThreadMessage,
+  AppendAgentChatMessageInput,
+  UpdateAgentChatThreadRequest,
+} from "@shared/api";
+import { authorizedFetch } from "@/lib/authorizedFetch";
+
+async function requestThreadEndpoint<T>(
+  path: string,
+  init: RequestInit = {},
+): Promise<T> {
+  const response = await authorizedFetch(path, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init.headers ?? {}),
+    },
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    let message = text;
+    try {
+      const parsed = JSON.parse(text);
+      message = parsed?.message || parsed?.error || text;
+    } catch {
+      // keep the raw body
+    }
+    throw new Error(
+      `Request to ${path} failed (${response.status}): ${message}`,
+    );
+  }
+
+  return (await response.json()) as T;
+}
+
+const threadPath = (threadId: string) =>
+  `/api/agent/threads/${encodeURIComponent(threadId)}`;
+
+export class AgentThreadsService {
+  static async listThreads(contractId: string): Promise<AgentChatThread[]> {
+    const payload = await requestThreadEndpoint<{
+      threads: AgentChatThread[];
+    }>(`/api/agent/threads?contractId=${encodeURIComponent(contractId)}`);
+    return payload.threads ?? [];
+  }
+
+  static async createThread(
+    contractId: string,
+    title?: string,
+  ): Promise<AgentChatThread> {
+    const payload = await requestThreadEndpoint<{ thread: AgentChatThread }>(
+      "/api/agent/threads",
+      { method: "POST", body: JSON.stringify({ contractId, title }) },
+    );
+    return payload.thread;
+  }
+
+  static async getThread(threadId: string): Promise<AgentChatThreadDetail> {
+    return requestThreadEndpoint<AgentChatThreadDetail>(threadPath(threadId));
+  }
+
+  static async updateThread(
+    threadId: string,
+    input: UpdateAgentChatThreadRequest,
+  ): Promise<AgentChatThread> {
+    const payload = await requestThreadEndpoint<{ thread: AgentChatThread }>(
+      threadPath(threadId),
+      { method: "PATCH", body: JSON.stringify(input) },
+    );
+    return payload.thread;
+  }
+
+  static async deleteThread(threadId: string): Promise<void> {
+    await requestThreadEndpoint(threadPath(threadId), {
+      method: "DELETE",
+    });
+  }
+
+  static async appendMessages(
+    threadId: string,
+    messages: AppendAgentChatMessageInput[],
+  ): Promise<AgentChatThreadMessage[]> {
+    const payload = await requestThreadEndpoint<{
+      messages: AgentChatThreadMessage[];
+    }>(`${threadPath(threadId)}/messages`, {
+      method: "POST",
+      body: JSON.stringify({ messages }),
+    });
+    return payload.messages ?? [];
+  }
+
+  static async acceptEdit(
+    threadId: string,
+    input: { messageId: string; editId: string; reviewId?: string | null },
+  ): Promise<void> {
+    await requestThreadEndpoint(`${threadPath(threadId)}/accepted-edits`, {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+  }
+}
+
+export default AgentThreadsService;
@@ -9,6 +9,7 @@ import {
 } from "@/utils/errorLogger";
 import type { CustomSolution } from "@shared/api";
 import type { AnalysisReport } from "@shared/ai/reviewSchema";
+import type { ReportLanguageMode } from "@shared/contractLanguage";
 import { LEGAL_LANGUAGE_GUIDANCE } from "@shared/legalLanguage";
 
 // Enhanced AI Model Configuration for Advanced Contract Analysis
@@ -23,6 +24,7 @@ export enum AIModel {
   ANTHROPIC_CLAUDE = "anthropic-claude-3",
   ANTHROPIC_CLAUDE_OPUS = "anthropic-claude-3-opus",
   GOOGLE_GEMINI = "google-gemini-pro",
+  SELF_HOSTED = "self-hosted-llm",
 }
 
 export const ensureGpt5Model = (
@@ -60,6 +62,8 @@ export interface ContractAnalysisRequest {
   contractType?: string;
   perspective?: string;
   perspectiveLabel?: string;
+  /** How to present findings on a non-English contract. */
+  reportLanguage?: ReportLanguageMode;
   customSolution?: CustomSolution;
   model?: AIModel;
   userId: string;
@@ -396,6 +400,7 @@ class AIService {
         contractType: request.contractType,
         perspective: request.perspective,
         perspectiveLabel: request.perspectiveLabel,
+        reportLanguage: request.reportLanguage,
         fileType: request.fileType,
         fileName: request.fileName,
         filename: request.filename,
@@ -615,6 +620,7 @@ class AIService {
     selectedSolution?: any;
     perspective?: string | null;
     perspectiveLabel?: string | null;
+    reportLanguage?: string | null;
     fileName?: string | null;
     fileType?: string | null;
     documentFormat?: string | null;
@@ -638,6 +644,7 @@ class AIService {
       contractType: meta.contractType ?? undefined,
       perspective: meta.perspective ?? undefined,
       perspectiveLabel: meta.perspectiveLabel ?? undefined,
+      reportLanguage: meta.reportLanguage ?? undefined,
       fileType: meta.fileType ?? undefined,
       fileName: meta.fileName ?? undefined,
       filename: meta.fileName ?? undefined,
@@ -1212,6 +1219,7 @@ class AIService {
         similarity_benchmarks: solution.similarityBenchmarks ?? [],
         model_settings: solution.modelSettings ?? null,
         drafting_settings: solution.draftingSettings ?? null,
+        scoring_profile: solution.scoringProfile ?? null,
         created_by: userId,
         created_at: new Date().toISOString(),
       })
@@ -1292,6 +1300,8 @@ class AIService {
       draftingSettings:
         (item.drafting_settings as CustomSolution["draftingSettings"]) ??
         undefined,
+      scoringProfile:
+        (item.scoring_profile as CustomSolution["scoringProfile"]) ?? null,
       isActive:
         typeof (item as Record<string, unknown>).is_active === "boolean"
           ? Boolean((item as Record<string, unknown>).is_active)
@@ -0,0 +1,74 @@
+import type { ApprovalInboxItem, ContractApprovalState } from "@shared/api";
+import { authorizedFetch } from "@/lib/authorizedFetch";
+
+async function requestApprovalsEndpoint<T>(
+  path: string,
+  init: RequestInit = {},
+): Promise<T> {
+  const response = await authorizedFetch(path, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init.headers ?? {}),
+    },
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    let message = text;
+    try {
+      const parsed = JSON.parse(text);
+      message = parsed?.message || parsed?.error || text;
+    } catch {
+      // keep the raw body
+    }
+    throw new Error(
+      `Request to ${path} failed (${response.status}): ${message}`,
+    );
+  }
+
+  return (await response.json()) as T;
+}
+
+const contractPath = (contractId: string) =>
+  `/api/approvals/contracts/${encodeURIComponent(contractId)}`;
+
+export class ApprovalsService {
+  static async getInbox(): Promise<ApprovalInboxItem[]> {
+    const payload = await requestApprovalsEndpoint<{
+      items: ApprovalInboxItem[];
+    }>("/api/approvals/inbox");
+    return payload.items ?? [];
+  }
+
+  static async getState(contractId: string): Promise<ContractApprovalState> {
+    const payload = await requestApprovalsEndpoint<{
+      state: ContractApprovalState;
+    }>(contractPath(contractId));
+    return payload.state;
+  }
+
+  static async submit(contractId: string): Promise<ContractApprovalState> {
+    const payload = await requestApprovalsEndpoint<{
+      state: ContractApprovalState;
+    }>(`${contractPath(contractId)}/submit`, { method: "POST" });
+    return payload.state;
+  }
+
+  static async decide(
+    contractId: string,
+    decision: "approve" | "reject",
+    reason?: string,
+  ): Promise<ContractApprovalState> {
+    const payload = await requestApprovalsEndpoint<{
+      state: ContractApprovalState;
+    }>(`${contractPath(contractId)}/decision`, {
+      method: "POST",
+      body: JSON.stringify({ decision, reason }),
+    });
+    return payload.state;
+  }
+}
+
+export default ApprovalsService;
@@ -0,0 +1,278 @@
+import { supabase } from "@/lib/supabase";
+import logger from "@/utils/logger";
+import { authorizedFetch } from "@/lib/authorizedFetch";
+import { DataService } from "./dataService";
+import { extractDocument } from "./documentIngestionService";
+import type {
+  ReviewBatch,
+  ReviewBatchDetail,
+  ReviewBatchItem,
+  ReviewBatchItemCompleteRequest,
+  ReviewBatchItemUpdateRequest,
+} from "@shared/api";
+
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+export class BatchCreditsExhaustedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchCreditsExhaustedError";
+  }
+}
+
+async function requestBatchEndpoint<T>(
+  path: string,
+  init: RequestInit = {},
+): Promise<T> {
+  const response = await authorizedFetch(path, {
+    ...init,
+    headers: {
+      ...(init.body instanceof FormData
+        ? {}
+        : { "Content-Type": "application/json" }),
+      ...(init.headers ?? {}),
+    },
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    let message = text;
+    try {
+      const parsed = JSON.parse(text);
+      message = parsed?.message || parsed?.error || text;
+    } catch {
+      // keep the raw body
+    }
+    if (response.status === 402) {
+      throw new BatchCreditsExhaustedError(message);
+    }
+    throw new Error(
+      `Request to ${path} failed (${response.status}): ${message}`,
+    );
+  }
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+  return (await response.json()) as T;
+}
+
+export interface RunBatchOptions {
+  authUserId: string;
+  profileId: string;
+  organizationId?: string | null;
+  concurrency?: number;
+  onItemChange?: (item: ReviewBatchItem) => void;
+  shouldStop?: () => boolean;
+}
+
+export class BatchReviewService {
+  static async createBatch(
+    files: File[],
+    options: { reviewType: string; perspective?: string; name?: string },
+  ): Promise<ReviewBatchDetail> {
+    const formData = new FormData();
+    files.forEach((file) => formData.append("files", file));
+    formData.append("reviewType", options.reviewType);
+    if (options.perspective) formData.append("perspective", options.perspective);
+    if (options.name) formData.append("name", options.name);
+
+    const payload = await requestBatchEndpoint<{ batch: ReviewBatchDetail }>(
+      "/api/batch",
+      { method: "POST", body: formData },
+    );
+    return payload.batch;
+  }
+
+  static async listBatches(): Promise<ReviewBatch[]> {
+    const payload = await requestBatchEndpoint<{ batches: ReviewBatch[] }>(
+      "/api/batch",
+    );
+    return payload.batches ?? [];
+  }
+
+  static async getBatch(batchId: string): Promise<ReviewBatchDetail> {
+    const payload = await requestBatchEndpoint<{ batch: ReviewBatchDetail }>(
+      `/api/batch/${encodeURIComponent(batchId)}`,
+    );
+    return payload.batch;
+  }
+
+  static async cancelBatch(batchId: string) {
+    await requestBatchEndpoint<void>(
+      `/api/batch/${encodeURIComponent(batchId)}/cancel`,
+      { method: "POST" },
+    );
+  }
+
+  private static async updateItem(
+    item: ReviewBatchItem,
+    update: ReviewBatchItemUpdateRequest,
+  ): Promise<ReviewBatchItem> {
+    const payload = await requestBatchEndpoint<{ item: ReviewBatchItem }>(
+      `/api/batch/${encodeURIComponent(item.batchId)}/items/${encodeURIComponent(item.id)}`,
+      { method: "PATCH", body: JSON.stringify(update) },
+    );
+    return payload.item;
+  }
+
+  private static async completeItem(
+    item: ReviewBatchItem,
+    request: ReviewBatchItemCompleteRequest,
+  ): Promise<ReviewBatchItem> {
+    const payload = await requestBatchEndpoint<{ item: ReviewBatchItem }>(
+      `/api/batch/${encodeURIComponent(item.batchId)}/items/${encodeURIComponent(item.id)}/complete`,
+      { method: "POST", body: JSON.stringify(request) },
+    );
+    return payload.item;
+  }
+
+  /**
+   * Reviews every queued document through the regular single-contract
+   * workflow, `concurrency` documents at a time. Stops picking up new
+   * documents once credits run out or `shouldStop` returns true.
+   */
+  static async runBatch(
+    batch: ReviewBatchDetail,
+    reviewType: string,
+    options: RunBatchOptions,
+  ): Promise<void> {
+    const queue = batch.items.filter((item) => item.status === "queued");
+    const concurrency = Math.max(
+      1,
+      options.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+    );
+    let halted = false;
+
+    const emit = (item: ReviewBatchItem) => {
+      options.onItemChange?.(item);
+      return item;
+    };
+
+    const processItem = async (initial: ReviewBatchItem) => {
+      let item = initial;
+      try {
+        item = emit(
+          await this.updateItem(item, {
+            status: "extracting",
+            progress: 10,
+          }),
+        );
+
+        const extraction = (await extractDocument(item.ingestionId!)).result;
+        const text = (extraction?.text || "").trim();
+        if (!extraction || extraction.needsOcr || !text) {
+          throw new Error("No readable text could be extracted");
+        }
+
+        const { error: warmupError } = await supabase.functions.invoke(
+          "ingest-contract",
+          { body: { ingestionId: item.ingestionId } },
+        );
+        if (warmupError) {
+          logger.warn("Batch ingestion warmup failed", {
+            ingestionId: item.ingestionId,
+            error: warmupError,
+          });
+        }
+
+        item = emit(
+          await this.updateItem(item, {
+            status: "classifying",
+            progress: 20,
+          }),
+        );
+
+        let reportedReviewing = false;
+        const fileName = extraction.originalFileName || item.fileName;
+        const result = await DataService.processContractWorkflow(
+          { authId: options.authUserId, profileId: options.profileId },
+          {
+            title: fileName.replace(/\.[^/.]+$/, ""),
+            content: text,
+            content_html: extraction.html ?? null,
+            file_name: fileName,
+            file_size: extraction.fileSize,
+            file_type: extraction.mimeType,
+            ingestion_id: item.ingestionId,
+            ingestion_strategy: extraction.strategy,
+            ingestion_warnings: extraction.warnings ?? [],
+            ingestion_needs_ocr: extraction.needsOcr,
+            document_word_count: extraction.wordCount,
+            document_page_count: extraction.pageCount,
+            user_auth_id: options.authUserId,
+            user_profile_id: options.profileId,
+            organization_id: options.organizationId ?? null,
+            perspective: batch.perspective ?? undefined,
+            assets: extraction.assets ?? undefined,
+          },
+          reviewType,
+          {
+            onProgress: (stage) => {
+              if (reportedReviewing || stage !== "analysis_start") return;
+              reportedReviewing = true;
+              void this.updateItem(item, {
+                status: "reviewing",
+                progress: 55,
+              })
+                .then(emit)
+                .catch((error) =>
+                  logger.warn("Batch progress update failed", {
+                    itemId: item.id,
+                    error,
+                  }),
+                );
+            },
+          },
+        );
+
+        const confidence = result.classification?.confidence;
+        item = emit(
+          await this.completeItem(item, {
+            reviewId: result.review.id,
+            classificationConfidence:
+              typeof confidence === "number" ? confidence : null,
+          }),
+        );
+      } catch (error) {
+        if (error instanceof BatchCreditsExhaustedError) {
+          halted = true;
+          emit({ ...item, status: "skipped", error: error.message });
+          return;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn("Batch document failed", { itemId: item.id, message });
+        try {
+          emit(
+            await this.updateItem(item, {
+              status: "failed",
+              error: message,
+            }),
+          );
+        } catch (updateError) {
+          emit({ ...item, status: "failed", error: message });
+          logger.warn("Failed to record batch failure", {
+            itemId: item.id,
+            error: updateError,
+          });
+        }
+      }
+    };
+
+    const worker = async () => {
+      for (;;) {
+        if (halted || options.shouldStop?.()) return;
+        const next = queue.shift();
+        if (!next) return;
+        await processItem(next);
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, queue.length) }, worker),
+    );
+  }
+}
+
+export default BatchReviewService;
@@ -2,11 +2,12 @@ import type {
   CreateCheckoutSessionRequest,
   CreateCheckoutSessionResponse,
 } from "@shared/api";
+import { authorizedFetch } from "@/lib/authorizedFetch";
 
 export async function createCheckoutSession(
   payload: CreateCheckoutSessionRequest,
 ): Promise<CreateCheckoutSessionResponse> {
-  const response = await fetch("/api/billing/checkout", {
+  const response = await authorizedFetch("/api/billing/checkout", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
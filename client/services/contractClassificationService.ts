@@ -3,11 +3,12 @@ import logger from "@/utils/logger";
 import { logError, safeStringify } from "@/utils/errorLogger";
 import nativeFetch from "@/lib/nativeFetch";
 import {
+  contractTypeLabel,
   deriveSolutionKey,
   mapClassificationToSolutionKey,
-  SOLUTION_DISPLAY_NAMES,
   solutionKeyToDisplayName,
 } from "@/utils/solutionMapping";
+import { CONTRACT_TYPES, findContractType } from "@shared/contractTypes";
 import type { SolutionKey } from "@/utils/solutionMapping";
 
 const EDGE_CLASSIFICATION_CONTENT_LIMIT = 8000;
@@ -23,184 +24,22 @@ interface SolutionProfile {
   keywords: string[];
 }
 
-const SOLUTION_PROFILES: Record<SolutionKey, SolutionProfile> = {
-  dpa: {
-    key: "dpa",
-    contractType: "data_processing_agreement",
-    displayName: SOLUTION_DISPLAY_NAMES.dpa,
-    confidence: 0.93,
-    characteristics: [
-      "GDPR compliance focused",
-      "Data processing roles defined",
-      "EDPB guidance referenced",
-      "Security safeguards outlined",
-    ],
-    suggestedSolutions: ["compliance_score", "perspective_review"],
-    partyRoles: { party1: "Data Controller", party2: "Data Processor" },
-    reasoning:
-      "Document references GDPR terminology, controller/processor roles, and privacy safeguards consistent with a DPA.",
-    keywords: [
-      "data processing",
-      "personal data",
-      "gdpr",
-      "controller",
-      "processor",
-      "data subject",
-      "privacy",
-      "edpb",
-    ],
-  },
-  nda: {
-    key: "nda",
-    contractType: "non_disclosure_agreement",
-    displayName: SOLUTION_DISPLAY_NAMES.nda,
-    confidence: 0.92,
-    characteristics: [
-      "Confidentiality protections",
-      "Mutual disclosure limits",
-      "Trade secret safeguards",
-      "Remedy and penalty clauses",
-    ],
-    suggestedSolutions: ["risk_assessment", "compliance_score"],
-    partyRoles: { party1: "Disclosing Party", party2: "Receiving Party" },
-    reasoning:
-      "Language centers on disclosure obligations, confidential information, and protective remedies typical of NDAs.",
-    keywords: [
-      "non-disclosure",
-      "confidentiality",
-      "trade secret",
-      "proprietary information",
-      "nda",
-      "non disclosure",
-    ],
-  },
-  ppc: {
-    key: "ppc",
-    contractType: "privacy_policy_document",
-    displayName: SOLUTION_DISPLAY_NAMES.ppc,
-    confidence: 0.9,
-    characteristics: [
-      "Data collection transparency",
-      "User rights explained",
-      "Cookie and tracking disclosure",
-      "Contact and grievance process",
-    ],
-    suggestedSolutions: ["compliance_score", "perspective_review"],
-    partyRoles: { party1: "Service Provider", party2: "End User" },
-    reasoning:
-      "Document structure mirrors a privacy notice: user rights, data practices, cookie disclosures, and contact channels.",
-    keywords: [
-      "privacy policy",
-      "privacy notice",
-      "privacy statement",
-      "data collection",
-      "cookies",
-      "personal information",
-      "user data",
-    ],
-  },
-  ca: {
-    key: "ca",
-    contractType: "consultancy_agreement",
-    displayName: SOLUTION_DISPLAY_NAMES.ca,
-    confidence: 0.9,
-    characteristics: [
-      "Professional service scope",
-      "Deliverables and milestones",
-      "Service fees and expenses",
-      "IP & confidentiality for consultants",
-    ],
-    suggestedSolutions: [
-      "risk_assessment",
-      "full_summary",
-      "perspective_review",
-    ],
-    partyRoles: { party1: "Client", party2: "Consultant" },
-    reasoning:
-      "Scope of services, consultant obligations, and fee structures align with a consultancy agreement.",
-    keywords: [
-      "consultancy",
-      "consulting",
-      "advisory services",
-      "statement of work",
-      "consultant",
-      "service provider",
-    ],
-  },
-  rda: {
-    key: "rda",
-    contractType: "research_development_agreement",
-    displayName: SOLUTION_DISPLAY_NAMES.rda,
-    confidence: 0.85,
-    characteristics: [
-      "Joint development obligations",
-      "IP ownership and licensing",
-      "Milestone research phases",
-      "Confidential data sharing",
-    ],
-    suggestedSolutions: ["risk_assessment", "perspective_review"],
-    partyRoles: { party1: "Research Partner", party2: "Development Partner" },
-    reasoning:
-      "The agreement references joint research, prototypes, and IP licensing typical of R&D collaborations.",
-    keywords: [
-      "research and development",
-      "r&d",
-      "prototype",
-      "collaboration",
-      "joint development",
-      "technology transfer",
-    ],
-  },
-  eula: {
-    key: "eula",
-    contractType: "end_user_license_agreement",
-    displayName: SOLUTION_DISPLAY_NAMES.eula,
-    confidence: 0.88,
-    characteristics: [
-      "Software licensing terms",
-      "restrictions on use",
-      "warranty disclaimers",
-      "liability limitations",
-    ],
-    suggestedSolutions: ["risk_assessment", "full_summary"],
-    partyRoles: { party1: "Licensor", party2: "End User" },
-    reasoning:
-      "Contract covers licensing, installation, and use limitations expected in software/end-user licenses.",
-    keywords: [
-      "end user license",
-      "software license",
-      "licensor",
-      "licensee",
-      "eula",
-      "subscription terms",
-    ],
-  },
-  psa: {
-    key: "psa",
-    contractType: "product_supply_agreement",
-    displayName: SOLUTION_DISPLAY_NAMES.psa,
-    confidence: 0.86,
-    characteristics: [
-      "Supply quantities & forecasts",
-      "Delivery and logistics",
-      "Product quality standards",
-      "Commercial terms and remedies",
-    ],
-    suggestedSolutions: ["risk_assessment", "full_summary"],
-    partyRoles: { party1: "Supplier", party2: "Purchaser" },
-    reasoning:
-      "Terms revolve around product supply, delivery schedules, warranties, and remedies characteristic of PSAs.",
-    keywords: [
-      "product supply",
-      "supply agreement",
-      "purchase order",
-      "buyer",
-      "seller",
-      "logistics",
-      "inventory",
-    ],
-  },
-};
+const SOLUTION_PROFILES = Object.fromEntries(
+  CONTRACT_TYPES.map((type) => [
+    type.key,
+    {
+      key: type.key,
+      contractType: type.classificationType,
+      displayName: type.displayName,
+      confidence: type.classification.confidence,
+      characteristics: type.classification.characteristics,
+      suggestedSolutions: type.classification.suggestedSolutions,
+      partyRoles: type.classification.partyRoles,
+      reasoning: type.classification.reasoning,
+      keywords: type.classification.keywords,
+    },
+  ]),
+) as Record<SolutionKey, SolutionProfile>;
 
 export interface ContractClassificationResult {
   contractType: string;
@@ -215,6 +54,7 @@ export interface ContractClassificationResult {
     party1: string;
     party2: string;
   };
+  parties?: string[];
   confidenceBand: "high" | "medium" | "low";
   fallbackUsed?: boolean;
   fallbackReason?: string;
@@ -443,10 +283,15 @@ export class ContractClassificationService {
     const proxyController = new AbortController();
     const timeoutId = setTimeout(() => proxyController.abort(), 90000);
     try {
+      // Lets the server apply the organization's redaction setting.
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
       const response = await nativeFetch("/api/classify", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...(session?.user?.id ? { "x-auth-user-id": session.user.id } : {}),
         },
         signal: proxyController.signal,
         body: JSON.stringify({
@@ -536,6 +381,18 @@ export class ContractClassificationService {
       : [];
     const keyTerms: string[] = Array.from(new Set(keyTermsRaw)).slice(0, 10);
 
+    const parties: string[] = Array.isArray(data?.parties)
+      ? Array.from(
+          new Set(
+            (data.parties as unknown[])
+              .map((item: unknown) =>
+                typeof item === "string" ? item.trim() : "",
+              )
+              .filter((item: string) => item.length > 0),
+          ),
+        ).slice(0, 10)
+      : [];
+
     const partyRoles = {
       party1:
         typeof data?.partyRoles?.party1 === "string" &&
@@ -606,6 +463,7 @@ export class ContractClassificationService {
           ? data.jurisdiction.trim()
           : "Not specified",
       partyRoles,
+      parties,
       confidenceBand,
       fallbackUsed,
       fallbackReason,
@@ -733,48 +591,19 @@ export class ContractClassificationService {
    * Get contract type display name
    */
   static getContractTypeDisplayName(contractType: string): string {
-    const displayNames: Record<string, string> = {
-      data_processing_agreement: "Data Processing Agreement",
-      non_disclosure_agreement: "Non-Disclosure Agreement",
-      privacy_policy_document: "Privacy Policy Document",
-      consultancy_agreement: "Consultancy Agreement",
-      research_development_agreement: "R&D Agreement",
-      end_user_license_agreement: "End User License Agreement",
-      product_supply_agreement: "Product Supply Agreement",
-      general_commercial: "General Commercial Agreement",
-    };
-
-    return displayNames[contractType] || "Commercial Agreement";
+    return contractTypeLabel(contractType);
   }
 
   /**
    * Get recommended analysis solutions based on contract type
    */
   static getRecommendedSolutions(contractType: string): string[] {
-    const recommendations: Record<string, string[]> = {
-      data_processing_agreement: ["compliance_score", "perspective_review"],
-      non_disclosure_agreement: ["compliance_score", "risk_assessment"],
-      privacy_policy_document: ["compliance_score", "perspective_review"],
-      consultancy_agreement: [
-        "risk_assessment",
+    return (
+      findContractType(contractType)?.classification.suggestedSolutions ?? [
         "full_summary",
-        "perspective_review",
-      ],
-      research_development_agreement: [
-        "compliance_score",
         "risk_assessment",
-        "perspective_review",
-      ],
-      end_user_license_agreement: ["compliance_score", "risk_assessment"],
-      product_supply_agreement: [
-        "risk_assessment",
-        "full_summary",
-        "perspective_review",
-      ],
-      general_commercial: ["full_summary", "risk_assessment"],
-    };
-
-    return recommendations[contractType] || ["full_summary", "risk_assessment"];
+      ]
+    );
   }
 
   private normalizeSolutionKey(
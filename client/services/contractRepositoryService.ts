@@ -0,0 +1,130 @@
+import type {
+  ContractFolder,
+  ContractRepositoryFacets,
+  ContractRepositoryItem,
+  ContractRepositoryScope,
+  ContractSearchFilters,
+  ContractSearchResponse,
+  UpdateContractOrganizationRequest,
+} from "@shared/api";
+import { authorizedFetch } from "@/lib/authorizedFetch";
+
+async function requestRepositoryEndpoint<T>(
+  path: string,
+  init: RequestInit = {},
+): Promise<T> {
+  const response = await authorizedFetch(path, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init.headers ?? {}),
+    },
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    let message = text;
+    try {
+      const parsed = JSON.parse(text);
+      message = parsed?.message || parsed?.error || text;
+    } catch {
+      // keep the raw body
+    }
+    throw new Error(
+      `Request to ${path} failed (${response.status}): ${message}`,
+    );
+  }
+
+  return (await response.json()) as T;
+}
+
+const SEARCH_PARAM_KEYS: Record<keyof ContractSearchFilters, string> = {
+  query: "q",
+  scope: "scope",
+  folderId: "folderId",
+  tag: "tag",
+  counterparty: "counterparty",
+  contractType: "contractType",
+  governingLaw: "governingLaw",
+  minScore: "minScore",
+  maxScore: "maxScore",
+  from: "from",
+  to: "to",
+  page: "page",
+  pageSize: "pageSize",
+};
+
+export class ContractRepositoryService {
+  static async search(
+    filters: ContractSearchFilters,
+  ): Promise<ContractSearchResponse> {
+    const params = new URLSearchParams();
+    (
+      Object.keys(SEARCH_PARAM_KEYS) as Array<keyof ContractSearchFilters>
+    ).forEach((key) => {
+      const value = filters[key];
+      if (value !== undefined && value !== "") {
+        params.set(SEARCH_PARAM_KEYS[key], String(value));
+      }
+    });
+    return requestRepositoryEndpoint<ContractSearchResponse>(
+      `/api/contracts/search?${params.toString()}`,
+    );
+  }
+
+  static async getFacets(
+    scope: ContractRepositoryScope,
+  ): Promise<ContractRepositoryFacets> {
+    const payload = await requestRepositoryEndpoint<{
+      facets: ContractRepositoryFacets;
+    }>(`/api/contracts/facets?scope=${scope}`);
+    return payload.facets;
+  }
+
+  static async listFolders(): Promise<ContractFolder[]> {
+    const payload = await requestRepositoryEndpoint<{
+      folders: ContractFolder[];
+    }>("/api/contracts/folders");
+    return payload.folders ?? [];
+  }
+
+  static async createFolder(name: string): Promise<ContractFolder> {
+    const payload = await requestRepositoryEndpoint<{
+      folder: ContractFolder;
+    }>("/api/contracts/folders", {
+      method: "POST",
+      body: JSON.stringify({ name }),
+    });
+    return payload.folder;
+  }
+
+  static async renameFolder(folderId: string, name: string): Promise<void> {
+    await requestRepositoryEndpoint(
+      `/api/contracts/folders/${encodeURIComponent(folderId)}`,
+      { method: "PATCH", body: JSON.stringify({ name }) },
+    );
+  }
+
+  static async deleteFolder(folderId: string): Promise<void> {
+    await requestRepositoryEndpoint(
+      `/api/contracts/folders/${encodeURIComponent(folderId)}`,
+      { method: "DELETE" },
+    );
+  }
+
+  static async updateContract(
+    contractId: string,
+    input: UpdateContractOrganizationRequest,
+  ): Promise<ContractRepositoryItem> {
+    const payload = await requestRepositoryEndpoint<{
+      contract: ContractRepositoryItem;
+    }>(`/api/contracts/${encodeURIComponent(contractId)}/organization`, {
+      method: "PATCH",
+      body: JSON.stringify(input),
+    });
+    return payload.contract;
+  }
+}
+
+export default ContractRepositoryService;
@@ -64,6 +64,7 @@ export class ContractReviewsService {
         selectedSolution: asyncMeta?.selectedSolution ?? null,
         perspective: asyncMeta?.perspective ?? null,
         perspectiveLabel: asyncMeta?.perspectiveLabel ?? null,
+        reportLanguage: asyncMeta?.reportLanguage ?? null,
         fileName: asyncMeta?.fileName ?? null,
         fileType: asyncMeta?.fileType ?? null,
         documentFormat: asyncMeta?.documentFormat ?? null,
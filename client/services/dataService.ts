@@ -16,7 +16,13 @@ import logger from "@/utils/logger";
 import { logError, createUserFriendlyMessage } from "@/utils/errorLogger";
 import AnalyticsEventsService from "./analyticsEventsService";
 import PaygCreditsService from "./paygCreditsService";
+import OrgAdminService from "./orgAdminService";
 import type { CustomSolution } from "@shared/api";
+import {
+  compareContractVersions,
+  isVersionReportLike,
+  type VersionComparisonReport,
+} from "@shared/ai/versionComparison";
 import {
   deriveSolutionKey,
   mapClassificationToSolutionKey,
@@ -63,6 +69,8 @@ export class DataService {
       draftingSettings:
         (row.drafting_settings as CustomSolution["draftingSettings"]) ??
         undefined,
+      scoringProfile:
+        (row.scoring_profile as CustomSolution["scoringProfile"]) ?? null,
       isPublic: (row.is_public as boolean) ?? undefined,
       isActive: (row.is_active as boolean) ?? undefined,
       createdBy: (row.created_by as string) ?? undefined,
@@ -168,6 +176,53 @@ export class DataService {
     }
   }
 
+  private static async fetchPreviousContractVersion(contractId: string) {
+    try {
+      return await ContractsService.getContract(contractId);
+    } catch (error) {
+      console.warn("Failed to load previous contract version", {
+        contractId,
+        error,
+      });
+      return null;
+    }
+  }
+
+  private static async buildVersionComparison(
+    previousContract: Awaited<ReturnType<typeof ContractsService.getContract>>,
+    currentContent: string,
+    reviewResults: any,
+  ): Promise<VersionComparisonReport | null> {
+    try {
+      const previousReviews = await ContractReviewsService.getContractReviews(
+        previousContract.id,
+      );
+      const previousReview = previousReviews?.[0] ?? null;
+      const previousResults = (previousReview?.results ?? null) as Record<
+        string,
+        unknown
+      > | null;
+      const previousReport = previousResults?.structured_report;
+
+      return compareContractVersions({
+        previousText: previousContract.content ?? "",
+        currentText: currentContent ?? "",
+        previousReport: isVersionReportLike(previousReport)
+          ? previousReport
+          : null,
+        currentReport: reviewResults?.structured_report ?? null,
+        previousContractId: previousContract.id,
+        previousReviewId: previousReview?.id ?? null,
+        previousVersionNumber: previousContract.version_number ?? 1,
+      });
+    } catch (error) {
+      logError("Version comparison failed", error, {
+        previousContractId: previousContract.id,
+      });
+      return null;
+    }
+  }
+
   static async initializeNewUser(userId: string) {
     try {
       // Initialize user usage statistics
@@ -573,6 +628,14 @@ export class DataService {
         organizationId,
       };
 
+      const previousContract =
+        typeof contractData.previous_contract_id === "string" &&
+        contractData.previous_contract_id.length > 0
+          ? await this.fetchPreviousContractVersion(
+              contractData.previous_contract_id,
+            )
+          : null;
+
       let contract: Awaited<
         ReturnType<typeof ContractsService.createContract>
       > | null = null;
@@ -594,6 +657,10 @@ export class DataService {
                 custom_solution_id:
                   customSolutionId ?? contractData.custom_solution_id ?? null,
                 organization_id: organizationId ?? null,
+                previous_version_id: previousContract?.id ?? null,
+                version_number: previousContract
+                  ? (previousContract.version_number ?? 1) + 1
+                  : 1,
                 metadata: {
                   ...contractMetadata,
                   resolvedOwnerId: candidateUserId,
@@ -789,6 +856,21 @@ export class DataService {
         }
       }
 
+      if (previousContract && reviewResults) {
+        const versionComparison = await this.buildVersionComparison(
+          previousContract,
+          contractData.content,
+          reviewResults,
+        );
+        if (versionComparison) {
+          reviewResults.version_comparison = versionComparison;
+          logger.contractAction("version_comparison_completed", contract.id, {
+            previousContractId: previousContract.id,
+            ...versionComparison.summary,
+          });
+        }
+      }
+
       // 5. Create review record
       const normalizedScore =
         typeof reviewResults?.score === "number"
@@ -824,6 +906,8 @@ export class DataService {
         },
       );
 
+      void OrgAdminService.notifyReviewSaved(review.id);
+
       const completedAt = new Date().toISOString();
       const workflowLatencyMs = workflowPerfStart !== null
         ? Math.round(performance.now() - workflowPerfStart)
@@ -1414,6 +1498,7 @@ export class DataService {
         contractType: contractData.contract_type || "general",
         perspective: contractData.perspective ?? undefined,
         perspectiveLabel: contractData.perspective_label ?? undefined,
+        reportLanguage: contractData.report_language ?? undefined,
         customSolution: customSolution ?? undefined,
         model: normalizedModel as ContractAnalysisRequest["model"],
         userId: authUserId,
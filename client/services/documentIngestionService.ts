@@ -1,3 +1,5 @@
+import { authorizedFetch } from "@/lib/authorizedFetch";
+
 export interface IngestionUploadResponse {
   ingestionId: string;
   status: string;
@@ -25,7 +27,8 @@ export interface IngestionUploadResponse {
   } | null;
 }
 
-import type { ExtractionAssets } from "@shared/api";
+import type { ExtractionAssets, OcrExtractionSummary } from "@shared/api";
+import type { ContractLanguageDetection } from "@shared/contractLanguage";
 
 export interface ExtractionResult {
   ingestionId: string;
@@ -44,6 +47,8 @@ export interface ExtractionResult {
     originalFileName: string;
     fileSize?: number;
     assets?: ExtractionAssets;
+    ocr?: OcrExtractionSummary;
+    language?: ContractLanguageDetection;
   };
   record?: Record<string, unknown> | null;
 }
@@ -67,7 +72,7 @@ export async function uploadDocument(
     formData.append("userProfileId", options.userProfileId);
   }
 
-  const response = await fetch("/api/ingest", {
+  const response = await authorizedFetch("/api/ingest", {
     method: "POST",
     body: formData,
   });
@@ -87,7 +92,7 @@ export async function uploadDocument(
 export async function extractDocument(
   ingestionId: string,
 ): Promise<ExtractionResult> {
-  const response = await fetch(`/api/ingest/${ingestionId}/extract`, {
+  const response = await authorizedFetch(`/api/ingest/${ingestionId}/extract`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -1,13 +1,39 @@
 import { supabase } from "@/lib/supabase";
+import { authorizedFetch } from "@/lib/authorizedFetch";
 import logger from "@/utils/logger";
 import type {
+  ApprovalChain,
+  ApprovalChainInput,
+  ApprovalTrailEvent,
+  ContractObligation,
+  ContractObligationFilters,
+  ContractObligationStatus,
+  ObligationCalendarFeed,
+  ObligationCalendarScope,
+  OrgAlertDelivery,
+  OrgApiKey,
+  OrgApiKeyCreateRequest,
+  OrgApiKeyCreateResponse,
+  OrgApiKeyListResponse,
   OrgAlertPreferences,
   OrgAlertSummary,
   OrgComplianceExportItem,
   OrgMemberInviteSummary,
   OrgMemberSummary,
   OrgOverviewMetrics,
+  OrgPlaybook,
+  OrgPlaybookDefinition,
+  OrgPlaybookVersion,
+  OrgPrivacySettings,
+  OrgRetentionPurge,
+  OrgRetentionSettings,
+  OrgScoringSettings,
+  OrgWebhookDelivery,
+  OrgWebhookEndpoint,
+  OrgWebhookEndpointCreateResponse,
+  OrgWebhookEndpointInput,
 } from "@shared/api";
+import type { ScoringProfile } from "@shared/ai/scoringProfile";
 
 export interface ReviewInsights {
   severity: Record<string, number>;
@@ -15,6 +41,16 @@ export interface ReviewInsights {
   missingClauses: Array<{ clause: string; count: number }>;
 }
 
+export interface SaveOrgPlaybookRequest extends OrgPlaybookDefinition {
+  expectedVersion?: number;
+  changeNote?: string;
+}
+
+export interface UpdateAlertPreferencesRequest
+  extends Partial<Omit<OrgAlertPreferences, "lastDigestAt">> {
+  webhookSecret?: string | null;
+}
+
 export interface CreateMemberInviteRequest {
   email: string;
   role?: "member" | "org_admin";
@@ -129,11 +165,17 @@ async function requestOrgEndpoint<T>(
   path: string,
   organizationId: string,
   authUserId: string,
+  query?: Record<string, string | number | boolean | undefined>,
 ): Promise<T> {
   const url = new URL(path, window.location.origin);
   url.searchParams.set("organizationId", organizationId);
+  Object.entries(query ?? {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") {
+      url.searchParams.set(key, String(value));
+    }
+  });
 
-  const response = await fetch(url.toString(), {
+  const response = await authorizedFetch(url.toString(), {
     method: "GET",
     headers: {
       "Content-Type": "application/json",
@@ -161,7 +203,7 @@ async function mutateOrgEndpoint<T>(
   const url = new URL(path, window.location.origin);
   url.searchParams.set("organizationId", organizationId);
 
-  const response = await fetch(url.toString(), {
+  const response = await authorizedFetch(url.toString(), {
     ...options,
     headers: {
       "Content-Type": "application/json",
@@ -314,7 +356,7 @@ class OrgAdminService {
   static async updateAlertPreferences(
     organizationId: string,
     authUserId: string,
-    updates: Partial<OrgAlertPreferences>,
+    updates: UpdateAlertPreferencesRequest,
   ): Promise<OrgAlertPreferences> {
     const url = new URL("/api/org/alerts/preferences", window.location.origin);
     url.searchParams.set("organizationId", organizationId);
@@ -330,6 +372,11 @@ class OrgAdminService {
         notifyHighRisk: updates.notifyHighRisk,
         notifyPendingEdits: updates.notifyPendingEdits,
         alertChannel: updates.alertChannel,
+        deliveryMode: updates.deliveryMode,
+        emailRecipients: updates.emailRecipients,
+        webhookUrl: updates.webhookUrl,
+        webhookSecret: updates.webhookSecret,
+        slackWebhookUrl: updates.slackWebhookUrl,
       }),
     });
 
@@ -356,6 +403,367 @@ class OrgAdminService {
     );
   }
 
+  static async listAlertDeliveries(
+    organizationId: string,
+    authUserId: string,
+  ): Promise<OrgAlertDelivery[]> {
+    const payload = await requestOrgEndpoint<{
+      organizationId: string;
+      deliveries: OrgAlertDelivery[];
+    }>("/api/org/alerts/deliveries", organizationId, authUserId);
+    return payload.deliveries ?? [];
+  }
+
+  static async retryAlertDelivery(
+    organizationId: string,
+    authUserId: string,
+    deliveryId: string,
+  ): Promise<OrgAlertDelivery> {
+    const payload = await mutateOrgEndpoint<{ delivery: OrgAlertDelivery }>(
+      `/api/org/alerts/deliveries/${encodeURIComponent(deliveryId)}/retry`,
+      organizationId,
+      authUserId,
+      { method: "POST" },
+    );
+    return payload.delivery;
+  }
+
+  /**
+   * Lets the server send high-risk alerts and register obligations for a
+   * freshly saved review. Failures are logged only; the periodic dispatcher
+   * and the register backfill pick the review up anyway.
+   */
+  static async notifyReviewSaved(reviewId: string): Promise<void> {
+    try {
+      const response = await authorizedFetch("/api/org/alerts/review-saved", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ reviewId }),
+      });
+      if (!response.ok) {
+        logger.warn("Review alert dispatch failed", {
+          reviewId,
+          status: response.status,
+        });
+      }
+    } catch (error) {
+      logger.warn("Review alert dispatch failed", { reviewId, error });
+    }
+  }
+
+  static async listObligations(
+    organizationId: string,
+    authUserId: string,
+    filters: ContractObligationFilters = {},
+  ): Promise<ContractObligation[]> {
+    const payload = await requestOrgEndpoint<{
+      organizationId: string;
+      obligations: ContractObligation[];
+    }>("/api/org/obligations", organizationId, authUserId, { ...filters });
+    return payload.obligations ?? [];
+  }
+
+  static async updateObligationStatus(
+    organizationId: string,
+    authUserId: string,
+    obligationId: string,
+    status: ContractObligationStatus,
+  ): Promise<ContractObligation> {
+    const payload = await mutateOrgEndpoint<{ obligation: ContractObligation }>(
+      `/api/org/obligations/${encodeURIComponent(obligationId)}`,
+      organizationId,
+      authUserId,
+      { method: "PATCH", body: JSON.stringify({ status }) },
+    );
+    return payload.obligation;
+  }
+
+  static async getObligationCalendarFeed(
+    organizationId: string,
+    authUserId: string,
+    scope: ObligationCalendarScope,
+    rotate = false,
+  ): Promise<ObligationCalendarFeed> {
+    const payload = await mutateOrgEndpoint<{ feed: ObligationCalendarFeed }>(
+      "/api/org/obligations/calendar-feed",
+      organizationId,
+      authUserId,
+      { method: "POST", body: JSON.stringify({ scope, rotate }) },
+    );
+    return payload.feed;
+  }
+
+  static async listApiKeys(
+    organizationId: string,
+    authUserId: string,
+  ): Promise<OrgApiKeyListResponse> {
+    return requestOrgEndpoint<OrgApiKeyListResponse>(
+      "/api/org/api-keys",
+      organizationId,
+      authUserId,
+    );
+  }
+
+  /** The returned secret is shown once; only its hash is stored. */
+  static async createApiKey(
+    organizationId: string,
+    authUserId: string,
+    input: OrgApiKeyCreateRequest,
+  ): Promise<OrgApiKeyCreateResponse> {
+    return mutateOrgEndpoint<OrgApiKeyCreateResponse>(
+      "/api/org/api-keys",
+      organizationId,
+      authUserId,
+      { method: "POST", body: JSON.stringify(input) },
+    );
+  }
+
+  static async revokeApiKey(
+    organizationId: string,
+    authUserId: string,
+    keyId: string,
+  ): Promise<OrgApiKey> {
+    const payload = await mutateOrgEndpoint<{ key: OrgApiKey }>(
+      `/api/org/api-keys/${encodeURIComponent(keyId)}/revoke`,
+      organizationId,
+      authUserId,
+      { method: "POST" },
+    );
+    return payload.key;
+  }
+
+  static async listWebhookEndpoints(
+    organizationId: string,
+    authUserId: string,
+  ): Promise<OrgWebhookEndpoint[]> {
+    const payload = await requestOrgEndpoint<{
+      endpoints: OrgWebhookEndpoint[];
+    }>("/api/org/webhooks/endpoints", organizationId, authUserId);
+    return payload.endpoints;
+  }
+
+  /** The returned signing secret is shown once. */
+  static async createWebhookEndpoint(
+    organizationId: string,
+    authUserId: string,
+    input: OrgWebhookEndpointInput,
+  ): Promise<OrgWebhookEndpointCreateResponse> {
+    return mutateOrgEndpoint<OrgWebhookEndpointCreateResponse>(
+      "/api/org/webhooks/endpoints",
+      organizationId,
+      authUserId,
+      { method: "POST", body: JSON.stringify(input) },
+    );
+  }
+
+  static async updateWebhookEndpoint(
+    organizationId: string,
+    authUserId: string,
+    endpointId: string,
+    input: Partial<OrgWebhookEndpointInput>,
+  ): Promise<OrgWebhookEndpoint> {
+    const payload = await mutateOrgEndpoint<{ endpoint: OrgWebhookEndpoint }>(
+      `/api/org/webhooks/endpoints/${encodeURIComponent(endpointId)}`,
+      organizationId,
+      authUserId,
+      { method: "PATCH", body: JSON.stringify(input) },
+    );
+    return payload.endpoint;
+  }
+
+  static async deleteWebhookEndpoint(
+    organizationId: string,
+    authUserId: string,
+    endpointId: string,
+  ): Promise<void> {
+    await mutateOrgEndpoint<void>(
+      `/api/org/webhooks/endpoints/${encodeURIComponent(endpointId)}`,
+      organizationId,
+      authUserId,
+      { method: "DELETE" },
+    );
+  }
+
+  static async rotateWebhookSecret(
+    organizationId: string,
+    authUserId: string,
+    endpointId: string,
+  ): Promise<OrgWebhookEndpointCreateResponse> {
+    return mutateOrgEndpoint<OrgWebhookEndpointCreateResponse>(
+      `/api/org/webhooks/endpoints/${encodeURIComponent(endpointId)}/rotate-secret`,
+      organizationId,
+      authUserId,
+      { method: "POST" },
+    );
+  }
+
+  static async listWebhookDeliveries(
+    organizationId: string,
+    authUserId: string,
+  ): Promise<OrgWebhookDelivery[]> {
+    const payload = await requestOrgEndpoint<{
+      deliveries: OrgWebhookDelivery[];
+    }>("/api/org/webhooks/deliveries", organizationId, authUserId);
+    return payload.deliveries;
+  }
+
+  static async replayWebhookDelivery(
+    organizationId: string,
+    authUserId: string,
+    deliveryId: string,
+  ): Promise<OrgWebhookDelivery> {
+    const payload = await mutateOrgEndpoint<{ delivery: OrgWebhookDelivery }>(
+      `/api/org/webhooks/deliveries/${encodeURIComponent(deliveryId)}/replay`,
+      organizationId,
+      authUserId,
+      { method: "POST" },
+    );
+    return payload.delivery;
+  }
+
+  static async getPrivacySettings(
+    organizationId: string,
+    authUserId: string,
+  ): Promise<OrgPrivacySettings> {
+    const payload = await requestOrgEndpoint<{
+      settings: OrgPrivacySettings;
+    }>("/api/org/privacy", organizationId, authUserId);
+    return payload.settings;
+  }
+
+  static async updatePrivacySettings(
+    organizationId: string,
+    authUserId: string,
+    settings: Partial<OrgPrivacySettings>,
+  ): Promise<OrgPrivacySettings> {
+    const payload = await mutateOrgEndpoint<{ settings: OrgPrivacySettings }>(
+      "/api/org/privacy",
+      organizationId,
+      authUserId,
+      { method: "PATCH", body: JSON.stringify(settings) },
+    );
+    return payload.settings;
+  }
+
+  static async getScoringSettings(
+    organizationId: string,
+    authUserId: string,
+  ): Promise<OrgScoringSettings> {
+    const payload = await requestOrgEndpoint<{
+      settings: OrgScoringSettings;
+    }>("/api/org/scoring", organizationId, authUserId);
+    return payload.settings;
+  }
+
+  static async updateScoringProfile(
+    organizationId: string,
+    authUserId: string,
+    profile: Partial<ScoringProfile> | null,
+  ): Promise<OrgScoringSettings> {
+    const payload = await mutateOrgEndpoint<{ settings: OrgScoringSettings }>(
+      "/api/org/scoring",
+      organizationId,
+      authUserId,
+      { method: "PUT", body: JSON.stringify({ profile }) },
+    );
+    return payload.settings;
+  }
+
+  static async getRetention(
+    organizationId: string,
+    authUserId: string,
+  ): Promise<{
+    settings: OrgRetentionSettings;
+    purges: OrgRetentionPurge[];
+  }> {
+    return requestOrgEndpoint<{
+      settings: OrgRetentionSettings;
+      purges: OrgRetentionPurge[];
+    }>("/api/org/retention", organizationId, authUserId);
+  }
+
+  static async updateLegalHold(
+    organizationId: string,
+    authUserId: string,
+    legalHold: boolean,
+    legalHoldReason?: string | null,
+  ): Promise<OrgRetentionSettings> {
+    const payload = await mutateOrgEndpoint<{
+      settings: OrgRetentionSettings;
+    }>("/api/org/retention", organizationId, authUserId, {
+      method: "PATCH",
+      body: JSON.stringify({ legalHold, legalHoldReason }),
+    });
+    return payload.settings;
+  }
+
+  static async listApprovalChains(
+    organizationId: string,
+    authUserId: string,
+  ): Promise<ApprovalChain[]> {
+    const payload = await requestOrgEndpoint<{ chains: ApprovalChain[] }>(
+      "/api/org/approval-chains",
+      organizationId,
+      authUserId,
+    );
+    return payload.chains ?? [];
+  }
+
+  static async createApprovalChain(
+    organizationId: string,
+    authUserId: string,
+    input: ApprovalChainInput,
+  ): Promise<ApprovalChain> {
+    const payload = await mutateOrgEndpoint<{ chain: ApprovalChain }>(
+      "/api/org/approval-chains",
+      organizationId,
+      authUserId,
+      { method: "POST", body: JSON.stringify(input) },
+    );
+    return payload.chain;
+  }
+
+  static async updateApprovalChain(
+    organizationId: string,
+    authUserId: string,
+    chainId: string,
+    input: Partial<ApprovalChainInput>,
+  ): Promise<ApprovalChain> {
+    const payload = await mutateOrgEndpoint<{ chain: ApprovalChain }>(
+      `/api/org/approval-chains/${encodeURIComponent(chainId)}`,
+      organizationId,
+      authUserId,
+      { method: "PATCH", body: JSON.stringify(input) },
+    );
+    return payload.chain;
+  }
+
+  static async deleteApprovalChain(
+    organizationId: string,
+    authUserId: string,
+    chainId: string,
+  ): Promise<void> {
+    await mutateOrgEndpoint<void>(
+      `/api/org/approval-chains/${encodeURIComponent(chainId)}`,
+      organizationId,
+      authUserId,
+      { method: "DELETE" },
+    );
+  }
+
+  static async getApprovalTrail(
+    organizationId: string,
+    authUserId: string,
+  ): Promise<ApprovalTrailEvent[]> {
+    const payload = await requestOrgEndpoint<{
+      events: ApprovalTrailEvent[];
+    }>("/api/org/approval-trail", organizationId, authUserId);
+    return payload.events ?? [];
+  }
+
   static async listMemberInvites(
     organizationId: string,
     authUserId: string,
@@ -422,6 +830,81 @@ class OrgAdminService {
     return response.invite;
   }
 
+  static async listPlaybooks(
+    organizationId: string,
+    authUserId: string,
+  ): Promise<OrgPlaybook[]> {
+    const payload = await requestOrgEndpoint<{
+      organizationId: string;
+      playbooks: OrgPlaybook[];
+    }>("/api/org/playbooks", organizationId, authUserId);
+
+    return payload.playbooks ?? [];
+  }
+
+  static async savePlaybook(
+    organizationId: string,
+    authUserId: string,
+    playbookId: string | null,
+    payload: SaveOrgPlaybookRequest,
+  ): Promise<OrgPlaybook> {
+    const response = await mutateOrgEndpoint<{ playbook: OrgPlaybook }>(
+      playbookId ? `/api/org/playbooks/${playbookId}` : "/api/org/playbooks",
+      organizationId,
+      authUserId,
+      {
+        method: playbookId ? "PATCH" : "POST",
+        body: JSON.stringify(payload),
+      },
+    );
+
+    return response.playbook;
+  }
+
+  static async deletePlaybook(
+    organizationId: string,
+    authUserId: string,
+    playbookId: string,
+  ): Promise<void> {
+    await mutateOrgEndpoint<void>(
+      `/api/org/playbooks/${playbookId}`,
+      organizationId,
+      authUserId,
+      { method: "DELETE" },
+    );
+  }
+
+  static async listPlaybookVersions(
+    organizationId: string,
+    authUserId: string,
+    playbookId: string,
+  ): Promise<OrgPlaybookVersion[]> {
+    const payload = await requestOrgEndpoint<{
+      versions: OrgPlaybookVersion[];
+    }>(`/api/org/playbooks/${playbookId}/versions`, organizationId, authUserId);
+
+    return payload.versions ?? [];
+  }
+
+  static async restorePlaybookVersion(
+    organizationId: string,
+    authUserId: string,
+    playbookId: string,
+    version: number,
+  ): Promise<OrgPlaybook> {
+    const response = await mutateOrgEndpoint<{ playbook: OrgPlaybook }>(
+      `/api/org/playbooks/${playbookId}/versions/${version}/restore`,
+      organizationId,
+      authUserId,
+      {
+        method: "POST",
+        body: JSON.stringify({}),
+      },
+    );
+
+    return response.playbook;
+  }
+
   static buildCsv(items: OrgComplianceExportItem[]): string {
     const headers = [
       "id",
@@ -468,6 +951,50 @@ class OrgAdminService {
     return [headers.join(","), ...rows].join("\n");
   }
 
+  static buildApprovalTrailCsv(events: ApprovalTrailEvent[]): string {
+    const headers = [
+      "id",
+      "contractId",
+      "contractTitle",
+      "reviewId",
+      "chainName",
+      "stageName",
+      "action",
+      "fromStatus",
+      "toStatus",
+      "actorEmail",
+      "reason",
+      "createdAt",
+    ];
+
+    const escape = (value: unknown) => {
+      if (value == null) return "";
+      const stringValue = String(value).replace(/"/g, '""');
+      return `"${stringValue}"`;
+    };
+
+    const rows = events.map((event) =>
+      [
+        event.id,
+        event.contractId,
+        event.contractTitle,
+        event.reviewId,
+        event.chainName,
+        event.stageName,
+        event.action,
+        event.fromStatus,
+        event.toStatus,
+        event.actorEmail,
+        event.reason,
+        event.createdAt,
+      ]
+        .map(escape)
+        .join(","),
+    );
+
+    return [headers.join(","), ...rows].join("\n");
+  }
+
   static triggerDownload(
     content: string,
     filename: string,
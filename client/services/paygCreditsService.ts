@@ -3,6 +3,7 @@ import type {
   PaygConsumeRequest,
   PaygConsumeResponse,
 } from "@shared/api";
+import { authorizedFetch } from "@/lib/authorizedFetch";
 
 export class PaygCreditsService {
   static async getBalance(
@@ -14,7 +15,7 @@ export class PaygCreditsService {
       params.set("limit", String(options.limit));
     }
 
-    const response = await fetch(`/api/billing/payg/balance?${params.toString()}`);
+    const response = await authorizedFetch(`/api/billing/payg/balance?${params.toString()}`);
 
     if (!response.ok) {
       throw new Error("Failed to load PAYG balance");
@@ -24,7 +25,7 @@ export class PaygCreditsService {
   }
 
   static async consume(request: PaygConsumeRequest): Promise<PaygConsumeResponse> {
-    const response = await fetch("/api/billing/payg/consume", {
+    const response = await authorizedFetch("/api/billing/payg/consume", {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
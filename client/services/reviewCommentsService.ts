@@ -0,0 +1,83 @@
+import type {
+  CreateReviewCommentRequest,
+  ReviewComment,
+  ReviewCommentAuthor,
+  ReviewCommentThread,
+} from "@shared/api";
+import { authorizedFetch } from "@/lib/authorizedFetch";
+
+async function requestCommentsEndpoint<T>(
+  path: string,
+  init: RequestInit = {},
+): Promise<T> {
+  const response = await authorizedFetch(path, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(init.headers ?? {}),
+    },
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    let message = text;
+    try {
+      const parsed = JSON.parse(text);
+      message = parsed?.message || parsed?.error || text;
+    } catch {
+      // keep the raw body
+    }
+    throw new Error(
+      `Request to ${path} failed (${response.status}): ${message}`,
+    );
+  }
+
+  return (await response.json()) as T;
+}
+
+const commentsPath = (reviewId: string) =>
+  `/api/reviews/${encodeURIComponent(reviewId)}/comments`;
+
+export class ReviewCommentsService {
+  static async listThreads(reviewId: string): Promise<ReviewCommentThread[]> {
+    const payload = await requestCommentsEndpoint<{
+      threads: ReviewCommentThread[];
+    }>(commentsPath(reviewId));
+    return payload.threads ?? [];
+  }
+
+  static async listMembers(reviewId: string): Promise<ReviewCommentAuthor[]> {
+    const payload = await requestCommentsEndpoint<{
+      members: ReviewCommentAuthor[];
+    }>(`${commentsPath(reviewId)}/members`);
+    return payload.members ?? [];
+  }
+
+  static async addComment(
+    reviewId: string,
+    request: CreateReviewCommentRequest,
+  ): Promise<ReviewComment> {
+    const payload = await requestCommentsEndpoint<{ comment: ReviewComment }>(
+      commentsPath(reviewId),
+      { method: "POST", body: JSON.stringify(request) },
+    );
+    return payload.comment;
+  }
+
+  static async setResolved(
+    reviewId: string,
+    threadId: string,
+    resolved: boolean,
+  ): Promise<ReviewCommentThread | null> {
+    const payload = await requestCommentsEndpoint<{
+      thread: ReviewCommentThread | null;
+    }>(`${commentsPath(reviewId)}/${encodeURIComponent(threadId)}`, {
+      method: "PATCH",
+      body: JSON.stringify({ resolved }),
+    });
+    return payload.thread;
+  }
+}
+
+export default ReviewCommentsService;
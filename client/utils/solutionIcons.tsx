@@ -2,8 +2,10 @@ import type { ReactNode } from "react";
 import type { LucideIcon } from "lucide-react";
 import {
   Briefcase,
+  Cloud,
   FileKey,
   FileText,
+  Handshake,
   Package,
   Scale,
   ShieldCheck,
@@ -21,6 +23,8 @@ const SOLUTION_ICON_COMPONENTS: Record<SolutionKey, LucideIcon> = {
   psa: Package,
   ca: Briefcase,
   rda: Scale,
+  msa: Handshake,
+  saas: Cloud,
 };
 
 export function getSolutionIcon(
@@ -1,6 +1,7 @@
 export {
   SOLUTION_ALIAS_MAP,
   SOLUTION_DISPLAY_NAMES,
+  contractTypeLabel,
   deriveSolutionKey,
   mapClassificationToSolutionKey,
   solutionKeyToCustomContractType,
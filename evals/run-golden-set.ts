@@ -0,0 +1,252 @@
+// Golden-set evaluation runner (Deno).
+//
+// Replays recorded model responses for each labelled contract through the
+// production review pipeline (runReasoningAnalysis → finalizeReasoningReport →
+// enhanceReportWithClauses) and scores the result, so prompt and reliability
+// changes can be compared offline against the stored baseline.
+//
+//   deno run --allow-read --allow-write --allow-env evals/run-golden-set.ts
+//
+// Options:
+//   --case <id>          Only run the given case (repeatable)
+//   --record             Call the configured live provider and overwrite the
+//                        case recordings (needs --allow-net and API keys)
+//   --update-baseline    Store this run as the new baseline
+//   --tolerance <n>      Allowed metric drop before flagging a regression
+//                        (default 0.005)
+//
+// Writes results/latest.json and results/latest.html under evals/golden-set
+// and exits with status 1 when any metric regresses against the baseline.
+
+import { runReasoningAnalysis } from "../supabase/functions/_shared/reasoningEngine.ts";
+import { extractClausesWithAI } from "../supabase/functions/_shared/aiClauseExtractor.ts";
+import {
+  createLlmProviderRegistry,
+  createRecordingProvider,
+  createReplayProvider,
+  readLlmRoutingConfig,
+  resolveLlmProviderChain,
+  type LlmProviderId,
+  type LlmRecordedResponse,
+} from "../shared/ai/llmProviders.ts";
+import {
+  diffGoldenSetRuns,
+  renderGoldenSetHtml,
+  scoreGoldenSetCase,
+  summariseGoldenSetRun,
+  type GoldenSetCase,
+  type GoldenSetCaseResult,
+  type GoldenSetRun,
+} from "../shared/ai/goldenSet.ts";
+
+type GoldenSetRecording = {
+  caseId: string;
+  recordedAt: string;
+  provider: LlmProviderId;
+  responses: LlmRecordedResponse[];
+};
+
+type Args = {
+  caseIds: string[];
+  record: boolean;
+  updateBaseline: boolean;
+  tolerance?: number;
+};
+
+const REPO_ROOT = new URL("../", import.meta.url);
+const GOLDEN_SET_DIR = new URL("golden-set/", import.meta.url);
+const CASES_DIR = new URL("cases/", GOLDEN_SET_DIR);
+const RECORDINGS_DIR = new URL("recordings/", GOLDEN_SET_DIR);
+const RESULTS_DIR = new URL("results/", GOLDEN_SET_DIR);
+const BASELINE_FILE = new URL("baseline.json", GOLDEN_SET_DIR);
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { caseIds: [], record: false, updateBaseline: false };
+  for (let i = 0; i < argv.length; i += 1) {
+    const token = argv[i];
+    const next = argv[i + 1];
+    switch (token) {
+      case "--case":
+        if (next) {
+          args.caseIds.push(next);
+          i += 1;
+        }
+        break;
+      case "--record":
+        args.record = true;
+        break;
+      case "--update-baseline":
+        args.updateBaseline = true;
+        break;
+      case "--tolerance":
+        if (next && Number.isFinite(Number(next))) {
+          args.tolerance = Number(next);
+          i += 1;
+        }
+        break;
+      default:
+        break;
+    }
+  }
+  return args;
+}
+
+async function readJson<T>(url: URL): Promise<T | null> {
+  try {
+    return JSON.parse(await Deno.readTextFile(url)) as T;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+}
+
+async function writeJson(url: URL, value: unknown) {
+  await Deno.writeTextFile(url, `${JSON.stringify(value, null, 2)}\n`);
+}
+
+async function loadCases(filter: string[]): Promise<GoldenSetCase[]> {
+  const cases: GoldenSetCase[] = [];
+  for await (const entry of Deno.readDir(CASES_DIR)) {
+    if (!entry.isFile || !entry.name.endsWith(".json")) continue;
+    const goldenCase = await readJson<GoldenSetCase>(
+      new URL(entry.name, CASES_DIR),
+    );
+    if (goldenCase && (!filter.length || filter.includes(goldenCase.id))) {
+      cases.push(goldenCase);
+    }
+  }
+  return cases.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+function resolveLiveProviders(sink: LlmRecordedResponse[]) {
+  const getEnv = (key: string) => Deno.env.get(key);
+  return resolveLlmProviderChain(
+    createLlmProviderRegistry(getEnv),
+    readLlmRoutingConfig(getEnv),
+  ).map((provider) => createRecordingProvider(provider, sink));
+}
+
+async function runCase(
+  goldenCase: GoldenSetCase,
+  record: boolean,
+): Promise<GoldenSetCaseResult> {
+  const content = await Deno.readTextFile(
+    new URL(goldenCase.document, REPO_ROOT),
+  );
+  const recordingUrl = new URL(`${goldenCase.id}.json`, RECORDINGS_DIR);
+  const captured: LlmRecordedResponse[] = [];
+  let providers;
+
+  if (record) {
+    providers = resolveLiveProviders(captured);
+  } else {
+    const recording = await readJson<GoldenSetRecording>(recordingUrl);
+    if (!recording?.responses?.length) {
+      return {
+        caseId: goldenCase.id,
+        title: goldenCase.title,
+        status: "skipped",
+        reason: "No recording; run with --record to capture one",
+      };
+    }
+    providers = [createReplayProvider(recording)];
+  }
+
+  const { clauses } = await extractClausesWithAI({
+    content,
+    contractType: goldenCase.playbookKey,
+    filename: goldenCase.document,
+  });
+  const result = await runReasoningAnalysis({
+    content,
+    reviewType: goldenCase.reviewType ?? "compliance",
+    classification: { contractType: goldenCase.playbookKey, confidence: 1 },
+    selectedSolution: { key: goldenCase.playbookKey },
+    filename: goldenCase.document.split("/").pop() ?? goldenCase.document,
+    clauseExtractions: clauses,
+    providers,
+  });
+
+  if (record) {
+    await writeJson(recordingUrl, {
+      caseId: goldenCase.id,
+      recordedAt: new Date().toISOString(),
+      provider: result.provider,
+      responses: captured,
+    } satisfies GoldenSetRecording);
+  }
+
+  return scoreGoldenSetCase(goldenCase, result.report, content);
+}
+
+function formatSummary(run: GoldenSetRun): string {
+  return Object.entries(run.summary)
+    .map(
+      ([metric, value]) =>
+        `  ${metric.padEnd(18)} ${typeof value === "number" ? value.toFixed(3) : "–"}`,
+    )
+    .join("\n");
+}
+
+async function main() {
+  const args = parseArgs(Deno.args);
+  const cases = await loadCases(args.caseIds);
+  if (!cases.length) {
+    console.error("No golden-set cases matched.");
+    Deno.exit(1);
+  }
+
+  const results: GoldenSetCaseResult[] = [];
+  for (const goldenCase of cases) {
+    try {
+      const result = await runCase(goldenCase, args.record);
+      results.push(result);
+      console.log(`${goldenCase.id}: ${result.status}`);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      results.push({
+        caseId: goldenCase.id,
+        title: goldenCase.title,
+        status: "error",
+        reason,
+      });
+      console.error(`${goldenCase.id}: error – ${reason}`);
+    }
+  }
+
+  const run = summariseGoldenSetRun(results);
+  const baseline = await readJson<GoldenSetRun>(BASELINE_FILE);
+  const diff = baseline
+    ? diffGoldenSetRuns(run, baseline, { tolerance: args.tolerance })
+    : null;
+
+  await Deno.mkdir(RESULTS_DIR, { recursive: true });
+  await writeJson(new URL("latest.json", RESULTS_DIR), { run, diff });
+  await Deno.writeTextFile(
+    new URL("latest.html", RESULTS_DIR),
+    renderGoldenSetHtml(run, diff),
+  );
+  if (args.updateBaseline) {
+    await writeJson(BASELINE_FILE, run);
+  }
+
+  console.log(`\nSummary\n${formatSummary(run)}`);
+  if (!diff) {
+    console.log(
+      "\nNo baseline found; run with --update-baseline to store one.",
+    );
+    return;
+  }
+  for (const regression of diff.regressions) {
+    console.log(
+      `REGRESSION ${regression.caseId ?? "summary"} ${regression.metric}: ${
+        regression.baseline ?? "–"
+      } → ${regression.current ?? "–"}`,
+    );
+  }
+  if (diff.regressions.length && !args.updateBaseline) {
+    Deno.exit(1);
+  }
+}
+
+await main();
@@ -15,9 +15,11 @@ import cors from "cors";
 import * as Sentry from "@sentry/node";
 import { handleDemo } from "./routes/demo";
 import { ingestionRouter } from "./routes/ingest";
+import { batchRouter } from "./routes/batch";
 import { classifyRouter } from "./routes/classify";
 import { profileRouter } from "./routes/profile";
 import { agentRouter } from "./routes/agent";
+import { agentThreadsRouter } from "./routes/agentThreads";
 import { orgRouter } from "./routes/org";
 import { adminRouter } from "./routes/admin";
 import { publicRouter } from "./routes/public";
@@ -25,6 +27,10 @@ import { billingRouter, billingWebhookHandler } from "./routes/billing";
 import { adminDashboardRouter } from "./routes/adminDashboard";
 import { enterpriseDashboardRouter } from "./routes/enterpriseDashboard";
 import { exportRouter } from "./routes/export";
+import { publicApiRouter } from "./routes/publicApi";
+import { reviewCommentsRouter } from "./routes/reviewComments";
+import { approvalsRouter } from "./routes/approvals";
+import { contractsRouter } from "./routes/contracts";
 
 let sentryInitialized = false;
 
@@ -79,16 +85,22 @@ export function createServer() {
 
   app.get("/api/demo", handleDemo);
   app.use("/api/ingest", ingestionRouter);
+  app.use("/api/batch", batchRouter);
   app.use("/api/classify", classifyRouter);
   app.use("/api/profile", profileRouter);
+  app.use("/api/agent/threads", agentThreadsRouter);
   app.use("/api/agent", agentRouter);
   app.use("/api/admin/dashboard", adminDashboardRouter);
   app.use("/api/org", orgRouter);
+  app.use("/api/reviews", reviewCommentsRouter);
+  app.use("/api/approvals", approvalsRouter);
+  app.use("/api/contracts", contractsRouter);
   app.use("/api/enterprise/dashboard", enterpriseDashboardRouter);
   app.use("/api/admin", adminRouter);
   app.use("/api/public", publicRouter);
   app.use("/api/billing", billingRouter);
   app.use("/api/export", exportRouter);
+  app.use("/api/v1", publicApiRouter);
 
   const siteOrigin =
     process.env.PUBLIC_SITE_URL ||
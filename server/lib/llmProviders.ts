@@ -0,0 +1,31 @@
+import {
+  createLlmProviderRegistry,
+  readLlmRoutingConfig,
+  resolveLlmProviderChain,
+  type LlmProvider,
+  type LlmProviderId,
+  type LlmProviderRegistry,
+} from "../../shared/ai/llmProviders";
+
+let cachedRegistry: LlmProviderRegistry | null = null;
+
+export function getLlmProviderRegistry(): LlmProviderRegistry {
+  if (!cachedRegistry) {
+    cachedRegistry = createLlmProviderRegistry((key) => process.env[key]);
+  }
+  return cachedRegistry;
+}
+
+/**
+ * Configured providers in the order the server should try them: `pinned` (or
+ * LLM_PRIMARY_PROVIDER) first, then LLM_FAILOVER_ORDER.
+ */
+export function getLlmProviderChain(
+  pinned?: LlmProviderId | null,
+): LlmProvider[] {
+  return resolveLlmProviderChain(
+    getLlmProviderRegistry(),
+    readLlmRoutingConfig((key) => process.env[key]),
+    pinned,
+  );
+}
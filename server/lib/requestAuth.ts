@@ -0,0 +1,99 @@
+import type { NextFunction, Request, Response } from "express";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { UserAccessContext } from "../../shared/api";
+import { getSupabaseAdminClient } from "./supabaseAdmin";
+import { fetchUserAccessContext } from "./userAccess";
+
+export class RequestAuthError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "RequestAuthError";
+  }
+}
+
+export function readBearerToken(req: Request): string | null {
+  const header = req.header("authorization") ?? "";
+  const token = header.replace(/^Bearer\s+/i, "").trim();
+  return token && token !== header.trim() ? token : null;
+}
+
+/**
+ * Verifies the caller's Supabase access token and resolves their access
+ * context onto `res.locals.userAccess`. Identity is never taken from the
+ * request body, query string or custom headers.
+ */
+export function requireUserAccess(
+  getClient: () => SupabaseClient = getSupabaseAdminClient,
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const token = readBearerToken(req);
+    if (!token) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+
+    try {
+      const client = getClient();
+      const { data, error } = await client.auth.getUser(token);
+      if (error || !data?.user) {
+        res.status(401).json({ error: "Invalid or expired session" });
+        return;
+      }
+
+      const access = await fetchUserAccessContext(client, data.user.id);
+      if (!access) {
+        res.status(403).json({ error: "No profile is linked to this account" });
+        return;
+      }
+
+      res.locals.userAccess = access;
+      next();
+    } catch (error) {
+      console.error("[auth] Failed to verify access token", error);
+      res.status(500).json({ error: "Failed to authorize request" });
+    }
+  };
+}
+
+export function getRequestAccess(res: Response): UserAccessContext {
+  const access = res.locals.userAccess as UserAccessContext | undefined;
+  if (!access) {
+    throw new RequestAuthError("Authentication required", 401);
+  }
+  return access;
+}
+
+/**
+ * Resolves the user a billing or ingestion call acts for. Members may only
+ * act for themselves; Maigon admins may name another profile.
+ */
+export function resolveActingUserId(
+  access: UserAccessContext,
+  requested: unknown,
+): string {
+  const requestedId =
+    typeof requested === "string" && requested.trim() ? requested.trim() : null;
+  if (
+    !requestedId ||
+    requestedId === access.profileId ||
+    requestedId === access.authUserId
+  ) {
+    return access.profileId;
+  }
+  if (access.isMaigonAdmin) {
+    return requestedId;
+  }
+  throw new RequestAuthError("You can only act on your own account", 403);
+}
+
+/** Responds for auth failures; returns false when the error is unrelated. */
+export function sendRequestAuthError(res: Response, error: unknown): boolean {
+  if (!(error instanceof RequestAuthError)) {
+    return false;
+  }
+  res.status(error.status).json({ error: error.message });
+  return true;
+}
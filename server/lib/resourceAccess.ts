@@ -0,0 +1,229 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { StorageObjectRef, UserAccessContext } from "../../shared/api";
+import { RequestAuthError } from "./requestAuth";
+import { getSupabaseAdminClient } from "./supabaseAdmin";
+import { DEFAULT_BUCKET } from "../services/storageService";
+
+export interface ResourceOwnership {
+  ownerId: string | null;
+  organizationId: string | null;
+}
+
+/**
+ * Owners, members of the owning organization and Maigon admins may use a
+ * resource. Ingestion rows written before profiles existed carry the auth
+ * user id, so both identifiers count as ownership.
+ */
+export function canAccessResource(
+  access: UserAccessContext,
+  ownership: ResourceOwnership,
+): boolean {
+  if (access.isMaigonAdmin) return true;
+  if (
+    ownership.ownerId &&
+    (ownership.ownerId === access.profileId ||
+      ownership.ownerId === access.authUserId)
+  ) {
+    return true;
+  }
+  return Boolean(
+    access.organizationId && ownership.organizationId === access.organizationId,
+  );
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Missing and foreign resources answer identically so ids cannot be probed.
+function notFound(label: string): RequestAuthError {
+  return new RequestAuthError(`${label} not found`, 404);
+}
+
+function assertWellFormedId(id: unknown, label: string): asserts id is string {
+  if (typeof id !== "string" || !UUID_PATTERN.test(id)) {
+    throw notFound(label);
+  }
+}
+
+async function loadOwnerOrganizationId(
+  client: SupabaseClient,
+  ownerId: string,
+): Promise<string | null> {
+  for (const column of ["id", "auth_user_id"]) {
+    const { data, error } = await client
+      .from("user_profiles")
+      .select("organization_id")
+      .eq(column, ownerId)
+      .maybeSingle();
+    if (error) {
+      throw error;
+    }
+    if (data) {
+      return (data.organization_id as string | null) ?? null;
+    }
+  }
+  return null;
+}
+
+async function assertOwnedRow(
+  client: SupabaseClient,
+  access: UserAccessContext,
+  row: { ownerId: string | null; organizationId?: string | null },
+  label: string,
+): Promise<void> {
+  const ownership: ResourceOwnership = {
+    ownerId: row.ownerId,
+    organizationId: row.organizationId ?? null,
+  };
+  if (canAccessResource(access, ownership)) return;
+  if (!ownership.organizationId && ownership.ownerId && access.organizationId) {
+    ownership.organizationId = await loadOwnerOrganizationId(
+      client,
+      ownership.ownerId,
+    );
+    if (canAccessResource(access, ownership)) return;
+  }
+  throw notFound(label);
+}
+
+export async function assertContractAccess(
+  access: UserAccessContext,
+  contractId: string,
+  client: SupabaseClient = getSupabaseAdminClient(),
+): Promise<void> {
+  assertWellFormedId(contractId, "Contract");
+  const { data, error } = await client
+    .from("contracts")
+    .select("id, user_id, organization_id")
+    .eq("id", contractId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw notFound("Contract");
+  }
+  await assertOwnedRow(
+    client,
+    access,
+    {
+      ownerId: (data.user_id as string | null) ?? null,
+      organizationId: (data.organization_id as string | null) ?? null,
+    },
+    "Contract",
+  );
+}
+
+export async function assertIngestionAccess(
+  access: UserAccessContext,
+  ingestionId: string,
+  client: SupabaseClient = getSupabaseAdminClient(),
+): Promise<void> {
+  assertWellFormedId(ingestionId, "Ingestion");
+  const { data, error } = await client
+    .from("contract_ingestions")
+    .select("id, user_id")
+    .eq("id", ingestionId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw notFound("Ingestion");
+  }
+  await assertOwnedRow(
+    client,
+    access,
+    { ownerId: (data.user_id as string | null) ?? null },
+    "Ingestion",
+  );
+}
+
+async function assertContractChildAccess(
+  access: UserAccessContext,
+  table: string,
+  id: string,
+  label: string,
+  client: SupabaseClient,
+): Promise<void> {
+  assertWellFormedId(id, label);
+  const { data, error } = await client
+    .from(table)
+    .select("id, contract_id")
+    .eq("id", id)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw notFound(label);
+  }
+  try {
+    await assertContractAccess(access, data.contract_id as string, client);
+  } catch (accessError) {
+    if (accessError instanceof RequestAuthError) {
+      throw notFound(label);
+    }
+    throw accessError;
+  }
+}
+
+export async function assertDraftSnapshotAccess(
+  access: UserAccessContext,
+  snapshotId: string,
+  client: SupabaseClient = getSupabaseAdminClient(),
+): Promise<void> {
+  await assertContractChildAccess(
+    access,
+    "contract_draft_snapshots",
+    snapshotId,
+    "Draft",
+    client,
+  );
+}
+
+/** Compose and clause-edit jobs share the contract_draft_jobs table. */
+export async function assertDraftJobAccess(
+  access: UserAccessContext,
+  jobId: string,
+  client: SupabaseClient = getSupabaseAdminClient(),
+): Promise<void> {
+  await assertContractChildAccess(
+    access,
+    "contract_draft_jobs",
+    jobId,
+    "Job",
+    client,
+  );
+}
+
+/**
+ * Stored assets live in the ingestion bucket under
+ * `<prefix>/<contractId|ingestionId>/<file>`, so a caller-supplied reference
+ * is only honoured for that bucket and when that scope is theirs.
+ */
+export async function assertStorageObjectAccess(
+  access: UserAccessContext,
+  ref: StorageObjectRef,
+  client: SupabaseClient = getSupabaseAdminClient(),
+): Promise<void> {
+  if (ref.bucket !== DEFAULT_BUCKET) {
+    throw notFound("File");
+  }
+  const segments = ref.path.split("/");
+  if (segments.some((segment) => segment === ".." || segment === "")) {
+    throw notFound("File");
+  }
+  const scopeId = segments[1];
+  for (const assertScope of [assertContractAccess, assertIngestionAccess]) {
+    try {
+      await assertScope(access, scopeId, client);
+      return;
+    } catch (error) {
+      if (!(error instanceof RequestAuthError)) {
+        throw error;
+      }
+    }
+  }
+  throw notFound("File");
+}
@@ -0,0 +1,332 @@
+// OpenAPI description of the public /api/v1 surface. Served at
+// /api/v1/openapi.json; keep it in step with server/routes/publicApi.ts.
+
+import { CONTRACT_TYPES } from "../../shared/contractTypes";
+
+const errorResponse = {
+  description: "Error",
+  content: {
+    "application/json": {
+      schema: { $ref: "#/components/schemas/Error" },
+    },
+  },
+};
+
+export const publicApiV1OpenApiDocument = {
+  openapi: "3.0.3",
+  info: {
+    title: "Maigon Public API",
+    version: "1.0.0",
+    description:
+      "Submit contracts for review and fetch the structured analysis report. " +
+      "Authenticate with an organization API key created in the organization " +
+      "admin dashboard. Each key is rate limited per minute, and every " +
+      "submitted review counts against the organization's document quota.",
+  },
+  servers: [{ url: "/api/v1" }],
+  security: [{ bearerAuth: [] }],
+  paths: {
+    "/documents": {
+      post: {
+        summary: "Upload a document",
+        description:
+          "Stores the file and extracts its text. Requires the documents:write scope.",
+        operationId: "uploadDocument",
+        requestBody: {
+          required: true,
+          content: {
+            "multipart/form-data": {
+              schema: {
+                type: "object",
+                required: ["file"],
+                properties: {
+                  file: {
+                    type: "string",
+                    format: "binary",
+                    description: "PDF, DOCX or plain text, up to 50 MB.",
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "201": {
+            description: "Document stored and extracted",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Document" },
+              },
+            },
+          },
+          "400": errorResponse,
+          "401": errorResponse,
+          "403": errorResponse,
+          "429": { $ref: "#/components/responses/RateLimited" },
+        },
+      },
+    },
+    "/reviews": {
+      post: {
+        summary: "Start a review",
+        description:
+          "Queues a review of an uploaded document. Requires the reviews:write scope.",
+        operationId: "createReview",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/ReviewRequest" },
+            },
+          },
+        },
+        responses: {
+          "202": {
+            description: "Review accepted",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/ReviewJob" },
+              },
+            },
+          },
+          "400": errorResponse,
+          "401": errorResponse,
+          "402": {
+            description: "Organization document quota reached",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/QuotaError" },
+              },
+            },
+          },
+          "403": errorResponse,
+          "404": errorResponse,
+          "429": { $ref: "#/components/responses/RateLimited" },
+        },
+      },
+    },
+    "/reviews/{reviewJobId}": {
+      get: {
+        summary: "Get review status",
+        description:
+          "Poll until status is completed or failed. Requires the reviews:read scope.",
+        operationId: "getReview",
+        parameters: [{ $ref: "#/components/parameters/ReviewJobId" }],
+        responses: {
+          "200": {
+            description: "Current review status",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/ReviewJob" },
+              },
+            },
+          },
+          "401": errorResponse,
+          "403": errorResponse,
+          "404": errorResponse,
+          "429": { $ref: "#/components/responses/RateLimited" },
+        },
+      },
+    },
+    "/reviews/{reviewJobId}/report": {
+      get: {
+        summary: "Get the review report",
+        description:
+          "Returns the analysis report, validated against the v3 report schema. " +
+          "Requires the reviews:read scope.",
+        operationId: "getReviewReport",
+        parameters: [{ $ref: "#/components/parameters/ReviewJobId" }],
+        responses: {
+          "200": {
+            description: "Completed report",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  required: ["reviewId", "contractId", "report"],
+                  properties: {
+                    reviewId: { type: "string", format: "uuid" },
+                    contractId: { type: "string", format: "uuid" },
+                    report: { $ref: "#/components/schemas/AnalysisReportV3" },
+                  },
+                },
+              },
+            },
+          },
+          "401": errorResponse,
+          "403": errorResponse,
+          "404": errorResponse,
+          "409": errorResponse,
+          "429": { $ref: "#/components/responses/RateLimited" },
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: "http",
+        scheme: "bearer",
+        description: "Organization API key, e.g. `Authorization: Bearer mgn_…`.",
+      },
+    },
+    parameters: {
+      ReviewJobId: {
+        name: "reviewJobId",
+        in: "path",
+        required: true,
+        schema: { type: "string", format: "uuid" },
+      },
+    },
+    responses: {
+      RateLimited: {
+        description: "Per-key rate limit exceeded",
+        headers: {
+          "Retry-After": { schema: { type: "integer" } },
+          "X-RateLimit-Limit": { schema: { type: "integer" } },
+          "X-RateLimit-Remaining": { schema: { type: "integer" } },
+          "X-RateLimit-Reset": {
+            description: "Unix time, in seconds, when the window resets",
+            schema: { type: "integer" },
+          },
+        },
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/Error" },
+          },
+        },
+      },
+    },
+    schemas: {
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: { error: { type: "string" } },
+      },
+      QuotaError: {
+        type: "object",
+        required: ["error", "used", "limit"],
+        properties: {
+          error: { type: "string", enum: ["quota_exceeded"] },
+          message: { type: "string" },
+          used: { type: "integer" },
+          limit: { type: "integer" },
+        },
+      },
+      Document: {
+        type: "object",
+        required: ["documentId", "fileName", "mimeType", "size", "status"],
+        properties: {
+          documentId: { type: "string", format: "uuid" },
+          fileName: { type: "string" },
+          mimeType: { type: "string" },
+          size: { type: "integer" },
+          status: {
+            type: "string",
+            description: "extracted, or needs_ocr when the text layer was empty",
+          },
+          wordCount: { type: "integer", nullable: true },
+          warnings: { type: "array", items: { type: "string" } },
+        },
+      },
+      ReviewRequest: {
+        type: "object",
+        required: ["documentId"],
+        properties: {
+          documentId: { type: "string", format: "uuid" },
+          solutionKey: {
+            type: "string",
+            enum: CONTRACT_TYPES.map((type) => type.key),
+            description: "Omit to classify the document automatically.",
+          },
+          perspective: {
+            type: "string",
+            description: "Party whose interests the review should favour.",
+          },
+          reviewType: {
+            type: "string",
+            enum: [
+              "full_summary",
+              "compliance_score",
+              "risk_assessment",
+              "perspective_review",
+            ],
+            default: "full_summary",
+          },
+        },
+      },
+      ReviewJob: {
+        type: "object",
+        required: ["id", "documentId", "status", "reviewType", "createdAt"],
+        properties: {
+          id: { type: "string", format: "uuid" },
+          documentId: { type: "string", format: "uuid" },
+          status: {
+            type: "string",
+            enum: ["queued", "running", "completed", "failed"],
+          },
+          solutionKey: { type: "string", nullable: true },
+          perspective: { type: "string", nullable: true },
+          reviewType: { type: "string" },
+          contractId: { type: "string", format: "uuid", nullable: true },
+          reviewId: { type: "string", format: "uuid", nullable: true },
+          error: { type: "string", nullable: true },
+          createdAt: { type: "string", format: "date-time" },
+          completedAt: { type: "string", format: "date-time", nullable: true },
+        },
+      },
+      AnalysisReportV3: {
+        type: "object",
+        description:
+          "Structured review report. Mirrors analysisReportV3Schema in shared/ai/reviewSchema.ts.",
+        required: [
+          "version",
+          "generatedAt",
+          "generalInformation",
+          "contractSummary",
+        ],
+        properties: {
+          version: { type: "string", enum: ["v3"] },
+          generatedAt: { type: "string", format: "date-time" },
+          generalInformation: {
+            type: "object",
+            properties: {
+              complianceScore: { type: "number" },
+              selectedPerspective: { type: "string" },
+              reviewTimeSeconds: { type: "number" },
+              timeSavingsMinutes: { type: "number" },
+              reportExpiry: { type: "string" },
+            },
+          },
+          contractSummary: { type: "object", additionalProperties: true },
+          issuesToAddress: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "string" },
+                title: { type: "string" },
+                severity: {
+                  type: "string",
+                  enum: ["critical", "high", "medium", "low", "info"],
+                },
+                recommendation: { type: "string" },
+              },
+              additionalProperties: true,
+            },
+          },
+          criteriaMet: { type: "array", items: { type: "object" } },
+          clauseFindings: { type: "array", items: { type: "object" } },
+          proposedEdits: { type: "array", items: { type: "object" } },
+          playbookInsights: { type: "array", items: { type: "object" } },
+          clauseExtractions: { type: "array", items: { type: "object" } },
+          similarityAnalysis: { type: "array", items: { type: "object" } },
+          deviationInsights: { type: "array", items: { type: "object" } },
+          actionItems: { type: "array", items: { type: "object" } },
+          metadata: { type: "object", additionalProperties: true },
+        },
+        additionalProperties: true,
+      },
+    },
+  },
+} as const;
@@ -2,6 +2,15 @@ import crypto from "node:crypto";
 import express from "express";
 import fetch from "node-fetch";
 import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import {
+  getRequestAccess,
+  requireUserAccess,
+  sendRequestAuthError,
+} from "../lib/requestAuth";
+import {
+  assertContractAccess,
+  assertDraftJobAccess,
+} from "../lib/resourceAccess";
 import {
   buildPatchedHtmlDraft,
   buildPatchedHtmlFromString,
@@ -23,27 +32,53 @@ import type {
   AgentDraftEdit,
   AgentDraftJobStartResponse,
   AgentDraftJobStatusResponse,
+  AgentChatStreamEvents,
   ClauseEditJobStartRequest,
   ClauseEditJobStartResponse,
   ClauseEditJobStatusResponse,
   StorageObjectRef,
+  UserAccessContext,
 } from "../../shared/api";
 import { LEGAL_LANGUAGE_PROMPT_BLOCK } from "../../shared/legalLanguage";
+import {
+  LlmProviderError,
+  runWithLlmFailover,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmProviderId,
+  type LlmRequest,
+  type LlmResponse,
+} from "../../shared/ai/llmProviders";
+import {
+  redactText,
+  restoreRedactionsInJson,
+  summariseRedactions,
+  type RedactionMap,
+} from "../../shared/ai/redaction";
+import {
+  getLlmProviderChain,
+  getLlmProviderRegistry,
+} from "../lib/llmProviders";
+import { resolveContractRedaction } from "../services/orgRedaction";
+import { createAgentContentStream } from "../services/agentChatStream";
 import {
   createDraftJob,
   getDraftJobById,
-  markDraftJobFailed,
-  markDraftJobRunning,
   markDraftJobSucceeded,
 } from "../services/draftJobsRepository";
 import {
   createClauseEditJob,
   getClauseEditJobById,
-  markClauseEditJobFailed,
-  markClauseEditJobRunning,
   markClauseEditJobSucceeded,
   type ClauseEditPayload,
 } from "../services/clauseEditJobsRepository";
+import {
+  NonRetryableJobError,
+  isExternalJobWorkerEnabled,
+  processQueuedJob,
+  type QueueJobHandler,
+  type QueueJobType,
+} from "../services/jobQueue";
 
 interface ClientChatMessage {
   role: "user" | "assistant";
@@ -116,7 +151,7 @@ interface AgentApiResponse {
     content: string;
   };
   proposedEdits: ProposedEdit[];
-  provider: "openai" | "anthropic" | "heuristic";
+  provider: LlmProviderId | "heuristic";
   model: string;
   usage?: {
     inputTokens?: number;
@@ -124,17 +159,6 @@ interface AgentApiResponse {
   };
 }
 
-class ProviderError extends Error {
-  constructor(
-    public provider: "openai" | "anthropic",
-    message: string,
-    public status?: number,
-    public code?: string,
-  ) {
-    super(message);
-  }
-}
-
 class ComposeDraftError extends Error {
   constructor(message: string, public status?: number) {
     super(message);
@@ -158,8 +182,27 @@ interface ComposeDraftResult {
 
 export const agentRouter = express.Router();
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
+agentRouter.use(requireUserAccess());
+
+/**
+ * Runs a resource guard for the verified caller. Responds and returns false
+ * when the caller may not use the resource.
+ */
+async function ensureResourceAccess(
+  res: express.Response,
+  check: (access: UserAccessContext) => Promise<void>,
+): Promise<boolean> {
+  try {
+    await check(getRequestAccess(res));
+    return true;
+  } catch (error) {
+    if (sendRequestAuthError(res, error)) return false;
+    console.error("[agent] Authorization failure", error);
+    res.status(500).json({ error: "Failed to authorize request" });
+    return false;
+  }
+}
+
 const OPENAI_AGENT_MODEL =
   process.env.OPENAI_AGENT_MODEL ?? "gpt-5";
 const GPT5_FALLBACK_MODEL = "gpt-5";
@@ -1172,260 +1215,174 @@ ${quickSuggestions.map((item) => `• ${item}`).join("\n")}`,
   };
 }
 
-function fetchWithTimeout(
-  url: string,
-  options: RequestInit,
-  ms: number | null = AI_TIMEOUT_MS,
-) {
-  const resolvedTimeout =
-    Number.isFinite(ms) && (ms as number) > 0 ? (ms as number) : null;
-  if (!resolvedTimeout) {
-    return fetch(url, options);
-  }
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), resolvedTimeout);
-  return fetch(url, { ...options, signal: controller.signal }).finally(() =>
-    clearTimeout(timer)
-  );
+interface AgentModelCallOptions {
+  context?: {
+    requestId?: string;
+    route?: string;
+    contractId?: string;
+    draftKey?: string;
+  };
+  openAiModel?: string;
+  timeoutMs?: number | null;
+  allowFailover?: boolean;
+  /** Redacts the prompt and restores placeholders in the model output. */
+  redaction?: RedactionMap | null;
+  /**
+   * Streams raw (still redacted) output fragments. `onRestart` fires when a
+   * failover discards what the previous provider had streamed.
+   */
+  stream?: {
+    signal: AbortSignal;
+    onDelta: (text: string) => void;
+    onRestart: (provider: LlmProviderId) => void;
+  };
 }
 
-async function callOpenAI(
-  systemPrompt: string,
-  messages: { role: "user" | "assistant"; content: string }[],
-  context?: { requestId?: string; route?: string; contractId?: string; draftKey?: string },
-  modelOverride?: string,
-  timeoutMs?: number | null,
-): Promise<{
+interface AgentModelCallResult {
   output: string;
+  provider: LlmProviderId;
   model: string;
   usage?: { inputTokens?: number; outputTokens?: number };
-}> {
-  if (!OPENAI_API_KEY) {
-    throw new ProviderError(
-      "openai",
-      "OpenAI API key not configured",
-      undefined,
-      "missing_api_key",
-    );
-  }
-
-  let response: Response;
-  try {
-    const logCtx = {
-      requestId: context?.requestId,
-      route: context?.route,
-      contractId: context?.contractId,
-      draftKey: context?.draftKey,
-    };
-    const resolvedModel = modelOverride ?? OPENAI_AGENT_MODEL;
-    const resolvedTimeoutMs =
-      timeoutMs === null ? null : timeoutMs ?? AI_TIMEOUT_MS;
-    console.info("[agent] openai start", {
-      ...logCtx,
-      model: resolvedModel,
-      timeoutMs: resolvedTimeoutMs,
-      messages: messages.length,
-    });
-    const start = Date.now();
-    response = await fetchWithTimeout(
-      "https://api.openai.com/v1/chat/completions",
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${OPENAI_API_KEY}`,
-        },
-        body: JSON.stringify({
-          model: resolvedModel,
-          // Use provider default temperature to avoid unsupported overrides on newer models
-          // temperature omitted,
-          response_format: { type: "json_object" },
-          max_completion_tokens: 2048,
-          messages: [
-            { role: "system", content: systemPrompt },
-            ...messages,
-          ],
-        }),
-      },
-      resolvedTimeoutMs,
-    );
-    console.info("[agent] openai response", {
-      ...logCtx,
-      status: response.status,
-      durationMs: Date.now() - start,
-    });
-  } catch (error) {
-    if ((error as any)?.name === "AbortError") {
-      throw new ProviderError("openai", "OpenAI request timed out", 504);
-    }
-    console.error("[agent] openai error", {
-      requestId: context?.requestId,
-      route: context?.route,
-      contractId: context?.contractId,
-      draftKey: context?.draftKey,
-      message: error instanceof Error ? error.message : String(error),
-    });
-    throw error;
-  }
-
-  const body = (await response.json()) as any;
+}
 
-  if (!response.ok) {
-    const errorMessage =
-      body?.error?.message ||
-      `OpenAI request failed with status ${response.status}`;
-    throw new ProviderError(
-      "openai",
-      errorMessage,
-      response.status,
-      body?.error?.code,
-    );
+/**
+ * Providers for an agent call. AGENT_FORCE_OPENAI_ONLY (the default) keeps the
+ * agent on the primary provider; otherwise LLM_FAILOVER_ORDER applies and
+ * AGENT_ALLOW_ANTHROPIC still appends Anthropic when it is configured.
+ */
+function resolveAgentProviderChain(allowFailover: boolean): LlmProvider[] {
+  const chain = getLlmProviderChain();
+  if (!allowFailover || FORCE_OPENAI_ONLY) {
+    return chain.slice(0, 1);
+  }
+  const anthropic = getLlmProviderRegistry().anthropic;
+  if (
+    ALLOW_ANTHROPIC &&
+    anthropic.isConfigured() &&
+    !chain.some((provider) => provider.id === "anthropic")
+  ) {
+    chain.push(anthropic);
   }
+  return chain;
+}
 
-  const output =
-    body?.choices?.[0]?.message?.content ??
-    (() => {
-      throw new ProviderError(
-        "openai",
-        "OpenAI response missing content",
-        response.status,
-      );
-    })();
-
-  return {
-    output,
-    model: body?.model ?? modelOverride ?? OPENAI_AGENT_MODEL,
-    usage: body?.usage
-      ? {
-          inputTokens: body.usage.prompt_tokens,
-          outputTokens: body.usage.completion_tokens,
-        }
-      : undefined,
-  };
+function resolveAgentModel(
+  provider: LlmProvider,
+  openAiModel: string | undefined,
+): string {
+  if (provider.id === "openai") return openAiModel ?? OPENAI_AGENT_MODEL;
+  if (provider.id === "anthropic") return ANTHROPIC_AGENT_MODEL;
+  return provider.defaultModel;
 }
 
-async function callAnthropic(
+async function callAgentModel(
   systemPrompt: string,
-  messages: { role: "user" | "assistant"; content: string }[],
-  context?: { requestId?: string; route?: string; contractId?: string; draftKey?: string },
-): Promise<{
-  output: string;
-  model: string;
-  usage?: { inputTokens?: number; outputTokens?: number };
-}> {
-  if (!ANTHROPIC_API_KEY) {
-    throw new ProviderError(
-      "anthropic",
-      "Anthropic API key not configured",
-      undefined,
-      "missing_api_key",
-    );
-  }
-
-  const anthropicMessages = messages.map((message) => ({
-    role: message.role,
-    content: [{ type: "text", text: message.content }],
-  }));
-
-  let response: Response;
-  try {
-    const logCtx = {
-      requestId: context?.requestId,
-      route: context?.route,
-      contractId: context?.contractId,
-      draftKey: context?.draftKey,
-    };
-    console.info("[agent] anthropic start", {
-      ...logCtx,
-      model: ANTHROPIC_AGENT_MODEL,
-      timeoutMs: AI_TIMEOUT_MS,
-      messages: messages.length,
-    });
-    const start = Date.now();
-    response = await fetchWithTimeout(
-      "https://api.anthropic.com/v1/messages",
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-api-key": ANTHROPIC_API_KEY,
-          "anthropic-version": "2023-06-01",
-        },
-        body: JSON.stringify({
-          model: ANTHROPIC_AGENT_MODEL,
-          max_tokens: 2048,
-          max_completion_tokens: 2048,
-          system: systemPrompt,
-          messages: anthropicMessages,
-        }),
-      },
-    );
-    console.info("[agent] anthropic response", {
+  messages: LlmMessage[],
+  options: AgentModelCallOptions = {},
+): Promise<AgentModelCallResult> {
+  const logCtx = {
+    requestId: options.context?.requestId,
+    route: options.context?.route,
+    contractId: options.context?.contractId,
+    draftKey: options.context?.draftKey,
+  };
+  const timeoutMs =
+    options.timeoutMs === null ? null : options.timeoutMs ?? AI_TIMEOUT_MS;
+  const chain = resolveAgentProviderChain(options.allowFailover !== false);
+  const redaction = options.redaction ?? null;
+  const stream = options.stream;
+  const system = redaction ? redactText(systemPrompt, redaction) : systemPrompt;
+  const promptMessages = redaction
+    ? messages.map((message) => ({
+        ...message,
+        content: redactText(message.content, redaction),
+      }))
+    : messages;
+  if (redaction) {
+    console.info("[agent] Redacted prompt", {
       ...logCtx,
-      status: response.status,
-      durationMs: Date.now() - start,
+      categories: summariseRedactions(redaction).categories,
     });
-  } catch (error) {
-    if ((error as any)?.name === "AbortError") {
-      throw new ProviderError("anthropic", "Anthropic request timed out", 504);
-    }
-    console.error("[agent] anthropic error", {
-      requestId: context?.requestId,
-      route: context?.route,
-      contractId: context?.contractId,
-      draftKey: context?.draftKey,
-      message: error instanceof Error ? error.message : String(error),
-    });
-    throw error;
-  }
-
-  const body = (await response.json()) as any;
-
-  if (!response.ok) {
-    const errorMessage =
-      body?.error?.message ||
-      `Anthropic request failed with status ${response.status}`;
-    throw new ProviderError(
-      "anthropic",
-      errorMessage,
-      response.status,
-      body?.error?.type,
-    );
   }
 
-  const textOutput =
-    body?.content?.[0]?.text ??
-    (() => {
-      throw new ProviderError(
-        "anthropic",
-        "Anthropic response missing content",
-        response.status,
-      );
-    })();
-
-  return {
-    output: textOutput,
-    model: body?.model ?? ANTHROPIC_AGENT_MODEL,
-    usage: body?.usage
-      ? {
-          inputTokens: body.usage.input_tokens,
-          outputTokens: body.usage.output_tokens,
+  return runWithLlmFailover(
+    chain,
+    async (provider) => {
+      const model = resolveAgentModel(provider, options.openAiModel);
+      console.info(`[agent] ${provider.id} start`, {
+        ...logCtx,
+        model,
+        timeoutMs,
+        messages: messages.length,
+      });
+      const start = Date.now();
+      try {
+        const request: LlmRequest = {
+          model,
+          system,
+          messages: promptMessages,
+          responseFormat: { type: "json_object" },
+          maxOutputTokens: 2048,
+          timeoutMs,
+        };
+        let response: LlmResponse;
+        if (!stream) {
+          response = await provider.generate(request);
+        } else if (stream.signal.aborted) {
+          throw new LlmProviderError(
+            "agent stream cancelled",
+            provider.id,
+            null,
+            "aborted",
+          );
+        } else if (provider.stream) {
+          response = await provider.stream(
+            { ...request, signal: stream.signal },
+            stream.onDelta,
+          );
+        } else {
+          response = await provider.generate({
+            ...request,
+            signal: stream.signal,
+          });
+          stream.onDelta(response.text);
         }
-      : undefined,
-  };
-}
-
-function shouldFallbackToAnthropic(error: unknown): boolean {
-  if (!ALLOW_ANTHROPIC || !ANTHROPIC_API_KEY) {
-    return false;
-  }
-  if (!(error instanceof ProviderError)) return false;
-  if (error.provider !== "openai") return false;
-  if (error.status === 504) return true;
-  if (error.status === 429) return true;
-  if (error.code === "insufficient_quota" || error.code === "rate_limit_exceeded")
-    return true;
-  return false;
+        console.info(`[agent] ${provider.id} response`, {
+          ...logCtx,
+          status: response.status,
+          durationMs: Date.now() - start,
+        });
+        return {
+          output: redaction
+            ? restoreRedactionsInJson(response.text, redaction)
+            : response.text,
+          provider: provider.id,
+          model: response.model,
+          usage: response.usage
+            ? {
+                inputTokens: response.usage.inputTokens,
+                outputTokens: response.usage.outputTokens,
+              }
+            : undefined,
+        };
+      } catch (error) {
+        console.error(`[agent] ${provider.id} error`, {
+          ...logCtx,
+          status: error instanceof LlmProviderError ? error.status : null,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    },
+    (failed, next) => {
+      console.warn("[agent] Failing over to next provider", {
+        ...logCtx,
+        failed: failed.id,
+        next: next.id,
+      });
+      if (stream && !stream.signal.aborted) stream.onRestart(next.id);
+    },
+  );
 }
 
 function resolveFunctionBaseUrl(): string | null {
@@ -1461,14 +1418,29 @@ async function triggerBackgroundCompose(jobId: string): Promise<void> {
   }
 }
 
-agentRouter.post("/chat", async (req, res) => {
-  const body = req.body as AgentChatRequest;
-  const messages = Array.isArray(body?.messages) ? body.messages : [];
-  if (!messages.length) {
-    res.status(400).json({ error: "messages array is required" });
-    return;
-  }
+type PreparedAgentChat =
+  | { kind: "guardrail"; response: AgentApiResponse }
+  | {
+      kind: "model";
+      systemPrompt: string;
+      conversationMessages: LlmMessage[];
+      context: AgentContextPayload;
+      latestUserMessage: string | undefined;
+      clauseSnippets: Array<{ reference: string; snippet: string }>;
+      forceGpt5: boolean;
+      openAiModel: string;
+      timeoutMs: number | null;
+    };
 
+/**
+ * Builds the prompt for a chat turn, or the guardrail reply when the latest
+ * instruction is too vague to draft edits from. Shared by the JSON and
+ * streaming chat endpoints.
+ */
+async function prepareAgentChat(
+  body: AgentChatRequest,
+): Promise<PreparedAgentChat> {
+  const messages = body.messages;
   const context = body.context ?? {};
   const latestUserMessage = [...messages]
     .reverse()
@@ -1516,16 +1488,18 @@ agentRouter.post("/chat", async (req, res) => {
       :
         "For example: \"Update clause 5.2 to extend the notice period to 45 days.\"";
 
-    res.json({
-      message: {
-        role: "assistant",
-        content: `To draft precise edits, I need a clause or section reference, or the exact text you'd like changed.\n\n${suggestionBlock}`,
+    return {
+      kind: "guardrail",
+      response: {
+        message: {
+          role: "assistant",
+          content: `To draft precise edits, I need a clause or section reference, or the exact text you'd like changed.\n\n${suggestionBlock}`,
+        },
+        proposedEdits: [],
+        provider: "heuristic",
+        model: "guardrail-heuristic-v1",
       },
-      proposedEdits: [],
-      provider: "heuristic",
-      model: "guardrail-heuristic-v1",
-    } satisfies AgentApiResponse);
-    return;
+    };
   }
 
   const systemPrompt = `You are Maigon's contract editing copilot. You assist lawyers and compliance officers in preparing precise contract edits based on analytical findings. Follow these principles:
@@ -1593,59 +1567,69 @@ Contract title: ${contractTitle ?? context.contract?.title ?? "Unknown"}.`;
     preferred: body?.model ?? null,
     forceGpt5,
   });
-  const openAiTimeoutMs = forceGpt5 ? null : AI_TIMEOUT_MS;
 
-  try {
-    let provider: AgentApiResponse["provider"] = "openai";
-    let model = openAiModel;
-    let usage: AgentApiResponse["usage"] | undefined;
+  return {
+    kind: "model",
+    systemPrompt,
+    conversationMessages,
+    context,
+    latestUserMessage,
+    clauseSnippets,
+    forceGpt5,
+    openAiModel,
+    timeoutMs: forceGpt5 ? null : AI_TIMEOUT_MS,
+  };
+}
 
-    let aiOutput: string;
-    try {
-      const result = await callOpenAI(
-        systemPrompt,
-        conversationMessages,
-        undefined,
-        openAiModel,
-        openAiTimeoutMs,
-      );
-      aiOutput = result.output;
-      model = result.model;
-      usage = result.usage;
-    } catch (error) {
-      if (
-        !forceGpt5 &&
-        ALLOW_ANTHROPIC &&
-        !!ANTHROPIC_API_KEY &&
-        shouldFallbackToAnthropic(error)
-      ) {
-        console.warn(
-          "[agent] Falling back to Anthropic due to OpenAI error:",
-          (error as Error).message,
-        );
-        provider = "anthropic";
-        const result = await callAnthropic(systemPrompt, conversationMessages);
-        aiOutput = result.output;
-        model = result.model;
-        usage = result.usage;
-      } else {
-        throw error;
-      }
-    }
+function toAgentApiResponse(result: AgentModelCallResult): AgentApiResponse {
+  const normalized = normalizeAssistantOutput(result.output);
+  return {
+    message: {
+      role: "assistant",
+      content: normalized.content,
+    },
+    proposedEdits: normalized.proposedEdits,
+    provider: result.provider,
+    model: result.model,
+    usage: result.usage,
+  };
+}
 
-    const normalized = normalizeAssistantOutput(aiOutput);
-    res.json({
-      message: {
-        role: "assistant",
-        content: normalized.content,
+agentRouter.post("/chat", async (req, res) => {
+  const body = req.body as AgentChatRequest;
+  if (!Array.isArray(body?.messages) || !body.messages.length) {
+    res.status(400).json({ error: "messages array is required" });
+    return;
+  }
+  if (
+    body.contractId &&
+    !(await ensureResourceAccess(res, (access) =>
+      assertContractAccess(access, body.contractId!),
+    ))
+  ) {
+    return;
+  }
+
+  const prepared = await prepareAgentChat(body);
+  if (prepared.kind === "guardrail") {
+    res.json(prepared.response);
+    return;
+  }
+
+  try {
+    const result = await callAgentModel(
+      prepared.systemPrompt,
+      prepared.conversationMessages,
+      {
+        openAiModel: prepared.openAiModel,
+        timeoutMs: prepared.timeoutMs,
+        allowFailover: !prepared.forceGpt5,
+        redaction: await resolveContractRedaction(body.contractId),
       },
-      proposedEdits: normalized.proposedEdits,
-      provider,
-      model,
-      usage,
-    } satisfies AgentApiResponse);
+    );
+    res.json(toAgentApiResponse(result));
   } catch (error) {
-    if (forceGpt5) {
+    if (prepared.forceGpt5) {
       const message =
         error instanceof Error ? error.message : "AI edit failed.";
       res.status(502).json({ error: message });
@@ -1653,14 +1637,121 @@ Contract title: ${contractTitle ?? context.contract?.title ?? "Unknown"}.`;
     }
     console.error("[agent] AI failure, using heuristic response", error);
     const fallback = summarizeHeuristicResponse(
-      context,
-      latestUserMessage,
-      clauseSnippets,
+      prepared.context,
+      prepared.latestUserMessage,
+      prepared.clauseSnippets,
     );
     res.json(fallback satisfies AgentApiResponse);
   }
 });
 
+/**
+ * Streaming variant of /chat: assistant text is sent as `delta` events while
+ * the model writes it, then a `done` event carries the same payload /chat
+ * would return. Closing the connection cancels the model call.
+ */
+agentRouter.post("/chat/stream", async (req, res) => {
+  const body = req.body as AgentChatRequest;
+  if (!Array.isArray(body?.messages) || !body.messages.length) {
+    res.status(400).json({ error: "messages array is required" });
+    return;
+  }
+  if (
+    body.contractId &&
+    !(await ensureResourceAccess(res, (access) =>
+      assertContractAccess(access, body.contractId!),
+    ))
+  ) {
+    return;
+  }
+
+  const abort = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) abort.abort();
+  });
+
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+
+  const send = <K extends keyof AgentChatStreamEvents>(
+    event: K,
+    data: AgentChatStreamEvents[K],
+  ) => {
+    if (abort.signal.aborted || res.writableEnded) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  const finish = (result: AgentApiResponse) => {
+    send("done", result);
+    res.end();
+  };
+
+  try {
+    const prepared = await prepareAgentChat(body);
+    if (prepared.kind === "guardrail") {
+      send("delta", { text: prepared.response.message.content });
+      finish(prepared.response);
+      return;
+    }
+
+    const redaction = await resolveContractRedaction(body.contractId);
+    const content = createAgentContentStream({
+      redaction,
+      onText: (text) => send("delta", { text }),
+    });
+
+    try {
+      const result = await callAgentModel(
+        prepared.systemPrompt,
+        prepared.conversationMessages,
+        {
+          openAiModel: prepared.openAiModel,
+          timeoutMs: prepared.timeoutMs,
+          allowFailover: !prepared.forceGpt5,
+          redaction,
+          stream: {
+            signal: abort.signal,
+            onDelta: content.push,
+            onRestart: (provider) => {
+              content.reset();
+              send("reset", { provider });
+            },
+          },
+        },
+      );
+      finish(toAgentApiResponse(result));
+    } catch (error) {
+      if (abort.signal.aborted) {
+        console.info("[agent] Chat stream cancelled by client");
+        return;
+      }
+      if (prepared.forceGpt5) {
+        send("error", {
+          error: error instanceof Error ? error.message : "AI edit failed.",
+        });
+        res.end();
+        return;
+      }
+      console.error("[agent] AI failure, using heuristic response", error);
+      const fallback = summarizeHeuristicResponse(
+        prepared.context,
+        prepared.latestUserMessage,
+        prepared.clauseSnippets,
+      );
+      send("reset", { provider: fallback.provider });
+      send("delta", { text: fallback.message.content });
+      finish(fallback);
+    }
+  } catch (error) {
+    console.error("[agent] Chat stream failure", error);
+    send("error", { error: "Failed to stream agent response" });
+    res.end();
+  }
+});
+
 async function composeDraft(
   body: AgentDraftRequest,
   options: ComposeDraftOptions = {},
@@ -1931,37 +2022,20 @@ async function composeDraft(
     draftKey,
     jobId: options.jobId,
   };
-  const allowAnthropic = ALLOW_ANTHROPIC && !!ANTHROPIC_API_KEY;
   console.info("[agent] compose provider selection", {
     ...logCtx,
     forceOpenAI: FORCE_OPENAI_ONLY,
-    allowAnthropic,
+    allowAnthropic: ALLOW_ANTHROPIC,
   });
 
-  let provider: AgentDraftResponse["provider"] = "openai";
-  let model = OPENAI_AGENT_MODEL;
-  let output: string;
-
-  try {
-    const result = await callOpenAI(systemPrompt, messages, {
-      ...logCtx,
-      route: "compose",
-    });
-    output = result.output;
-    model = result.model;
-  } catch (error) {
-    if (allowAnthropic && shouldFallbackToAnthropic(error)) {
-      provider = "anthropic";
-      const result = await callAnthropic(systemPrompt, messages, {
-        ...logCtx,
-        route: "compose",
-      });
-      output = result.output;
-      model = result.model;
-    } else {
-      throw error;
-    }
-  }
+  const { output, provider, model } = await callAgentModel(
+    systemPrompt,
+    messages,
+    {
+      context: { ...logCtx, route: "compose" },
+      redaction: await resolveContractRedaction(body.contractId),
+    },
+  );
 
   const normalized = normalizeDraftResponse(
     output,
@@ -2095,6 +2169,14 @@ async function composeDraft(
 
 agentRouter.post("/compose", async (req, res) => {
   const body = req.body as AgentDraftRequest;
+  if (
+    body?.contractId &&
+    !(await ensureResourceAccess(res, (access) =>
+      assertContractAccess(access, body.contractId),
+    ))
+  ) {
+    return;
+  }
   try {
     const result = await composeDraft(body, { requestId: crypto.randomUUID() });
     res.json(result.response);
@@ -2117,6 +2199,13 @@ agentRouter.post("/compose/start", async (req, res) => {
     res.status(400).json({ error: "contractId is required" });
     return;
   }
+  if (
+    !(await ensureResourceAccess(res, (access) =>
+      assertContractAccess(access, body.contractId),
+    ))
+  ) {
+    return;
+  }
 
   try {
     const job = await createDraftJob({
@@ -2133,7 +2222,9 @@ agentRouter.post("/compose/start", async (req, res) => {
     });
 
     const hasBackgroundBase = resolveFunctionBaseUrl();
-    if (hasBackgroundBase) {
+    if (isExternalJobWorkerEnabled()) {
+      // Picked up by the standalone queue worker (server/worker.ts).
+    } else if (hasBackgroundBase) {
       triggerBackgroundCompose(job.id).catch(() => {
         // Fire-and-forget; errors are logged inside triggerBackgroundCompose
       });
@@ -2166,6 +2257,13 @@ agentRouter.get("/compose/status/:jobId", async (req, res) => {
     res.status(400).json({ error: "jobId is required" });
     return;
   }
+  if (
+    !(await ensureResourceAccess(res, (access) =>
+      assertDraftJobAccess(access, jobId),
+    ))
+  ) {
+    return;
+  }
 
   try {
     const job = await getDraftJobById(jobId);
@@ -2181,6 +2279,8 @@ agentRouter.get("/compose/status/:jobId", async (req, res) => {
       contractId: job.contractId,
       result: job.result ?? undefined,
       updatedAt: job.updatedAt,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
     };
 
     if (job.status === "failed") {
@@ -2194,45 +2294,53 @@ agentRouter.get("/compose/status/:jobId", async (req, res) => {
   }
 });
 
-export async function processDraftJob(jobId: string): Promise<void> {
+async function runDraftJob(
+  jobId: string,
+  workerId: string,
+): Promise<void> {
   const job = await getDraftJobById(jobId);
   if (!job) {
-    throw new Error("Draft job not found");
-  }
-
-  if (job.status === "running") {
-    return;
-  }
-
-  if (job.status === "succeeded" || job.status === "failed") {
-    return;
+    throw new NonRetryableJobError("Draft job not found");
   }
 
   if (!job.payload) {
-    await markDraftJobFailed(job.id, "Job payload missing");
-    throw new Error("Draft job payload missing");
+    throw new NonRetryableJobError("Job payload missing");
   }
 
-  await markDraftJobRunning(job.id);
-
+  let result: ComposeDraftResult;
   try {
-    const result = await composeDraft(job.payload, {
+    result = await composeDraft(job.payload, {
       requestId: job.id,
       draftKeyOverride: job.draftKey,
       jobId: job.id,
     });
-
-    await markDraftJobSucceeded({
-      id: job.id,
-      draftKey: result.draftKey,
-      resultSnapshotId: result.snapshotId,
-      result: result.response,
-    });
   } catch (error) {
-    const message = error instanceof Error ? error.message : "Unknown error";
-    await markDraftJobFailed(job.id, message);
+    if (
+      error instanceof ComposeDraftError &&
+      error.status &&
+      error.status < 500
+    ) {
+      throw new NonRetryableJobError(error.message);
+    }
     throw error;
   }
+
+  await markDraftJobSucceeded({
+    id: job.id,
+    workerId,
+    draftKey: result.draftKey,
+    resultSnapshotId: result.snapshotId,
+    result: result.response,
+  });
+}
+
+export async function processDraftJob(jobId: string): Promise<void> {
+  const job = await getDraftJobById(jobId);
+  if (!job) {
+    throw new Error("Draft job not found");
+  }
+
+  await processQueuedJob(job.id, "compose", runDraftJob);
 }
 
 async function triggerBackgroundClauseEdit(jobId: string): Promise<void> {
@@ -2258,94 +2366,85 @@ async function triggerBackgroundClauseEdit(jobId: string): Promise<void> {
   }
 }
 
-export async function processClauseEditJob(jobId: string): Promise<void> {
+async function runClauseEditJob(
+  jobId: string,
+  workerId: string,
+): Promise<void> {
   const job = await getClauseEditJobById(jobId);
   if (!job) {
-    throw new Error("Clause edit job not found");
-  }
-
-  if (job.status === "running") {
-    return;
-  }
-
-  if (job.status === "succeeded" || job.status === "failed") {
-    return;
+    throw new NonRetryableJobError("Clause edit job not found");
   }
 
   if (!job.payload) {
-    await markClauseEditJobFailed(job.id, "Job payload missing");
-    throw new Error("Clause edit job payload missing");
+    throw new NonRetryableJobError("Job payload missing");
   }
 
-  await markClauseEditJobRunning(job.id);
+  const payload = job.payload;
 
-  try {
-    const payload = job.payload;
-
-    const supabase = getSupabaseAdminClient();
-    let contractContent: string | null = null;
-    let contractTitle: string | null = payload.context.contract.title;
+  const supabase = getSupabaseAdminClient();
+  let contractContent: string | null = null;
+  let contractTitle: string | null = payload.context.contract.title;
 
-    if (payload.contractId) {
-      try {
-        const { data, error } = await supabase
-          .from("contracts")
-          .select("content, title")
-          .eq("id", payload.contractId)
-          .single();
-        if (error) {
-          console.warn("[agent] Failed to fetch contract content for clause edit", error);
-        } else {
-          contractContent = data?.content ?? null;
-          if (!contractTitle && data?.title) {
-            contractTitle = data.title;
-          }
+  if (payload.contractId) {
+    try {
+      const { data, error } = await supabase
+        .from("contracts")
+        .select("content, title")
+        .eq("id", payload.contractId)
+        .single();
+      if (error) {
+        console.warn("[agent] Failed to fetch contract content for clause edit", error);
+      } else {
+        contractContent = data?.content ?? null;
+        if (!contractTitle && data?.title) {
+          contractTitle = data.title;
         }
-      } catch (error) {
-        console.warn("[agent] Unexpected contract fetch error", error);
       }
+    } catch (error) {
+      console.warn("[agent] Unexpected contract fetch error", error);
     }
+  }
 
-    const clauseSnippets = extractClauseSnippets(contractContent, payload.clauseEvidence);
+  const clauseSnippets = extractClauseSnippets(contractContent, payload.clauseEvidence);
 
-    const instructions = [
-      "Rewrite the updated clause below based on the reviewer instruction.",
-      "Return a single proposed edit with suggestedText containing the full revised clause.",
-      "Use final contractual language only (no analysis or commentary).",
-    ].join(" ");
+  const instructions = [
+    "Rewrite the updated clause below based on the reviewer instruction.",
+    "Return a single proposed edit with suggestedText containing the full revised clause.",
+    "Use final contractual language only (no analysis or commentary).",
+  ].join(" ");
 
-    const userContent = [
-      instructions,
-      `Reviewer instruction: ${payload.prompt}`,
-      payload.clauseTitle ? `Clause title: ${payload.clauseTitle}` : null,
-      "Current updated clause:",
-      payload.updatedText,
-      payload.originalText ? "Original clause excerpt:" : null,
-      payload.originalText || null,
-    ]
-      .filter(Boolean)
-      .join("\n\n");
+  const userContent = [
+    instructions,
+    `Reviewer instruction: ${payload.prompt}`,
+    payload.clauseTitle ? `Clause title: ${payload.clauseTitle}` : null,
+    "Current updated clause:",
+    payload.updatedText,
+    payload.originalText ? "Original clause excerpt:" : null,
+    payload.originalText || null,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
 
-    const clauseSummary = clauseSnippets
-      .slice(0, 6)
-      .map(
-        (clause, idx) =>
-          `Clause ${idx + 1}: ${clause.reference}\n${clause.snippet}`,
-      )
-      .join("\n\n");
+  const clauseSummary = clauseSnippets
+    .slice(0, 6)
+    .map(
+      (clause, idx) =>
+        `Clause ${idx + 1}: ${clause.reference}\n${clause.snippet}`,
+    )
+    .join("\n\n");
 
-    const jsonInstruction = buildJsonInstruction();
+  const jsonInstruction = buildJsonInstruction();
 
-    const fullUserContent = [
-      userContent,
-      "",
-      clauseSummary ? `Relevant clause excerpts:\n${clauseSummary}` : "",
-      jsonInstruction,
-    ]
-      .filter(Boolean)
-      .join("\n\n");
+  const fullUserContent = [
+    userContent,
+    "",
+    clauseSummary ? `Relevant clause excerpts:\n${clauseSummary}` : "",
+    jsonInstruction,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
 
-    const systemPrompt = `You are Maigon's contract editing copilot. You assist lawyers and compliance officers in preparing precise contract edits based on analytical findings. Follow these principles:
+  const systemPrompt = `You are Maigon's contract editing copilot. You assist lawyers and compliance officers in preparing precise contract edits based on analytical findings. Follow these principles:
 - Reference the contract context provided below.
 - Use the supplied clause excerpts and recommendations when crafting edits.
 - Align changes with the contract type and severity indicators.
@@ -2355,48 +2454,58 @@ export async function processClauseEditJob(jobId: string): Promise<void> {
 
 Contract title: ${contractTitle ?? "Unknown"}.`;
 
-    const conversationMessages = [
-      { role: "user" as const, content: fullUserContent },
-    ];
+  const conversationMessages = [
+    { role: "user" as const, content: fullUserContent },
+  ];
 
-    const openAiModel = resolveOpenAiModel({
-      preferred: "gpt-5",
-      forceGpt5: true,
-    });
+  const openAiModel = resolveOpenAiModel({
+    preferred: "gpt-5",
+    forceGpt5: true,
+  });
 
-    const result = await callOpenAI(
-      systemPrompt,
-      conversationMessages,
-      { requestId: job.id, contractId: payload.contractId },
-      openAiModel,
-      null, // No timeout - background function has extended timeout
-    );
+  const result = await callAgentModel(systemPrompt, conversationMessages, {
+    context: { requestId: job.id, contractId: payload.contractId },
+    openAiModel,
+    timeoutMs: null, // No timeout - background function has extended timeout
+    allowFailover: false,
+    redaction: await resolveContractRedaction(payload.contractId),
+  });
 
-    const normalized = normalizeAssistantOutput(result.output);
-    const suggestedText =
-      normalized.proposedEdits.find(
-        (edit) => typeof edit.suggestedText === "string",
-      )?.suggestedText ?? null;
+  const normalized = normalizeAssistantOutput(result.output);
+  const suggestedText =
+    normalized.proposedEdits.find(
+      (edit) => typeof edit.suggestedText === "string",
+    )?.suggestedText ?? null;
 
-    if (!suggestedText || !suggestedText.trim()) {
-      const fallbackMessage = normalized.content?.trim();
-      throw new Error(fallbackMessage || "AI did not return a revised clause.");
-    }
+  if (!suggestedText || !suggestedText.trim()) {
+    const fallbackMessage = normalized.content?.trim();
+    throw new Error(fallbackMessage || "AI did not return a revised clause.");
+  }
 
-    await markClauseEditJobSucceeded({
-      id: job.id,
-      result: {
-        suggestedText: suggestedText.trim(),
-        prompt: payload.prompt,
-      },
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : "Unknown error";
-    await markClauseEditJobFailed(job.id, message);
-    throw error;
+  await markClauseEditJobSucceeded({
+    id: job.id,
+    workerId,
+    result: {
+      suggestedText: suggestedText.trim(),
+      prompt: payload.prompt,
+    },
+  });
+}
+
+export async function processClauseEditJob(jobId: string): Promise<void> {
+  const job = await getClauseEditJobById(jobId);
+  if (!job) {
+    throw new Error("Clause edit job not found");
   }
+
+  await processQueuedJob(job.id, "clause_edit", runClauseEditJob);
 }
 
+export const agentJobHandlers: Record<QueueJobType, QueueJobHandler> = {
+  compose: runDraftJob,
+  clause_edit: runClauseEditJob,
+};
+
 agentRouter.post("/clause-edit/start", async (req, res) => {
   const body = req.body as ClauseEditJobStartRequest;
   if (!body?.contractId) {
@@ -2411,6 +2520,13 @@ agentRouter.post("/clause-edit/start", async (req, res) => {
     res.status(400).json({ error: "prompt is required" });
     return;
   }
+  if (
+    !(await ensureResourceAccess(res, (access) =>
+      assertContractAccess(access, body.contractId),
+    ))
+  ) {
+    return;
+  }
 
   try {
     const payload: ClauseEditPayload = {
@@ -2441,7 +2557,9 @@ agentRouter.post("/clause-edit/start", async (req, res) => {
     });
 
     const hasBackgroundBase = resolveFunctionBaseUrl();
-    if (hasBackgroundBase) {
+    if (isExternalJobWorkerEnabled()) {
+      // Picked up by the standalone queue worker (server/worker.ts).
+    } else if (hasBackgroundBase) {
       triggerBackgroundClauseEdit(job.id).catch(() => {
         // Fire-and-forget; errors are logged inside triggerBackgroundClauseEdit
       });
@@ -2474,6 +2592,13 @@ agentRouter.get("/clause-edit/status/:jobId", async (req, res) => {
     res.status(400).json({ error: "jobId is required" });
     return;
   }
+  if (
+    !(await ensureResourceAccess(res, (access) =>
+      assertDraftJobAccess(access, jobId),
+    ))
+  ) {
+    return;
+  }
 
   try {
     const job = await getClauseEditJobById(jobId);
@@ -2491,6 +2616,8 @@ agentRouter.get("/clause-edit/status/:jobId", async (req, res) => {
       itemId,
       result: job.result ?? undefined,
       updatedAt: job.updatedAt,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
     };
 
     if (job.status === "failed") {
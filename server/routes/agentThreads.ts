@@ -0,0 +1,134 @@
+import express, { type Response } from "express";
+import { getRequestAccess, requireUserAccess } from "../lib/requestAuth";
+import {
+  AgentChatThreadError,
+  acceptAgentChatEdit,
+  appendAgentChatMessages,
+  createAgentChatThread,
+  deleteAgentChatThread,
+  getAgentChatThread,
+  listAgentChatThreads,
+  parseAgentChatMessages,
+  updateAgentChatThread,
+} from "../services/agentChatThreads";
+import type { UpdateAgentChatThreadRequest } from "../../shared/api";
+
+export const agentThreadsRouter = express.Router();
+
+agentThreadsRouter.use(requireUserAccess());
+
+function sendThreadError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof AgentChatThreadError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  console.error(`[agent-threads] ${fallback}`, error);
+  res.status(500).json({ error: fallback });
+}
+
+agentThreadsRouter.get("/", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  const contractId =
+    typeof req.query.contractId === "string" ? req.query.contractId : "";
+  if (!contractId) {
+    res.status(400).json({ error: "contractId is required" });
+    return;
+  }
+
+  try {
+    const threads = await listAgentChatThreads(access, contractId);
+    res.json({ threads });
+  } catch (error) {
+    sendThreadError(res, error, "Failed to load conversations");
+  }
+});
+
+agentThreadsRouter.post("/", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  try {
+    const thread = await createAgentChatThread(
+      access,
+      req.body?.contractId,
+      req.body?.title,
+    );
+    res.status(201).json({ thread });
+  } catch (error) {
+    sendThreadError(res, error, "Failed to start conversation");
+  }
+});
+
+agentThreadsRouter.get("/:threadId", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  try {
+    res.json(await getAgentChatThread(access, req.params.threadId));
+  } catch (error) {
+    sendThreadError(res, error, "Failed to load conversation");
+  }
+});
+
+agentThreadsRouter.patch("/:threadId", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  const body = (req.body ?? {}) as UpdateAgentChatThreadRequest;
+  try {
+    const thread = await updateAgentChatThread(access, req.params.threadId, {
+      title: body.title,
+      sharedWithOrg: body.sharedWithOrg,
+    });
+    res.json({ thread });
+  } catch (error) {
+    sendThreadError(res, error, "Failed to update conversation");
+  }
+});
+
+agentThreadsRouter.delete("/:threadId", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  try {
+    await deleteAgentChatThread(access, req.params.threadId);
+    res.json({ success: true });
+  } catch (error) {
+    sendThreadError(res, error, "Failed to delete conversation");
+  }
+});
+
+agentThreadsRouter.post("/:threadId/messages", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  const parsed = parseAgentChatMessages(req.body?.messages);
+  if ("error" in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+
+  try {
+    const messages = await appendAgentChatMessages(
+      access,
+      req.params.threadId,
+      parsed.messages,
+    );
+    res.status(201).json({ messages });
+  } catch (error) {
+    sendThreadError(res, error, "Failed to save messages");
+  }
+});
+
+agentThreadsRouter.post("/:threadId/accepted-edits", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  try {
+    await acceptAgentChatEdit(
+      access,
+      req.params.threadId,
+      req.body?.messageId,
+      req.body?.editId,
+      req.body?.reviewId,
+    );
+    res.status(201).json({ success: true });
+  } catch (error) {
+    sendThreadError(res, error, "Failed to accept edit");
+  }
+});
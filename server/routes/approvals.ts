@@ -0,0 +1,86 @@
+import express, { type Response } from "express";
+import { getRequestAccess, requireUserAccess } from "../lib/requestAuth";
+import {
+  ApprovalWorkflowError,
+  decideContractApproval,
+  getContractApprovalState,
+  listApprovalInbox,
+  submitContractForApproval,
+} from "../services/contractApprovals";
+
+export const approvalsRouter = express.Router();
+
+approvalsRouter.use(requireUserAccess());
+
+function sendWorkflowError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ApprovalWorkflowError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  console.error(`[approvals] ${fallback}`, error);
+  res.status(500).json({ error: fallback });
+}
+
+approvalsRouter.get("/inbox", async (_req, res) => {
+  const access = getRequestAccess(res);
+
+  try {
+    const items = await listApprovalInbox(access);
+    res.json({ items });
+  } catch (error) {
+    console.error("[approvals] Inbox failure", error);
+    res.status(500).json({ error: "Failed to load approval inbox" });
+  }
+});
+
+approvalsRouter.get("/contracts/:contractId", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  try {
+    const state = await getContractApprovalState(req.params.contractId, access);
+    if (!state) {
+      res.status(404).json({ error: "Contract not found" });
+      return;
+    }
+    res.json({ state });
+  } catch (error) {
+    console.error("[approvals] State failure", error);
+    res.status(500).json({ error: "Failed to load approval status" });
+  }
+});
+
+approvalsRouter.post("/contracts/:contractId/submit", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  try {
+    const state = await submitContractForApproval(
+      req.params.contractId,
+      access,
+    );
+    res.json({ state });
+  } catch (error) {
+    sendWorkflowError(res, error, "Failed to submit for approval");
+  }
+});
+
+approvalsRouter.post("/contracts/:contractId/decision", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  const decision = req.body?.decision;
+  if (decision !== "approve" && decision !== "reject") {
+    res.status(400).json({ error: "decision must be approve or reject" });
+    return;
+  }
+
+  try {
+    const state = await decideContractApproval(
+      req.params.contractId,
+      access,
+      decision,
+      req.body?.reason,
+    );
+    res.json({ state });
+  } catch (error) {
+    sendWorkflowError(res, error, "Failed to record decision");
+  }
+});
@@ -0,0 +1,380 @@
+import type { Request, Response } from "express";
+import express from "express";
+import multer from "multer";
+import crypto from "node:crypto";
+import path from "node:path";
+import fs from "node:fs";
+import os from "node:os";
+import {
+  removeLocalFile,
+  uploadBufferToStorage,
+} from "../services/storageService";
+import { createIngestionRecord } from "../services/ingestionRepository";
+import {
+  MAX_BATCH_DOCUMENTS,
+  listBatchDocuments,
+} from "../services/batchArchiveService";
+import {
+  cancelReviewBatch,
+  claimReviewBatchItemCredit,
+  completeReviewBatchItem,
+  createReviewBatch,
+  getReviewBatch,
+  listReviewBatches,
+  releaseReviewBatchItemCredit,
+  updateReviewBatchItem,
+} from "../services/reviewBatchRepository";
+import {
+  applyPaygCreditDelta,
+  checkPaygAllowance,
+} from "../services/paygCredits";
+import { getRequestAccess, requireUserAccess } from "../lib/requestAuth";
+import type {
+  ReviewBatchItemCompleteRequest,
+  ReviewBatchItemStatus,
+  ReviewBatchItemUpdateRequest,
+} from "../../shared/api";
+
+const uploadDirectory = path.join(os.tmpdir(), "batch-uploads");
+fs.mkdirSync(uploadDirectory, { recursive: true });
+
+const uploader = multer({
+  storage: multer.diskStorage({
+    destination: (_req, _file, cb) => {
+      cb(null, uploadDirectory);
+    },
+    filename: (_req, file, cb) => {
+      cb(null, `${Date.now()}-${crypto.randomUUID()}${path.extname(file.originalname)}`);
+    },
+  }),
+  limits: { fileSize: 250 * 1024 * 1024, files: MAX_BATCH_DOCUMENTS },
+});
+
+const CLIENT_ITEM_STATUSES: ReviewBatchItemStatus[] = [
+  "extracting",
+  "classifying",
+  "reviewing",
+  "failed",
+];
+
+export const batchRouter = express.Router();
+
+batchRouter.use(requireUserAccess());
+
+batchRouter.post(
+  "/",
+  uploader.array("files", MAX_BATCH_DOCUMENTS),
+  async (req: Request, res: Response) => {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+
+    try {
+      const access = getRequestAccess(res);
+
+      if (!files.length) {
+        res.status(400).json({ error: "At least one file is required" });
+        return;
+      }
+
+      const reviewType =
+        typeof req.body?.reviewType === "string" && req.body.reviewType.trim()
+          ? req.body.reviewType.trim()
+          : "full_summary";
+      const perspective =
+        typeof req.body?.perspective === "string" && req.body.perspective.trim()
+          ? req.body.perspective.trim()
+          : null;
+
+      const { documents, skipped } = await listBatchDocuments(
+        files.map((file) => ({
+          path: file.path,
+          originalname: file.originalname,
+          mimetype: file.mimetype,
+          size: file.size,
+        })),
+      );
+
+      if (!documents.length) {
+        res.status(400).json({
+          error: "No supported documents found",
+          skipped,
+        });
+        return;
+      }
+
+      const allowance = await checkPaygAllowance(access.profileId);
+      if (
+        allowance.planType === "pay_as_you_go" &&
+        allowance.balance < documents.length
+      ) {
+        res.status(402).json({
+          error: "payg_insufficient_credits",
+          message: `This batch needs ${documents.length} review credits but only ${allowance.balance} remain.`,
+        });
+        return;
+      }
+
+      console.info("[batch] Upload started", {
+        profileId: access.profileId,
+        documents: documents.length,
+        skipped: skipped.length,
+      });
+
+      // Sequential on purpose: keeps at most one inflated archive entry in memory.
+      const stored: Array<{
+        fileName: string;
+        ingestionId: string | null;
+        status?: ReviewBatchItemStatus;
+        error?: string | null;
+      }> = [];
+      for (const document of documents) {
+        const ingestionId = crypto.randomUUID();
+        try {
+          const buffer = await document.read();
+          const storageResult = await uploadBufferToStorage({
+            buffer,
+            fileName: path.basename(document.fileName),
+            ingestionId,
+            contentType: document.contentType,
+            prefix: "raw",
+          });
+          await createIngestionRecord({
+            ingestionId,
+            storageBucket: storageResult.bucket,
+            storagePath: storageResult.path,
+            originalName: path.basename(document.fileName),
+            mimeType: document.contentType,
+            fileSize: buffer.length,
+            userId: access.profileId,
+          });
+          stored.push({ fileName: document.fileName, ingestionId });
+        } catch (error) {
+          console.warn("[batch] Document upload failed", {
+            fileName: document.fileName,
+            message: error instanceof Error ? error.message : String(error),
+          });
+          stored.push({
+            fileName: document.fileName,
+            ingestionId: null,
+            status: "failed",
+            error: "Upload failed",
+          });
+        }
+      }
+
+      const batch = await createReviewBatch({
+        userId: access.profileId,
+        organizationId: access.organizationId,
+        name:
+          typeof req.body?.name === "string" && req.body.name.trim()
+            ? req.body.name.trim().slice(0, 200)
+            : files.length === 1
+              ? files[0].originalname
+              : `Batch of ${documents.length} documents`,
+        reviewType,
+        perspective,
+        documents: [
+          ...stored,
+          ...skipped.map((item) => ({
+            fileName: item.fileName,
+            ingestionId: null,
+            status: "skipped" as const,
+            error: item.reason,
+          })),
+        ],
+      });
+
+      res.status(201).json({ batch });
+    } catch (error) {
+      console.error("[batch] Batch creation failure", error);
+      res.status(500).json({ error: "Failed to create review batch" });
+    } finally {
+      await Promise.all(files.map((file) => removeLocalFile(file.path)));
+    }
+  },
+);
+
+batchRouter.get("/", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  try {
+    const batches = await listReviewBatches(access.profileId);
+    res.json({ batches });
+  } catch (error) {
+    console.error("[batch] Batch list failure", error);
+    res.status(500).json({ error: "Failed to load review batches" });
+  }
+});
+
+batchRouter.get("/:batchId", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  try {
+    const batch = await getReviewBatch(access.profileId, req.params.batchId);
+    if (!batch) {
+      res.status(404).json({ error: "Batch not found" });
+      return;
+    }
+    res.json({ batch });
+  } catch (error) {
+    console.error("[batch] Batch fetch failure", error);
+    res.status(500).json({ error: "Failed to load review batch" });
+  }
+});
+
+batchRouter.post("/:batchId/cancel", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  try {
+    const cancelled = await cancelReviewBatch(
+      access.profileId,
+      req.params.batchId,
+    );
+    if (!cancelled) {
+      res.status(409).json({ error: "Batch is not running" });
+      return;
+    }
+    res.status(204).send();
+  } catch (error) {
+    console.error("[batch] Batch cancel failure", error);
+    res.status(500).json({ error: "Failed to cancel review batch" });
+  }
+});
+
+batchRouter.patch("/:batchId/items/:itemId", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  const body = (req.body ?? {}) as Partial<ReviewBatchItemUpdateRequest>;
+  if (!body.status || !CLIENT_ITEM_STATUSES.includes(body.status)) {
+    res.status(400).json({ error: "Invalid item status" });
+    return;
+  }
+
+  try {
+    const batch = await getReviewBatch(access.profileId, req.params.batchId);
+    if (!batch) {
+      res.status(404).json({ error: "Batch not found" });
+      return;
+    }
+    if (batch.status !== "processing") {
+      res.status(409).json({ error: `Batch is ${batch.status}` });
+      return;
+    }
+
+    // Re-check credits before each document so a batch stops cleanly when
+    // the balance runs out mid-way, and take the credit here, once the text
+    // is extracted and before the analysis runs, so it never depends on the
+    // client reporting completion.
+    if (body.status === "extracting" || body.status === "classifying") {
+      const allowance = await checkPaygAllowance(access.profileId);
+      if (!allowance.allowed) {
+        await updateReviewBatchItem(batch.id, req.params.itemId, {
+          status: "skipped",
+          error: "No review credits remaining",
+        });
+        res.status(402).json({
+          error: "payg_insufficient_credits",
+          message:
+            "No reviews remaining. Purchase additional credits to continue.",
+        });
+        return;
+      }
+      if (
+        body.status === "classifying" &&
+        allowance.planType === "pay_as_you_go" &&
+        (await claimReviewBatchItemCredit(batch.id, req.params.itemId))
+      ) {
+        await applyPaygCreditDelta({
+          userId: access.profileId,
+          delta: -1,
+          reason: "consumption",
+          referenceId: req.params.itemId,
+          metadata: { batchId: batch.id, batchItemId: req.params.itemId },
+        });
+      }
+    }
+
+    // A credit taken for an analysis that then failed is handed back.
+    if (
+      body.status === "failed" &&
+      (await releaseReviewBatchItemCredit(batch.id, req.params.itemId))
+    ) {
+      await applyPaygCreditDelta({
+        userId: access.profileId,
+        delta: 1,
+        reason: "refund",
+        referenceId: req.params.itemId,
+        metadata: { batchId: batch.id, batchItemId: req.params.itemId },
+      });
+    }
+
+    const item = await updateReviewBatchItem(batch.id, req.params.itemId, {
+      status: body.status,
+      progress: body.progress,
+      contractType: body.contractType,
+      classificationConfidence: body.classificationConfidence,
+      error: body.error,
+    });
+    if (!item) {
+      res.status(404).json({ error: "Batch item not found" });
+      return;
+    }
+    res.json({ item });
+  } catch (error) {
+    console.error("[batch] Batch item update failure", error);
+    res.status(500).json({ error: "Failed to update batch item" });
+  }
+});
+
+batchRouter.post("/:batchId/items/:itemId/complete", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  const body = (req.body ?? {}) as Partial<ReviewBatchItemCompleteRequest>;
+  if (typeof body.reviewId !== "string" || !body.reviewId.trim()) {
+    res.status(400).json({ error: "reviewId is required" });
+    return;
+  }
+
+  try {
+    const batch = await getReviewBatch(access.profileId, req.params.batchId);
+    if (!batch) {
+      res.status(404).json({ error: "Batch not found" });
+      return;
+    }
+
+    const result = await completeReviewBatchItem(
+      access.profileId,
+      batch.id,
+      req.params.itemId,
+      body.reviewId.trim(),
+      typeof body.classificationConfidence === "number"
+        ? body.classificationConfidence
+        : null,
+    );
+    if (!result) {
+      res.status(404).json({ error: "Batch item or review not found" });
+      return;
+    }
+
+    if (result.creditDelta !== 0) {
+      const allowance = await checkPaygAllowance(access.profileId);
+      if (allowance.planType === "pay_as_you_go") {
+        await applyPaygCreditDelta({
+          userId: access.profileId,
+          delta: result.creditDelta,
+          reason: result.creditDelta > 0 ? "refund" : "consumption",
+          referenceId: result.item.id,
+          metadata: {
+            batchId: batch.id,
+            batchItemId: result.item.id,
+            ingestionId: result.item.ingestionId,
+          },
+        });
+      }
+    }
+
+    res.json({ item: result.item });
+  } catch (error) {
+    console.error("[batch] Batch item completion failure", error);
+    res.status(500).json({ error: "Failed to complete batch item" });
+  }
+});
@@ -1,6 +1,14 @@
 import express from "express";
 import type Stripe from "stripe";
 import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import {
+  RequestAuthError,
+  getRequestAccess,
+  requireUserAccess,
+  resolveActingUserId,
+  sendRequestAuthError,
+} from "../lib/requestAuth";
+import { applyPaygCreditDelta } from "../services/paygCredits";
 import {
   createCheckoutSession,
   buildStripeEvent,
@@ -18,6 +26,10 @@ import type {
 
 const billingRouter = express.Router();
 
+// The Stripe webhook is mounted on the app directly with its own signature
+// check, so everything on this router acts for a signed-in user.
+billingRouter.use(requireUserAccess());
+
 const APP_BASE_URL = (
   process.env.PUBLIC_APP_URL ||
   process.env.APP_ORIGIN ||
@@ -36,85 +48,6 @@ interface CheckoutRequestBody {
   metadata?: Record<string, string>;
 }
 
-async function applyPaygCreditDelta(options: {
-  userId: string;
-  delta: number;
-  reason: string;
-  referenceId?: string | null;
-  metadata?: Record<string, unknown>;
-}) {
-  const { userId } = options;
-  const deltaInt = Number.isFinite(options.delta)
-    ? Math.trunc(options.delta)
-    : 0;
-
-  if (deltaInt === 0) {
-    return;
-  }
-
-  const supabase = getSupabaseAdminClient();
-
-  const { data: existing, error: selectError } = await supabase
-    .from("user_payg_balances")
-    .select("id, credits_balance, credits_purchased, credits_consumed")
-    .eq("user_id", userId)
-    .maybeSingle();
-
-  if (selectError) {
-    throw new Error(`Failed to load PAYG balance: ${selectError.message}`);
-  }
-
-  const previousBalance = existing?.credits_balance ?? 0;
-  const previousPurchased = existing?.credits_purchased ?? 0;
-  const previousConsumed = existing?.credits_consumed ?? 0;
-
-  const creditsBalance = Math.max(previousBalance + deltaInt, 0);
-  const creditsPurchased =
-    previousPurchased + (deltaInt > 0 ? deltaInt : 0);
-  const creditsConsumed =
-    previousConsumed + (deltaInt < 0 ? Math.abs(deltaInt) : 0);
-
-  if (existing) {
-    const { error: updateError } = await supabase
-      .from("user_payg_balances")
-      .update({
-        credits_balance: creditsBalance,
-        credits_purchased: creditsPurchased,
-        credits_consumed: creditsConsumed,
-      })
-      .eq("id", existing.id);
-
-    if (updateError) {
-      throw new Error(`Failed to update PAYG balance: ${updateError.message}`);
-    }
-  } else {
-    const { error: insertError } = await supabase
-      .from("user_payg_balances")
-      .insert({
-        user_id: userId,
-        credits_balance: Math.max(deltaInt, 0),
-        credits_purchased: deltaInt > 0 ? deltaInt : 0,
-        credits_consumed: deltaInt < 0 ? Math.abs(deltaInt) : 0,
-      });
-
-    if (insertError) {
-      throw new Error(`Failed to create PAYG balance: ${insertError.message}`);
-    }
-  }
-
-  const { error: ledgerError } = await supabase.from("user_payg_ledger").insert({
-    user_id: userId,
-    delta: deltaInt,
-    reason: options.reason,
-    reference_id: options.referenceId ?? null,
-    metadata: options.metadata ?? {},
-  });
-
-  if (ledgerError) {
-    throw new Error(`Failed to log PAYG ledger entry: ${ledgerError.message}`);
-  }
-}
-
 function resolveSuccessUrl(
   plan: PlanDefinition,
   requestedPath: string | undefined,
@@ -234,11 +167,30 @@ async function loadPaygSnapshot(
 billingRouter.post("/checkout", async (req, res) => {
   const body = req.body as CheckoutRequestBody;
 
-  if (!body.planKey || !body.userId) {
-    res.status(400).json({ error: "planKey and userId are required" });
+  if (!body.planKey) {
+    res.status(400).json({ error: "planKey is required" });
     return;
   }
 
+  let userId: string;
+  try {
+    const access = getRequestAccess(res);
+    userId = resolveActingUserId(access, body.userId);
+    if (
+      body.organizationId &&
+      !access.isMaigonAdmin &&
+      body.organizationId !== access.organizationId
+    ) {
+      throw new RequestAuthError(
+        "You can only purchase plans for your own organization",
+        403,
+      );
+    }
+  } catch (error) {
+    if (sendRequestAuthError(res, error)) return;
+    throw error;
+  }
+
   const plan = getPlanByKey(body.planKey);
 
   if (!plan) {
@@ -262,7 +214,7 @@ billingRouter.post("/checkout", async (req, res) => {
 
     const session = await createCheckoutSession({
       planKey: plan.key,
-      userId: body.userId,
+      userId,
       email: body.email,
       quantity: body.quantity,
       successUrl,
@@ -276,7 +228,7 @@ billingRouter.post("/checkout", async (req, res) => {
     await recordCheckoutSession({
       session,
       plan,
-      userId: body.userId,
+      userId,
       organizationId: body.organizationId,
       quantity: body.quantity && body.quantity > 0 ? body.quantity : 1,
       metadata: body.metadata,
@@ -290,10 +242,12 @@ billingRouter.post("/checkout", async (req, res) => {
 });
 
 billingRouter.get("/payg/balance", async (req, res) => {
-  const userId = typeof req.query.userId === "string" ? req.query.userId : null;
-  if (!userId) {
-    res.status(400).json({ error: "userId is required" });
-    return;
+  let userId: string;
+  try {
+    userId = resolveActingUserId(getRequestAccess(res), req.query.userId);
+  } catch (error) {
+    if (sendRequestAuthError(res, error)) return;
+    throw error;
   }
 
   const limitRaw = typeof req.query.limit === "string" ? req.query.limit : undefined;
@@ -312,9 +266,12 @@ billingRouter.get("/payg/balance", async (req, res) => {
 billingRouter.post("/payg/consume", async (req, res) => {
   const body = req.body as PaygConsumeRequest;
 
-  if (!body.userId) {
-    res.status(400).json({ error: "userId is required" });
-    return;
+  let userId: string;
+  try {
+    userId = resolveActingUserId(getRequestAccess(res), body.userId);
+  } catch (error) {
+    if (sendRequestAuthError(res, error)) return;
+    throw error;
   }
 
   const amountParsed =
@@ -334,14 +291,14 @@ billingRouter.post("/payg/consume", async (req, res) => {
 
   try {
     await applyPaygCreditDelta({
-      userId: body.userId,
+      userId,
       delta: -amount,
       reason: body.reason ?? "consumption",
       referenceId: body.referenceId ?? null,
       metadata: body.metadata ?? {},
     });
 
-    const snapshot = await loadPaygSnapshot(body.userId, 10);
+    const snapshot = await loadPaygSnapshot(userId, 10);
     res.json({ balance: snapshot.balance });
   } catch (error) {
     console.error("[billing] Failed to consume PAYG credits", error);
@@ -4,6 +4,12 @@ import {
   generateFallbackClassification,
 } from "../services/classificationFallback";
 import { classifyContractWithAI } from "../services/classificationAI";
+import { resolveUserRedaction } from "../services/orgRedaction";
+import {
+  mapClassificationToSolutionKey,
+  solutionKeyToDisplayName,
+  type SolutionKey,
+} from "../../shared/solutions";
 
 interface ClassificationRequestBody {
   content: string;
@@ -13,28 +19,6 @@ interface ClassificationRequestBody {
 
 export const classifyRouter = express.Router();
 
-type SolutionKey = "nda" | "dpa" | "eula" | "ppc" | "psa" | "ca" | "rda";
-
-const SOLUTION_KEY_DISPLAY_NAMES: Record<SolutionKey, string> = {
-  nda: "Non-Disclosure Agreement",
-  dpa: "Data Processing Agreement",
-  eula: "End User License Agreement",
-  ppc: "Privacy Policy Compliance",
-  psa: "Product Supply Agreement",
-  ca: "Consultancy Agreement",
-  rda: "Research & Development Agreement",
-};
-
-const CONTRACT_TYPE_TO_SOLUTION_KEY: Record<string, SolutionKey> = {
-  non_disclosure_agreement: "nda",
-  data_processing_agreement: "dpa",
-  end_user_license_agreement: "eula",
-  privacy_policy_document: "ppc",
-  product_supply_agreement: "psa",
-  consultancy_agreement: "ca",
-  research_development_agreement: "rda",
-};
-
 function deriveConfidenceBand(confidence: number): "high" | "medium" | "low" {
   if (confidence >= 0.85) return "high";
   if (confidence >= 0.65) return "medium";
@@ -113,7 +97,7 @@ function normalizeClassificationPayload(
     typeof payload?.recommendedSolutionKey === "string" &&
     payload.recommendedSolutionKey.trim().length > 0
       ? (payload.recommendedSolutionKey.trim() as SolutionKey)
-      : CONTRACT_TYPE_TO_SOLUTION_KEY[contractType];
+      : mapClassificationToSolutionKey(contractType);
 
   let recommendedSolutionTitle =
     typeof payload?.recommendedSolutionTitle === "string" &&
@@ -122,8 +106,7 @@ function normalizeClassificationPayload(
       : undefined;
 
   if (recommendedSolutionKey && !recommendedSolutionTitle) {
-    recommendedSolutionTitle =
-      SOLUTION_KEY_DISPLAY_NAMES[recommendedSolutionKey];
+    recommendedSolutionTitle = solutionKeyToDisplayName(recommendedSolutionKey);
   }
 
   return {
@@ -169,9 +152,11 @@ classifyRouter.post("/", async (req, res) => {
   }
 
   try {
+    const authUserId = req.header("x-auth-user-id");
     const aiResult = await classifyContractWithAI(content, {
       fileName,
       solutionHint,
+      redaction: await resolveUserRedaction(authUserId),
     });
 
     const normalized = normalizeClassificationPayload(aiResult, {
@@ -0,0 +1,121 @@
+import express, { type Response } from "express";
+import { getRequestAccess, requireUserAccess } from "../lib/requestAuth";
+import {
+  ContractRepositoryError,
+  createContractFolder,
+  deleteContractFolder,
+  getContractRepositoryFacets,
+  listContractFolders,
+  parseContractSearchQuery,
+  renameContractFolder,
+  searchContracts,
+  updateContractOrganization,
+} from "../services/contractRepository";
+import type { UpdateContractOrganizationRequest } from "../../shared/api";
+
+export const contractsRouter = express.Router();
+
+contractsRouter.use(requireUserAccess());
+
+function sendRepositoryError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof ContractRepositoryError) {
+    res.status(error.status).json({ error: error.message });
+    return;
+  }
+  console.error(`[contracts] ${fallback}`, error);
+  res.status(500).json({ error: fallback });
+}
+
+contractsRouter.get("/search", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  const parsed = parseContractSearchQuery(req.query as Record<string, unknown>);
+  if ("error" in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+
+  try {
+    res.json(await searchContracts(access, parsed.filters));
+  } catch (error) {
+    sendRepositoryError(res, error, "Failed to search contracts");
+  }
+});
+
+contractsRouter.get("/facets", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  try {
+    const facets = await getContractRepositoryFacets(
+      access,
+      req.query.scope === "organization" ? "organization" : "mine",
+    );
+    res.json({ facets });
+  } catch (error) {
+    sendRepositoryError(res, error, "Failed to load filters");
+  }
+});
+
+contractsRouter.get("/folders", async (_req, res) => {
+  const access = getRequestAccess(res);
+
+  try {
+    const folders = await listContractFolders(access);
+    res.json({ folders });
+  } catch (error) {
+    console.error("[contracts] Folder list failure", error);
+    res.status(500).json({ error: "Failed to load folders" });
+  }
+});
+
+contractsRouter.post("/folders", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  try {
+    const folder = await createContractFolder(access, req.body?.name);
+    res.status(201).json({ folder });
+  } catch (error) {
+    sendRepositoryError(res, error, "Failed to create folder");
+  }
+});
+
+contractsRouter.patch("/folders/:folderId", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  try {
+    await renameContractFolder(access, req.params.folderId, req.body?.name);
+    res.json({ success: true });
+  } catch (error) {
+    sendRepositoryError(res, error, "Failed to rename folder");
+  }
+});
+
+contractsRouter.delete("/folders/:folderId", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  try {
+    await deleteContractFolder(access, req.params.folderId);
+    res.json({ success: true });
+  } catch (error) {
+    sendRepositoryError(res, error, "Failed to delete folder");
+  }
+});
+
+contractsRouter.patch("/:contractId/organization", async (req, res) => {
+  const access = getRequestAccess(res);
+
+  const body = (req.body ?? {}) as UpdateContractOrganizationRequest;
+  try {
+    const contract = await updateContractOrganization(
+      access,
+      req.params.contractId,
+      {
+        folderId: body.folderId,
+        tags: body.tags,
+      },
+    );
+    res.json({ contract });
+  } catch (error) {
+    sendRepositoryError(res, error, "Failed to update contract");
+  }
+});
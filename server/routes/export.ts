@@ -6,6 +6,17 @@ import type { StorageObjectRef } from "../../shared/api";
 import { getDraftSnapshotById } from "../services/draftSnapshotsRepository";
 import { downloadStorageObject } from "../services/storageService";
 import { htmlToPlainText } from "../utils/htmlTransforms";
+import { buildTrackedChangesRedlineFromIngestion } from "../services/docxRedlineService";
+import {
+  getRequestAccess,
+  requireUserAccess,
+  sendRequestAuthError,
+} from "../lib/requestAuth";
+import {
+  assertDraftSnapshotAccess,
+  assertIngestionAccess,
+  assertStorageObjectAccess,
+} from "../lib/resourceAccess";
 
 // Guard for runtimes where import.meta.url is missing after bundling
 const require =
@@ -63,6 +74,8 @@ async function loadPdfKit(): Promise<any> {
 
 export const exportRouter = express.Router();
 
+exportRouter.use(requireUserAccess());
+
 const jsonParser = express.json({ limit: "5mb" });
 
 const BASE_STYLES = `
@@ -335,7 +348,13 @@ function parseRedlinePayload(body: unknown) {
     })
     .filter((entry): entry is RedlineEntry => Boolean(entry));
 
-  return { contractName, edits };
+  const ingestionId =
+    typeof record.ingestionId === "string" && record.ingestionId.trim().length > 0
+      ? record.ingestionId.trim()
+      : null;
+  const includeComments = record.includeComments !== false;
+
+  return { contractName, edits, ingestionId, includeComments };
 }
 
 function buildSmartRedlineHtml(
@@ -390,6 +409,21 @@ exportRouter.post("/docx", jsonParser, async (req, res) => {
   let resolvedText = sanitizeTextInput(payload.text);
   let assetRef = payload.assetRef;
 
+  try {
+    const access = getRequestAccess(res);
+    if (payload.draftId) {
+      await assertDraftSnapshotAccess(access, payload.draftId);
+    }
+    if (assetRef) {
+      await assertStorageObjectAccess(access, assetRef);
+    }
+  } catch (error) {
+    if (sendRequestAuthError(res, error)) return;
+    console.error("[export] Failed to authorize DOCX export", error);
+    res.status(500).json({ error: "Failed to generate DOCX document." });
+    return;
+  }
+
   if (payload.draftId) {
     const snapshot = await resolveDraftSnapshotPayload(payload.draftId);
     if (!snapshot) {
@@ -470,6 +504,14 @@ exportRouter.post("/pdf", jsonParser, async (req, res) => {
   let resolvedText = sanitizeTextInput(payload.text);
 
   if (payload.draftId) {
+    try {
+      await assertDraftSnapshotAccess(getRequestAccess(res), payload.draftId);
+    } catch (error) {
+      if (sendRequestAuthError(res, error)) return;
+      console.error("[export] Failed to authorize PDF export", error);
+      res.status(500).json({ error: "Failed to generate PDF document." });
+      return;
+    }
     const snapshot = await resolveDraftSnapshotPayload(payload.draftId);
     if (!snapshot) {
       res.status(404).json({ error: "Draft not found" });
@@ -577,9 +619,55 @@ exportRouter.post("/redline", jsonParser, async (req, res) => {
     return;
   }
 
+  if (payload.ingestionId) {
+    try {
+      await assertIngestionAccess(getRequestAccess(res), payload.ingestionId);
+    } catch (error) {
+      if (sendRequestAuthError(res, error)) return;
+      console.error("[export] Failed to authorize redline export", error);
+      res.status(500).json({ error: "Failed to generate smart redline document." });
+      return;
+    }
+  }
+
   try {
-    const html = buildSmartRedlineHtml(payload.contractName, payload.edits);
-    const buffer = await buildDocxFromHtml(html);
+    let buffer: Buffer | null = null;
+    let redlineMode = "summary";
+
+    // Prefer genuine Word revisions on the original upload; fall back to the
+    // HTML summary when the source is unavailable or no anchor could be found.
+    if (payload.ingestionId) {
+      try {
+        const tracked = await buildTrackedChangesRedlineFromIngestion({
+          ingestionId: payload.ingestionId,
+          edits: payload.edits,
+          includeComments: payload.includeComments,
+        });
+        if (tracked && tracked.appliedEditIds.length > 0) {
+          buffer = tracked.buffer;
+          redlineMode = "tracked-changes";
+          res.setHeader(
+            "X-Redline-Unmatched-Edits",
+            String(tracked.unmatchedEditIds.length),
+          );
+          console.info("[export] Tracked-changes redline generated", {
+            ingestionId: payload.ingestionId,
+            applied: tracked.appliedEditIds.length,
+            unmatched: tracked.unmatchedEditIds,
+          });
+        }
+      } catch (trackedError) {
+        console.error("[export] Tracked-changes redline failed", {
+          ingestionId: payload.ingestionId,
+          error: trackedError,
+        });
+      }
+    }
+
+    if (!buffer) {
+      const html = buildSmartRedlineHtml(payload.contractName, payload.edits);
+      buffer = await buildDocxFromHtml(html);
+    }
     if (!buffer) {
       res.status(500).json({ error: "Failed to build smart redline document." });
       return;
@@ -590,6 +678,7 @@ exportRouter.post("/redline", jsonParser, async (req, res) => {
       .replace(/[^a-z0-9]+/gi, "-")
       .replace(/^-+|-+$/g, "") || "contract";
 
+    res.setHeader("X-Redline-Mode", redlineMode);
     res.setHeader(
       "Content-Type",
       "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
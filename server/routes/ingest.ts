@@ -16,7 +16,17 @@ import {
   saveExtractionResult,
   getIngestionRecord,
 } from "../services/ingestionRepository";
-import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import { checkPaygAllowance } from "../services/paygCredits";
+import {
+  getRequestAccess,
+  requireUserAccess,
+  sendRequestAuthError,
+} from "../lib/requestAuth";
+import { assertIngestionAccess } from "../lib/resourceAccess";
+import {
+  emitIngestionWebhookEvent,
+  resolveProfileOrganizationId,
+} from "../services/orgWebhooks";
 
 // Use OS temp dir so serverless runtimes (Netlify) can write
 const uploadDirectory = path.join(os.tmpdir(), "ingestion-uploads");
@@ -37,39 +47,7 @@ const uploader = multer({ storage });
 
 export const ingestionRouter = express.Router();
 
-async function checkPaygAllowance(userId: string) {
-  const supabase = getSupabaseAdminClient();
-
-  const { data: planRow, error: planError } = await supabase
-    .from("user_plans")
-    .select("plan_type")
-    .eq("user_id", userId)
-    .maybeSingle<{ plan_type: string | null }>();
-
-  if (planError) {
-    console.error("[ingestion] Failed to load user plan", planError);
-    return { allowed: true, balance: 0, planType: null } as const;
-  }
-
-  const planType = planRow?.plan_type ?? null;
-  if (planType !== "pay_as_you_go") {
-    return { allowed: true, balance: 0, planType } as const;
-  }
-
-  const { data: balanceRow, error: balanceError } = await supabase
-    .from("user_payg_balances")
-    .select("credits_balance")
-    .eq("user_id", userId)
-    .maybeSingle<{ credits_balance: number | null }>();
-
-  if (balanceError) {
-    console.error("[ingestion] Failed to load PAYG balance", balanceError);
-    return { allowed: false, balance: 0, planType } as const;
-  }
-
-  const balance = balanceRow?.credits_balance ?? 0;
-  return { allowed: balance > 0, balance, planType } as const;
-}
+ingestionRouter.use(requireUserAccess());
 
 ingestionRouter.post(
   "/",
@@ -89,20 +67,17 @@ ingestionRouter.post(
         size: req.file.size,
       });
 
-      const userId = (req.body?.userId as string | undefined) ?? null;
-      const userProfileId =
-        (req.body?.userProfileId as string | undefined) ?? userId ?? null;
+      // Uploads always belong to the verified caller, whatever the form says.
+      const userProfileId = getRequestAccess(res).profileId;
 
-      if (userProfileId) {
-        const allowance = await checkPaygAllowance(userProfileId);
-        if (!allowance.allowed) {
-          res.status(402).json({
-            error: "payg_insufficient_credits",
-            message: "No reviews remaining. Purchase additional credits to continue.",
-          });
-          await removeLocalFile(req.file.path);
-          return;
-        }
+      const allowance = await checkPaygAllowance(userProfileId);
+      if (!allowance.allowed) {
+        res.status(402).json({
+          error: "payg_insufficient_credits",
+          message: "No reviews remaining. Purchase additional credits to continue.",
+        });
+        await removeLocalFile(req.file.path);
+        return;
       }
 
       const storageResult = await uploadToStorage({
@@ -119,7 +94,7 @@ ingestionRouter.post(
         originalName: req.file.originalname,
         mimeType: contentType,
         fileSize: req.file.size,
-        userId: userProfileId ?? undefined,
+        userId: userProfileId,
       });
 
       console.info("[ingestion] Upload stored", {
@@ -151,12 +126,14 @@ ingestionRouter.post(
   "/:ingestionId/extract",
   async (req: Request, res: Response, next: NextFunction) => {
     const { ingestionId } = req.params;
-    const bucket =
-      (req.body?.bucket as string | undefined) ??
-      (req.query.bucket as string | undefined) ??
-      DEFAULT_BUCKET;
 
     try {
+      await assertIngestionAccess(getRequestAccess(res), ingestionId);
+      // The bucket comes from the stored record, never from the caller.
+      const ingestion = await getIngestionRecord(ingestionId);
+      const bucket =
+        (ingestion?.storage_bucket as string | null | undefined) ??
+        DEFAULT_BUCKET;
       console.info("[ingestion] Extraction requested", {
         ingestionId,
         bucket,
@@ -175,8 +152,28 @@ ingestionRouter.post(
         warnings: result.warnings,
       });
 
+      void resolveProfileOrganizationId(record.user_id)
+        .then((organizationId) =>
+          emitIngestionWebhookEvent(
+            organizationId,
+            ingestionId,
+            record.status,
+            result,
+          ),
+        )
+        .catch((webhookError) => {
+          console.warn("[ingestion] Webhook emit failed", {
+            ingestionId,
+            message:
+              webhookError instanceof Error
+                ? webhookError.message
+                : String(webhookError),
+          });
+        });
+
       res.json({ status: record.status, ingestionId, result, record });
     } catch (error) {
+      if (sendRequestAuthError(res, error)) return;
       console.error("[ingestion] Extraction failed", {
         ingestionId,
         error,
@@ -191,6 +188,7 @@ ingestionRouter.get(
   async (req: Request, res: Response, next: NextFunction) => {
     const { ingestionId } = req.params;
     try {
+      await assertIngestionAccess(getRequestAccess(res), ingestionId);
       const record = await getIngestionRecord(ingestionId);
       if (!record) {
         res.status(404).json({ error: "Ingestion not found" });
@@ -198,6 +196,7 @@ ingestionRouter.get(
       }
       res.json({ ingestionId, record });
     } catch (error) {
+      if (sendRequestAuthError(res, error)) return;
       next(error);
     }
   },
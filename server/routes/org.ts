@@ -2,7 +2,96 @@ import express from "express";
 import crypto from "crypto";
 import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
 import { getUserAccessContextByAuthId } from "../lib/userAccess";
+import {
+  getRequestAccess,
+  requireUserAccess,
+  sendRequestAuthError,
+} from "../lib/requestAuth";
+import { assertContractAccess } from "../lib/resourceAccess";
+import {
+  OrgPlaybookConflictError,
+  createOrgPlaybook,
+  deleteOrgPlaybook,
+  getOrgPlaybook,
+  listOrgPlaybookVersions,
+  listOrgPlaybooks,
+  parseOrgPlaybookPayload,
+  updateOrgPlaybook,
+} from "../services/orgPlaybooksRepository";
+import {
+  ALERT_PREFERENCES_COLUMNS,
+  dispatchReviewAlert,
+  extractHighRiskFindings,
+  listAlertDeliveries,
+  mapAlertPreferencesRow,
+  retryAlertDelivery,
+  runAlertDispatchCycle,
+} from "../services/alertDispatcher";
+import {
+  OBLIGATION_STATUSES,
+  backfillObligations,
+  buildObligationsCalendar,
+  getOrCreateCalendarFeed,
+  listObligations,
+  loadCalendarFeedObligations,
+  resolveCalendarFeed,
+  syncReviewObligations,
+  updateObligationStatus,
+} from "../services/obligationsRegister";
+import {
+  createOrgApiKey,
+  listOrgApiKeys,
+  revokeOrgApiKey,
+} from "../services/orgApiKeysRepository";
+import { checkOrganizationReviewAllowance } from "../services/apiReviewRunner";
+import {
+  assertPublicWebhookTarget,
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  emitReviewWebhookEvent,
+  listWebhookDeliveries,
+  listWebhookEndpoints,
+  parseWebhookEndpointInput,
+  replayWebhookDelivery,
+  rotateWebhookSecret,
+  updateWebhookEndpoint,
+} from "../services/orgWebhooks";
+import {
+  getOrgPrivacySettings,
+  updateOrgPrivacySettings,
+} from "../services/orgRedaction";
+import {
+  getOrgScoringSettings,
+  updateOrgScoringProfile,
+} from "../services/orgScoring";
+import { validateScoringProfile } from "../../shared/ai/scoringProfile";
+import { recordReviewCacheEntry } from "../services/reviewCache";
+import {
+  assignReviewExpiry,
+  getOrgRetentionSettings,
+  listOrgRetentionPurges,
+  updateOrgLegalHold,
+} from "../services/reportRetention";
+import {
+  createApprovalChain,
+  deleteApprovalChain,
+  listApprovalChains,
+  listApprovalTrail,
+  markContractInReview,
+  parseApprovalChainInput,
+  updateApprovalChain,
+} from "../services/contractApprovals";
+import { indexContractForRepository } from "../services/contractRepository";
+import {
+  ORG_API_KEY_SCOPES,
+  type OrgApiKeyScope,
+  type OrgWebhookEndpointInput,
+} from "../../shared/api";
 import type {
+  ApprovalChainInput,
+  ContractObligationFilters,
+  ContractObligationStatus,
+  ObligationCalendarFeed,
   OrgAlertPreferences,
   OrgAlertSummary,
   OrgComplianceExportItem,
@@ -34,7 +123,7 @@ async function getOrCreateAlertPreferences(
 
   const { data, error } = await supabase
     .from("organization_alert_preferences")
-    .select("notify_high_risk, notify_pending_edits, alert_channel, last_digest_at")
+    .select(ALERT_PREFERENCES_COLUMNS)
     .eq("organization_id", organizationId)
     .maybeSingle();
 
@@ -46,57 +135,29 @@ async function getOrCreateAlertPreferences(
     const { data: inserted, error: insertError } = await supabase
       .from("organization_alert_preferences")
       .insert({ organization_id: organizationId })
-      .select("notify_high_risk, notify_pending_edits, alert_channel, last_digest_at")
+      .select(ALERT_PREFERENCES_COLUMNS)
       .single();
 
     if (insertError) {
       throw insertError;
     }
 
-    return {
-      notifyHighRisk: inserted.notify_high_risk,
-      notifyPendingEdits: inserted.notify_pending_edits,
-      alertChannel: inserted.alert_channel,
-      lastDigestAt: inserted.last_digest_at,
-    } satisfies OrgAlertPreferences;
+    return mapAlertPreferencesRow(inserted);
   }
 
-  return {
-    notifyHighRisk: data.notify_high_risk,
-    notifyPendingEdits: data.notify_pending_edits,
-    alertChannel: data.alert_channel,
-    lastDigestAt: data.last_digest_at,
-  } satisfies OrgAlertPreferences;
+  return mapAlertPreferencesRow(data);
 }
 
-function collectDecisions(
-  payload: unknown,
-  prefix: string,
-  defaultSeverity: string,
-): Array<{ severity: string; description: string }> {
-  if (!Array.isArray(payload)) return [];
-  return payload
-    .map((item, index) => {
-      const data =
-        item && typeof item === "object"
-          ? (item as Record<string, unknown>)
-          : { description: String(item ?? "") };
-      const description =
-        (typeof data.description === "string" && data.description) ||
-        (typeof data.recommendation === "string" && data.recommendation) ||
-        (typeof data.action === "string" && data.action) ||
-        "";
-      const trimmed = description.trim();
-      if (!trimmed) return null;
-      const severityRaw =
-        (typeof data.severity === "string" && data.severity) ||
-        defaultSeverity;
-      const severity = severityRaw.toLowerCase();
-      return { severity, description: trimmed, id: `${prefix}-${index + 1}` };
-    })
-    .filter((item): item is { severity: string; description: string } => !!item);
+function isHttpsUrl(value: string) {
+  try {
+    return new URL(value).protocol === "https:";
+  } catch {
+    return false;
+  }
 }
 
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
 function extractMissingClausesFromResult(result: Record<string, unknown>): string[] {
   const candidates = [
     result.missing_information,
@@ -173,6 +234,41 @@ async function authorizeRequest(
   }
 }
 
+/**
+ * Gate for API keys, webhook endpoints and data-governance settings. The
+ * caller comes from the token verified by `requireUserAccess()`, never from
+ * the `x-auth-user-id` header or query string.
+ */
+function authorizeVerifiedOrgAdmin(
+  req: express.Request,
+  res: express.Response,
+): AuthorizedAccess | null {
+  const access = getRequestAccess(res);
+  const organizationId =
+    typeof req.query.organizationId === "string"
+      ? req.query.organizationId.trim()
+      : "";
+  if (!organizationId) {
+    res.status(400).json({ error: "organizationId is required" });
+    return null;
+  }
+
+  const isOrgAdmin =
+    access.organizationId === organizationId &&
+    access.organizationRole === "org_admin";
+  if (!access.isMaigonAdmin && !isOrgAdmin) {
+    res.status(403).json({ error: "Forbidden" });
+    return null;
+  }
+
+  return {
+    organizationId,
+    authUserId: access.authUserId ?? "",
+    profileId: access.profileId,
+    isMaigonAdmin: access.isMaigonAdmin,
+  };
+}
+
 function createInviteToken() {
   return crypto.randomBytes(24).toString("base64url");
 }
@@ -559,7 +655,9 @@ orgRouter.get("/compliance-export", async (req, res) => {
       } satisfies OrgComplianceExportItem;
     });
 
-    res.json({ organizationId, items });
+    const approvalTrail = await listApprovalTrail(organizationId);
+
+    res.json({ organizationId, items, approvalTrail });
   } catch (error) {
     console.error("[org] Compliance export failure", error);
     res.status(500).json({ error: "Failed to load compliance export" });
@@ -586,8 +684,16 @@ orgRouter.patch("/alerts/preferences", async (req, res) => {
   if (!authorized) return;
 
   const { organizationId } = authorized;
-  const { notifyHighRisk, notifyPendingEdits, alertChannel } =
-    (req.body as Record<string, unknown>) ?? {};
+  const {
+    notifyHighRisk,
+    notifyPendingEdits,
+    alertChannel,
+    deliveryMode,
+    emailRecipients,
+    webhookUrl,
+    webhookSecret,
+    slackWebhookUrl,
+  } = (req.body as Record<string, unknown>) ?? {};
 
   const payload: Record<string, unknown> = { organization_id: organizationId };
   if (typeof notifyHighRisk === "boolean") {
@@ -597,8 +703,71 @@ orgRouter.patch("/alerts/preferences", async (req, res) => {
     payload.notify_pending_edits = notifyPendingEdits;
   }
   if (typeof alertChannel === "string" && alertChannel.trim().length > 0) {
+    if (!["email", "webhook", "slack"].includes(alertChannel.trim())) {
+      res
+        .status(400)
+        .json({ error: "alertChannel must be email, webhook or slack" });
+      return;
+    }
     payload.alert_channel = alertChannel.trim();
   }
+  if (deliveryMode !== undefined) {
+    if (deliveryMode !== "immediate" && deliveryMode !== "digest") {
+      res
+        .status(400)
+        .json({ error: "deliveryMode must be 'immediate' or 'digest'" });
+      return;
+    }
+    payload.delivery_mode = deliveryMode;
+  }
+  if (emailRecipients !== undefined) {
+    const recipients = Array.isArray(emailRecipients)
+      ? emailRecipients
+          .filter((item): item is string => typeof item === "string")
+          .map((item) => item.trim().toLowerCase())
+          .filter(Boolean)
+      : null;
+    if (!recipients || recipients.some((item) => !EMAIL_PATTERN.test(item))) {
+      res
+        .status(400)
+        .json({ error: "emailRecipients must be a list of email addresses" });
+      return;
+    }
+    payload.email_recipients = Array.from(new Set(recipients)).slice(0, 20);
+  }
+  for (const [key, column, value] of [
+    ["webhookUrl", "webhook_url", webhookUrl],
+    ["slackWebhookUrl", "slack_webhook_url", slackWebhookUrl],
+  ] as const) {
+    if (value === undefined) continue;
+    if (value === null || value === "") {
+      payload[column] = null;
+      continue;
+    }
+    if (typeof value !== "string" || !isHttpsUrl(value.trim())) {
+      res.status(400).json({ error: `${key} must be an https URL` });
+      return;
+    }
+    try {
+      await assertPublicWebhookTarget(value.trim());
+    } catch {
+      res
+        .status(400)
+        .json({ error: `${key} must point to a public internet host` });
+      return;
+    }
+    payload[column] = value.trim();
+  }
+  if (webhookSecret !== undefined) {
+    if (webhookSecret !== null && typeof webhookSecret !== "string") {
+      res.status(400).json({ error: "webhookSecret must be a string" });
+      return;
+    }
+    payload.webhook_secret =
+      typeof webhookSecret === "string" && webhookSecret.trim()
+        ? webhookSecret.trim()
+        : null;
+  }
 
   const supabase = getSupabaseAdminClient();
 
@@ -662,37 +831,19 @@ orgRouter.get("/alerts/summary", async (req, res) => {
       const results = review?.results as Record<string, unknown> | null;
       if (!results) return;
 
-      const recommendations = collectDecisions(
-        results.recommendations,
-        "rec",
-        "medium",
-      );
-      const strategic = collectDecisions(
-        results.strategic_recommendations,
-        "strat",
-        "medium",
-      );
-      const actionItems = collectDecisions(
-        results.action_items,
-        "act",
-        "high",
-      );
-
-      const combined = [...recommendations, ...strategic, ...actionItems];
+      const combined = extractHighRiskFindings(results);
       combined.forEach((item) => {
-        if (item.severity === "critical" || item.severity === "high") {
-          highRiskCount += 1;
-          highRiskItems.push({
-            contractId: review.contract_id ?? null,
-            reviewId: review.id,
-            title:
-              (review.contracts as { title?: string } | null)?.title ?? null,
-            severity: item.severity,
-            updatedAt:
-              (review.contracts as { updated_at?: string } | null)?.updated_at ??
-              review.created_at ?? null,
-          });
-        }
+        highRiskCount += 1;
+        highRiskItems.push({
+          contractId: review.contract_id ?? null,
+          reviewId: review.id,
+          title:
+            (review.contracts as { title?: string } | null)?.title ?? null,
+          severity: item.severity,
+          updatedAt:
+            (review.contracts as { updated_at?: string } | null)?.updated_at ??
+            review.created_at ?? null,
+        });
       });
     });
 
@@ -730,6 +881,385 @@ orgRouter.get("/alerts/summary", async (req, res) => {
   }
 });
 
+orgRouter.get("/alerts/deliveries", async (req, res) => {
+  const authorized = await authorizeRequest(req, res);
+  if (!authorized) return;
+
+  const limitRaw = Number(req.query.limit);
+  const limit =
+    Number.isFinite(limitRaw) && limitRaw > 0 ? Math.min(limitRaw, 200) : 50;
+
+  try {
+    const deliveries = await listAlertDeliveries(
+      authorized.organizationId,
+      limit,
+    );
+    res.json({ organizationId: authorized.organizationId, deliveries });
+  } catch (error) {
+    console.error("[org] Alert deliveries fetch failure", error);
+    res.status(500).json({ error: "Failed to load alert deliveries" });
+  }
+});
+
+orgRouter.post("/alerts/deliveries/:deliveryId/retry", async (req, res) => {
+  const authorized = await authorizeRequest(req, res);
+  if (!authorized) return;
+
+  try {
+    const delivery = await retryAlertDelivery(
+      authorized.organizationId,
+      req.params.deliveryId,
+    );
+    if (!delivery) {
+      res
+        .status(404)
+        .json({ error: "Delivery not found or already in progress" });
+      return;
+    }
+    res.json({ delivery });
+  } catch (error) {
+    console.error("[org] Alert delivery retry failure", error);
+    res.status(500).json({ error: "Failed to retry alert delivery" });
+  }
+});
+
+// Called by the client after a review is saved. Any member who can open the
+// review's contract may trigger it; the dispatcher dedupes repeated calls. The
+// review's obligations are added to the register, its analysis key to the
+// review cache and its retention expiry stamped at the same time.
+orgRouter.post(
+  "/alerts/review-saved",
+  requireUserAccess(),
+  async (req, res) => {
+    const access = getRequestAccess(res);
+    const reviewId =
+      typeof req.body?.reviewId === "string" ? req.body.reviewId.trim() : "";
+
+    if (!reviewId) {
+      res.status(400).json({ error: "reviewId is required" });
+      return;
+    }
+
+    try {
+      const { data: review, error: reviewError } =
+        await getSupabaseAdminClient()
+          .from("contract_reviews")
+          .select("contract_id")
+          .eq("id", reviewId)
+          .maybeSingle();
+      if (reviewError) {
+        throw reviewError;
+      }
+      if (!review?.contract_id) {
+        res.status(404).json({ error: "Review not found" });
+        return;
+      }
+      await assertContractAccess(access, review.contract_id as string);
+
+      try {
+        await syncReviewObligations(reviewId);
+      } catch (syncError) {
+        // The register backfills missed reviews, so this never blocks alerts.
+        console.warn("[org] Obligation sync failed", { reviewId, syncError });
+      }
+
+      try {
+        await recordReviewCacheEntry(reviewId);
+      } catch (cacheError) {
+        console.warn("[org] Review cache record failed", {
+          reviewId,
+          cacheError,
+        });
+      }
+
+      try {
+        await assignReviewExpiry(reviewId);
+      } catch (expiryError) {
+        // The retention sweeper stamps expiries it finds missing.
+        console.warn("[org] Review expiry assignment failed", {
+          reviewId,
+          expiryError,
+        });
+      }
+
+      try {
+        await indexContractForRepository(reviewId);
+      } catch (indexError) {
+        console.warn("[org] Repository index update failed", {
+          reviewId,
+          indexError,
+        });
+      }
+
+      try {
+        await markContractInReview(reviewId);
+      } catch (workflowError) {
+        console.warn("[org] Contract workflow update failed", {
+          reviewId,
+          workflowError,
+        });
+      }
+
+      if (!access.organizationId) {
+        res.status(202).json({ dispatched: false });
+        return;
+      }
+
+      try {
+        await emitReviewWebhookEvent(reviewId, access.organizationId);
+      } catch (webhookError) {
+        console.warn("[org] Review webhook emit failed", {
+          reviewId,
+          webhookError,
+        });
+      }
+
+      const delivery = await dispatchReviewAlert(
+        reviewId,
+        access.organizationId,
+      );
+      res.status(202).json({ dispatched: Boolean(delivery) });
+    } catch (error) {
+      if (sendRequestAuthError(res, error)) return;
+      console.error("[org] Review alert dispatch failure", error);
+      res.status(500).json({ error: "Failed to dispatch review alert" });
+    }
+  },
+);
+
+// Entry point for a scheduled function when no long-lived worker runs the
+// dispatcher loop.
+orgRouter.post("/alerts/dispatch", async (req, res) => {
+  const secret = process.env.ALERT_DISPATCH_SECRET;
+  const provided = req.header("x-alert-dispatch-secret") ?? "";
+
+  if (
+    !secret ||
+    provided.length !== secret.length ||
+    !crypto.timingSafeEqual(Buffer.from(provided), Buffer.from(secret))
+  ) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  try {
+    const result = await runAlertDispatchCycle();
+    res.json(result);
+  } catch (error) {
+    console.error("[org] Alert dispatch cycle failure", error);
+    res.status(500).json({ error: "Failed to run alert dispatch" });
+  }
+});
+
+async function authorizeMemberRequest(
+  req: express.Request,
+  res: express.Response,
+) {
+  const authUserIdRaw = req.header("x-auth-user-id");
+  const authUserId =
+    typeof authUserIdRaw === "string" ? authUserIdRaw.trim() : "";
+
+  if (!authUserId) {
+    res.status(400).json({ error: "authUserId is required" });
+    return null;
+  }
+
+  try {
+    const access = await getUserAccessContextByAuthId(authUserId);
+    if (!access) {
+      res.status(401).json({ error: "Unauthorized" });
+      return null;
+    }
+    return access;
+  } catch (error) {
+    console.error("[org] Authorization failure", error);
+    res.status(500).json({ error: "Failed to authorize request" });
+    return null;
+  }
+}
+
+function parseObligationFilters(
+  query: express.Request["query"],
+): ContractObligationFilters | { error: string } {
+  const filters: ContractObligationFilters = {};
+
+  if (typeof query.dueWithinDays === "string" && query.dueWithinDays) {
+    const days = Number(query.dueWithinDays);
+    if (!Number.isInteger(days) || days < 0 || days > 3650) {
+      return { error: "dueWithinDays must be a whole number of days" };
+    }
+    filters.dueWithinDays = days;
+  }
+  if (typeof query.status === "string" && query.status) {
+    if (!OBLIGATION_STATUSES.includes(query.status as ContractObligationStatus)) {
+      return { error: "Invalid status" };
+    }
+    filters.status = query.status as ContractObligationStatus;
+  }
+  if (typeof query.contractType === "string" && query.contractType.trim()) {
+    filters.contractType = query.contractType.trim();
+  }
+  if (typeof query.owner === "string" && query.owner.trim()) {
+    filters.owner = query.owner.trim().slice(0, 100);
+  }
+  if (query.includeUndated === "true" || query.includeUndated === "false") {
+    filters.includeUndated = query.includeUndated === "true";
+  }
+  return filters;
+}
+
+function toCalendarFeedResponse(feed: {
+  scope: ObligationCalendarFeed["scope"];
+  token: string;
+  created_at: string;
+}): ObligationCalendarFeed {
+  return {
+    scope: feed.scope,
+    url: `${APP_BASE_URL}/api/org/obligations/calendar/${feed.token}.ics`,
+    createdAt: feed.created_at,
+  };
+}
+
+orgRouter.get("/obligations", async (req, res) => {
+  const authorized = await authorizeRequest(req, res);
+  if (!authorized) return;
+
+  const filters = parseObligationFilters(req.query);
+  if ("error" in filters) {
+    res.status(400).json({ error: filters.error });
+    return;
+  }
+
+  try {
+    const scope = { organizationId: authorized.organizationId };
+    await backfillObligations(scope);
+    const obligations = await listObligations(scope, filters);
+    res.json({ organizationId: authorized.organizationId, obligations });
+  } catch (error) {
+    console.error("[org] Obligations fetch failure", error);
+    res.status(500).json({ error: "Failed to load obligations" });
+  }
+});
+
+orgRouter.get("/obligations/mine", async (req, res) => {
+  const access = await authorizeMemberRequest(req, res);
+  if (!access) return;
+
+  const filters = parseObligationFilters(req.query);
+  if ("error" in filters) {
+    res.status(400).json({ error: filters.error });
+    return;
+  }
+
+  try {
+    const scope = { userId: access.profileId };
+    await backfillObligations(scope);
+    const obligations = await listObligations(scope, filters);
+    res.json({ obligations });
+  } catch (error) {
+    console.error("[org] Member obligations fetch failure", error);
+    res.status(500).json({ error: "Failed to load obligations" });
+  }
+});
+
+orgRouter.patch("/obligations/:obligationId", async (req, res) => {
+  const authorized = await authorizeRequest(req, res);
+  if (!authorized) return;
+
+  const status = req.body?.status;
+  if (!OBLIGATION_STATUSES.includes(status)) {
+    res.status(400).json({ error: "Invalid status" });
+    return;
+  }
+
+  try {
+    const obligation = await updateObligationStatus(
+      { organizationId: authorized.organizationId },
+      req.params.obligationId,
+      status,
+    );
+    if (!obligation) {
+      res.status(404).json({ error: "Obligation not found" });
+      return;
+    }
+    res.json({ obligation });
+  } catch (error) {
+    console.error("[org] Obligation update failure", error);
+    res.status(500).json({ error: "Failed to update obligation" });
+  }
+});
+
+// Organization feeds are admin-only; any member can subscribe to a feed of
+// the contracts they reviewed themselves.
+orgRouter.post("/obligations/calendar-feed", async (req, res) => {
+  const scope = req.body?.scope === "organization" ? "organization" : "user";
+  const rotate = req.body?.rotate === true;
+
+  try {
+    if (scope === "organization") {
+      const authorized = await authorizeRequest(req, res);
+      if (!authorized) return;
+      const feed = await getOrCreateCalendarFeed({
+        scope,
+        organizationId: authorized.organizationId,
+        userId: null,
+        createdBy: authorized.profileId,
+        rotate,
+      });
+      res.json({ feed: toCalendarFeedResponse(feed) });
+      return;
+    }
+
+    const access = await authorizeMemberRequest(req, res);
+    if (!access) return;
+    const feed = await getOrCreateCalendarFeed({
+      scope,
+      organizationId: access.organizationId,
+      userId: access.profileId,
+      createdBy: access.profileId,
+      rotate,
+    });
+    res.json({ feed: toCalendarFeedResponse(feed) });
+  } catch (error) {
+    console.error("[org] Calendar feed failure", error);
+    res.status(500).json({ error: "Failed to create calendar feed" });
+  }
+});
+
+// Calendar clients cannot send auth headers, so the unguessable token in the
+// path is the credential. Rotating the feed revokes it.
+orgRouter.get("/obligations/calendar/:feedFile", async (req, res) => {
+  const token = req.params.feedFile.replace(/\.ics$/i, "");
+
+  try {
+    const feed = await resolveCalendarFeed(token);
+    if (!feed) {
+      res.status(404).json({ error: "Calendar feed not found" });
+      return;
+    }
+
+    const obligations = await loadCalendarFeedObligations(feed);
+    const calendar = buildObligationsCalendar(obligations, {
+      calendarName:
+        feed.scope === "organization"
+          ? "Maigon – Organization obligations"
+          : "Maigon – My contract obligations",
+      appBaseUrl: APP_BASE_URL,
+    });
+
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      'inline; filename="maigon-obligations.ics"',
+    );
+    res.setHeader("Cache-Control", "private, max-age=900");
+    res.send(calendar);
+  } catch (error) {
+    console.error("[org] Calendar feed render failure", error);
+    res.status(500).json({ error: "Failed to render calendar feed" });
+  }
+});
+
 orgRouter.get("/member-invites", async (req, res) => {
   const authorized = await authorizeRequest(req, res);
   if (!authorized) return;
@@ -1117,4 +1647,706 @@ orgRouter.post("/member-invites/:id/cancel", async (req, res) => {
   }
 });
 
+function readChangeNote(body: unknown): string | null {
+  const note =
+    body && typeof body === "object"
+      ? (body as Record<string, unknown>).changeNote
+      : undefined;
+  return typeof note === "string" && note.trim()
+    ? note.trim().slice(0, 500)
+    : null;
+}
+
+orgRouter.get("/playbooks", async (req, res) => {
+  const authorized = await authorizeRequest(req, res);
+  if (!authorized) return;
+
+  try {
+    const playbooks = await listOrgPlaybooks(authorized.organizationId);
+    res.json({ organizationId: authorized.organizationId, playbooks });
+  } catch (error) {
+    console.error("[org] Playbook list failure", error);
+    res.status(500).json({ error: "Failed to load playbooks" });
+  }
+});
+
+orgRouter.post("/playbooks", async (req, res) => {
+  const authorized = await authorizeRequest(req, res);
+  if (!authorized) return;
+
+  const parsed = parseOrgPlaybookPayload(req.body);
+  if ("error" in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+
+  try {
+    const playbook = await createOrgPlaybook(
+      authorized.organizationId,
+      parsed.definition,
+      {
+        profileId: authorized.profileId,
+        changeNote: readChangeNote(req.body),
+      },
+    );
+    res.status(201).json({ playbook });
+  } catch (error) {
+    if (error instanceof OrgPlaybookConflictError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    console.error("[org] Playbook create failure", error);
+    res.status(500).json({ error: "Failed to create playbook" });
+  }
+});
+
+orgRouter.get("/playbooks/:id", async (req, res) => {
+  const authorized = await authorizeRequest(req, res);
+  if (!authorized) return;
+
+  try {
+    const playbook = await getOrgPlaybook(
+      authorized.organizationId,
+      req.params.id,
+    );
+    if (!playbook) {
+      res.status(404).json({ error: "Playbook not found" });
+      return;
+    }
+    res.json({ playbook });
+  } catch (error) {
+    console.error("[org] Playbook fetch failure", error);
+    res.status(500).json({ error: "Failed to load playbook" });
+  }
+});
+
+orgRouter.patch("/playbooks/:id", async (req, res) => {
+  const authorized = await authorizeRequest(req, res);
+  if (!authorized) return;
+
+  const { organizationId, profileId } = authorized;
+
+  try {
+    const current = await getOrgPlaybook(organizationId, req.params.id);
+    if (!current) {
+      res.status(404).json({ error: "Playbook not found" });
+      return;
+    }
+
+    const parsed = parseOrgPlaybookPayload(req.body, current);
+    if ("error" in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    const expectedVersionRaw = (req.body as Record<string, unknown>)
+      ?.expectedVersion;
+    const expectedVersion =
+      typeof expectedVersionRaw === "number" &&
+      Number.isInteger(expectedVersionRaw)
+        ? expectedVersionRaw
+        : current.version;
+
+    const playbook = await updateOrgPlaybook(
+      organizationId,
+      current.id,
+      parsed.definition,
+      {
+        profileId,
+        expectedVersion,
+        changeNote: readChangeNote(req.body),
+      },
+    );
+    if (!playbook) {
+      res.status(404).json({ error: "Playbook not found" });
+      return;
+    }
+    res.json({ playbook });
+  } catch (error) {
+    if (error instanceof OrgPlaybookConflictError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    console.error("[org] Playbook update failure", error);
+    res.status(500).json({ error: "Failed to update playbook" });
+  }
+});
+
+orgRouter.delete("/playbooks/:id", async (req, res) => {
+  const authorized = await authorizeRequest(req, res);
+  if (!authorized) return;
+
+  try {
+    const deleted = await deleteOrgPlaybook(
+      authorized.organizationId,
+      req.params.id,
+    );
+    if (!deleted) {
+      res.status(404).json({ error: "Playbook not found" });
+      return;
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error("[org] Playbook delete failure", error);
+    res.status(500).json({ error: "Failed to delete playbook" });
+  }
+});
+
+orgRouter.get("/playbooks/:id/versions", async (req, res) => {
+  const authorized = await authorizeRequest(req, res);
+  if (!authorized) return;
+
+  try {
+    const versions = await listOrgPlaybookVersions(
+      authorized.organizationId,
+      req.params.id,
+    );
+    if (!versions) {
+      res.status(404).json({ error: "Playbook not found" });
+      return;
+    }
+    res.json({ versions });
+  } catch (error) {
+    console.error("[org] Playbook versions failure", error);
+    res.status(500).json({ error: "Failed to load playbook versions" });
+  }
+});
+
+orgRouter.post("/playbooks/:id/versions/:version/restore", async (req, res) => {
+  const authorized = await authorizeRequest(req, res);
+  if (!authorized) return;
+
+  const { organizationId, profileId } = authorized;
+  const targetVersion = Number(req.params.version);
+
+  try {
+    const current = await getOrgPlaybook(organizationId, req.params.id);
+    const versions = current
+      ? await listOrgPlaybookVersions(organizationId, current.id)
+      : null;
+    const snapshot = versions?.find((entry) => entry.version === targetVersion);
+    if (!current || !snapshot) {
+      res.status(404).json({ error: "Playbook version not found" });
+      return;
+    }
+
+    // Restoring writes the old definition as a new version so history stays linear.
+    const playbook = await updateOrgPlaybook(
+      organizationId,
+      current.id,
+      snapshot.definition,
+      {
+        profileId,
+        expectedVersion: current.version,
+        changeNote: `Restored version ${snapshot.version}`,
+      },
+    );
+    res.json({ playbook });
+  } catch (error) {
+    if (error instanceof OrgPlaybookConflictError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+    console.error("[org] Playbook restore failure", error);
+    res.status(500).json({ error: "Failed to restore playbook version" });
+  }
+});
+
+orgRouter.get("/api-keys", requireUserAccess(), async (req, res) => {
+  const authorized = authorizeVerifiedOrgAdmin(req, res);
+  if (!authorized) return;
+
+  try {
+    const [keys, usage] = await Promise.all([
+      listOrgApiKeys(authorized.organizationId),
+      checkOrganizationReviewAllowance(authorized.organizationId),
+    ]);
+    res.json({
+      keys,
+      usage: { documentsUsed: usage.used, documentsLimit: usage.limit },
+    });
+  } catch (error) {
+    console.error("[org] API key list failure", error);
+    res.status(500).json({ error: "Failed to load API keys" });
+  }
+});
+
+orgRouter.post("/api-keys", requireUserAccess(), async (req, res) => {
+  const authorized = authorizeVerifiedOrgAdmin(req, res);
+  if (!authorized) return;
+
+  const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
+  const scopes: OrgApiKeyScope[] | undefined = Array.isArray(req.body?.scopes)
+    ? ORG_API_KEY_SCOPES.filter((scope) => req.body.scopes.includes(scope))
+    : undefined;
+  const rateLimitRaw = req.body?.rateLimitPerMinute;
+  const rateLimitPerMinute =
+    rateLimitRaw === undefined || rateLimitRaw === null
+      ? undefined
+      : Number(rateLimitRaw);
+
+  if (!name || name.length > 120) {
+    res.status(400).json({ error: "name is required (max 120 characters)" });
+    return;
+  }
+  if (scopes && scopes.length === 0) {
+    res.status(400).json({ error: "At least one valid scope is required" });
+    return;
+  }
+  if (
+    rateLimitPerMinute !== undefined &&
+    (!Number.isInteger(rateLimitPerMinute) ||
+      rateLimitPerMinute < 1 ||
+      rateLimitPerMinute > 600)
+  ) {
+    res
+      .status(400)
+      .json({ error: "rateLimitPerMinute must be between 1 and 600" });
+    return;
+  }
+
+  // Reviews submitted with the key are owned by the admin who created it.
+  const createdBy = authorized.profileId;
+  if (!createdBy) {
+    res.status(403).json({ error: "A user profile is required to own API keys" });
+    return;
+  }
+
+  try {
+    const created = await createOrgApiKey({
+      organizationId: authorized.organizationId,
+      createdBy,
+      name,
+      scopes,
+      rateLimitPerMinute,
+    });
+    res.status(201).json(created);
+  } catch (error) {
+    console.error("[org] API key create failure", error);
+    res.status(500).json({ error: "Failed to create API key" });
+  }
+});
+
+orgRouter.post(
+  "/api-keys/:keyId/revoke",
+  requireUserAccess(),
+  async (req, res) => {
+    const authorized = authorizeVerifiedOrgAdmin(req, res);
+    if (!authorized) return;
+
+    try {
+      const key = await revokeOrgApiKey(
+        authorized.organizationId,
+        req.params.keyId,
+      );
+      if (!key) {
+        res.status(404).json({ error: "Active API key not found" });
+        return;
+      }
+      res.json({ key });
+    } catch (error) {
+      console.error("[org] API key revoke failure", error);
+      res.status(500).json({ error: "Failed to revoke API key" });
+    }
+  },
+);
+
+orgRouter.get("/webhooks/endpoints", requireUserAccess(), async (req, res) => {
+  const authorized = authorizeVerifiedOrgAdmin(req, res);
+  if (!authorized) return;
+
+  try {
+    const endpoints = await listWebhookEndpoints(authorized.organizationId);
+    res.json({ endpoints });
+  } catch (error) {
+    console.error("[org] Webhook endpoint list failure", error);
+    res.status(500).json({ error: "Failed to load webhook endpoints" });
+  }
+});
+
+orgRouter.post("/webhooks/endpoints", requireUserAccess(), async (req, res) => {
+  const authorized = authorizeVerifiedOrgAdmin(req, res);
+  if (!authorized) return;
+
+  const parsed = parseWebhookEndpointInput(req.body);
+  if ("error" in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+
+  try {
+    const created = await createWebhookEndpoint(
+      authorized.organizationId,
+      parsed.input as OrgWebhookEndpointInput,
+      authorized.profileId,
+    );
+    res.status(201).json(created);
+  } catch (error) {
+    console.error("[org] Webhook endpoint create failure", error);
+    res.status(500).json({ error: "Failed to create webhook endpoint" });
+  }
+});
+
+orgRouter.patch(
+  "/webhooks/endpoints/:endpointId",
+  requireUserAccess(),
+  async (req, res) => {
+    const authorized = authorizeVerifiedOrgAdmin(req, res);
+    if (!authorized) return;
+
+    const parsed = parseWebhookEndpointInput(req.body, { partial: true });
+    if ("error" in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+
+    try {
+      const endpoint = await updateWebhookEndpoint(
+        authorized.organizationId,
+        req.params.endpointId,
+        parsed.input,
+      );
+      if (!endpoint) {
+        res.status(404).json({ error: "Webhook endpoint not found" });
+        return;
+      }
+      res.json({ endpoint });
+    } catch (error) {
+      console.error("[org] Webhook endpoint update failure", error);
+      res.status(500).json({ error: "Failed to update webhook endpoint" });
+    }
+  },
+);
+
+orgRouter.delete(
+  "/webhooks/endpoints/:endpointId",
+  requireUserAccess(),
+  async (req, res) => {
+    const authorized = authorizeVerifiedOrgAdmin(req, res);
+    if (!authorized) return;
+
+    try {
+      const deleted = await deleteWebhookEndpoint(
+        authorized.organizationId,
+        req.params.endpointId,
+      );
+      if (!deleted) {
+        res.status(404).json({ error: "Webhook endpoint not found" });
+        return;
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("[org] Webhook endpoint delete failure", error);
+      res.status(500).json({ error: "Failed to delete webhook endpoint" });
+    }
+  },
+);
+
+orgRouter.post(
+  "/webhooks/endpoints/:endpointId/rotate-secret",
+  requireUserAccess(),
+  async (req, res) => {
+    const authorized = authorizeVerifiedOrgAdmin(req, res);
+    if (!authorized) return;
+
+    try {
+      const rotated = await rotateWebhookSecret(
+        authorized.organizationId,
+        req.params.endpointId,
+      );
+      if (!rotated) {
+        res.status(404).json({ error: "Webhook endpoint not found" });
+        return;
+      }
+      res.json(rotated);
+    } catch (error) {
+      console.error("[org] Webhook secret rotation failure", error);
+      res.status(500).json({ error: "Failed to rotate webhook secret" });
+    }
+  },
+);
+
+orgRouter.get("/webhooks/deliveries", requireUserAccess(), async (req, res) => {
+  const authorized = authorizeVerifiedOrgAdmin(req, res);
+  if (!authorized) return;
+
+  const endpointId =
+    typeof req.query.endpointId === "string" ? req.query.endpointId : undefined;
+  const limitRaw = Number(req.query.limit);
+  const limit =
+    Number.isFinite(limitRaw) && limitRaw > 0
+      ? Math.min(Math.floor(limitRaw), 200)
+      : 50;
+
+  try {
+    const deliveries = await listWebhookDeliveries(authorized.organizationId, {
+      endpointId,
+      limit,
+    });
+    res.json({ deliveries });
+  } catch (error) {
+    console.error("[org] Webhook delivery list failure", error);
+    res.status(500).json({ error: "Failed to load webhook deliveries" });
+  }
+});
+
+orgRouter.post(
+  "/webhooks/deliveries/:deliveryId/replay",
+  requireUserAccess(),
+  async (req, res) => {
+    const authorized = authorizeVerifiedOrgAdmin(req, res);
+    if (!authorized) return;
+
+    try {
+      const delivery = await replayWebhookDelivery(
+        authorized.organizationId,
+        req.params.deliveryId,
+      );
+      if (!delivery) {
+        res.status(404).json({ error: "Webhook delivery not found" });
+        return;
+      }
+      res.status(202).json({ delivery });
+    } catch (error) {
+      console.error("[org] Webhook replay failure", error);
+      res.status(500).json({ error: "Failed to replay webhook delivery" });
+    }
+  },
+);
+
+orgRouter.get("/privacy", requireUserAccess(), async (req, res) => {
+  const authorized = authorizeVerifiedOrgAdmin(req, res);
+  if (!authorized) return;
+
+  try {
+    const settings = await getOrgPrivacySettings(authorized.organizationId);
+    res.json({ settings });
+  } catch (error) {
+    console.error("[org] Privacy settings fetch failure", error);
+    res.status(500).json({ error: "Failed to load privacy settings" });
+  }
+});
+
+orgRouter.patch("/privacy", requireUserAccess(), async (req, res) => {
+  const authorized = authorizeVerifiedOrgAdmin(req, res);
+  if (!authorized) return;
+
+  const { redactBeforeAnalysis, reviewCacheEnabled } = req.body ?? {};
+  for (const [field, value] of Object.entries({
+    redactBeforeAnalysis,
+    reviewCacheEnabled,
+  })) {
+    if (value !== undefined && typeof value !== "boolean") {
+      res.status(400).json({ error: `${field} must be a boolean` });
+      return;
+    }
+  }
+  if (redactBeforeAnalysis === undefined && reviewCacheEnabled === undefined) {
+    res.status(400).json({
+      error: "redactBeforeAnalysis or reviewCacheEnabled is required",
+    });
+    return;
+  }
+
+  try {
+    const settings = await updateOrgPrivacySettings(authorized.organizationId, {
+      redactBeforeAnalysis,
+      reviewCacheEnabled,
+    });
+    res.json({ settings });
+  } catch (error) {
+    console.error("[org] Privacy settings update failure", error);
+    res.status(500).json({ error: "Failed to update privacy settings" });
+  }
+});
+
+orgRouter.get("/scoring", requireUserAccess(), async (req, res) => {
+  const authorized = authorizeVerifiedOrgAdmin(req, res);
+  if (!authorized) return;
+
+  try {
+    const settings = await getOrgScoringSettings(authorized.organizationId);
+    res.json({ settings });
+  } catch (error) {
+    console.error("[org] Scoring profile fetch failure", error);
+    res.status(500).json({ error: "Failed to load scoring profile" });
+  }
+});
+
+orgRouter.put("/scoring", requireUserAccess(), async (req, res) => {
+  const authorized = authorizeVerifiedOrgAdmin(req, res);
+  if (!authorized) return;
+
+  const profile = req.body?.profile;
+  if (profile === undefined) {
+    res.status(400).json({ error: "profile is required" });
+    return;
+  }
+  if (profile !== null) {
+    const problem = validateScoringProfile(profile);
+    if (problem) {
+      res.status(400).json({ error: problem });
+      return;
+    }
+  }
+
+  try {
+    const settings = await updateOrgScoringProfile(
+      authorized.organizationId,
+      profile,
+    );
+    res.json({ settings });
+  } catch (error) {
+    console.error("[org] Scoring profile update failure", error);
+    res.status(500).json({ error: "Failed to update scoring profile" });
+  }
+});
+
+orgRouter.get("/retention", requireUserAccess(), async (req, res) => {
+  const authorized = authorizeVerifiedOrgAdmin(req, res);
+  if (!authorized) return;
+
+  try {
+    const [settings, purges] = await Promise.all([
+      getOrgRetentionSettings(authorized.organizationId),
+      listOrgRetentionPurges(authorized.organizationId),
+    ]);
+    res.json({ settings, purges });
+  } catch (error) {
+    console.error("[org] Retention settings fetch failure", error);
+    res.status(500).json({ error: "Failed to load retention settings" });
+  }
+});
+
+orgRouter.patch("/retention", requireUserAccess(), async (req, res) => {
+  const authorized = authorizeVerifiedOrgAdmin(req, res);
+  if (!authorized) return;
+
+  const legalHold = req.body?.legalHold;
+  if (typeof legalHold !== "boolean") {
+    res.status(400).json({ error: "legalHold must be a boolean" });
+    return;
+  }
+  const reasonRaw = req.body?.legalHoldReason;
+  const legalHoldReason =
+    typeof reasonRaw === "string" && reasonRaw.trim().length > 0
+      ? reasonRaw.trim().slice(0, 500)
+      : null;
+
+  try {
+    const settings = await updateOrgLegalHold(
+      authorized.organizationId,
+      legalHold,
+      legalHoldReason,
+    );
+    res.json({ settings });
+  } catch (error) {
+    console.error("[org] Legal hold update failure", error);
+    res.status(500).json({ error: "Failed to update legal hold" });
+  }
+});
+
+orgRouter.get("/approval-chains", async (req, res) => {
+  const authorized = await authorizeRequest(req, res);
+  if (!authorized) return;
+
+  try {
+    const chains = await listApprovalChains(authorized.organizationId);
+    res.json({ chains });
+  } catch (error) {
+    console.error("[org] Approval chains fetch failure", error);
+    res.status(500).json({ error: "Failed to load approval chains" });
+  }
+});
+
+orgRouter.post("/approval-chains", async (req, res) => {
+  const authorized = await authorizeRequest(req, res);
+  if (!authorized) return;
+
+  const parsed = parseApprovalChainInput(req.body);
+  if ("error" in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+
+  try {
+    const chain = await createApprovalChain(
+      authorized.organizationId,
+      parsed.input as ApprovalChainInput,
+      authorized.profileId,
+    );
+    res.status(201).json({ chain });
+  } catch (error) {
+    console.error("[org] Approval chain create failure", error);
+    res.status(500).json({ error: "Failed to create approval chain" });
+  }
+});
+
+orgRouter.patch("/approval-chains/:chainId", async (req, res) => {
+  const authorized = await authorizeRequest(req, res);
+  if (!authorized) return;
+
+  const parsed = parseApprovalChainInput(req.body, { partial: true });
+  if ("error" in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+
+  try {
+    const chain = await updateApprovalChain(
+      authorized.organizationId,
+      req.params.chainId,
+      parsed.input,
+    );
+    if (!chain) {
+      res.status(404).json({ error: "Approval chain not found" });
+      return;
+    }
+    res.json({ chain });
+  } catch (error) {
+    console.error("[org] Approval chain update failure", error);
+    res.status(500).json({ error: "Failed to update approval chain" });
+  }
+});
+
+orgRouter.delete("/approval-chains/:chainId", async (req, res) => {
+  const authorized = await authorizeRequest(req, res);
+  if (!authorized) return;
+
+  try {
+    const deleted = await deleteApprovalChain(
+      authorized.organizationId,
+      req.params.chainId,
+    );
+    if (!deleted) {
+      res.status(404).json({ error: "Approval chain not found" });
+      return;
+    }
+    res.status(204).end();
+  } catch (error) {
+    console.error("[org] Approval chain delete failure", error);
+    res.status(500).json({ error: "Failed to delete approval chain" });
+  }
+});
+
+orgRouter.get("/approval-trail", async (req, res) => {
+  const authorized = await authorizeRequest(req, res);
+  if (!authorized) return;
+
+  const contractId =
+    typeof req.query.contractId === "string" && req.query.contractId.trim()
+      ? req.query.contractId.trim()
+      : undefined;
+
+  try {
+    const events = await listApprovalTrail(authorized.organizationId, {
+      contractId,
+    });
+    res.json({ organizationId: authorized.organizationId, events });
+  } catch (error) {
+    console.error("[org] Approval trail fetch failure", error);
+    res.status(500).json({ error: "Failed to load approval trail" });
+  }
+});
+
 export { orgRouter };
@@ -0,0 +1,261 @@
+import type { NextFunction, Request, Response } from "express";
+import express from "express";
+import multer from "multer";
+import crypto from "node:crypto";
+import path from "node:path";
+import fs from "node:fs";
+import os from "node:os";
+import { removeLocalFile } from "../services/storageService";
+import {
+  authenticateApiKey,
+  createApiKeyRateLimiter,
+  type AuthenticatedApiKey,
+} from "../services/orgApiKeysRepository";
+import {
+  API_REVIEW_TYPES,
+  ApiReviewQuotaExceededError,
+  advanceApiReviewJob,
+  createApiReviewJob,
+  getApiReviewJob,
+  getApiReviewReport,
+  registerApiDocument,
+} from "../services/apiReviewRunner";
+import { publicApiV1OpenApiDocument } from "../openapi/publicApiV1";
+import { SOLUTION_ALIAS_MAP, type SolutionKey } from "../../shared/solutions";
+import type { ApiReviewCreateRequest, OrgApiKeyScope } from "../../shared/api";
+
+const uploadDirectory = path.join(os.tmpdir(), "api-uploads");
+fs.mkdirSync(uploadDirectory, { recursive: true });
+
+const uploader = multer({
+  storage: multer.diskStorage({
+    destination: (_req, _file, cb) => {
+      cb(null, uploadDirectory);
+    },
+    filename: (_req, file, cb) => {
+      cb(null, `${Date.now()}-${crypto.randomUUID()}${path.extname(file.originalname)}`);
+    },
+  }),
+  limits: { fileSize: 50 * 1024 * 1024, files: 1 },
+});
+
+const SOLUTION_KEYS = SOLUTION_ALIAS_MAP.map((entry) => entry.key) as SolutionKey[];
+
+const rateLimiter = createApiKeyRateLimiter();
+
+export const publicApiRouter = express.Router();
+
+function readApiKey(req: Request): string {
+  const header = req.header("authorization") ?? "";
+  const bearer = header.replace(/^Bearer\s+/i, "").trim();
+  if (bearer && bearer !== header) {
+    return bearer;
+  }
+  return (req.header("x-api-key") ?? "").trim();
+}
+
+function requireApiKey(scope: OrgApiKeyScope) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const secret = readApiKey(req);
+    if (!secret) {
+      res.status(401).json({ error: "API key required" });
+      return;
+    }
+
+    try {
+      const apiKey = await authenticateApiKey(secret);
+      if (!apiKey) {
+        res.status(401).json({ error: "Invalid or revoked API key" });
+        return;
+      }
+
+      if (!apiKey.scopes.includes(scope)) {
+        res.status(403).json({ error: `API key is missing the ${scope} scope` });
+        return;
+      }
+
+      const decision = rateLimiter.consume(apiKey.id, apiKey.rateLimitPerMinute);
+      res.setHeader("X-RateLimit-Limit", String(decision.limit));
+      res.setHeader("X-RateLimit-Remaining", String(decision.remaining));
+      res.setHeader(
+        "X-RateLimit-Reset",
+        String(Math.ceil(decision.resetAt / 1000)),
+      );
+      if (!decision.allowed) {
+        res.setHeader(
+          "Retry-After",
+          String(Math.max(1, Math.ceil((decision.resetAt - Date.now()) / 1000))),
+        );
+        res.status(429).json({ error: "Rate limit exceeded" });
+        return;
+      }
+
+      res.locals.apiKey = apiKey;
+      next();
+    } catch (error) {
+      console.error("[api] API key authentication failure", error);
+      res.status(500).json({ error: "Failed to authenticate API key" });
+    }
+  };
+}
+
+function getApiKey(res: Response): AuthenticatedApiKey {
+  return res.locals.apiKey as AuthenticatedApiKey;
+}
+
+publicApiRouter.get("/openapi.json", (_req, res) => {
+  res.json(publicApiV1OpenApiDocument);
+});
+
+publicApiRouter.post(
+  "/documents",
+  requireApiKey("documents:write"),
+  uploader.single("file"),
+  async (req, res) => {
+    if (!req.file) {
+      res.status(400).json({ error: "File is required" });
+      return;
+    }
+
+    try {
+      const document = await registerApiDocument(getApiKey(res), {
+        path: req.file.path,
+        originalName: req.file.originalname,
+        mimeType: req.file.mimetype || "application/octet-stream",
+        size: req.file.size,
+      });
+      res.status(201).json(document);
+    } catch (error) {
+      console.error("[api] Document upload failure", error);
+      res.status(500).json({ error: "Failed to upload document" });
+    } finally {
+      await removeLocalFile(req.file.path);
+    }
+  },
+);
+
+publicApiRouter.post("/reviews", requireApiKey("reviews:write"), async (req, res) => {
+  const body = (req.body ?? {}) as Partial<ApiReviewCreateRequest>;
+  const documentId =
+    typeof body.documentId === "string" ? body.documentId.trim() : "";
+  const solutionKey =
+    typeof body.solutionKey === "string" && body.solutionKey.trim()
+      ? body.solutionKey.trim().toLowerCase()
+      : null;
+  const reviewType =
+    typeof body.reviewType === "string" && body.reviewType.trim()
+      ? body.reviewType.trim()
+      : "full_summary";
+  const perspective =
+    typeof body.perspective === "string" && body.perspective.trim()
+      ? body.perspective.trim().slice(0, 120)
+      : null;
+
+  if (!documentId) {
+    res.status(400).json({ error: "documentId is required" });
+    return;
+  }
+  if (solutionKey && !SOLUTION_KEYS.includes(solutionKey as SolutionKey)) {
+    res.status(400).json({
+      error: `solutionKey must be one of ${SOLUTION_KEYS.join(", ")}`,
+    });
+    return;
+  }
+  if (!(API_REVIEW_TYPES as readonly string[]).includes(reviewType)) {
+    res.status(400).json({
+      error: `reviewType must be one of ${API_REVIEW_TYPES.join(", ")}`,
+    });
+    return;
+  }
+
+  try {
+    const job = await createApiReviewJob(getApiKey(res), {
+      documentId,
+      solutionKey: solutionKey as SolutionKey | null,
+      perspective,
+      reviewType,
+    });
+    if (!job) {
+      res.status(404).json({ error: "Document not found" });
+      return;
+    }
+
+    void advanceApiReviewJob(job.id).catch((error) => {
+      console.warn("[api] Initial review step failed", { jobId: job.id, error });
+    });
+    res.status(202).json(job);
+  } catch (error) {
+    if (error instanceof ApiReviewQuotaExceededError) {
+      res.status(402).json({
+        error: "quota_exceeded",
+        message: error.message,
+        used: error.used,
+        limit: error.limit,
+      });
+      return;
+    }
+    console.error("[api] Review submission failure", error);
+    res.status(500).json({ error: "Failed to start review" });
+  }
+});
+
+publicApiRouter.get(
+  "/reviews/:jobId",
+  requireApiKey("reviews:read"),
+  async (req, res) => {
+    const { organizationId } = getApiKey(res);
+    try {
+      const job = await getApiReviewJob(organizationId, req.params.jobId);
+      if (!job) {
+        res.status(404).json({ error: "Review not found" });
+        return;
+      }
+
+      if (job.status === "queued" || job.status === "running") {
+        // Polling drives progress when no worker is running; a no-op while
+        // another process holds the job or before its next poll is due.
+        await advanceApiReviewJob(job.id);
+        res.json(await getApiReviewJob(organizationId, job.id));
+        return;
+      }
+
+      res.json(job);
+    } catch (error) {
+      console.error("[api] Review status failure", error);
+      res.status(500).json({ error: "Failed to load review status" });
+    }
+  },
+);
+
+publicApiRouter.get(
+  "/reviews/:jobId/report",
+  requireApiKey("reviews:read"),
+  async (req, res) => {
+    try {
+      const { job, report } = await getApiReviewReport(
+        getApiKey(res).organizationId,
+        req.params.jobId,
+      );
+      if (!job) {
+        res.status(404).json({ error: "Review not found" });
+        return;
+      }
+      if (job.status !== "completed") {
+        res.status(409).json({
+          error: "Review is not completed",
+          status: job.status,
+        });
+        return;
+      }
+      if (!report) {
+        res.status(500).json({ error: "Stored report failed validation" });
+        return;
+      }
+
+      res.json({ reviewId: job.reviewId, contractId: job.contractId, report });
+    } catch (error) {
+      console.error("[api] Review report failure", error);
+      res.status(500).json({ error: "Failed to load review report" });
+    }
+  },
+);
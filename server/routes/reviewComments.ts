@@ -0,0 +1,116 @@
+import express, { type Request, type Response } from "express";
+import { getRequestAccess, requireUserAccess } from "../lib/requestAuth";
+import {
+  ReviewCommentError,
+  createReviewComment,
+  listMentionableMembers,
+  listReviewCommentThreads,
+  resolveReviewCommentContext,
+  setReviewCommentThreadResolved,
+} from "../services/reviewComments";
+
+export const reviewCommentsRouter = express.Router();
+
+reviewCommentsRouter.use(requireUserAccess());
+
+// Any member who can see a review may comment on it, so this checks the
+// review's visibility instead of requiring an org admin.
+async function loadReviewContext(req: Request, res: Response) {
+  const access = getRequestAccess(res);
+  try {
+    const context = await resolveReviewCommentContext(
+      req.params.reviewId,
+      access,
+    );
+    if (!context) {
+      res.status(404).json({ error: "Review not found" });
+      return null;
+    }
+    return { access, context };
+  } catch (error) {
+    console.error("[review-comments] Review lookup failure", error);
+    res.status(500).json({ error: "Failed to load review" });
+    return null;
+  }
+}
+
+reviewCommentsRouter.get("/:reviewId/comments", async (req, res) => {
+  const authorized = await loadReviewContext(req, res);
+  if (!authorized) return;
+
+  try {
+    const threads = await listReviewCommentThreads(authorized.context);
+    res.json({ threads });
+  } catch (error) {
+    console.error("[review-comments] List failure", error);
+    res.status(500).json({ error: "Failed to load comments" });
+  }
+});
+
+reviewCommentsRouter.get("/:reviewId/comments/members", async (req, res) => {
+  const authorized = await loadReviewContext(req, res);
+  if (!authorized) return;
+
+  try {
+    const members = await listMentionableMembers(authorized.context);
+    res.json({ members });
+  } catch (error) {
+    console.error("[review-comments] Members failure", error);
+    res.status(500).json({ error: "Failed to load members" });
+  }
+});
+
+reviewCommentsRouter.post("/:reviewId/comments", async (req, res) => {
+  const authorized = await loadReviewContext(req, res);
+  if (!authorized) return;
+
+  try {
+    const comment = await createReviewComment(
+      authorized.context,
+      authorized.access.profileId,
+      req.body ?? {},
+    );
+    res.status(201).json({ comment });
+  } catch (error) {
+    if (error instanceof ReviewCommentError) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    console.error("[review-comments] Create failure", error);
+    res.status(500).json({ error: "Failed to add comment" });
+  }
+});
+
+reviewCommentsRouter.patch(
+  "/:reviewId/comments/:commentId",
+  async (req, res) => {
+    const authorized = await loadReviewContext(req, res);
+    if (!authorized) return;
+
+    if (typeof req.body?.resolved !== "boolean") {
+      res.status(400).json({ error: "resolved must be a boolean" });
+      return;
+    }
+
+    try {
+      const updated = await setReviewCommentThreadResolved(
+        authorized.context,
+        req.params.commentId,
+        req.body.resolved,
+        authorized.access.profileId,
+      );
+      if (!updated) {
+        res.status(404).json({ error: "Thread not found" });
+        return;
+      }
+      const threads = await listReviewCommentThreads(authorized.context);
+      res.json({
+        thread:
+          threads.find((thread) => thread.id === req.params.commentId) ?? null,
+      });
+    } catch (error) {
+      console.error("[review-comments] Update failure", error);
+      res.status(500).json({ error: "Failed to update thread" });
+    }
+  },
+);
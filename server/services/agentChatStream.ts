@@ -0,0 +1,89 @@
+import {
+  restoreRedactions,
+  type RedactionMap,
+} from "../../shared/ai/redaction";
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Reads `message.content` out of the agent's JSON reply while the reply is
+ * still arriving. Returns the decoded text available so far (stopping before
+ * an incomplete escape) or null until the content string has opened.
+ */
+export function extractPartialMessageContent(
+  raw: string,
+): { text: string; complete: boolean } | null {
+  const messageIndex = raw.indexOf('"message"');
+  if (messageIndex === -1) return null;
+  const opener = /"content"\s*:\s*"/.exec(raw.slice(messageIndex));
+  if (!opener) return null;
+
+  let text = "";
+  let index = messageIndex + opener.index + opener[0].length;
+  while (index < raw.length) {
+    const char = raw[index];
+    if (char === '"') return { text, complete: true };
+    if (char !== "\\") {
+      text += char;
+      index += 1;
+      continue;
+    }
+    const code = raw[index + 1];
+    if (code === undefined) break;
+    if (code === "u") {
+      const hex = raw.slice(index + 2, index + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      text += String.fromCharCode(parseInt(hex, 16));
+      index += 6;
+      continue;
+    }
+    text += JSON_ESCAPES[code] ?? code;
+    index += 2;
+  }
+  return { text, complete: false };
+}
+
+/**
+ * Turns raw model fragments into display deltas of the assistant message.
+ * Redaction placeholders are restored before they leave the server, so a
+ * trailing "[PARTY_" is held back until its closing bracket arrives.
+ */
+export function createAgentContentStream(options: {
+  redaction: RedactionMap | null;
+  onText: (delta: string) => void;
+}) {
+  let raw = "";
+  let emitted = 0;
+
+  return {
+    push(fragment: string) {
+      raw += fragment;
+      const content = extractPartialMessageContent(raw);
+      if (!content) return;
+      const visible = content.complete
+        ? content.text
+        : content.text.replace(/\[[A-Z_]*\d*$/, "");
+      const restored = options.redaction
+        ? restoreRedactions(visible, options.redaction)
+        : visible;
+      if (restored.length > emitted) {
+        options.onText(restored.slice(emitted));
+        emitted = restored.length;
+      }
+    },
+    /** Starts over after a provider failover discards the partial reply. */
+    reset() {
+      raw = "";
+      emitted = 0;
+    },
+  };
+}
@@ -0,0 +1,496 @@
+import { RequestAuthError } from "../lib/requestAuth";
+import { assertContractAccess } from "../lib/resourceAccess";
+import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import type {
+  AgentChatProposedEdit,
+  AgentChatThread,
+  AgentChatThreadDetail,
+  AgentChatThreadMessage,
+  AppendAgentChatMessageInput,
+  UpdateAgentChatThreadRequest,
+  UserAccessContext,
+} from "../../shared/api";
+
+interface AgentChatThreadRecord {
+  id: string;
+  contract_id: string;
+  owner_id: string;
+  organization_id: string | null;
+  title: string;
+  shared_with_org: boolean;
+  last_message_at: string | null;
+  created_at: string;
+}
+
+interface AgentChatMessageRecord {
+  id: string;
+  thread_id: string;
+  role: "user" | "assistant";
+  content: string;
+  proposed_edits: unknown;
+  provider: string | null;
+  model: string | null;
+  created_at: string;
+}
+
+export class AgentChatThreadError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "AgentChatThreadError";
+  }
+}
+
+const THREAD_COLUMNS =
+  "id, contract_id, owner_id, organization_id, title, shared_with_org, last_message_at, created_at";
+const MESSAGE_COLUMNS =
+  "id, thread_id, role, content, proposed_edits, provider, model, created_at";
+const MAX_TITLE_LENGTH = 120;
+const MAX_MESSAGE_LENGTH = 50_000;
+const MAX_MESSAGES_PER_APPEND = 20;
+const MAX_EDITS_PER_MESSAGE = 10;
+const DEFAULT_THREAD_TITLE = "New conversation";
+
+/** Thread titles fall back to a default rather than rejecting blank input. */
+export function normalizeThreadTitle(value: unknown): string {
+  const trimmed =
+    typeof value === "string" ? value.trim().replace(/\s+/g, " ") : "";
+  if (!trimmed) return DEFAULT_THREAD_TITLE;
+  return trimmed.length > MAX_TITLE_LENGTH
+    ? `${trimmed.slice(0, MAX_TITLE_LENGTH - 1)}…`
+    : trimmed;
+}
+
+function readEdits(value: unknown): AgentChatProposedEdit[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(
+      (edit): edit is AgentChatProposedEdit =>
+        Boolean(edit) &&
+        typeof edit === "object" &&
+        typeof edit.id === "string" &&
+        typeof edit.suggestedText === "string",
+    )
+    .slice(0, MAX_EDITS_PER_MESSAGE);
+}
+
+/**
+ * Validates messages a client wants to persist. Proposed edits are only kept
+ * on assistant messages, since only the agent proposes them.
+ */
+export function parseAgentChatMessages(
+  value: unknown,
+): { messages: AppendAgentChatMessageInput[] } | { error: string } {
+  if (!Array.isArray(value) || !value.length) {
+    return { error: "messages must be a non-empty array" };
+  }
+  if (value.length > MAX_MESSAGES_PER_APPEND) {
+    return {
+      error: `At most ${MAX_MESSAGES_PER_APPEND} messages can be saved at once`,
+    };
+  }
+  const messages: AppendAgentChatMessageInput[] = [];
+  for (const entry of value) {
+    const role = entry?.role;
+    const content = entry?.content;
+    if (role !== "user" && role !== "assistant") {
+      return { error: "Message role must be user or assistant" };
+    }
+    if (typeof content !== "string" || !content.trim()) {
+      return { error: "Message content is required" };
+    }
+    if (content.length > MAX_MESSAGE_LENGTH) {
+      return {
+        error: `Messages are limited to ${MAX_MESSAGE_LENGTH} characters`,
+      };
+    }
+    messages.push({
+      role,
+      content,
+      proposedEdits: role === "assistant" ? readEdits(entry.proposedEdits) : [],
+      provider: typeof entry.provider === "string" ? entry.provider : null,
+      model: typeof entry.model === "string" ? entry.model : null,
+    });
+  }
+  return { messages };
+}
+
+/** Groups accepted edit ids by the message that proposed them. */
+export function groupAcceptedEdits(
+  rows: Array<{ message_id: string | null; proposed_edit_id: string | null }>,
+): Map<string, string[]> {
+  const accepted = new Map<string, string[]>();
+  rows.forEach((row) => {
+    if (!row.message_id || !row.proposed_edit_id) return;
+    const ids = accepted.get(row.message_id) ?? [];
+    if (!ids.includes(row.proposed_edit_id)) ids.push(row.proposed_edit_id);
+    accepted.set(row.message_id, ids);
+  });
+  return accepted;
+}
+
+function mapThreadRow(
+  row: AgentChatThreadRecord,
+  access: UserAccessContext,
+  ownerNames: Map<string, string>,
+): AgentChatThread {
+  return {
+    id: row.id,
+    contractId: row.contract_id,
+    title: row.title,
+    ownerId: row.owner_id,
+    ownerName: ownerNames.get(row.owner_id) ?? null,
+    isOwner: row.owner_id === access.profileId,
+    sharedWithOrg: row.shared_with_org,
+    lastMessageAt: row.last_message_at,
+    createdAt: row.created_at,
+  };
+}
+
+function mapMessageRow(
+  row: AgentChatMessageRecord,
+  accepted: Map<string, string[]>,
+): AgentChatThreadMessage {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    proposedEdits: readEdits(row.proposed_edits),
+    acceptedEditIds: accepted.get(row.id) ?? [],
+    provider: row.provider,
+    model: row.model,
+    createdAt: row.created_at,
+  };
+}
+
+async function loadOwnerNames(
+  ownerIds: string[],
+): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  const unique = Array.from(new Set(ownerIds));
+  if (!unique.length) return names;
+  const { data, error } = await getSupabaseAdminClient()
+    .from("user_profiles")
+    .select("id, email, first_name, last_name")
+    .in("id", unique);
+  if (error) {
+    throw error;
+  }
+  (
+    (data ?? []) as Array<{
+      id: string;
+      email: string | null;
+      first_name: string | null;
+      last_name: string | null;
+    }>
+  ).forEach((profile) => {
+    const name = `${profile.first_name ?? ""} ${profile.last_name ?? ""}`
+      .trim()
+      .replace(/\s+/g, " ");
+    names.set(profile.id, name || profile.email || profile.id);
+  });
+  return names;
+}
+
+/** Threads hang off contracts the member can already open. */
+async function assertContractVisible(
+  contractId: string,
+  access: UserAccessContext,
+): Promise<void> {
+  try {
+    await assertContractAccess(access, contractId);
+  } catch (error) {
+    if (error instanceof RequestAuthError) {
+      throw new AgentChatThreadError(error.message, error.status);
+    }
+    throw error;
+  }
+}
+
+/** Own threads, plus threads shared with the member's organization. */
+function visibleThreadFilter(access: UserAccessContext) {
+  return access.organizationId
+    ? `owner_id.eq.${access.profileId},and(shared_with_org.eq.true,organization_id.eq.${access.organizationId})`
+    : `owner_id.eq.${access.profileId}`;
+}
+
+async function loadVisibleThread(
+  threadId: string,
+  access: UserAccessContext,
+): Promise<AgentChatThreadRecord> {
+  const { data, error } = await getSupabaseAdminClient()
+    .from("agent_chat_threads")
+    .select(THREAD_COLUMNS)
+    .eq("id", threadId)
+    .or(visibleThreadFilter(access))
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new AgentChatThreadError("Conversation not found", 404);
+  }
+  return data as AgentChatThreadRecord;
+}
+
+async function loadOwnedThread(
+  threadId: string,
+  access: UserAccessContext,
+): Promise<AgentChatThreadRecord> {
+  const thread = await loadVisibleThread(threadId, access);
+  if (thread.owner_id !== access.profileId) {
+    throw new AgentChatThreadError("Shared conversations are read-only", 403);
+  }
+  return thread;
+}
+
+export async function listAgentChatThreads(
+  access: UserAccessContext,
+  contractId: string,
+): Promise<AgentChatThread[]> {
+  await assertContractVisible(contractId, access);
+  const { data, error } = await getSupabaseAdminClient()
+    .from("agent_chat_threads")
+    .select(THREAD_COLUMNS)
+    .eq("contract_id", contractId)
+    .or(visibleThreadFilter(access))
+    .order("last_message_at", { ascending: false, nullsFirst: false })
+    .order("created_at", { ascending: false });
+  if (error) {
+    throw error;
+  }
+  const rows = (data ?? []) as AgentChatThreadRecord[];
+  const ownerNames = await loadOwnerNames(rows.map((row) => row.owner_id));
+  return rows.map((row) => mapThreadRow(row, access, ownerNames));
+}
+
+export async function createAgentChatThread(
+  access: UserAccessContext,
+  contractId: unknown,
+  title: unknown,
+): Promise<AgentChatThread> {
+  if (typeof contractId !== "string" || !contractId.trim()) {
+    throw new AgentChatThreadError("contractId is required", 400);
+  }
+  await assertContractVisible(contractId, access);
+  const { data, error } = await getSupabaseAdminClient()
+    .from("agent_chat_threads")
+    .insert({
+      contract_id: contractId,
+      owner_id: access.profileId,
+      organization_id: access.organizationId,
+      title: normalizeThreadTitle(title),
+    })
+    .select(THREAD_COLUMNS)
+    .single();
+  if (error) {
+    throw error;
+  }
+  const ownerNames = await loadOwnerNames([access.profileId]);
+  return mapThreadRow(data as AgentChatThreadRecord, access, ownerNames);
+}
+
+export async function getAgentChatThread(
+  access: UserAccessContext,
+  threadId: string,
+): Promise<AgentChatThreadDetail> {
+  const thread = await loadVisibleThread(threadId, access);
+  const supabase = getSupabaseAdminClient();
+  const [messagesResult, approvalsResult, ownerNames] = await Promise.all([
+    supabase
+      .from("agent_chat_messages")
+      .select(MESSAGE_COLUMNS)
+      .eq("thread_id", thread.id)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("agent_edit_approvals")
+      .select("message_id, proposed_edit_id")
+      .eq("thread_id", thread.id),
+    loadOwnerNames([thread.owner_id]),
+  ]);
+  if (messagesResult.error) {
+    throw messagesResult.error;
+  }
+  if (approvalsResult.error) {
+    throw approvalsResult.error;
+  }
+  const accepted = groupAcceptedEdits(
+    (approvalsResult.data ?? []) as Array<{
+      message_id: string | null;
+      proposed_edit_id: string | null;
+    }>,
+  );
+  return {
+    thread: mapThreadRow(thread, access, ownerNames),
+    messages: ((messagesResult.data ?? []) as AgentChatMessageRecord[]).map(
+      (row) => mapMessageRow(row, accepted),
+    ),
+  };
+}
+
+export async function updateAgentChatThread(
+  access: UserAccessContext,
+  threadId: string,
+  input: UpdateAgentChatThreadRequest,
+): Promise<AgentChatThread> {
+  const thread = await loadOwnedThread(threadId, access);
+  const changes: Record<string, unknown> = {};
+  if (input.title !== undefined) {
+    changes.title = normalizeThreadTitle(input.title);
+  }
+  if (input.sharedWithOrg !== undefined) {
+    if (typeof input.sharedWithOrg !== "boolean") {
+      throw new AgentChatThreadError("sharedWithOrg must be a boolean", 400);
+    }
+    if (input.sharedWithOrg && !access.organizationId) {
+      throw new AgentChatThreadError(
+        "Join an organization to share conversations",
+        400,
+      );
+    }
+    changes.shared_with_org = input.sharedWithOrg;
+    // Sharing follows the owner's current organization.
+    changes.organization_id = access.organizationId;
+  }
+  if (!Object.keys(changes).length) {
+    throw new AgentChatThreadError("Nothing to update", 400);
+  }
+
+  const { data, error } = await getSupabaseAdminClient()
+    .from("agent_chat_threads")
+    .update(changes)
+    .eq("id", thread.id)
+    .select(THREAD_COLUMNS)
+    .single();
+  if (error) {
+    throw error;
+  }
+  const ownerNames = await loadOwnerNames([thread.owner_id]);
+  return mapThreadRow(data as AgentChatThreadRecord, access, ownerNames);
+}
+
+export async function deleteAgentChatThread(
+  access: UserAccessContext,
+  threadId: string,
+): Promise<void> {
+  const thread = await loadOwnedThread(threadId, access);
+  const { error } = await getSupabaseAdminClient()
+    .from("agent_chat_threads")
+    .delete()
+    .eq("id", thread.id);
+  if (error) {
+    throw error;
+  }
+}
+
+export async function appendAgentChatMessages(
+  access: UserAccessContext,
+  threadId: string,
+  messages: AppendAgentChatMessageInput[],
+): Promise<AgentChatThreadMessage[]> {
+  const thread = await loadOwnedThread(threadId, access);
+  const supabase = getSupabaseAdminClient();
+  // Stagger timestamps so a user turn and its reply keep their order.
+  const base = Date.now();
+  const { data, error } = await supabase
+    .from("agent_chat_messages")
+    .insert(
+      messages.map((message, index) => ({
+        thread_id: thread.id,
+        role: message.role,
+        content: message.content,
+        proposed_edits: message.proposedEdits ?? [],
+        provider: message.provider ?? null,
+        model: message.model ?? null,
+        created_at: new Date(base + index).toISOString(),
+      })),
+    )
+    .select(MESSAGE_COLUMNS);
+  if (error) {
+    throw error;
+  }
+
+  const { error: touchError } = await supabase
+    .from("agent_chat_threads")
+    .update({ last_message_at: new Date(base).toISOString() })
+    .eq("id", thread.id);
+  if (touchError) {
+    throw touchError;
+  }
+
+  return ((data ?? []) as AgentChatMessageRecord[])
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map((row) => mapMessageRow(row, new Map()));
+}
+
+/**
+ * Records a proposed edit from the thread in agent_edit_approvals. Accepting
+ * the same edit twice is a no-op.
+ */
+export async function acceptAgentChatEdit(
+  access: UserAccessContext,
+  threadId: string,
+  messageId: unknown,
+  editId: unknown,
+  reviewId?: unknown,
+): Promise<void> {
+  if (typeof messageId !== "string" || typeof editId !== "string") {
+    throw new AgentChatThreadError("messageId and editId are required", 400);
+  }
+  const thread = await loadOwnedThread(threadId, access);
+  const supabase = getSupabaseAdminClient();
+  const { data: message, error } = await supabase
+    .from("agent_chat_messages")
+    .select(MESSAGE_COLUMNS)
+    .eq("id", messageId)
+    .eq("thread_id", thread.id)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  const edit = message
+    ? readEdits((message as AgentChatMessageRecord).proposed_edits).find(
+        (candidate) => candidate.id === editId,
+      )
+    : undefined;
+  if (!edit) {
+    throw new AgentChatThreadError("Proposed edit not found", 404);
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from("agent_edit_approvals")
+    .select("id")
+    .eq("thread_id", thread.id)
+    .eq("message_id", messageId)
+    .eq("proposed_edit_id", editId)
+    .limit(1);
+  if (existingError) {
+    throw existingError;
+  }
+  if (existing?.length) return;
+
+  const { error: insertError } = await supabase
+    .from("agent_edit_approvals")
+    .insert({
+      user_id: access.profileId,
+      contract_id: thread.contract_id,
+      review_id:
+        typeof reviewId === "string" && reviewId.trim() ? reviewId : null,
+      thread_id: thread.id,
+      message_id: messageId,
+      proposed_edit_id: edit.id,
+      clause_reference: edit.clauseReference ?? null,
+      change_type: edit.changeType ?? null,
+      suggested_text: edit.suggestedText,
+      rationale: edit.rationale ?? null,
+      metadata: {
+        source: "agent_chat",
+        originalText: edit.originalText ?? null,
+      },
+    });
+  if (insertError) {
+    throw insertError;
+  }
+}
@@ -0,0 +1,1009 @@
+import crypto from "crypto";
+import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import { computeRetryDelayMs, type RetryPolicy } from "./jobQueue";
+import { assertPublicWebhookTarget } from "./orgWebhooks";
+import type {
+  OrgAlertChannel,
+  OrgAlertDelivery,
+  OrgAlertDeliveryMode,
+  OrgAlertDeliveryStatus,
+  OrgAlertMessage,
+  OrgAlertMessageItem,
+  OrgAlertPreferences,
+  OrgAlertType,
+} from "../../shared/api";
+
+export const APP_BASE_URL = (
+  process.env.PUBLIC_APP_URL ||
+  process.env.APP_ORIGIN ||
+  process.env.PUBLIC_SITE_URL ||
+  "http://localhost:3000"
+).replace(/\/$/, "");
+
+export const ALERT_EMAIL_FUNCTION =
+  process.env.SENDGRID_ORG_ALERT_FUNCTION || "send-org-alert-sendgrid";
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const DIGEST_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// Deliveries stuck in "sending" longer than this were cut short by a crash.
+const STALE_SENDING_MS = 10 * 60 * 1000;
+// First scan for an organization only looks this far back so enabling alerts
+// does not replay the whole review history.
+const INITIAL_SCAN_WINDOW_MS = 60 * 60 * 1000;
+const PENDING_EDIT_THRESHOLD_MS = (() => {
+  const hours = Number(process.env.ALERT_PENDING_EDIT_HOURS ?? 24);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 24) * 60 * 60 * 1000;
+})();
+
+export const ALERT_MAX_ATTEMPTS = 3;
+export const ALERT_RETRY_POLICY: RetryPolicy = {
+  baseDelayMs: 60_000,
+  maxDelayMs: 60 * 60 * 1000,
+};
+
+export const ALERT_SIGNATURE_HEADER = "x-maigon-signature";
+
+const HIGH_RISK_SEVERITIES = new Set(["critical", "high"]);
+
+interface AlertPreferencesRecord {
+  organization_id: string;
+  notify_high_risk: boolean;
+  notify_pending_edits: boolean;
+  alert_channel: string;
+  last_digest_at: string | null;
+  delivery_mode: string | null;
+  email_recipients: unknown;
+  webhook_url: string | null;
+  webhook_secret: string | null;
+  slack_webhook_url: string | null;
+  high_risk_cursor: string | null;
+  pending_edits_cursor: string | null;
+}
+
+interface AlertDeliveryRecord {
+  id: string;
+  organization_id: string;
+  alert_type: string;
+  channel: string;
+  dedupe_key: string;
+  status: string;
+  payload: unknown;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  response_status: number | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+export const ALERT_PREFERENCES_COLUMNS =
+  "organization_id, notify_high_risk, notify_pending_edits, alert_channel, last_digest_at, delivery_mode, email_recipients, webhook_url, webhook_secret, slack_webhook_url, high_risk_cursor, pending_edits_cursor";
+
+export class AlertChannelError extends Error {
+  constructor(
+    message: string,
+    readonly responseStatus: number | null = null,
+  ) {
+    super(message);
+    this.name = "AlertChannelError";
+  }
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter(
+        (item): item is string => typeof item === "string" && item.trim() !== "",
+      )
+    : [];
+}
+
+export function normalizeAlertChannel(value: unknown): OrgAlertChannel {
+  return value === "webhook" || value === "slack" ? value : "email";
+}
+
+export function mapAlertPreferencesRow(
+  row: Partial<AlertPreferencesRecord>,
+): OrgAlertPreferences {
+  return {
+    notifyHighRisk: row.notify_high_risk ?? true,
+    notifyPendingEdits: row.notify_pending_edits ?? false,
+    alertChannel: row.alert_channel ?? "email",
+    lastDigestAt: row.last_digest_at ?? null,
+    deliveryMode: row.delivery_mode === "digest" ? "digest" : "immediate",
+    emailRecipients: toStringArray(row.email_recipients),
+    webhookUrl: row.webhook_url ?? null,
+    webhookSecretConfigured: Boolean(row.webhook_secret),
+    slackWebhookUrl: row.slack_webhook_url ?? null,
+  };
+}
+
+function mapDeliveryRow(row: AlertDeliveryRecord): OrgAlertDelivery {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    alertType: row.alert_type as OrgAlertType,
+    channel: normalizeAlertChannel(row.channel),
+    status: row.status as OrgAlertDeliveryStatus,
+    message: row.payload as OrgAlertMessage,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    nextAttemptAt: row.next_attempt_at ?? null,
+    lastError: row.last_error ?? null,
+    responseStatus: row.response_status ?? null,
+    sentAt: row.sent_at ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+function collectDecisions(
+  payload: unknown,
+  defaultSeverity: string,
+): Array<{ severity: string; description: string }> {
+  if (!Array.isArray(payload)) return [];
+  return payload
+    .map((item) => {
+      const data =
+        item && typeof item === "object"
+          ? (item as Record<string, unknown>)
+          : { description: String(item ?? "") };
+      const description =
+        (typeof data.description === "string" && data.description) ||
+        (typeof data.recommendation === "string" && data.recommendation) ||
+        (typeof data.action === "string" && data.action) ||
+        "";
+      const trimmed = description.trim();
+      if (!trimmed) return null;
+      const severityRaw =
+        (typeof data.severity === "string" && data.severity) ||
+        defaultSeverity;
+      return { severity: severityRaw.toLowerCase(), description: trimmed };
+    })
+    .filter(
+      (item): item is { severity: string; description: string } => !!item,
+    );
+}
+
+/**
+ * Critical/high findings for a stored review. Reads the structured report's
+ * issues when present and falls back to the legacy recommendation lists.
+ */
+export function extractHighRiskFindings(
+  results: Record<string, unknown> | null | undefined,
+): Array<{ severity: string; description: string }> {
+  if (!results) return [];
+
+  const structured = results.structured_report as
+    | { issuesToAddress?: unknown }
+    | null
+    | undefined;
+  const structuredIssues = Array.isArray(structured?.issuesToAddress)
+    ? (structured!.issuesToAddress as Array<Record<string, unknown>>)
+        .map((issue) => ({
+          severity:
+            typeof issue?.severity === "string"
+              ? issue.severity.toLowerCase()
+              : "",
+          description:
+            (typeof issue?.title === "string" && issue.title.trim()) || "",
+        }))
+        .filter((issue) => issue.description)
+    : [];
+
+  const findings = structuredIssues.length
+    ? structuredIssues
+    : [
+        ...collectDecisions(results.recommendations, "medium"),
+        ...collectDecisions(results.strategic_recommendations, "medium"),
+        ...collectDecisions(results.action_items, "high"),
+      ];
+
+  return findings.filter((finding) =>
+    HIGH_RISK_SEVERITIES.has(finding.severity),
+  );
+}
+
+/**
+ * Signs `${timestamp}.${body}` with HMAC-SHA256. Receivers recompute the
+ * digest and reject stale timestamps to prevent replays.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/** Slack incoming-webhook payload (also accepted by Mattermost and Teams connectors). */
+export function buildSlackPayload(message: OrgAlertMessage) {
+  const lines = message.items.slice(0, 10).map((item) => {
+    const severity = item.severity ? `*${item.severity.toUpperCase()}* ` : "";
+    const label = item.url ? `<${item.url}|${item.label}>` : item.label;
+    return `• ${severity}${label}${item.detail ? ` — ${item.detail}` : ""}`;
+  });
+  if (message.items.length > lines.length) {
+    lines.push(`…and ${message.items.length - lines.length} more`);
+  }
+
+  return {
+    text: `${message.title}: ${message.summary}`,
+    blocks: [
+      {
+        type: "header",
+        text: { type: "plain_text", text: message.title.slice(0, 150) },
+      },
+      {
+        type: "section",
+        text: { type: "mrkdwn", text: message.summary },
+      },
+      ...(lines.length
+        ? [{ type: "section", text: { type: "mrkdwn", text: lines.join("\n") } }]
+        : []),
+      {
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: `<${message.dashboardUrl}|Open the Maigon org dashboard>`,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+export async function postJson(
+  url: string,
+  body: string,
+  headers: Record<string, string> = {},
+  init: Pick<RequestInit, "redirect"> = {},
+): Promise<number> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      ...init,
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body,
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      // The body is not echoed: it would leak whatever the target served
+      // into delivery logs visible to org admins.
+      throw new AlertChannelError(
+        `Endpoint responded ${response.status}`,
+        response.status,
+      );
+    }
+    return response.status;
+  } catch (error) {
+    if (error instanceof AlertChannelError) throw error;
+    throw new AlertChannelError(
+      error instanceof Error && error.name === "AbortError"
+        ? `Endpoint timed out after ${WEBHOOK_TIMEOUT_MS}ms`
+        : error instanceof Error
+          ? error.message
+          : String(error),
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function resolveEmailRecipients(
+  preferences: AlertPreferencesRecord,
+): Promise<string[]> {
+  const explicit = toStringArray(preferences.email_recipients);
+  if (explicit.length) return explicit;
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("user_profiles")
+    .select("email")
+    .eq("organization_id", preferences.organization_id)
+    .eq("organization_role", "org_admin")
+    .eq("is_active", true);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? [])
+    .map((row) => (typeof row.email === "string" ? row.email.trim() : ""))
+    .filter(Boolean);
+}
+
+type AlertChannelSender = (
+  message: OrgAlertMessage,
+  preferences: AlertPreferencesRecord,
+) => Promise<number | null>;
+
+const ALERT_CHANNELS: Record<OrgAlertChannel, AlertChannelSender> = {
+  async email(message, preferences) {
+    const recipients = await resolveEmailRecipients(preferences);
+    if (!recipients.length) {
+      throw new AlertChannelError("No email recipients configured");
+    }
+    const supabase = getSupabaseAdminClient();
+    const { error } = await supabase.functions.invoke(ALERT_EMAIL_FUNCTION, {
+      body: { to: recipients, alert: message },
+    });
+    if (error) {
+      throw new AlertChannelError(
+        error.message ?? "Failed to dispatch alert email",
+      );
+    }
+    return null;
+  },
+
+  async webhook(message, preferences) {
+    if (!preferences.webhook_url) {
+      throw new AlertChannelError("Webhook URL is not configured");
+    }
+    const body = JSON.stringify(message);
+    const headers: Record<string, string> = {};
+    if (preferences.webhook_secret) {
+      headers[ALERT_SIGNATURE_HEADER] = signWebhookPayload(
+        preferences.webhook_secret,
+        Math.floor(Date.now() / 1000),
+        body,
+      );
+    }
+    await assertPublicWebhookTarget(preferences.webhook_url);
+    return postJson(preferences.webhook_url, body, headers, {
+      redirect: "manual",
+    });
+  },
+
+  async slack(message, preferences) {
+    if (!preferences.slack_webhook_url) {
+      throw new AlertChannelError("Slack webhook URL is not configured");
+    }
+    await assertPublicWebhookTarget(preferences.slack_webhook_url);
+    return postJson(
+      preferences.slack_webhook_url,
+      JSON.stringify(buildSlackPayload(message)),
+      {},
+      { redirect: "manual" },
+    );
+  },
+};
+
+async function loadPreferences(
+  organizationId: string,
+): Promise<AlertPreferencesRecord | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("organization_alert_preferences")
+    .select(ALERT_PREFERENCES_COLUMNS)
+    .eq("organization_id", organizationId)
+    .maybeSingle<AlertPreferencesRecord>();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ?? null;
+}
+
+async function loadOrganizationName(
+  organizationId: string,
+): Promise<string | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("organizations")
+    .select("name")
+    .eq("id", organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data?.name ?? null;
+}
+
+function buildMessage(
+  type: OrgAlertType,
+  organizationId: string,
+  organizationName: string | null,
+  title: string,
+  summary: string,
+  items: OrgAlertMessageItem[],
+  now: Date,
+): OrgAlertMessage {
+  return {
+    type,
+    organizationId,
+    organizationName,
+    title,
+    summary,
+    items,
+    dashboardUrl: `${APP_BASE_URL}/org-admin`,
+    generatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Records a delivery for the organization's configured channel. The dedupe key
+ * makes enqueueing idempotent across the review hook, the scanner and multiple
+ * workers. Returns null when the alert was already recorded.
+ */
+async function enqueueAlert(
+  preferences: AlertPreferencesRecord,
+  dedupeKey: string,
+  message: OrgAlertMessage,
+): Promise<AlertDeliveryRecord | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("org_alert_deliveries")
+    .upsert(
+      {
+        organization_id: preferences.organization_id,
+        alert_type: message.type,
+        channel: normalizeAlertChannel(preferences.alert_channel),
+        dedupe_key: dedupeKey,
+        payload: message,
+        max_attempts: ALERT_MAX_ATTEMPTS,
+      },
+      { onConflict: "organization_id,dedupe_key", ignoreDuplicates: true },
+    )
+    .select("*");
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as AlertDeliveryRecord[])[0] ?? null;
+}
+
+/**
+ * Claims a pending delivery and sends it. Failures are rescheduled with
+ * exponential backoff until the attempt budget is spent.
+ */
+export async function deliverAlert(
+  deliveryId: string,
+  now: Date = new Date(),
+): Promise<OrgAlertDelivery | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data: claimed, error: claimError } = await supabase
+    .from("org_alert_deliveries")
+    .update({ status: "sending" })
+    .eq("id", deliveryId)
+    .eq("status", "pending")
+    .select("*")
+    .maybeSingle<AlertDeliveryRecord>();
+
+  if (claimError) {
+    throw claimError;
+  }
+  if (!claimed) {
+    return null;
+  }
+
+  const attempts = claimed.attempts + 1;
+  const channel = normalizeAlertChannel(claimed.channel);
+  let update: Record<string, unknown>;
+
+  try {
+    const preferences = await loadPreferences(claimed.organization_id);
+    if (!preferences) {
+      throw new AlertChannelError("Alert preferences not found");
+    }
+    const responseStatus = await ALERT_CHANNELS[channel](
+      claimed.payload as OrgAlertMessage,
+      preferences,
+    );
+    update = {
+      status: "sent",
+      attempts,
+      sent_at: now.toISOString(),
+      last_error: null,
+      response_status: responseStatus,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = attempts >= claimed.max_attempts;
+    update = {
+      status: exhausted ? "failed" : "pending",
+      attempts,
+      last_error: message,
+      response_status:
+        error instanceof AlertChannelError ? error.responseStatus : null,
+      next_attempt_at: new Date(
+        now.getTime() + computeRetryDelayMs(attempts, ALERT_RETRY_POLICY),
+      ).toISOString(),
+    };
+    console.warn("[alerts] Delivery attempt failed", {
+      deliveryId,
+      channel,
+      attempts,
+      exhausted,
+      message,
+    });
+  }
+
+  const { data, error } = await supabase
+    .from("org_alert_deliveries")
+    .update(update)
+    .eq("id", deliveryId)
+    .select("*")
+    .single<AlertDeliveryRecord>();
+
+  if (error) {
+    throw error;
+  }
+
+  return mapDeliveryRow(data);
+}
+
+async function enqueueAndDeliver(
+  preferences: AlertPreferencesRecord,
+  dedupeKey: string,
+  message: OrgAlertMessage,
+  now: Date,
+): Promise<void> {
+  const delivery = await enqueueAlert(preferences, dedupeKey, message);
+  if (delivery) {
+    await deliverAlert(delivery.id, now);
+  }
+}
+
+async function findHighRiskReviews(
+  organizationId: string,
+  since: string,
+  until: string,
+): Promise<Array<{ reviewId: string; items: OrgAlertMessageItem[] }>> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("contract_reviews")
+    .select("id, contract_id, results, created_at, contracts (title)")
+    .eq("organization_id", organizationId)
+    .gt("created_at", since)
+    .lte("created_at", until)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? [])
+    .map((review) => {
+      const findings = extractHighRiskFindings(
+        review.results as Record<string, unknown> | null,
+      );
+      const contractTitle =
+        (review.contracts as { title?: string } | null)?.title ?? "Contract";
+      return {
+        reviewId: review.id as string,
+        items: findings.map((finding) => ({
+          label: contractTitle,
+          detail: finding.description,
+          severity: finding.severity,
+        })),
+      };
+    })
+    .filter((review) => review.items.length > 0);
+}
+
+async function findPendingEdits(
+  organizationId: string,
+  createdAfter: string,
+  createdBefore: string,
+): Promise<OrgAlertMessageItem[]> {
+  const supabase = getSupabaseAdminClient();
+  const [interactionsRes, approvalsRes] = await Promise.all([
+    supabase
+      .from("agent_interaction_logs")
+      .select("id, contract_id, edit_count, created_at, contracts (title)")
+      .eq("organization_id", organizationId)
+      .gt("edit_count", 0)
+      .gt("created_at", createdAfter)
+      .lte("created_at", createdBefore),
+    supabase
+      .from("agent_edit_approvals")
+      .select("interaction_id")
+      .eq("organization_id", organizationId),
+  ]);
+
+  if (interactionsRes.error) throw interactionsRes.error;
+  if (approvalsRes.error) throw approvalsRes.error;
+
+  const approved = new Set(
+    (approvalsRes.data ?? [])
+      .map((row) => row.interaction_id)
+      .filter((value): value is string => Boolean(value)),
+  );
+
+  return (interactionsRes.data ?? [])
+    .filter((interaction) => !approved.has(interaction.id))
+    .map((interaction) => ({
+      label:
+        (interaction.contracts as { title?: string } | null)?.title ??
+        "Contract",
+      detail: `${interaction.edit_count} agent edit${
+        interaction.edit_count === 1 ? "" : "s"
+      } awaiting approval`,
+    }));
+}
+
+function pluralize(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+async function scanImmediate(
+  preferences: AlertPreferencesRecord,
+  organizationName: string | null,
+  now: Date,
+): Promise<Record<string, string>> {
+  const organizationId = preferences.organization_id;
+  const fallbackSince = new Date(
+    now.getTime() - INITIAL_SCAN_WINDOW_MS,
+  ).toISOString();
+  const cursorUpdate: Record<string, string> = {};
+
+  if (preferences.notify_high_risk) {
+    const since = preferences.high_risk_cursor ?? fallbackSince;
+    const until = now.toISOString();
+    const reviews = await findHighRiskReviews(organizationId, since, until);
+    for (const review of reviews) {
+      await enqueueAndDeliver(
+        preferences,
+        `high_risk:${review.reviewId}`,
+        buildMessage(
+          "high_risk_review",
+          organizationId,
+          organizationName,
+          "High-risk findings in a new review",
+          `${review.items[0].label} has ${pluralize(review.items.length, "critical or high severity finding")}.`,
+          review.items,
+          now,
+        ),
+        now,
+      );
+    }
+    cursorUpdate.high_risk_cursor = until;
+  }
+
+  if (preferences.notify_pending_edits) {
+    // Alert once per interaction, at the moment it crosses the staleness threshold.
+    const staleBefore = new Date(now.getTime() - PENDING_EDIT_THRESHOLD_MS);
+    const previous =
+      preferences.pending_edits_cursor ??
+      new Date(staleBefore.getTime() - INITIAL_SCAN_WINDOW_MS).toISOString();
+    const items = await findPendingEdits(
+      organizationId,
+      previous,
+      staleBefore.toISOString(),
+    );
+    if (items.length) {
+      await enqueueAndDeliver(
+        preferences,
+        `pending_edits:${staleBefore.toISOString()}`,
+        buildMessage(
+          "pending_edits",
+          organizationId,
+          organizationName,
+          "Agent edits awaiting approval",
+          `${pluralize(items.length, "agent interaction")} ${
+            items.length === 1 ? "has" : "have"
+          } had unapproved edits for over ${Math.round(
+            PENDING_EDIT_THRESHOLD_MS / 3_600_000,
+          )} hours.`,
+          items,
+          now,
+        ),
+        now,
+      );
+    }
+    cursorUpdate.pending_edits_cursor = staleBefore.toISOString();
+  }
+
+  return cursorUpdate;
+}
+
+async function scanDigest(
+  preferences: AlertPreferencesRecord,
+  organizationName: string | null,
+  now: Date,
+): Promise<Record<string, string>> {
+  const lastDigest = preferences.last_digest_at
+    ? new Date(preferences.last_digest_at)
+    : null;
+  if (lastDigest && now.getTime() - lastDigest.getTime() < DIGEST_INTERVAL_MS) {
+    return {};
+  }
+
+  const organizationId = preferences.organization_id;
+  const since = (
+    lastDigest ?? new Date(now.getTime() - DIGEST_INTERVAL_MS)
+  ).toISOString();
+  const items: OrgAlertMessageItem[] = [];
+  const parts: string[] = [];
+
+  if (preferences.notify_high_risk) {
+    const reviews = await findHighRiskReviews(
+      organizationId,
+      since,
+      now.toISOString(),
+    );
+    reviews.forEach((review) => items.push(...review.items));
+    parts.push(pluralize(reviews.length, "review") + " with high-risk findings");
+  }
+
+  if (preferences.notify_pending_edits) {
+    const pending = await findPendingEdits(
+      organizationId,
+      "1970-01-01T00:00:00.000Z",
+      new Date(now.getTime() - PENDING_EDIT_THRESHOLD_MS).toISOString(),
+    );
+    items.push(...pending);
+    parts.push(pluralize(pending.length, "interaction") + " with pending edits");
+  }
+
+  if (items.length) {
+    await enqueueAndDeliver(
+      preferences,
+      `digest:${now.toISOString().slice(0, 10)}`,
+      buildMessage(
+        "digest",
+        organizationId,
+        organizationName,
+        "Daily Maigon alert digest",
+        `Since the last digest: ${parts.join(", ")}.`,
+        items,
+        now,
+      ),
+      now,
+    );
+  }
+
+  return { last_digest_at: now.toISOString() };
+}
+
+async function scanOrganization(
+  preferences: AlertPreferencesRecord,
+  now: Date,
+): Promise<void> {
+  const organizationName = await loadOrganizationName(
+    preferences.organization_id,
+  );
+  const mode: OrgAlertDeliveryMode =
+    preferences.delivery_mode === "digest" ? "digest" : "immediate";
+  const cursorUpdate =
+    mode === "digest"
+      ? await scanDigest(preferences, organizationName, now)
+      : await scanImmediate(preferences, organizationName, now);
+
+  if (Object.keys(cursorUpdate).length) {
+    const supabase = getSupabaseAdminClient();
+    const { error } = await supabase
+      .from("organization_alert_preferences")
+      .update(cursorUpdate)
+      .eq("organization_id", preferences.organization_id);
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+async function processDueDeliveries(now: Date, limit = 25): Promise<number> {
+  const supabase = getSupabaseAdminClient();
+
+  const { error: requeueError } = await supabase
+    .from("org_alert_deliveries")
+    .update({ status: "pending" })
+    .eq("status", "sending")
+    .lt("updated_at", new Date(now.getTime() - STALE_SENDING_MS).toISOString());
+  if (requeueError) {
+    throw requeueError;
+  }
+
+  const { data, error } = await supabase
+    .from("org_alert_deliveries")
+    .select("id")
+    .eq("status", "pending")
+    .lte("next_attempt_at", now.toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  let processed = 0;
+  for (const row of data ?? []) {
+    if (await deliverAlert(row.id, now)) processed += 1;
+  }
+  return processed;
+}
+
+/**
+ * One pass of the dispatcher: scans every organization with alerts enabled,
+ * then retries due deliveries. Safe to run concurrently from several workers.
+ */
+export async function runAlertDispatchCycle(
+  now: Date = new Date(),
+): Promise<{ organizations: number; retried: number }> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("organization_alert_preferences")
+    .select(ALERT_PREFERENCES_COLUMNS)
+    .or("notify_high_risk.eq.true,notify_pending_edits.eq.true");
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = (data ?? []) as AlertPreferencesRecord[];
+  for (const preferences of rows) {
+    try {
+      await scanOrganization(preferences, now);
+    } catch (scanError) {
+      console.error("[alerts] Organization scan failed", {
+        organizationId: preferences.organization_id,
+        message:
+          scanError instanceof Error ? scanError.message : String(scanError),
+      });
+    }
+  }
+
+  const retried = await processDueDeliveries(now);
+  return { organizations: rows.length, retried };
+}
+
+/**
+ * Sends the high-risk alert for a freshly saved review without waiting for
+ * the next scan. No-op when the org batches alerts into a digest.
+ */
+export async function dispatchReviewAlert(
+  reviewId: string,
+  organizationId: string,
+  now: Date = new Date(),
+): Promise<OrgAlertDelivery | null> {
+  const preferences = await loadPreferences(organizationId);
+  if (
+    !preferences?.notify_high_risk ||
+    preferences.delivery_mode === "digest"
+  ) {
+    return null;
+  }
+
+  const supabase = getSupabaseAdminClient();
+  const { data: review, error } = await supabase
+    .from("contract_reviews")
+    .select("id, organization_id, results, contracts (title)")
+    .eq("id", reviewId)
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!review) {
+    return null;
+  }
+
+  const findings = extractHighRiskFindings(
+    review.results as Record<string, unknown> | null,
+  );
+  if (!findings.length) {
+    return null;
+  }
+
+  const contractTitle =
+    (review.contracts as { title?: string } | null)?.title ?? "Contract";
+  const items = findings.map((finding) => ({
+    label: contractTitle,
+    detail: finding.description,
+    severity: finding.severity,
+  }));
+  const delivery = await enqueueAlert(
+    preferences,
+    `high_risk:${review.id}`,
+    buildMessage(
+      "high_risk_review",
+      organizationId,
+      await loadOrganizationName(organizationId),
+      "High-risk findings in a new review",
+      `${contractTitle} has ${pluralize(items.length, "critical or high severity finding")}.`,
+      items,
+      now,
+    ),
+  );
+  return delivery ? deliverAlert(delivery.id, now) : null;
+}
+
+export async function listAlertDeliveries(
+  organizationId: string,
+  limit = 50,
+): Promise<OrgAlertDelivery[]> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("org_alert_deliveries")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as AlertDeliveryRecord[]).map(mapDeliveryRow);
+}
+
+/** Resets a failed delivery's attempt budget and sends it again right away. */
+export async function retryAlertDelivery(
+  organizationId: string,
+  deliveryId: string,
+): Promise<OrgAlertDelivery | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("org_alert_deliveries")
+    .update({
+      status: "pending",
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+    })
+    .eq("organization_id", organizationId)
+    .eq("id", deliveryId)
+    .in("status", ["failed", "pending"])
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return null;
+  }
+
+  return deliverAlert(data.id);
+}
+
+export interface AlertDispatcherHandle {
+  stop(): Promise<void>;
+}
+
+/** Runs the dispatch cycle on an interval inside a long-lived process. */
+export function startAlertDispatcher(
+  options: { intervalMs?: number } = {},
+): AlertDispatcherHandle {
+  const intervalMs = options.intervalMs ?? 60_000;
+  let running: Promise<void> | null = null;
+
+  const tick = () => {
+    if (running) return;
+    running = runAlertDispatchCycle()
+      .then((result) => {
+        if (result.retried > 0) {
+          console.info("[alerts] Dispatch cycle completed", result);
+        }
+      })
+      .catch((error) => {
+        console.error("[alerts] Dispatch cycle failed", {
+          message: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        running = null;
+      });
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  console.info("[alerts] Alert dispatcher started", { intervalMs });
+
+  return {
+    async stop() {
+      clearInterval(timer);
+      await running;
+    },
+  };
+}
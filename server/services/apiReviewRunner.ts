@@ -0,0 +1,755 @@
+import crypto from "node:crypto";
+import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import {
+  createOrganizationSummaryFromRow,
+  resolveOrganizationQuotas,
+  type ApiDocumentUploadResponse,
+  type ApiReviewJob,
+  type ApiReviewJobStatus,
+} from "../../shared/api";
+import { analysisReportV3Schema } from "../../shared/ai/reviewSchema";
+import {
+  mapClassificationToSolutionKey,
+  solutionKeyToClassificationType,
+  solutionKeyToDisplayName,
+  type SolutionKey,
+} from "../../shared/solutions";
+import { classifyContractWithAI } from "./classificationAI";
+import {
+  generateFallbackClassification,
+  type ClassificationResult,
+} from "./classificationFallback";
+import { extractDocument } from "./documentExtractionService";
+import {
+  createIngestionRecord,
+  getIngestionRecord,
+  saveExtractionResult,
+} from "./ingestionRepository";
+import { uploadToStorage } from "./storageService";
+import { computeRetryDelayMs, type RetryPolicy } from "./jobQueue";
+import { syncReviewObligations } from "./obligationsRegister";
+import { resolveOrganizationRedaction } from "./orgRedaction";
+import { dispatchReviewAlert } from "./alertDispatcher";
+import { recordReviewCacheEntry } from "./reviewCache";
+import { assignReviewExpiry } from "./reportRetention";
+import { markContractInReview } from "./contractApprovals";
+import { indexContractForRepository } from "./contractRepository";
+import {
+  emitIngestionWebhookEvent,
+  emitReviewWebhookEvent,
+} from "./orgWebhooks";
+import type { AuthenticatedApiKey } from "./orgApiKeysRepository";
+
+interface ApiReviewJobRecord {
+  id: string;
+  organization_id: string;
+  api_key_id: string | null;
+  ingestion_id: string;
+  contract_id: string | null;
+  review_id: string | null;
+  solution_key: string | null;
+  perspective: string | null;
+  review_type: string;
+  status: string;
+  response_id: string | null;
+  retry_depth: number;
+  attempts: number;
+  request_payload: Record<string, unknown> | null;
+  error: string | null;
+  next_poll_at: string;
+  locked_until: string | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+export class ApiReviewQuotaExceededError extends Error {
+  constructor(
+    readonly used: number,
+    readonly limit: number,
+  ) {
+    super(`Organization document quota reached (${used}/${limit})`);
+    this.name = "ApiReviewQuotaExceededError";
+  }
+}
+
+const ANALYSIS_FUNCTION = "analyze-contract";
+const ANALYSIS_MODEL = "openai-gpt-5-pro";
+const LEASE_MS = 90_000;
+const MAX_ATTEMPTS = 5;
+const RETRY_POLICY: RetryPolicy = { baseDelayMs: 5_000, maxDelayMs: 120_000 };
+const FAILED_ANALYSIS_STATUSES = new Set(["failed", "cancelled", "expired"]);
+
+export const API_REVIEW_TYPES = [
+  "full_summary",
+  "compliance_score",
+  "risk_assessment",
+  "perspective_review",
+] as const;
+
+function mapJobRow(row: ApiReviewJobRecord): ApiReviewJob {
+  return {
+    id: row.id,
+    documentId: row.ingestion_id,
+    status: row.status as ApiReviewJobStatus,
+    solutionKey: row.solution_key ?? null,
+    perspective: row.perspective ?? null,
+    reviewType: row.review_type,
+    contractId: row.contract_id ?? null,
+    reviewId: row.review_id ?? null,
+    error: row.error ?? null,
+    createdAt: row.created_at,
+    completedAt: row.completed_at ?? null,
+  };
+}
+
+function toErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === "object" && "message" in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return String(error);
+}
+
+/**
+ * API submissions count against the same allowance as in-app reviews: every
+ * contract stored for the organization, plus jobs accepted but not yet
+ * turned into a contract. Limits of zero or below mean "not capped".
+ */
+export async function checkOrganizationReviewAllowance(
+  organizationId: string,
+): Promise<{ allowed: boolean; used: number; limit: number | null }> {
+  const supabase = getSupabaseAdminClient();
+  const { data: organization, error: orgError } = await supabase
+    .from("organizations")
+    .select("id, name, slug, billing_plan, seats_limit, documents_limit, metadata")
+    .eq("id", organizationId)
+    .maybeSingle();
+
+  if (orgError) {
+    throw orgError;
+  }
+
+  const quotas = resolveOrganizationQuotas(
+    createOrganizationSummaryFromRow(organization),
+  );
+  const limits = [quotas?.contractsLimit, quotas?.documentsLimit].filter(
+    (value): value is number => typeof value === "number" && value > 0,
+  );
+  const limit = limits.length > 0 ? Math.min(...limits) : null;
+
+  const [contracts, pendingJobs] = await Promise.all([
+    supabase
+      .from("contracts")
+      .select("id", { count: "exact", head: true })
+      .eq("organization_id", organizationId),
+    supabase
+      .from("api_review_jobs")
+      .select("id", { count: "exact", head: true })
+      .eq("organization_id", organizationId)
+      .eq("status", "queued")
+      .is("contract_id", null),
+  ]);
+
+  if (contracts.error) {
+    throw contracts.error;
+  }
+  if (pendingJobs.error) {
+    throw pendingJobs.error;
+  }
+
+  const used = (contracts.count ?? 0) + (pendingJobs.count ?? 0);
+  return { allowed: limit === null || used < limit, used, limit };
+}
+
+export async function registerApiDocument(
+  apiKey: AuthenticatedApiKey,
+  file: { path: string; originalName: string; mimeType: string; size: number },
+): Promise<ApiDocumentUploadResponse> {
+  const ingestionId = crypto.randomUUID();
+  const storageResult = await uploadToStorage({
+    localFilePath: file.path,
+    originalName: file.originalName,
+    ingestionId,
+    contentType: file.mimeType,
+  });
+
+  await createIngestionRecord({
+    ingestionId,
+    storageBucket: storageResult.bucket,
+    storagePath: storageResult.path,
+    originalName: file.originalName,
+    mimeType: file.mimeType,
+    fileSize: file.size,
+    userId: apiKey.createdBy,
+  });
+
+  const extraction = await extractDocument({
+    ingestionId,
+    bucket: storageResult.bucket,
+  });
+  const record = await saveExtractionResult({ ingestionId, extraction });
+
+  // Tag the ingestion so later calls can check it belongs to the caller's
+  // organization; contract_ingestions has no organization column.
+  const supabase = getSupabaseAdminClient();
+  const { error } = await supabase
+    .from("contract_ingestions")
+    .update({
+      metadata: {
+        ...((record?.metadata as Record<string, unknown> | null) ?? {}),
+        apiOrganizationId: apiKey.organizationId,
+        apiKeyId: apiKey.id,
+      },
+    })
+    .eq("id", ingestionId);
+
+  if (error) {
+    throw error;
+  }
+
+  void emitIngestionWebhookEvent(
+    apiKey.organizationId,
+    ingestionId,
+    record.status,
+    extraction,
+  );
+
+  return {
+    documentId: ingestionId,
+    fileName: file.originalName,
+    mimeType: extraction.mimeType ?? file.mimeType,
+    size: file.size,
+    status: record.status,
+    wordCount: extraction.wordCount ?? null,
+    warnings: extraction.warnings ?? [],
+  };
+}
+
+async function getApiDocument(organizationId: string, ingestionId: string) {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("contract_ingestions")
+    .select("*")
+    .eq("id", ingestionId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.metadata?.apiOrganizationId !== organizationId) {
+    return null;
+  }
+
+  return data;
+}
+
+export async function createApiReviewJob(
+  apiKey: AuthenticatedApiKey,
+  input: {
+    documentId: string;
+    solutionKey: SolutionKey | null;
+    perspective: string | null;
+    reviewType: string;
+  },
+): Promise<ApiReviewJob | null> {
+  const document = await getApiDocument(apiKey.organizationId, input.documentId);
+  if (!document) {
+    return null;
+  }
+
+  const allowance = await checkOrganizationReviewAllowance(apiKey.organizationId);
+  if (!allowance.allowed && allowance.limit !== null) {
+    throw new ApiReviewQuotaExceededError(allowance.used, allowance.limit);
+  }
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("api_review_jobs")
+    .insert({
+      organization_id: apiKey.organizationId,
+      api_key_id: apiKey.id,
+      ingestion_id: input.documentId,
+      solution_key: input.solutionKey,
+      perspective: input.perspective,
+      review_type: input.reviewType,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return mapJobRow(data as ApiReviewJobRecord);
+}
+
+export async function getApiReviewJob(
+  organizationId: string,
+  jobId: string,
+): Promise<ApiReviewJob | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("api_review_jobs")
+    .select("*")
+    .eq("id", jobId)
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? mapJobRow(data as ApiReviewJobRecord) : null;
+}
+
+/**
+ * Returns the stored analysis report for a completed job. Reports are
+ * validated before the review row is written, so a parse failure here means
+ * the row was edited out of band.
+ */
+export async function getApiReviewReport(
+  organizationId: string,
+  jobId: string,
+) {
+  const job = await getApiReviewJob(organizationId, jobId);
+  if (!job || job.status !== "completed" || !job.reviewId) {
+    return { job, report: null };
+  }
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("contract_reviews")
+    .select("results")
+    .eq("id", job.reviewId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  const parsed = analysisReportV3Schema.safeParse(
+    (data?.results as Record<string, unknown> | null)?.structured_report,
+  );
+  return { job, report: parsed.success ? parsed.data : null };
+}
+
+async function claimJob(jobId: string): Promise<ApiReviewJobRecord | null> {
+  const supabase = getSupabaseAdminClient();
+  const now = new Date();
+  const { data, error } = await supabase
+    .from("api_review_jobs")
+    .update({
+      locked_until: new Date(now.getTime() + LEASE_MS).toISOString(),
+    })
+    .eq("id", jobId)
+    .in("status", ["queued", "running"])
+    .lte("next_poll_at", now.toISOString())
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as ApiReviewJobRecord | null) ?? null;
+}
+
+async function updateJob(jobId: string, patch: Record<string, unknown>) {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("api_review_jobs")
+    .update({ ...patch, locked_until: null })
+    .eq("id", jobId)
+    .select("*")
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as ApiReviewJobRecord;
+}
+
+async function failJob(job: ApiReviewJobRecord, message: string) {
+  console.warn("[api] Review job failed", { jobId: job.id, message });
+  return updateJob(job.id, {
+    status: "failed",
+    error: message,
+    completed_at: new Date().toISOString(),
+  });
+}
+
+async function classifyDocument(
+  content: string,
+  fileName: string,
+  solutionKey: SolutionKey | null,
+  organizationId: string,
+): Promise<ClassificationResult> {
+  if (solutionKey) {
+    return {
+      ...generateFallbackClassification(content, fileName, undefined, solutionKey),
+      contractType: solutionKeyToClassificationType(solutionKey),
+      confidence: 1,
+      reasoning: "Solution selected by the API caller",
+      suggestedSolutions: [solutionKey],
+      recommendedSolutionKey: solutionKey,
+      recommendedSolutionTitle: solutionKeyToDisplayName(solutionKey),
+    };
+  }
+
+  try {
+    return await classifyContractWithAI(content, {
+      fileName,
+      redaction: await resolveOrganizationRedaction(organizationId),
+    });
+  } catch (error) {
+    console.warn("[api] Classification failed, using heuristics", {
+      error: toErrorMessage(error),
+    });
+    return generateFallbackClassification(
+      content,
+      fileName,
+      `Classification error: ${toErrorMessage(error)}`,
+    );
+  }
+}
+
+async function startJob(job: ApiReviewJobRecord) {
+  const ingestion = await getIngestionRecord(job.ingestion_id);
+  const content =
+    typeof ingestion?.extracted_text === "string" ? ingestion.extracted_text : "";
+  if (!content.trim()) {
+    return failJob(job, "Document has no extractable text");
+  }
+
+  const fileName = ingestion.original_name as string;
+  const classification = await classifyDocument(
+    content,
+    fileName,
+    (job.solution_key as SolutionKey | null) ?? null,
+    job.organization_id,
+  );
+  const solutionKey =
+    (job.solution_key as SolutionKey | null) ??
+    mapClassificationToSolutionKey(classification.contractType) ??
+    null;
+
+  const { data: owner, error: ownerError } = await getSupabaseAdminClient()
+    .from("organization_api_keys")
+    .select("created_by")
+    .eq("id", job.api_key_id ?? "")
+    .maybeSingle();
+  if (ownerError) {
+    throw ownerError;
+  }
+  if (!owner?.created_by) {
+    return failJob(job, "API key no longer exists");
+  }
+
+  let contractId = job.contract_id;
+  if (!contractId) {
+    const { data: contract, error: contractError } = await getSupabaseAdminClient()
+      .from("contracts")
+      .insert({
+        title: fileName.replace(/\.[^/.]+$/, ""),
+        content,
+        content_html: ingestion.extracted_html ?? null,
+        file_name: fileName,
+        file_size: ingestion.file_size ?? null,
+        user_id: owner.created_by,
+        organization_id: job.organization_id,
+        metadata: {
+          source: "api",
+          apiKeyId: job.api_key_id,
+          apiReviewJobId: job.id,
+          ingestionId: job.ingestion_id,
+          classification,
+          originalFileType: ingestion.mime_type ?? null,
+          selectedSolutionKey: solutionKey,
+          selectedSolutionTitle: solutionKey
+            ? solutionKeyToDisplayName(solutionKey)
+            : null,
+        },
+      })
+      .select("id")
+      .single();
+    if (contractError) {
+      throw contractError;
+    }
+    contractId = contract.id as string;
+    await updateJob(job.id, { contract_id: contractId });
+  }
+
+  const payload: Record<string, unknown> = {
+    content: "",
+    ingestionId: job.ingestion_id,
+    reviewType: job.review_type,
+    model: ANALYSIS_MODEL,
+    contractType: classification.contractType,
+    perspective: job.perspective ?? undefined,
+    perspectiveLabel: job.perspective ?? undefined,
+    fileType: ingestion.mime_type ?? undefined,
+    fileName,
+    filename: fileName,
+    classification: {
+      contractType: classification.contractType,
+      confidence: classification.confidence,
+      characteristics: classification.characteristics,
+      reasoning: classification.reasoning,
+      suggestedSolutions: classification.suggestedSolutions,
+    },
+    ingestionWarnings: ingestion.warnings ?? [],
+    selectedSolution: solutionKey
+      ? { key: solutionKey, title: solutionKeyToDisplayName(solutionKey) }
+      : undefined,
+    organizationId: job.organization_id,
+    async: true,
+  };
+
+  const data = await invokeAnalysis(payload);
+  return handleAnalysisResponse(
+    { ...job, contract_id: contractId, request_payload: payload },
+    data,
+  );
+}
+
+async function invokeAnalysis(body: Record<string, unknown>) {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase.functions.invoke(ANALYSIS_FUNCTION, {
+    body,
+  });
+
+  if (error) {
+    throw error;
+  }
+  if (!data || typeof data !== "object") {
+    throw new Error("Analysis function returned an empty response");
+  }
+
+  return data as Record<string, unknown>;
+}
+
+async function handleAnalysisResponse(
+  job: ApiReviewJobRecord,
+  data: Record<string, unknown>,
+) {
+  const status = typeof data.status === "string" ? data.status : "completed";
+
+  if (status === "completed") {
+    return completeJob(job, data);
+  }
+  if (FAILED_ANALYSIS_STATUSES.has(status)) {
+    return failJob(job, `Analysis ended with status ${status}`);
+  }
+
+  const pollAfterMs =
+    typeof data.pollAfterMs === "number" ? data.pollAfterMs : 3_000;
+  const retryDepth =
+    typeof data.retryDepth === "number" && Number.isFinite(data.retryDepth)
+      ? Math.max(0, data.retryDepth)
+      : job.retry_depth;
+
+  return updateJob(job.id, {
+    status: "running",
+    request_payload: job.request_payload,
+    response_id:
+      typeof data.responseId === "string" ? data.responseId : job.response_id,
+    retry_depth: retryDepth,
+    attempts: 0,
+    error: null,
+    next_poll_at: new Date(
+      Date.now() + Math.min(Math.max(pollAfterMs, 2_000), 10_000),
+    ).toISOString(),
+  });
+}
+
+async function completeJob(
+  job: ApiReviewJobRecord,
+  results: Record<string, unknown>,
+) {
+  const report = analysisReportV3Schema.safeParse(results.structured_report);
+  if (!report.success) {
+    console.warn("[api] Analysis report failed validation", {
+      jobId: job.id,
+      issues: report.error.issues.slice(0, 5),
+    });
+    return failJob(job, "Analysis report failed schema validation");
+  }
+
+  const supabase = getSupabaseAdminClient();
+  const { data: owner, error: ownerError } = await supabase
+    .from("contracts")
+    .select("user_id")
+    .eq("id", job.contract_id ?? "")
+    .single();
+  if (ownerError) {
+    throw ownerError;
+  }
+
+  const { data: review, error: reviewError } = await supabase
+    .from("contract_reviews")
+    .insert({
+      contract_id: job.contract_id,
+      user_id: owner.user_id,
+      review_type: job.review_type,
+      results,
+      score:
+        typeof results.score === "number" ? Math.round(results.score) : null,
+      confidence_level:
+        typeof results.confidence === "number"
+          ? Math.max(0, Math.min(1, results.confidence))
+          : null,
+      model_used:
+        typeof results.model_used === "string" ? results.model_used : null,
+    })
+    .select("id")
+    .single();
+  if (reviewError) {
+    throw reviewError;
+  }
+
+  const completed = await updateJob(job.id, {
+    status: "completed",
+    review_id: review.id,
+    error: null,
+    completed_at: new Date().toISOString(),
+  });
+
+  try {
+    await syncReviewObligations(review.id as string);
+    await recordReviewCacheEntry(review.id as string);
+    await assignReviewExpiry(review.id as string);
+    await indexContractForRepository(review.id as string);
+    await markContractInReview(review.id as string);
+    await dispatchReviewAlert(review.id as string, job.organization_id);
+  } catch (followUpError) {
+    // Obligations, alerts and expiry are backfilled or retried elsewhere and
+    // a missing cache entry only costs a repeat analysis; the review is saved.
+    console.warn("[api] Review follow-up failed", {
+      jobId: job.id,
+      followUpError,
+    });
+  }
+
+  try {
+    await emitReviewWebhookEvent(review.id as string, job.organization_id);
+  } catch (webhookError) {
+    console.warn("[api] Review webhook emit failed", {
+      jobId: job.id,
+      webhookError,
+    });
+  }
+
+  return completed;
+}
+
+async function pollJob(job: ApiReviewJobRecord) {
+  if (!job.request_payload || !job.response_id) {
+    return startJob(job);
+  }
+
+  const data = await invokeAnalysis({
+    ...job.request_payload,
+    responseId: job.response_id,
+    async: true,
+    asyncRetryDepth: job.retry_depth,
+  });
+  return handleAnalysisResponse(job, data);
+}
+
+/**
+ * Moves one job a single step forward: submit the analysis, poll it, or
+ * store the finished review. Safe to call from both the status endpoint and
+ * the worker; the lease on `locked_until` keeps them from overlapping.
+ */
+export async function advanceApiReviewJob(jobId: string): Promise<void> {
+  const job = await claimJob(jobId);
+  if (!job) {
+    return;
+  }
+
+  try {
+    if (job.status === "queued") {
+      await startJob(job);
+    } else {
+      await pollJob(job);
+    }
+  } catch (error) {
+    const attempts = job.attempts + 1;
+    const message = toErrorMessage(error);
+    if (attempts >= MAX_ATTEMPTS) {
+      await failJob(job, message);
+      return;
+    }
+
+    console.warn("[api] Review job step failed, retrying", {
+      jobId: job.id,
+      attempts,
+      message,
+    });
+    await updateJob(job.id, {
+      attempts,
+      error: message,
+      next_poll_at: new Date(
+        Date.now() + computeRetryDelayMs(attempts, RETRY_POLICY),
+      ).toISOString(),
+    });
+  }
+}
+
+export async function runApiReviewCycle(limit = 10) {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("api_review_jobs")
+    .select("id")
+    .in("status", ["queued", "running"])
+    .lte("next_poll_at", new Date().toISOString())
+    .order("next_poll_at", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  let advanced = 0;
+  for (const row of data ?? []) {
+    await advanceApiReviewJob(row.id as string);
+    advanced += 1;
+  }
+
+  return { advanced };
+}
+
+export function startApiReviewRunner(
+  options: { intervalMs?: number } = {},
+): { stop: () => Promise<void> } {
+  const intervalMs = options.intervalMs ?? 5_000;
+  let running: Promise<void> | null = null;
+
+  const tick = () => {
+    if (running) return;
+    running = runApiReviewCycle()
+      .then(() => undefined)
+      .catch((error) => {
+        console.error("[api] Review cycle failed", {
+          message: toErrorMessage(error),
+        });
+      })
+      .finally(() => {
+        running = null;
+      });
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  console.info("[api] Review runner started", { intervalMs });
+
+  return {
+    async stop() {
+      clearInterval(timer);
+      await running;
+    },
+  };
+}
@@ -0,0 +1,207 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import JSZip from "jszip";
+
+export const MAX_BATCH_DOCUMENTS = 200;
+export const MAX_BATCH_DOCUMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_BATCH_ARCHIVE_BYTES = 500 * 1024 * 1024;
+
+const SUPPORTED_EXTENSIONS: Record<string, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  txt: "text/plain",
+  md: "text/markdown",
+  html: "text/html",
+  htm: "text/html",
+};
+
+export interface BatchUploadFile {
+  path: string;
+  originalname: string;
+  mimetype?: string;
+  size: number;
+}
+
+export interface BatchDocument {
+  fileName: string;
+  contentType: string;
+  size: number;
+  read: () => Promise<Buffer>;
+}
+
+export interface BatchDocumentSkip {
+  fileName: string;
+  reason: string;
+}
+
+function extensionOf(fileName: string): string {
+  return path.extname(fileName).toLowerCase().replace(".", "");
+}
+
+function isArchive(file: BatchUploadFile): boolean {
+  return (
+    extensionOf(file.originalname) === "zip" ||
+    file.mimetype === "application/zip" ||
+    file.mimetype === "application/x-zip-compressed"
+  );
+}
+
+// Data-room exports are full of OS metadata and hidden files; never review those.
+function isHiddenEntry(entryName: string): boolean {
+  return entryName
+    .split("/")
+    .some((segment) => segment.startsWith(".") || segment === "__MACOSX");
+}
+
+/**
+ * Inflates an archive entry while counting the bytes as they arrive. ZIP
+ * headers state whatever size the archive's author chose, so limits are
+ * enforced on the stream itself: inflation stops as soon as `limit` is
+ * passed. Chunks are only kept when `keep` is set.
+ */
+function inflateEntry(
+  entry: JSZip.JSZipObject,
+  limit: number,
+  keep: boolean,
+): Promise<{ size: number; exceeded: boolean; buffer: Buffer | null }> {
+  return new Promise((resolve, reject) => {
+    const stream = entry.nodeStream("nodebuffer");
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let settled = false;
+
+    const finish = (exceeded: boolean) => {
+      if (settled) return;
+      settled = true;
+      resolve({
+        size,
+        exceeded,
+        buffer: keep && !exceeded ? Buffer.concat(chunks) : null,
+      });
+    };
+
+    stream.on("data", (chunk: Buffer) => {
+      if (settled) return;
+      size += chunk.length;
+      if (size > limit) {
+        stream.pause();
+        chunks.length = 0;
+        finish(true);
+        return;
+      }
+      if (keep) chunks.push(chunk);
+    });
+    stream.on("end", () => finish(false));
+    stream.on("error", (error) => {
+      if (settled) return;
+      settled = true;
+      reject(error);
+    });
+  });
+}
+
+async function readArchiveEntry(entry: JSZip.JSZipObject): Promise<Buffer> {
+  const { buffer } = await inflateEntry(entry, MAX_BATCH_DOCUMENT_BYTES, true);
+  if (!buffer) {
+    throw new Error(`${entry.name} exceeds the 10MB limit`);
+  }
+  return buffer;
+}
+
+/**
+ * Flattens uploaded files and ZIP archives into the list of reviewable
+ * documents. Archive entries are read lazily so a large data room is never
+ * fully inflated in memory.
+ */
+export async function listBatchDocuments(
+  uploads: BatchUploadFile[],
+): Promise<{ documents: BatchDocument[]; skipped: BatchDocumentSkip[] }> {
+  const documents: BatchDocument[] = [];
+  const skipped: BatchDocumentSkip[] = [];
+
+  // Sizes are measured lazily so unsupported entries are never inflated.
+  const accept = async (
+    fileName: string,
+    measure: () => Promise<number>,
+    read: () => Promise<Buffer>,
+  ) => {
+    const contentType = SUPPORTED_EXTENSIONS[extensionOf(fileName)];
+    if (!contentType) {
+      skipped.push({ fileName, reason: "Unsupported file type" });
+      return;
+    }
+    if (documents.length >= MAX_BATCH_DOCUMENTS) {
+      skipped.push({
+        fileName,
+        reason: `Batches are limited to ${MAX_BATCH_DOCUMENTS} documents`,
+      });
+      return;
+    }
+    let size: number;
+    try {
+      size = await measure();
+    } catch {
+      skipped.push({ fileName, reason: "File could not be read" });
+      return;
+    }
+    if (size === 0) {
+      skipped.push({ fileName, reason: "File is empty" });
+    } else if (size > MAX_BATCH_DOCUMENT_BYTES) {
+      skipped.push({ fileName, reason: "File exceeds the 10MB limit" });
+    } else {
+      documents.push({ fileName, contentType, size, read });
+    }
+  };
+
+  for (const upload of uploads) {
+    if (!isArchive(upload)) {
+      await accept(
+        upload.originalname,
+        async () => upload.size,
+        () => fs.readFile(upload.path),
+      );
+      continue;
+    }
+
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(await fs.readFile(upload.path));
+    } catch (error) {
+      skipped.push({
+        fileName: upload.originalname,
+        reason: "Archive could not be opened",
+      });
+      continue;
+    }
+
+    const entries = Object.values(zip.files)
+      .filter((entry) => !entry.dir && !isHiddenEntry(entry.name))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    let inflatedBytes = 0;
+    for (const entry of entries) {
+      if (inflatedBytes > MAX_BATCH_ARCHIVE_BYTES) {
+        skipped.push({
+          fileName: entry.name,
+          reason: "Archive expands beyond the 500MB limit",
+        });
+        continue;
+      }
+      await accept(
+        entry.name,
+        async () => {
+          const { size } = await inflateEntry(
+            entry,
+            MAX_BATCH_DOCUMENT_BYTES,
+            false,
+          );
+          inflatedBytes += size;
+          return size;
+        },
+        () => readArchiveEntry(entry),
+      );
+    }
+  }
+
+  return { documents, skipped };
+}
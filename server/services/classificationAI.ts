@@ -1,50 +1,47 @@
 import path from "path";
 import dotenv from "dotenv";
 dotenv.config({ path: path.resolve(process.cwd(), ".env") });
-import fetch from "node-fetch";
 import type { ClassificationResult } from "./classificationFallback";
+import { getLlmProviderChain } from "../lib/llmProviders";
+import {
+  runWithLlmFailover,
+  type LlmProvider,
+} from "../../shared/ai/llmProviders";
+import {
+  redactText,
+  restoreRedactionsInJson,
+  type RedactionMap,
+} from "../../shared/ai/redaction";
+import {
+  CONTRACT_TYPES,
+  GENERAL_CONTRACT_TYPE,
+} from "../../shared/contractTypes";
+import {
+  mapClassificationToSolutionKey,
+  solutionKeyToDisplayName,
+  type SolutionKey,
+} from "../../shared/solutions";
 
 interface ClassificationAIOptions {
   fileName?: string;
   solutionHint?: string | null;
   signal?: AbortSignal;
+  /** When set, content and file name are redacted before the model sees them. */
+  redaction?: RedactionMap | null;
 }
 
-type SolutionKey = "nda" | "dpa" | "eula" | "ppc" | "psa" | "ca" | "rda";
-
-const SOLUTION_KEY_DISPLAY_NAMES: Record<SolutionKey, string> = {
-  nda: "Non-Disclosure Agreement",
-  dpa: "Data Processing Agreement",
-  eula: "End User License Agreement",
-  ppc: "Privacy Policy Compliance",
-  psa: "Product Supply Agreement",
-  ca: "Consultancy Agreement",
-  rda: "Research & Development Agreement",
-};
-
-const CONTRACT_TYPE_TO_SOLUTION_KEY: Record<string, SolutionKey> = {
-  non_disclosure_agreement: "nda",
-  data_processing_agreement: "dpa",
-  end_user_license_agreement: "eula",
-  privacy_policy_document: "ppc",
-  product_supply_agreement: "psa",
-  consultancy_agreement: "ca",
-  research_development_agreement: "rda",
-};
-
-const OPENAI_BASE_URL =
-  process.env.OPENAI_API_BASE ?? "https://api.openai.com/v1/chat/completions";
 const OPENAI_MODEL =
   process.env.OPENAI_CLASSIFICATION_MODEL ?? "gpt-5-mini";
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 
-if (!OPENAI_API_KEY) {
-  // eslint-disable-next-line no-console
-  console.warn(
-    "[classificationAI] OPENAI_API_KEY is not set. Classification requests will fail.",
-  );
+function resolveClassificationModel(provider: LlmProvider): string {
+  return provider.id === "openai" ? OPENAI_MODEL : provider.defaultModel;
 }
 
+const SUPPORTED_CATEGORIES = [
+  ...CONTRACT_TYPES.map((type) => type.classificationType),
+  GENERAL_CONTRACT_TYPE,
+];
+
 function buildSystemPrompt(solutionHint?: string | null): string {
   const solutionContext = solutionHint
     ? `\nThe user selected solution hint: ${solutionHint}. Use this as a strong prior but override it if the evidence clearly indicates a different contract type.`
@@ -53,14 +50,7 @@ function buildSystemPrompt(solutionHint?: string | null): string {
   return `You are a senior contract analyst. Classify the provided contract into one of the supported categories and justify your decision with concrete evidence.
 
 Supported categories:
-1. data_processing_agreement
-2. non_disclosure_agreement
-3. privacy_policy_document
-4. consultancy_agreement
-5. research_development_agreement
-6. end_user_license_agreement
-7. product_supply_agreement
-8. general_commercial
+${SUPPORTED_CATEGORIES.map((type, index) => `${index + 1}. ${type}`).join("\n")}
 
 Always respond with valid JSON following the requested schema.${solutionContext}`;
 }
@@ -80,11 +70,14 @@ function buildUserPrompt(
 
 export async function classifyContractWithAI(
   content: string,
-  { fileName, solutionHint, signal }: ClassificationAIOptions = {},
+  { fileName, solutionHint, signal, redaction }: ClassificationAIOptions = {},
 ): Promise<ClassificationResult> {
-  if (!OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY not configured");
-  }
+  const chain = getLlmProviderChain();
+  const userPrompt = buildUserPrompt(
+    redaction ? redactText(content, redaction) : content,
+    fileName && redaction ? redactText(fileName, redaction) : fileName,
+    solutionHint,
+  );
 
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), 60_000);
@@ -99,59 +92,42 @@ export async function classifyContractWithAI(
   }
 
   try {
-    const requestBody: Record<string, unknown> = {
-      model: OPENAI_MODEL,
-      response_format: { type: "json_object" },
-      messages: [
-        {
-          role: "system",
-          content: buildSystemPrompt(solutionHint),
-        },
-        {
-          role: "user",
-          content: buildUserPrompt(content, fileName, solutionHint),
-        },
-      ],
-    };
-
-    // GPT-5 classification models currently only support default temperature
-    if (!OPENAI_MODEL.toLowerCase().includes("gpt-5")) {
-      requestBody.temperature = 0.1;
-    }
-
-    const response = await fetch(OPENAI_BASE_URL, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
+    const response = await runWithLlmFailover(
+      chain,
+      (provider) =>
+        provider.generate({
+          model: resolveClassificationModel(provider),
+          system: buildSystemPrompt(solutionHint),
+          messages: [
+            {
+              role: "user",
+              content: userPrompt,
+            },
+          ],
+          responseFormat: { type: "json_object" },
+          temperature: 0.1,
+          timeoutMs: null,
+          signal: controller.signal,
+        }),
+      (failed, next, error) => {
+        console.warn("[classificationAI] Provider failed; failing over", {
+          failed: failed.id,
+          next: next.id,
+          message: error instanceof Error ? error.message : String(error),
+        });
       },
-      body: JSON.stringify(requestBody),
-      signal: controller.signal,
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(
-        `OpenAI classification error: ${response.status} ${errorText}`,
-      );
-    }
-
-    const data = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string } }>;
-    };
-
-    const rawContent =
-      data?.choices?.[0]?.message?.content ??
-      (() => {
-        throw new Error("OpenAI classification response missing content");
-      })();
+    );
 
     let parsed: any;
     try {
-      parsed = JSON.parse(rawContent);
+      parsed = JSON.parse(
+        redaction
+          ? restoreRedactionsInJson(response.text, redaction)
+          : response.text,
+      );
     } catch (error) {
       throw new Error(
-        `Failed to parse OpenAI classification JSON: ${
+        `Failed to parse ${response.provider} classification JSON: ${
           error instanceof Error ? error.message : String(error)
         }`,
       );
@@ -191,7 +167,7 @@ export async function classifyContractWithAI(
       typeof parsed.recommendedSolutionKey === "string" &&
       parsed.recommendedSolutionKey.trim().length > 0
         ? (parsed.recommendedSolutionKey.trim() as SolutionKey)
-        : CONTRACT_TYPE_TO_SOLUTION_KEY[contractType];
+        : mapClassificationToSolutionKey(contractType);
 
     let recommendedSolutionTitle =
       typeof parsed.recommendedSolutionTitle === "string" &&
@@ -200,8 +176,7 @@ export async function classifyContractWithAI(
         : undefined;
 
     if (recommendedSolutionKey && !recommendedSolutionTitle) {
-      recommendedSolutionTitle =
-        SOLUTION_KEY_DISPLAY_NAMES[recommendedSolutionKey];
+      recommendedSolutionTitle = solutionKeyToDisplayName(recommendedSolutionKey);
     }
 
     return {
@@ -236,8 +211,8 @@ export async function classifyContractWithAI(
             : "Counterparty",
       },
       fallback_used: false,
-      source: "openai",
-      model_used: OPENAI_MODEL,
+      source: response.provider,
+      model_used: response.model,
       generated_at: new Date().toISOString(),
       recommendedSolutionKey,
       recommendedSolutionTitle,
@@ -1,4 +1,5 @@
 import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import { LostJobLeaseError } from "./jobQueue";
 
 export type ClauseEditJobStatus = "pending" | "running" | "succeeded" | "failed";
 
@@ -41,6 +42,9 @@ interface ClauseEditJobRecord {
   result: unknown;
   payload: unknown;
   metadata: Record<string, unknown> | null;
+  attempts: number | null;
+  max_attempts: number | null;
+  last_error: string | null;
   created_at: string | null;
   updated_at: string | null;
   started_at: string | null;
@@ -55,6 +59,9 @@ export interface ClauseEditJob {
   result: ClauseEditResult | null;
   payload: ClauseEditPayload | null;
   metadata: Record<string, unknown>;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
   createdAt: string | null;
   updatedAt: string | null;
   startedAt: string | null;
@@ -82,6 +89,9 @@ function mapJob(row: ClauseEditJobRecord | null): ClauseEditJob | null {
         ? (row.payload as ClauseEditPayload)
         : null,
     metadata,
+    attempts: row.attempts ?? 0,
+    maxAttempts: row.max_attempts ?? 1,
+    lastError: row.last_error ?? null,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     startedAt: row.started_at,
@@ -93,15 +103,18 @@ export async function createClauseEditJob(input: {
   contractId: string;
   payload: ClauseEditPayload;
   metadata?: Record<string, unknown>;
+  maxAttempts?: number;
 }): Promise<ClauseEditJob> {
   const supabase = getSupabaseAdminClient();
   const { data, error } = await supabase
     .from("contract_draft_jobs")
     .insert({
       contract_id: input.contractId,
+      job_type: "clause_edit",
       status: "pending",
       payload: input.payload,
       metadata: input.metadata ?? {},
+      ...(input.maxAttempts ? { max_attempts: input.maxAttempts } : {}),
     })
     .select("*")
     .maybeSingle<ClauseEditJobRecord>();
@@ -132,33 +145,12 @@ export async function getClauseEditJobById(id: string): Promise<ClauseEditJob |
   return mapJob(data);
 }
 
-export async function markClauseEditJobRunning(
-  id: string,
-): Promise<ClauseEditJob | null> {
-  const supabase = getSupabaseAdminClient();
-  const { data, error } = await supabase
-    .from("contract_draft_jobs")
-    .update({
-      status: "running",
-      started_at: new Date().toISOString(),
-      error: null,
-    })
-    .eq("id", id)
-    .select("*")
-    .maybeSingle<ClauseEditJobRecord>();
-
-  if (error) {
-    throw error;
-  }
-
-  return mapJob(data);
-}
-
 export async function markClauseEditJobSucceeded(input: {
   id: string;
+  workerId: string;
   result: ClauseEditResult;
   metadata?: Record<string, unknown>;
-}): Promise<ClauseEditJob | null> {
+}): Promise<ClauseEditJob> {
   const supabase = getSupabaseAdminClient();
   const { data, error } = await supabase
     .from("contract_draft_jobs")
@@ -168,8 +160,12 @@ export async function markClauseEditJobSucceeded(input: {
       metadata: input.metadata ?? {},
       finished_at: new Date().toISOString(),
       error: null,
+      locked_by: null,
+      lease_expires_at: null,
     })
     .eq("id", input.id)
+    .eq("status", "running")
+    .eq("locked_by", input.workerId)
     .select("*")
     .maybeSingle<ClauseEditJobRecord>();
 
@@ -177,22 +173,32 @@ export async function markClauseEditJobSucceeded(input: {
     throw error;
   }
 
-  return mapJob(data);
+  const job = mapJob(data);
+  if (!job) {
+    throw new LostJobLeaseError(input.id);
+  }
+  return job;
 }
 
 export async function markClauseEditJobFailed(
   id: string,
+  workerId: string,
   errorMessage: string,
-): Promise<ClauseEditJob | null> {
+): Promise<ClauseEditJob> {
   const supabase = getSupabaseAdminClient();
   const { data, error } = await supabase
     .from("contract_draft_jobs")
     .update({
       status: "failed",
       error: errorMessage,
+      last_error: errorMessage,
       finished_at: new Date().toISOString(),
+      locked_by: null,
+      lease_expires_at: null,
     })
     .eq("id", id)
+    .eq("status", "running")
+    .eq("locked_by", workerId)
     .select("*")
     .maybeSingle<ClauseEditJobRecord>();
 
@@ -200,5 +206,9 @@ export async function markClauseEditJobFailed(
     throw error;
   }
 
-  return mapJob(data);
+  const job = mapJob(data);
+  if (!job) {
+    throw new LostJobLeaseError(id);
+  }
+  return job;
 }
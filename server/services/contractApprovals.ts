@@ -0,0 +1,1035 @@
+import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import { RequestAuthError } from "../lib/requestAuth";
+import { assertContractAccess } from "../lib/resourceAccess";
+import { ALERT_EMAIL_FUNCTION, APP_BASE_URL } from "./alertDispatcher";
+import {
+  APPROVAL_SEVERITIES,
+  type ApprovalAction,
+  type ApprovalChain,
+  type ApprovalChainInput,
+  type ApprovalInboxItem,
+  type ApprovalSeverity,
+  type ApprovalStage,
+  type ApprovalTrailEvent,
+  type ContractApprovalState,
+  type ContractWorkflowStatus,
+  type UserAccessContext,
+} from "../../shared/api";
+
+interface ApprovalChainRecord {
+  id: string;
+  organization_id: string;
+  name: string;
+  contract_types: string[] | null;
+  min_severity: string | null;
+  stages: unknown;
+  priority: number;
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ApprovalContractRecord {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+  title: string | null;
+  contract_type: string | null;
+  workflow_status: ContractWorkflowStatus;
+  approval_chain_id: string | null;
+  approval_chain_name: string | null;
+  approval_stages: unknown;
+  approval_stage_index: number | null;
+  approval_review_id: string | null;
+  workflow_updated_at: string | null;
+}
+
+interface ApprovalEventRecord {
+  id: string;
+  contract_id: string;
+  contract_title: string | null;
+  review_id: string | null;
+  chain_id: string | null;
+  chain_name: string | null;
+  stage_index: number | null;
+  stage_name: string | null;
+  action: ApprovalAction;
+  from_status: ContractWorkflowStatus;
+  to_status: ContractWorkflowStatus;
+  actor_id: string | null;
+  actor_email: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+export class ApprovalWorkflowError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "ApprovalWorkflowError";
+  }
+}
+
+const CHAIN_COLUMNS =
+  "id, organization_id, name, contract_types, min_severity, stages, priority, enabled, created_at, updated_at";
+const CONTRACT_COLUMNS =
+  "id, user_id, organization_id, title, contract_type, workflow_status, approval_chain_id, approval_chain_name, approval_stages, approval_stage_index, approval_review_id, workflow_updated_at";
+const EVENT_COLUMNS =
+  "id, contract_id, contract_title, review_id, chain_id, chain_name, stage_index, stage_name, action, from_status, to_status, actor_id, actor_email, reason, created_at";
+
+const MAX_STAGES = 10;
+const MAX_APPROVERS_PER_STAGE = 25;
+const MAX_REASON_LENGTH = 2000;
+
+/** Allowed moves of the contract sign-off status machine. */
+export const WORKFLOW_TRANSITIONS: Record<
+  ContractWorkflowStatus,
+  ContractWorkflowStatus[]
+> = {
+  draft: ["in_review"],
+  in_review: ["awaiting_approval", "approved"],
+  awaiting_approval: ["awaiting_approval", "approved", "rejected", "in_review"],
+  approved: ["in_review"],
+  rejected: ["awaiting_approval", "approved", "in_review"],
+};
+
+export function canTransition(
+  from: ContractWorkflowStatus,
+  to: ContractWorkflowStatus,
+): boolean {
+  return WORKFLOW_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+function severityRank(severity: string | null | undefined): number {
+  return APPROVAL_SEVERITIES.indexOf(
+    (severity ?? "").toLowerCase() as ApprovalSeverity,
+  );
+}
+
+function isApprovalSeverity(value: unknown): value is ApprovalSeverity {
+  return (
+    typeof value === "string" &&
+    APPROVAL_SEVERITIES.includes(value as ApprovalSeverity)
+  );
+}
+
+/** Worst severity among a stored review's structured issues. */
+export function maxIssueSeverity(
+  results: Record<string, unknown> | null | undefined,
+): ApprovalSeverity | null {
+  const structured = results?.structured_report as
+    | { issuesToAddress?: unknown }
+    | null
+    | undefined;
+  if (!Array.isArray(structured?.issuesToAddress)) {
+    return null;
+  }
+  let worst: ApprovalSeverity | null = null;
+  for (const issue of structured!.issuesToAddress as Array<
+    Record<string, unknown>
+  >) {
+    const severity =
+      typeof issue?.severity === "string" ? issue.severity.toLowerCase() : "";
+    if (
+      isApprovalSeverity(severity) &&
+      severityRank(severity) > severityRank(worst)
+    ) {
+      worst = severity;
+    }
+  }
+  return worst;
+}
+
+/**
+ * First enabled chain, by priority, whose conditions match the contract.
+ * Chains with a severity threshold never match a review without issues.
+ */
+export function selectApprovalChain(
+  chains: ApprovalChain[],
+  subject: {
+    contractType: string | null;
+    maxSeverity: ApprovalSeverity | null;
+  },
+): ApprovalChain | null {
+  const contractType = subject.contractType?.trim().toLowerCase() ?? "";
+  const ordered = chains
+    .filter((chain) => chain.enabled && chain.stages.length > 0)
+    .sort(
+      (a, b) =>
+        a.priority - b.priority || a.createdAt.localeCompare(b.createdAt),
+    );
+  return (
+    ordered.find((chain) => {
+      if (
+        chain.contractTypes.length > 0 &&
+        !chain.contractTypes.some(
+          (type) => type.trim().toLowerCase() === contractType,
+        )
+      ) {
+        return false;
+      }
+      if (
+        chain.minSeverity &&
+        severityRank(subject.maxSeverity) < severityRank(chain.minSeverity)
+      ) {
+        return false;
+      }
+      return true;
+    }) ?? null
+  );
+}
+
+function normalizeStages(value: unknown): ApprovalStage[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((stage) => {
+      const raw = (stage ?? {}) as Record<string, unknown>;
+      const name = typeof raw.name === "string" ? raw.name.trim() : "";
+      const approverIds = Array.isArray(raw.approverIds)
+        ? Array.from(
+            new Set(
+              raw.approverIds.filter(
+                (id): id is string => typeof id === "string" && !!id.trim(),
+              ),
+            ),
+          )
+        : [];
+      return { name: name.slice(0, 100), approverIds };
+    })
+    .filter((stage) => stage.name);
+}
+
+function mapChainRow(row: ApprovalChainRecord): ApprovalChain {
+  return {
+    id: row.id,
+    name: row.name,
+    contractTypes: row.contract_types ?? [],
+    minSeverity: isApprovalSeverity(row.min_severity) ? row.min_severity : null,
+    stages: normalizeStages(row.stages),
+    priority: row.priority,
+    enabled: row.enabled,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapEventRow(row: ApprovalEventRecord): ApprovalTrailEvent {
+  return {
+    id: row.id,
+    contractId: row.contract_id,
+    contractTitle: row.contract_title ?? null,
+    reviewId: row.review_id ?? null,
+    chainId: row.chain_id ?? null,
+    chainName: row.chain_name ?? null,
+    stageIndex: row.stage_index ?? null,
+    stageName: row.stage_name ?? null,
+    action: row.action,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    actorId: row.actor_id ?? null,
+    actorEmail: row.actor_email ?? null,
+    reason: row.reason ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+export function parseApprovalChainInput(
+  body: unknown,
+  options: { partial?: boolean } = {},
+): { input: Partial<ApprovalChainInput> } | { error: string } {
+  const raw = (body ?? {}) as Record<string, unknown>;
+  const input: Partial<ApprovalChainInput> = {};
+
+  if (raw.name !== undefined || !options.partial) {
+    const name = typeof raw.name === "string" ? raw.name.trim() : "";
+    if (!name) {
+      return { error: "name is required" };
+    }
+    input.name = name.slice(0, 100);
+  }
+
+  if (raw.stages !== undefined || !options.partial) {
+    if (!Array.isArray(raw.stages)) {
+      return { error: "stages must be an array" };
+    }
+    const stages = normalizeStages(raw.stages);
+    if (!stages.length || stages.length !== raw.stages.length) {
+      return { error: "Every stage needs a name" };
+    }
+    if (stages.length > MAX_STAGES) {
+      return { error: `A chain can have at most ${MAX_STAGES} stages` };
+    }
+    if (
+      stages.some((stage) => stage.approverIds.length > MAX_APPROVERS_PER_STAGE)
+    ) {
+      return {
+        error: `A stage can have at most ${MAX_APPROVERS_PER_STAGE} approvers`,
+      };
+    }
+    input.stages = stages;
+  }
+
+  if (raw.contractTypes !== undefined) {
+    if (!Array.isArray(raw.contractTypes)) {
+      return { error: "contractTypes must be an array" };
+    }
+    input.contractTypes = Array.from(
+      new Set(
+        raw.contractTypes
+          .filter((type): type is string => typeof type === "string")
+          .map((type) => type.trim())
+          .filter(Boolean),
+      ),
+    );
+  } else if (!options.partial) {
+    input.contractTypes = [];
+  }
+
+  if (raw.minSeverity !== undefined) {
+    if (raw.minSeverity !== null && !isApprovalSeverity(raw.minSeverity)) {
+      return {
+        error: `minSeverity must be one of ${APPROVAL_SEVERITIES.join(", ")}`,
+      };
+    }
+    input.minSeverity = raw.minSeverity as ApprovalSeverity | null;
+  } else if (!options.partial) {
+    input.minSeverity = null;
+  }
+
+  if (raw.priority !== undefined) {
+    if (!Number.isInteger(raw.priority)) {
+      return { error: "priority must be a whole number" };
+    }
+    input.priority = raw.priority as number;
+  }
+
+  if (raw.enabled !== undefined) {
+    if (typeof raw.enabled !== "boolean") {
+      return { error: "enabled must be a boolean" };
+    }
+    input.enabled = raw.enabled;
+  }
+
+  return { input };
+}
+
+function toChainRow(input: Partial<ApprovalChainInput>) {
+  return {
+    ...(input.name !== undefined ? { name: input.name } : {}),
+    ...(input.contractTypes !== undefined
+      ? { contract_types: input.contractTypes }
+      : {}),
+    ...(input.minSeverity !== undefined
+      ? { min_severity: input.minSeverity }
+      : {}),
+    ...(input.stages !== undefined ? { stages: input.stages } : {}),
+    ...(input.priority !== undefined ? { priority: input.priority } : {}),
+    ...(input.enabled !== undefined ? { enabled: input.enabled } : {}),
+  };
+}
+
+export async function listApprovalChains(
+  organizationId: string,
+): Promise<ApprovalChain[]> {
+  const { data, error } = await getSupabaseAdminClient()
+    .from("organization_approval_chains")
+    .select(CHAIN_COLUMNS)
+    .eq("organization_id", organizationId)
+    .order("priority", { ascending: true })
+    .order("created_at", { ascending: true });
+  if (error) {
+    throw error;
+  }
+  return ((data ?? []) as ApprovalChainRecord[]).map(mapChainRow);
+}
+
+export async function createApprovalChain(
+  organizationId: string,
+  input: ApprovalChainInput,
+  createdBy: string | null,
+): Promise<ApprovalChain> {
+  const { data, error } = await getSupabaseAdminClient()
+    .from("organization_approval_chains")
+    .insert({
+      organization_id: organizationId,
+      created_by: createdBy,
+      ...toChainRow(input),
+    })
+    .select(CHAIN_COLUMNS)
+    .single();
+  if (error) {
+    throw error;
+  }
+  return mapChainRow(data as ApprovalChainRecord);
+}
+
+export async function updateApprovalChain(
+  organizationId: string,
+  chainId: string,
+  input: Partial<ApprovalChainInput>,
+): Promise<ApprovalChain | null> {
+  const { data, error } = await getSupabaseAdminClient()
+    .from("organization_approval_chains")
+    .update(toChainRow(input))
+    .eq("id", chainId)
+    .eq("organization_id", organizationId)
+    .select(CHAIN_COLUMNS)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return data ? mapChainRow(data as ApprovalChainRecord) : null;
+}
+
+export async function deleteApprovalChain(
+  organizationId: string,
+  chainId: string,
+): Promise<boolean> {
+  const { data, error } = await getSupabaseAdminClient()
+    .from("organization_approval_chains")
+    .delete()
+    .eq("id", chainId)
+    .eq("organization_id", organizationId)
+    .select("id");
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).length > 0;
+}
+
+export async function listApprovalTrail(
+  organizationId: string,
+  options: { contractId?: string; limit?: number } = {},
+): Promise<ApprovalTrailEvent[]> {
+  let query = getSupabaseAdminClient()
+    .from("contract_approval_events")
+    .select(EVENT_COLUMNS)
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: false })
+    .limit(Math.min(Math.max(options.limit ?? 1000, 1), 5000));
+  if (options.contractId) {
+    query = query.eq("contract_id", options.contractId);
+  }
+  const { data, error } = await query;
+  if (error) {
+    throw error;
+  }
+  return ((data ?? []) as ApprovalEventRecord[]).map(mapEventRow);
+}
+
+async function loadContract(
+  contractId: string,
+): Promise<ApprovalContractRecord | null> {
+  const { data, error } = await getSupabaseAdminClient()
+    .from("contracts")
+    .select(CONTRACT_COLUMNS)
+    .eq("id", contractId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return (data as ApprovalContractRecord | null) ?? null;
+}
+
+async function resolveContractOrganizationId(
+  contract: ApprovalContractRecord,
+): Promise<string | null> {
+  if (contract.organization_id) {
+    return contract.organization_id;
+  }
+  const { data, error } = await getSupabaseAdminClient()
+    .from("user_profiles")
+    .select("organization_id")
+    .eq("id", contract.user_id)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return (data?.organization_id as string | null) ?? null;
+}
+
+async function loadLatestReview(contractId: string) {
+  const { data, error } = await getSupabaseAdminClient()
+    .from("contract_reviews")
+    .select("id, results")
+    .eq("contract_id", contractId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return data as { id: string; results: Record<string, unknown> | null } | null;
+}
+
+function currentStage(contract: ApprovalContractRecord): ApprovalStage | null {
+  if (
+    contract.workflow_status !== "awaiting_approval" ||
+    contract.approval_stage_index === null
+  ) {
+    return null;
+  }
+  return (
+    normalizeStages(contract.approval_stages)[contract.approval_stage_index] ??
+    null
+  );
+}
+
+function isOrgAdminOf(
+  access: UserAccessContext,
+  organizationId: string | null,
+) {
+  return (
+    organizationId !== null &&
+    access.organizationId === organizationId &&
+    access.organizationRole === "org_admin"
+  );
+}
+
+/** Stages without named approvers fall to the organization's admins. */
+export function canApproveStage(
+  stage: ApprovalStage | null,
+  access: Pick<UserAccessContext, "profileId">,
+  isOrgAdmin: boolean,
+): boolean {
+  if (!stage) return false;
+  return stage.approverIds.length
+    ? stage.approverIds.includes(access.profileId)
+    : isOrgAdmin;
+}
+
+interface ResolvedContract {
+  contract: ApprovalContractRecord;
+  organizationId: string | null;
+  isOwner: boolean;
+  isOrgAdmin: boolean;
+}
+
+async function resolveVisibleContract(
+  contractId: string,
+  access: UserAccessContext,
+): Promise<ResolvedContract | null> {
+  try {
+    await assertContractAccess(access, contractId);
+  } catch (error) {
+    if (error instanceof RequestAuthError) return null;
+    throw error;
+  }
+  const contract = await loadContract(contractId);
+  if (!contract) return null;
+  const organizationId = await resolveContractOrganizationId(contract);
+  return {
+    contract,
+    organizationId,
+    isOwner: contract.user_id === access.profileId,
+    isOrgAdmin: isOrgAdminOf(access, organizationId),
+  };
+}
+
+async function loadActorEmail(profileId: string): Promise<string | null> {
+  const { data, error } = await getSupabaseAdminClient()
+    .from("user_profiles")
+    .select("email")
+    .eq("id", profileId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return (data?.email as string | null) ?? null;
+}
+
+/**
+ * Moves a contract to `next` and appends the matching trail event. The update
+ * is conditioned on the status the caller read, so two approvers acting on
+ * the same stage cannot both succeed.
+ */
+async function transitionContract(
+  resolved: ResolvedContract,
+  next: ContractWorkflowStatus,
+  changes: Partial<ApprovalContractRecord>,
+  event: {
+    action: ApprovalAction;
+    actorId: string | null;
+    reason?: string | null;
+    stageIndex?: number | null;
+    stageName?: string | null;
+  },
+): Promise<ApprovalContractRecord> {
+  const { contract, organizationId } = resolved;
+  if (!canTransition(contract.workflow_status, next)) {
+    throw new ApprovalWorkflowError(
+      `Cannot move a contract from ${contract.workflow_status} to ${next}`,
+      409,
+    );
+  }
+  const supabase = getSupabaseAdminClient();
+  const now = new Date().toISOString();
+  let query = supabase
+    .from("contracts")
+    .update({
+      ...changes,
+      organization_id: organizationId,
+      workflow_status: next,
+      workflow_updated_at: now,
+    })
+    .eq("id", contract.id)
+    .eq("workflow_status", contract.workflow_status);
+  query =
+    contract.approval_stage_index === null
+      ? query.is("approval_stage_index", null)
+      : query.eq("approval_stage_index", contract.approval_stage_index);
+  const { data, error } = await query.select(CONTRACT_COLUMNS).maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    throw new ApprovalWorkflowError(
+      "The contract was updated by someone else. Refresh and try again.",
+      409,
+    );
+  }
+  const updated = data as ApprovalContractRecord;
+
+  const { error: eventError } = await supabase
+    .from("contract_approval_events")
+    .insert({
+      organization_id: organizationId,
+      contract_id: contract.id,
+      contract_title: contract.title,
+      review_id: updated.approval_review_id,
+      chain_id: updated.approval_chain_id,
+      chain_name: updated.approval_chain_name,
+      stage_index: event.stageIndex ?? null,
+      stage_name: event.stageName ?? null,
+      action: event.action,
+      from_status: contract.workflow_status,
+      to_status: next,
+      actor_id: event.actorId,
+      actor_email: event.actorId ? await loadActorEmail(event.actorId) : null,
+      reason: event.reason ?? null,
+    });
+  if (eventError) {
+    throw eventError;
+  }
+  return updated;
+}
+
+async function sendApprovalEmail(
+  recipients: string[],
+  alert: { title: string; summary: string; contractTitle: string | null },
+) {
+  if (!recipients.length) return;
+  const { error } = await getSupabaseAdminClient().functions.invoke(
+    ALERT_EMAIL_FUNCTION,
+    {
+      body: {
+        to: recipients,
+        alert: {
+          type: "contract_approval",
+          organizationName: null,
+          title: alert.title,
+          summary: alert.summary,
+          items: [{ label: alert.contractTitle ?? "Untitled contract" }],
+          dashboardUrl: `${APP_BASE_URL}/user-dashboard`,
+          generatedAt: new Date().toISOString(),
+        },
+      },
+    },
+  );
+  if (error) {
+    throw error;
+  }
+}
+
+async function loadEmails(
+  query: { ids: string[] } | { adminsOf: string },
+): Promise<string[]> {
+  let request = getSupabaseAdminClient()
+    .from("user_profiles")
+    .select("email")
+    .eq("is_active", true);
+  request =
+    "ids" in query
+      ? request.in("id", query.ids)
+      : request
+          .eq("organization_id", query.adminsOf)
+          .eq("organization_role", "org_admin");
+  const { data, error } = await request;
+  if (error) {
+    throw error;
+  }
+  return (data ?? [])
+    .map((row) => row.email as string | null)
+    .filter((email): email is string => !!email);
+}
+
+// Notifications are best-effort: the inbox is the source of truth.
+async function notifyWorkflowChange(
+  contract: ApprovalContractRecord,
+  organizationId: string | null,
+) {
+  try {
+    const stage = currentStage(contract);
+    if (stage) {
+      const recipients = stage.approverIds.length
+        ? await loadEmails({ ids: stage.approverIds })
+        : organizationId
+          ? await loadEmails({ adminsOf: organizationId })
+          : [];
+      await sendApprovalEmail(recipients, {
+        title: "A contract is waiting for your approval",
+        summary: `${contract.title ?? "A contract"} needs sign-off at the ${stage.name} stage.`,
+        contractTitle: contract.title,
+      });
+      return;
+    }
+    if (
+      contract.workflow_status === "approved" ||
+      contract.workflow_status === "rejected"
+    ) {
+      await sendApprovalEmail(await loadEmails({ ids: [contract.user_id] }), {
+        title: `Contract ${contract.workflow_status}`,
+        summary: `${contract.title ?? "Your contract"} was ${contract.workflow_status}.`,
+        contractTitle: contract.title,
+      });
+    }
+  } catch (error) {
+    console.warn("[approvals] Notification failed", {
+      contractId: contract.id,
+      error,
+    });
+  }
+}
+
+async function buildApprovalState(
+  resolved: ResolvedContract,
+  access: UserAccessContext,
+): Promise<ContractApprovalState> {
+  const { contract, organizationId } = resolved;
+  const [review, trail] = await Promise.all([
+    loadLatestReview(contract.id),
+    organizationId
+      ? listApprovalTrail(organizationId, { contractId: contract.id })
+      : Promise.resolve([]),
+  ]);
+  const stage = currentStage(contract);
+  return {
+    contractId: contract.id,
+    contractTitle: contract.title ?? null,
+    contractType: contract.contract_type ?? null,
+    status: contract.workflow_status,
+    chainId: contract.approval_chain_id ?? null,
+    chainName: contract.approval_chain_name ?? null,
+    stages: normalizeStages(contract.approval_stages),
+    currentStageIndex: stage ? contract.approval_stage_index : null,
+    reviewId: contract.approval_review_id ?? review?.id ?? null,
+    maxSeverity: maxIssueSeverity(review?.results),
+    updatedAt: contract.workflow_updated_at ?? null,
+    canSubmit:
+      organizationId !== null &&
+      (contract.workflow_status === "in_review" ||
+        contract.workflow_status === "rejected") &&
+      (resolved.isOwner || resolved.isOrgAdmin),
+    canDecide: canApproveStage(stage, access, resolved.isOrgAdmin),
+    trail: [...trail].reverse(),
+  };
+}
+
+export async function getContractApprovalState(
+  contractId: string,
+  access: UserAccessContext,
+): Promise<ContractApprovalState | null> {
+  const resolved = await resolveVisibleContract(contractId, access);
+  return resolved ? buildApprovalState(resolved, access) : null;
+}
+
+/**
+ * Starts sign-off on the latest review. With no matching chain the contract
+ * is cleared straight away, and that is recorded in the trail too.
+ */
+export async function submitContractForApproval(
+  contractId: string,
+  access: UserAccessContext,
+): Promise<ContractApprovalState> {
+  const resolved = await resolveVisibleContract(contractId, access);
+  if (!resolved) {
+    throw new ApprovalWorkflowError("Contract not found", 404);
+  }
+  if (!resolved.organizationId) {
+    throw new ApprovalWorkflowError(
+      "Approval workflows are only available to organization members",
+      400,
+    );
+  }
+  if (!resolved.isOwner && !resolved.isOrgAdmin) {
+    throw new ApprovalWorkflowError(
+      "Only the contract owner or an org admin can submit it for approval",
+      403,
+    );
+  }
+
+  const review = await loadLatestReview(contractId);
+  if (!review) {
+    throw new ApprovalWorkflowError(
+      "Review the contract before submitting it for approval",
+      409,
+    );
+  }
+  const chain = selectApprovalChain(
+    await listApprovalChains(resolved.organizationId),
+    {
+      contractType: resolved.contract.contract_type,
+      maxSeverity: maxIssueSeverity(review.results),
+    },
+  );
+
+  const updated = chain
+    ? await transitionContract(
+        resolved,
+        "awaiting_approval",
+        {
+          approval_chain_id: chain.id,
+          approval_chain_name: chain.name,
+          approval_stages: chain.stages,
+          approval_stage_index: 0,
+          approval_review_id: review.id,
+        },
+        {
+          action: "submitted",
+          actorId: access.profileId,
+          stageIndex: 0,
+          stageName: chain.stages[0].name,
+        },
+      )
+    : await transitionContract(
+        resolved,
+        "approved",
+        {
+          approval_chain_id: null,
+          approval_chain_name: null,
+          approval_stages: [],
+          approval_stage_index: null,
+          approval_review_id: review.id,
+        },
+        {
+          action: "cleared",
+          actorId: access.profileId,
+          reason: "No approval chain applies to this contract",
+        },
+      );
+
+  await notifyWorkflowChange(updated, resolved.organizationId);
+  return buildApprovalState({ ...resolved, contract: updated }, access);
+}
+
+export async function decideContractApproval(
+  contractId: string,
+  access: UserAccessContext,
+  decision: "approve" | "reject",
+  reasonRaw: unknown,
+): Promise<ContractApprovalState> {
+  const resolved = await resolveVisibleContract(contractId, access);
+  if (!resolved) {
+    throw new ApprovalWorkflowError("Contract not found", 404);
+  }
+  const { contract } = resolved;
+  const stage = currentStage(contract);
+  if (!stage) {
+    throw new ApprovalWorkflowError(
+      "The contract is not awaiting approval",
+      409,
+    );
+  }
+  if (!canApproveStage(stage, access, resolved.isOrgAdmin)) {
+    throw new ApprovalWorkflowError(
+      `You are not an approver for the ${stage.name} stage`,
+      403,
+    );
+  }
+
+  const reason =
+    typeof reasonRaw === "string"
+      ? reasonRaw.trim().slice(0, MAX_REASON_LENGTH)
+      : "";
+  if (decision === "reject" && !reason) {
+    throw new ApprovalWorkflowError("A reason is required to reject", 400);
+  }
+
+  const stageIndex = contract.approval_stage_index ?? 0;
+  const stages = normalizeStages(contract.approval_stages);
+  const isLastStage = stageIndex >= stages.length - 1;
+  const event = {
+    actorId: access.profileId,
+    reason: reason || null,
+    stageIndex,
+    stageName: stage.name,
+  };
+
+  const updated =
+    decision === "reject"
+      ? await transitionContract(
+          resolved,
+          "rejected",
+          { approval_stage_index: null },
+          { ...event, action: "rejected" },
+        )
+      : await transitionContract(
+          resolved,
+          isLastStage ? "approved" : "awaiting_approval",
+          { approval_stage_index: isLastStage ? null : stageIndex + 1 },
+          { ...event, action: "approved" },
+        );
+
+  await notifyWorkflowChange(updated, resolved.organizationId);
+  return buildApprovalState({ ...resolved, contract: updated }, access);
+}
+
+/**
+ * Called when a review is saved. A fresh review puts the contract back in
+ * review, and any approval given for the earlier review no longer stands.
+ */
+export async function markContractInReview(reviewId: string): Promise<void> {
+  const supabase = getSupabaseAdminClient();
+  const { data: review, error } = await supabase
+    .from("contract_reviews")
+    .select("contract_id, user_id")
+    .eq("id", reviewId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!review?.contract_id) return;
+
+  const contract = await loadContract(review.contract_id);
+  if (!contract || contract.workflow_status === "in_review") return;
+
+  const resolved: ResolvedContract = {
+    contract,
+    organizationId: await resolveContractOrganizationId(contract),
+    isOwner: true,
+    isOrgAdmin: false,
+  };
+  const changes: Partial<ApprovalContractRecord> = {
+    approval_stage_index: null,
+    approval_review_id: reviewId,
+  };
+
+  if (contract.workflow_status === "draft") {
+    // Nothing has been signed off yet, so there is nothing to record.
+    const { error: updateError } = await supabase
+      .from("contracts")
+      .update({
+        ...changes,
+        workflow_status: "in_review",
+        workflow_updated_at: new Date().toISOString(),
+      })
+      .eq("id", contract.id)
+      .eq("workflow_status", "draft");
+    if (updateError) {
+      throw updateError;
+    }
+    return;
+  }
+
+  await transitionContract(resolved, "in_review", changes, {
+    action: "reopened",
+    actorId: review.user_id ?? null,
+    reason: "A new review was saved",
+  });
+}
+
+/** Contracts waiting at a stage the caller can sign off. */
+export async function listApprovalInbox(
+  access: UserAccessContext,
+): Promise<ApprovalInboxItem[]> {
+  if (!access.organizationId) {
+    return [];
+  }
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("contracts")
+    .select(CONTRACT_COLUMNS)
+    .eq("organization_id", access.organizationId)
+    .eq("workflow_status", "awaiting_approval")
+    .order("workflow_updated_at", { ascending: true })
+    .limit(200);
+  if (error) {
+    throw error;
+  }
+
+  const isOrgAdmin = access.organizationRole === "org_admin";
+  const pending = ((data ?? []) as ApprovalContractRecord[]).filter(
+    (contract) => canApproveStage(currentStage(contract), access, isOrgAdmin),
+  );
+  if (!pending.length) {
+    return [];
+  }
+
+  const [
+    { data: submissions, error: eventsError },
+    { data: reviews, error: reviewsError },
+  ] = await Promise.all([
+    supabase
+      .from("contract_approval_events")
+      .select("contract_id, actor_email, created_at")
+      .in(
+        "contract_id",
+        pending.map((contract) => contract.id),
+      )
+      .eq("action", "submitted")
+      .order("created_at", { ascending: false }),
+    supabase
+      .from("contract_reviews")
+      .select("id, results")
+      .in(
+        "id",
+        pending
+          .map((contract) => contract.approval_review_id)
+          .filter((id): id is string => !!id),
+      ),
+  ]);
+  if (eventsError) {
+    throw eventsError;
+  }
+  if (reviewsError) {
+    throw reviewsError;
+  }
+
+  const latestSubmission = new Map<
+    string,
+    { actor_email: string | null; created_at: string }
+  >();
+  (submissions ?? []).forEach((row) => {
+    if (!latestSubmission.has(row.contract_id)) {
+      latestSubmission.set(row.contract_id, row);
+    }
+  });
+  const severityByReview = new Map(
+    (reviews ?? []).map((row) => [
+      row.id as string,
+      maxIssueSeverity(row.results as Record<string, unknown> | null),
+    ]),
+  );
+
+  return pending.map((contract) => {
+    const stages = normalizeStages(contract.approval_stages);
+    const stageIndex = contract.approval_stage_index ?? 0;
+    const submission = latestSubmission.get(contract.id);
+    return {
+      contractId: contract.id,
+      contractTitle: contract.title ?? null,
+      contractType: contract.contract_type ?? null,
+      chainName: contract.approval_chain_name ?? null,
+      stageName: stages[stageIndex]?.name ?? "Approval",
+      stageNumber: stageIndex + 1,
+      stageCount: stages.length,
+      maxSeverity: contract.approval_review_id
+        ? (severityByReview.get(contract.approval_review_id) ?? null)
+        : null,
+      submittedBy: submission?.actor_email ?? null,
+      submittedAt: submission?.created_at ?? null,
+    };
+  });
+}
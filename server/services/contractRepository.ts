@@ -0,0 +1,649 @@
+import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import type {
+  ContractFolder,
+  ContractRepositoryFacet,
+  ContractRepositoryFacets,
+  ContractRepositoryItem,
+  ContractRepositoryScope,
+  ContractSearchFilters,
+  ContractSearchResponse,
+  ContractWorkflowStatus,
+  UpdateContractOrganizationRequest,
+  UserAccessContext,
+} from "../../shared/api";
+
+interface ContractRepositoryRecord {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+  title: string;
+  file_name: string | null;
+  folder_id: string | null;
+  tags: string[] | null;
+  counterparties: string[] | null;
+  contract_type: string | null;
+  governing_law: string | null;
+  latest_score: number | null;
+  workflow_status: ContractWorkflowStatus | null;
+  latest_review_id: string | null;
+  created_at: string;
+}
+
+interface ContractFolderRecord {
+  id: string;
+  organization_id: string | null;
+  owner_id: string;
+  name: string;
+  created_at: string;
+}
+
+interface RepositoryReportLike {
+  contractSummary?: {
+    parties?: unknown;
+    governingLaw?: unknown;
+    purpose?: unknown;
+  };
+  issuesToAddress?: unknown;
+  clauseFindings?: unknown;
+  metadata?: { classification?: { contractType?: unknown } };
+}
+
+export class ContractRepositoryError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "ContractRepositoryError";
+  }
+}
+
+const REPOSITORY_COLUMNS =
+  "id, user_id, organization_id, title, file_name, folder_id, tags, counterparties, contract_type, governing_law, latest_score, workflow_status, latest_review_id, created_at";
+const FOLDER_COLUMNS = "id, organization_id, owner_id, name, created_at";
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const MAX_QUERY_LENGTH = 200;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+const MAX_FOLDER_NAME_LENGTH = 100;
+const MAX_SEARCH_TEXT_LENGTH = 100_000;
+const FACET_SAMPLE_LIMIT = 2000;
+const FACET_LIMIT = 50;
+
+/** A trailing role label such as "(the Discloser)" or "(“Supplier”)". */
+const PARTY_ROLE_SUFFIX = /\s*\([^)]*\)\s*$/;
+
+/**
+ * Counterparty names from a report's `contractSummary.parties`, with role
+ * labels stripped and duplicates (ignoring case) removed.
+ */
+export function extractCounterparties(parties: unknown): string[] {
+  if (!Array.isArray(parties)) return [];
+  const seen = new Set<string>();
+  const names: string[] = [];
+  for (const party of parties) {
+    if (typeof party !== "string") continue;
+    const name = party
+      .replace(PARTY_ROLE_SUFFIX, "")
+      .replace(/\s+/g, " ")
+      .trim();
+    const key = name.toLowerCase();
+    if (!name || seen.has(key)) continue;
+    seen.add(key);
+    names.push(name.slice(0, 200));
+  }
+  return names;
+}
+
+function collectText(entries: unknown, fields: string[]): string[] {
+  if (!Array.isArray(entries)) return [];
+  return entries.flatMap((entry) => {
+    const record = (entry ?? {}) as Record<string, unknown>;
+    return fields
+      .map((field) => record[field])
+      .filter((value): value is string => typeof value === "string");
+  });
+}
+
+/**
+ * Findings text indexed alongside the contract body so a search for e.g.
+ * "uncapped liability" also matches contracts whose review flagged it.
+ */
+export function buildReviewSearchText(
+  report: RepositoryReportLike | null | undefined,
+): string {
+  if (!report) return "";
+  const parts = [
+    typeof report.contractSummary?.purpose === "string"
+      ? report.contractSummary.purpose
+      : "",
+    ...collectText(report.issuesToAddress, [
+      "title",
+      "summary",
+      "recommendation",
+    ]),
+    ...collectText(report.clauseFindings, ["title", "summary"]),
+  ];
+  return parts
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join("\n")
+    .slice(0, MAX_SEARCH_TEXT_LENGTH);
+}
+
+export function normalizeTags(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  for (const entry of value) {
+    if (typeof entry !== "string") return null;
+    const tag = entry.trim().replace(/\s+/g, " ").toLowerCase();
+    if (!tag || seen.has(tag)) continue;
+    if (tag.length > MAX_TAG_LENGTH) return null;
+    seen.add(tag);
+    tags.push(tag);
+  }
+  return tags.length > MAX_TAGS ? null : tags;
+}
+
+function readString(value: unknown, maxLength = MAX_QUERY_LENGTH) {
+  return typeof value === "string" && value.trim()
+    ? value.trim().slice(0, maxLength)
+    : undefined;
+}
+
+function readInteger(value: unknown): number | null | undefined {
+  if (value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) ? parsed : null;
+}
+
+function readDate(value: unknown): string | null | undefined {
+  const raw = readString(value, 40);
+  if (!raw) return undefined;
+  return Number.isNaN(Date.parse(raw)) ? null : raw;
+}
+
+export function parseContractSearchQuery(
+  query: Record<string, unknown>,
+): { filters: ContractSearchFilters } | { error: string } {
+  const filters: ContractSearchFilters = {
+    query: readString(query.q),
+    scope: query.scope === "organization" ? "organization" : "mine",
+    folderId: readString(query.folderId, 64),
+    tag: readString(query.tag, MAX_TAG_LENGTH)?.toLowerCase(),
+    counterparty: readString(query.counterparty),
+    contractType: readString(query.contractType),
+    governingLaw: readString(query.governingLaw),
+  };
+
+  for (const key of ["minScore", "maxScore"] as const) {
+    const score = readInteger(query[key]);
+    if (score === null || (score !== undefined && (score < 0 || score > 100))) {
+      return { error: `${key} must be a whole number between 0 and 100` };
+    }
+    filters[key] = score;
+  }
+
+  for (const key of ["from", "to"] as const) {
+    const date = readDate(query[key]);
+    if (date === null) {
+      return { error: `${key} must be a valid date` };
+    }
+    filters[key] = date;
+  }
+
+  const page = readInteger(query.page);
+  const pageSize = readInteger(query.pageSize);
+  if (page === null || (page !== undefined && page < 1)) {
+    return { error: "page must be a positive whole number" };
+  }
+  if (
+    pageSize === null ||
+    (pageSize !== undefined && (pageSize < 1 || pageSize > MAX_PAGE_SIZE))
+  ) {
+    return { error: `pageSize must be between 1 and ${MAX_PAGE_SIZE}` };
+  }
+  filters.page = page ?? 1;
+  filters.pageSize = pageSize ?? DEFAULT_PAGE_SIZE;
+
+  return { filters };
+}
+
+function mapRepositoryRow(
+  row: ContractRepositoryRecord,
+): ContractRepositoryItem {
+  return {
+    id: row.id,
+    title: row.title,
+    fileName: row.file_name ?? null,
+    ownerId: row.user_id,
+    folderId: row.folder_id ?? null,
+    tags: row.tags ?? [],
+    counterparties: row.counterparties ?? [],
+    contractType: row.contract_type ?? null,
+    governingLaw: row.governing_law ?? null,
+    score: row.latest_score ?? null,
+    workflowStatus: row.workflow_status ?? "draft",
+    latestReviewId: row.latest_review_id ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+function resolveScope(
+  access: UserAccessContext,
+  scope: ContractRepositoryScope | undefined,
+): ContractRepositoryScope {
+  if (scope === "organization") {
+    if (!access.organizationId) {
+      throw new ContractRepositoryError(
+        "Organization search requires an organization",
+        400,
+      );
+    }
+    return "organization";
+  }
+  return "mine";
+}
+
+function scopedContracts(
+  access: UserAccessContext,
+  scope: ContractRepositoryScope,
+  columns: string,
+  options?: { count: "exact" },
+) {
+  const query = getSupabaseAdminClient()
+    .from("contracts")
+    .select(columns, options);
+  return scope === "organization"
+    ? query.eq("organization_id", access.organizationId!)
+    : query.eq("user_id", access.profileId);
+}
+
+/**
+ * Copies the derived repository fields from a saved review onto its contract.
+ * Re-running it for the same review is harmless.
+ */
+export async function indexContractForRepository(
+  reviewId: string,
+): Promise<void> {
+  const supabase = getSupabaseAdminClient();
+  const { data: review, error } = await supabase
+    .from("contract_reviews")
+    .select("id, contract_id, score, results")
+    .eq("id", reviewId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!review?.contract_id) return;
+
+  const results = (review.results ?? {}) as {
+    structured_report?: RepositoryReportLike;
+    contract_summary?: RepositoryReportLike["contractSummary"];
+  };
+  const report = results.structured_report ?? null;
+  const summary = report?.contractSummary ?? results.contract_summary;
+  const contractType = report?.metadata?.classification?.contractType;
+  const governingLaw = summary?.governingLaw;
+
+  const { error: updateError } = await supabase
+    .from("contracts")
+    .update({
+      latest_review_id: review.id,
+      latest_score: typeof review.score === "number" ? review.score : null,
+      counterparties: extractCounterparties(summary?.parties),
+      governing_law:
+        typeof governingLaw === "string" && governingLaw.trim()
+          ? governingLaw.trim()
+          : null,
+      review_search_text: buildReviewSearchText(report) || null,
+      ...(typeof contractType === "string" && contractType.trim()
+        ? { contract_type: contractType.trim() }
+        : {}),
+    })
+    .eq("id", review.contract_id);
+  if (updateError) {
+    throw updateError;
+  }
+}
+
+export async function searchContracts(
+  access: UserAccessContext,
+  filters: ContractSearchFilters,
+): Promise<ContractSearchResponse> {
+  const scope = resolveScope(access, filters.scope);
+  const page = filters.page ?? 1;
+  const pageSize = filters.pageSize ?? DEFAULT_PAGE_SIZE;
+  let query = scopedContracts(access, scope, REPOSITORY_COLUMNS, {
+    count: "exact",
+  });
+
+  if (filters.query) {
+    query = query.textSearch("search_vector", filters.query, {
+      type: "websearch",
+      config: "english",
+    });
+  }
+  if (filters.folderId === "none") {
+    query = query.is("folder_id", null);
+  } else if (filters.folderId) {
+    query = query.eq("folder_id", filters.folderId);
+  }
+  if (filters.tag) {
+    query = query.contains("tags", [filters.tag]);
+  }
+  if (filters.counterparty) {
+    query = query.contains("counterparties", [filters.counterparty]);
+  }
+  if (filters.contractType) {
+    query = query.eq("contract_type", filters.contractType);
+  }
+  if (filters.governingLaw) {
+    query = query.ilike("governing_law", `%${filters.governingLaw}%`);
+  }
+  if (filters.minScore !== undefined) {
+    query = query.gte("latest_score", filters.minScore);
+  }
+  if (filters.maxScore !== undefined) {
+    query = query.lte("latest_score", filters.maxScore);
+  }
+  if (filters.from) {
+    query = query.gte("created_at", filters.from);
+  }
+  if (filters.to) {
+    // A bare date covers the whole day.
+    const to = /^\d{4}-\d{2}-\d{2}$/.test(filters.to)
+      ? `${filters.to}T23:59:59.999Z`
+      : filters.to;
+    query = query.lte("created_at", to);
+  }
+
+  const offset = (page - 1) * pageSize;
+  const { data, error, count } = await query
+    .order("created_at", { ascending: false })
+    .range(offset, offset + pageSize - 1);
+  if (error) {
+    throw error;
+  }
+
+  return {
+    items: ((data ?? []) as unknown as ContractRepositoryRecord[]).map(
+      mapRepositoryRow,
+    ),
+    total: count ?? 0,
+    page,
+    pageSize,
+  };
+}
+
+/** Tallies the values of a field across rows, most common first. */
+export function tallyFacet(
+  values: Array<string | null | undefined>,
+): ContractRepositoryFacet[] {
+  const counts = new Map<string, number>();
+  values.forEach((value) => {
+    const trimmed = value?.trim();
+    if (trimmed) counts.set(trimmed, (counts.get(trimmed) ?? 0) + 1);
+  });
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, FACET_LIMIT);
+}
+
+export async function getContractRepositoryFacets(
+  access: UserAccessContext,
+  requestedScope: ContractRepositoryScope | undefined,
+): Promise<ContractRepositoryFacets> {
+  const scope = resolveScope(access, requestedScope);
+  const { data, error } = await scopedContracts(
+    access,
+    scope,
+    "contract_type, governing_law, counterparties, tags",
+  )
+    .order("created_at", { ascending: false })
+    .limit(FACET_SAMPLE_LIMIT);
+  if (error) {
+    throw error;
+  }
+
+  const rows = (data ?? []) as unknown as Array<
+    Pick<
+      ContractRepositoryRecord,
+      "contract_type" | "governing_law" | "counterparties" | "tags"
+    >
+  >;
+  return {
+    contractTypes: tallyFacet(rows.map((row) => row.contract_type)),
+    governingLaws: tallyFacet(rows.map((row) => row.governing_law)),
+    counterparties: tallyFacet(rows.flatMap((row) => row.counterparties ?? [])),
+    tags: tallyFacet(rows.flatMap((row) => row.tags ?? [])),
+  };
+}
+
+function folderScopeFilter(access: UserAccessContext) {
+  return access.organizationId
+    ? `organization_id.eq.${access.organizationId}`
+    : `and(organization_id.is.null,owner_id.eq.${access.profileId})`;
+}
+
+async function loadVisibleFolder(
+  folderId: string,
+  access: UserAccessContext,
+): Promise<ContractFolderRecord | null> {
+  const { data, error } = await getSupabaseAdminClient()
+    .from("contract_folders")
+    .select(FOLDER_COLUMNS)
+    .eq("id", folderId)
+    .or(folderScopeFilter(access))
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return (data as ContractFolderRecord | null) ?? null;
+}
+
+function assertCanManageFolder(
+  folder: ContractFolderRecord,
+  access: UserAccessContext,
+) {
+  const isOrgAdmin =
+    folder.organization_id !== null && access.organizationRole === "org_admin";
+  if (folder.owner_id !== access.profileId && !isOrgAdmin) {
+    throw new ContractRepositoryError(
+      "Only the folder's creator or an org admin can change it",
+      403,
+    );
+  }
+}
+
+function parseFolderName(name: unknown): string {
+  const trimmed = typeof name === "string" ? name.trim() : "";
+  if (!trimmed || trimmed.length > MAX_FOLDER_NAME_LENGTH) {
+    throw new ContractRepositoryError(
+      `Folder name must be 1-${MAX_FOLDER_NAME_LENGTH} characters`,
+      400,
+    );
+  }
+  return trimmed;
+}
+
+function isUniqueViolation(error: unknown) {
+  return (error as { code?: string } | null)?.code === "23505";
+}
+
+export async function listContractFolders(
+  access: UserAccessContext,
+): Promise<ContractFolder[]> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("contract_folders")
+    .select(FOLDER_COLUMNS)
+    .or(folderScopeFilter(access))
+    .order("name", { ascending: true });
+  if (error) {
+    throw error;
+  }
+  const folders = (data ?? []) as ContractFolderRecord[];
+  if (!folders.length) return [];
+
+  const { data: filed, error: countError } = await supabase
+    .from("contracts")
+    .select("folder_id")
+    .in(
+      "folder_id",
+      folders.map((folder) => folder.id),
+    );
+  if (countError) {
+    throw countError;
+  }
+  const counts = new Map<string, number>();
+  ((filed ?? []) as Array<{ folder_id: string }>).forEach((row) => {
+    counts.set(row.folder_id, (counts.get(row.folder_id) ?? 0) + 1);
+  });
+
+  return folders.map((folder) => ({
+    id: folder.id,
+    name: folder.name,
+    organizationId: folder.organization_id,
+    ownerId: folder.owner_id,
+    contractCount: counts.get(folder.id) ?? 0,
+    createdAt: folder.created_at,
+  }));
+}
+
+export async function createContractFolder(
+  access: UserAccessContext,
+  name: unknown,
+): Promise<ContractFolder> {
+  const { data, error } = await getSupabaseAdminClient()
+    .from("contract_folders")
+    .insert({
+      organization_id: access.organizationId,
+      owner_id: access.profileId,
+      name: parseFolderName(name),
+    })
+    .select(FOLDER_COLUMNS)
+    .single();
+  if (error) {
+    if (isUniqueViolation(error)) {
+      throw new ContractRepositoryError("A folder with that name exists", 409);
+    }
+    throw error;
+  }
+  const folder = data as ContractFolderRecord;
+  return {
+    id: folder.id,
+    name: folder.name,
+    organizationId: folder.organization_id,
+    ownerId: folder.owner_id,
+    contractCount: 0,
+    createdAt: folder.created_at,
+  };
+}
+
+export async function renameContractFolder(
+  access: UserAccessContext,
+  folderId: string,
+  name: unknown,
+): Promise<void> {
+  const folder = await loadVisibleFolder(folderId, access);
+  if (!folder) {
+    throw new ContractRepositoryError("Folder not found", 404);
+  }
+  assertCanManageFolder(folder, access);
+  const { error } = await getSupabaseAdminClient()
+    .from("contract_folders")
+    .update({ name: parseFolderName(name) })
+    .eq("id", folder.id);
+  if (error) {
+    if (isUniqueViolation(error)) {
+      throw new ContractRepositoryError("A folder with that name exists", 409);
+    }
+    throw error;
+  }
+}
+
+/** Deleting a folder unfiles its contracts; the contracts themselves stay. */
+export async function deleteContractFolder(
+  access: UserAccessContext,
+  folderId: string,
+): Promise<void> {
+  const folder = await loadVisibleFolder(folderId, access);
+  if (!folder) {
+    throw new ContractRepositoryError("Folder not found", 404);
+  }
+  assertCanManageFolder(folder, access);
+  const { error } = await getSupabaseAdminClient()
+    .from("contract_folders")
+    .delete()
+    .eq("id", folder.id);
+  if (error) {
+    throw error;
+  }
+}
+
+/** Files a contract into a folder and/or replaces its tags. */
+export async function updateContractOrganization(
+  access: UserAccessContext,
+  contractId: string,
+  input: UpdateContractOrganizationRequest,
+): Promise<ContractRepositoryItem> {
+  const supabase = getSupabaseAdminClient();
+  const { data: contract, error } = await supabase
+    .from("contracts")
+    .select("id, user_id, organization_id")
+    .eq("id", contractId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!contract) {
+    throw new ContractRepositoryError("Contract not found", 404);
+  }
+  const isOwner = contract.user_id === access.profileId;
+  const isOrgAdmin =
+    contract.organization_id !== null &&
+    contract.organization_id === access.organizationId &&
+    access.organizationRole === "org_admin";
+  if (!isOwner && !isOrgAdmin && !access.isMaigonAdmin) {
+    throw new ContractRepositoryError("Contract not found", 404);
+  }
+
+  const changes: Record<string, unknown> = {};
+  if (input.folderId !== undefined) {
+    if (
+      input.folderId !== null &&
+      !(await loadVisibleFolder(input.folderId, access))
+    ) {
+      throw new ContractRepositoryError("Folder not found", 404);
+    }
+    changes.folder_id = input.folderId;
+  }
+  if (input.tags !== undefined) {
+    const tags = normalizeTags(input.tags);
+    if (!tags) {
+      throw new ContractRepositoryError(
+        `Tags must be up to ${MAX_TAGS} strings of at most ${MAX_TAG_LENGTH} characters`,
+        400,
+      );
+    }
+    changes.tags = tags;
+  }
+  if (!Object.keys(changes).length) {
+    throw new ContractRepositoryError("Nothing to update", 400);
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from("contracts")
+    .update(changes)
+    .eq("id", contractId)
+    .select(REPOSITORY_COLUMNS)
+    .single();
+  if (updateError) {
+    throw updateError;
+  }
+  return mapRepositoryRow(updated as unknown as ContractRepositoryRecord);
+}
@@ -10,8 +10,17 @@ import {
   removeLocalFile,
   uploadBufferToStorage,
 } from "./storageService";
-import type { StorageObjectRef, ExtractionAssets } from "../../shared/api";
+import type {
+  StorageObjectRef,
+  ExtractionAssets,
+  OcrExtractionSummary,
+} from "../../shared/api";
+import {
+  detectContractLanguage,
+  type ContractLanguageDetection,
+} from "../../shared/contractLanguage";
 import { convertDocument } from "./cloudConvertService";
+import { isOcrEnabled, runPdfOcr } from "./ocrService";
 
 // Guard for runtimes where import.meta.url is missing after bundling
 const require =
@@ -26,6 +35,7 @@ const pdfParse: typeof import("pdf-parse") =
 
 export type ExtractionStrategy =
   | "pdf-digital"
+  | "pdf-ocr"
   | "docx"
   | "plain-text"
   | "markdown"
@@ -47,8 +57,16 @@ export interface DocumentExtractionResult {
   fileSize?: number;
   metadata?: Record<string, unknown>;
   assets?: ExtractionAssets;
+  ocr?: OcrExtractionSummary;
+  language: ContractLanguageDetection;
 }
 
+// Below this many words the extraction is flagged as suspiciously short.
+const MIN_DIGITAL_PDF_WORDS = 40;
+// A text layer thinner than this per page means the pages are mostly images
+// (scans with a stamped header or page number), so the PDF is routed to OCR.
+const MIN_WORDS_PER_DIGITAL_PAGE = 10;
+
 interface ExtractOptions {
   ingestionId: string;
   bucket?: string;
@@ -91,7 +109,7 @@ export async function extractDocument(
       buffer,
     });
 
-    const extraction = await runExtractionStrategy({
+    let extraction = await runExtractionStrategy({
       ingestionId,
       fileName: file.name,
       buffer,
@@ -99,13 +117,17 @@ export async function extractDocument(
       bucket: resolvedBucket,
     });
 
+    if (extraction.needsOcr && isPdfDetection(detection) && isOcrEnabled()) {
+      extraction = await applyPdfOcr(buffer, extraction);
+    }
+
     const text = extraction.text.trim();
     const wordCount = countWords(text);
     const characterCount = text.length;
 
     const warnings = [...extraction.warnings];
 
-    if (wordCount < 40) {
+    if (wordCount < MIN_DIGITAL_PDF_WORDS) {
       warnings.push(
         "Extracted text is very short (< 40 words). Document might be scanned or contain unsupported encoding.",
       );
@@ -126,6 +148,8 @@ export async function extractDocument(
       fileSize: downloaded.size,
       metadata: extraction.metadata,
       assets: extraction.assets,
+      ocr: extraction.ocr,
+      language: detectContractLanguage(text),
     };
   } finally {
     await removeLocalFile(downloaded.localPath);
@@ -201,6 +225,62 @@ interface StrategyResult {
   pageCount?: number;
   metadata?: Record<string, unknown>;
   assets?: ExtractionAssets;
+  ocr?: OcrExtractionSummary;
+}
+
+function isPdfDetection(detection: DetectionResult): boolean {
+  return (
+    (detection.mimeType ?? "").toLowerCase().includes("pdf") ||
+    detection.extension === "pdf"
+  );
+}
+
+async function applyPdfOcr(
+  buffer: Buffer,
+  digital: StrategyResult,
+): Promise<StrategyResult> {
+  try {
+    const ocr = await runPdfOcr(buffer);
+    const ocrWords = countWords(ocr.text);
+    if (ocrWords <= countWords(digital.text)) {
+      return {
+        ...digital,
+        warnings: [
+          ...digital.warnings,
+          "OCR did not recover additional text from this PDF.",
+        ],
+      };
+    }
+
+    return {
+      strategy: "pdf-ocr",
+      text: ocr.text,
+      html: textToHtml(ocr.text),
+      warnings: [
+        ...digital.warnings.filter((warning) => !/scanned/i.test(warning)),
+        ...ocr.warnings,
+      ],
+      needsOcr: false,
+      pageCount: ocr.summary.pageCount,
+      metadata: {
+        ...(digital.metadata ?? {}),
+        digitalWordCount: countWords(digital.text),
+      },
+      // A CloudConvert DOCX of a scanned PDF only wraps page images, so it is
+      // not a usable template for redlines.
+      assets: undefined,
+      ocr: ocr.summary,
+    };
+  } catch (error) {
+    console.error("[ingestion] OCR extraction failed", error);
+    return {
+      ...digital,
+      warnings: [
+        ...digital.warnings,
+        `OCR failed: ${error instanceof Error ? error.message : String(error)}`,
+      ],
+    };
+  }
 }
 
 async function runExtractionStrategy(params: {
@@ -290,6 +370,12 @@ async function runExtractionStrategy(params: {
   }
 }
 
+function isMostlyImagePdf(text: string, pageCount: number): boolean {
+  const words = countWords(text);
+  if (words === 0) return true;
+  return words / Math.max(pageCount, 1) < MIN_WORDS_PER_DIGITAL_PAGE;
+}
+
 async function extractPdf(buffer: Buffer): Promise<StrategyResult> {
   try {
     const pdf = await pdfParse(buffer);
@@ -307,7 +393,7 @@ async function extractPdf(buffer: Buffer): Promise<StrategyResult> {
       text,
       html: textToHtml(text),
       warnings,
-      needsOcr: text.trim().length === 0,
+      needsOcr: isMostlyImagePdf(text, pdf.numpages),
       pageCount: pdf.numpages,
       metadata: {
         info: pdf.info,
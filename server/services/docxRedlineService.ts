@@ -0,0 +1,699 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import JSZip from "jszip";
+import { buildDocxTemplateFromIngestion } from "./docxTemplateService";
+import { getIngestionRecord } from "./ingestionRepository";
+
+export const REDLINE_AUTHOR = "Maigon";
+
+export interface RedlineEdit {
+  id: string;
+  anchorText: string;
+  proposedText: string;
+  intent?: string;
+  rationale?: string;
+}
+
+export interface TrackedChangesOptions {
+  author?: string;
+  date?: Date;
+  /** Attach each edit's rationale as a Word comment on the revised range. */
+  includeComments?: boolean;
+}
+
+export interface TrackedChangesResult {
+  buffer: Buffer;
+  appliedEditIds: string[];
+  unmatchedEditIds: string[];
+}
+
+const WORD_NAMESPACE =
+  "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const COMMENTS_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml";
+const COMMENTS_RELATIONSHIP_TYPE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments";
+// Above this many token pairs the word diff degrades to a single replacement.
+const MAX_DIFF_CELLS = 2_000_000;
+
+const PARAGRAPH_PATTERN = /<w:p\b[^>]*?(?:\/>|>[\s\S]*?<\/w:p>)/g;
+const RUN_PATTERN = /<w:r\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:r>)/g;
+const RUN_TEXT_PATTERN =
+  /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:t(?:\s[^>]*)?\/>|<w:tab\/>|<w:br\b[^>]*\/>|<w:cr\/>|<w:noBreakHyphen\/>|<w:softHyphen\/>|<w:lastRenderedPageBreak\/>/g;
+
+const QUOTE_MAP: Record<string, string> = {
+  "‘": "'",
+  "’": "'",
+  "‚": "'",
+  "‛": "'",
+  "“": '"',
+  "”": '"',
+  "„": '"',
+  "‟": '"',
+  "‑": "-",
+  "–": "-",
+  "—": "-",
+};
+
+type DiffOp = { type: "equal" | "delete" | "insert"; text: string };
+
+type PositionedOp =
+  | { type: "equal" | "delete"; start: number; end: number }
+  | { type: "insert"; at: number; text: string };
+
+interface ParagraphRun {
+  /** Offsets of the run element inside the paragraph XML. */
+  xmlStart: number;
+  xmlEnd: number;
+  rPr: string;
+  text: string;
+  textStart: number;
+  splittable: boolean;
+}
+
+interface ParagraphMatch {
+  edit: RedlineEdit;
+  start: number;
+  end: number;
+  ops: PositionedOp[];
+  commentId: number | null;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function formatRevisionDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+function parseRun(runXml: string, inner: string | undefined) {
+  const body = inner ?? "";
+  const rPrMatch = body.match(/^\s*(<w:rPr\b[\s\S]*?<\/w:rPr>|<w:rPr\/>)/);
+  const rPr = rPrMatch ? rPrMatch[1] : "";
+  const content = rPrMatch ? body.slice(rPrMatch[0].length) : body;
+
+  let text = "";
+  const leftover = content.replace(RUN_TEXT_PATTERN, (piece, tText) => {
+    if (piece.startsWith("<w:t")) {
+      text += tText !== undefined ? decodeXml(tText) : "";
+    } else if (piece.startsWith("<w:tab")) {
+      text += "\t";
+    } else if (piece.startsWith("<w:br") || piece.startsWith("<w:cr")) {
+      text += "\n";
+    } else if (piece.startsWith("<w:noBreakHyphen")) {
+      text += "‑";
+    }
+    return "";
+  });
+
+  // Runs holding fields, drawings or deleted text are kept verbatim.
+  const splittable = runXml.endsWith("</w:r>") && leftover.trim().length === 0;
+  return { rPr, text: splittable ? text : "", splittable };
+}
+
+function parseParagraph(xml: string): { runs: ParagraphRun[]; text: string } {
+  const runs: ParagraphRun[] = [];
+  let text = "";
+  RUN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = RUN_PATTERN.exec(xml))) {
+    const parsed = parseRun(match[0], match[1]);
+    runs.push({
+      xmlStart: match.index,
+      xmlEnd: match.index + match[0].length,
+      rPr: parsed.rPr,
+      text: parsed.text,
+      textStart: text.length,
+      splittable: parsed.splittable,
+    });
+    text += parsed.text;
+  }
+  return { runs, text };
+}
+
+/**
+ * Lower-cases, straightens quotes/dashes and collapses whitespace, keeping a
+ * map from each normalized character back to its source index.
+ */
+function normalizeWithMap(value: string): { text: string; map: number[] } {
+  let text = "";
+  const map: number[] = [];
+  let pendingSpace = false;
+  for (let index = 0; index < value.length; index += 1) {
+    const char = value[index];
+    if (/\s/.test(char)) {
+      if (text.length > 0) pendingSpace = true;
+      continue;
+    }
+    if (pendingSpace) {
+      text += " ";
+      map.push(index - 1);
+      pendingSpace = false;
+    }
+    const mapped = QUOTE_MAP[char] ?? char;
+    const lowered = mapped.toLowerCase();
+    text += lowered.length === 1 ? lowered : mapped;
+    map.push(index);
+  }
+  return { text, map };
+}
+
+function locateAnchor(
+  paragraphText: string,
+  anchorText: string,
+): { start: number; end: number } | null {
+  const anchor = normalizeWithMap(anchorText).text;
+  if (!anchor) return null;
+  const normalized = normalizeWithMap(paragraphText);
+  const index = normalized.text.indexOf(anchor);
+  if (index === -1) return null;
+  return {
+    start: normalized.map[index],
+    end: normalized.map[index + anchor.length - 1] + 1,
+  };
+}
+
+function tokenizeWords(value: string): string[] {
+  return value.split(/(\s+)/).filter((token) => token.length > 0);
+}
+
+function mergeOps(ops: DiffOp[]): DiffOp[] {
+  const merged: DiffOp[] = [];
+  ops.forEach((op) => {
+    const last = merged[merged.length - 1];
+    if (last && last.type === op.type) {
+      last.text += op.text;
+    } else if (op.text.length > 0) {
+      merged.push({ ...op });
+    }
+  });
+  return merged;
+}
+
+/**
+ * Word-level diff. Whitespace-only "equal" islands between changes are folded
+ * into the surrounding deletion/insertion so revisions read as whole phrases.
+ */
+export function diffWords(previous: string, next: string): DiffOp[] {
+  const a = tokenizeWords(previous);
+  const b = tokenizeWords(next);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+      prefix += 1;
+    }
+    let suffix = 0;
+    while (
+      suffix < a.length - prefix &&
+      suffix < b.length - prefix &&
+      a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+      suffix += 1;
+    }
+    return mergeOps([
+      { type: "equal", text: a.slice(0, prefix).join("") },
+      { type: "delete", text: a.slice(prefix, a.length - suffix).join("") },
+      { type: "insert", text: b.slice(prefix, b.length - suffix).join("") },
+      { type: "equal", text: a.slice(a.length - suffix).join("") },
+    ]);
+  }
+
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: "equal", text: a[i] });
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      ops.push({ type: "delete", text: a[i] });
+      i += 1;
+    } else {
+      ops.push({ type: "insert", text: b[j] });
+      j += 1;
+    }
+  }
+  while (i < a.length) ops.push({ type: "delete", text: a[i++] });
+  while (j < b.length) ops.push({ type: "insert", text: b[j++] });
+
+  const merged = mergeOps(ops);
+  const folded: DiffOp[] = [];
+  merged.forEach((op, index) => {
+    const before = merged[index - 1];
+    const after = merged[index + 1];
+    if (
+      op.type === "equal" &&
+      op.text.trim().length === 0 &&
+      before &&
+      after &&
+      before.type !== "equal" &&
+      after.type !== "equal"
+    ) {
+      folded.push({ type: "delete", text: op.text }, { type: "insert", text: op.text });
+      return;
+    }
+    folded.push(op);
+  });
+
+  // Regroup so each change reads as one deletion followed by one insertion.
+  const grouped: DiffOp[] = [];
+  let pendingDelete = "";
+  let pendingInsert = "";
+  const flush = () => {
+    if (pendingDelete) grouped.push({ type: "delete", text: pendingDelete });
+    if (pendingInsert) grouped.push({ type: "insert", text: pendingInsert });
+    pendingDelete = "";
+    pendingInsert = "";
+  };
+  folded.forEach((op) => {
+    if (op.type === "delete") pendingDelete += op.text;
+    else if (op.type === "insert") pendingInsert += op.text;
+    else {
+      flush();
+      grouped.push(op);
+    }
+  });
+  flush();
+  return grouped;
+}
+
+function positionOps(ops: DiffOp[], start: number): PositionedOp[] {
+  const positioned: PositionedOp[] = [];
+  let cursor = start;
+  ops.forEach((op) => {
+    if (op.type === "insert") {
+      positioned.push({ type: "insert", at: cursor, text: op.text });
+      return;
+    }
+    positioned.push({ type: op.type, start: cursor, end: cursor + op.text.length });
+    cursor += op.text.length;
+  });
+  return positioned;
+}
+
+class RevisionWriter {
+  private nextId: number;
+  private readonly author: string;
+  private readonly date: string;
+
+  constructor(startId: number, author: string, date: Date) {
+    this.nextId = startId;
+    this.author = escapeXml(author);
+    this.date = formatRevisionDate(date);
+  }
+
+  allocateId(): number {
+    const id = this.nextId;
+    this.nextId += 1;
+    return id;
+  }
+
+  private attributes(): string {
+    return `w:id="${this.allocateId()}" w:author="${this.author}" w:date="${this.date}"`;
+  }
+
+  private content(text: string, deleted: boolean): string {
+    const tag = deleted ? "w:delText" : "w:t";
+    return text
+      .split(/(\t|\n)/)
+      .filter((part) => part.length > 0)
+      .map((part) => {
+        if (part === "\t") return "<w:tab/>";
+        if (part === "\n") return "<w:br/>";
+        return `<${tag} xml:space="preserve">${escapeXml(part)}</${tag}>`;
+      })
+      .join("");
+  }
+
+  plain(rPr: string, text: string): string {
+    return text ? `<w:r>${rPr}${this.content(text, false)}</w:r>` : "";
+  }
+
+  inserted(rPr: string, text: string): string {
+    return text
+      ? `<w:ins ${this.attributes()}><w:r>${rPr}${this.content(text, false)}</w:r></w:ins>`
+      : "";
+  }
+
+  deleted(rPr: string, text: string): string {
+    return text
+      ? `<w:del ${this.attributes()}><w:r>${rPr}${this.content(text, true)}</w:r></w:del>`
+      : "";
+  }
+
+  insertedParagraphMark(): string {
+    return `<w:ins ${this.attributes()}/>`;
+  }
+
+  comment(id: number, text: string): string {
+    const paragraphs = text
+      .split(/\n+/)
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map(
+        (line) =>
+          `<w:p><w:r><w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r></w:p>`,
+      )
+      .join("");
+    return `<w:comment w:id="${id}" w:author="${this.author}" w:date="${this.date}" w:initials="${escapeXml(this.author.charAt(0))}">${paragraphs}</w:comment>`;
+  }
+}
+
+function commentStart(id: number): string {
+  return `<w:commentRangeStart w:id="${id}"/>`;
+}
+
+function commentEnd(id: number): string {
+  return `<w:commentRangeEnd w:id="${id}"/><w:r><w:commentReference w:id="${id}"/></w:r>`;
+}
+
+function rewriteRun(
+  run: ParagraphRun,
+  paragraphText: string,
+  matches: ParagraphMatch[],
+  writer: RevisionWriter,
+): string {
+  const runStart = run.textStart;
+  const runEnd = run.textStart + run.text.length;
+  const pieces: string[] = [];
+  let cursor = runStart;
+
+  matches.forEach((match) => {
+    if (match.end <= runStart || match.start >= runEnd) return;
+    if (match.start > cursor) {
+      pieces.push(writer.plain(run.rPr, paragraphText.slice(cursor, match.start)));
+    }
+    if (match.commentId !== null && match.start >= runStart) {
+      pieces.push(commentStart(match.commentId));
+    }
+    match.ops.forEach((op) => {
+      if (op.type === "insert") {
+        const owns =
+          op.at === match.end
+            ? op.at > runStart && op.at <= runEnd
+            : op.at >= runStart && op.at < runEnd;
+        if (owns) pieces.push(writer.inserted(run.rPr, op.text));
+        return;
+      }
+      const from = Math.max(op.start, runStart);
+      const to = Math.min(op.end, runEnd);
+      if (from >= to) return;
+      const text = paragraphText.slice(from, to);
+      pieces.push(
+        op.type === "equal"
+          ? writer.plain(run.rPr, text)
+          : writer.deleted(run.rPr, text),
+      );
+    });
+    cursor = Math.min(match.end, runEnd);
+    if (match.commentId !== null && match.end <= runEnd) {
+      pieces.push(commentEnd(match.commentId));
+    }
+  });
+
+  if (cursor < runEnd) {
+    pieces.push(writer.plain(run.rPr, paragraphText.slice(cursor, runEnd)));
+  }
+  return pieces.join("");
+}
+
+function maxRevisionId(...xmlParts: string[]): number {
+  let max = 0;
+  xmlParts.forEach((xml) => {
+    for (const match of xml.matchAll(/w:id="(\d+)"/g)) {
+      max = Math.max(max, Number(match[1]));
+    }
+  });
+  return max;
+}
+
+function insertBeforeBodySectPr(documentXml: string, fragment: string): string {
+  const bodyEnd = documentXml.lastIndexOf("</w:body>");
+  if (bodyEnd === -1) return documentXml;
+  const sectStart = documentXml.lastIndexOf("<w:sectPr", bodyEnd);
+  const tail = sectStart === -1 ? "" : documentXml.slice(sectStart, bodyEnd);
+  const insertAt =
+    sectStart !== -1 && !tail.includes("</w:p>") && tail.trim().endsWith("</w:sectPr>")
+      ? sectStart
+      : bodyEnd;
+  return documentXml.slice(0, insertAt) + fragment + documentXml.slice(insertAt);
+}
+
+async function registerCommentsPart(zip: JSZip): Promise<string> {
+  const relsPath = "word/_rels/document.xml.rels";
+  const relsFile = zip.file(relsPath);
+  let rels = relsFile ? await relsFile.async("string") : "";
+  const existing = rels.match(
+    new RegExp(`<Relationship\\b[^>]*Type="${COMMENTS_RELATIONSHIP_TYPE}"[^>]*>`),
+  );
+  let target = "comments.xml";
+  if (existing) {
+    target = existing[0].match(/Target="([^"]+)"/)?.[1] ?? target;
+  } else {
+    if (!rels) {
+      rels =
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>';
+    }
+    let relId = "rIdMaigonComments";
+    while (rels.includes(`Id="${relId}"`)) relId += "1";
+    rels = rels.replace(
+      "</Relationships>",
+      `<Relationship Id="${relId}" Type="${COMMENTS_RELATIONSHIP_TYPE}" Target="${target}"/></Relationships>`,
+    );
+    zip.file(relsPath, rels);
+  }
+
+  const partName = `/${path.posix.join("word", target.replace(/^\/?word\//, ""))}`;
+  const typesFile = zip.file("[Content_Types].xml");
+  if (typesFile) {
+    const types = await typesFile.async("string");
+    if (!types.includes(`PartName="${partName}"`)) {
+      zip.file(
+        "[Content_Types].xml",
+        types.replace(
+          "</Types>",
+          `<Override PartName="${partName}" ContentType="${COMMENTS_CONTENT_TYPE}"/></Types>`,
+        ),
+      );
+    }
+  }
+  return partName.slice(1);
+}
+
+/**
+ * Patches a DOCX in place so each proposed edit appears as a genuine Word
+ * revision (w:del/w:ins) rather than formatted text. Anchors are matched per
+ * paragraph, ignoring case, quote style and whitespace; insert-intent edits
+ * whose anchor is absent are appended as inserted paragraphs.
+ */
+export async function buildTrackedChangesDocx(
+  source: Buffer,
+  edits: RedlineEdit[],
+  options: TrackedChangesOptions = {},
+): Promise<TrackedChangesResult> {
+  const zip = await JSZip.loadAsync(source);
+  const documentFile = zip.file("word/document.xml");
+  if (!documentFile) {
+    throw new Error("DOCX package has no word/document.xml");
+  }
+  let documentXml = await documentFile.async("string");
+
+  const commentsPathGuess = "word/comments.xml";
+  const existingCommentsXml = zip.file(commentsPathGuess)
+    ? await zip.file(commentsPathGuess)!.async("string")
+    : "";
+  const writer = new RevisionWriter(
+    maxRevisionId(documentXml, existingCommentsXml) + 1,
+    options.author ?? REDLINE_AUTHOR,
+    options.date ?? new Date(),
+  );
+  const includeComments = options.includeComments !== false;
+  const comments: string[] = [];
+  const allocateComment = (edit: RedlineEdit): number | null => {
+    if (!includeComments || !edit.rationale) return null;
+    const id = writer.allocateId();
+    comments.push(writer.comment(id, edit.rationale));
+    return id;
+  };
+
+  const pending = new Set(edits.map((edit) => edit.id));
+  const applied: string[] = [];
+  const paragraphs: Array<{ start: number; end: number; xml: string }> = [];
+  PARAGRAPH_PATTERN.lastIndex = 0;
+  let paragraphMatch: RegExpExecArray | null;
+  while ((paragraphMatch = PARAGRAPH_PATTERN.exec(documentXml))) {
+    if (paragraphMatch[0].includes("<w:txbxContent")) continue;
+    paragraphs.push({
+      start: paragraphMatch.index,
+      end: paragraphMatch.index + paragraphMatch[0].length,
+      xml: paragraphMatch[0],
+    });
+  }
+
+  const replacements: Array<{ start: number; end: number; xml: string }> = [];
+  paragraphs.forEach((paragraph) => {
+    if (pending.size === 0) return;
+    const { runs, text } = parseParagraph(paragraph.xml);
+    if (!text.trim()) return;
+
+    const matches: ParagraphMatch[] = [];
+    edits.forEach((edit) => {
+      if (!pending.has(edit.id)) return;
+      const located = locateAnchor(text, edit.anchorText);
+      if (!located) return;
+      if (matches.some((m) => located.start < m.end && m.start < located.end)) return;
+      const ops = positionOps(
+        diffWords(text.slice(located.start, located.end), edit.proposedText),
+        located.start,
+      );
+      if (!ops.some((op) => op.type !== "equal")) {
+        pending.delete(edit.id);
+        return;
+      }
+      matches.push({ edit, ...located, ops, commentId: allocateComment(edit) });
+      pending.delete(edit.id);
+      applied.push(edit.id);
+    });
+    if (!matches.length) return;
+    matches.sort((a, b) => a.start - b.start);
+
+    let rebuilt = "";
+    let xmlCursor = 0;
+    runs.forEach((run) => {
+      const runEnd = run.textStart + run.text.length;
+      const touched =
+        run.splittable &&
+        matches.some((m) => m.start < runEnd && run.textStart < m.end);
+      if (!touched) return;
+      rebuilt += paragraph.xml.slice(xmlCursor, run.xmlStart);
+      rebuilt += rewriteRun(run, text, matches, writer);
+      xmlCursor = run.xmlEnd;
+    });
+    rebuilt += paragraph.xml.slice(xmlCursor);
+    replacements.push({ start: paragraph.start, end: paragraph.end, xml: rebuilt });
+  });
+
+  for (let index = replacements.length - 1; index >= 0; index -= 1) {
+    const replacement = replacements[index];
+    documentXml =
+      documentXml.slice(0, replacement.start) +
+      replacement.xml +
+      documentXml.slice(replacement.end);
+  }
+
+  const appendedParagraphs: string[] = [];
+  edits.forEach((edit) => {
+    if (!pending.has(edit.id)) return;
+    if (!(edit.intent ?? "").toLowerCase().includes("insert")) return;
+    const blocks = edit.proposedText
+      .split(/\n\s*\n/)
+      .map((block) => block.trim())
+      .filter(Boolean);
+    if (!blocks.length) return;
+    const commentId = allocateComment(edit);
+    blocks.forEach((block, index) => {
+      const start = index === 0 && commentId !== null ? commentStart(commentId) : "";
+      const end =
+        index === blocks.length - 1 && commentId !== null ? commentEnd(commentId) : "";
+      appendedParagraphs.push(
+        `<w:p><w:pPr><w:rPr>${writer.insertedParagraphMark()}</w:rPr></w:pPr>${start}${writer.inserted("", block)}${end}</w:p>`,
+      );
+    });
+    pending.delete(edit.id);
+    applied.push(edit.id);
+  });
+  if (appendedParagraphs.length) {
+    documentXml = insertBeforeBodySectPr(documentXml, appendedParagraphs.join(""));
+  }
+
+  zip.file("word/document.xml", documentXml);
+
+  if (comments.length) {
+    const commentsPath = await registerCommentsPart(zip);
+    const commentsFile = zip.file(commentsPath);
+    const commentsXml = commentsFile ? await commentsFile.async("string") : "";
+    zip.file(
+      commentsPath,
+      commentsXml.includes("</w:comments>")
+        ? commentsXml.replace("</w:comments>", `${comments.join("")}</w:comments>`)
+        : `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<w:comments xmlns:w="${WORD_NAMESPACE}">${comments.join("")}</w:comments>`,
+    );
+  }
+
+  const buffer = await zip.generateAsync({
+    type: "nodebuffer",
+    compression: "DEFLATE",
+  });
+
+  return {
+    buffer,
+    appliedEditIds: applied,
+    unmatchedEditIds: edits.map((edit) => edit.id).filter((id) => pending.has(id)),
+  };
+}
+
+/**
+ * Loads the original upload for an ingestion (converted to DOCX when needed)
+ * and applies the edits as tracked changes. Returns null when no DOCX source
+ * is available.
+ */
+export async function buildTrackedChangesRedlineFromIngestion(options: {
+  ingestionId: string;
+  edits: RedlineEdit[];
+  includeComments?: boolean;
+}): Promise<TrackedChangesResult | null> {
+  const record = (await getIngestionRecord(options.ingestionId)) as {
+    storage_bucket?: string | null;
+    storage_path?: string | null;
+  } | null;
+  if (!record?.storage_path) {
+    return null;
+  }
+
+  const template = await buildDocxTemplateFromIngestion({
+    ingestionId: options.ingestionId,
+    fileName: path.posix.basename(record.storage_path),
+    bucket: record.storage_bucket ?? undefined,
+  });
+  if (!template) {
+    return null;
+  }
+
+  try {
+    const source = await fs.readFile(template.localPath);
+    return await buildTrackedChangesDocx(source, options.edits, {
+      includeComments: options.includeComments,
+    });
+  } finally {
+    await template.cleanup();
+  }
+}
@@ -1,4 +1,5 @@
 import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import { LostJobLeaseError } from "./jobQueue";
 import type { AgentDraftRequest, AgentDraftResponse } from "../../shared/api";
 
 export type DraftJobStatus = "pending" | "running" | "succeeded" | "failed";
@@ -13,6 +14,9 @@ interface DraftJobRecord {
   result: unknown;
   payload: unknown;
   metadata: Record<string, unknown> | null;
+  attempts: number | null;
+  max_attempts: number | null;
+  last_error: string | null;
   created_at: string | null;
   updated_at: string | null;
   started_at: string | null;
@@ -29,6 +33,9 @@ export interface DraftJob {
   result: AgentDraftResponse | null;
   payload: AgentDraftRequest | null;
   metadata: Record<string, unknown>;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
   createdAt: string | null;
   updatedAt: string | null;
   startedAt: string | null;
@@ -58,6 +65,9 @@ function mapJob(row: DraftJobRecord | null): DraftJob | null {
         ? (row.payload as AgentDraftRequest)
         : null,
     metadata,
+    attempts: row.attempts ?? 0,
+    maxAttempts: row.max_attempts ?? 1,
+    lastError: row.last_error ?? null,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
     startedAt: row.started_at,
@@ -70,6 +80,7 @@ export async function createDraftJob(input: {
   draftKey?: string | null;
   payload: AgentDraftRequest;
   metadata?: Record<string, unknown>;
+  maxAttempts?: number;
 }): Promise<DraftJob> {
   const supabase = getSupabaseAdminClient();
   const { data, error } = await supabase
@@ -77,9 +88,11 @@ export async function createDraftJob(input: {
     .insert({
       contract_id: input.contractId,
       draft_key: input.draftKey ?? null,
+      job_type: "compose",
       status: "pending",
       payload: input.payload,
       metadata: input.metadata ?? {},
+      ...(input.maxAttempts ? { max_attempts: input.maxAttempts } : {}),
     })
     .select("*")
     .maybeSingle<DraftJobRecord>();
@@ -110,35 +123,14 @@ export async function getDraftJobById(id: string): Promise<DraftJob | null> {
   return mapJob(data);
 }
 
-export async function markDraftJobRunning(
-  id: string,
-): Promise<DraftJob | null> {
-  const supabase = getSupabaseAdminClient();
-  const { data, error } = await supabase
-    .from("contract_draft_jobs")
-    .update({
-      status: "running",
-      started_at: new Date().toISOString(),
-      error: null,
-    })
-    .eq("id", id)
-    .select("*")
-    .maybeSingle<DraftJobRecord>();
-
-  if (error) {
-    throw error;
-  }
-
-  return mapJob(data);
-}
-
 export async function markDraftJobSucceeded(input: {
   id: string;
+  workerId: string;
   draftKey?: string | null;
   resultSnapshotId?: string | null;
   result?: AgentDraftResponse | null;
   metadata?: Record<string, unknown>;
-}): Promise<DraftJob | null> {
+}): Promise<DraftJob> {
   const supabase = getSupabaseAdminClient();
   const { data, error } = await supabase
     .from("contract_draft_jobs")
@@ -150,8 +142,12 @@ export async function markDraftJobSucceeded(input: {
       metadata: input.metadata ?? {},
       finished_at: new Date().toISOString(),
       error: null,
+      locked_by: null,
+      lease_expires_at: null,
     })
     .eq("id", input.id)
+    .eq("status", "running")
+    .eq("locked_by", input.workerId)
     .select("*")
     .maybeSingle<DraftJobRecord>();
 
@@ -159,22 +155,32 @@ export async function markDraftJobSucceeded(input: {
     throw error;
   }
 
-  return mapJob(data);
+  const job = mapJob(data);
+  if (!job) {
+    throw new LostJobLeaseError(input.id);
+  }
+  return job;
 }
 
 export async function markDraftJobFailed(
   id: string,
+  workerId: string,
   errorMessage: string,
-): Promise<DraftJob | null> {
+): Promise<DraftJob> {
   const supabase = getSupabaseAdminClient();
   const { data, error } = await supabase
     .from("contract_draft_jobs")
     .update({
       status: "failed",
       error: errorMessage,
+      last_error: errorMessage,
       finished_at: new Date().toISOString(),
+      locked_by: null,
+      lease_expires_at: null,
     })
     .eq("id", id)
+    .eq("status", "running")
+    .eq("locked_by", workerId)
     .select("*")
     .maybeSingle<DraftJobRecord>();
 
@@ -182,5 +188,9 @@ export async function markDraftJobFailed(
     throw error;
   }
 
-  return mapJob(data);
+  const job = mapJob(data);
+  if (!job) {
+    throw new LostJobLeaseError(id);
+  }
+  return job;
 }
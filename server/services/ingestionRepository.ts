@@ -96,7 +96,19 @@ export async function saveExtractionResult(options: SaveExtractionOptions) {
       metadata: {
         ...(extraction.metadata ?? {}),
         assets: extraction.assets ?? (extraction.metadata as any)?.assets,
+        language: extraction.language,
+        ...(extraction.ocr
+          ? {
+              ocr: {
+                engine: extraction.ocr.engine,
+                languages: extraction.ocr.languages,
+                averageConfidence: extraction.ocr.averageConfidence,
+              },
+            }
+          : {}),
       },
+      ocr_pages: extraction.ocr?.pages ?? null,
+      ocr_confidence: extraction.ocr?.averageConfidence ?? null,
       mime_type: extraction.mimeType ?? null,
       extracted_at: new Date().toISOString(),
     })
@@ -0,0 +1,355 @@
+import os from "node:os";
+import crypto from "node:crypto";
+import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+
+export type QueueJobType = "compose" | "clause_edit";
+
+export type QueueJobStatus = "pending" | "running" | "succeeded" | "failed";
+
+interface QueueJobRecord {
+  id: string;
+  contract_id: string;
+  job_type: string | null;
+  status: QueueJobStatus;
+  attempts: number | null;
+  max_attempts: number | null;
+  available_at: string | null;
+  locked_by: string | null;
+  lease_expires_at: string | null;
+}
+
+export interface QueueJob {
+  id: string;
+  contractId: string;
+  jobType: QueueJobType;
+  status: QueueJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  availableAt: string | null;
+  lockedBy: string | null;
+  leaseExpiresAt: string | null;
+}
+
+export interface RetryPolicy {
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Handlers receive the id of the worker holding the lease so their final
+ * write can be conditioned on still holding it.
+ */
+export type QueueJobHandler = (
+  jobId: string,
+  workerId: string,
+) => Promise<void>;
+
+export type QueueJobOutcome =
+  | { status: "succeeded" }
+  | { status: "retrying"; delayMs: number; error: string }
+  | { status: "failed"; error: string }
+  | { status: "lost" };
+
+export const DEFAULT_LEASE_MS = 120_000;
+export const DEFAULT_HEARTBEAT_MS = 30_000;
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  baseDelayMs: 5_000,
+  maxDelayMs: 5 * 60_000,
+};
+
+/**
+ * Thrown by job handlers for failures that will not improve on retry
+ * (missing payload, contract deleted, validation errors). The job is
+ * dead-lettered immediately instead of consuming further attempts.
+ */
+export class NonRetryableJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NonRetryableJobError";
+  }
+}
+
+/**
+ * Thrown when a handler settles a job whose lease has expired and been
+ * reclaimed by another worker. The stale attempt writes nothing further; the
+ * current holder owns the job's outcome.
+ */
+export class LostJobLeaseError extends Error {
+  constructor(jobId: string) {
+    super(`Lease on job ${jobId} was lost before it settled`);
+    this.name = "LostJobLeaseError";
+  }
+}
+
+function mapQueueJob(row: QueueJobRecord | null | undefined): QueueJob | null {
+  if (!row) return null;
+  return {
+    id: row.id,
+    contractId: row.contract_id,
+    jobType: row.job_type === "clause_edit" ? "clause_edit" : "compose",
+    status: row.status,
+    attempts: row.attempts ?? 0,
+    maxAttempts: row.max_attempts ?? 1,
+    availableAt: row.available_at,
+    lockedBy: row.locked_by,
+    leaseExpiresAt: row.lease_expires_at,
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error ?? "Unknown error");
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function createWorkerId(prefix = "worker"): string {
+  return `${prefix}:${os.hostname()}:${process.pid}:${crypto
+    .randomUUID()
+    .slice(0, 8)}`;
+}
+
+/**
+ * True when a standalone worker (`server/worker.ts`) drains the queue, in which
+ * case API routes only enqueue and never process jobs in-process.
+ */
+export function isExternalJobWorkerEnabled(): boolean {
+  return process.env.JOB_QUEUE_EXTERNAL_WORKER === "true";
+}
+
+export function computeRetryDelayMs(
+  attempt: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  random: () => number = Math.random,
+): number {
+  const exponent = Math.max(0, Math.floor(attempt) - 1);
+  const base = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** exponent);
+  // Up to 20% jitter so retries from a burst of failures do not align.
+  const jitter = base * 0.2 * Math.min(1, Math.max(0, random()));
+  return Math.round(Math.min(policy.maxDelayMs, base + jitter));
+}
+
+export async function claimNextJob(options: {
+  workerId: string;
+  leaseMs?: number;
+  jobTypes?: QueueJobType[];
+  jobId?: string | null;
+}): Promise<QueueJob | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase.rpc("claim_contract_draft_job", {
+    p_worker_id: options.workerId,
+    p_lease_seconds: Math.ceil((options.leaseMs ?? DEFAULT_LEASE_MS) / 1000),
+    p_job_types: options.jobTypes?.length ? options.jobTypes : null,
+    p_job_id: options.jobId ?? null,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = (Array.isArray(data) ? data : data ? [data] : []) as QueueJobRecord[];
+  return mapQueueJob(rows[0]);
+}
+
+export async function extendJobLease(
+  jobId: string,
+  workerId: string,
+  leaseMs = DEFAULT_LEASE_MS,
+): Promise<boolean> {
+  const supabase = getSupabaseAdminClient();
+  const now = Date.now();
+  const { data, error } = await supabase
+    .from("contract_draft_jobs")
+    .update({
+      heartbeat_at: new Date(now).toISOString(),
+      lease_expires_at: new Date(now + leaseMs).toISOString(),
+    })
+    .eq("id", jobId)
+    .eq("status", "running")
+    .eq("locked_by", workerId)
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return Boolean(data);
+}
+
+export async function failJob(
+  job: QueueJob,
+  workerId: string,
+  cause: unknown,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): Promise<Extract<QueueJobOutcome, { status: "retrying" | "failed" }>> {
+  const supabase = getSupabaseAdminClient();
+  const message = errorMessage(cause);
+  const exhausted = job.attempts >= job.maxAttempts;
+  const retryable = !(cause instanceof NonRetryableJobError);
+
+  if (!retryable || exhausted) {
+    const { error } = await supabase
+      .from("contract_draft_jobs")
+      .update({
+        status: "failed",
+        error: message,
+        last_error: message,
+        finished_at: new Date().toISOString(),
+        locked_by: null,
+        lease_expires_at: null,
+      })
+      .eq("id", job.id)
+      .eq("locked_by", workerId);
+
+    if (error) {
+      throw error;
+    }
+    return { status: "failed", error: message };
+  }
+
+  const delayMs = computeRetryDelayMs(job.attempts, policy);
+  const { error } = await supabase
+    .from("contract_draft_jobs")
+    .update({
+      status: "pending",
+      error: null,
+      last_error: message,
+      available_at: new Date(Date.now() + delayMs).toISOString(),
+      locked_by: null,
+      lease_expires_at: null,
+    })
+    .eq("id", job.id)
+    .eq("locked_by", workerId);
+
+  if (error) {
+    throw error;
+  }
+  return { status: "retrying", delayMs, error: message };
+}
+
+export async function requeueExpiredJobs(): Promise<number> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase.rpc(
+    "requeue_expired_contract_draft_jobs",
+  );
+
+  if (error) {
+    throw error;
+  }
+
+  return typeof data === "number" ? data : 0;
+}
+
+/**
+ * Runs a claimed job while keeping its lease alive. Handlers mark success
+ * themselves (they own the result columns); failures are retried with backoff
+ * or dead-lettered here.
+ */
+export async function runClaimedJob(
+  job: QueueJob,
+  workerId: string,
+  handler: QueueJobHandler,
+  options: {
+    leaseMs?: number;
+    heartbeatMs?: number;
+    retryPolicy?: RetryPolicy;
+  } = {},
+): Promise<QueueJobOutcome> {
+  const leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+  const heartbeat = setInterval(() => {
+    extendJobLease(job.id, workerId, leaseMs)
+      .then((held) => {
+        if (!held) {
+          console.warn("[jobQueue] Lease lost during heartbeat", {
+            jobId: job.id,
+            workerId,
+          });
+        }
+      })
+      .catch((error) => {
+        console.warn("[jobQueue] Heartbeat failed", {
+          jobId: job.id,
+          message: errorMessage(error),
+        });
+      });
+  }, options.heartbeatMs ?? DEFAULT_HEARTBEAT_MS);
+  heartbeat.unref?.();
+
+  try {
+    await handler(job.id, workerId);
+    return { status: "succeeded" };
+  } catch (error) {
+    if (error instanceof LostJobLeaseError) {
+      console.warn("[jobQueue] Lease lost before the job settled", {
+        jobId: job.id,
+        workerId,
+      });
+      return { status: "lost" };
+    }
+    const outcome = await failJob(job, workerId, error, options.retryPolicy);
+    console.warn("[jobQueue] Job attempt failed", {
+      jobId: job.id,
+      jobType: job.jobType,
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+      outcome: outcome.status,
+      message: outcome.error,
+    });
+    return outcome;
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Processes a single job to completion inside the current process, honouring
+ * the same lease/retry semantics as the standalone worker. Used by the inline
+ * and Netlify background paths. Returns without doing anything when the job is
+ * not claimable (already running elsewhere, finished, or waiting on backoff).
+ */
+export async function processQueuedJob(
+  jobId: string,
+  jobType: QueueJobType,
+  handler: QueueJobHandler,
+  options: {
+    workerId?: string;
+    leaseMs?: number;
+    retryPolicy?: RetryPolicy;
+  } = {},
+): Promise<void> {
+  const workerId = options.workerId ?? createWorkerId("inline");
+
+  for (;;) {
+    // Without a standalone worker nothing else returns abandoned jobs to the
+    // queue, so expired leases are reaped before each claim.
+    try {
+      await requeueExpiredJobs();
+    } catch (error) {
+      console.warn("[jobQueue] Failed to requeue expired jobs", {
+        workerId,
+        message: errorMessage(error),
+      });
+    }
+
+    const job = await claimNextJob({
+      workerId,
+      leaseMs: options.leaseMs,
+      jobTypes: [jobType],
+      jobId,
+    });
+    if (!job) {
+      return;
+    }
+
+    const outcome = await runClaimedJob(job, workerId, handler, options);
+    if (outcome.status === "succeeded" || outcome.status === "lost") {
+      return;
+    }
+    if (outcome.status === "failed") {
+      throw new Error(outcome.error);
+    }
+    await sleep(outcome.delayMs);
+  }
+}
@@ -0,0 +1,149 @@
+import {
+  DEFAULT_LEASE_MS,
+  claimNextJob,
+  createWorkerId,
+  requeueExpiredJobs,
+  runClaimedJob,
+  type QueueJobHandler,
+  type QueueJobType,
+  type RetryPolicy,
+} from "./jobQueue";
+
+export interface JobWorkerOptions {
+  handlers: Partial<Record<QueueJobType, QueueJobHandler>>;
+  workerId?: string;
+  concurrency?: number;
+  pollIntervalMs?: number;
+  leaseMs?: number;
+  heartbeatMs?: number;
+  reaperIntervalMs?: number;
+  retryPolicy?: RetryPolicy;
+}
+
+export interface JobWorkerHandle {
+  workerId: string;
+  /** Stops claiming new jobs and waits for in-flight jobs to settle. */
+  stop(): Promise<void>;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+const DEFAULT_REAPER_INTERVAL_MS = 30_000;
+
+export function startJobWorker(options: JobWorkerOptions): JobWorkerHandle {
+  const workerId = options.workerId ?? createWorkerId();
+  const concurrency = Math.max(1, Math.floor(options.concurrency ?? 1));
+  const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+  const jobTypes = (Object.keys(options.handlers) as QueueJobType[]).filter(
+    (type) => typeof options.handlers[type] === "function",
+  );
+
+  let stopping = false;
+  const idleWakers = new Set<() => void>();
+
+  const idle = () =>
+    new Promise<void>((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        idleWakers.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, pollIntervalMs);
+      idleWakers.add(wake);
+    });
+
+  const reap = async () => {
+    try {
+      const requeued = await requeueExpiredJobs();
+      if (requeued > 0) {
+        console.info("[worker] Requeued jobs with expired leases", {
+          workerId,
+          requeued,
+        });
+      }
+    } catch (error) {
+      console.warn("[worker] Failed to requeue expired jobs", {
+        workerId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const runSlot = async (slot: number) => {
+    while (!stopping) {
+      let job = null;
+      try {
+        job = await claimNextJob({ workerId, leaseMs, jobTypes });
+      } catch (error) {
+        console.warn("[worker] Failed to claim job", {
+          workerId,
+          slot,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      if (!job) {
+        await idle();
+        continue;
+      }
+
+      const handler = options.handlers[job.jobType];
+      console.info("[worker] Job claimed", {
+        workerId,
+        slot,
+        jobId: job.id,
+        jobType: job.jobType,
+        attempt: job.attempts,
+      });
+      const start = Date.now();
+      try {
+        const outcome = await runClaimedJob(job, workerId, handler!, {
+          leaseMs,
+          heartbeatMs: options.heartbeatMs,
+          retryPolicy: options.retryPolicy,
+        });
+        console.info("[worker] Job settled", {
+          workerId,
+          jobId: job.id,
+          status: outcome.status,
+          durationMs: Date.now() - start,
+        });
+      } catch (error) {
+        // Recording the failure itself failed; the lease will expire and the
+        // reaper returns the job to the queue.
+        console.error("[worker] Failed to record job outcome", {
+          workerId,
+          jobId: job.id,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  };
+
+  void reap();
+  const reaper = setInterval(
+    () => void reap(),
+    options.reaperIntervalMs ?? DEFAULT_REAPER_INTERVAL_MS,
+  );
+
+  console.info("[worker] Job worker started", {
+    workerId,
+    concurrency,
+    jobTypes,
+  });
+
+  const slots = Array.from({ length: concurrency }, (_, index) =>
+    runSlot(index),
+  );
+
+  return {
+    workerId,
+    async stop() {
+      stopping = true;
+      clearInterval(reaper);
+      idleWakers.forEach((wake) => wake());
+      await Promise.all(slots);
+      console.info("[worker] Job worker stopped", { workerId });
+    },
+  };
+}
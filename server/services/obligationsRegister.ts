@@ -0,0 +1,478 @@
+import crypto from "crypto";
+import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import {
+  extractObligations,
+  type ObligationKind,
+  type ObligationReportLike,
+} from "../../shared/ai/obligations";
+import type {
+  ContractObligation,
+  ContractObligationFilters,
+  ContractObligationStatus,
+  ObligationCalendarScope,
+} from "../../shared/api";
+
+interface ContractObligationRecord {
+  id: string;
+  organization_id: string | null;
+  user_id: string;
+  contract_id: string;
+  review_id: string;
+  kind: string;
+  title: string;
+  description: string;
+  due_date: string | null;
+  period: string | null;
+  owner: string | null;
+  department: string | null;
+  clause_id: string | null;
+  source_text: string | null;
+  contract_type: string | null;
+  status: string;
+  created_at: string;
+  contracts?: { title?: string | null } | null;
+}
+
+export interface ObligationCalendarFeedRecord {
+  id: string;
+  token: string;
+  scope: ObligationCalendarScope;
+  organization_id: string | null;
+  user_id: string | null;
+  created_at: string;
+}
+
+export type ObligationOwnerScope =
+  | { organizationId: string }
+  | { userId: string };
+
+export const OBLIGATION_STATUSES: ContractObligationStatus[] = [
+  "open",
+  "done",
+  "dismissed",
+];
+
+const BACKFILL_BATCH_SIZE = 25;
+const CALENDAR_FEED_LIMIT = 500;
+
+function mapObligationRow(row: ContractObligationRecord): ContractObligation {
+  return {
+    id: row.id,
+    organizationId: row.organization_id ?? null,
+    userId: row.user_id,
+    contractId: row.contract_id,
+    contractTitle: row.contracts?.title ?? null,
+    contractType: row.contract_type ?? null,
+    reviewId: row.review_id,
+    kind: row.kind as ObligationKind,
+    title: row.title,
+    description: row.description,
+    dueDate: row.due_date ?? null,
+    period: row.period ?? null,
+    owner: row.owner ?? null,
+    department: row.department ?? null,
+    clauseId: row.clause_id ?? null,
+    sourceText: row.source_text ?? null,
+    status: row.status as ContractObligationStatus,
+    createdAt: row.created_at,
+  };
+}
+
+function scopeFilter(scope: ObligationOwnerScope): [string, string] {
+  return "organizationId" in scope
+    ? ["organization_id", scope.organizationId]
+    : ["user_id", scope.userId];
+}
+
+/**
+ * Extracts the register rows for one stored review. Re-running it refreshes
+ * the extracted fields but keeps any status an owner has already set.
+ */
+export async function syncReviewObligations(reviewId: string): Promise<number> {
+  const supabase = getSupabaseAdminClient();
+  const { data: review, error } = await supabase
+    .from("contract_reviews")
+    .select(
+      "id, user_id, organization_id, contract_id, results, contracts (contract_type)",
+    )
+    .eq("id", reviewId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!review) {
+    return 0;
+  }
+
+  const results = (review.results ?? {}) as Record<string, unknown>;
+  const obligations = extractObligations(
+    (results.structured_report ?? null) as ObligationReportLike | null,
+  );
+  const contractType =
+    (review.contracts as { contract_type?: string | null } | null)
+      ?.contract_type ?? null;
+
+  if (obligations.length) {
+    const { error: upsertError } = await supabase
+      .from("contract_obligations")
+      .upsert(
+        obligations.map((obligation) => ({
+          organization_id: review.organization_id ?? null,
+          user_id: review.user_id,
+          contract_id: review.contract_id,
+          review_id: review.id,
+          obligation_key: obligation.key,
+          kind: obligation.kind,
+          title: obligation.title.slice(0, 300),
+          description: obligation.description,
+          due_date: obligation.dueDate,
+          period: obligation.period,
+          owner: obligation.owner,
+          department: obligation.department,
+          clause_id: obligation.clauseId,
+          source_text: obligation.sourceText,
+          contract_type: contractType,
+        })),
+        { onConflict: "review_id,obligation_key" },
+      );
+
+    if (upsertError) {
+      throw upsertError;
+    }
+  }
+
+  const { error: markerError } = await supabase
+    .from("contract_obligation_extractions")
+    .upsert(
+      {
+        review_id: review.id,
+        organization_id: review.organization_id ?? null,
+        obligation_count: obligations.length,
+        extracted_at: new Date().toISOString(),
+      },
+      { onConflict: "review_id" },
+    );
+
+  if (markerError) {
+    throw markerError;
+  }
+
+  return obligations.length;
+}
+
+/**
+ * Extracts obligations for reviews saved before the register existed (or
+ * whose post-save sync failed). Bounded per call so a list request never
+ * stalls on a large backlog; later calls pick up where this one stopped.
+ */
+export async function backfillObligations(
+  scope: ObligationOwnerScope,
+  limit = BACKFILL_BATCH_SIZE,
+): Promise<number> {
+  const supabase = getSupabaseAdminClient();
+  const { data: reviews, error } = await supabase
+    .from("contract_reviews")
+    .select("id")
+    .eq(...scopeFilter(scope))
+    .order("created_at", { ascending: false })
+    .limit(500);
+
+  if (error) {
+    throw error;
+  }
+
+  const reviewIds = (reviews ?? []).map((review) => review.id as string);
+  if (!reviewIds.length) {
+    return 0;
+  }
+
+  const { data: extracted, error: extractedError } = await supabase
+    .from("contract_obligation_extractions")
+    .select("review_id")
+    .in("review_id", reviewIds);
+
+  if (extractedError) {
+    throw extractedError;
+  }
+
+  const done = new Set((extracted ?? []).map((row) => row.review_id));
+  const pending = reviewIds.filter((id) => !done.has(id)).slice(0, limit);
+
+  let synced = 0;
+  for (const reviewId of pending) {
+    try {
+      await syncReviewObligations(reviewId);
+      synced += 1;
+    } catch (syncError) {
+      console.warn("[obligations] Backfill failed for review", {
+        reviewId,
+        message:
+          syncError instanceof Error ? syncError.message : String(syncError),
+      });
+    }
+  }
+  return synced;
+}
+
+function addDays(date: Date, days: number): string {
+  const shifted = new Date(date.getTime());
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+export async function listObligations(
+  scope: ObligationOwnerScope,
+  filters: ContractObligationFilters = {},
+  now: Date = new Date(),
+  limit = 200,
+): Promise<ContractObligation[]> {
+  const supabase = getSupabaseAdminClient();
+  let query = supabase
+    .from("contract_obligations")
+    .select("*, contracts (title)")
+    .eq(...scopeFilter(scope))
+    .eq("status", filters.status ?? "open");
+
+  if (typeof filters.dueWithinDays === "number") {
+    // Overdue items stay in the window until someone closes them.
+    const horizon = addDays(now, filters.dueWithinDays);
+    query = filters.includeUndated
+      ? query.or(`due_date.lte.${horizon},due_date.is.null`)
+      : query.lte("due_date", horizon);
+  } else if (filters.includeUndated === false) {
+    query = query.not("due_date", "is", null);
+  }
+  if (filters.contractType) {
+    query = query.eq("contract_type", filters.contractType);
+  }
+  if (filters.owner) {
+    const owner = filters.owner.replace(/[%_,()]/g, " ").trim();
+    if (owner) {
+      query = query.or(`owner.ilike.%${owner}%,department.ilike.%${owner}%`);
+    }
+  }
+
+  const { data, error } = await query
+    .order("due_date", { ascending: true, nullsFirst: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as ContractObligationRecord[]).map(mapObligationRow);
+}
+
+export async function updateObligationStatus(
+  scope: ObligationOwnerScope,
+  obligationId: string,
+  status: ContractObligationStatus,
+): Promise<ContractObligation | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("contract_obligations")
+    .update({ status })
+    .eq(...scopeFilter(scope))
+    .eq("id", obligationId)
+    .select("*, contracts (title)")
+    .maybeSingle<ContractObligationRecord>();
+
+  if (error) {
+    throw error;
+  }
+  return data ? mapObligationRow(data) : null;
+}
+
+/**
+ * Returns the active feed for the scope, creating one on first use. Rotating
+ * revokes the previous token so a leaked URL stops working.
+ */
+export async function getOrCreateCalendarFeed(options: {
+  scope: ObligationCalendarScope;
+  organizationId: string | null;
+  userId: string | null;
+  createdBy: string | null;
+  rotate?: boolean;
+}): Promise<ObligationCalendarFeedRecord> {
+  const supabase = getSupabaseAdminClient();
+  const ownerColumn =
+    options.scope === "organization" ? "organization_id" : "user_id";
+  const ownerId =
+    options.scope === "organization" ? options.organizationId : options.userId;
+
+  if (!ownerId) {
+    throw new Error(`Missing ${ownerColumn} for ${options.scope} calendar feed`);
+  }
+
+  if (options.rotate) {
+    const { error: revokeError } = await supabase
+      .from("obligation_calendar_feeds")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("scope", options.scope)
+      .eq(ownerColumn, ownerId)
+      .is("revoked_at", null);
+
+    if (revokeError) {
+      throw revokeError;
+    }
+  } else {
+    const { data: existing, error } = await supabase
+      .from("obligation_calendar_feeds")
+      .select("id, token, scope, organization_id, user_id, created_at")
+      .eq("scope", options.scope)
+      .eq(ownerColumn, ownerId)
+      .is("revoked_at", null)
+      .maybeSingle<ObligationCalendarFeedRecord>();
+
+    if (error) {
+      throw error;
+    }
+    if (existing) {
+      return existing;
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("obligation_calendar_feeds")
+    .insert({
+      token: crypto.randomBytes(24).toString("base64url"),
+      scope: options.scope,
+      organization_id: options.organizationId,
+      user_id: options.scope === "user" ? options.userId : null,
+      created_by: options.createdBy,
+    })
+    .select("id, token, scope, organization_id, user_id, created_at")
+    .single<ObligationCalendarFeedRecord>();
+
+  if (error) {
+    throw error;
+  }
+  return data;
+}
+
+export async function resolveCalendarFeed(
+  token: string,
+): Promise<ObligationCalendarFeedRecord | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("obligation_calendar_feeds")
+    .select("id, token, scope, organization_id, user_id, created_at")
+    .eq("token", token)
+    .is("revoked_at", null)
+    .maybeSingle<ObligationCalendarFeedRecord>();
+
+  if (error) {
+    throw error;
+  }
+  return data ?? null;
+}
+
+export async function loadCalendarFeedObligations(
+  feed: ObligationCalendarFeedRecord,
+): Promise<ContractObligation[]> {
+  const scope: ObligationOwnerScope =
+    feed.scope === "organization"
+      ? { organizationId: feed.organization_id! }
+      : { userId: feed.user_id! };
+  return listObligations(
+    scope,
+    { includeUndated: false },
+    new Date(),
+    CALENDAR_FEED_LIMIT,
+  );
+}
+
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\r?\n/g, "\\n")
+    .replace(/([;,])/g, "\\$1");
+}
+
+// RFC 5545 limits content lines to 75 octets; continuation lines start with a space.
+function foldIcsLine(line: string): string {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, "utf8");
+    const limit = parts.length ? 74 : 75;
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatIcsDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+function formatIcsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Renders dated obligations as all-day events with a one-week reminder. */
+export function buildObligationsCalendar(
+  obligations: ContractObligation[],
+  options: { calendarName: string; appBaseUrl: string; now?: Date },
+): string {
+  const stamp = formatIcsTimestamp(options.now ?? new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Maigon//Obligations Register//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(options.calendarName)}`,
+  ];
+
+  obligations
+    .filter((obligation) => obligation.dueDate)
+    .forEach((obligation) => {
+      const start = obligation.dueDate!;
+      const endDate = new Date(`${start}T00:00:00Z`);
+      endDate.setUTCDate(endDate.getUTCDate() + 1);
+      const summary = obligation.contractTitle
+        ? `${obligation.title} – ${obligation.contractTitle}`
+        : obligation.title;
+      const description = [
+        obligation.description,
+        obligation.owner ? `Owner: ${obligation.owner}` : null,
+        obligation.sourceText ? `Clause: ${obligation.sourceText}` : null,
+      ]
+        .filter(Boolean)
+        .join("\n");
+
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${obligation.id}@obligations.maigon`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${formatIcsDate(start)}`,
+        `DTEND;VALUE=DATE:${formatIcsDate(endDate.toISOString().slice(0, 10))}`,
+        `SUMMARY:${escapeIcsText(summary)}`,
+        `DESCRIPTION:${escapeIcsText(description)}`,
+        `CATEGORIES:${obligation.kind.toUpperCase()}`,
+        `URL:${options.appBaseUrl}/dashboard`,
+        "TRANSP:TRANSPARENT",
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        "TRIGGER:-P7D",
+        `DESCRIPTION:${escapeIcsText(summary)}`,
+        "END:VALARM",
+        "END:VEVENT",
+      );
+    });
+
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldIcsLine).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,173 @@
+import type { OcrExtractionSummary, OcrPageResult } from "../../shared/api";
+
+const OCR_LANGUAGES = (process.env.OCR_LANGUAGES || "eng")
+  .split(/[+,\s]+/)
+  .map((lang) => lang.trim())
+  .filter(Boolean);
+const OCR_MAX_PAGES = (() => {
+  const value = Number(process.env.OCR_MAX_PAGES ?? 40);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : 40;
+})();
+const OCR_RENDER_SCALE = (() => {
+  const value = Number(process.env.OCR_RENDER_SCALE ?? 2);
+  return Number.isFinite(value) && value > 0 ? value : 2;
+})();
+
+export const OCR_ENGINE = "tesseract.js";
+
+// Local directory with *.traineddata files. Without it tesseract.js fetches
+// language data from its CDN, so OCR stays off until one is configured.
+function getOcrLangPath(): string | undefined {
+  return process.env.OCR_LANG_PATH || undefined;
+}
+
+let warnedMissingLangPath = false;
+
+/** OCR is opt-in: it needs OCR_ENABLED=true and a local OCR_LANG_PATH. */
+export function isOcrEnabled(): boolean {
+  if (process.env.OCR_ENABLED !== "true") {
+    return false;
+  }
+  if (!getOcrLangPath()) {
+    if (!warnedMissingLangPath) {
+      warnedMissingLangPath = true;
+      console.warn(
+        "[ocr] OCR_ENABLED is set but OCR_LANG_PATH is missing; OCR stays disabled.",
+      );
+    }
+    return false;
+  }
+  return true;
+}
+
+function countWords(text: string): number {
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter((token) => token.length > 0).length;
+}
+
+async function rasterizePdfPages(
+  buffer: Buffer,
+  maxPages: number,
+): Promise<{ pageCount: number; images: Buffer[] }> {
+  const [{ getDocument }, { createCanvas }] = await Promise.all([
+    import("pdfjs-dist/legacy/build/pdf.mjs"),
+    import("@napi-rs/canvas"),
+  ]);
+
+  const document = await getDocument({
+    data: new Uint8Array(buffer),
+    disableFontFace: true,
+    isEvalSupported: false,
+    useSystemFonts: false,
+  }).promise;
+
+  try {
+    const pageCount = document.numPages;
+    const images: Buffer[] = [];
+    for (let pageNumber = 1; pageNumber <= Math.min(pageCount, maxPages); pageNumber += 1) {
+      const page = await document.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+      const canvas = createCanvas(
+        Math.ceil(viewport.width),
+        Math.ceil(viewport.height),
+      );
+      const context = canvas.getContext("2d");
+      // Scanned pages are often transparent images; tesseract expects a white page.
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({
+        canvas: canvas as unknown as HTMLCanvasElement,
+        canvasContext: context as unknown as CanvasRenderingContext2D,
+        viewport,
+      }).promise;
+      images.push(canvas.toBuffer("image/png"));
+      page.cleanup();
+    }
+    return { pageCount, images };
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * Rasterizes each PDF page and runs local OCR over it. Returns per-page text
+ * and confidence (0-100, as reported by tesseract) alongside the joined text.
+ */
+export async function runPdfOcr(
+  buffer: Buffer,
+  options: { languages?: string[]; maxPages?: number } = {},
+): Promise<{ text: string; summary: OcrExtractionSummary; warnings: string[] }> {
+  const languages = options.languages?.length ? options.languages : OCR_LANGUAGES;
+  const maxPages = options.maxPages ?? OCR_MAX_PAGES;
+  const warnings: string[] = [];
+
+  const startedAt = Date.now();
+  const { pageCount, images } = await rasterizePdfPages(buffer, maxPages);
+  if (pageCount > images.length) {
+    warnings.push(
+      `OCR processed the first ${images.length} of ${pageCount} pages (limit ${maxPages}).`,
+    );
+  }
+
+  const { createWorker } = await import("tesseract.js");
+  const langPath = getOcrLangPath();
+  const worker = await createWorker(languages, undefined, {
+    ...(langPath ? { langPath } : {}),
+  });
+
+  const pages: OcrPageResult[] = [];
+  try {
+    for (let index = 0; index < images.length; index += 1) {
+      const { data } = await worker.recognize(images[index]);
+      const text = (data.text ?? "").trim();
+      pages.push({
+        pageNumber: index + 1,
+        text,
+        confidence: Number((data.confidence ?? 0).toFixed(1)),
+        wordCount: countWords(text),
+      });
+    }
+  } finally {
+    await worker.terminate();
+  }
+
+  const scoredPages = pages.filter((page) => page.wordCount > 0);
+  const averageConfidence = scoredPages.length
+    ? Number(
+        (
+          scoredPages.reduce((sum, page) => sum + page.confidence, 0) /
+          scoredPages.length
+        ).toFixed(1),
+      )
+    : 0;
+
+  const lowConfidencePages = pages
+    .filter((page) => page.wordCount > 0 && page.confidence < 60)
+    .map((page) => page.pageNumber);
+  if (lowConfidencePages.length) {
+    warnings.push(
+      `OCR confidence is low on page(s) ${lowConfidencePages.join(", ")}. Verify quoted text against the original scan.`,
+    );
+  }
+
+  console.info("[ocr] PDF OCR completed", {
+    pageCount,
+    processedPages: pages.length,
+    averageConfidence,
+    durationMs: Date.now() - startedAt,
+  });
+
+  return {
+    text: pages.map((page) => page.text).filter(Boolean).join("\n\n"),
+    summary: {
+      engine: OCR_ENGINE,
+      languages,
+      pageCount,
+      averageConfidence,
+      pages,
+    },
+    warnings,
+  };
+}
@@ -0,0 +1,233 @@
+import crypto from "node:crypto";
+import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import {
+  ORG_API_KEY_SCOPES,
+  type OrgApiKey,
+  type OrgApiKeyScope,
+} from "../../shared/api";
+
+interface OrgApiKeyRecord {
+  id: string;
+  organization_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: string[] | null;
+  rate_limit_per_minute: number;
+  created_by: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface AuthenticatedApiKey {
+  id: string;
+  organizationId: string;
+  scopes: OrgApiKeyScope[];
+  rateLimitPerMinute: number;
+  createdBy: string;
+}
+
+const KEY_SELECT =
+  "id, organization_id, name, key_prefix, scopes, rate_limit_per_minute, created_by, last_used_at, revoked_at, created_at";
+const KEY_PATTERN = /^mgn_([a-f0-9]{8})_[A-Za-z0-9_-]{32,}$/;
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+const LAST_USED_WRITE_INTERVAL_MS = 60_000;
+
+function normalizeScopes(scopes: unknown): OrgApiKeyScope[] {
+  if (!Array.isArray(scopes)) return [];
+  return ORG_API_KEY_SCOPES.filter((scope) => scopes.includes(scope));
+}
+
+function mapKeyRow(row: OrgApiKeyRecord): OrgApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    keyPrefix: row.key_prefix,
+    scopes: normalizeScopes(row.scopes),
+    rateLimitPerMinute: row.rate_limit_per_minute,
+    createdBy: row.created_by,
+    lastUsedAt: row.last_used_at ?? null,
+    revokedAt: row.revoked_at ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+export function hashApiKey(secret: string): string {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+/**
+ * Keys look like `mgn_<8 hex>_<43 base64url>`. The leading part is stored in
+ * clear so admins can tell keys apart; only the SHA-256 of the whole key is
+ * kept, so a lost key has to be replaced rather than recovered.
+ */
+export function generateApiKey(): { secret: string; prefix: string } {
+  const prefix = `mgn_${crypto.randomBytes(4).toString("hex")}`;
+  const secret = `${prefix}_${crypto.randomBytes(32).toString("base64url")}`;
+  return { secret, prefix };
+}
+
+export function isWellFormedApiKey(value: string): boolean {
+  return KEY_PATTERN.test(value);
+}
+
+export async function listOrgApiKeys(
+  organizationId: string,
+): Promise<OrgApiKey[]> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("organization_api_keys")
+    .select(KEY_SELECT)
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as OrgApiKeyRecord[]).map(mapKeyRow);
+}
+
+export async function createOrgApiKey(input: {
+  organizationId: string;
+  createdBy: string;
+  name: string;
+  scopes?: OrgApiKeyScope[];
+  rateLimitPerMinute?: number;
+}): Promise<{ key: OrgApiKey; secret: string }> {
+  const supabase = getSupabaseAdminClient();
+  const { secret, prefix } = generateApiKey();
+  const scopes = normalizeScopes(input.scopes ?? ORG_API_KEY_SCOPES);
+
+  const { data, error } = await supabase
+    .from("organization_api_keys")
+    .insert({
+      organization_id: input.organizationId,
+      name: input.name,
+      key_prefix: prefix,
+      key_hash: hashApiKey(secret),
+      scopes: scopes.length > 0 ? scopes : [...ORG_API_KEY_SCOPES],
+      rate_limit_per_minute:
+        input.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE,
+      created_by: input.createdBy,
+    })
+    .select(KEY_SELECT)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return { key: mapKeyRow(data as OrgApiKeyRecord), secret };
+}
+
+export async function revokeOrgApiKey(
+  organizationId: string,
+  keyId: string,
+): Promise<OrgApiKey | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("organization_api_keys")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", keyId)
+    .eq("organization_id", organizationId)
+    .is("revoked_at", null)
+    .select(KEY_SELECT)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? mapKeyRow(data as OrgApiKeyRecord) : null;
+}
+
+export async function authenticateApiKey(
+  secret: string,
+): Promise<AuthenticatedApiKey | null> {
+  if (!isWellFormedApiKey(secret)) {
+    return null;
+  }
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("organization_api_keys")
+    .select(KEY_SELECT)
+    .eq("key_hash", hashApiKey(secret))
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  const row = data as OrgApiKeyRecord | null;
+  if (!row || row.revoked_at) {
+    return null;
+  }
+
+  const now = Date.now();
+  const lastUsed = row.last_used_at ? Date.parse(row.last_used_at) : 0;
+  if (now - lastUsed >= LAST_USED_WRITE_INTERVAL_MS) {
+    const { error: touchError } = await supabase
+      .from("organization_api_keys")
+      .update({ last_used_at: new Date(now).toISOString() })
+      .eq("id", row.id);
+    if (touchError) {
+      console.warn("[api] Failed to record API key usage", {
+        keyId: row.id,
+        touchError,
+      });
+    }
+  }
+
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    scopes: normalizeScopes(row.scopes),
+    rateLimitPerMinute: row.rate_limit_per_minute,
+    createdBy: row.created_by,
+  };
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+}
+
+/**
+ * Fixed one-minute windows per key. State lives in process memory, so the
+ * effective limit is per server instance; that is enough to stop a runaway
+ * integration without adding a shared store.
+ */
+export function createApiKeyRateLimiter(windowMs = 60_000) {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  return {
+    consume(keyId: string, limit: number, now = Date.now()): RateLimitDecision {
+      let window = windows.get(keyId);
+      if (!window || now - window.startedAt >= windowMs) {
+        if (windows.size >= 10_000) {
+          windows.forEach((entry, id) => {
+            if (now - entry.startedAt >= windowMs) windows.delete(id);
+          });
+        }
+        window = { startedAt: now, count: 0 };
+        windows.set(keyId, window);
+      }
+
+      const allowed = window.count < limit;
+      if (allowed) {
+        window.count += 1;
+      }
+
+      return {
+        allowed,
+        limit,
+        remaining: Math.max(0, limit - window.count),
+        resetAt: window.startedAt + windowMs,
+      };
+    },
+  };
+}
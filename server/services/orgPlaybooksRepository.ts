@@ -0,0 +1,418 @@
+import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import { CONTRACT_PLAYBOOKS } from "../../shared/ai/playbooks";
+import type {
+  OrgPlaybook,
+  OrgPlaybookClause,
+  OrgPlaybookDefinition,
+  OrgPlaybookVersion,
+} from "../../shared/api";
+
+const MAX_CLAUSES = 60;
+const MAX_LIST_ITEMS = 40;
+const MAX_TEXT_LENGTH = 500;
+
+interface OrgPlaybookRecord {
+  id: string;
+  organization_id: string;
+  playbook_key: string;
+  name: string;
+  description: string | null;
+  mode: string;
+  critical_clauses: unknown;
+  clause_anchors: unknown;
+  negotiation_guidance: unknown;
+  is_active: boolean;
+  version: number;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface OrgPlaybookVersionRecord {
+  id: string;
+  playbook_id: string;
+  version: number;
+  definition: unknown;
+  change_note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export class OrgPlaybookConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrgPlaybookConflictError";
+  }
+}
+
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const result: string[] = [];
+  value.forEach((item) => {
+    if (typeof item !== "string") return;
+    const trimmed = item.trim().slice(0, MAX_TEXT_LENGTH);
+    const key = trimmed.toLowerCase();
+    if (!trimmed || seen.has(key)) return;
+    seen.add(key);
+    result.push(trimmed);
+  });
+  return result.slice(0, MAX_LIST_ITEMS);
+}
+
+function toClauses(value: unknown): OrgPlaybookClause[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(
+      (item): item is Record<string, unknown> =>
+        Boolean(item) && typeof item === "object",
+    )
+    .map((item) => ({
+      title:
+        typeof item.title === "string"
+          ? item.title.trim().slice(0, MAX_TEXT_LENGTH)
+          : "",
+      mustInclude: toStringList(item.mustInclude),
+      redFlags: toStringList(item.redFlags),
+      fallbackPositions: toStringList(item.fallbackPositions),
+    }))
+    .filter((clause) => clause.title.length > 0)
+    .slice(0, MAX_CLAUSES);
+}
+
+function mapDefinition(
+  row: Pick<
+    OrgPlaybookRecord,
+    | "playbook_key"
+    | "name"
+    | "description"
+    | "mode"
+    | "critical_clauses"
+    | "clause_anchors"
+    | "negotiation_guidance"
+    | "is_active"
+  >,
+): OrgPlaybookDefinition {
+  return {
+    playbookKey: row.playbook_key,
+    name: row.name,
+    description: row.description ?? null,
+    mode: row.mode === "replace" ? "replace" : "extend",
+    criticalClauses: toClauses(row.critical_clauses),
+    clauseAnchors: toStringList(row.clause_anchors),
+    negotiationGuidance: toStringList(row.negotiation_guidance),
+    isActive: row.is_active !== false,
+  };
+}
+
+function mapRowToPlaybook(row: OrgPlaybookRecord): OrgPlaybook {
+  return {
+    id: row.id,
+    organizationId: row.organization_id,
+    ...mapDefinition(row),
+    version: row.version,
+    updatedBy: row.updated_by ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapVersionRow(row: OrgPlaybookVersionRecord): OrgPlaybookVersion {
+  const definition =
+    row.definition && typeof row.definition === "object"
+      ? (row.definition as Record<string, unknown>)
+      : {};
+  return {
+    id: row.id,
+    playbookId: row.playbook_id,
+    version: row.version,
+    definition: mapDefinition({
+      playbook_key: String(definition.playbookKey ?? ""),
+      name: String(definition.name ?? ""),
+      description:
+        typeof definition.description === "string"
+          ? definition.description
+          : null,
+      mode: String(definition.mode ?? "extend"),
+      critical_clauses: definition.criticalClauses,
+      clause_anchors: definition.clauseAnchors,
+      negotiation_guidance: definition.negotiationGuidance,
+      is_active: definition.isActive !== false,
+    }),
+    changeNote: row.change_note ?? null,
+    createdBy: row.created_by ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+function definitionToColumns(definition: OrgPlaybookDefinition) {
+  return {
+    playbook_key: definition.playbookKey,
+    name: definition.name,
+    description: definition.description,
+    mode: definition.mode,
+    critical_clauses: definition.criticalClauses,
+    clause_anchors: definition.clauseAnchors,
+    negotiation_guidance: definition.negotiationGuidance,
+    is_active: definition.isActive,
+  };
+}
+
+/**
+ * Validates an admin-submitted playbook. Partial payloads are merged onto
+ * `base` so PATCH requests only need to send the fields that changed.
+ */
+export function parseOrgPlaybookPayload(
+  raw: unknown,
+  base?: OrgPlaybookDefinition,
+): { definition: OrgPlaybookDefinition } | { error: string } {
+  const body =
+    raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+
+  const playbookKey =
+    typeof body.playbookKey === "string"
+      ? body.playbookKey.trim()
+      : (base?.playbookKey ?? "");
+  if (!Object.prototype.hasOwnProperty.call(CONTRACT_PLAYBOOKS, playbookKey)) {
+    return { error: "playbookKey must reference a built-in playbook" };
+  }
+
+  const mode =
+    body.mode === undefined ? (base?.mode ?? "extend") : body.mode;
+  if (mode !== "extend" && mode !== "replace") {
+    return { error: "mode must be either 'extend' or 'replace'" };
+  }
+
+  const criticalClauses =
+    body.criticalClauses === undefined
+      ? (base?.criticalClauses ?? [])
+      : toClauses(body.criticalClauses);
+  if (mode === "replace" && criticalClauses.length === 0) {
+    return {
+      error: "A replacing playbook needs at least one critical clause",
+    };
+  }
+
+  const name =
+    typeof body.name === "string" && body.name.trim()
+      ? body.name.trim().slice(0, 120)
+      : (base?.name ??
+        CONTRACT_PLAYBOOKS[playbookKey as keyof typeof CONTRACT_PLAYBOOKS]
+          .displayName);
+
+  return {
+    definition: {
+      playbookKey,
+      name,
+      description:
+        body.description === undefined
+          ? (base?.description ?? null)
+          : typeof body.description === "string" && body.description.trim()
+            ? body.description.trim().slice(0, 2000)
+            : null,
+      mode,
+      criticalClauses,
+      clauseAnchors:
+        body.clauseAnchors === undefined
+          ? (base?.clauseAnchors ?? [])
+          : toStringList(body.clauseAnchors),
+      negotiationGuidance:
+        body.negotiationGuidance === undefined
+          ? (base?.negotiationGuidance ?? [])
+          : toStringList(body.negotiationGuidance),
+      isActive:
+        typeof body.isActive === "boolean"
+          ? body.isActive
+          : (base?.isActive ?? true),
+    },
+  };
+}
+
+async function insertVersion(
+  playbookId: string,
+  version: number,
+  definition: OrgPlaybookDefinition,
+  createdBy: string | null,
+  changeNote: string | null,
+) {
+  const supabase = getSupabaseAdminClient();
+  const { error } = await supabase.from("org_playbook_versions").insert({
+    playbook_id: playbookId,
+    version,
+    definition,
+    change_note: changeNote,
+    created_by: createdBy,
+  });
+  if (error) {
+    throw error;
+  }
+}
+
+export async function listOrgPlaybooks(
+  organizationId: string,
+): Promise<OrgPlaybook[]> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("org_playbooks")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .order("playbook_key", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as OrgPlaybookRecord[]).map(mapRowToPlaybook);
+}
+
+export async function getOrgPlaybook(
+  organizationId: string,
+  playbookId: string,
+): Promise<OrgPlaybook | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("org_playbooks")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .eq("id", playbookId)
+    .maybeSingle<OrgPlaybookRecord>();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? mapRowToPlaybook(data) : null;
+}
+
+export async function createOrgPlaybook(
+  organizationId: string,
+  definition: OrgPlaybookDefinition,
+  options: { profileId: string | null; changeNote?: string | null },
+): Promise<OrgPlaybook> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("org_playbooks")
+    .insert({
+      organization_id: organizationId,
+      ...definitionToColumns(definition),
+      version: 1,
+      created_by: options.profileId,
+      updated_by: options.profileId,
+    })
+    .select("*")
+    .single<OrgPlaybookRecord>();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new OrgPlaybookConflictError(
+        "This organization already has a playbook for that contract type",
+      );
+    }
+    throw error;
+  }
+
+  await insertVersion(
+    data.id,
+    1,
+    definition,
+    options.profileId,
+    options.changeNote ?? null,
+  );
+  return mapRowToPlaybook(data);
+}
+
+/**
+ * Saves a new version of the playbook. `expectedVersion` guards against two
+ * admins overwriting each other's edits.
+ */
+export async function updateOrgPlaybook(
+  organizationId: string,
+  playbookId: string,
+  definition: OrgPlaybookDefinition,
+  options: {
+    profileId: string | null;
+    expectedVersion: number;
+    changeNote?: string | null;
+  },
+): Promise<OrgPlaybook | null> {
+  const supabase = getSupabaseAdminClient();
+  const nextVersion = options.expectedVersion + 1;
+  const { data, error } = await supabase
+    .from("org_playbooks")
+    .update({
+      ...definitionToColumns(definition),
+      version: nextVersion,
+      updated_by: options.profileId,
+    })
+    .eq("organization_id", organizationId)
+    .eq("id", playbookId)
+    .eq("version", options.expectedVersion)
+    .select("*")
+    .maybeSingle<OrgPlaybookRecord>();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new OrgPlaybookConflictError(
+        "This organization already has a playbook for that contract type",
+      );
+    }
+    throw error;
+  }
+
+  if (!data) {
+    const current = await getOrgPlaybook(organizationId, playbookId);
+    if (!current) return null;
+    throw new OrgPlaybookConflictError(
+      `Playbook was updated to version ${current.version}; reload before saving`,
+    );
+  }
+
+  await insertVersion(
+    data.id,
+    nextVersion,
+    definition,
+    options.profileId,
+    options.changeNote ?? null,
+  );
+  return mapRowToPlaybook(data);
+}
+
+export async function deleteOrgPlaybook(
+  organizationId: string,
+  playbookId: string,
+): Promise<boolean> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("org_playbooks")
+    .delete()
+    .eq("organization_id", organizationId)
+    .eq("id", playbookId)
+    .select("id");
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).length > 0;
+}
+
+export async function listOrgPlaybookVersions(
+  organizationId: string,
+  playbookId: string,
+): Promise<OrgPlaybookVersion[] | null> {
+  const playbook = await getOrgPlaybook(organizationId, playbookId);
+  if (!playbook) return null;
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("org_playbook_versions")
+    .select("*")
+    .eq("playbook_id", playbookId)
+    .order("version", { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as OrgPlaybookVersionRecord[]).map(mapVersionRow);
+}
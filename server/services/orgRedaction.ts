@@ -0,0 +1,184 @@
+import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import {
+  createRedactionMap,
+  type RedactionMap,
+} from "../../shared/ai/redaction";
+import type { OrgPrivacySettings } from "../../shared/api";
+
+function mapPrivacySettings(
+  row: {
+    redact_before_analysis?: boolean | null;
+    review_cache_enabled?: boolean | null;
+  } | null,
+): OrgPrivacySettings {
+  return {
+    redactBeforeAnalysis: row?.redact_before_analysis === true,
+    reviewCacheEnabled: row?.review_cache_enabled !== false,
+  };
+}
+
+export async function getOrgPrivacySettings(
+  organizationId: string,
+): Promise<OrgPrivacySettings> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("organizations")
+    .select("redact_before_analysis, review_cache_enabled")
+    .eq("id", organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return mapPrivacySettings(data);
+}
+
+export async function updateOrgPrivacySettings(
+  organizationId: string,
+  input: Partial<OrgPrivacySettings>,
+): Promise<OrgPrivacySettings> {
+  const updates: Record<string, boolean> = {};
+  if (typeof input.redactBeforeAnalysis === "boolean") {
+    updates.redact_before_analysis = input.redactBeforeAnalysis;
+  }
+  if (typeof input.reviewCacheEnabled === "boolean") {
+    updates.review_cache_enabled = input.reviewCacheEnabled;
+  }
+  if (Object.keys(updates).length === 0) {
+    return getOrgPrivacySettings(organizationId);
+  }
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("organizations")
+    .update(updates)
+    .eq("id", organizationId)
+    .select("redact_before_analysis, review_cache_enabled")
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return mapPrivacySettings(data);
+}
+
+async function isRedactionEnabled(
+  organizationId: string | null,
+): Promise<boolean> {
+  if (!organizationId) return false;
+  return (await getOrgPrivacySettings(organizationId)).redactBeforeAnalysis;
+}
+
+async function loadReviewedParties(contractId: string): Promise<string[]> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("contract_reviews")
+    .select("results")
+    .eq("contract_id", contractId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  const results = (data?.results ?? {}) as {
+    structured_report?: { contractSummary?: { parties?: unknown } };
+    contract_summary?: { parties?: unknown };
+  };
+  const parties =
+    results.structured_report?.contractSummary?.parties ??
+    results.contract_summary?.parties;
+  return Array.isArray(parties)
+    ? parties.filter((party): party is string => typeof party === "string")
+    : [];
+}
+
+/**
+ * Redaction map for LLM calls about a contract, or null when the owning
+ * organization has not enabled redaction. Seeded with the parties from the
+ * contract's latest review. A failed lookup redacts rather than risk sending
+ * text the organization asked to keep back.
+ */
+export async function resolveContractRedaction(
+  contractId: string | null | undefined,
+): Promise<RedactionMap | null> {
+  if (!contractId) return null;
+
+  try {
+    const supabase = getSupabaseAdminClient();
+    const { data: contract, error } = await supabase
+      .from("contracts")
+      .select("organization_id, user_profiles (organization_id)")
+      .eq("id", contractId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    const owner = contract?.user_profiles as
+      | { organization_id?: string | null }
+      | null
+      | undefined;
+    const organizationId =
+      contract?.organization_id ?? owner?.organization_id ?? null;
+    if (!(await isRedactionEnabled(organizationId))) {
+      return null;
+    }
+    return createRedactionMap({
+      parties: await loadReviewedParties(contractId),
+    });
+  } catch (error) {
+    console.warn("[redaction] Contract redaction lookup failed", {
+      contractId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return createRedactionMap();
+  }
+}
+
+/** Redaction map for an organization's LLM calls, or null when disabled. */
+export async function resolveOrganizationRedaction(
+  organizationId: string | null | undefined,
+): Promise<RedactionMap | null> {
+  if (!organizationId) return null;
+
+  try {
+    return (await isRedactionEnabled(organizationId))
+      ? createRedactionMap()
+      : null;
+  } catch (error) {
+    console.warn("[redaction] Organization redaction lookup failed", {
+      organizationId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return createRedactionMap();
+  }
+}
+
+/** Redaction map for a signed-in user's organization, or null when disabled. */
+export async function resolveUserRedaction(
+  authUserId: string | null | undefined,
+): Promise<RedactionMap | null> {
+  if (!authUserId) return null;
+
+  try {
+    const supabase = getSupabaseAdminClient();
+    const { data: profile, error } = await supabase
+      .from("user_profiles")
+      .select("organization_id")
+      .eq("auth_user_id", authUserId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return resolveOrganizationRedaction(profile?.organization_id);
+  } catch (error) {
+    console.warn("[redaction] User redaction lookup failed", {
+      authUserId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return createRedactionMap();
+  }
+}
@@ -0,0 +1,52 @@
+import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import {
+  normalizeScoringProfile,
+  type ScoringProfile,
+} from "../../shared/ai/scoringProfile";
+import type { OrgScoringSettings } from "../../shared/api";
+
+function mapScoringSettings(
+  row: { scoring_profile?: unknown } | null,
+): OrgScoringSettings {
+  const stored = row?.scoring_profile ?? null;
+  return {
+    profile: stored ? normalizeScoringProfile(stored) : null,
+  };
+}
+
+export async function getOrgScoringSettings(
+  organizationId: string,
+): Promise<OrgScoringSettings> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("organizations")
+    .select("scoring_profile")
+    .eq("id", organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return mapScoringSettings(data);
+}
+
+/** Stores the full normalized profile; null restores the default. */
+export async function updateOrgScoringProfile(
+  organizationId: string,
+  profile: Partial<ScoringProfile> | null,
+): Promise<OrgScoringSettings> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("organizations")
+    .update({
+      scoring_profile: profile ? normalizeScoringProfile(profile) : null,
+    })
+    .eq("id", organizationId)
+    .select("scoring_profile")
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return mapScoringSettings(data);
+}
@@ -0,0 +1,954 @@
+import crypto from "crypto";
+import { lookup } from "dns/promises";
+import net from "net";
+import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import { computeRetryDelayMs, type RetryPolicy } from "./jobQueue";
+import {
+  ALERT_SIGNATURE_HEADER,
+  AlertChannelError,
+  postJson,
+  signWebhookPayload,
+} from "./alertDispatcher";
+import type { DocumentExtractionResult } from "./documentExtractionService";
+import {
+  ORG_WEBHOOK_EVENT_TYPES,
+  type OrgWebhookDelivery,
+  type OrgWebhookDeliveryStatus,
+  type OrgWebhookEndpoint,
+  type OrgWebhookEndpointInput,
+  type OrgWebhookEvent,
+  type OrgWebhookEventPayloads,
+  type OrgWebhookEventType,
+} from "../../shared/api";
+
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+export const WEBHOOK_RETRY_POLICY: RetryPolicy = {
+  baseDelayMs: 30_000,
+  maxDelayMs: 6 * 60 * 60 * 1000,
+};
+export const WEBHOOK_EVENT_HEADER = "x-maigon-event";
+export const WEBHOOK_DELIVERY_HEADER = "x-maigon-delivery";
+
+// Deliveries stuck in "sending" longer than this were cut short by a crash.
+const STALE_SENDING_MS = 10 * 60 * 1000;
+// Scans re-read a little before the cursor so rows committed late are not
+// skipped; the dedupe key makes the overlap harmless.
+const SCAN_OVERLAP_MS = 2 * 60 * 1000;
+const SCANNED_EVENT_TYPES: OrgWebhookEventType[] = [
+  "draft.succeeded",
+  "draft.failed",
+  "agent_edit.approved",
+];
+
+interface WebhookEndpointRecord {
+  id: string;
+  organization_id: string;
+  url: string;
+  description: string | null;
+  event_types: string[] | null;
+  secret: string;
+  enabled: boolean;
+  scan_cursor: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface WebhookDeliveryRecord {
+  id: string;
+  organization_id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: string;
+  dedupe_key: string;
+  payload: unknown;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  response_status: number | null;
+  delivered_at: string | null;
+  replay_of: string | null;
+  created_at: string;
+}
+
+const ENDPOINT_COLUMNS =
+  "id, organization_id, url, description, event_types, secret, enabled, scan_cursor, created_at, updated_at";
+
+// Receivers must live on the public internet. Loopback, link-local (cloud
+// metadata), private, shared and unique-local ranges are never valid targets.
+const BLOCKED_WEBHOOK_ADDRESSES = (() => {
+  const list = new net.BlockList();
+  list.addSubnet("0.0.0.0", 8, "ipv4");
+  list.addSubnet("10.0.0.0", 8, "ipv4");
+  list.addSubnet("100.64.0.0", 10, "ipv4");
+  list.addSubnet("127.0.0.0", 8, "ipv4");
+  list.addSubnet("169.254.0.0", 16, "ipv4");
+  list.addSubnet("172.16.0.0", 12, "ipv4");
+  list.addSubnet("192.168.0.0", 16, "ipv4");
+  list.addSubnet("224.0.0.0", 3, "ipv4");
+  list.addAddress("::", "ipv6");
+  list.addAddress("::1", "ipv6");
+  list.addSubnet("fc00::", 7, "ipv6");
+  list.addSubnet("fe80::", 10, "ipv6");
+  list.addSubnet("ff00::", 8, "ipv6");
+  return list;
+})();
+
+export function isBlockedWebhookAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (!family) return false;
+  return BLOCKED_WEBHOOK_ADDRESSES.check(
+    address,
+    family === 6 ? "ipv6" : "ipv4",
+  );
+}
+
+function normalizeWebhookHost(hostname: string): string {
+  return hostname.replace(/^\[|\]$/g, "").toLowerCase();
+}
+
+function isBlockedWebhookHost(hostname: string): boolean {
+  const host = normalizeWebhookHost(hostname);
+  return (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    isBlockedWebhookAddress(host)
+  );
+}
+
+/**
+ * Resolves the receiver right before sending, so a hostname accepted at
+ * registration cannot later be pointed at an internal address.
+ */
+export async function assertPublicWebhookTarget(url: string): Promise<void> {
+  const { hostname } = new URL(url);
+  if (isBlockedWebhookHost(hostname)) {
+    throw new AlertChannelError("Webhook URL points to a private address");
+  }
+  const host = normalizeWebhookHost(hostname);
+  if (net.isIP(host)) return;
+  const addresses = await lookup(host, { all: true });
+  if (addresses.some(({ address }) => isBlockedWebhookAddress(address))) {
+    throw new AlertChannelError("Webhook URL resolves to a private address");
+  }
+}
+
+function normalizeEventTypes(value: unknown): OrgWebhookEventType[] {
+  if (!Array.isArray(value)) return [];
+  return ORG_WEBHOOK_EVENT_TYPES.filter((type) => value.includes(type));
+}
+
+function mapEndpointRow(row: WebhookEndpointRecord): OrgWebhookEndpoint {
+  return {
+    id: row.id,
+    url: row.url,
+    description: row.description ?? null,
+    eventTypes: normalizeEventTypes(row.event_types),
+    enabled: row.enabled,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapDeliveryRow(row: WebhookDeliveryRecord): OrgWebhookDelivery {
+  return {
+    id: row.id,
+    endpointId: row.endpoint_id,
+    eventId: row.event_id,
+    eventType: row.event_type as OrgWebhookEventType,
+    status: row.status as OrgWebhookDeliveryStatus,
+    payload: row.payload as OrgWebhookEvent,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    nextAttemptAt: row.next_attempt_at ?? null,
+    lastError: row.last_error ?? null,
+    responseStatus: row.response_status ?? null,
+    deliveredAt: row.delivered_at ?? null,
+    replayOf: row.replay_of ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * Event ids are derived from the event type and its source row so that the
+ * same occurrence always carries the same id, including on replay; receivers
+ * can use it to drop duplicates.
+ */
+export function buildWebhookEvent<T extends OrgWebhookEventType>(
+  type: T,
+  organizationId: string,
+  sourceId: string,
+  data: OrgWebhookEventPayloads[T],
+  now: Date = new Date(),
+): OrgWebhookEvent<T> {
+  const digest = crypto
+    .createHash("sha256")
+    .update(`${type}:${sourceId}`)
+    .digest("hex")
+    .slice(0, 24);
+  return {
+    id: `evt_${digest}`,
+    type,
+    organizationId,
+    createdAt: now.toISOString(),
+    data,
+  };
+}
+
+export function parseWebhookEndpointInput(
+  body: unknown,
+  options: { partial?: boolean } = {},
+): { input: Partial<OrgWebhookEndpointInput> } | { error: string } {
+  const raw = (body ?? {}) as Record<string, unknown>;
+  const input: Partial<OrgWebhookEndpointInput> = {};
+
+  if (raw.url !== undefined || !options.partial) {
+    const url = typeof raw.url === "string" ? raw.url.trim() : "";
+    let parsed: URL | null = null;
+    try {
+      parsed = url ? new URL(url) : null;
+    } catch {
+      parsed = null;
+    }
+    const allowedProtocols =
+      process.env.NODE_ENV === "production" ? ["https:"] : ["https:", "http:"];
+    if (!parsed || !allowedProtocols.includes(parsed.protocol)) {
+      return {
+        error:
+          process.env.NODE_ENV === "production"
+            ? "url must be a valid https URL"
+            : "url must be a valid http(s) URL",
+      };
+    }
+    if (isBlockedWebhookHost(parsed.hostname)) {
+      return { error: "url must point to a public host" };
+    }
+    input.url = parsed.toString();
+  }
+
+  if (raw.eventTypes !== undefined || !options.partial) {
+    const eventTypes = normalizeEventTypes(raw.eventTypes);
+    if (!eventTypes.length) {
+      return {
+        error: `eventTypes must include at least one of ${ORG_WEBHOOK_EVENT_TYPES.join(", ")}`,
+      };
+    }
+    input.eventTypes = eventTypes;
+  }
+
+  if (raw.description !== undefined) {
+    input.description =
+      typeof raw.description === "string" && raw.description.trim()
+        ? raw.description.trim().slice(0, 200)
+        : null;
+  }
+
+  if (raw.enabled !== undefined) {
+    if (typeof raw.enabled !== "boolean") {
+      return { error: "enabled must be a boolean" };
+    }
+    input.enabled = raw.enabled;
+  }
+
+  return { input };
+}
+
+export async function listWebhookEndpoints(
+  organizationId: string,
+): Promise<OrgWebhookEndpoint[]> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("org_webhook_endpoints")
+    .select(ENDPOINT_COLUMNS)
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as WebhookEndpointRecord[]).map(mapEndpointRow);
+}
+
+export async function createWebhookEndpoint(
+  organizationId: string,
+  input: OrgWebhookEndpointInput,
+  createdBy: string | null,
+): Promise<{ endpoint: OrgWebhookEndpoint; secret: string }> {
+  const supabase = getSupabaseAdminClient();
+  const secret = generateWebhookSecret();
+  const { data, error } = await supabase
+    .from("org_webhook_endpoints")
+    .insert({
+      organization_id: organizationId,
+      url: input.url,
+      description: input.description ?? null,
+      event_types: input.eventTypes,
+      enabled: input.enabled ?? true,
+      secret,
+      created_by: createdBy,
+      scan_cursor: new Date().toISOString(),
+    })
+    .select(ENDPOINT_COLUMNS)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return { endpoint: mapEndpointRow(data as WebhookEndpointRecord), secret };
+}
+
+export async function updateWebhookEndpoint(
+  organizationId: string,
+  endpointId: string,
+  input: Partial<OrgWebhookEndpointInput>,
+): Promise<OrgWebhookEndpoint | null> {
+  const patch: Record<string, unknown> = {};
+  if (input.url !== undefined) patch.url = input.url;
+  if (input.description !== undefined) patch.description = input.description;
+  if (input.eventTypes !== undefined) patch.event_types = input.eventTypes;
+  if (input.enabled !== undefined) patch.enabled = input.enabled;
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("org_webhook_endpoints")
+    .update(patch)
+    .eq("organization_id", organizationId)
+    .eq("id", endpointId)
+    .select(ENDPOINT_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data ? mapEndpointRow(data as WebhookEndpointRecord) : null;
+}
+
+export async function rotateWebhookSecret(
+  organizationId: string,
+  endpointId: string,
+): Promise<{ endpoint: OrgWebhookEndpoint; secret: string } | null> {
+  const supabase = getSupabaseAdminClient();
+  const secret = generateWebhookSecret();
+  const { data, error } = await supabase
+    .from("org_webhook_endpoints")
+    .update({ secret })
+    .eq("organization_id", organizationId)
+    .eq("id", endpointId)
+    .select(ENDPOINT_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data
+    ? { endpoint: mapEndpointRow(data as WebhookEndpointRecord), secret }
+    : null;
+}
+
+export async function deleteWebhookEndpoint(
+  organizationId: string,
+  endpointId: string,
+): Promise<boolean> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("org_webhook_endpoints")
+    .delete()
+    .eq("organization_id", organizationId)
+    .eq("id", endpointId)
+    .select("id");
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).length > 0;
+}
+
+async function loadSubscribedEndpoints(
+  organizationId: string,
+  type: OrgWebhookEventType,
+): Promise<WebhookEndpointRecord[]> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("org_webhook_endpoints")
+    .select(ENDPOINT_COLUMNS)
+    .eq("organization_id", organizationId)
+    .eq("enabled", true)
+    .contains("event_types", [type]);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []) as WebhookEndpointRecord[];
+}
+
+async function enqueueWebhookEvent(
+  endpoints: WebhookEndpointRecord[],
+  event: OrgWebhookEvent,
+): Promise<WebhookDeliveryRecord[]> {
+  if (!endpoints.length) return [];
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("org_webhook_deliveries")
+    .upsert(
+      endpoints.map((endpoint) => ({
+        organization_id: event.organizationId,
+        endpoint_id: endpoint.id,
+        event_id: event.id,
+        event_type: event.type,
+        dedupe_key: event.id,
+        payload: event,
+        max_attempts: WEBHOOK_MAX_ATTEMPTS,
+      })),
+      { onConflict: "endpoint_id,dedupe_key", ignoreDuplicates: true },
+    )
+    .select("*");
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []) as WebhookDeliveryRecord[];
+}
+
+/**
+ * Claims a pending delivery and posts it. Failures are rescheduled with
+ * exponential backoff until the attempt budget is spent.
+ */
+export async function deliverWebhook(
+  deliveryId: string,
+  now: Date = new Date(),
+): Promise<OrgWebhookDelivery | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data: claimed, error: claimError } = await supabase
+    .from("org_webhook_deliveries")
+    .update({ status: "sending" })
+    .eq("id", deliveryId)
+    .eq("status", "pending")
+    .select("*")
+    .maybeSingle<WebhookDeliveryRecord>();
+
+  if (claimError) {
+    throw claimError;
+  }
+  if (!claimed) {
+    return null;
+  }
+
+  const attempts = claimed.attempts + 1;
+  let update: Record<string, unknown>;
+
+  try {
+    const { data: endpoint, error: endpointError } = await supabase
+      .from("org_webhook_endpoints")
+      .select(ENDPOINT_COLUMNS)
+      .eq("id", claimed.endpoint_id)
+      .maybeSingle<WebhookEndpointRecord>();
+    if (endpointError) {
+      throw endpointError;
+    }
+    if (!endpoint?.enabled) {
+      throw new AlertChannelError("Webhook endpoint is disabled");
+    }
+
+    await assertPublicWebhookTarget(endpoint.url);
+
+    const body = JSON.stringify(claimed.payload);
+    // Redirects are not followed: the target was only vetted for this URL.
+    const responseStatus = await postJson(
+      endpoint.url,
+      body,
+      {
+        [ALERT_SIGNATURE_HEADER]: signWebhookPayload(
+          endpoint.secret,
+          Math.floor(now.getTime() / 1000),
+          body,
+        ),
+        [WEBHOOK_EVENT_HEADER]: claimed.event_type,
+        [WEBHOOK_DELIVERY_HEADER]: claimed.id,
+      },
+      { redirect: "manual" },
+    );
+    update = {
+      status: "sent",
+      attempts,
+      delivered_at: now.toISOString(),
+      last_error: null,
+      response_status: responseStatus,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = attempts >= claimed.max_attempts;
+    update = {
+      status: exhausted ? "failed" : "pending",
+      attempts,
+      last_error: message,
+      response_status:
+        error instanceof AlertChannelError ? error.responseStatus : null,
+      next_attempt_at: new Date(
+        now.getTime() + computeRetryDelayMs(attempts, WEBHOOK_RETRY_POLICY),
+      ).toISOString(),
+    };
+    console.warn("[webhooks] Delivery attempt failed", {
+      deliveryId,
+      eventType: claimed.event_type,
+      attempts,
+      exhausted,
+      message,
+    });
+  }
+
+  const { data, error } = await supabase
+    .from("org_webhook_deliveries")
+    .update(update)
+    .eq("id", deliveryId)
+    .select("*")
+    .single<WebhookDeliveryRecord>();
+
+  if (error) {
+    throw error;
+  }
+
+  return mapDeliveryRow(data);
+}
+
+/**
+ * Enqueues an event for every enabled endpoint subscribed to it and makes a
+ * first delivery attempt straight away. Never throws: webhook problems must
+ * not fail the request that produced the event.
+ */
+export async function emitOrgWebhookEvent<T extends OrgWebhookEventType>(
+  organizationId: string | null | undefined,
+  type: T,
+  sourceId: string,
+  data: OrgWebhookEventPayloads[T],
+): Promise<number> {
+  if (!organizationId) return 0;
+
+  try {
+    const endpoints = await loadSubscribedEndpoints(organizationId, type);
+    const deliveries = await enqueueWebhookEvent(
+      endpoints,
+      buildWebhookEvent(type, organizationId, sourceId, data),
+    );
+    for (const delivery of deliveries) {
+      await deliverWebhook(delivery.id);
+    }
+    return deliveries.length;
+  } catch (error) {
+    console.warn("[webhooks] Failed to emit event", {
+      organizationId,
+      type,
+      sourceId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return 0;
+  }
+}
+
+export async function resolveProfileOrganizationId(
+  profileId: string | null | undefined,
+): Promise<string | null> {
+  if (!profileId) return null;
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("user_profiles")
+    .select("organization_id")
+    .eq("id", profileId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data?.organization_id as string | null) ?? null;
+}
+
+export async function emitIngestionWebhookEvent(
+  organizationId: string | null | undefined,
+  ingestionId: string,
+  status: string,
+  extraction: DocumentExtractionResult,
+): Promise<number> {
+  return emitOrgWebhookEvent(
+    organizationId,
+    "ingestion.extracted",
+    ingestionId,
+    {
+      ingestionId,
+      fileName: extraction.originalFileName,
+      status,
+      strategy: extraction.strategy,
+      wordCount: extraction.wordCount,
+      needsOcr: extraction.needsOcr,
+      language: extraction.language.language,
+    },
+  );
+}
+
+/**
+ * Emits `review.completed`, or `review.fallback` when the saved results came
+ * from the deterministic fallback analysis instead of the model.
+ */
+export async function emitReviewWebhookEvent(
+  reviewId: string,
+  organizationId: string | null | undefined,
+): Promise<number> {
+  if (!organizationId) return 0;
+
+  const supabase = getSupabaseAdminClient();
+  const { data: review, error } = await supabase
+    .from("contract_reviews")
+    .select("id, contract_id, review_type, score, results, contracts (title)")
+    .eq("id", reviewId)
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!review) {
+    return 0;
+  }
+
+  const results = (review.results ?? {}) as Record<string, unknown>;
+  const contractTitle =
+    (review.contracts as { title?: string } | null)?.title ?? null;
+  const base = {
+    reviewId: review.id as string,
+    contractId: review.contract_id as string,
+    contractTitle,
+    reviewType: review.review_type as string,
+  };
+
+  if (results.fallback_used === true) {
+    return emitOrgWebhookEvent(organizationId, "review.fallback", reviewId, {
+      ...base,
+      fallbackReason:
+        typeof results.fallback_reason === "string"
+          ? results.fallback_reason
+          : null,
+    });
+  }
+
+  return emitOrgWebhookEvent(organizationId, "review.completed", reviewId, {
+    ...base,
+    score: typeof review.score === "number" ? review.score : null,
+  });
+}
+
+async function scanDraftJobs(
+  endpoint: WebhookEndpointRecord,
+  since: string,
+  now: Date,
+): Promise<number> {
+  const subscribed = normalizeEventTypes(endpoint.event_types);
+  if (
+    !subscribed.includes("draft.succeeded") &&
+    !subscribed.includes("draft.failed")
+  ) {
+    return 0;
+  }
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("contract_draft_jobs")
+    .select(
+      "id, contract_id, draft_key, status, error, result_snapshot_id, finished_at, contracts!inner (organization_id)",
+    )
+    .eq("contracts.organization_id", endpoint.organization_id)
+    .or("job_type.is.null,job_type.eq.compose")
+    .in("status", ["succeeded", "failed"])
+    .gte("finished_at", since)
+    .order("finished_at", { ascending: true })
+    .limit(200);
+
+  if (error) {
+    throw error;
+  }
+
+  let enqueued = 0;
+  for (const job of data ?? []) {
+    const event =
+      job.status === "succeeded"
+        ? buildWebhookEvent(
+            "draft.succeeded",
+            endpoint.organization_id,
+            job.id,
+            {
+              jobId: job.id,
+              contractId: job.contract_id,
+              draftKey: job.draft_key ?? null,
+              snapshotId: job.result_snapshot_id ?? null,
+            },
+            now,
+          )
+        : buildWebhookEvent(
+            "draft.failed",
+            endpoint.organization_id,
+            job.id,
+            {
+              jobId: job.id,
+              contractId: job.contract_id,
+              draftKey: job.draft_key ?? null,
+              error: job.error ?? null,
+            },
+            now,
+          );
+    if (!subscribed.includes(event.type)) continue;
+    enqueued += (await enqueueWebhookEvent([endpoint], event)).length;
+  }
+  return enqueued;
+}
+
+async function scanEditApprovals(
+  endpoint: WebhookEndpointRecord,
+  since: string,
+  now: Date,
+): Promise<number> {
+  if (
+    !normalizeEventTypes(endpoint.event_types).includes("agent_edit.approved")
+  ) {
+    return 0;
+  }
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("agent_edit_approvals")
+    .select(
+      "id, user_id, contract_id, review_id, proposed_edit_id, clause_reference, change_type, accepted_at",
+    )
+    .eq("organization_id", endpoint.organization_id)
+    .gte("accepted_at", since)
+    .order("accepted_at", { ascending: true })
+    .limit(200);
+
+  if (error) {
+    throw error;
+  }
+
+  let enqueued = 0;
+  for (const approval of data ?? []) {
+    const event = buildWebhookEvent(
+      "agent_edit.approved",
+      endpoint.organization_id,
+      approval.id,
+      {
+        approvalId: approval.id,
+        contractId: approval.contract_id ?? null,
+        reviewId: approval.review_id ?? null,
+        proposedEditId: approval.proposed_edit_id ?? null,
+        clauseReference: approval.clause_reference ?? null,
+        changeType: approval.change_type ?? null,
+        approvedBy: approval.user_id,
+      },
+      now,
+    );
+    enqueued += (await enqueueWebhookEvent([endpoint], event)).length;
+  }
+  return enqueued;
+}
+
+/**
+ * Draft jobs finish inside the job worker or a background function, and edit
+ * approvals are written straight from the browser, so neither has a server
+ * hook to emit from. They are picked up here by scanning past each
+ * endpoint's cursor instead.
+ */
+async function scanEventSources(now: Date): Promise<number> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("org_webhook_endpoints")
+    .select(ENDPOINT_COLUMNS)
+    .eq("enabled", true)
+    .overlaps("event_types", SCANNED_EVENT_TYPES);
+
+  if (error) {
+    throw error;
+  }
+
+  let enqueued = 0;
+  for (const endpoint of (data ?? []) as WebhookEndpointRecord[]) {
+    const cursor = Date.parse(endpoint.scan_cursor ?? endpoint.created_at);
+    const since = new Date(cursor - SCAN_OVERLAP_MS).toISOString();
+    try {
+      enqueued += await scanDraftJobs(endpoint, since, now);
+      enqueued += await scanEditApprovals(endpoint, since, now);
+
+      const { error: cursorError } = await supabase
+        .from("org_webhook_endpoints")
+        .update({ scan_cursor: now.toISOString() })
+        .eq("id", endpoint.id);
+      if (cursorError) {
+        throw cursorError;
+      }
+    } catch (scanError) {
+      console.error("[webhooks] Endpoint scan failed", {
+        endpointId: endpoint.id,
+        message:
+          scanError instanceof Error ? scanError.message : String(scanError),
+      });
+    }
+  }
+  return enqueued;
+}
+
+async function processDueDeliveries(now: Date, limit = 25): Promise<number> {
+  const supabase = getSupabaseAdminClient();
+
+  const { error: requeueError } = await supabase
+    .from("org_webhook_deliveries")
+    .update({ status: "pending" })
+    .eq("status", "sending")
+    .lt("updated_at", new Date(now.getTime() - STALE_SENDING_MS).toISOString());
+  if (requeueError) {
+    throw requeueError;
+  }
+
+  const { data, error } = await supabase
+    .from("org_webhook_deliveries")
+    .select("id")
+    .eq("status", "pending")
+    .lte("next_attempt_at", now.toISOString())
+    .order("next_attempt_at", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  let processed = 0;
+  for (const row of data ?? []) {
+    if (await deliverWebhook(row.id, now)) processed += 1;
+  }
+  return processed;
+}
+
+/** One pass: enqueue scanned events, then send everything that is due. */
+export async function runWebhookDispatchCycle(
+  now: Date = new Date(),
+): Promise<{ enqueued: number; delivered: number }> {
+  const enqueued = await scanEventSources(now);
+  const delivered = await processDueDeliveries(now);
+  return { enqueued, delivered };
+}
+
+export async function listWebhookDeliveries(
+  organizationId: string,
+  options: { endpointId?: string; limit?: number } = {},
+): Promise<OrgWebhookDelivery[]> {
+  const supabase = getSupabaseAdminClient();
+  let query = supabase
+    .from("org_webhook_deliveries")
+    .select("*")
+    .eq("organization_id", organizationId);
+  if (options.endpointId) {
+    query = query.eq("endpoint_id", options.endpointId);
+  }
+  const { data, error } = await query
+    .order("created_at", { ascending: false })
+    .limit(options.limit ?? 50);
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as WebhookDeliveryRecord[]).map(mapDeliveryRow);
+}
+
+/**
+ * Sends a past delivery's event again as a new delivery row, leaving the
+ * original in the history. The event id is unchanged.
+ */
+export async function replayWebhookDelivery(
+  organizationId: string,
+  deliveryId: string,
+): Promise<OrgWebhookDelivery | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data: original, error: loadError } = await supabase
+    .from("org_webhook_deliveries")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .eq("id", deliveryId)
+    .maybeSingle<WebhookDeliveryRecord>();
+
+  if (loadError) {
+    throw loadError;
+  }
+  if (!original) {
+    return null;
+  }
+
+  const { data: replay, error } = await supabase
+    .from("org_webhook_deliveries")
+    .insert({
+      organization_id: organizationId,
+      endpoint_id: original.endpoint_id,
+      event_id: original.event_id,
+      event_type: original.event_type,
+      dedupe_key: `${original.dedupe_key}:replay:${crypto.randomUUID()}`,
+      payload: original.payload,
+      max_attempts: WEBHOOK_MAX_ATTEMPTS,
+      replay_of: original.id,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return deliverWebhook(replay.id as string);
+}
+
+export interface WebhookDispatcherHandle {
+  stop(): Promise<void>;
+}
+
+export function startWebhookDispatcher(
+  options: { intervalMs?: number } = {},
+): WebhookDispatcherHandle {
+  const intervalMs = options.intervalMs ?? 30_000;
+  let running: Promise<void> | null = null;
+
+  const tick = () => {
+    if (running) return;
+    running = runWebhookDispatchCycle()
+      .then((result) => {
+        if (result.enqueued > 0 || result.delivered > 0) {
+          console.info("[webhooks] Dispatch cycle completed", result);
+        }
+      })
+      .catch((error) => {
+        console.error("[webhooks] Dispatch cycle failed", {
+          message: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        running = null;
+      });
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  console.info("[webhooks] Webhook dispatcher started", { intervalMs });
+
+  return {
+    async stop() {
+      clearInterval(timer);
+      await running;
+    },
+  };
+}
@@ -0,0 +1,114 @@
+import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+
+export async function checkPaygAllowance(userId: string) {
+  const supabase = getSupabaseAdminClient();
+
+  const { data: planRow, error: planError } = await supabase
+    .from("user_plans")
+    .select("plan_type")
+    .eq("user_id", userId)
+    .maybeSingle<{ plan_type: string | null }>();
+
+  if (planError) {
+    console.error("[payg] Failed to load user plan", planError);
+    return { allowed: true, balance: 0, planType: null } as const;
+  }
+
+  const planType = planRow?.plan_type ?? null;
+  if (planType !== "pay_as_you_go") {
+    return { allowed: true, balance: 0, planType } as const;
+  }
+
+  const { data: balanceRow, error: balanceError } = await supabase
+    .from("user_payg_balances")
+    .select("credits_balance")
+    .eq("user_id", userId)
+    .maybeSingle<{ credits_balance: number | null }>();
+
+  if (balanceError) {
+    console.error("[payg] Failed to load PAYG balance", balanceError);
+    return { allowed: false, balance: 0, planType } as const;
+  }
+
+  const balance = balanceRow?.credits_balance ?? 0;
+  return { allowed: balance > 0, balance, planType } as const;
+}
+
+export async function applyPaygCreditDelta(options: {
+  userId: string;
+  delta: number;
+  reason: string;
+  referenceId?: string | null;
+  metadata?: Record<string, unknown>;
+}) {
+  const { userId } = options;
+  const deltaInt = Number.isFinite(options.delta)
+    ? Math.trunc(options.delta)
+    : 0;
+
+  if (deltaInt === 0) {
+    return;
+  }
+
+  const supabase = getSupabaseAdminClient();
+
+  const { data: existing, error: selectError } = await supabase
+    .from("user_payg_balances")
+    .select("id, credits_balance, credits_purchased, credits_consumed")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (selectError) {
+    throw new Error(`Failed to load PAYG balance: ${selectError.message}`);
+  }
+
+  const previousBalance = existing?.credits_balance ?? 0;
+  const previousPurchased = existing?.credits_purchased ?? 0;
+  const previousConsumed = existing?.credits_consumed ?? 0;
+
+  const creditsBalance = Math.max(previousBalance + deltaInt, 0);
+  const creditsPurchased =
+    previousPurchased + (deltaInt > 0 ? deltaInt : 0);
+  const creditsConsumed =
+    previousConsumed + (deltaInt < 0 ? Math.abs(deltaInt) : 0);
+
+  if (existing) {
+    const { error: updateError } = await supabase
+      .from("user_payg_balances")
+      .update({
+        credits_balance: creditsBalance,
+        credits_purchased: creditsPurchased,
+        credits_consumed: creditsConsumed,
+      })
+      .eq("id", existing.id);
+
+    if (updateError) {
+      throw new Error(`Failed to update PAYG balance: ${updateError.message}`);
+    }
+  } else {
+    const { error: insertError } = await supabase
+      .from("user_payg_balances")
+      .insert({
+        user_id: userId,
+        credits_balance: Math.max(deltaInt, 0),
+        credits_purchased: deltaInt > 0 ? deltaInt : 0,
+        credits_consumed: deltaInt < 0 ? Math.abs(deltaInt) : 0,
+      });
+
+    if (insertError) {
+      throw new Error(`Failed to create PAYG balance: ${insertError.message}`);
+    }
+  }
+
+  const { error: ledgerError } = await supabase.from("user_payg_ledger").insert({
+    user_id: userId,
+    delta: deltaInt,
+    reason: options.reason,
+    reference_id: options.referenceId ?? null,
+    metadata: options.metadata ?? {},
+  });
+
+  if (ledgerError) {
+    throw new Error(`Failed to log PAYG ledger entry: ${ledgerError.message}`);
+  }
+}
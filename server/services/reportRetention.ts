@@ -0,0 +1,687 @@
+import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import { ALERT_EMAIL_FUNCTION, APP_BASE_URL } from "./alertDispatcher";
+import {
+  PLAN_CATALOG,
+  computeReportExpiry,
+  resolveReportStorageDays,
+} from "../../shared/plans";
+import type {
+  OrgRetentionPurge,
+  OrgRetentionSettings,
+  RetentionPurgeCounts,
+  StorageObjectRef,
+} from "../../shared/api";
+
+const DAY_MS = 86_400_000;
+
+export const RETENTION_WARNING_DAYS = (() => {
+  const days = Number(process.env.RETENTION_WARNING_DAYS ?? 3);
+  return Number.isFinite(days) && days >= 0 ? days : 3;
+})();
+
+// Contracts examined per user per cycle; the rest are picked up next cycle.
+const CONTRACTS_PER_SUBJECT = 100;
+
+export type RetentionStage = "retain" | "warn" | "purge";
+
+export interface RetentionSubject {
+  userId: string;
+  email: string | null;
+  organizationId: string | null;
+  planKey: string;
+  storageDays: number;
+}
+
+interface RetentionContractRecord {
+  id: string;
+  title: string | null;
+  created_at: string;
+  organization_id: string | null;
+  metadata: Record<string, unknown> | null;
+  contract_reviews: Array<{
+    id: string;
+    created_at: string;
+    expires_at: string | null;
+    expiry_warned_at: string | null;
+  }> | null;
+}
+
+interface RetentionPurgeLogRecord {
+  id: string;
+  user_id: string | null;
+  contract_id: string;
+  contract_title: string | null;
+  plan_key: string | null;
+  storage_days: number;
+  expired_at: string;
+  purged: unknown;
+  created_at: string;
+}
+
+const FINITE_PLAN_KEYS = PLAN_CATALOG.filter(
+  (plan) => typeof plan.reportStorageDays === "number",
+).map((plan) => plan.key);
+
+export function classifyRetention(
+  expiresAt: string | null,
+  now: Date,
+  warningDays: number = RETENTION_WARNING_DAYS,
+): RetentionStage {
+  if (!expiresAt) return "retain";
+  const remainingMs = new Date(expiresAt).getTime() - now.getTime();
+  if (remainingMs <= 0) return "purge";
+  return remainingMs <= warningDays * DAY_MS ? "warn" : "retain";
+}
+
+/**
+ * A contract's retention clock restarts with each review, so re-reviewing a
+ * contract keeps it alive for another full storage period.
+ */
+export function contractRetentionStart(
+  contract: Pick<RetentionContractRecord, "created_at" | "contract_reviews">,
+): string {
+  return (contract.contract_reviews ?? []).reduce(
+    (latest, review) =>
+      new Date(review.created_at).getTime() > new Date(latest).getTime()
+        ? review.created_at
+        : latest,
+    contract.created_at,
+  );
+}
+
+function readIngestionId(metadata: Record<string, unknown> | null) {
+  const value = metadata?.ingestionId;
+  return typeof value === "string" && value.length > 0 ? value : null;
+}
+
+function mapPurgeCounts(value: unknown): RetentionPurgeCounts {
+  const record = (value ?? {}) as Record<string, unknown>;
+  const count = (key: string) =>
+    typeof record[key] === "number" ? (record[key] as number) : 0;
+  return {
+    reviews: count("reviews"),
+    ingestions: count("ingestions"),
+    draftSnapshots: count("draftSnapshots"),
+    storageObjects: count("storageObjects"),
+  };
+}
+
+function mapPurgeRow(row: RetentionPurgeLogRecord): OrgRetentionPurge {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    contractId: row.contract_id,
+    contractTitle: row.contract_title,
+    planKey: row.plan_key,
+    storageDays: row.storage_days,
+    expiredAt: row.expired_at,
+    purged: mapPurgeCounts(row.purged),
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Users whose effective plan stores reports for a limited time. A recognised
+ * organization plan takes precedence over the member's own plan; members of
+ * organizations on legal hold are excluded.
+ */
+export async function loadRetentionSubjects(): Promise<RetentionSubject[]> {
+  if (!FINITE_PLAN_KEYS.length) return [];
+  const supabase = getSupabaseAdminClient();
+
+  const { data: planRows, error: planError } = await supabase
+    .from("user_plans")
+    .select("user_id, plan_type")
+    .in("plan_type", FINITE_PLAN_KEYS);
+  if (planError) {
+    throw planError;
+  }
+
+  const { data: orgRows, error: orgError } = await supabase
+    .from("organizations")
+    .select("id")
+    .in("billing_plan", FINITE_PLAN_KEYS)
+    .eq("legal_hold", false);
+  if (orgError) {
+    throw orgError;
+  }
+
+  const userPlans = new Map<string, string>();
+  for (const row of planRows ?? []) {
+    if (row.user_id && row.plan_type) userPlans.set(row.user_id, row.plan_type);
+  }
+
+  const profiles = new Map<string, Record<string, unknown>>();
+  const profileColumns =
+    "id, email, organization_id, organizations (billing_plan, legal_hold)";
+  if (userPlans.size) {
+    const { data, error } = await supabase
+      .from("user_profiles")
+      .select(profileColumns)
+      .in("id", Array.from(userPlans.keys()));
+    if (error) {
+      throw error;
+    }
+    for (const row of data ?? []) profiles.set(row.id as string, row);
+  }
+  const orgIds = (orgRows ?? []).map((row) => row.id as string);
+  if (orgIds.length) {
+    const { data, error } = await supabase
+      .from("user_profiles")
+      .select(profileColumns)
+      .in("organization_id", orgIds);
+    if (error) {
+      throw error;
+    }
+    for (const row of data ?? []) profiles.set(row.id as string, row);
+  }
+
+  const subjects: RetentionSubject[] = [];
+  for (const profile of profiles.values()) {
+    const organization = profile.organizations as {
+      billing_plan?: string | null;
+      legal_hold?: boolean | null;
+    } | null;
+    if (organization?.legal_hold === true) continue;
+
+    const userId = profile.id as string;
+    const planKeys = [organization?.billing_plan, userPlans.get(userId)];
+    const storageDays = resolveReportStorageDays(planKeys);
+    const planKey = planKeys.find((key) =>
+      FINITE_PLAN_KEYS.includes(key as (typeof FINITE_PLAN_KEYS)[number]),
+    );
+    if (storageDays === null || !planKey) continue;
+
+    subjects.push({
+      userId,
+      email: typeof profile.email === "string" ? profile.email : null,
+      organizationId: (profile.organization_id as string | null) ?? null,
+      planKey,
+      storageDays,
+    });
+  }
+  return subjects;
+}
+
+async function removeStorageObjects(objects: StorageObjectRef[]) {
+  const byBucket = new Map<string, string[]>();
+  for (const object of objects) {
+    if (!object.bucket || !object.path) continue;
+    const paths = byBucket.get(object.bucket) ?? [];
+    paths.push(object.path);
+    byBucket.set(object.bucket, paths);
+  }
+
+  const supabase = getSupabaseAdminClient();
+  for (const [bucket, paths] of byBucket) {
+    const { error } = await supabase.storage.from(bucket).remove(paths);
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+async function loadIngestionObjects(
+  ingestionIds: string[],
+): Promise<StorageObjectRef[]> {
+  if (!ingestionIds.length) return [];
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("contract_ingestions")
+    .select(
+      "storage_bucket, storage_path, contract_ingestion_assets (storage_bucket, storage_path)",
+    )
+    .in("id", ingestionIds);
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).flatMap((row) => [
+    { bucket: row.storage_bucket, path: row.storage_path },
+    ...(
+      (row.contract_ingestion_assets ?? []) as Array<{
+        storage_bucket: string;
+        storage_path: string;
+      }>
+    ).map((asset) => ({
+      bucket: asset.storage_bucket,
+      path: asset.storage_path,
+    })),
+  ]);
+}
+
+async function deleteIngestions(ingestionIds: string[]): Promise<number> {
+  if (!ingestionIds.length) return 0;
+  const { count, error } = await getSupabaseAdminClient()
+    .from("contract_ingestions")
+    .delete({ count: "exact" })
+    .in("id", ingestionIds);
+  if (error) {
+    throw error;
+  }
+  return count ?? 0;
+}
+
+/**
+ * Deletes an expired contract with its reviews, draft snapshots, upload and
+ * every stored file, then records the purge. Files go first so a failure
+ * leaves the rows in place to retry rather than orphaning objects.
+ */
+export async function purgeExpiredContract(
+  subject: RetentionSubject,
+  contract: RetentionContractRecord,
+  expiredAt: string,
+): Promise<RetentionPurgeCounts> {
+  const supabase = getSupabaseAdminClient();
+  const ingestionId = readIngestionId(contract.metadata);
+  const ingestionIds = ingestionId ? [ingestionId] : [];
+
+  const { data: snapshots, error: snapshotError } = await supabase
+    .from("contract_draft_snapshots")
+    .select("asset_bucket, asset_path")
+    .eq("contract_id", contract.id);
+  if (snapshotError) {
+    throw snapshotError;
+  }
+
+  const objects = [
+    ...(await loadIngestionObjects(ingestionIds)),
+    ...(snapshots ?? [])
+      .filter((row) => row.asset_bucket && row.asset_path)
+      .map((row) => ({ bucket: row.asset_bucket, path: row.asset_path })),
+  ];
+  await removeStorageObjects(objects);
+
+  const ingestions = await deleteIngestions(ingestionIds);
+  const { count: draftSnapshots, error: draftError } = await supabase
+    .from("contract_draft_snapshots")
+    .delete({ count: "exact" })
+    .eq("contract_id", contract.id);
+  if (draftError) {
+    throw draftError;
+  }
+  const { count: reviews, error: reviewError } = await supabase
+    .from("contract_reviews")
+    .delete({ count: "exact" })
+    .eq("contract_id", contract.id);
+  if (reviewError) {
+    throw reviewError;
+  }
+  const { error: contractError } = await supabase
+    .from("contracts")
+    .delete()
+    .eq("id", contract.id);
+  if (contractError) {
+    throw contractError;
+  }
+
+  const purged: RetentionPurgeCounts = {
+    reviews: reviews ?? 0,
+    ingestions,
+    draftSnapshots: draftSnapshots ?? 0,
+    storageObjects: objects.length,
+  };
+  const { error: logError } = await supabase
+    .from("retention_purge_log")
+    .insert({
+      organization_id: contract.organization_id ?? subject.organizationId,
+      user_id: subject.userId,
+      contract_id: contract.id,
+      contract_title: contract.title,
+      plan_key: subject.planKey,
+      storage_days: subject.storageDays,
+      expired_at: expiredAt,
+      purged,
+    });
+  if (logError) {
+    throw logError;
+  }
+  return purged;
+}
+
+/** Uploads that never became a contract, or whose contract is gone. */
+async function purgeOrphanedIngestions(
+  subject: RetentionSubject,
+  now: Date,
+): Promise<number> {
+  const supabase = getSupabaseAdminClient();
+  const cutoff = new Date(now.getTime() - subject.storageDays * DAY_MS);
+  const { data, error } = await supabase
+    .from("contract_ingestions")
+    .select("id")
+    .eq("user_id", subject.userId)
+    .lt("created_at", cutoff.toISOString())
+    .limit(CONTRACTS_PER_SUBJECT);
+  if (error) {
+    throw error;
+  }
+  const candidates = (data ?? []).map((row) => row.id as string);
+  if (!candidates.length) return 0;
+
+  const { data: linked, error: linkedError } = await supabase
+    .from("contracts")
+    .select("metadata")
+    .in("metadata->>ingestionId", candidates);
+  if (linkedError) {
+    throw linkedError;
+  }
+  const inUse = new Set(
+    (linked ?? []).map((row) =>
+      readIngestionId(row.metadata as Record<string, unknown> | null),
+    ),
+  );
+  const orphaned = candidates.filter((id) => !inUse.has(id));
+
+  await removeStorageObjects(await loadIngestionObjects(orphaned));
+  return deleteIngestions(orphaned);
+}
+
+async function sendExpiryWarning(
+  subject: RetentionSubject,
+  contracts: Array<{ title: string | null; expiresAt: string }>,
+  now: Date,
+) {
+  if (!subject.email) {
+    throw new Error("User has no email address");
+  }
+  const { error } = await getSupabaseAdminClient().functions.invoke(
+    ALERT_EMAIL_FUNCTION,
+    {
+      body: {
+        to: [subject.email],
+        alert: {
+          type: "report_expiry",
+          organizationName: null,
+          title: "Contract reports due for deletion",
+          summary: `${contracts.length} report${contracts.length === 1 ? "" : "s"} will be deleted under your plan's ${subject.storageDays}-day storage period. Download anything you need to keep.`,
+          items: contracts.map((contract) => ({
+            label: contract.title ?? "Untitled contract",
+            detail: `Deleted on ${contract.expiresAt.slice(0, 10)}`,
+          })),
+          dashboardUrl: `${APP_BASE_URL}/dashboard`,
+          generatedAt: now.toISOString(),
+        },
+      },
+    },
+  );
+  if (error) {
+    throw error;
+  }
+}
+
+async function applyRetentionToSubject(
+  subject: RetentionSubject,
+  now: Date,
+  warningDays: number,
+): Promise<{ warned: number; purged: number; ingestions: number }> {
+  const supabase = getSupabaseAdminClient();
+  const horizon = new Date(
+    now.getTime() - Math.max(0, subject.storageDays - warningDays) * DAY_MS,
+  );
+  const { data, error } = await supabase
+    .from("contracts")
+    .select(
+      "id, title, created_at, organization_id, metadata, contract_reviews (id, created_at, expires_at, expiry_warned_at)",
+    )
+    .eq("user_id", subject.userId)
+    .lt("created_at", horizon.toISOString())
+    .order("created_at", { ascending: true })
+    .limit(CONTRACTS_PER_SUBJECT);
+  if (error) {
+    throw error;
+  }
+
+  const toWarn: Array<{
+    title: string | null;
+    expiresAt: string;
+    reviewIds: string[];
+  }> = [];
+  let purged = 0;
+  for (const contract of (data ?? []) as RetentionContractRecord[]) {
+    const expiresAt = computeReportExpiry(
+      contractRetentionStart(contract),
+      subject.storageDays,
+    )!;
+    const stage = classifyRetention(expiresAt, now, warningDays);
+    if (stage === "purge") {
+      await purgeExpiredContract(subject, contract, expiresAt);
+      purged += 1;
+      continue;
+    }
+
+    const reviews = contract.contract_reviews ?? [];
+    const stale = reviews.filter((review) => review.expires_at !== expiresAt);
+    if (stale.length) {
+      const { error: expiryError } = await supabase
+        .from("contract_reviews")
+        .update({ expires_at: expiresAt })
+        .in(
+          "id",
+          stale.map((review) => review.id),
+        );
+      if (expiryError) {
+        throw expiryError;
+      }
+    }
+    const unwarned = reviews.filter((review) => !review.expiry_warned_at);
+    if (stage === "warn" && unwarned.length) {
+      toWarn.push({
+        title: contract.title,
+        expiresAt,
+        reviewIds: unwarned.map((review) => review.id),
+      });
+    }
+  }
+
+  if (toWarn.length) {
+    await sendExpiryWarning(subject, toWarn, now);
+    const { error: warnedError } = await supabase
+      .from("contract_reviews")
+      .update({ expiry_warned_at: now.toISOString() })
+      .in(
+        "id",
+        toWarn.flatMap((contract) => contract.reviewIds),
+      );
+    if (warnedError) {
+      throw warnedError;
+    }
+  }
+
+  const ingestions = await purgeOrphanedIngestions(subject, now);
+  return { warned: toWarn.length, purged, ingestions };
+}
+
+/**
+ * One pass of the retention sweeper: warns users about reports nearing
+ * expiry and purges expired ones. A failure for one user is logged and the
+ * rest continue.
+ */
+export async function runRetentionCycle(
+  now: Date = new Date(),
+  warningDays: number = RETENTION_WARNING_DAYS,
+): Promise<{
+  subjects: number;
+  warned: number;
+  purged: number;
+  ingestions: number;
+}> {
+  const subjects = await loadRetentionSubjects();
+  const totals = {
+    subjects: subjects.length,
+    warned: 0,
+    purged: 0,
+    ingestions: 0,
+  };
+
+  for (const subject of subjects) {
+    try {
+      const result = await applyRetentionToSubject(subject, now, warningDays);
+      totals.warned += result.warned;
+      totals.purged += result.purged;
+      totals.ingestions += result.ingestions;
+    } catch (error) {
+      console.error("[retention] User sweep failed", {
+        userId: subject.userId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return totals;
+}
+
+/**
+ * Stamps a freshly saved review with its expiry so the report can show it
+ * before the sweeper first reaches the contract. Null for permanent storage.
+ */
+export async function assignReviewExpiry(
+  reviewId: string,
+): Promise<string | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data: review, error } = await supabase
+    .from("contract_reviews")
+    .select(
+      "id, created_at, user_id, user_profiles (organization_id, organizations (billing_plan, legal_hold))",
+    )
+    .eq("id", reviewId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!review) return null;
+
+  const profile = review.user_profiles as {
+    organizations?: {
+      billing_plan?: string | null;
+      legal_hold?: boolean | null;
+    } | null;
+  } | null;
+  if (profile?.organizations?.legal_hold === true) return null;
+
+  const { data: plan, error: planError } = await supabase
+    .from("user_plans")
+    .select("plan_type")
+    .eq("user_id", review.user_id)
+    .maybeSingle();
+  if (planError) {
+    throw planError;
+  }
+
+  const expiresAt = computeReportExpiry(
+    review.created_at,
+    resolveReportStorageDays([
+      profile?.organizations?.billing_plan,
+      plan?.plan_type,
+    ]),
+  );
+  if (!expiresAt) return null;
+
+  const { error: updateError } = await supabase
+    .from("contract_reviews")
+    .update({ expires_at: expiresAt })
+    .eq("id", reviewId);
+  if (updateError) {
+    throw updateError;
+  }
+  return expiresAt;
+}
+
+export async function getOrgRetentionSettings(
+  organizationId: string,
+): Promise<OrgRetentionSettings> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("organizations")
+    .select("billing_plan, legal_hold, legal_hold_reason, legal_hold_set_at")
+    .eq("id", organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return {
+    legalHold: data?.legal_hold === true,
+    legalHoldReason: data?.legal_hold_reason ?? null,
+    legalHoldSetAt: data?.legal_hold_set_at ?? null,
+    reportStorageDays: resolveReportStorageDays([data?.billing_plan]),
+  };
+}
+
+export async function updateOrgLegalHold(
+  organizationId: string,
+  legalHold: boolean,
+  reason: string | null,
+): Promise<OrgRetentionSettings> {
+  const supabase = getSupabaseAdminClient();
+  const { error } = await supabase
+    .from("organizations")
+    .update({
+      legal_hold: legalHold,
+      legal_hold_reason: legalHold ? reason : null,
+      legal_hold_set_at: legalHold ? new Date().toISOString() : null,
+    })
+    .eq("id", organizationId);
+
+  if (error) {
+    throw error;
+  }
+  return getOrgRetentionSettings(organizationId);
+}
+
+export async function listOrgRetentionPurges(
+  organizationId: string,
+  limit = 50,
+): Promise<OrgRetentionPurge[]> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("retention_purge_log")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+  return ((data ?? []) as RetentionPurgeLogRecord[]).map(mapPurgeRow);
+}
+
+export interface RetentionSweeperHandle {
+  stop(): Promise<void>;
+}
+
+/** Runs the retention cycle on an interval inside a long-lived process. */
+export function startRetentionSweeper(
+  options: { intervalMs?: number } = {},
+): RetentionSweeperHandle {
+  const intervalMs = options.intervalMs ?? 6 * 60 * 60 * 1000;
+  let running: Promise<void> | null = null;
+
+  const tick = () => {
+    if (running) return;
+    running = runRetentionCycle()
+      .then((result) => {
+        if (result.warned > 0 || result.purged > 0 || result.ingestions > 0) {
+          console.info("[retention] Sweep completed", result);
+        }
+      })
+      .catch((error) => {
+        console.error("[retention] Sweep failed", {
+          message: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        running = null;
+      });
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  console.info("[retention] Retention sweeper started", { intervalMs });
+
+  return {
+    async stop() {
+      clearInterval(timer);
+      await running;
+    },
+  };
+}
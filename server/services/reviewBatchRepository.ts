@@ -0,0 +1,520 @@
+import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import type {
+  ReviewBatch,
+  ReviewBatchDetail,
+  ReviewBatchItem,
+  ReviewBatchItemStatus,
+  ReviewBatchStatus,
+} from "../../shared/api";
+import { isCachedReviewResult } from "./reviewCache";
+
+interface ReviewBatchRecord {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+  name: string;
+  review_type: string;
+  perspective: string | null;
+  status: string;
+  total_documents: number;
+  completed_documents: number;
+  failed_documents: number;
+  completed_at: string | null;
+  created_at: string;
+}
+
+interface ReviewBatchItemRecord {
+  id: string;
+  batch_id: string;
+  position: number;
+  ingestion_id: string | null;
+  file_name: string;
+  status: string;
+  progress: number;
+  contract_type: string | null;
+  classification_confidence: number | string | null;
+  contract_id: string | null;
+  review_id: string | null;
+  compliance_score: number | string | null;
+  critical_issues: number | null;
+  high_issues: number | null;
+  credit_charged: boolean;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+const TERMINAL_ITEM_STATUSES: ReviewBatchItemStatus[] = [
+  "completed",
+  "failed",
+  "skipped",
+];
+
+export function isTerminalBatchItemStatus(status: ReviewBatchItemStatus) {
+  return TERMINAL_ITEM_STATUSES.includes(status);
+}
+
+function toNumberOrNull(value: number | string | null): number | null {
+  if (value === null || value === undefined) return null;
+  const parsed = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function mapBatchRow(row: ReviewBatchRecord): ReviewBatch {
+  return {
+    id: row.id,
+    name: row.name,
+    reviewType: row.review_type,
+    perspective: row.perspective ?? null,
+    status: row.status as ReviewBatchStatus,
+    totalDocuments: row.total_documents,
+    completedDocuments: row.completed_documents,
+    failedDocuments: row.failed_documents,
+    createdAt: row.created_at,
+    completedAt: row.completed_at ?? null,
+  };
+}
+
+function mapItemRow(row: ReviewBatchItemRecord): ReviewBatchItem {
+  return {
+    id: row.id,
+    batchId: row.batch_id,
+    position: row.position,
+    ingestionId: row.ingestion_id ?? null,
+    fileName: row.file_name,
+    status: row.status as ReviewBatchItemStatus,
+    progress: row.progress,
+    contractType: row.contract_type ?? null,
+    classificationConfidence: toNumberOrNull(row.classification_confidence),
+    contractId: row.contract_id ?? null,
+    reviewId: row.review_id ?? null,
+    complianceScore: toNumberOrNull(row.compliance_score),
+    criticalIssues: row.critical_issues ?? null,
+    highIssues: row.high_issues ?? null,
+    error: row.error ?? null,
+    startedAt: row.started_at ?? null,
+    completedAt: row.completed_at ?? null,
+  };
+}
+
+/**
+ * Counts critical and high findings on a stored review, preferring the
+ * structured report and falling back to legacy severity-tagged lists.
+ */
+export function countReviewSeverities(
+  results: Record<string, unknown> | null | undefined,
+): { critical: number; high: number } {
+  const counts = { critical: 0, high: 0 };
+  if (!results) return counts;
+
+  const structured = results.structured_report as
+    | { issuesToAddress?: unknown }
+    | null
+    | undefined;
+  const issues = Array.isArray(structured?.issuesToAddress)
+    ? structured!.issuesToAddress
+    : Array.isArray(results.action_items)
+      ? results.action_items
+      : [];
+
+  (issues as Array<Record<string, unknown> | null>).forEach((issue) => {
+    const severity =
+      typeof issue?.severity === "string" ? issue.severity.toLowerCase() : "";
+    if (severity === "critical") counts.critical += 1;
+    if (severity === "high") counts.high += 1;
+  });
+  return counts;
+}
+
+export async function createReviewBatch(options: {
+  userId: string;
+  organizationId: string | null;
+  name: string;
+  reviewType: string;
+  perspective: string | null;
+  documents: Array<{
+    fileName: string;
+    ingestionId: string | null;
+    status?: ReviewBatchItemStatus;
+    error?: string | null;
+  }>;
+}): Promise<ReviewBatchDetail> {
+  const supabase = getSupabaseAdminClient();
+  const skippedCount = options.documents.filter(
+    (document) => document.status === "skipped",
+  ).length;
+
+  const { data: batch, error } = await supabase
+    .from("review_batches")
+    .insert({
+      user_id: options.userId,
+      organization_id: options.organizationId,
+      name: options.name,
+      review_type: options.reviewType,
+      perspective: options.perspective,
+      total_documents: options.documents.length,
+      failed_documents: skippedCount,
+    })
+    .select("*")
+    .single<ReviewBatchRecord>();
+
+  if (error) {
+    throw error;
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from("review_batch_items")
+    .insert(
+      options.documents.map((document, index) => ({
+        batch_id: batch.id,
+        position: index,
+        ingestion_id: document.ingestionId,
+        file_name: document.fileName,
+        status: document.status ?? "queued",
+        error: document.error ?? null,
+      })),
+    )
+    .select("*");
+
+  if (itemsError) {
+    throw itemsError;
+  }
+
+  return {
+    ...mapBatchRow(batch),
+    items: ((items ?? []) as ReviewBatchItemRecord[])
+      .map(mapItemRow)
+      .sort((a, b) => a.position - b.position),
+  };
+}
+
+export async function listReviewBatches(
+  userId: string,
+  limit = 20,
+): Promise<ReviewBatch[]> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("review_batches")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as ReviewBatchRecord[]).map(mapBatchRow);
+}
+
+export async function getReviewBatch(
+  userId: string,
+  batchId: string,
+): Promise<ReviewBatchDetail | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data: batch, error } = await supabase
+    .from("review_batches")
+    .select("*")
+    .eq("id", batchId)
+    .eq("user_id", userId)
+    .maybeSingle<ReviewBatchRecord>();
+
+  if (error) {
+    throw error;
+  }
+  if (!batch) {
+    return null;
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from("review_batch_items")
+    .select("*")
+    .eq("batch_id", batchId)
+    .order("position", { ascending: true });
+
+  if (itemsError) {
+    throw itemsError;
+  }
+
+  return {
+    ...mapBatchRow(batch),
+    items: ((items ?? []) as ReviewBatchItemRecord[]).map(mapItemRow),
+  };
+}
+
+async function getBatchItemRecord(
+  batchId: string,
+  itemId: string,
+): Promise<ReviewBatchItemRecord | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("review_batch_items")
+    .select("*")
+    .eq("batch_id", batchId)
+    .eq("id", itemId)
+    .maybeSingle<ReviewBatchItemRecord>();
+
+  if (error) {
+    throw error;
+  }
+  return data ?? null;
+}
+
+/** Recomputes the batch counters and closes the batch once every item is terminal. */
+async function refreshBatchProgress(batchId: string): Promise<void> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("review_batch_items")
+    .select("status")
+    .eq("batch_id", batchId);
+
+  if (error) {
+    throw error;
+  }
+
+  const statuses = (data ?? []).map(
+    (row) => row.status as ReviewBatchItemStatus,
+  );
+  const completed = statuses.filter((status) => status === "completed").length;
+  const failed = statuses.filter(
+    (status) => status === "failed" || status === "skipped",
+  ).length;
+  const done = statuses.every(isTerminalBatchItemStatus);
+
+  const { error: updateError } = await supabase
+    .from("review_batches")
+    .update({
+      completed_documents: completed,
+      failed_documents: failed,
+      ...(done
+        ? { status: "completed", completed_at: new Date().toISOString() }
+        : {}),
+    })
+    .eq("id", batchId)
+    .eq("status", "processing");
+
+  if (updateError) {
+    throw updateError;
+  }
+}
+
+export async function updateReviewBatchItem(
+  batchId: string,
+  itemId: string,
+  update: {
+    status: ReviewBatchItemStatus;
+    progress?: number;
+    contractType?: string | null;
+    classificationConfidence?: number | null;
+    error?: string | null;
+  },
+): Promise<ReviewBatchItem | null> {
+  const existing = await getBatchItemRecord(batchId, itemId);
+  if (!existing) return null;
+  if (existing.status === "completed") return mapItemRow(existing);
+
+  const payload: Record<string, unknown> = { status: update.status };
+  if (typeof update.progress === "number") {
+    payload.progress = Math.max(0, Math.min(100, Math.round(update.progress)));
+  }
+  if (update.contractType !== undefined) {
+    payload.contract_type = update.contractType;
+  }
+  if (update.classificationConfidence !== undefined) {
+    payload.classification_confidence = update.classificationConfidence;
+  }
+  if (update.error !== undefined) {
+    payload.error = update.error ? update.error.slice(0, 1000) : null;
+  }
+  if (!existing.started_at && !isTerminalBatchItemStatus(update.status)) {
+    payload.started_at = new Date().toISOString();
+  }
+  if (isTerminalBatchItemStatus(update.status)) {
+    payload.completed_at = new Date().toISOString();
+  }
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("review_batch_items")
+    .update(payload)
+    .eq("id", itemId)
+    .select("*")
+    .single<ReviewBatchItemRecord>();
+
+  if (error) {
+    throw error;
+  }
+
+  if (isTerminalBatchItemStatus(update.status)) {
+    await refreshBatchProgress(batchId);
+  }
+  return mapItemRow(data);
+}
+
+// Flips `credit_charged` only when it still holds the opposite value, so of
+// several concurrent requests exactly one sees `true` and moves the credit.
+// Open items are settled by the item routes, completed ones only by the
+// completion that closed them.
+async function flipReviewBatchItemCredit(
+  batchId: string,
+  itemId: string,
+  charged: boolean,
+  completed = false,
+): Promise<boolean> {
+  const supabase = getSupabaseAdminClient();
+  const query = supabase
+    .from("review_batch_items")
+    .update({ credit_charged: charged })
+    .eq("batch_id", batchId)
+    .eq("id", itemId)
+    .eq("credit_charged", !charged);
+  const { data, error } = await (
+    completed
+      ? query.eq("status", "completed")
+      : query.neq("status", "completed")
+  )
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return Boolean(data);
+}
+
+/**
+ * Marks the credit for a batch item as spent before its analysis runs.
+ * Returns false when the item was already charged (or does not exist), so a
+ * retried transition never charges twice.
+ */
+export async function claimReviewBatchItemCredit(
+  batchId: string,
+  itemId: string,
+): Promise<boolean> {
+  return flipReviewBatchItemCredit(batchId, itemId, true);
+}
+
+/**
+ * Hands back the credit of a batch item that failed before completing.
+ * Returns true only for the call that released it, so the refund is issued
+ * at most once per charge.
+ */
+export async function releaseReviewBatchItemCredit(
+  batchId: string,
+  itemId: string,
+): Promise<boolean> {
+  return flipReviewBatchItemCredit(batchId, itemId, false);
+}
+
+/**
+ * Links a finished review to its batch item. Scores are read from the stored
+ * review rather than trusted from the client. `creditDelta` settles the
+ * item's credit: normally it was taken when the analysis started, an item
+ * that skipped that step is charged now, and a review served from the review
+ * cache hands the credit back. The credit moves through the same atomic flag
+ * as the item routes, so racing requests never charge or refund twice.
+ */
+export async function completeReviewBatchItem(
+  userId: string,
+  batchId: string,
+  itemId: string,
+  reviewId: string,
+  classificationConfidence?: number | null,
+): Promise<{ item: ReviewBatchItem; creditDelta: number } | null> {
+  const existing = await getBatchItemRecord(batchId, itemId);
+  if (!existing) return null;
+
+  const supabase = getSupabaseAdminClient();
+  const { data: review, error: reviewError } = await supabase
+    .from("contract_reviews")
+    .select("id, contract_id, user_id, score, results, contracts (contract_type)")
+    .eq("id", reviewId)
+    .maybeSingle();
+
+  if (reviewError) {
+    throw reviewError;
+  }
+  if (!review || review.user_id !== userId) {
+    return null;
+  }
+
+  const severities = countReviewSeverities(
+    review.results as Record<string, unknown> | null,
+  );
+  const cached = await isCachedReviewResult(review.results);
+  // The status guard makes completion idempotent: a retried request updates
+  // nothing and never refunds twice.
+  const { data, error } = await supabase
+    .from("review_batch_items")
+    .update({
+      status: "completed",
+      progress: 100,
+      contract_id: review.contract_id,
+      review_id: review.id,
+      compliance_score: review.score ?? null,
+      critical_issues: severities.critical,
+      high_issues: severities.high,
+      contract_type:
+        (review.contracts as { contract_type?: string | null } | null)
+          ?.contract_type ?? existing.contract_type,
+      classification_confidence:
+        classificationConfidence ?? existing.classification_confidence,
+      error: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", itemId)
+    .neq("status", "completed")
+    .select("*")
+    .maybeSingle<ReviewBatchItemRecord>();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return { item: mapItemRow(existing), creditDelta: 0 };
+  }
+
+  await refreshBatchProgress(batchId);
+  const settled = await flipReviewBatchItemCredit(
+    batchId,
+    itemId,
+    !cached,
+    true,
+  );
+  return {
+    item: mapItemRow(data),
+    creditDelta: settled ? (cached ? 1 : -1) : 0,
+  };
+}
+
+export async function cancelReviewBatch(
+  userId: string,
+  batchId: string,
+): Promise<boolean> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("review_batches")
+    .update({ status: "cancelled", completed_at: new Date().toISOString() })
+    .eq("id", batchId)
+    .eq("user_id", userId)
+    .eq("status", "processing")
+    .select("id");
+
+  if (error) {
+    throw error;
+  }
+  if (!(data ?? []).length) {
+    return false;
+  }
+
+  const { error: itemsError } = await supabase
+    .from("review_batch_items")
+    .update({ status: "skipped", error: "Batch cancelled" })
+    .eq("batch_id", batchId)
+    .eq("status", "queued");
+
+  if (itemsError) {
+    throw itemsError;
+  }
+  return true;
+}
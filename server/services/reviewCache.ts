@@ -0,0 +1,76 @@
+import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import { readReviewCacheMarker } from "../../shared/ai/reviewCache";
+
+/**
+ * Registers a saved review as the cached answer for its analysis key. Reviews
+ * that were themselves served from the cache, and fallback reports (which
+ * carry no key), are not recorded. Returns whether an entry was written.
+ */
+export async function recordReviewCacheEntry(
+  reviewId: string,
+): Promise<boolean> {
+  const supabase = getSupabaseAdminClient();
+  const { data: review, error } = await supabase
+    .from("contract_reviews")
+    .select(
+      "id, user_id, organization_id, results, user_profiles (organization_id)",
+    )
+    .eq("id", reviewId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  const marker = readReviewCacheMarker(review?.results);
+  if (!review || !marker || marker.hit) {
+    return false;
+  }
+
+  // Older review rows may lack organization_id; the owner's is equivalent.
+  const owner = review.user_profiles as
+    | { organization_id?: string | null }
+    | null
+    | undefined;
+  const { error: insertError } = await supabase
+    .from("review_cache_entries")
+    .upsert(
+      {
+        cache_key: marker.key,
+        organization_id:
+          review.organization_id ?? owner?.organization_id ?? null,
+        user_id: review.user_id,
+        review_id: review.id,
+      },
+      { onConflict: "review_id", ignoreDuplicates: true },
+    );
+
+  if (insertError) {
+    throw insertError;
+  }
+  return true;
+}
+
+/**
+ * Whether saved review results were served from the cache. The marker is
+ * written by the client, so it only counts when the original review it names
+ * is a live cache entry for the same key.
+ */
+export async function isCachedReviewResult(results: unknown): Promise<boolean> {
+  const marker = readReviewCacheMarker(results);
+  if (!marker?.hit || !marker.reviewId) {
+    return false;
+  }
+
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("review_cache_entries")
+    .select("id")
+    .eq("cache_key", marker.key)
+    .eq("review_id", marker.reviewId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return Boolean(data);
+}
@@ -0,0 +1,444 @@
+import { getSupabaseAdminClient } from "../lib/supabaseAdmin";
+import { RequestAuthError } from "../lib/requestAuth";
+import { assertContractAccess } from "../lib/resourceAccess";
+import { ALERT_EMAIL_FUNCTION, APP_BASE_URL } from "./alertDispatcher";
+import type {
+  CreateReviewCommentRequest,
+  ReviewComment,
+  ReviewCommentAnchorType,
+  ReviewCommentAuthor,
+  ReviewCommentThread,
+  UserAccessContext,
+} from "../../shared/api";
+
+export interface ReviewCommentRecord {
+  id: string;
+  review_id: string;
+  organization_id: string | null;
+  anchor_type: string;
+  anchor_id: string;
+  parent_id: string | null;
+  author_id: string | null;
+  body: string;
+  mentions: string[] | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ProfileRecord {
+  id: string;
+  email: string | null;
+  first_name: string | null;
+  last_name: string | null;
+}
+
+export interface ReviewCommentContext {
+  reviewId: string;
+  ownerId: string;
+  organizationId: string | null;
+  organizationName: string | null;
+  contractTitle: string | null;
+}
+
+export class ReviewCommentError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "ReviewCommentError";
+  }
+}
+
+export const REVIEW_COMMENT_ANCHOR_TYPES: ReviewCommentAnchorType[] = [
+  "issue",
+  "edit",
+  "clause",
+];
+
+const MAX_COMMENT_LENGTH = 5000;
+const MAX_ANCHOR_ID_LENGTH = 200;
+const COMMENT_SELECT =
+  "id, review_id, organization_id, anchor_type, anchor_id, parent_id, author_id, body, mentions, resolved_at, resolved_by, created_at, updated_at";
+
+function toAuthor(profile: ProfileRecord): ReviewCommentAuthor {
+  const name = `${profile.first_name ?? ""} ${profile.last_name ?? ""}`
+    .trim()
+    .replace(/\s+/g, " ");
+  return {
+    id: profile.id,
+    name: name || profile.email || profile.id,
+    email: profile.email ?? null,
+  };
+}
+
+function mapCommentRow(
+  row: ReviewCommentRecord,
+  authors: Map<string, ReviewCommentAuthor>,
+): ReviewComment {
+  return {
+    id: row.id,
+    reviewId: row.review_id,
+    anchorType: row.anchor_type as ReviewCommentAnchorType,
+    anchorId: row.anchor_id,
+    parentId: row.parent_id ?? null,
+    author: (row.author_id && authors.get(row.author_id)) || null,
+    body: row.body,
+    mentions: row.mentions ?? [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Groups comment rows into threads ordered by their opening comment. Replies
+ * whose root is missing are dropped rather than shown out of context.
+ */
+export function buildCommentThreads(
+  rows: ReviewCommentRecord[],
+  authors: Map<string, ReviewCommentAuthor>,
+): ReviewCommentThread[] {
+  const sorted = [...rows].sort((a, b) =>
+    a.created_at.localeCompare(b.created_at),
+  );
+  const threads = new Map<string, ReviewCommentThread>();
+
+  for (const row of sorted) {
+    if (row.parent_id) continue;
+    threads.set(row.id, {
+      id: row.id,
+      anchorType: row.anchor_type as ReviewCommentAnchorType,
+      anchorId: row.anchor_id,
+      root: mapCommentRow(row, authors),
+      replies: [],
+      resolvedAt: row.resolved_at ?? null,
+      resolvedBy: (row.resolved_by && authors.get(row.resolved_by)) || null,
+    });
+  }
+  for (const row of sorted) {
+    if (!row.parent_id) continue;
+    threads.get(row.parent_id)?.replies.push(mapCommentRow(row, authors));
+  }
+
+  return Array.from(threads.values());
+}
+
+/**
+ * Keeps the requested mentions that are members of the review's organization
+ * and whose @name is still in the comment, so editing a mention out of the
+ * text before posting also drops the notification.
+ */
+export function selectMentionedMembers(
+  body: string,
+  requestedIds: string[],
+  members: ReviewCommentAuthor[],
+  authorId: string,
+): ReviewCommentAuthor[] {
+  const requested = new Set(requestedIds);
+  const text = body.toLowerCase();
+  return members.filter(
+    (member) =>
+      requested.has(member.id) &&
+      member.id !== authorId &&
+      text.includes(`@${member.name.toLowerCase()}`),
+  );
+}
+
+/**
+ * Loads the review a comment request targets and checks the caller may see
+ * its contract. Returns null when the review is missing or out of reach.
+ */
+export async function resolveReviewCommentContext(
+  reviewId: string,
+  access: UserAccessContext,
+): Promise<ReviewCommentContext | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data: review, error } = await supabase
+    .from("contract_reviews")
+    .select("id, user_id, contract_id, organization_id, contracts (title)")
+    .eq("id", reviewId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  if (!review) {
+    return null;
+  }
+  try {
+    await assertContractAccess(access, review.contract_id as string, supabase);
+  } catch (accessError) {
+    if (accessError instanceof RequestAuthError) return null;
+    throw accessError;
+  }
+
+  let organizationId = (review.organization_id as string | null) ?? null;
+  if (!organizationId) {
+    const { data: owner, error: ownerError } = await supabase
+      .from("user_profiles")
+      .select("organization_id")
+      .eq("id", review.user_id)
+      .maybeSingle();
+    if (ownerError) {
+      throw ownerError;
+    }
+    organizationId = (owner?.organization_id as string | null) ?? null;
+  }
+
+  let organizationName: string | null = null;
+  if (organizationId) {
+    const { data: organization, error: orgError } = await supabase
+      .from("organizations")
+      .select("name")
+      .eq("id", organizationId)
+      .maybeSingle();
+    if (orgError) {
+      throw orgError;
+    }
+    organizationName = (organization?.name as string | null) ?? null;
+  }
+
+  const contract = review.contracts as
+    | { title?: string | null }
+    | Array<{ title?: string | null }>
+    | null;
+  return {
+    reviewId: review.id,
+    ownerId: review.user_id,
+    organizationId,
+    organizationName,
+    contractTitle:
+      (Array.isArray(contract) ? contract[0]?.title : contract?.title) ?? null,
+  };
+}
+
+/**
+ * People who can be mentioned on a review: the active members of its
+ * organization, or just the owner for reviews outside an organization.
+ */
+export async function listMentionableMembers(
+  context: ReviewCommentContext,
+): Promise<ReviewCommentAuthor[]> {
+  const supabase = getSupabaseAdminClient();
+  const query = supabase
+    .from("user_profiles")
+    .select("id, email, first_name, last_name");
+  const { data, error } = context.organizationId
+    ? await query
+        .eq("organization_id", context.organizationId)
+        .eq("is_active", true)
+    : await query.eq("id", context.ownerId);
+  if (error) {
+    throw error;
+  }
+  return ((data ?? []) as ProfileRecord[])
+    .map(toAuthor)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+async function loadAuthors(
+  ids: Array<string | null>,
+): Promise<Map<string, ReviewCommentAuthor>> {
+  const unique = Array.from(new Set(ids.filter((id): id is string => !!id)));
+  if (!unique.length) {
+    return new Map();
+  }
+  const { data, error } = await getSupabaseAdminClient()
+    .from("user_profiles")
+    .select("id, email, first_name, last_name")
+    .in("id", unique);
+  if (error) {
+    throw error;
+  }
+  return new Map(
+    ((data ?? []) as ProfileRecord[]).map((profile) => [
+      profile.id,
+      toAuthor(profile),
+    ]),
+  );
+}
+
+export async function listReviewCommentThreads(
+  context: ReviewCommentContext,
+): Promise<ReviewCommentThread[]> {
+  const { data, error } = await getSupabaseAdminClient()
+    .from("review_comments")
+    .select(COMMENT_SELECT)
+    .eq("review_id", context.reviewId)
+    .order("created_at", { ascending: true });
+  if (error) {
+    throw error;
+  }
+  const rows = (data ?? []) as ReviewCommentRecord[];
+  const authors = await loadAuthors(
+    rows.flatMap((row) => [row.author_id, row.resolved_by]),
+  );
+  return buildCommentThreads(rows, authors);
+}
+
+async function loadThreadRoot(
+  context: ReviewCommentContext,
+  commentId: string,
+): Promise<ReviewCommentRecord | null> {
+  const supabase = getSupabaseAdminClient();
+  const { data, error } = await supabase
+    .from("review_comments")
+    .select(COMMENT_SELECT)
+    .eq("id", commentId)
+    .eq("review_id", context.reviewId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  const comment = data as ReviewCommentRecord | null;
+  if (!comment?.parent_id) {
+    return comment;
+  }
+  // Replies to a reply join the same thread.
+  return loadThreadRoot(context, comment.parent_id);
+}
+
+async function notifyMentions(
+  context: ReviewCommentContext,
+  author: ReviewCommentAuthor,
+  comment: ReviewCommentRecord,
+  recipients: ReviewCommentAuthor[],
+) {
+  const emails = recipients
+    .map((member) => member.email)
+    .filter((email): email is string => !!email);
+  if (!emails.length) {
+    return;
+  }
+  const { error } = await getSupabaseAdminClient().functions.invoke(
+    ALERT_EMAIL_FUNCTION,
+    {
+      body: {
+        to: emails,
+        alert: {
+          type: "comment_mention",
+          organizationName: context.organizationName,
+          title: `${author.name} mentioned you on ${context.contractTitle ?? "a contract review"}`,
+          summary: comment.body,
+          items: [
+            {
+              label: context.contractTitle ?? "Contract review",
+              detail: `Comment on ${comment.anchor_type} ${comment.anchor_id}`,
+            },
+          ],
+          dashboardUrl: `${APP_BASE_URL}/dashboard`,
+          generatedAt: comment.created_at,
+        },
+      },
+    },
+  );
+  if (error) {
+    throw error;
+  }
+}
+
+export async function createReviewComment(
+  context: ReviewCommentContext,
+  authorId: string,
+  input: CreateReviewCommentRequest,
+): Promise<ReviewComment> {
+  const body = typeof input.body === "string" ? input.body.trim() : "";
+  if (!body || body.length > MAX_COMMENT_LENGTH) {
+    throw new ReviewCommentError(
+      `Comment must be between 1 and ${MAX_COMMENT_LENGTH} characters`,
+      400,
+    );
+  }
+
+  let anchorType = input.anchorType;
+  let anchorId =
+    typeof input.anchorId === "string" ? input.anchorId.trim() : "";
+  let parentId: string | null = null;
+  if (input.parentId) {
+    const root = await loadThreadRoot(context, input.parentId);
+    if (!root) {
+      throw new ReviewCommentError("Thread not found", 404);
+    }
+    parentId = root.id;
+    anchorType = root.anchor_type as ReviewCommentAnchorType;
+    anchorId = root.anchor_id;
+  } else if (
+    !REVIEW_COMMENT_ANCHOR_TYPES.includes(anchorType) ||
+    !anchorId ||
+    anchorId.length > MAX_ANCHOR_ID_LENGTH
+  ) {
+    throw new ReviewCommentError(
+      "A valid anchorType and anchorId are required",
+      400,
+    );
+  }
+
+  const members = await listMentionableMembers(context);
+  const mentioned = selectMentionedMembers(
+    body,
+    Array.isArray(input.mentions) ? input.mentions : [],
+    members,
+    authorId,
+  );
+
+  const { data, error } = await getSupabaseAdminClient()
+    .from("review_comments")
+    .insert({
+      review_id: context.reviewId,
+      organization_id: context.organizationId,
+      anchor_type: anchorType,
+      anchor_id: anchorId,
+      parent_id: parentId,
+      author_id: authorId,
+      body,
+      mentions: mentioned.map((member) => member.id),
+    })
+    .select(COMMENT_SELECT)
+    .single();
+  if (error) {
+    throw error;
+  }
+  const row = data as ReviewCommentRecord;
+  const authors = await loadAuthors([authorId]);
+  const author = authors.get(authorId);
+
+  if (author && mentioned.length) {
+    try {
+      await notifyMentions(context, author, row, mentioned);
+    } catch (notifyError) {
+      console.warn("[review-comments] Mention notification failed", {
+        commentId: row.id,
+        error: notifyError,
+      });
+    }
+  }
+
+  return mapCommentRow(row, authors);
+}
+
+/**
+ * Resolves or reopens a thread. Returns false when the comment does not open
+ * a thread on this review.
+ */
+export async function setReviewCommentThreadResolved(
+  context: ReviewCommentContext,
+  commentId: string,
+  resolved: boolean,
+  profileId: string,
+): Promise<boolean> {
+  const { data, error } = await getSupabaseAdminClient()
+    .from("review_comments")
+    .update({
+      resolved_at: resolved ? new Date().toISOString() : null,
+      resolved_by: resolved ? profileId : null,
+    })
+    .eq("id", commentId)
+    .eq("review_id", context.reviewId)
+    .is("parent_id", null)
+    .select("id");
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).length > 0;
+}
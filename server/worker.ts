@@ -0,0 +1,74 @@
+import "dotenv/config";
+import { agentJobHandlers } from "./routes/agent";
+import { startJobWorker } from "./services/jobWorker";
+import { startAlertDispatcher } from "./services/alertDispatcher";
+import { startApiReviewRunner } from "./services/apiReviewRunner";
+import { startWebhookDispatcher } from "./services/orgWebhooks";
+import { startRetentionSweeper } from "./services/reportRetention";
+
+function readNumberEnv(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+const worker = startJobWorker({
+  handlers: agentJobHandlers,
+  concurrency: readNumberEnv("JOB_WORKER_CONCURRENCY") ?? 2,
+  pollIntervalMs: readNumberEnv("JOB_WORKER_POLL_INTERVAL_MS"),
+  leaseMs: readNumberEnv("JOB_WORKER_LEASE_MS"),
+  heartbeatMs: readNumberEnv("JOB_WORKER_HEARTBEAT_MS"),
+  reaperIntervalMs: readNumberEnv("JOB_WORKER_REAPER_INTERVAL_MS"),
+});
+
+console.log(`🧵 Maigon job worker running (${worker.workerId})`);
+
+const alertDispatcher =
+  process.env.ALERT_DISPATCHER_DISABLED === "true"
+    ? null
+    : startAlertDispatcher({
+        intervalMs: readNumberEnv("ALERT_DISPATCH_INTERVAL_MS"),
+      });
+
+const apiReviewRunner =
+  process.env.API_REVIEW_RUNNER_DISABLED === "true"
+    ? null
+    : startApiReviewRunner({
+        intervalMs: readNumberEnv("API_REVIEW_RUNNER_INTERVAL_MS"),
+      });
+
+const webhookDispatcher =
+  process.env.WEBHOOK_DISPATCHER_DISABLED === "true"
+    ? null
+    : startWebhookDispatcher({
+        intervalMs: readNumberEnv("WEBHOOK_DISPATCH_INTERVAL_MS"),
+      });
+
+const retentionSweeper =
+  process.env.RETENTION_SWEEPER_DISABLED === "true"
+    ? null
+    : startRetentionSweeper({
+        intervalMs: readNumberEnv("RETENTION_SWEEP_INTERVAL_MS"),
+      });
+
+// Graceful shutdown: finish in-flight jobs; anything cut short is requeued
+// once its lease expires.
+let shuttingDown = false;
+const shutdown = (signal: string) => {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`🛑 Received ${signal}, draining job worker`);
+  Promise.all([
+    worker.stop(),
+    alertDispatcher?.stop(),
+    apiReviewRunner?.stop(),
+    webhookDispatcher?.stop(),
+    retentionSweeper?.stop(),
+  ])
+    .catch((error) => {
+      console.error("Job worker shutdown failed", error);
+    })
+    .finally(() => process.exit(0));
+};
+
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
@@ -0,0 +1,517 @@
+import {
+  checkEvidenceMatch,
+  isMissingEvidenceMarker,
+  normalizeForMatch,
+  type ClauseExtractionLike,
+  type IssueLike,
+} from "./reliability.ts";
+
+/**
+ * A labelled contract in the golden set. `document` is relative to the
+ * repository root; criteria titles are the playbook's critical clause titles.
+ */
+export type GoldenSetCase = {
+  id: string;
+  title?: string;
+  document: string;
+  playbookKey: string;
+  reviewType?: string;
+  expected: {
+    issues: GoldenExpectedIssue[];
+    criteria?: { met?: string[]; missing?: string[] };
+    clauses?: GoldenExpectedClause[];
+  };
+};
+
+/** Matches a reported issue when every keyword appears in its text. */
+export type GoldenExpectedIssue = {
+  id: string;
+  keywords: string[];
+  severity?: string;
+};
+
+export type GoldenExpectedClause = {
+  category?: string;
+  textIncludes: string;
+};
+
+export type GoldenSetReportLike = {
+  generalInformation?: { complianceScore?: number | null } | null;
+  issuesToAddress?: IssueLike[] | null;
+  criteriaMet?: Array<{
+    title?: string | null;
+    evidence?: string | null;
+  }> | null;
+  clauseExtractions?: ClauseExtractionLike[] | null;
+  metadata?: {
+    playbookCoverage?: {
+      coverageScore?: number | null;
+      criticalClauses?: Array<{ title: string; met: boolean }> | null;
+    } | null;
+  } | null;
+};
+
+export const GOLDEN_SET_METRICS = [
+  "issuePrecision",
+  "issueRecall",
+  "criteriaAccuracy",
+  "clauseRecall",
+  "evidenceMatchRate",
+  "playbookCoverage",
+] as const;
+
+export type GoldenSetMetric = (typeof GOLDEN_SET_METRICS)[number];
+
+/** All metrics are 0-1 and higher is better; null when nothing was measured. */
+export type GoldenSetMetrics = Record<GoldenSetMetric, number | null>;
+
+export type GoldenSetCaseDetails = {
+  matchedIssues: string[];
+  missedIssues: string[];
+  unexpectedIssues: string[];
+  criteriaMismatches: Array<{
+    title: string;
+    expected: boolean;
+    reported: boolean | null;
+  }>;
+  missedClauses: string[];
+  unmatchedEvidence: string[];
+  complianceScore: number | null;
+};
+
+export type GoldenSetCaseResult = {
+  caseId: string;
+  title?: string;
+  status: "scored" | "skipped" | "error";
+  reason?: string;
+  metrics?: GoldenSetMetrics;
+  details?: GoldenSetCaseDetails;
+};
+
+export type GoldenSetRun = {
+  generatedAt: string;
+  cases: GoldenSetCaseResult[];
+  summary: GoldenSetMetrics;
+};
+
+export type GoldenSetMetricDelta = {
+  metric: GoldenSetMetric;
+  /** null for the run summary. */
+  caseId: string | null;
+  baseline: number | null;
+  current: number | null;
+  delta: number | null;
+  regression: boolean;
+};
+
+export type GoldenSetDiff = {
+  baselineGeneratedAt: string;
+  deltas: GoldenSetMetricDelta[];
+  regressions: GoldenSetMetricDelta[];
+  newCases: string[];
+  removedCases: string[];
+};
+
+const ratio = (numerator: number, denominator: number): number =>
+  denominator === 0 ? 1 : numerator / denominator;
+
+const round = (value: number | null): number | null =>
+  value === null ? null : Math.round(value * 1000) / 1000;
+
+function issueText(issue: IssueLike): string {
+  return normalizeForMatch(
+    [
+      issue.title,
+      issue.recommendation,
+      issue.rationale,
+      issue.clauseReference?.heading,
+      issue.clauseReference?.excerpt,
+    ]
+      .filter((part): part is string => typeof part === "string")
+      .join(" "),
+  );
+}
+
+function matchIssues(
+  expected: GoldenExpectedIssue[],
+  reported: IssueLike[],
+): { matched: string[]; missed: string[]; unexpected: string[] } {
+  const texts = reported.map(issueText);
+  const used = new Set<number>();
+  const matched: string[] = [];
+  const missed: string[] = [];
+
+  for (const item of expected) {
+    const keywords = item.keywords
+      .map((keyword) => normalizeForMatch(keyword))
+      .filter(Boolean);
+    const index = texts.findIndex(
+      (text, position) =>
+        !used.has(position) &&
+        keywords.length > 0 &&
+        keywords.every((keyword) => text.includes(keyword)),
+    );
+    if (index === -1) {
+      missed.push(item.id);
+    } else {
+      used.add(index);
+      matched.push(item.id);
+    }
+  }
+
+  const unexpected = reported
+    .map((issue, index) => ({ issue, index }))
+    .filter(({ index }) => !used.has(index))
+    .map(({ issue, index }) => issue.title ?? issue.id ?? `issue-${index + 1}`);
+  return { matched, missed, unexpected };
+}
+
+function scoreCriteria(
+  labels: GoldenSetCase["expected"]["criteria"],
+  report: GoldenSetReportLike,
+) {
+  const reported = new Map<string, boolean>();
+  for (const entry of report.metadata?.playbookCoverage?.criticalClauses ??
+    []) {
+    reported.set(normalizeForMatch(entry.title), entry.met);
+  }
+  const expected: Array<{ title: string; met: boolean }> = [
+    ...(labels?.met ?? []).map((title) => ({ title, met: true })),
+    ...(labels?.missing ?? []).map((title) => ({ title, met: false })),
+  ];
+  const mismatches: GoldenSetCaseDetails["criteriaMismatches"] = [];
+  for (const item of expected) {
+    const value = reported.get(normalizeForMatch(item.title));
+    if (value !== item.met) {
+      mismatches.push({
+        title: item.title,
+        expected: item.met,
+        reported: value ?? null,
+      });
+    }
+  }
+  return {
+    accuracy: expected.length
+      ? ratio(expected.length - mismatches.length, expected.length)
+      : null,
+    mismatches,
+  };
+}
+
+function scoreClauses(
+  expected: GoldenExpectedClause[],
+  clauses: ClauseExtractionLike[],
+) {
+  const missed = expected.filter((item) => {
+    const needle = normalizeForMatch(item.textIncludes);
+    return !clauses.some(
+      (clause) =>
+        (!item.category || clause.category === item.category) &&
+        normalizeForMatch(
+          `${clause.title ?? ""} ${clause.originalText ?? ""}`,
+        ).includes(needle),
+    );
+  });
+  return {
+    recall: expected.length
+      ? ratio(expected.length - missed.length, expected.length)
+      : null,
+    missed: missed.map((item) =>
+      item.category
+        ? `${item.category}: ${item.textIncludes}`
+        : item.textIncludes,
+    ),
+  };
+}
+
+function scoreEvidence(report: GoldenSetReportLike, content: string) {
+  const excerpts = [
+    ...(report.issuesToAddress ?? []).map(
+      (issue) => issue.clauseReference?.excerpt,
+    ),
+    ...(report.criteriaMet ?? []).map((criterion) => criterion.evidence),
+  ].filter(
+    (excerpt): excerpt is string =>
+      typeof excerpt === "string" &&
+      excerpt.trim().length > 0 &&
+      !isMissingEvidenceMarker(excerpt),
+  );
+  const unmatched = excerpts.filter(
+    (excerpt) => !checkEvidenceMatch(excerpt, content).matched,
+  );
+  return {
+    rate: excerpts.length
+      ? ratio(excerpts.length - unmatched.length, excerpts.length)
+      : null,
+    unmatched: unmatched.map((excerpt) => excerpt.slice(0, 160)),
+  };
+}
+
+/** Scores one finalised report against its golden-set labels. */
+export function scoreGoldenSetCase(
+  goldenCase: GoldenSetCase,
+  report: GoldenSetReportLike,
+  content: string,
+): GoldenSetCaseResult {
+  const reportedIssues = report.issuesToAddress ?? [];
+  const issues = matchIssues(goldenCase.expected.issues, reportedIssues);
+  const criteria = scoreCriteria(goldenCase.expected.criteria, report);
+  const clauses = scoreClauses(
+    goldenCase.expected.clauses ?? [],
+    report.clauseExtractions ?? [],
+  );
+  const evidence = scoreEvidence(report, content);
+  const coverage = report.metadata?.playbookCoverage?.coverageScore;
+
+  return {
+    caseId: goldenCase.id,
+    title: goldenCase.title,
+    status: "scored",
+    metrics: {
+      issuePrecision: round(
+        ratio(issues.matched.length, reportedIssues.length),
+      ),
+      issueRecall: round(
+        ratio(issues.matched.length, goldenCase.expected.issues.length),
+      ),
+      criteriaAccuracy: round(criteria.accuracy),
+      clauseRecall: round(clauses.recall),
+      evidenceMatchRate: round(evidence.rate),
+      playbookCoverage: typeof coverage === "number" ? round(coverage) : null,
+    },
+    details: {
+      matchedIssues: issues.matched,
+      missedIssues: issues.missed,
+      unexpectedIssues: issues.unexpected,
+      criteriaMismatches: criteria.mismatches,
+      missedClauses: clauses.missed,
+      unmatchedEvidence: evidence.unmatched,
+      complianceScore:
+        typeof report.generalInformation?.complianceScore === "number"
+          ? report.generalInformation.complianceScore
+          : null,
+    },
+  };
+}
+
+/** Averages each metric over the scored cases, ignoring nulls. */
+export function summariseGoldenSetRun(
+  cases: GoldenSetCaseResult[],
+  generatedAt = new Date().toISOString(),
+): GoldenSetRun {
+  const summary = {} as GoldenSetMetrics;
+  for (const metric of GOLDEN_SET_METRICS) {
+    const values = cases
+      .map((result) => result.metrics?.[metric])
+      .filter((value): value is number => typeof value === "number");
+    summary[metric] = values.length
+      ? round(values.reduce((sum, value) => sum + value, 0) / values.length)
+      : null;
+  }
+  return { generatedAt, cases, summary };
+}
+
+function compareMetrics(
+  caseId: string | null,
+  current: GoldenSetMetrics,
+  baseline: GoldenSetMetrics,
+  tolerance: number,
+): GoldenSetMetricDelta[] {
+  return GOLDEN_SET_METRICS.map((metric) => {
+    const before = baseline[metric] ?? null;
+    const after = current[metric] ?? null;
+    const delta =
+      before === null || after === null ? null : round(after - before);
+    return {
+      metric,
+      caseId,
+      baseline: before,
+      current: after,
+      delta,
+      regression:
+        (delta !== null && delta < -tolerance) ||
+        (before !== null && after === null),
+    };
+  });
+}
+
+/**
+ * Compares a run with the stored baseline. A metric regresses when it drops by
+ * more than `tolerance` or stops being measured.
+ */
+export function diffGoldenSetRuns(
+  current: GoldenSetRun,
+  baseline: GoldenSetRun,
+  options: { tolerance?: number } = {},
+): GoldenSetDiff {
+  const tolerance = options.tolerance ?? 0.005;
+  const deltas = compareMetrics(
+    null,
+    current.summary,
+    baseline.summary,
+    tolerance,
+  );
+  const baselineCases = new Map(
+    baseline.cases.map((result) => [result.caseId, result]),
+  );
+  const newCases: string[] = [];
+
+  for (const result of current.cases) {
+    const previous = baselineCases.get(result.caseId);
+    if (!previous) {
+      newCases.push(result.caseId);
+      continue;
+    }
+    if (previous.metrics && result.metrics) {
+      deltas.push(
+        ...compareMetrics(
+          result.caseId,
+          result.metrics,
+          previous.metrics,
+          tolerance,
+        ),
+      );
+    } else if (previous.status === "scored" && result.status !== "scored") {
+      deltas.push(
+        ...GOLDEN_SET_METRICS.map((metric) => ({
+          metric,
+          caseId: result.caseId,
+          baseline: previous.metrics?.[metric] ?? null,
+          current: null,
+          delta: null,
+          regression: true,
+        })),
+      );
+    }
+  }
+
+  const currentIds = new Set(current.cases.map((result) => result.caseId));
+  return {
+    baselineGeneratedAt: baseline.generatedAt,
+    deltas,
+    regressions: deltas.filter((delta) => delta.regression),
+    newCases,
+    removedCases: baseline.cases
+      .map((result) => result.caseId)
+      .filter((caseId) => !currentIds.has(caseId)),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const formatMetric = (value: number | null | undefined) =>
+  typeof value === "number" ? value.toFixed(3) : "–";
+
+function formatDelta(delta: GoldenSetMetricDelta | undefined): string {
+  if (!delta || delta.delta === null) return "";
+  const sign = delta.delta > 0 ? "+" : "";
+  const className = delta.regression ? "regression" : "";
+  return ` <span class="${className}">(${sign}${delta.delta.toFixed(3)})</span>`;
+}
+
+/** Self-contained HTML report for a run, with deltas when a diff is given. */
+export function renderGoldenSetHtml(
+  run: GoldenSetRun,
+  diff: GoldenSetDiff | null,
+): string {
+  const deltaFor = (caseId: string | null, metric: GoldenSetMetric) =>
+    diff?.deltas.find(
+      (delta) => delta.caseId === caseId && delta.metric === metric,
+    );
+  const header = GOLDEN_SET_METRICS.map(
+    (metric) => `<th>${escapeHtml(metric)}</th>`,
+  ).join("");
+  const metricCells = (
+    caseId: string | null,
+    metrics: GoldenSetMetrics | undefined,
+  ) =>
+    GOLDEN_SET_METRICS.map(
+      (metric) =>
+        `<td>${formatMetric(metrics?.[metric])}${formatDelta(
+          deltaFor(caseId, metric),
+        )}</td>`,
+    ).join("");
+
+  const caseRows = run.cases
+    .map((result) => {
+      const label = escapeHtml(result.title ?? result.caseId);
+      if (result.status !== "scored") {
+        return `<tr><td>${label}</td><td colspan="${GOLDEN_SET_METRICS.length}">${escapeHtml(
+          `${result.status}: ${result.reason ?? ""}`,
+        )}</td></tr>`;
+      }
+      return `<tr><td>${label}</td>${metricCells(result.caseId, result.metrics)}</tr>`;
+    })
+    .join("\n");
+
+  const detailBlocks = run.cases
+    .filter((result) => result.details)
+    .map((result) => {
+      const details = result.details as GoldenSetCaseDetails;
+      const list = (label: string, items: string[]) =>
+        items.length
+          ? `<p><strong>${label}:</strong> ${items.map(escapeHtml).join("; ")}</p>`
+          : "";
+      return `<section><h3>${escapeHtml(result.title ?? result.caseId)}</h3>
+${list("Missed issues", details.missedIssues)}
+${list("Unexpected issues", details.unexpectedIssues)}
+${list(
+  "Criteria mismatches",
+  details.criteriaMismatches.map(
+    (item) =>
+      `${item.title} (expected ${item.expected ? "met" : "missing"}, got ${
+        item.reported === null
+          ? "not reported"
+          : item.reported
+            ? "met"
+            : "missing"
+      })`,
+  ),
+)}
+${list("Missed clauses", details.missedClauses)}
+${list("Unmatched evidence", details.unmatchedEvidence)}
+</section>`;
+    })
+    .join("\n");
+
+  const baselineNote = diff
+    ? `<p>Compared with baseline from ${escapeHtml(diff.baselineGeneratedAt)}: ${
+        diff.regressions.length
+      } regression(s).</p>`
+    : "<p>No baseline recorded.</p>";
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Golden-set evaluation ${escapeHtml(run.generatedAt)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #d1d5db; padding: 0.35rem 0.6rem; text-align: left; }
+th { background: #f3f4f6; }
+.regression { color: #b91c1c; font-weight: 600; }
+</style>
+</head>
+<body>
+<h1>Golden-set evaluation</h1>
+<p>Generated ${escapeHtml(run.generatedAt)}</p>
+${baselineNote}
+<table>
+<thead><tr><th>Case</th>${header}</tr></thead>
+<tbody>
+<tr><td><strong>Summary</strong></td>${metricCells(null, run.summary)}</tr>
+${caseRows}
+</tbody>
+</table>
+${detailBlocks}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,1373 @@
+import type { AIModelId } from "../api.ts";
+
+// Provider-neutral LLM client used by the edge reasoning engine (Deno) and the
+// Express server (Node). Nothing here reads the environment directly: callers
+// pass an env getter so both runtimes share the same adapters.
+
+export const LLM_PROVIDER_IDS = [
+  "openai",
+  "anthropic",
+  "gemini",
+  "openai_compatible",
+] as const;
+
+export type LlmProviderId = (typeof LLM_PROVIDER_IDS)[number];
+
+export interface LlmMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export type LlmResponseFormat =
+  | { type: "text" }
+  | { type: "json_object" }
+  | {
+      type: "json_schema";
+      name: string;
+      schema: Record<string, unknown>;
+      strict?: boolean;
+    };
+
+export interface LlmRequest {
+  model: string;
+  system: string;
+  messages: LlmMessage[];
+  responseFormat?: LlmResponseFormat;
+  maxOutputTokens?: number | null;
+  /** Only honoured by providers with a reasoning-effort control (OpenAI). */
+  reasoningEffort?: "low" | "medium" | "high";
+  temperature?: number;
+  /** `null` disables the timeout; undefined uses the provider default. */
+  timeoutMs?: number | null;
+  signal?: AbortSignal;
+}
+
+export interface LlmTokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalCostUsd?: number;
+}
+
+export interface LlmResponse {
+  provider: LlmProviderId;
+  model: string;
+  text: string;
+  /**
+   * "incomplete" when the provider stopped early; `incompleteReason` is
+   * normalised to "max_output_tokens" for output-limit stops on every provider.
+   */
+  status: "completed" | "incomplete";
+  incompleteReason?: string;
+  usage?: LlmTokenUsage;
+  requestId?: string | null;
+  raw: unknown;
+}
+
+export interface LlmBackgroundStatus {
+  responseId: string;
+  status: string;
+  reason?: string;
+  /** Present once the background response has completed. */
+  response?: LlmResponse;
+  requestId?: string | null;
+  raw: unknown;
+}
+
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  readonly defaultModel: string;
+  isConfigured(): boolean;
+  generate(request: LlmRequest): Promise<LlmResponse>;
+  /**
+   * Calls `onDelta` with each text fragment as it arrives and resolves with
+   * the assembled response. Providers without token streaming omit it.
+   */
+  stream?(
+    request: LlmRequest,
+    onDelta: (text: string) => void,
+  ): Promise<LlmResponse>;
+  /** Server-side background responses; only OpenAI offers these today. */
+  startBackground?(
+    request: LlmRequest,
+  ): Promise<{ responseId: string; status: string; requestId?: string | null }>;
+  pollBackground?(responseId: string): Promise<LlmBackgroundStatus>;
+}
+
+export class LlmProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: LlmProviderId,
+    readonly status: number | null = null,
+    readonly code: string | null = null,
+  ) {
+    super(message);
+    this.name = "LlmProviderError";
+  }
+
+  get isTimeout(): boolean {
+    return this.code === "timeout";
+  }
+}
+
+export type LlmEnvGetter = (key: string) => string | undefined | null;
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+const DEFAULT_ANTHROPIC_MAX_TOKENS = 8192;
+
+function readEnv(getEnv: LlmEnvGetter, key: string): string | null {
+  const value = getEnv(key);
+  return typeof value === "string" && value.trim().length > 0
+    ? value.trim()
+    : null;
+}
+
+function parseProviderId(value: string | null): LlmProviderId | null {
+  if (!value) return null;
+  const normalized = value.trim().toLowerCase().replace(/-/g, "_");
+  if (normalized === "local" || normalized === "openai_compatible") {
+    return "openai_compatible";
+  }
+  if (normalized === "google") return "gemini";
+  return (LLM_PROVIDER_IDS as readonly string[]).includes(normalized)
+    ? (normalized as LlmProviderId)
+    : null;
+}
+
+async function fetchWithTimeout(
+  provider: LlmProviderId,
+  url: string,
+  init: RequestInit,
+  timeoutMs: number | null | undefined,
+  signal?: AbortSignal,
+): Promise<Response> {
+  const resolvedTimeout =
+    timeoutMs === null ? null : (timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const controller = new AbortController();
+  const timer =
+    resolvedTimeout && resolvedTimeout > 0
+      ? setTimeout(() => controller.abort(), resolvedTimeout)
+      : null;
+  const onAbort = () => controller.abort();
+  if (signal) {
+    if (signal.aborted) controller.abort();
+    else signal.addEventListener("abort", onAbort, { once: true });
+  }
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new LlmProviderError(
+        `${provider} request aborted after ${resolvedTimeout ?? "?"}ms`,
+        provider,
+        504,
+        "timeout",
+      );
+    }
+    throw new LlmProviderError(
+      `${provider} request failed: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      provider,
+    );
+  } finally {
+    if (timer) clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+async function readJsonOrThrow(
+  provider: LlmProviderId,
+  model: string,
+  response: Response,
+): Promise<any> {
+  const bodyText = await response.text();
+  let body: any = null;
+  try {
+    body = bodyText ? JSON.parse(bodyText) : null;
+  } catch {
+    body = null;
+  }
+  if (!response.ok) {
+    const errorDetail = body?.error;
+    const message =
+      (typeof errorDetail?.message === "string" && errorDetail.message) ||
+      bodyText.slice(0, 400) ||
+      response.statusText;
+    throw new LlmProviderError(
+      `${provider} request failed (${model}): ${response.status} ${message}`,
+      provider,
+      response.status,
+      (typeof errorDetail?.code === "string" && errorDetail.code) ||
+        (typeof errorDetail?.type === "string" && errorDetail.type) ||
+        (typeof errorDetail?.status === "string" && errorDetail.status) ||
+        null,
+    );
+  }
+  return body;
+}
+
+export interface SseEvent {
+  event: string | null;
+  data: string;
+}
+
+/**
+ * Incremental Server-Sent Events parser. Feed it decoded chunks in arrival
+ * order; it calls `onEvent` once per complete event (blank-line terminated).
+ */
+export function createSseParser(
+  onEvent: (event: SseEvent) => void,
+): (chunk: string) => void {
+  let buffer = "";
+  let eventName: string | null = null;
+  let dataLines: string[] = [];
+
+  return (chunk) => {
+    buffer += chunk;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const rawLine of lines) {
+      const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+      if (!line) {
+        if (dataLines.length) {
+          onEvent({ event: eventName, data: dataLines.join("\n") });
+        }
+        eventName = null;
+        dataLines = [];
+        continue;
+      }
+      if (line.startsWith(":")) continue;
+      const colon = line.indexOf(":");
+      const field = colon === -1 ? line : line.slice(0, colon);
+      let value = colon === -1 ? "" : line.slice(colon + 1);
+      if (value.startsWith(" ")) value = value.slice(1);
+      if (field === "event") eventName = value;
+      else if (field === "data") dataLines.push(value);
+    }
+  };
+}
+
+async function readSseResponse(
+  provider: LlmProviderId,
+  model: string,
+  response: Response,
+  signal: AbortSignal | undefined,
+  onEvent: (event: SseEvent) => void,
+): Promise<void> {
+  if (!response.ok) {
+    await readJsonOrThrow(provider, model, response);
+  }
+  if (!response.body) {
+    throw new LlmProviderError(
+      `${provider} stream has no body (${model})`,
+      provider,
+    );
+  }
+
+  const reader = response.body.getReader();
+  // fetchWithTimeout stops listening to the signal once headers arrive, so a
+  // cancelled caller has to stop the body read here.
+  const onAbort = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  if (signal?.aborted) onAbort();
+  else signal?.addEventListener("abort", onAbort, { once: true });
+
+  const decoder = new TextDecoder();
+  const parse = createSseParser(onEvent);
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parse(decoder.decode(value, { stream: true }));
+    }
+    parse(`${decoder.decode()}\n\n`);
+  } catch (error) {
+    if (error instanceof LlmProviderError) throw error;
+    throw new LlmProviderError(
+      `${provider} stream failed: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      provider,
+    );
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+
+  if (signal?.aborted) {
+    throw new LlmProviderError(
+      `${provider} stream cancelled`,
+      provider,
+      null,
+      "aborted",
+    );
+  }
+}
+
+async function readChatCompletionStream(
+  provider: LlmProviderId,
+  model: string,
+  response: Response,
+  signal: AbortSignal | undefined,
+  onDelta: (text: string) => void,
+): Promise<LlmResponse> {
+  let text = "";
+  let finishReason: string | null = null;
+  let resolvedModel = model;
+  let usageChunk: unknown = null;
+
+  await readSseResponse(provider, model, response, signal, ({ data }) => {
+    if (data === "[DONE]") return;
+    let chunk: any;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      return;
+    }
+    if (typeof chunk?.model === "string") resolvedModel = chunk.model;
+    if (chunk?.usage) usageChunk = chunk;
+    const choice = chunk?.choices?.[0];
+    const delta = choice?.delta?.content;
+    if (typeof delta === "string" && delta) {
+      text += delta;
+      onDelta(delta);
+    }
+    if (typeof choice?.finish_reason === "string") {
+      finishReason = choice.finish_reason;
+    }
+  });
+
+  if (!text && !finishReason) {
+    throw new LlmProviderError(
+      `${provider} stream ended without content (${model})`,
+      provider,
+    );
+  }
+  const truncated = finishReason === "length";
+  return {
+    provider,
+    model: resolvedModel,
+    text,
+    status: truncated ? "incomplete" : "completed",
+    incompleteReason: truncated ? "max_output_tokens" : undefined,
+    usage: normaliseLlmTokenUsage(usageChunk),
+    requestId: response.headers.get("x-request-id"),
+    raw: { model: resolvedModel, finishReason, usage: usageChunk },
+  };
+}
+
+function toFiniteNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+/**
+ * Maps the usage block of any supported provider to input/output token
+ * counts: OpenAI Responses (`input_tokens`), Chat Completions
+ * (`prompt_tokens`), Anthropic (`input_tokens`) and Gemini (`usageMetadata`).
+ */
+export function normaliseLlmTokenUsage(
+  payload: unknown,
+): LlmTokenUsage | undefined {
+  if (!payload || typeof payload !== "object") return undefined;
+  const record = payload as Record<string, any>;
+
+  const gemini = record.usageMetadata;
+  if (gemini && typeof gemini === "object") {
+    return {
+      inputTokens: toFiniteNumber(gemini.promptTokenCount),
+      outputTokens:
+        toFiniteNumber(gemini.candidatesTokenCount) ??
+        (toFiniteNumber(gemini.totalTokenCount) !== undefined &&
+        toFiniteNumber(gemini.promptTokenCount) !== undefined
+          ? gemini.totalTokenCount - gemini.promptTokenCount
+          : undefined),
+    };
+  }
+
+  const usage = record.usage;
+  if (!usage || typeof usage !== "object") return undefined;
+  return {
+    inputTokens:
+      toFiniteNumber(usage.input_tokens) ?? toFiniteNumber(usage.prompt_tokens),
+    outputTokens:
+      toFiniteNumber(usage.output_tokens) ??
+      toFiniteNumber(usage.completion_tokens),
+    totalCostUsd:
+      toFiniteNumber(usage.total_cost_usd) ??
+      toFiniteNumber(usage.total_cost) ??
+      toFiniteNumber(usage.totalCostUsd),
+  };
+}
+
+function stripJsonFences(text: string): string {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return fenced ? fenced[1] : trimmed;
+}
+
+function schemaInstruction(format: LlmResponseFormat | undefined): string {
+  if (format?.type === "json_schema") {
+    return `Respond with a single JSON object and no other text. It must conform to this JSON Schema:\n${JSON.stringify(format.schema)}`;
+  }
+  if (format?.type === "json_object") {
+    return "Respond with a single JSON object and no other text.";
+  }
+  return "";
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI
+
+export function extractOpenAiResponsesText(payload: any): string {
+  const coerceText = (value: unknown) =>
+    typeof value === "string" && value.trim().length > 0 ? value : null;
+  const coerceJson = (value: unknown) =>
+    value && typeof value === "object" ? JSON.stringify(value) : null;
+
+  if (Array.isArray(payload?.output)) {
+    for (const entry of payload.output) {
+      const entryText =
+        coerceText(entry?.text) ??
+        coerceText(entry?.content) ??
+        coerceJson(entry?.json);
+      if (entryText) return entryText;
+      if (Array.isArray(entry?.content)) {
+        for (const part of entry.content) {
+          const partText =
+            coerceText(part?.text) ??
+            coerceText(part?.content) ??
+            coerceJson(part?.json);
+          if (partText) return partText;
+        }
+      }
+    }
+  }
+
+  if (typeof payload?.choices?.[0]?.message?.content === "string") {
+    return payload.choices[0].message.content;
+  }
+  if (typeof payload?.output_text === "string") {
+    return payload.output_text;
+  }
+  if (Array.isArray(payload?.output_text)) {
+    return coerceText(payload.output_text[0]) ?? "";
+  }
+  return "";
+}
+
+function buildResponsesInput(system: string, messages: LlmMessage[]) {
+  return [
+    { role: "system", content: [{ type: "input_text", text: system }] },
+    ...messages.map((message) => ({
+      role: message.role,
+      content: [
+        {
+          type: message.role === "assistant" ? "output_text" : "input_text",
+          text: message.content,
+        },
+      ],
+    })),
+  ];
+}
+
+function readResponsesIncompleteReason(payload: any): string | undefined {
+  const details =
+    payload?.status_details ??
+    payload?.incomplete_details ??
+    payload?.last_error;
+  return details &&
+    typeof details === "object" &&
+    typeof details.reason === "string"
+    ? details.reason
+    : undefined;
+}
+
+function readResponsesPayload(
+  provider: LlmProviderId,
+  model: string,
+  payload: any,
+  requestId: string | null,
+): LlmResponse {
+  const status =
+    typeof payload?.status === "string" ? payload.status : "completed";
+  if (status === "failed" || status === "cancelled") {
+    throw new LlmProviderError(
+      `${provider} response ${status} (${model}): ${JSON.stringify(
+        payload?.error ?? payload?.last_error ?? null,
+      )}`,
+      provider,
+      null,
+      status,
+    );
+  }
+  return {
+    provider,
+    model: typeof payload?.model === "string" ? payload.model : model,
+    text: extractOpenAiResponsesText(payload),
+    status: status === "completed" ? "completed" : "incomplete",
+    incompleteReason:
+      status === "completed"
+        ? undefined
+        : readResponsesIncompleteReason(payload),
+    usage: normaliseLlmTokenUsage(payload),
+    requestId,
+    raw: payload,
+  };
+}
+
+function readChatCompletionPayload(
+  provider: LlmProviderId,
+  model: string,
+  payload: any,
+  requestId: string | null,
+): LlmResponse {
+  const choice = payload?.choices?.[0];
+  const content = choice?.message?.content;
+  if (typeof content !== "string") {
+    throw new LlmProviderError(
+      `${provider} response missing content (${model})`,
+      provider,
+    );
+  }
+  const truncated = choice?.finish_reason === "length";
+  return {
+    provider,
+    model: typeof payload?.model === "string" ? payload.model : model,
+    text: content,
+    status: truncated ? "incomplete" : "completed",
+    incompleteReason: truncated ? "max_output_tokens" : undefined,
+    usage: normaliseLlmTokenUsage(payload),
+    requestId,
+    raw: payload,
+  };
+}
+
+export function createOpenAiProvider(options: {
+  apiKey: string | null;
+  responsesUrl: string;
+  chatCompletionsUrl: string;
+  defaultModel: string;
+}): LlmProvider {
+  const headers = () => ({
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${options.apiKey}`,
+  });
+
+  // Structured (json_schema) output and reasoning effort live on the
+  // Responses API; plain text and JSON-object calls use Chat Completions.
+  const usesResponsesApi = (request: LlmRequest) =>
+    request.responseFormat?.type === "json_schema" ||
+    request.reasoningEffort !== undefined;
+
+  const buildResponsesBody = (request: LlmRequest) => ({
+    model: request.model,
+    input: buildResponsesInput(request.system, request.messages),
+    ...(request.reasoningEffort
+      ? { reasoning: { effort: request.reasoningEffort } }
+      : {}),
+    ...(request.responseFormat && request.responseFormat.type !== "text"
+      ? {
+          text: {
+            format:
+              request.responseFormat.type === "json_schema"
+                ? request.responseFormat
+                : { type: "json_object" },
+          },
+        }
+      : {}),
+    max_output_tokens: request.maxOutputTokens ?? undefined,
+  });
+
+  const buildChatCompletionsBody = (request: LlmRequest) => {
+    const body: Record<string, unknown> = {
+      model: request.model,
+      messages: [
+        { role: "system", content: request.system },
+        ...request.messages,
+      ],
+    };
+    if (request.responseFormat?.type === "json_object") {
+      body.response_format = { type: "json_object" };
+    }
+    if (request.maxOutputTokens) {
+      body.max_completion_tokens = request.maxOutputTokens;
+    }
+    // GPT-5 models only accept the default temperature.
+    if (
+      request.temperature !== undefined &&
+      !request.model.toLowerCase().includes("gpt-5")
+    ) {
+      body.temperature = request.temperature;
+    }
+    return body;
+  };
+
+  const ensureKey = () => {
+    if (!options.apiKey) {
+      throw new LlmProviderError(
+        "OPENAI_API_KEY is not configured",
+        "openai",
+        null,
+        "missing_api_key",
+      );
+    }
+  };
+
+  return {
+    id: "openai",
+    defaultModel: options.defaultModel,
+    isConfigured: () => Boolean(options.apiKey),
+
+    async generate(request) {
+      ensureKey();
+      if (usesResponsesApi(request)) {
+        const response = await fetchWithTimeout(
+          "openai",
+          options.responsesUrl,
+          {
+            method: "POST",
+            headers: headers(),
+            body: JSON.stringify(buildResponsesBody(request)),
+          },
+          request.timeoutMs,
+          request.signal,
+        );
+        const payload = await readJsonOrThrow(
+          "openai",
+          request.model,
+          response,
+        );
+        return readResponsesPayload(
+          "openai",
+          request.model,
+          payload,
+          response.headers.get("x-request-id"),
+        );
+      }
+
+      const response = await fetchWithTimeout(
+        "openai",
+        options.chatCompletionsUrl,
+        {
+          method: "POST",
+          headers: headers(),
+          body: JSON.stringify(buildChatCompletionsBody(request)),
+        },
+        request.timeoutMs,
+        request.signal,
+      );
+      const payload = await readJsonOrThrow("openai", request.model, response);
+      return readChatCompletionPayload(
+        "openai",
+        request.model,
+        payload,
+        response.headers.get("x-request-id"),
+      );
+    },
+
+    async stream(request, onDelta) {
+      ensureKey();
+      if (usesResponsesApi(request)) {
+        const result = await this.generate(request);
+        onDelta(result.text);
+        return result;
+      }
+      const response = await fetchWithTimeout(
+        "openai",
+        options.chatCompletionsUrl,
+        {
+          method: "POST",
+          headers: headers(),
+          body: JSON.stringify({
+            ...buildChatCompletionsBody(request),
+            stream: true,
+            stream_options: { include_usage: true },
+          }),
+        },
+        request.timeoutMs,
+        request.signal,
+      );
+      return readChatCompletionStream(
+        "openai",
+        request.model,
+        response,
+        request.signal,
+        onDelta,
+      );
+    },
+
+    async startBackground(request) {
+      ensureKey();
+      const response = await fetchWithTimeout(
+        "openai",
+        options.responsesUrl,
+        {
+          method: "POST",
+          headers: headers(),
+          body: JSON.stringify({
+            ...buildResponsesBody(request),
+            background: true,
+          }),
+        },
+        request.timeoutMs,
+        request.signal,
+      );
+      const payload = await readJsonOrThrow("openai", request.model, response);
+      const responseId =
+        typeof payload?.id === "string"
+          ? payload.id
+          : typeof payload?.response_id === "string"
+            ? payload.response_id
+            : null;
+      if (!responseId) {
+        throw new LlmProviderError(
+          "OpenAI response did not include an id for async polling.",
+          "openai",
+        );
+      }
+      return {
+        responseId,
+        status:
+          typeof payload?.status === "string" ? payload.status : "in_progress",
+        requestId: response.headers.get("x-request-id"),
+      };
+    },
+
+    async pollBackground(responseId) {
+      ensureKey();
+      const response = await fetchWithTimeout(
+        "openai",
+        `${options.responsesUrl}/${responseId}`,
+        { headers: { Authorization: `Bearer ${options.apiKey}` } },
+        undefined,
+      );
+      const payload = await readJsonOrThrow("openai", "background", response);
+      const status =
+        typeof payload?.status === "string" ? payload.status : "completed";
+      const requestId = response.headers.get("x-request-id");
+      return {
+        responseId,
+        status,
+        reason:
+          status === "completed"
+            ? undefined
+            : readResponsesIncompleteReason(payload),
+        response:
+          status === "completed"
+            ? readResponsesPayload(
+                "openai",
+                typeof payload?.model === "string" ? payload.model : "unknown",
+                payload,
+                requestId,
+              )
+            : undefined,
+        requestId,
+        raw: payload,
+      };
+    },
+  };
+}
+
+/**
+ * Any server speaking the Chat Completions protocol (vLLM, Ollama, LM Studio,
+ * Mistral's EU platform). Structured output is requested as a JSON object with
+ * the schema in the system prompt, since schema support varies by server.
+ */
+export function createOpenAiCompatibleProvider(options: {
+  apiKey: string | null;
+  baseUrl: string | null;
+  defaultModel: string;
+}): LlmProvider {
+  const post = (request: LlmRequest, extra: Record<string, unknown> = {}) => {
+    if (!options.baseUrl) {
+      throw new LlmProviderError(
+        "LLM_LOCAL_BASE_URL is not configured",
+        "openai_compatible",
+        null,
+        "missing_base_url",
+      );
+    }
+    const instruction = schemaInstruction(request.responseFormat);
+    const body: Record<string, unknown> = {
+      model: request.model,
+      messages: [
+        {
+          role: "system",
+          content: instruction
+            ? `${request.system}\n\n${instruction}`
+            : request.system,
+        },
+        ...request.messages,
+      ],
+      ...extra,
+    };
+    if (request.responseFormat && request.responseFormat.type !== "text") {
+      body.response_format = { type: "json_object" };
+    }
+    if (request.maxOutputTokens) body.max_tokens = request.maxOutputTokens;
+    if (request.temperature !== undefined) {
+      body.temperature = request.temperature;
+    }
+
+    return fetchWithTimeout(
+      "openai_compatible",
+      `${options.baseUrl.replace(/\/$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey
+            ? { Authorization: `Bearer ${options.apiKey}` }
+            : {}),
+        },
+        body: JSON.stringify(body),
+      },
+      request.timeoutMs,
+      request.signal,
+    );
+  };
+
+  return {
+    id: "openai_compatible",
+    defaultModel: options.defaultModel,
+    isConfigured: () => Boolean(options.baseUrl),
+
+    async generate(request) {
+      const response = await post(request);
+      const payload = await readJsonOrThrow(
+        "openai_compatible",
+        request.model,
+        response,
+      );
+      const result = readChatCompletionPayload(
+        "openai_compatible",
+        request.model,
+        payload,
+        response.headers.get("x-request-id"),
+      );
+      return { ...result, text: stripJsonFences(result.text) };
+    },
+
+    async stream(request, onDelta) {
+      // Servers without `stream_options` support ignore it and omit usage.
+      const response = await post(request, {
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+      const result = await readChatCompletionStream(
+        "openai_compatible",
+        request.model,
+        response,
+        request.signal,
+        onDelta,
+      );
+      return { ...result, text: stripJsonFences(result.text) };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Anthropic
+
+export function createAnthropicProvider(options: {
+  apiKey: string | null;
+  messagesUrl: string;
+  defaultModel: string;
+}): LlmProvider {
+  // Structured output is forced through a single tool whose input schema is
+  // the requested JSON schema.
+  const toolNameFor = (format: LlmResponseFormat | undefined) =>
+    format?.type === "json_schema"
+      ? format.name.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 64)
+      : null;
+
+  const post = (request: LlmRequest, extra: Record<string, unknown> = {}) => {
+    if (!options.apiKey) {
+      throw new LlmProviderError(
+        "ANTHROPIC_API_KEY is not configured",
+        "anthropic",
+        null,
+        "missing_api_key",
+      );
+    }
+    const format = request.responseFormat;
+    const toolName = toolNameFor(format);
+    const system =
+      format?.type === "json_object"
+        ? `${request.system}\n\n${schemaInstruction(format)}`
+        : request.system;
+
+    const body: Record<string, unknown> = {
+      model: request.model,
+      max_tokens: request.maxOutputTokens ?? DEFAULT_ANTHROPIC_MAX_TOKENS,
+      system,
+      messages: request.messages.map((message) => ({
+        role: message.role,
+        content: [{ type: "text", text: message.content }],
+      })),
+      ...extra,
+    };
+    if (request.temperature !== undefined) {
+      body.temperature = request.temperature;
+    }
+    if (format?.type === "json_schema" && toolName) {
+      body.tools = [
+        {
+          name: toolName,
+          description: "Return the complete result as the tool input.",
+          input_schema: format.schema,
+        },
+      ];
+      body.tool_choice = { type: "tool", name: toolName };
+    }
+
+    return fetchWithTimeout(
+      "anthropic",
+      options.messagesUrl,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": options.apiKey,
+          "anthropic-version": "2023-06-01",
+        },
+        body: JSON.stringify(body),
+      },
+      request.timeoutMs,
+      request.signal,
+    );
+  };
+
+  return {
+    id: "anthropic",
+    defaultModel: options.defaultModel,
+    isConfigured: () => Boolean(options.apiKey),
+
+    async generate(request) {
+      const format = request.responseFormat;
+      const response = await post(request);
+      const payload = await readJsonOrThrow(
+        "anthropic",
+        request.model,
+        response,
+      );
+      const blocks: any[] = Array.isArray(payload?.content)
+        ? payload.content
+        : [];
+      const toolBlock = blocks.find((block) => block?.type === "tool_use");
+      const text = toolBlock
+        ? JSON.stringify(toolBlock.input ?? {})
+        : blocks
+            .filter((block) => block?.type === "text")
+            .map((block) => String(block.text ?? ""))
+            .join("");
+      const truncated = payload?.stop_reason === "max_tokens";
+
+      return {
+        provider: "anthropic",
+        model:
+          typeof payload?.model === "string" ? payload.model : request.model,
+        text: format && format.type !== "text" ? stripJsonFences(text) : text,
+        status: truncated ? "incomplete" : "completed",
+        incompleteReason: truncated ? "max_output_tokens" : undefined,
+        usage: normaliseLlmTokenUsage(payload),
+        requestId: response.headers.get("request-id"),
+        raw: payload,
+      };
+    },
+
+    async stream(request, onDelta) {
+      const format = request.responseFormat;
+      // Tool input arrives as partial JSON fragments rather than text, so
+      // schema-constrained calls are answered in one piece.
+      if (toolNameFor(format)) {
+        const result = await this.generate(request);
+        onDelta(result.text);
+        return result;
+      }
+
+      const response = await post(request, { stream: true });
+      let text = "";
+      let model = request.model;
+      let stopReason: string | null = null;
+      const usage: { input_tokens?: number; output_tokens?: number } = {};
+
+      await readSseResponse(
+        "anthropic",
+        request.model,
+        response,
+        request.signal,
+        ({ data }) => {
+          let event: any;
+          try {
+            event = JSON.parse(data);
+          } catch {
+            return;
+          }
+          switch (event?.type) {
+            case "message_start":
+              if (typeof event.message?.model === "string") {
+                model = event.message.model;
+              }
+              usage.input_tokens = toFiniteNumber(
+                event.message?.usage?.input_tokens,
+              );
+              break;
+            case "content_block_delta":
+              if (
+                event.delta?.type === "text_delta" &&
+                typeof event.delta.text === "string"
+              ) {
+                text += event.delta.text;
+                onDelta(event.delta.text);
+              }
+              break;
+            case "message_delta":
+              if (typeof event.delta?.stop_reason === "string") {
+                stopReason = event.delta.stop_reason;
+              }
+              usage.output_tokens = toFiniteNumber(event.usage?.output_tokens);
+              break;
+            case "error":
+              throw new LlmProviderError(
+                `anthropic stream failed (${request.model}): ${
+                  event.error?.message ?? "unknown error"
+                }`,
+                "anthropic",
+                null,
+                typeof event.error?.type === "string" ? event.error.type : null,
+              );
+          }
+        },
+      );
+
+      const truncated = stopReason === "max_tokens";
+      return {
+        provider: "anthropic",
+        model,
+        text: format && format.type !== "text" ? stripJsonFences(text) : text,
+        status: truncated ? "incomplete" : "completed",
+        incompleteReason: truncated ? "max_output_tokens" : undefined,
+        usage: normaliseLlmTokenUsage({ usage }),
+        requestId: response.headers.get("request-id"),
+        raw: { model, stopReason, usage },
+      };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Gemini
+
+export function createGeminiProvider(options: {
+  apiKey: string | null;
+  baseUrl: string;
+  defaultModel: string;
+}): LlmProvider {
+  return {
+    id: "gemini",
+    defaultModel: options.defaultModel,
+    isConfigured: () => Boolean(options.apiKey),
+
+    async generate(request) {
+      if (!options.apiKey) {
+        throw new LlmProviderError(
+          "GEMINI_API_KEY is not configured",
+          "gemini",
+          null,
+          "missing_api_key",
+        );
+      }
+      const format = request.responseFormat;
+      const generationConfig: Record<string, unknown> = {};
+      if (format && format.type !== "text") {
+        generationConfig.responseMimeType = "application/json";
+      }
+      if (format?.type === "json_schema") {
+        generationConfig.responseJsonSchema = format.schema;
+      }
+      if (request.maxOutputTokens) {
+        generationConfig.maxOutputTokens = request.maxOutputTokens;
+      }
+      if (request.temperature !== undefined) {
+        generationConfig.temperature = request.temperature;
+      }
+
+      const response = await fetchWithTimeout(
+        "gemini",
+        `${options.baseUrl.replace(/\/$/, "")}/models/${encodeURIComponent(
+          request.model,
+        )}:generateContent`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "x-goog-api-key": options.apiKey,
+          },
+          body: JSON.stringify({
+            systemInstruction: { parts: [{ text: request.system }] },
+            contents: request.messages.map((message) => ({
+              role: message.role === "assistant" ? "model" : "user",
+              parts: [{ text: message.content }],
+            })),
+            generationConfig,
+          }),
+        },
+        request.timeoutMs,
+        request.signal,
+      );
+      const payload = await readJsonOrThrow("gemini", request.model, response);
+
+      const blockReason = payload?.promptFeedback?.blockReason;
+      const candidate = payload?.candidates?.[0];
+      const finishReason = candidate?.finishReason;
+      if (
+        blockReason ||
+        finishReason === "SAFETY" ||
+        finishReason === "RECITATION" ||
+        finishReason === "PROHIBITED_CONTENT"
+      ) {
+        throw new LlmProviderError(
+          `gemini response blocked (${request.model}): ${blockReason ?? finishReason}`,
+          "gemini",
+          null,
+          "blocked",
+        );
+      }
+      const parts: any[] = Array.isArray(candidate?.content?.parts)
+        ? candidate.content.parts
+        : [];
+      const text = parts
+        .map((part) => (typeof part?.text === "string" ? part.text : ""))
+        .join("");
+      const truncated = finishReason === "MAX_TOKENS";
+
+      return {
+        provider: "gemini",
+        model:
+          typeof payload?.modelVersion === "string"
+            ? payload.modelVersion
+            : request.model,
+        text: format && format.type !== "text" ? stripJsonFences(text) : text,
+        status: truncated ? "incomplete" : "completed",
+        incompleteReason: truncated ? "max_output_tokens" : undefined,
+        usage: normaliseLlmTokenUsage(payload),
+        requestId: null,
+        raw: payload,
+      };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Configuration, routing and failover
+
+/** A captured response without the provider-specific raw payload. */
+export type LlmRecordedResponse = Pick<
+  LlmResponse,
+  "model" | "text" | "status" | "incompleteReason" | "usage"
+>;
+
+/**
+ * Serves previously captured responses in order instead of calling a model,
+ * so the review pipeline can be replayed with no network access.
+ */
+export function createReplayProvider(recording: {
+  provider: LlmProviderId;
+  responses: LlmRecordedResponse[];
+}): LlmProvider {
+  let cursor = 0;
+  return {
+    id: recording.provider,
+    defaultModel: recording.responses[0]?.model ?? "replay",
+    isConfigured: () => true,
+
+    async generate() {
+      const recorded = recording.responses[cursor];
+      if (!recorded) {
+        throw new LlmProviderError(
+          `Replay exhausted after ${cursor} response(s)`,
+          recording.provider,
+          null,
+          "replay_exhausted",
+        );
+      }
+      cursor += 1;
+      return { ...recorded, provider: recording.provider, raw: null };
+    },
+  };
+}
+
+/** Wraps `inner` so every successful response is appended to `sink`. */
+export function createRecordingProvider(
+  inner: LlmProvider,
+  sink: LlmRecordedResponse[],
+): LlmProvider {
+  return {
+    id: inner.id,
+    defaultModel: inner.defaultModel,
+    isConfigured: () => inner.isConfigured(),
+
+    async generate(request) {
+      const response = await inner.generate(request);
+      sink.push({
+        model: response.model,
+        text: response.text,
+        status: response.status,
+        incompleteReason: response.incompleteReason,
+        usage: response.usage,
+      });
+      return response;
+    },
+  };
+}
+
+export type LlmProviderRegistry = Record<LlmProviderId, LlmProvider>;
+
+/**
+ * Builds every adapter from environment variables. Existing OPENAI_* and
+ * ANTHROPIC_* variables keep their meaning; new ones are GEMINI_API_KEY,
+ * GEMINI_API_BASE, GEMINI_MODEL, ANTHROPIC_MODEL and LLM_LOCAL_BASE_URL /
+ * LLM_LOCAL_API_KEY / LLM_LOCAL_MODEL for the OpenAI-compatible endpoint.
+ */
+export function createLlmProviderRegistry(
+  getEnv: LlmEnvGetter,
+): LlmProviderRegistry {
+  const chatCompletionsUrl =
+    readEnv(getEnv, "OPENAI_API_BASE") ??
+    "https://api.openai.com/v1/chat/completions";
+  return {
+    openai: createOpenAiProvider({
+      apiKey: readEnv(getEnv, "OPENAI_API_KEY"),
+      responsesUrl:
+        readEnv(getEnv, "OPENAI_RESPONSES_API_BASE") ??
+        "https://api.openai.com/v1/responses",
+      chatCompletionsUrl,
+      defaultModel: readEnv(getEnv, "OPENAI_MODEL") ?? "gpt-5",
+    }),
+    anthropic: createAnthropicProvider({
+      apiKey: readEnv(getEnv, "ANTHROPIC_API_KEY"),
+      messagesUrl:
+        readEnv(getEnv, "ANTHROPIC_API_BASE") ??
+        "https://api.anthropic.com/v1/messages",
+      defaultModel:
+        readEnv(getEnv, "ANTHROPIC_MODEL") ?? "claude-3-5-sonnet-20241022",
+    }),
+    gemini: createGeminiProvider({
+      apiKey:
+        readEnv(getEnv, "GEMINI_API_KEY") ??
+        readEnv(getEnv, "GOOGLE_AI_API_KEY") ??
+        readEnv(getEnv, "GOOGLE_API_KEY"),
+      baseUrl:
+        readEnv(getEnv, "GEMINI_API_BASE") ??
+        "https://generativelanguage.googleapis.com/v1beta",
+      defaultModel: readEnv(getEnv, "GEMINI_MODEL") ?? "gemini-1.5-pro",
+    }),
+    openai_compatible: createOpenAiCompatibleProvider({
+      apiKey: readEnv(getEnv, "LLM_LOCAL_API_KEY"),
+      baseUrl: readEnv(getEnv, "LLM_LOCAL_BASE_URL"),
+      defaultModel: readEnv(getEnv, "LLM_LOCAL_MODEL") ?? "llama3.1",
+    }),
+  };
+}
+
+export interface LlmRoutingConfig {
+  /** Provider used when the caller does not pin one. */
+  primary: LlmProviderId;
+  /** Providers tried, in order, after the chosen one errors. */
+  failoverOrder: LlmProviderId[];
+}
+
+/**
+ * Reads LLM_PRIMARY_PROVIDER (default "openai") and LLM_FAILOVER_ORDER, a
+ * comma-separated provider list. Failover is off unless the list is set, so
+ * a deployment restricted to EU processing never silently reaches a US
+ * provider.
+ */
+export function readLlmRoutingConfig(getEnv: LlmEnvGetter): LlmRoutingConfig {
+  const primary =
+    parseProviderId(readEnv(getEnv, "LLM_PRIMARY_PROVIDER")) ?? "openai";
+  const failoverOrder = (readEnv(getEnv, "LLM_FAILOVER_ORDER") ?? "")
+    .split(",")
+    .map((entry) => parseProviderId(entry))
+    .filter((entry): entry is LlmProviderId => Boolean(entry));
+  return { primary, failoverOrder: Array.from(new Set(failoverOrder)) };
+}
+
+/**
+ * Provider (and model, when the id names one) for a model picked in the
+ * solution builder. OpenAI ids only choose a model tier, so they route to the
+ * deployment's primary provider rather than pinning OpenAI.
+ */
+export function resolveAiModelRoute(
+  modelId: AIModelId | string | null | undefined,
+): { provider: LlmProviderId; model: string | null } | null {
+  const normalized =
+    typeof modelId === "string" ? modelId.trim().toLowerCase() : "";
+  if (!normalized) return null;
+  if (normalized === "anthropic-claude-3-opus") {
+    return { provider: "anthropic", model: "claude-3-opus-20240229" };
+  }
+  if (normalized.startsWith("anthropic-") || normalized.startsWith("claude")) {
+    return { provider: "anthropic", model: null };
+  }
+  if (normalized.startsWith("google-") || normalized.startsWith("gemini")) {
+    return { provider: "gemini", model: null };
+  }
+  if (normalized === "self-hosted-llm") {
+    return { provider: "openai_compatible", model: null };
+  }
+  return null;
+}
+
+/**
+ * Ordered, configured providers to try: the pinned provider first (or the
+ * primary when nothing is pinned or the pinned one is not configured), then
+ * the failover order.
+ */
+export function resolveLlmProviderChain(
+  registry: LlmProviderRegistry,
+  routing: LlmRoutingConfig,
+  pinned?: LlmProviderId | null,
+): LlmProvider[] {
+  const head =
+    pinned && registry[pinned].isConfigured() ? pinned : routing.primary;
+  const order = [head, ...routing.failoverOrder];
+  const chain = Array.from(new Set(order))
+    .map((id) => registry[id])
+    .filter((provider) => provider.isConfigured());
+  if (!chain.length) {
+    throw new LlmProviderError(
+      `No LLM provider is configured (wanted ${order.join(", ")})`,
+      head,
+      null,
+      "missing_api_key",
+    );
+  }
+  return chain;
+}
+
+/**
+ * Runs `attempt` against each candidate in turn until one succeeds. Every
+ * error moves on to the next candidate; the last error is rethrown.
+ */
+export async function runWithLlmFailover<C, T>(
+  candidates: C[],
+  attempt: (candidate: C) => Promise<T>,
+  onFailover?: (failed: C, next: C, error: unknown) => void,
+): Promise<T> {
+  let lastError: unknown = null;
+  for (let index = 0; index < candidates.length; index += 1) {
+    try {
+      return await attempt(candidates[index]);
+    } catch (error) {
+      lastError = error;
+      const next = candidates[index + 1];
+      if (next) onFailover?.(candidates[index], next, error);
+    }
+  }
+  throw lastError ?? new Error("No LLM provider available");
+}
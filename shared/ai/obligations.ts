@@ -0,0 +1,395 @@
+export type ObligationKind =
+  | "renewal"
+  | "notice"
+  | "termination"
+  | "confidentiality_survival"
+  | "payment"
+  | "action_item";
+
+export type ExtractedObligation = {
+  /** Stable per review so re-extraction does not duplicate register rows. */
+  key: string;
+  kind: ObligationKind;
+  title: string;
+  description: string;
+  /** ISO calendar date (YYYY-MM-DD) when the report pins one down. */
+  dueDate: string | null;
+  /** Human-readable period such as "90 days" when no date can be derived. */
+  period: string | null;
+  owner: string | null;
+  department: string | null;
+  clauseId: string | null;
+  sourceText: string | null;
+};
+
+type ClauseTextLike = {
+  id?: string;
+  clauseId?: string;
+  title?: string;
+  category?: string;
+  originalText?: string;
+  normalizedText?: string;
+  summary?: string;
+  excerpt?: string;
+};
+
+type ActionItemLike = {
+  id?: string;
+  title?: string;
+  description?: string;
+  owner?: string;
+  department?: string;
+  dueDate?: string;
+};
+
+export type ObligationReportLike = {
+  contractSummary?: { contractPeriod?: string | null } | null;
+  clauseExtractions?: ClauseTextLike[] | null;
+  clauseFindings?: ClauseTextLike[] | null;
+  actionItems?: ActionItemLike[] | null;
+};
+
+type DurationUnit = "day" | "week" | "month" | "year";
+
+type Duration = { amount: number; unit: DurationUnit; label: string };
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  fifteen: 15,
+  thirty: 30,
+  forty: 40,
+  "forty-five": 45,
+  sixty: 60,
+  ninety: 90,
+};
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const MONTH_PATTERN = `(${MONTHS.join("|")}|${MONTHS.map((month) => month.slice(0, 3)).join("|")})\\.?`;
+
+const DURATION_PATTERN = new RegExp(
+  `\\b(\\d{1,3}|${Object.keys(NUMBER_WORDS).join("|")})(?:\\s*\\((\\d{1,3})\\))?\\s*(?:calendar\\s+|business\\s+|working\\s+)?(day|week|month|year)s?\\b`,
+  "i",
+);
+
+const KIND_PATTERNS: Record<
+  Exclude<ObligationKind, "action_item">,
+  { clause: RegExp; requires: RegExp }
+> = {
+  renewal: {
+    clause: /renew|term\b|duration|expir/i,
+    requires: /renew/i,
+  },
+  notice: {
+    clause: /renew|term\b|duration|expir/i,
+    requires: /notice[\s\S]{0,80}(prior to|before|in advance of)[\s\S]{0,40}(expir|renew|end of)/i,
+  },
+  termination: {
+    clause: /terminat/i,
+    requires: /notice/i,
+  },
+  confidentiality_survival: {
+    clause: /confidential|non-disclosure/i,
+    requires: /surviv|after (the )?(termination|expir)/i,
+  },
+  payment: {
+    clause: /payment|invoice|fees?\b|remuneration/i,
+    requires: /within|due|days? (of|from|after)|net\s*\d+/i,
+  },
+};
+
+const KIND_TITLES: Record<Exclude<ObligationKind, "action_item">, string> = {
+  renewal: "Renewal date",
+  notice: "Non-renewal notice deadline",
+  termination: "Termination notice window",
+  confidentiality_survival: "Confidentiality obligations end",
+  payment: "Payment deadline",
+};
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function utcDate(year: number, monthIndex: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, monthIndex, day));
+  return date.getUTCMonth() === monthIndex && date.getUTCDate() === day
+    ? date
+    : null;
+}
+
+function monthIndexOf(name: string): number {
+  const normalized = name.toLowerCase().replace(".", "").slice(0, 3);
+  return MONTHS.findIndex((month) => month.startsWith(normalized));
+}
+
+/**
+ * Finds explicit calendar dates in free text, in order of appearance. Numeric
+ * dates are read day-first (31/12/2026).
+ */
+export function findDatesInText(text: string): Date[] {
+  const found: Array<{ index: number; date: Date }> = [];
+  const patterns: Array<[RegExp, (match: RegExpExecArray) => Date | null]> = [
+    [
+      /\b(\d{4})-(\d{2})-(\d{2})\b/g,
+      (m) => utcDate(Number(m[1]), Number(m[2]) - 1, Number(m[3])),
+    ],
+    [
+      new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN},?\\s+(\\d{4})\\b`, "gi"),
+      (m) => utcDate(Number(m[3]), monthIndexOf(m[2]), Number(m[1])),
+    ],
+    [
+      new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, "gi"),
+      (m) => utcDate(Number(m[3]), monthIndexOf(m[1]), Number(m[2])),
+    ],
+    [
+      /\b(\d{1,2})[./](\d{1,2})[./](\d{4})\b/g,
+      (m) => utcDate(Number(m[3]), Number(m[2]) - 1, Number(m[1])),
+    ],
+  ];
+
+  patterns.forEach(([pattern, toDate]) => {
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      const date = toDate(match);
+      if (date) {
+        found.push({ index: match.index, date });
+      }
+    }
+  });
+
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map((entry) => entry.date);
+}
+
+export function findDurationInText(text: string): Duration | null {
+  const match = DURATION_PATTERN.exec(text);
+  if (!match) return null;
+  const amount = match[2]
+    ? Number(match[2])
+    : /^\d+$/.test(match[1])
+      ? Number(match[1])
+      : NUMBER_WORDS[match[1].toLowerCase()];
+  if (!amount) return null;
+  const unit = match[3].toLowerCase() as DurationUnit;
+  return { amount, unit, label: `${amount} ${unit}${amount === 1 ? "" : "s"}` };
+}
+
+function shiftDate(date: Date, duration: Duration, direction: 1 | -1): Date {
+  const shifted = new Date(date.getTime());
+  const amount = duration.amount * direction;
+  if (duration.unit === "day") shifted.setUTCDate(shifted.getUTCDate() + amount);
+  if (duration.unit === "week")
+    shifted.setUTCDate(shifted.getUTCDate() + amount * 7);
+  if (duration.unit === "month")
+    shifted.setUTCMonth(shifted.getUTCMonth() + amount);
+  if (duration.unit === "year")
+    shifted.setUTCFullYear(shifted.getUTCFullYear() + amount);
+  return shifted;
+}
+
+/**
+ * Resolves the contract end date from `contractPeriod`, either as the second
+ * explicit date ("1 January 2025 to 31 December 2026") or as a start date
+ * plus a term ("three (3) years from 1 March 2024").
+ */
+export function resolveContractEndDate(
+  contractPeriod: string | null | undefined,
+): Date | null {
+  if (!contractPeriod) return null;
+  const dates = findDatesInText(contractPeriod);
+  if (dates.length >= 2) {
+    return dates[dates.length - 1];
+  }
+  const duration = findDurationInText(contractPeriod);
+  if (dates.length === 1 && duration) {
+    const end = shiftDate(dates[0], duration, 1);
+    end.setUTCDate(end.getUTCDate() - 1);
+    return end;
+  }
+  if (dates.length === 1 && /until|expir|end|terminat/i.test(contractPeriod)) {
+    return dates[0];
+  }
+  return null;
+}
+
+function clauseText(clause: ClauseTextLike): string {
+  return [clause.originalText, clause.normalizedText, clause.summary, clause.excerpt]
+    .filter((value): value is string => typeof value === "string" && value.trim().length > 0)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function truncate(text: string, length = 280): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function deriveDueDate(
+  kind: Exclude<ObligationKind, "action_item">,
+  text: string,
+  endDate: Date | null,
+  duration: Duration | null,
+): Date | null {
+  if (kind === "renewal") {
+    return findDatesInText(text)[0] ?? endDate;
+  }
+  if (kind === "notice" || kind === "termination") {
+    if (!endDate || !duration) return null;
+    return /prior to|before|in advance of/i.test(text)
+      ? shiftDate(endDate, duration, -1)
+      : null;
+  }
+  if (kind === "confidentiality_survival") {
+    return endDate && duration ? shiftDate(endDate, duration, 1) : null;
+  }
+  return findDatesInText(text)[0] ?? null;
+}
+
+function describe(
+  kind: Exclude<ObligationKind, "action_item">,
+  duration: Duration | null,
+): string {
+  switch (kind) {
+    case "renewal":
+      return "The contract renews or expires on this date.";
+    case "notice":
+      return duration
+        ? `Notice of non-renewal must be given ${duration.label} before expiry.`
+        : "Notice of non-renewal must be given before expiry.";
+    case "termination":
+      return duration
+        ? `Termination requires ${duration.label} notice.`
+        : "Termination requires notice under the contract.";
+    case "confidentiality_survival":
+      return duration
+        ? `Confidentiality obligations survive ${duration.label} after the contract ends.`
+        : "Confidentiality obligations survive the end of the contract.";
+    case "payment":
+      return duration
+        ? `Invoices are payable within ${duration.label}.`
+        : "Payment is due under the contract terms.";
+  }
+}
+
+/**
+ * Turns a structured review into register rows for the dates a contract owner
+ * has to act on. Only facts the report states are used; when a date cannot be
+ * derived the obligation is kept with its period so it still shows up in the
+ * register.
+ */
+export function extractObligations(
+  report: ObligationReportLike | null | undefined,
+): ExtractedObligation[] {
+  if (!report) return [];
+
+  const contractPeriod = report.contractSummary?.contractPeriod ?? null;
+  const endDate = resolveContractEndDate(contractPeriod);
+  const clauses = [
+    ...(report.clauseExtractions ?? []),
+    ...(report.clauseFindings ?? []),
+  ];
+  const obligations: ExtractedObligation[] = [];
+  const seen = new Set<string>();
+
+  const push = (obligation: ExtractedObligation) => {
+    if (seen.has(obligation.key)) return;
+    seen.add(obligation.key);
+    obligations.push(obligation);
+  };
+
+  (Object.keys(KIND_PATTERNS) as Array<keyof typeof KIND_PATTERNS>).forEach(
+    (kind) => {
+      const { clause: clausePattern, requires } = KIND_PATTERNS[kind];
+      // One row per kind: the first clause that states the obligation wins,
+      // findings restating the same clause are ignored. Headings decide the
+      // clause topic when present; body text mentions other topics in passing.
+      const match = clauses.find((clause) => {
+        const heading = `${clause.title ?? ""} ${clause.category ?? ""}`.trim();
+        const text = clauseText(clause);
+        return (
+          clausePattern.test(heading || text) && requires.test(text)
+        );
+      });
+      if (!match) {
+        if (kind === "renewal" && endDate) {
+          push({
+            key: "renewal:contract-period",
+            kind,
+            title: "Contract expiry",
+            description: "The contract term ends on this date.",
+            dueDate: toIsoDate(endDate),
+            period: null,
+            owner: null,
+            department: null,
+            clauseId: null,
+            sourceText: contractPeriod,
+          });
+        }
+        return;
+      }
+
+      const text = clauseText(match);
+      const duration = findDurationInText(text);
+      const dueDate = deriveDueDate(kind, text, endDate, duration);
+      if (!dueDate && !duration && kind !== "renewal") return;
+      if (kind === "renewal" && !dueDate) return;
+
+      push({
+        key: `${kind}:${match.clauseId ?? match.id ?? "contract"}`,
+        kind,
+        title: KIND_TITLES[kind],
+        description: describe(kind, duration),
+        dueDate: dueDate ? toIsoDate(dueDate) : null,
+        period: duration?.label ?? null,
+        owner: null,
+        department: null,
+        clauseId: match.clauseId ?? match.id ?? null,
+        sourceText: truncate(text),
+      });
+    },
+  );
+
+  (report.actionItems ?? []).forEach((item, index) => {
+    if (!item?.dueDate || !item.title) return;
+    const dueDate = findDatesInText(item.dueDate)[0] ?? null;
+    push({
+      key: `action_item:${item.id ?? index}`,
+      kind: "action_item",
+      title: item.title,
+      description: item.description ?? "",
+      dueDate: dueDate ? toIsoDate(dueDate) : null,
+      period: dueDate ? null : item.dueDate,
+      owner: item.owner ?? null,
+      department: item.department ?? null,
+      clauseId: null,
+      sourceText: null,
+    });
+  });
+
+  return obligations;
+}
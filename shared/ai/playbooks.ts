@@ -1,11 +1,10 @@
-export type PlaybookKey =
-  | "data_processing_agreement"
-  | "non_disclosure_agreement"
-  | "privacy_policy_document"
-  | "consultancy_agreement"
-  | "research_development_agreement"
-  | "end_user_license_agreement"
-  | "professional_services_agreement";
+import {
+  applyPlaybookOverrides,
+  type PlaybookOverrideLike,
+} from "./reliability";
+import type { ContractPlaybookKey } from "../contractTypes";
+
+export type PlaybookKey = ContractPlaybookKey;
 
 export interface ContractPlaybook {
   key: PlaybookKey;
@@ -16,6 +15,7 @@ export interface ContractPlaybook {
     title: string;
     mustInclude: string[];
     redFlags: string[];
+    fallbackPositions?: string[];
   }>;
   draftingTone: string;
   negotiationGuidance: string[];
@@ -308,10 +308,120 @@ export const CONTRACT_PLAYBOOKS: Record<PlaybookKey, ContractPlaybook> = {
       "Ensure dependencies on client are documented",
     ],
   }),
+  master_services_agreement: createPlaybook({
+    key: "master_services_agreement",
+    displayName: "Master Services Agreement",
+    description:
+      "Framework terms that govern every statement of work: precedence, change control, service levels, and risk allocation.",
+    regulatoryFocus: [
+      "Outsourcing and subcontracting controls",
+      "Data protection for services personnel and client data",
+    ],
+    clauseAnchors: [
+      "Statements of work and order of precedence",
+      "Change control",
+      "Acceptance",
+      "Service levels",
+      "Limitation of liability",
+      "Termination and transition",
+    ],
+    criticalClauses: [
+      {
+        title: "Order of precedence",
+        mustInclude: [
+          "Ranking between MSA, SOWs, and order forms",
+          "Core protections a SOW cannot override",
+        ],
+        redFlags: ["SOW terms silently prevail over the MSA"],
+      },
+      {
+        title: "Change control",
+        mustInclude: ["Written change order signed by both parties"],
+        redFlags: ["Unilateral right to change scope or rates"],
+      },
+      {
+        title: "Liability",
+        mustInclude: [
+          "Aggregate cap across all SOWs",
+          "Carve-outs for confidentiality and data breaches",
+        ],
+        redFlags: ["Cap resets per SOW", "Unlimited liability for the customer"],
+      },
+      {
+        title: "Termination and transition",
+        mustInclude: [
+          "Effect of MSA termination on live SOWs",
+          "Exit assistance and data return",
+        ],
+        redFlags: ["No handover obligations on exit"],
+      },
+    ],
+    negotiationGuidance: [
+      "Keep risk allocation in the MSA and commercial detail in SOWs",
+      "Agree an aggregate liability cap rather than per-SOW caps",
+    ],
+  }),
+  saas_subscription_agreement: createPlaybook({
+    key: "saas_subscription_agreement",
+    displayName: "SaaS Subscription Agreement",
+    description:
+      "Hosted software subscriptions: availability, data protection, customer data rights, and renewal terms.",
+    regulatoryFocus: [
+      "GDPR Article 28 where personal data is hosted",
+      "ISO 27001 / SOC 2 assurance",
+      "Consumer and auto-renewal laws",
+    ],
+    clauseAnchors: [
+      "Subscription scope and authorized users",
+      "Service levels and support",
+      "Security and data protection",
+      "Customer data",
+      "Fees, renewal, and price changes",
+      "Suspension and termination",
+    ],
+    criticalClauses: [
+      {
+        title: "Service levels",
+        mustInclude: [
+          "Uptime commitment and measurement",
+          "Service credits or termination for chronic failure",
+        ],
+        redFlags: ["Availability on a reasonable-efforts basis only"],
+      },
+      {
+        title: "Customer data",
+        mustInclude: [
+          "Customer ownership of its data",
+          "Export and deletion on termination",
+        ],
+        redFlags: ["Provider may use customer data beyond providing the service"],
+      },
+      {
+        title: "Renewal and pricing",
+        mustInclude: ["Renewal notice period", "Cap on price increases"],
+        redFlags: ["Auto-renewal with uncapped price increases"],
+      },
+      {
+        title: "Suspension",
+        mustInclude: ["Notice before suspension", "Suspension limited to the affected use"],
+        redFlags: ["Suspension at provider's discretion without notice"],
+      },
+    ],
+    negotiationGuidance: [
+      "Tie service credits to business-critical availability",
+      "Secure a data export window before deletion",
+    ],
+  }),
 };
 
+/**
+ * Resolves the built-in playbook for a key or display name. When organization
+ * overrides are supplied, those targeting the resolved playbook are layered on
+ * top (see `applyPlaybookOverrides`).
+ */
 export function resolvePlaybook(
   key: PlaybookKey | string | null | undefined,
+  overrides?: PlaybookOverrideLike[] | null,
 ): ContractPlaybook {
   const normalized = (key ?? "").toLowerCase();
   const found =
@@ -322,9 +432,13 @@ export function resolvePlaybook(
       playbook.displayName.toLowerCase() === normalized,
     );
 
-  return (
+  const playbook =
     found ??
     CONTRACT_PLAYBOOKS.non_disclosure_agreement ??
-    Object.values(CONTRACT_PLAYBOOKS)[0]
+    Object.values(CONTRACT_PLAYBOOKS)[0];
+
+  return applyPlaybookOverrides(
+    playbook,
+    overrides?.filter((override) => override.playbookKey === playbook.key),
   );
 }
@@ -0,0 +1,443 @@
+// Reversible redaction of personal data and party names before contract text
+// is sent to an LLM. Detected values are swapped for stable placeholders
+// ("[PARTY_1]", "[EMAIL_2]") recorded in a serialisable map, and the same map
+// restores the originals in whatever the model returns.
+
+export const REDACTION_CATEGORIES = [
+  "party",
+  "person",
+  "email",
+  "phone",
+  "address",
+  "iban",
+  "vat_number",
+  "company_number",
+] as const;
+
+export type RedactionCategory = (typeof REDACTION_CATEGORIES)[number];
+
+export type RedactionEntry = {
+  placeholder: string;
+  category: RedactionCategory;
+  original: string;
+  occurrences: number;
+};
+
+export type RedactionMap = {
+  entries: RedactionEntry[];
+};
+
+export type RedactionSummary = {
+  enabled: boolean;
+  categories: RedactionCategory[];
+  /** Distinct values replaced, keyed by category. */
+  counts: Record<string, number>;
+};
+
+export type RedactionSeed = {
+  parties?: Array<string | null | undefined> | null;
+  people?: Array<string | null | undefined> | null;
+};
+
+const PLACEHOLDER_LABELS: Record<RedactionCategory, string> = {
+  party: "PARTY",
+  person: "PERSON",
+  email: "EMAIL",
+  phone: "PHONE",
+  address: "ADDRESS",
+  iban: "IBAN",
+  vat_number: "VAT_NUMBER",
+  company_number: "COMPANY_NUMBER",
+};
+
+const PLACEHOLDER_PATTERN =
+  /\[(PARTY|PERSON|EMAIL|PHONE|ADDRESS|IBAN|VAT_NUMBER|COMPANY_NUMBER)_(\d+)\]/g;
+
+const isPlaceholder = (value: string) => /^\[[A-Z_]+_\d+\]$/.test(value.trim());
+
+const MIN_SEED_LENGTH = 3;
+
+// Leading words the company-name pattern can pick up at the start of a
+// sentence ("Whereas Acme Ltd", "This Agreement Between Acme Ltd").
+const NAME_STOP_WORDS = new Set([
+  "the",
+  "this",
+  "that",
+  "whereas",
+  "between",
+  "and",
+  "by",
+  "for",
+  "of",
+  "with",
+  "to",
+  "agreement",
+  "party",
+  "parties",
+  "dated",
+  "made",
+]);
+
+type Detector = {
+  category: RedactionCategory;
+  pattern: RegExp;
+  // Capture group holding the value; the rest of the match (a label such as
+  // "VAT No:") is kept as-is.
+  group?: number;
+  accept?: (value: string) => boolean;
+};
+
+const countDigits = (value: string) => value.replace(/\D/g, "").length;
+
+const COMPANY_SUFFIX =
+  "(?:Inc\\.?|Incorporated|LLC|L\\.L\\.C\\.|LLP|Ltd\\.?|Limited|PLC|plc|Corp\\.?|Corporation|GmbH|AG|S\\.A\\.|SA|SAS|SARL|S\\.à r\\.l\\.|B\\.V\\.|BV|N\\.V\\.|NV|A/S|ApS|AB|Oy|S\\.p\\.A\\.|SpA|S\\.r\\.l\\.|Pty Ltd|Pte\\.? Ltd\\.?)";
+
+const STREET_SUFFIX =
+  "(?:Street|St\\.|Road|Rd\\.|Avenue|Ave\\.|Boulevard|Blvd\\.|Lane|Ln\\.|Drive|Dr\\.|Way|Place|Square|Court|Terrace|Close|Crescent|Park|Parkway|Plaza|Highway|Suite)";
+
+// Structured identifiers are replaced before any names so a party name inside
+// an email domain cannot split the address.
+const IDENTIFIER_DETECTORS: Detector[] = [
+  {
+    category: "email",
+    pattern: /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi,
+  },
+  {
+    category: "iban",
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    accept: (value) => countDigits(value) >= 8,
+  },
+  {
+    category: "vat_number",
+    pattern:
+      /\b(?:VAT|USt-?IdNr\.?|TVA|IVA|BTW|MwSt\.?|GST)(?:\s+(?:Reg(?:istration)?\.?|No\.?|Number|ID|Nr\.?))*\s*[:.#]?\s*([A-Z]{2}[ -]?[A-Z0-9][A-Z0-9 .-]{4,16}[A-Z0-9])/gi,
+    group: 1,
+    accept: (value) => countDigits(value) >= 6,
+  },
+  {
+    category: "company_number",
+    pattern:
+      /\b(?:(?:Company|Registration|Registered|Reg\.|Org(?:anisation|anization)?\.?|Tax)(?:[ \t]+(?:ID|No\.?|Number|Nr\.?|#))+|CVR|KvK|HRB|SIREN|CRN|EIN|TIN)[ \t]*[:.]?[ \t]*([A-Z]{0,3}[ -]?\d[\d -]{3,14}\d)/gi,
+    group: 1,
+    accept: (value) => countDigits(value) >= 5,
+  },
+  {
+    category: "phone",
+    pattern: /(?<![\w+])\+\d{1,3}(?:[ .-]?\(?\d{1,4}\)?){2,5}(?![\w])/g,
+    accept: (value) => countDigits(value) >= 8,
+  },
+  {
+    category: "phone",
+    pattern:
+      /\b(?:Tel(?:ephone)?|Phone|Mobile|Fax|Cell)\.?(?:\s+(?:No\.?|Number))?\s*[:.]?\s*(\(?\d[\d ().-]{6,18}\d)/gi,
+    group: 1,
+    accept: (value) => countDigits(value) >= 7,
+  },
+  {
+    category: "phone",
+    pattern: /(?<![\w-])(?:\(\d{3}\) ?|\d{3}[-.])\d{3}[-.]\d{4}(?![\w-])/g,
+  },
+];
+
+const NAME_DETECTORS: Detector[] = [
+  {
+    category: "address",
+    pattern: new RegExp(
+      `\\b\\d{1,5}[A-Za-z]?,?[ \\t]+(?:[A-Z][\\w'.-]*[ \\t]+){1,4}${STREET_SUFFIX}(?![\\w])(?:,?[ \\t]+(?:[A-Z][a-z][\\w'.-]*[ \\t]?){1,3})?(?:,?[ \\t]*(?:[A-Z]{1,2}\\d[A-Z\\d]?\\s?\\d[A-Z]{2}|[A-Z]{2}\\s+\\d{5}(?:-\\d{4})?|\\d{4,5}))?`,
+      "g",
+    ),
+  },
+  {
+    category: "address",
+    pattern:
+      /\b[A-ZÄÖÜÅÆØ][\wäöüßåæø-]*(?:straße|strasse|gasse|weg|platz|gade|vej|gatan|vägen|laan|straat|gracht)\s+\d{1,4}[a-z]?(?:,?\s+\d{4,5}\s+[A-ZÄÖÜÅÆØ][\wäöüßåæø-]+)?/g,
+  },
+  {
+    category: "address",
+    pattern: /\b[A-Z]{1,2}\d[A-Z\d]? \d[A-Z]{2}\b/g,
+  },
+  {
+    category: "party",
+    pattern: new RegExp(
+      `\\b(?:[A-Z][\\w&'-]*[ \\t]+){0,5}[A-Z][\\w&'-]*,?[ \\t]+${COMPANY_SUFFIX}(?![\\w])`,
+      "g",
+    ),
+  },
+  {
+    category: "person",
+    pattern:
+      /\b(?:Mr|Mrs|Ms|Miss|Mx|Dr|Prof)\.?[ \t]+[A-Z][a-z'-]+(?:[ \t]+[A-Z][a-z'-]+){0,2}/g,
+  },
+  {
+    category: "person",
+    pattern:
+      /\b(?:Name|Attn|Attention|Signed by|Signatory|Representative|Contact(?: person)?|By)[ \t]*:[ \t]*([A-Z][a-z'-]+(?:[ \t]+[A-Z]\.)?(?:[ \t]+[A-Z][a-z'-]+){1,2})/g,
+    group: 1,
+  },
+];
+
+// Defined parties: `Acme Holdings ("Supplier")` or `Jane Doe (the "Consultant")`.
+const DEFINED_PARTY_PATTERN =
+  /\b((?:[A-Z][\w&'.-]*[ \t]+){0,5}[A-Z][\w&'.-]*),?[ \t]*\([ \t]*(?:hereinafter[ \t]+(?:referred[ \t]+to[ \t]+as[ \t]+)?|the[ \t]+)?["“'‘]([^"”'’]{1,60})["”'’]/g;
+
+// Defined terms that name a contracting party rather than a concept.
+const PARTY_ROLE_TERMS = new Set([
+  "buyer",
+  "client",
+  "company",
+  "consultant",
+  "contractor",
+  "controller",
+  "customer",
+  "discloser",
+  "disclosing party",
+  "employee",
+  "employer",
+  "landlord",
+  "lessee",
+  "lessor",
+  "licensee",
+  "licensor",
+  "partner",
+  "processor",
+  "provider",
+  "purchaser",
+  "receiving party",
+  "recipient",
+  "seller",
+  "service provider",
+  "supplier",
+  "tenant",
+  "vendor",
+]);
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+function stripLeadingStopWords(value: string): string {
+  const words = value.split(/\s+/);
+  while (words.length > 1 && NAME_STOP_WORDS.has(words[0].toLowerCase())) {
+    words.shift();
+  }
+  return words.join(" ");
+}
+
+function normaliseKey(value: string): string {
+  return value.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+function registerValue(
+  map: RedactionMap,
+  category: RedactionCategory,
+  original: string,
+): RedactionEntry {
+  const key = normaliseKey(original);
+  const existing = map.entries.find(
+    (entry) => normaliseKey(entry.original) === key,
+  );
+  if (existing) return existing;
+
+  const ordinal =
+    map.entries.filter((entry) => entry.category === category).length + 1;
+  const entry: RedactionEntry = {
+    placeholder: `[${PLACEHOLDER_LABELS[category]}_${ordinal}]`,
+    category,
+    original: original.replace(/\s+/g, " ").trim(),
+    occurrences: 0,
+  };
+  map.entries.push(entry);
+  return entry;
+}
+
+function seedValues(
+  map: RedactionMap,
+  category: RedactionCategory,
+  values: RedactionSeed["parties"],
+) {
+  (values ?? []).forEach((value) => {
+    if (typeof value !== "string") return;
+    const trimmed = value.replace(/\s+/g, " ").trim();
+    if (trimmed.length < MIN_SEED_LENGTH || isPlaceholder(trimmed)) return;
+    registerValue(map, category, trimmed);
+  });
+}
+
+/**
+ * Creates an empty map, optionally seeded with names that are known up front
+ * (e.g. `contractSummary.parties` from a previous review) so they are redacted
+ * even where the detectors would miss them.
+ */
+export function createRedactionMap(seed: RedactionSeed = {}): RedactionMap {
+  const map: RedactionMap = { entries: [] };
+  seedValues(map, "party", seed.parties);
+  seedValues(map, "person", seed.people);
+  return map;
+}
+
+/** Names introduced with a defined term, e.g. `Acme Holdings ("Supplier")`. */
+export function detectDefinedParties(text: string): string[] {
+  const parties: string[] = [];
+  for (const match of text.matchAll(DEFINED_PARTY_PATTERN)) {
+    const name = stripLeadingStopWords(match[1].trim());
+    const term = normaliseKey(match[2])
+      .replace(/[^a-z ]/g, "")
+      .trim();
+    const words = name.split(/\s+/);
+    if (
+      name.length < MIN_SEED_LENGTH ||
+      !PARTY_ROLE_TERMS.has(term) ||
+      words.some((word) => NAME_STOP_WORDS.has(word.toLowerCase()))
+    ) {
+      continue;
+    }
+    parties.push(name);
+  }
+  return parties;
+}
+
+function replaceKnownValues(text: string, map: RedactionMap): string {
+  const known = [...map.entries].sort(
+    (a, b) => b.original.length - a.original.length,
+  );
+  let result = text;
+  for (const entry of known) {
+    const pattern = new RegExp(
+      `(?<![\\w])${escapeRegExp(entry.original).replace(/ /g, "\\s+")}(?![\\w])`,
+      "gi",
+    );
+    result = result.replace(pattern, () => {
+      entry.occurrences += 1;
+      return entry.placeholder;
+    });
+  }
+  return result;
+}
+
+function applyDetectors(
+  text: string,
+  map: RedactionMap,
+  detectors: Detector[],
+): string {
+  let result = text;
+  for (const detector of detectors) {
+    result = result.replace(detector.pattern, (match, ...groups) => {
+      const captured =
+        detector.group !== undefined
+          ? (groups[detector.group - 1] as string | undefined)
+          : match;
+      if (!captured) return match;
+      const value =
+        detector.category === "party"
+          ? stripLeadingStopWords(captured.trim())
+          : captured.trim();
+      if (
+        !value ||
+        isPlaceholder(value) ||
+        (detector.accept && !detector.accept(value))
+      ) {
+        return match;
+      }
+      const entry = registerValue(map, detector.category, value);
+      entry.occurrences += 1;
+      const offset = match.lastIndexOf(value);
+      return `${match.slice(0, offset)}${entry.placeholder}${match.slice(offset + value.length)}`;
+    });
+  }
+  return result;
+}
+
+/**
+ * Replaces detected personal data and party names in `text` with
+ * placeholders, adding new values to `map`. Values already in the map are
+ * reused, so the same name gets the same placeholder across every prompt
+ * built from one map.
+ */
+export function redactText(text: string, map: RedactionMap): string {
+  if (!text) return text;
+  let result = applyDetectors(text, map, IDENTIFIER_DETECTORS);
+  result = replaceKnownValues(result, map);
+  result = applyDetectors(result, map, NAME_DETECTORS);
+  // Names discovered above may also occur in forms the detectors skip (a
+  // party name repeated in a heading, say).
+  return replaceKnownValues(result, map);
+}
+
+/** Redacts every string inside `value`, leaving structure and keys intact. */
+export function redactValue<T>(value: T, map: RedactionMap): T {
+  if (typeof value === "string") {
+    return redactText(value, map) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, map)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        redactValue(item, map),
+      ]),
+    ) as T;
+  }
+  return value;
+}
+
+function restoreString(
+  text: string,
+  map: RedactionMap,
+  encode: (original: string) => string,
+): string {
+  if (!text || !map.entries.length) return text;
+  const byPlaceholder = new Map(
+    map.entries.map((entry) => [entry.placeholder, entry.original]),
+  );
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder) => {
+    const original = byPlaceholder.get(placeholder);
+    return original === undefined ? placeholder : encode(original);
+  });
+}
+
+/** Swaps placeholders back to their originals in every string in `value`. */
+export function restoreRedactions<T>(value: T, map: RedactionMap): T {
+  if (typeof value === "string") {
+    return restoreString(value, map, (original) => original) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => restoreRedactions(item, map)) as T;
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        restoreRedactions(item, map),
+      ]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Restores placeholders inside raw JSON model output before it is parsed,
+ * escaping originals so quotes or backslashes in a name keep the JSON valid.
+ */
+export function restoreRedactionsInJson(
+  text: string,
+  map: RedactionMap,
+): string {
+  return restoreString(text, map, (original) =>
+    JSON.stringify(original).slice(1, -1),
+  );
+}
+
+/** Categories and value counts actually replaced, for review metadata. */
+export function summariseRedactions(map: RedactionMap): RedactionSummary {
+  const counts: Record<string, number> = {};
+  map.entries.forEach((entry) => {
+    if (entry.occurrences === 0) return;
+    counts[entry.category] = (counts[entry.category] ?? 0) + 1;
+  });
+  return {
+    enabled: true,
+    categories: REDACTION_CATEGORIES.filter((category) => counts[category]),
+    counts,
+  };
+}
@@ -1,3 +1,8 @@
+import {
+  FOREIGN_STOP_WORDS,
+  legalTermEquivalents,
+} from "../contractLanguage.ts";
+
 export type ClauseLocationLike = {
   page?: number | null;
   paragraph?: number | null;
@@ -48,6 +53,19 @@ export type PlaybookLike = {
   }>;
 };
 
+export type PlaybookOverrideLike = {
+  playbookKey?: string | null;
+  mode?: "extend" | "replace" | null;
+  criticalClauses?: Array<{
+    title: string;
+    mustInclude?: string[];
+    redFlags?: string[];
+    fallbackPositions?: string[];
+  }> | null;
+  clauseAnchors?: string[] | null;
+  negotiationGuidance?: string[] | null;
+};
+
 export type ClauseMatchMethod = "id" | "heading" | "text" | "ngram" | "none";
 
 export type ClauseMatchCandidate = {
@@ -141,6 +159,8 @@ const SHORT_TOKENS = new Set([
   "ci",
 ]);
 
+// English only: tokenizeForMatch adds the English equivalents of legal terms
+// in other contract languages, so those clauses reach these tokens too.
 export const STRUCTURAL_TOKENS = new Set([
   "term",
   "termination",
@@ -452,11 +472,12 @@ export function tokenizeForMatch(value: string): string[] {
     .map((token) => token.trim())
     .filter(Boolean)
     .filter((token) => {
-      if (STOP_TOKENS.has(token)) return false;
+      if (STOP_TOKENS.has(token) || FOREIGN_STOP_WORDS.has(token)) return false;
       if (token.length >= 2) return true;
       if (/^\d+$/.test(token)) return true;
       return SHORT_TOKENS.has(token);
-    });
+    })
+    .flatMap((token) => [token, ...legalTermEquivalents(token)]);
 }
 
 function jaccardSimilarity(a: string[], b: string[]): number {
@@ -740,13 +761,13 @@ export function isMissingEvidenceMarker(value?: string | null): boolean {
   );
 }
 
-const WORD_CHAR_REGEX = /[A-Za-z0-9]/;
+const WORD_CHAR_REGEX = /[\p{L}\p{N}]/u;
 
 const isLowercaseWordStart = (text: string) => {
-  const match = text.match(/[A-Za-z]/);
+  const match = text.match(/\p{L}/u);
   if (!match) return false;
   const char = match[0];
-  return char >= "a" && char <= "z";
+  return char !== char.toUpperCase();
 };
 
 const applyExcerptEllipses = (
@@ -2447,15 +2468,131 @@ function isOptionalAnchor(anchor: string): boolean {
   return /\bif (applicable|relevant)\b/i.test(anchor);
 }
 
+const uniqueByNormalizedText = (values: string[]): string[] => {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  values.forEach((value) => {
+    const trimmed = typeof value === "string" ? value.trim() : "";
+    const key = normalizeForMatch(trimmed);
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+    result.push(trimmed);
+  });
+  return result;
+};
+
+/**
+ * Layers organization playbook overrides on top of a built-in playbook.
+ * "replace" swaps the critical clause list wholesale; "extend" merges clauses
+ * by title, unioning mustInclude / redFlags / fallbackPositions and appending
+ * clauses the built-in playbook does not cover. Anchors and negotiation
+ * guidance are unioned in both modes unless a replace override supplies its own.
+ */
+export function applyPlaybookOverrides<T extends PlaybookLike>(
+  playbook: T,
+  overrides?: PlaybookOverrideLike[] | null,
+): T {
+  if (!overrides?.length) return playbook;
+
+  type CriticalClause = {
+    title: string;
+    mustInclude: string[];
+    redFlags?: string[];
+    fallbackPositions?: string[];
+  };
+  type Mergeable = PlaybookLike & { negotiationGuidance?: string[] };
+
+  let criticalClauses = [
+    ...((playbook.criticalClauses ?? []) as CriticalClause[]),
+  ];
+  let clauseAnchors = [...(playbook.clauseAnchors ?? [])];
+  let negotiationGuidance = [
+    ...((playbook as Mergeable).negotiationGuidance ?? []),
+  ];
+
+  overrides.forEach((override) => {
+    const overrideClauses: CriticalClause[] = (override.criticalClauses ?? [])
+      .filter((clause) => typeof clause?.title === "string" && clause.title.trim())
+      .map((clause) => ({
+        title: clause.title.trim(),
+        mustInclude: uniqueByNormalizedText(clause.mustInclude ?? []),
+        redFlags: uniqueByNormalizedText(clause.redFlags ?? []),
+        fallbackPositions: uniqueByNormalizedText(
+          clause.fallbackPositions ?? [],
+        ),
+      }));
+
+    if (override.mode === "replace") {
+      criticalClauses = overrideClauses;
+      if (override.clauseAnchors?.length) {
+        clauseAnchors = uniqueByNormalizedText(override.clauseAnchors);
+      }
+      if (override.negotiationGuidance?.length) {
+        negotiationGuidance = uniqueByNormalizedText(
+          override.negotiationGuidance,
+        );
+      }
+      return;
+    }
+
+    const indexByTitle = new Map<string, number>();
+    criticalClauses.forEach((clause, index) => {
+      indexByTitle.set(normalizeForMatch(clause.title), index);
+    });
+    overrideClauses.forEach((clause) => {
+      const key = normalizeForMatch(clause.title);
+      const existingIndex = indexByTitle.get(key);
+      if (existingIndex === undefined) {
+        indexByTitle.set(key, criticalClauses.length);
+        criticalClauses.push(clause);
+        return;
+      }
+      const existing = criticalClauses[existingIndex];
+      criticalClauses[existingIndex] = {
+        ...existing,
+        mustInclude: uniqueByNormalizedText([
+          ...(existing.mustInclude ?? []),
+          ...clause.mustInclude,
+        ]),
+        redFlags: uniqueByNormalizedText([
+          ...(existing.redFlags ?? []),
+          ...(clause.redFlags ?? []),
+        ]),
+        fallbackPositions: uniqueByNormalizedText([
+          ...(existing.fallbackPositions ?? []),
+          ...(clause.fallbackPositions ?? []),
+        ]),
+      };
+    });
+    clauseAnchors = uniqueByNormalizedText([
+      ...clauseAnchors,
+      ...(override.clauseAnchors ?? []),
+    ]);
+    negotiationGuidance = uniqueByNormalizedText([
+      ...negotiationGuidance,
+      ...(override.negotiationGuidance ?? []),
+    ]);
+  });
+
+  return {
+    ...playbook,
+    criticalClauses,
+    clauseAnchors,
+    ...("negotiationGuidance" in playbook ? { negotiationGuidance } : {}),
+  };
+}
+
 export function evaluatePlaybookCoverageFromContent(
-  playbook: PlaybookLike,
+  basePlaybook: PlaybookLike,
   options: {
     content?: string | null;
     clauses?: ClauseExtractionLike[] | null;
+    overrides?: PlaybookOverrideLike[] | null;
   },
 ): PlaybookCoverageSummary {
   const clauses = options.clauses ?? [];
   const content = options.content ?? "";
+  const playbook = applyPlaybookOverrides(basePlaybook, options.overrides);
 
   const criticalClauses = (playbook.criticalClauses ?? []).map((clause) => {
     const titleMatch = findRequirementMatch(clause.title, clauses, content);
@@ -0,0 +1,138 @@
+/**
+ * Content-addressed keys for reusing a prior review of an identical contract.
+ * Every input that can change the report is folded into the key, so editing a
+ * playbook or custom solution produces a new key and stale entries simply
+ * stop matching.
+ */
+
+// Bump when prompts or report assembly change enough that old reports
+// should no longer be served.
+export const REVIEW_CACHE_VERSION = 2;
+
+export type ReviewCacheKeyInput = {
+  content: string;
+  reviewType: string;
+  contractType?: string | null;
+  solutionKey?: string | null;
+  customSolution?: unknown;
+  perspective?: string | null;
+  playbookOverrides?: unknown;
+  /** Organization scoring profile; the solution's travels in customSolution. */
+  scoringProfile?: unknown;
+  modelTier: string;
+  redacted?: boolean;
+  contractLanguage?: string | null;
+  reportLanguage?: string | null;
+};
+
+/** Attached to analysis responses and persisted with the review results. */
+export type ReviewCacheMarker = {
+  key: string;
+  hit: boolean;
+  reviewId?: string;
+  cachedAt?: string;
+};
+
+/**
+ * Collapses the differences that extraction introduces between two copies of
+ * the same document: Unicode forms, smart quotes, line endings and spacing.
+ */
+export function normaliseReviewText(text: string): string {
+  return text
+    .normalize("NFKC")
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** JSON with sorted object keys, so equal values always hash the same. */
+export function stableStringify(value: unknown): string {
+  if (value === undefined) return "null";
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(",")}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(
+      (key) =>
+        `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`,
+    );
+  return `{${entries.join(",")}}`;
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+const normaliseLabel = (value: string | null | undefined): string | null => {
+  const trimmed = value?.trim().toLowerCase();
+  return trimmed ? trimmed : null;
+};
+
+export async function buildReviewCacheKey(
+  input: ReviewCacheKeyInput,
+): Promise<string> {
+  const hasCustomSolution =
+    input.customSolution !== undefined && input.customSolution !== null;
+  const overrides = Array.isArray(input.playbookOverrides)
+    ? input.playbookOverrides
+    : [];
+
+  return sha256Hex(
+    stableStringify({
+      version: REVIEW_CACHE_VERSION,
+      text: await sha256Hex(normaliseReviewText(input.content)),
+      reviewType: normaliseLabel(input.reviewType),
+      contractType: normaliseLabel(input.contractType),
+      solution: normaliseLabel(input.solutionKey),
+      customSolution: hasCustomSolution
+        ? await sha256Hex(stableStringify(input.customSolution))
+        : null,
+      perspective: normaliseLabel(input.perspective),
+      playbook:
+        overrides.length > 0
+          ? await sha256Hex(stableStringify(overrides))
+          : null,
+      scoring:
+        input.scoringProfile !== undefined && input.scoringProfile !== null
+          ? await sha256Hex(stableStringify(input.scoringProfile))
+          : null,
+      modelTier: input.modelTier,
+      redacted: input.redacted === true,
+      // Left undefined for English so keys cached before language support
+      // still match.
+      language:
+        input.contractLanguage && input.contractLanguage !== "en"
+          ? `${input.contractLanguage}:${input.reportLanguage ?? "bilingual"}`
+          : undefined,
+    }),
+  );
+}
+
+export function readReviewCacheMarker(
+  results: unknown,
+): ReviewCacheMarker | null {
+  if (!results || typeof results !== "object") return null;
+  const marker = (results as { review_cache?: unknown }).review_cache;
+  if (!marker || typeof marker !== "object") return null;
+  const { key, hit, reviewId, cachedAt } = marker as Record<string, unknown>;
+  if (typeof key !== "string" || key.length === 0) return null;
+  return {
+    key,
+    hit: hit === true,
+    reviewId: typeof reviewId === "string" ? reviewId : undefined,
+    cachedAt: typeof cachedAt === "string" ? cachedAt : undefined,
+  };
+}
@@ -179,6 +179,36 @@ export const draftMetadataSchema = z
   })
   .nullable();
 
+export const scoreBreakdownSchema = z.object({
+  score: z.number().optional(),
+  issuePenalty: z.number(),
+  criteriaPenalty: z.number(),
+  coveragePenalty: z.number(),
+  issuesBySeverity: z.record(z.number()).default({}),
+  contributions: z
+    .array(
+      z.object({
+        severity: z.string(),
+        category: z.string().nullable(),
+        count: z.number(),
+        multiplier: z.number(),
+        penalty: z.number(),
+      }),
+    )
+    .default([]),
+  criteriaMissed: z.array(z.string()).default([]),
+  coverageScore: z.number().nullable().optional(),
+  band: z
+    .object({
+      minScore: z.number(),
+      label: z.string(),
+      description: z.string().optional(),
+    })
+    .nullable()
+    .optional(),
+  profileSource: z.enum(["default", "organization", "solution"]).optional(),
+});
+
 /**
  * Report schemas & compatibility helpers
  */
@@ -209,6 +239,21 @@ const baseReportSchema = z.object({
         })
         .optional(),
       critiqueNotes: z.array(z.string()).optional(),
+      redaction: z
+        .object({
+          enabled: z.boolean(),
+          categories: z.array(z.string()),
+          counts: z.record(z.number()),
+        })
+        .optional(),
+      scoreSource: z.string().optional(),
+      scoreBreakdown: scoreBreakdownSchema.optional(),
+      language: z
+        .object({
+          contract: z.string(),
+          report: z.enum(["bilingual", "contract"]),
+        })
+        .optional(),
       playbookCoverage: z
         .object({
           coverageScore: z.number().min(0).max(1).optional(),
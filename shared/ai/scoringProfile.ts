@@ -0,0 +1,405 @@
+export type ScoringSeverity = "critical" | "high" | "medium" | "low" | "info";
+
+export interface ScoreBand {
+  /** Lowest score, inclusive, that falls in this band. */
+  minScore: number;
+  label: string;
+  description?: string;
+}
+
+export interface ScoringProfile {
+  severityWeights: Record<ScoringSeverity, number>;
+  /** Multiplies the severity weight of issues in a category, e.g. liability: 2. */
+  categoryMultipliers: Record<string, number>;
+  issuePenaltyCap: number;
+  /** Points deducted per criterion the report marks as not met. */
+  criteriaMissPenalty: number;
+  criteriaPenaltyCap: number;
+  /** Deducted in full when no playbook clause or anchor is covered. */
+  coveragePenaltyCap: number;
+  /** Ordered from the highest minScore down. */
+  bands: ScoreBand[];
+}
+
+export type ScoringProfileSource = "default" | "organization" | "solution";
+
+export interface ResolvedScoringProfile {
+  profile: ScoringProfile;
+  source: ScoringProfileSource;
+}
+
+export interface ScoreContribution {
+  severity: string;
+  /** Category whose multiplier applied; null for the plain severity weight. */
+  category: string | null;
+  count: number;
+  multiplier: number;
+  penalty: number;
+}
+
+export interface ScoreBreakdown {
+  score: number;
+  issuePenalty: number;
+  criteriaPenalty: number;
+  coveragePenalty: number;
+  issuesBySeverity: Record<string, number>;
+  contributions: ScoreContribution[];
+  criteriaMissed: string[];
+  coverageScore: number | null;
+  band: ScoreBand | null;
+  profileSource: ScoringProfileSource;
+}
+
+export const SCORING_SEVERITIES: ScoringSeverity[] = [
+  "critical",
+  "high",
+  "medium",
+  "low",
+  "info",
+];
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  severityWeights: { critical: 12, high: 7, medium: 4, low: 2, info: 1 },
+  categoryMultipliers: {},
+  issuePenaltyCap: 60,
+  // Missed criteria never lowered the score before profiles existed, so the
+  // default keeps that; organizations opt in by setting both values.
+  criteriaMissPenalty: 0,
+  criteriaPenaltyCap: 0,
+  coveragePenaltyCap: 25,
+  bands: [
+    {
+      minScore: 80,
+      label: "Sign as-is",
+      description: "No material changes needed before signature.",
+    },
+    {
+      minScore: 60,
+      label: "Negotiate",
+      description: "Push back on the flagged clauses before signing.",
+    },
+    {
+      minScore: 0,
+      label: "Escalate",
+      description: "Route to senior legal review before going further.",
+    },
+  ],
+};
+
+const MAX_MULTIPLIER = 10;
+
+/** Lower-cased, underscore-separated key, so "Data Transfer" matches data_transfer. */
+export function normalizeScoringCategory(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/**
+ * Returns the first problem with a stored or submitted scoring profile, or
+ * null when every field present is usable. Omitted fields are fine; they
+ * inherit from the profile underneath.
+ */
+export function validateScoringProfile(input: unknown): string | null {
+  if (!isRecord(input)) {
+    return "Scoring profile must be an object";
+  }
+
+  if (input.severityWeights !== undefined) {
+    if (!isRecord(input.severityWeights)) {
+      return "severityWeights must be an object";
+    }
+    for (const [severity, weight] of Object.entries(input.severityWeights)) {
+      if (!SCORING_SEVERITIES.includes(severity as ScoringSeverity)) {
+        return `Unknown severity "${severity}"`;
+      }
+      if (!isNonNegativeNumber(weight) || weight > 100) {
+        return `Weight for ${severity} must be between 0 and 100`;
+      }
+    }
+  }
+
+  if (input.categoryMultipliers !== undefined) {
+    if (!isRecord(input.categoryMultipliers)) {
+      return "categoryMultipliers must be an object";
+    }
+    for (const [category, multiplier] of Object.entries(
+      input.categoryMultipliers,
+    )) {
+      if (!normalizeScoringCategory(category)) {
+        return "Category names cannot be empty";
+      }
+      if (!isNonNegativeNumber(multiplier) || multiplier > MAX_MULTIPLIER) {
+        return `Multiplier for ${category} must be between 0 and ${MAX_MULTIPLIER}`;
+      }
+    }
+  }
+
+  for (const field of [
+    "issuePenaltyCap",
+    "criteriaMissPenalty",
+    "criteriaPenaltyCap",
+    "coveragePenaltyCap",
+  ] as const) {
+    const value = input[field];
+    if (value !== undefined && (!isNonNegativeNumber(value) || value > 100)) {
+      return `${field} must be between 0 and 100`;
+    }
+  }
+
+  if (input.bands !== undefined) {
+    if (!Array.isArray(input.bands) || input.bands.length === 0) {
+      return "bands must be a non-empty list";
+    }
+    for (const band of input.bands) {
+      if (
+        !isRecord(band) ||
+        typeof band.label !== "string" ||
+        !band.label.trim()
+      ) {
+        return "Every score band needs a label";
+      }
+      if (!isNonNegativeNumber(band.minScore) || band.minScore > 100) {
+        return `Band "${band.label}" needs a minimum score between 0 and 100`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Layers a partial profile over `base`. Invalid fields are dropped rather
+ * than thrown, so a stale stored profile never blocks a review; writes go
+ * through validateScoringProfile first.
+ */
+export function normalizeScoringProfile(
+  input: unknown,
+  base: ScoringProfile = DEFAULT_SCORING_PROFILE,
+): ScoringProfile {
+  if (!isRecord(input)) {
+    return base;
+  }
+
+  const severityWeights = { ...base.severityWeights };
+  if (isRecord(input.severityWeights)) {
+    for (const severity of SCORING_SEVERITIES) {
+      const weight = input.severityWeights[severity];
+      if (isNonNegativeNumber(weight)) {
+        severityWeights[severity] = Math.min(100, weight);
+      }
+    }
+  }
+
+  const categoryMultipliers = { ...base.categoryMultipliers };
+  if (isRecord(input.categoryMultipliers)) {
+    for (const [category, multiplier] of Object.entries(
+      input.categoryMultipliers,
+    )) {
+      const key = normalizeScoringCategory(category);
+      if (key && isNonNegativeNumber(multiplier)) {
+        categoryMultipliers[key] = Math.min(MAX_MULTIPLIER, multiplier);
+      }
+    }
+  }
+
+  const readCap = (field: keyof ScoringProfile, fallback: number) => {
+    const value = input[field];
+    return isNonNegativeNumber(value) ? Math.min(100, value) : fallback;
+  };
+
+  const bands = Array.isArray(input.bands)
+    ? input.bands
+        .filter(
+          (band): band is ScoreBand =>
+            isRecord(band) &&
+            typeof band.label === "string" &&
+            band.label.trim().length > 0 &&
+            isNonNegativeNumber(band.minScore),
+        )
+        .map((band) => ({
+          minScore: Math.min(100, band.minScore),
+          label: band.label.trim(),
+          ...(typeof band.description === "string" && band.description.trim()
+            ? { description: band.description.trim() }
+            : {}),
+        }))
+        .sort((a, b) => b.minScore - a.minScore)
+    : [];
+
+  return {
+    severityWeights,
+    categoryMultipliers,
+    issuePenaltyCap: readCap("issuePenaltyCap", base.issuePenaltyCap),
+    criteriaMissPenalty: readCap(
+      "criteriaMissPenalty",
+      base.criteriaMissPenalty,
+    ),
+    criteriaPenaltyCap: readCap("criteriaPenaltyCap", base.criteriaPenaltyCap),
+    coveragePenaltyCap: readCap("coveragePenaltyCap", base.coveragePenaltyCap),
+    bands: bands.length > 0 ? bands : base.bands,
+  };
+}
+
+/** A solution's profile refines its organization's, which refines the default. */
+export function resolveScoringProfile(layers: {
+  organization?: unknown;
+  solution?: unknown;
+}): ResolvedScoringProfile {
+  const organizationProfile = normalizeScoringProfile(layers.organization);
+  if (isRecord(layers.solution)) {
+    return {
+      profile: normalizeScoringProfile(layers.solution, organizationProfile),
+      source: "solution",
+    };
+  }
+  return {
+    profile: organizationProfile,
+    source: isRecord(layers.organization) ? "organization" : "default",
+  };
+}
+
+export function resolveScoreBand(
+  score: number,
+  bands: ScoreBand[],
+): ScoreBand | null {
+  return (
+    [...bands]
+      .sort((a, b) => b.minScore - a.minScore)
+      .find((band) => score >= band.minScore) ?? null
+  );
+}
+
+export type ScoredIssueLike = {
+  severity?: string | null;
+  category?: string | null;
+  tags?: string[] | null;
+};
+
+export type ScoredCriterionLike = {
+  title: string;
+  met: boolean;
+};
+
+function resolveIssueMultiplier(
+  issue: ScoredIssueLike,
+  multipliers: Record<string, number>,
+): { category: string | null; multiplier: number } {
+  let match: { category: string | null; multiplier: number } = {
+    category: null,
+    multiplier: 1,
+  };
+  for (const candidate of [issue.category, ...(issue.tags ?? [])]) {
+    if (typeof candidate !== "string") continue;
+    const key = normalizeScoringCategory(candidate);
+    const multiplier = multipliers[key];
+    if (
+      multiplier !== undefined &&
+      (match.category === null || multiplier > match.multiplier)
+    ) {
+      match = { category: key, multiplier };
+    }
+  }
+  return match;
+}
+
+/**
+ * Deducts issue, criteria and playbook-coverage penalties from 100. Issues
+ * are grouped by severity and category multiplier; each group costs
+ * weight × multiplier × log2(1 + count), so repeated findings of one kind
+ * weigh less than the same number of distinct problems.
+ */
+export function computeScoreBreakdown(
+  input: {
+    issues: ScoredIssueLike[];
+    criteria?: ScoredCriterionLike[] | null;
+    coverageScore?: number | null;
+  },
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  profileSource: ScoringProfileSource = "default",
+): ScoreBreakdown {
+  const issuesBySeverity: Record<string, number> = {};
+  const groups = new Map<string, ScoreContribution>();
+
+  input.issues.forEach((issue) => {
+    const severity = issue.severity?.toLowerCase() || "medium";
+    issuesBySeverity[severity] = (issuesBySeverity[severity] ?? 0) + 1;
+
+    const { category, multiplier } = resolveIssueMultiplier(
+      issue,
+      profile.categoryMultipliers,
+    );
+    const key = `${severity}:${category ?? ""}`;
+    const group = groups.get(key) ?? {
+      severity,
+      category,
+      count: 0,
+      multiplier,
+      penalty: 0,
+    };
+    group.count += 1;
+    groups.set(key, group);
+  });
+
+  const contributions = Array.from(groups.values()).map((group) => {
+    const weight =
+      profile.severityWeights[group.severity as ScoringSeverity] ??
+      profile.severityWeights.medium;
+    return {
+      ...group,
+      penalty: Number(
+        (weight * group.multiplier * Math.log2(1 + group.count)).toFixed(2),
+      ),
+    };
+  });
+  contributions.sort((a, b) => b.penalty - a.penalty);
+
+  const issuePenalty = Math.min(
+    profile.issuePenaltyCap,
+    Math.round(contributions.reduce((sum, entry) => sum + entry.penalty, 0)),
+  );
+
+  const criteriaMissed = (input.criteria ?? [])
+    .filter((criterion) => !criterion.met)
+    .map((criterion) => criterion.title);
+  const criteriaPenalty = Math.min(
+    profile.criteriaPenaltyCap,
+    Math.round(criteriaMissed.length * profile.criteriaMissPenalty),
+  );
+
+  const coverageScore =
+    typeof input.coverageScore === "number" ? input.coverageScore : null;
+  const coveragePenalty =
+    coverageScore === null
+      ? 0
+      : Math.round((1 - coverageScore) * profile.coveragePenaltyCap);
+
+  const score = Math.max(
+    0,
+    Math.min(
+      100,
+      Math.round(100 - issuePenalty - criteriaPenalty - coveragePenalty),
+    ),
+  );
+
+  return {
+    score,
+    issuePenalty,
+    criteriaPenalty,
+    coveragePenalty,
+    issuesBySeverity,
+    contributions,
+    criteriaMissed,
+    coverageScore,
+    band: resolveScoreBand(score, profile.bands),
+    profileSource,
+  };
+}
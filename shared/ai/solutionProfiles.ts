@@ -0,0 +1,145 @@
+import type { CustomSolution } from "../api.ts";
+
+export type AnalysisDepth = CustomSolution["analysisDepth"];
+export type ReportFormat = CustomSolution["reportFormat"];
+export type ReasoningModelTier = "default" | "premium" | "intensive";
+
+export interface ClauseRetrievalLimits {
+  maxPerAnchor: number;
+  maxTotal: number;
+  excerptLength: number;
+}
+
+export interface AnalysisDepthProfile {
+  label: string;
+  description: string;
+  /** Key into the reasoning engine's MODEL_CATALOG. */
+  modelTier: ReasoningModelTier;
+  /** Whether the second enhancement pass runs after the core report. */
+  runEnhancements: boolean;
+  /** Clause excerpts retrieved for the prompt, per prompt mode. */
+  clauseRetrieval: {
+    full: ClauseRetrievalLimits;
+    compact: ClauseRetrievalLimits;
+  };
+}
+
+export const ANALYSIS_DEPTH_PROFILES: Record<
+  AnalysisDepth,
+  AnalysisDepthProfile
+> = {
+  basic: {
+    label: "Basic",
+    description:
+      "Fast review on the default model with fewer clause excerpts and no enhancement pass.",
+    modelTier: "default",
+    runEnhancements: false,
+    clauseRetrieval: {
+      full: { maxPerAnchor: 1, maxTotal: 8, excerptLength: 240 },
+      compact: { maxPerAnchor: 1, maxTotal: 5, excerptLength: 200 },
+    },
+  },
+  standard: {
+    label: "Standard",
+    description:
+      "Premium model with the usual clause coverage; enhancement sections are derived from the core findings.",
+    modelTier: "premium",
+    runEnhancements: false,
+    clauseRetrieval: {
+      full: { maxPerAnchor: 2, maxTotal: 14, excerptLength: 320 },
+      compact: { maxPerAnchor: 1, maxTotal: 8, excerptLength: 220 },
+    },
+  },
+  comprehensive: {
+    label: "Comprehensive",
+    description:
+      "Most capable model, the widest clause coverage and a dedicated enhancement pass.",
+    modelTier: "intensive",
+    runEnhancements: true,
+    clauseRetrieval: {
+      full: { maxPerAnchor: 3, maxTotal: 22, excerptLength: 420 },
+      compact: { maxPerAnchor: 2, maxTotal: 12, excerptLength: 260 },
+    },
+  },
+};
+
+export interface ReportFormatLayout {
+  label: string;
+  description: string;
+  /** Report sections shown, in layout order; null keeps every enabled one. */
+  sections: string[] | null;
+  /** Replaces the section list with the one-page executive brief. */
+  brief: boolean;
+}
+
+export const REPORT_FORMAT_LAYOUTS: Record<ReportFormat, ReportFormatLayout> = {
+  executive: {
+    label: "Executive brief",
+    description:
+      "One page: score, severity mix, the top issues and next steps.",
+    sections: [],
+    brief: true,
+  },
+  summary: {
+    label: "Summary",
+    description:
+      "Compact report with the overview, contract summary and issues.",
+    sections: ["generalInformation", "contractSummary", "issues"],
+    brief: false,
+  },
+  detailed: {
+    label: "Detailed",
+    description:
+      "Every enabled section, including playbook insights and drafting.",
+    sections: null,
+    brief: false,
+  },
+};
+
+export const BRIEF_ISSUE_LIMIT = 5;
+export const BRIEF_ACTION_LIMIT = 3;
+
+const hasKey = (record: object, key: unknown): key is string =>
+  typeof key === "string" && Object.prototype.hasOwnProperty.call(record, key);
+
+export function resolveAnalysisDepth(value: unknown): AnalysisDepth {
+  return hasKey(ANALYSIS_DEPTH_PROFILES, value)
+    ? (value as AnalysisDepth)
+    : "standard";
+}
+
+export function resolveReportFormat(value: unknown): ReportFormat {
+  return hasKey(REPORT_FORMAT_LAYOUTS, value)
+    ? (value as ReportFormat)
+    : "detailed";
+}
+
+export function resolveAnalysisDepthProfile(
+  value: unknown,
+): AnalysisDepthProfile {
+  return ANALYSIS_DEPTH_PROFILES[resolveAnalysisDepth(value)];
+}
+
+const SEVERITY_RANK: Record<string, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+  info: 4,
+};
+
+/** Most severe issues first, keeping report order within a severity. */
+export function selectTopIssues<T extends { severity?: string | null }>(
+  issues: T[],
+  limit = BRIEF_ISSUE_LIMIT,
+): T[] {
+  return issues
+    .map((issue, index) => ({ issue, index }))
+    .sort(
+      (a, b) =>
+        (SEVERITY_RANK[a.issue.severity ?? ""] ?? 5) -
+          (SEVERITY_RANK[b.issue.severity ?? ""] ?? 5) || a.index - b.index,
+    )
+    .slice(0, limit)
+    .map(({ issue }) => issue);
+}
@@ -0,0 +1,498 @@
+import {
+  normalizeForMatch,
+  resolveClauseMatch,
+  tokenizeForMatch,
+  type ClauseExtractionLike,
+  type IssueLike,
+  type ProposedEditLike,
+} from "./reliability";
+
+export type ClauseChangeType = "added" | "removed" | "modified" | "unchanged";
+
+export type ClauseChange = {
+  changeType: ClauseChangeType;
+  title: string;
+  previousClauseId?: string;
+  currentClauseId?: string;
+  /** Token similarity between the two versions of the clause (0-1). */
+  similarity: number;
+  previousExcerpt?: string;
+  currentExcerpt?: string;
+};
+
+export type IssueDeltaStatus = "resolved" | "new" | "persisting";
+
+export type IssueDelta = {
+  status: IssueDeltaStatus;
+  title: string;
+  severity?: string;
+  previousIssueId?: string;
+  currentIssueId?: string;
+  clauseTitle?: string;
+};
+
+export type ProposedEditOutcomeType = "accepted" | "rejected" | "altered";
+
+export type ProposedEditOutcome = {
+  editId: string;
+  outcome: ProposedEditOutcomeType;
+  clauseId?: string;
+  clauseTitle?: string;
+  intent?: string;
+  proposedText: string;
+  /** Share of the proposed wording found in the revised clause (0-1). */
+  proposedCoverage: number;
+  currentExcerpt?: string;
+  note?: string;
+};
+
+export type VersionComparisonSummary = {
+  clausesAdded: number;
+  clausesRemoved: number;
+  clausesModified: number;
+  clausesUnchanged: number;
+  issuesResolved: number;
+  issuesNew: number;
+  issuesPersisting: number;
+  editsAccepted: number;
+  editsRejected: number;
+  editsAltered: number;
+};
+
+export type VersionComparisonReport = {
+  version: 1;
+  previousContractId?: string | null;
+  previousReviewId?: string | null;
+  previousVersionNumber?: number | null;
+  comparedAt: string;
+  summary: VersionComparisonSummary;
+  clauseChanges: ClauseChange[];
+  issues: IssueDelta[];
+  proposedEdits: ProposedEditOutcome[];
+};
+
+export type VersionReportLike = {
+  clauseExtractions?: ClauseExtractionLike[] | null;
+  issuesToAddress?: IssueLike[] | null;
+  proposedEdits?: ProposedEditLike[] | null;
+};
+
+/** Stored review results are untyped JSON; only well-formed reports compare. */
+export function isVersionReportLike(
+  value: unknown,
+): value is VersionReportLike {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  const report = value as Record<string, unknown>;
+  return [
+    report.clauseExtractions,
+    report.issuesToAddress,
+    report.proposedEdits,
+  ].every((list) => list == null || Array.isArray(list));
+}
+
+const CLAUSE_MATCH_MIN_SIMILARITY = 0.35;
+const CLAUSE_HEADING_MATCH = 0.7;
+const ISSUE_TITLE_MATCH = 0.5;
+const ISSUE_SAME_CLAUSE_MATCH = 0.25;
+const EDIT_ACCEPTED_COVERAGE = 0.85;
+const EDIT_REJECTED_ANCHOR_COVERAGE = 0.9;
+const EXCERPT_LENGTH = 240;
+
+function tokenSimilarity(a: string, b: string): number {
+  const tokensA = new Set(tokenizeForMatch(a));
+  const tokensB = new Set(tokenizeForMatch(b));
+  if (!tokensA.size || !tokensB.size) return 0;
+  let intersection = 0;
+  tokensA.forEach((token) => {
+    if (tokensB.has(token)) intersection += 1;
+  });
+  return intersection / new Set([...tokensA, ...tokensB]).size;
+}
+
+/** Share of `needle` tokens that also occur in `haystack`. */
+function tokenCoverage(needle: string, haystack: string): number {
+  const needleTokens = new Set(tokenizeForMatch(needle));
+  if (!needleTokens.size) return 0;
+  const haystackTokens = new Set(tokenizeForMatch(haystack));
+  let found = 0;
+  needleTokens.forEach((token) => {
+    if (haystackTokens.has(token)) found += 1;
+  });
+  return found / needleTokens.size;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+function excerpt(value?: string | null): string | undefined {
+  const text = (value ?? "").replace(/\s+/g, " ").trim();
+  if (!text) return undefined;
+  return text.length > EXCERPT_LENGTH
+    ? `${text.slice(0, EXCERPT_LENGTH - 1).trimEnd()}…`
+    : text;
+}
+
+function clauseKey(clause: ClauseExtractionLike, index: number): string {
+  return clause.clauseId?.toString() || clause.id?.toString() || `clause-${index + 1}`;
+}
+
+function clauseText(clause: ClauseExtractionLike): string {
+  return clause.originalText ?? clause.normalizedText ?? "";
+}
+
+/**
+ * Splits raw contract text into paragraph-sized pseudo clauses. Used when a
+ * report carries no clause extractions (older reviews, fallback analyses).
+ */
+export function segmentContractText(text: string): ClauseExtractionLike[] {
+  const blocks = (text ?? "")
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter((block) => block.length > 0);
+
+  const segments: string[] = [];
+  blocks.forEach((block) => {
+    const previous = segments[segments.length - 1];
+    // Fold bare headings into the paragraph that follows them.
+    if (previous !== undefined && tokenizeForMatch(previous).length < 6 && !/[.;:]$/.test(previous)) {
+      segments[segments.length - 1] = `${previous}\n${block}`;
+      return;
+    }
+    segments.push(block);
+  });
+
+  return segments.map((segment, index) => {
+    const firstLine = segment.split("\n")[0]?.trim() ?? "";
+    return {
+      clauseId: `segment-${index + 1}`,
+      title: firstLine.length > 80 ? `${firstLine.slice(0, 77).trimEnd()}...` : firstLine,
+      originalText: segment,
+    };
+  });
+}
+
+function resolveClauses(
+  report: VersionReportLike | null | undefined,
+  text: string,
+): ClauseExtractionLike[] {
+  const extracted = (report?.clauseExtractions ?? []).filter(
+    (clause) => clauseText(clause).trim().length > 0,
+  );
+  return extracted.length ? extracted : segmentContractText(text);
+}
+
+type ClausePairing = {
+  changes: ClauseChange[];
+  /** previous clause key -> matched current clause */
+  mapping: Map<string, ClauseExtractionLike>;
+};
+
+function pairClauses(
+  previousClauses: ClauseExtractionLike[],
+  currentClauses: ClauseExtractionLike[],
+): ClausePairing {
+  const remaining = currentClauses.map((clause, index) => ({
+    clause,
+    key: clauseKey(clause, index),
+  }));
+  const mapping = new Map<string, ClauseExtractionLike>();
+  const changes: ClauseChange[] = [];
+
+  previousClauses.forEach((previous, index) => {
+    const previousKey = clauseKey(previous, index);
+    const previousBody = clauseText(previous);
+    const pool = remaining.map((entry) => entry.clause);
+
+    // Clause ids are assigned per extraction run, so match on heading and
+    // wording rather than id.
+    const resolved = resolveClauseMatch({
+      clauseReference: { heading: previous.title ?? null },
+      fallbackText: previousBody,
+      clauses: pool,
+    });
+
+    let matchIndex = resolved.match ? pool.indexOf(resolved.match) : -1;
+    if (
+      matchIndex !== -1 &&
+      !(resolved.method === "heading" && resolved.confidence >= CLAUSE_HEADING_MATCH) &&
+      tokenSimilarity(previousBody, clauseText(pool[matchIndex])) < CLAUSE_MATCH_MIN_SIMILARITY
+    ) {
+      // Weak matches would report a deleted clause as "modified".
+      matchIndex = -1;
+    }
+    if (matchIndex === -1) {
+      // Fall back to the closest wording for clauses whose heading changed.
+      let best = { index: -1, score: 0 };
+      pool.forEach((candidate, candidateIndex) => {
+        const score = tokenSimilarity(previousBody, clauseText(candidate));
+        if (score > best.score) best = { index: candidateIndex, score };
+      });
+      if (best.score >= CLAUSE_MATCH_MIN_SIMILARITY) {
+        matchIndex = best.index;
+      }
+    }
+
+    if (matchIndex === -1) {
+      changes.push({
+        changeType: "removed",
+        title: previous.title ?? previousKey,
+        previousClauseId: previousKey,
+        similarity: 0,
+        previousExcerpt: excerpt(previousBody),
+      });
+      return;
+    }
+
+    const [{ clause: current, key: currentKey }] = remaining.splice(matchIndex, 1);
+    mapping.set(previousKey, current);
+    const currentBody = clauseText(current);
+    const unchanged = normalizeForMatch(previousBody) === normalizeForMatch(currentBody);
+    changes.push({
+      changeType: unchanged ? "unchanged" : "modified",
+      title: current.title ?? previous.title ?? currentKey,
+      previousClauseId: previousKey,
+      currentClauseId: currentKey,
+      similarity: unchanged ? 1 : round(tokenSimilarity(previousBody, currentBody)),
+      previousExcerpt: unchanged ? undefined : excerpt(previousBody),
+      currentExcerpt: excerpt(currentBody),
+    });
+  });
+
+  remaining.forEach(({ clause, key }) => {
+    changes.push({
+      changeType: "added",
+      title: clause.title ?? key,
+      currentClauseId: key,
+      similarity: 0,
+      currentExcerpt: excerpt(clauseText(clause)),
+    });
+  });
+
+  return { changes, mapping };
+}
+
+function locateIssueClause(
+  issue: IssueLike,
+  clauses: ClauseExtractionLike[],
+): ClauseExtractionLike | null {
+  if (!issue.clauseReference) return null;
+  return resolveClauseMatch({
+    clauseReference: issue.clauseReference,
+    clauses,
+  }).match;
+}
+
+function compareIssues(
+  previousIssues: IssueLike[],
+  currentIssues: IssueLike[],
+  previousClauses: ClauseExtractionLike[],
+  currentClauses: ClauseExtractionLike[],
+  mapping: Map<string, ClauseExtractionLike>,
+): IssueDelta[] {
+  const unmatchedCurrent = currentIssues.map((issue) => ({
+    issue,
+    clause: locateIssueClause(issue, currentClauses),
+  }));
+  const deltas: IssueDelta[] = [];
+
+  previousIssues.forEach((previous) => {
+    const previousClause = locateIssueClause(previous, previousClauses);
+    const mappedClause = previousClause
+      ? mapping.get(clauseKey(previousClause, previousClauses.indexOf(previousClause))) ?? null
+      : null;
+    const previousTitle = previous.title ?? "";
+
+    let best = { index: -1, score: 0 };
+    unmatchedCurrent.forEach((candidate, index) => {
+      const score = tokenSimilarity(previousTitle, candidate.issue.title ?? "");
+      const sameClause = Boolean(mappedClause && candidate.clause === mappedClause);
+      const threshold = sameClause ? ISSUE_SAME_CLAUSE_MATCH : ISSUE_TITLE_MATCH;
+      if (score >= threshold && score > best.score) {
+        best = { index, score };
+      }
+    });
+
+    if (best.index === -1) {
+      deltas.push({
+        status: "resolved",
+        title: previous.title ?? "Untitled issue",
+        severity: previous.severity ?? undefined,
+        previousIssueId: previous.id ?? undefined,
+        clauseTitle: previousClause?.title ?? previous.clauseReference?.heading ?? undefined,
+      });
+      return;
+    }
+
+    const [{ issue: current, clause }] = unmatchedCurrent.splice(best.index, 1);
+    deltas.push({
+      status: "persisting",
+      title: current.title ?? previous.title ?? "Untitled issue",
+      severity: current.severity ?? previous.severity ?? undefined,
+      previousIssueId: previous.id ?? undefined,
+      currentIssueId: current.id ?? undefined,
+      clauseTitle: clause?.title ?? current.clauseReference?.heading ?? undefined,
+    });
+  });
+
+  unmatchedCurrent.forEach(({ issue, clause }) => {
+    deltas.push({
+      status: "new",
+      title: issue.title ?? "Untitled issue",
+      severity: issue.severity ?? undefined,
+      currentIssueId: issue.id ?? undefined,
+      clauseTitle: clause?.title ?? issue.clauseReference?.heading ?? undefined,
+    });
+  });
+
+  return deltas;
+}
+
+function classifyEdit(
+  edit: ProposedEditLike,
+  previousClauses: ClauseExtractionLike[],
+  currentClauses: ClauseExtractionLike[],
+  mapping: Map<string, ClauseExtractionLike>,
+  currentText: string,
+): ProposedEditOutcome {
+  const proposedText = edit.proposedText ?? "";
+  const anchorText = edit.anchorText ?? "";
+  const base = {
+    editId: edit.id ?? "edit",
+    clauseId: edit.clauseId ?? undefined,
+    intent: edit.intent ?? undefined,
+    proposedText,
+  };
+
+  const previousMatch = resolveClauseMatch({
+    clauseReference: edit.clauseId ? { clauseId: edit.clauseId } : null,
+    fallbackText: anchorText || proposedText,
+    clauses: previousClauses,
+  }).match;
+  let target = previousMatch
+    ? mapping.get(clauseKey(previousMatch, previousClauses.indexOf(previousMatch))) ?? null
+    : null;
+  if (!target) {
+    // The edit may have introduced a new clause, or the clause moved.
+    target = resolveClauseMatch({
+      fallbackText: proposedText || anchorText,
+      clauses: currentClauses,
+    }).match;
+  }
+
+  const normalizedProposed = normalizeForMatch(proposedText);
+  if (!target) {
+    const inDocument =
+      normalizedProposed.length > 0 &&
+      normalizeForMatch(currentText).includes(normalizedProposed);
+    return {
+      ...base,
+      outcome: inDocument ? "accepted" : "rejected",
+      clauseTitle: previousMatch?.title ?? undefined,
+      proposedCoverage: inDocument ? 1 : 0,
+      note: inDocument ? undefined : "Target clause no longer appears in the revised draft.",
+    };
+  }
+
+  const targetBody = clauseText(target);
+  const normalizedTarget = normalizeForMatch(targetBody);
+  const proposedCoverage = round(tokenCoverage(proposedText, targetBody));
+  const outcomeBase = {
+    ...base,
+    clauseTitle: target.title ?? undefined,
+    proposedCoverage,
+    currentExcerpt: excerpt(targetBody),
+  };
+
+  if (
+    (normalizedProposed && normalizedTarget.includes(normalizedProposed)) ||
+    proposedCoverage >= EDIT_ACCEPTED_COVERAGE
+  ) {
+    return { ...outcomeBase, outcome: "accepted" };
+  }
+
+  const normalizedAnchor = normalizeForMatch(anchorText);
+  const anchorRetained =
+    normalizedAnchor.length > 0 &&
+    (normalizedTarget.includes(normalizedAnchor) ||
+      tokenCoverage(anchorText, targetBody) >= EDIT_REJECTED_ANCHOR_COVERAGE);
+  const previousBody = previousMatch ? clauseText(previousMatch) : "";
+  const clauseUnchanged =
+    previousBody.length > 0 &&
+    normalizeForMatch(previousBody) === normalizedTarget;
+
+  if (clauseUnchanged || (anchorRetained && proposedCoverage < 0.5)) {
+    return { ...outcomeBase, outcome: "rejected" };
+  }
+
+  return {
+    ...outcomeBase,
+    outcome: "altered",
+    note: "The clause was revised, but not with the proposed wording.",
+  };
+}
+
+/**
+ * Builds the delta between a contract's previous review and the review of its
+ * revised draft: clause-level changes, which issues were resolved or newly
+ * raised, and how the counterparty handled each previously proposed edit.
+ */
+export function compareContractVersions(options: {
+  previousText: string;
+  currentText: string;
+  previousReport?: VersionReportLike | null;
+  currentReport?: VersionReportLike | null;
+  previousContractId?: string | null;
+  previousReviewId?: string | null;
+  previousVersionNumber?: number | null;
+  comparedAt?: string;
+}): VersionComparisonReport {
+  const previousClauses = resolveClauses(options.previousReport, options.previousText);
+  const currentClauses = resolveClauses(options.currentReport, options.currentText);
+  const { changes, mapping } = pairClauses(previousClauses, currentClauses);
+
+  const issues = compareIssues(
+    options.previousReport?.issuesToAddress ?? [],
+    options.currentReport?.issuesToAddress ?? [],
+    previousClauses,
+    currentClauses,
+    mapping,
+  );
+
+  const proposedEdits = (options.previousReport?.proposedEdits ?? [])
+    .filter((edit) => (edit.proposedText ?? "").trim().length > 0)
+    .map((edit) =>
+      classifyEdit(edit, previousClauses, currentClauses, mapping, options.currentText),
+    );
+
+  const countChanges = (type: ClauseChangeType) =>
+    changes.filter((change) => change.changeType === type).length;
+  const countIssues = (status: IssueDeltaStatus) =>
+    issues.filter((issue) => issue.status === status).length;
+  const countEdits = (outcome: ProposedEditOutcomeType) =>
+    proposedEdits.filter((edit) => edit.outcome === outcome).length;
+
+  return {
+    version: 1,
+    previousContractId: options.previousContractId ?? null,
+    previousReviewId: options.previousReviewId ?? null,
+    previousVersionNumber: options.previousVersionNumber ?? null,
+    comparedAt: options.comparedAt ?? new Date().toISOString(),
+    summary: {
+      clausesAdded: countChanges("added"),
+      clausesRemoved: countChanges("removed"),
+      clausesModified: countChanges("modified"),
+      clausesUnchanged: countChanges("unchanged"),
+      issuesResolved: countIssues("resolved"),
+      issuesNew: countIssues("new"),
+      issuesPersisting: countIssues("persisting"),
+      editsAccepted: countEdits("accepted"),
+      editsRejected: countEdits("rejected"),
+      editsAltered: countEdits("altered"),
+    },
+    clauseChanges: changes,
+    issues,
+    proposedEdits,
+  };
+}
@@ -5,6 +5,8 @@
  */
 
 import type { PlanKey } from "./plans";
+import type { ObligationKind } from "./ai/obligations";
+import type { ScoringProfile } from "./ai/scoringProfile";
 
 /**
  * Example response type for /api/demo
@@ -23,6 +25,22 @@ export interface ExtractionAssets {
   htmlPackage?: StorageObjectRef | null;
 }
 
+export interface OcrPageResult {
+  pageNumber: number;
+  text: string;
+  /** Engine-reported confidence, 0-100. */
+  confidence: number;
+  wordCount: number;
+}
+
+export interface OcrExtractionSummary {
+  engine: string;
+  languages: string[];
+  pageCount: number;
+  averageConfidence: number;
+  pages: OcrPageResult[];
+}
+
 export type AIModelId =
   | "openai-gpt-3.5-turbo"
   | "openai-gpt-4"
@@ -32,7 +50,8 @@ export type AIModelId =
   | "openai-gpt-5-mini"
   | "anthropic-claude-3"
   | "anthropic-claude-3-opus"
-  | "google-gemini-pro";
+  | "google-gemini-pro"
+  | "self-hosted-llm";
 
 export interface CustomSolutionPrompts {
   systemPrompt: string;
@@ -107,6 +126,8 @@ export interface CustomSolutionMetadata {
   similarityBenchmarks?: CustomSolutionSimilarityBenchmark[];
   modelSettings?: CustomSolutionModelSettings;
   draftingSettings?: CustomSolutionDraftingSettings;
+  /** Overrides the organization's scoring profile for this solution. */
+  scoringProfile?: Partial<ScoringProfile> | null;
 }
 
 export interface CustomSolution extends CustomSolutionMetadata {
@@ -161,6 +182,67 @@ export interface ContractReviewPayload {
   classification?: Record<string, unknown> | null;
 }
 
+export type ReviewBatchStatus = "processing" | "completed" | "cancelled";
+
+export type ReviewBatchItemStatus =
+  | "queued"
+  | "extracting"
+  | "classifying"
+  | "reviewing"
+  | "completed"
+  | "failed"
+  | "skipped";
+
+export interface ReviewBatchItem {
+  id: string;
+  batchId: string;
+  position: number;
+  ingestionId: string | null;
+  fileName: string;
+  status: ReviewBatchItemStatus;
+  progress: number;
+  contractType: string | null;
+  classificationConfidence: number | null;
+  contractId: string | null;
+  reviewId: string | null;
+  complianceScore: number | null;
+  criticalIssues: number | null;
+  highIssues: number | null;
+  error: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export interface ReviewBatch {
+  id: string;
+  name: string;
+  reviewType: string;
+  perspective: string | null;
+  status: ReviewBatchStatus;
+  totalDocuments: number;
+  completedDocuments: number;
+  failedDocuments: number;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface ReviewBatchDetail extends ReviewBatch {
+  items: ReviewBatchItem[];
+}
+
+export interface ReviewBatchItemUpdateRequest {
+  status: ReviewBatchItemStatus;
+  progress?: number;
+  contractType?: string | null;
+  classificationConfidence?: number | null;
+  error?: string | null;
+}
+
+export interface ReviewBatchItemCompleteRequest {
+  reviewId: string;
+  classificationConfidence?: number | null;
+}
+
 export type OrganizationRole = "member" | "org_admin";
 
 export interface OrganizationQuotaConfig {
@@ -361,11 +443,60 @@ export interface OrgComplianceExportItem {
   model: string | null;
 }
 
+export type OrgAlertChannel = "email" | "webhook" | "slack";
+
+export type OrgAlertDeliveryMode = "immediate" | "digest";
+
 export interface OrgAlertPreferences {
   notifyHighRisk: boolean;
   notifyPendingEdits: boolean;
   alertChannel: string;
   lastDigestAt: string | null;
+  deliveryMode?: OrgAlertDeliveryMode;
+  /** Explicit email recipients; org admins are used when empty. */
+  emailRecipients?: string[];
+  webhookUrl?: string | null;
+  /** The signing secret itself is write-only. */
+  webhookSecretConfigured?: boolean;
+  slackWebhookUrl?: string | null;
+}
+
+export type OrgAlertType = "high_risk_review" | "pending_edits" | "digest";
+
+export type OrgAlertDeliveryStatus = "pending" | "sending" | "sent" | "failed";
+
+export interface OrgAlertMessageItem {
+  label: string;
+  detail?: string | null;
+  severity?: string | null;
+  url?: string | null;
+}
+
+export interface OrgAlertMessage {
+  type: OrgAlertType;
+  organizationId: string;
+  organizationName: string | null;
+  title: string;
+  summary: string;
+  items: OrgAlertMessageItem[];
+  dashboardUrl: string;
+  generatedAt: string;
+}
+
+export interface OrgAlertDelivery {
+  id: string;
+  organizationId: string;
+  alertType: OrgAlertType;
+  channel: OrgAlertChannel;
+  status: OrgAlertDeliveryStatus;
+  message: OrgAlertMessage;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  responseStatus: number | null;
+  sentAt: string | null;
+  createdAt: string;
 }
 
 export interface OrgAlertSummaryItem {
@@ -385,6 +516,485 @@ export interface OrgAlertSummary {
   generatedAt: string;
 }
 
+export type ContractObligationStatus = "open" | "done" | "dismissed";
+
+export interface ContractObligation {
+  id: string;
+  organizationId: string | null;
+  userId: string;
+  contractId: string;
+  contractTitle: string | null;
+  contractType: string | null;
+  reviewId: string;
+  kind: ObligationKind;
+  title: string;
+  description: string;
+  dueDate: string | null;
+  period: string | null;
+  owner: string | null;
+  department: string | null;
+  clauseId: string | null;
+  sourceText: string | null;
+  status: ContractObligationStatus;
+  createdAt: string;
+}
+
+export interface ContractObligationFilters {
+  dueWithinDays?: number;
+  contractType?: string;
+  owner?: string;
+  status?: ContractObligationStatus;
+  includeUndated?: boolean;
+}
+
+export type ObligationCalendarScope = "user" | "organization";
+
+export interface ObligationCalendarFeed {
+  scope: ObligationCalendarScope;
+  url: string;
+  createdAt: string;
+}
+
+export const ORG_API_KEY_SCOPES = [
+  "documents:write",
+  "reviews:write",
+  "reviews:read",
+] as const;
+
+export type OrgApiKeyScope = (typeof ORG_API_KEY_SCOPES)[number];
+
+export interface OrgApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: OrgApiKeyScope[];
+  rateLimitPerMinute: number;
+  createdBy: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface OrgApiKeyListResponse {
+  keys: OrgApiKey[];
+  usage: {
+    documentsUsed: number;
+    documentsLimit: number | null;
+  };
+}
+
+export interface OrgApiKeyCreateRequest {
+  name: string;
+  scopes?: OrgApiKeyScope[];
+  rateLimitPerMinute?: number;
+}
+
+export interface OrgApiKeyCreateResponse {
+  key: OrgApiKey;
+  /** Plaintext secret; only returned once, at creation time. */
+  secret: string;
+}
+
+export type ApiReviewJobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface ApiDocumentUploadResponse {
+  documentId: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  status: string;
+  wordCount: number | null;
+  warnings: string[];
+}
+
+export interface ApiReviewCreateRequest {
+  documentId: string;
+  solutionKey?: string;
+  perspective?: string;
+  reviewType?: string;
+}
+
+export interface ApiReviewJob {
+  id: string;
+  documentId: string;
+  status: ApiReviewJobStatus;
+  solutionKey: string | null;
+  perspective: string | null;
+  reviewType: string;
+  contractId: string | null;
+  reviewId: string | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export const ORG_WEBHOOK_EVENT_TYPES = [
+  "ingestion.extracted",
+  "review.completed",
+  "review.fallback",
+  "draft.succeeded",
+  "draft.failed",
+  "agent_edit.approved",
+] as const;
+
+export type OrgWebhookEventType = (typeof ORG_WEBHOOK_EVENT_TYPES)[number];
+
+/** Event catalogue: the `data` object sent for each webhook event type. */
+export interface OrgWebhookEventPayloads {
+  "ingestion.extracted": {
+    ingestionId: string;
+    fileName: string;
+    status: string;
+    strategy: string | null;
+    wordCount: number | null;
+    needsOcr: boolean;
+    /** ISO 639-1 code of the detected contract language, e.g. "sv". */
+    language: string;
+  };
+  "review.completed": {
+    reviewId: string;
+    contractId: string;
+    contractTitle: string | null;
+    reviewType: string;
+    score: number | null;
+  };
+  "review.fallback": {
+    reviewId: string;
+    contractId: string;
+    contractTitle: string | null;
+    reviewType: string;
+    fallbackReason: string | null;
+  };
+  "draft.succeeded": {
+    jobId: string;
+    contractId: string;
+    draftKey: string | null;
+    snapshotId: string | null;
+  };
+  "draft.failed": {
+    jobId: string;
+    contractId: string;
+    draftKey: string | null;
+    error: string | null;
+  };
+  "agent_edit.approved": {
+    approvalId: string;
+    contractId: string | null;
+    reviewId: string | null;
+    proposedEditId: string | null;
+    clauseReference: string | null;
+    changeType: string | null;
+    approvedBy: string;
+  };
+}
+
+export interface OrgWebhookEvent<
+  T extends OrgWebhookEventType = OrgWebhookEventType,
+> {
+  id: string;
+  type: T;
+  organizationId: string;
+  createdAt: string;
+  data: OrgWebhookEventPayloads[T];
+}
+
+export interface OrgWebhookEndpoint {
+  id: string;
+  url: string;
+  description: string | null;
+  eventTypes: OrgWebhookEventType[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OrgWebhookEndpointInput {
+  url: string;
+  description?: string | null;
+  eventTypes: OrgWebhookEventType[];
+  enabled?: boolean;
+}
+
+export interface OrgWebhookEndpointCreateResponse {
+  endpoint: OrgWebhookEndpoint;
+  /** Signing secret; only returned when the endpoint is created or rotated. */
+  secret: string;
+}
+
+export type OrgWebhookDeliveryStatus = OrgAlertDeliveryStatus;
+
+export interface OrgWebhookDelivery {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: OrgWebhookEventType;
+  status: OrgWebhookDeliveryStatus;
+  payload: OrgWebhookEvent;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  responseStatus: number | null;
+  deliveredAt: string | null;
+  replayOf: string | null;
+  createdAt: string;
+}
+
+export interface OrgPrivacySettings {
+  /** Redact personal data and party names before contract text reaches an LLM. */
+  redactBeforeAnalysis: boolean;
+  /** Reuse the prior report when an identical contract is re-analysed. */
+  reviewCacheEnabled: boolean;
+}
+
+export interface OrgScoringSettings {
+  /** Organization scoring profile; null scores with the built-in default. */
+  profile: ScoringProfile | null;
+}
+
+export interface OrgRetentionSettings {
+  /** Suspends retention purges for every member of the organization. */
+  legalHold: boolean;
+  legalHoldReason: string | null;
+  legalHoldSetAt: string | null;
+  /** Days reports are kept under the organization's plan; null is permanent. */
+  reportStorageDays: number | null;
+}
+
+export interface OrgRetentionPurge {
+  id: string;
+  userId: string | null;
+  contractId: string;
+  contractTitle: string | null;
+  planKey: string | null;
+  storageDays: number;
+  expiredAt: string;
+  purged: RetentionPurgeCounts;
+  createdAt: string;
+}
+
+export interface RetentionPurgeCounts {
+  reviews: number;
+  ingestions: number;
+  draftSnapshots: number;
+  storageObjects: number;
+}
+
+export type ReviewCommentAnchorType = "issue" | "edit" | "clause";
+
+export interface ReviewCommentAuthor {
+  id: string;
+  name: string;
+  email: string | null;
+}
+
+export interface ReviewComment {
+  id: string;
+  reviewId: string;
+  anchorType: ReviewCommentAnchorType;
+  anchorId: string;
+  /** Null for the comment that opens a thread. */
+  parentId: string | null;
+  author: ReviewCommentAuthor | null;
+  body: string;
+  mentions: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReviewCommentThread {
+  id: string;
+  anchorType: ReviewCommentAnchorType;
+  anchorId: string;
+  root: ReviewComment;
+  replies: ReviewComment[];
+  resolvedAt: string | null;
+  resolvedBy: ReviewCommentAuthor | null;
+}
+
+export interface CreateReviewCommentRequest {
+  anchorType: ReviewCommentAnchorType;
+  anchorId: string;
+  body: string;
+  /** Reply to an existing thread; the anchor is taken from the thread. */
+  parentId?: string | null;
+  /** Profile ids of organization members to notify. */
+  mentions?: string[];
+}
+
+export const CONTRACT_WORKFLOW_STATUSES = [
+  "draft",
+  "in_review",
+  "awaiting_approval",
+  "approved",
+  "rejected",
+] as const;
+
+export type ContractWorkflowStatus =
+  (typeof CONTRACT_WORKFLOW_STATUSES)[number];
+
+export const APPROVAL_SEVERITIES = [
+  "info",
+  "low",
+  "medium",
+  "high",
+  "critical",
+] as const;
+
+export type ApprovalSeverity = (typeof APPROVAL_SEVERITIES)[number];
+
+export interface ApprovalStage {
+  name: string;
+  /** Profile ids allowed to sign off; any org admin when empty. */
+  approverIds: string[];
+}
+
+export interface ApprovalChain {
+  id: string;
+  name: string;
+  /** Applies to any contract type when empty. */
+  contractTypes: string[];
+  /** Applies only when the review's worst issue is at least this severe. */
+  minSeverity: ApprovalSeverity | null;
+  stages: ApprovalStage[];
+  /** Lower values are matched first. */
+  priority: number;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ApprovalChainInput = Pick<
+  ApprovalChain,
+  "name" | "contractTypes" | "minSeverity" | "stages" | "priority" | "enabled"
+>;
+
+export type ApprovalAction =
+  | "submitted"
+  | "approved"
+  | "rejected"
+  | "cleared"
+  | "reopened";
+
+export interface ApprovalTrailEvent {
+  id: string;
+  contractId: string;
+  contractTitle: string | null;
+  reviewId: string | null;
+  chainId: string | null;
+  chainName: string | null;
+  stageIndex: number | null;
+  stageName: string | null;
+  action: ApprovalAction;
+  fromStatus: ContractWorkflowStatus;
+  toStatus: ContractWorkflowStatus;
+  actorId: string | null;
+  actorEmail: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface ContractApprovalState {
+  contractId: string;
+  contractTitle: string | null;
+  contractType: string | null;
+  status: ContractWorkflowStatus;
+  chainId: string | null;
+  chainName: string | null;
+  stages: ApprovalStage[];
+  /** Index into stages of the stage awaiting sign-off. */
+  currentStageIndex: number | null;
+  reviewId: string | null;
+  maxSeverity: ApprovalSeverity | null;
+  updatedAt: string | null;
+  canSubmit: boolean;
+  canDecide: boolean;
+  trail: ApprovalTrailEvent[];
+}
+
+export interface ApprovalInboxItem {
+  contractId: string;
+  contractTitle: string | null;
+  contractType: string | null;
+  chainName: string | null;
+  stageName: string;
+  stageNumber: number;
+  stageCount: number;
+  maxSeverity: ApprovalSeverity | null;
+  submittedBy: string | null;
+  submittedAt: string | null;
+}
+
+/** `mine` searches the caller's own contracts; `organization` the whole org. */
+export type ContractRepositoryScope = "mine" | "organization";
+
+export interface ContractFolder {
+  id: string;
+  name: string;
+  organizationId: string | null;
+  ownerId: string;
+  contractCount: number;
+  createdAt: string;
+}
+
+export interface ContractSearchFilters {
+  query?: string;
+  scope?: ContractRepositoryScope;
+  /** A folder id, or "none" for contracts not filed in any folder. */
+  folderId?: string;
+  tag?: string;
+  counterparty?: string;
+  contractType?: string;
+  governingLaw?: string;
+  minScore?: number;
+  maxScore?: number;
+  /** Inclusive ISO date bounds on the contract's upload date. */
+  from?: string;
+  to?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface ContractRepositoryItem {
+  id: string;
+  title: string;
+  fileName: string | null;
+  ownerId: string;
+  folderId: string | null;
+  tags: string[];
+  counterparties: string[];
+  contractType: string | null;
+  governingLaw: string | null;
+  score: number | null;
+  workflowStatus: ContractWorkflowStatus;
+  latestReviewId: string | null;
+  createdAt: string;
+}
+
+export interface ContractSearchResponse {
+  items: ContractRepositoryItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface ContractRepositoryFacet {
+  value: string;
+  count: number;
+}
+
+export interface ContractRepositoryFacets {
+  contractTypes: ContractRepositoryFacet[];
+  governingLaws: ContractRepositoryFacet[];
+  counterparties: ContractRepositoryFacet[];
+  tags: ContractRepositoryFacet[];
+}
+
+export interface UpdateContractOrganizationRequest {
+  folderId?: string | null;
+  tags?: string[];
+}
+
 export interface OrgAdminProfileSummary {
   id: string;
   email: string;
@@ -505,6 +1115,77 @@ export interface AgentDraftResponse {
   cacheStatus?: "hit" | "miss";
 }
 
+export interface AgentChatProposedEdit extends AgentDraftEdit {
+  severity?: string;
+  references?: string[];
+}
+
+export interface AgentChatResult {
+  message: { role: "assistant"; content: string };
+  proposedEdits: AgentChatProposedEdit[];
+  provider: string;
+  model: string;
+  usage?: { inputTokens?: number; outputTokens?: number };
+}
+
+/**
+ * Server-Sent Events written by POST /api/agent/chat/stream, keyed by event
+ * name. `reset` discards streamed text after a provider failover; the stream
+ * always ends with `done` or `error`.
+ */
+export interface AgentChatStreamEvents {
+  delta: { text: string };
+  reset: { provider: string };
+  done: AgentChatResult;
+  error: { error: string };
+}
+
+/**
+ * A saved agent conversation on a contract. Threads belong to one member;
+ * org-shared threads are readable by the rest of the organization.
+ */
+export interface AgentChatThread {
+  id: string;
+  contractId: string;
+  title: string;
+  ownerId: string;
+  ownerName: string | null;
+  isOwner: boolean;
+  sharedWithOrg: boolean;
+  lastMessageAt: string | null;
+  createdAt: string;
+}
+
+export interface AgentChatThreadMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  proposedEdits: AgentChatProposedEdit[];
+  /** Ids of `proposedEdits` accepted into agent_edit_approvals. */
+  acceptedEditIds: string[];
+  provider: string | null;
+  model: string | null;
+  createdAt: string;
+}
+
+export interface AgentChatThreadDetail {
+  thread: AgentChatThread;
+  messages: AgentChatThreadMessage[];
+}
+
+export interface AppendAgentChatMessageInput {
+  role: "user" | "assistant";
+  content: string;
+  proposedEdits?: AgentChatProposedEdit[];
+  provider?: string | null;
+  model?: string | null;
+}
+
+export interface UpdateAgentChatThreadRequest {
+  title?: string;
+  sharedWithOrg?: boolean;
+}
+
 export type AgentDraftJobStatus = "pending" | "running" | "succeeded" | "failed";
 
 export interface AgentDraftJobStartResponse {
@@ -522,6 +1203,8 @@ export interface AgentDraftJobStatusResponse {
   result?: AgentDraftResponse | null;
   error?: string | null;
   updatedAt?: string | null;
+  attempts?: number;
+  maxAttempts?: number;
 }
 
 export type ClauseEditJobStatus = "pending" | "running" | "succeeded" | "failed";
@@ -569,6 +1252,8 @@ export interface ClauseEditJobStatusResponse {
   } | null;
   error?: string | null;
   updatedAt?: string | null;
+  attempts?: number;
+  maxAttempts?: number;
 }
 
 export interface CreateCheckoutSessionRequest {
@@ -762,6 +1447,45 @@ export interface OrgMemberInviteSummary {
   metadata?: Record<string, unknown>;
 }
 
+export type OrgPlaybookMode = "extend" | "replace";
+
+export interface OrgPlaybookClause {
+  title: string;
+  mustInclude: string[];
+  redFlags: string[];
+  fallbackPositions: string[];
+}
+
+export interface OrgPlaybookDefinition {
+  playbookKey: string;
+  name: string;
+  description: string | null;
+  mode: OrgPlaybookMode;
+  criticalClauses: OrgPlaybookClause[];
+  clauseAnchors: string[];
+  negotiationGuidance: string[];
+  isActive: boolean;
+}
+
+export interface OrgPlaybook extends OrgPlaybookDefinition {
+  id: string;
+  organizationId: string;
+  version: number;
+  updatedBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OrgPlaybookVersion {
+  id: string;
+  playbookId: string;
+  version: number;
+  definition: OrgPlaybookDefinition;
+  changeNote: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
 export type InviteTokenType = "org_trial" | "org_member";
 
 export interface InviteTokenSummary {
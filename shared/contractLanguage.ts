@@ -0,0 +1,698 @@
+/**
+ * Languages Maigon reviews contracts in. Each profile carries what the
+ * pipeline needs to handle a contract written in it: the function words used
+ * to detect the language and to ignore when matching, the keywords that open
+ * a numbered heading, and legal-term stems folded onto the English vocabulary
+ * that playbooks and checklists are written in.
+ */
+
+export type ContractLanguageCode = "en" | "sv" | "de" | "da" | "no" | "fi";
+
+export interface ContractLanguageProfile {
+  code: ContractLanguageCode;
+  name: string;
+  nativeName: string;
+  stopWords: string[];
+  /** Words that introduce a numbered heading, such as "Artikel 4". */
+  headingKeywords: string[];
+  /** Verbs that follow a run-in heading: "Confidential Information means …". */
+  definitionVerbs: string[];
+  /**
+   * Stem → English terms. A word matches a stem it starts with, or, for stems
+   * of seven letters or more, one it contains, so inflections and compounds
+   * ("Haftungsbeschränkung") resolve without a full stemmer.
+   */
+  legalTerms: Record<string, string[]>;
+}
+
+export const DEFAULT_CONTRACT_LANGUAGE: ContractLanguageCode = "en";
+
+export const CONTRACT_LANGUAGES: ContractLanguageProfile[] = [
+  {
+    code: "en",
+    name: "English",
+    nativeName: "English",
+    stopWords: [
+      "the",
+      "and",
+      "of",
+      "to",
+      "or",
+      "shall",
+      "be",
+      "by",
+      "this",
+      "that",
+      "with",
+      "any",
+      "such",
+      "is",
+      "are",
+      "not",
+      "which",
+      "its",
+      "from",
+      "other",
+      "will",
+      "has",
+      "have",
+      "been",
+      "if",
+      "their",
+      "each",
+      "without",
+    ],
+    headingKeywords: [
+      "section",
+      "article",
+      "clause",
+      "schedule",
+      "annex",
+      "appendix",
+      "exhibit",
+    ],
+    definitionVerbs: ["shall", "means", "mean", "include", "includes"],
+    legalTerms: {},
+  },
+  {
+    code: "sv",
+    name: "Swedish",
+    nativeName: "Svenska",
+    stopWords: [
+      "och",
+      "att",
+      "som",
+      "av",
+      "för",
+      "till",
+      "med",
+      "på",
+      "är",
+      "ett",
+      "en",
+      "det",
+      "den",
+      "de",
+      "om",
+      "inte",
+      "eller",
+      "ska",
+      "skall",
+      "kan",
+      "vid",
+      "samt",
+      "enligt",
+      "denna",
+      "detta",
+      "dessa",
+      "från",
+      "har",
+      "sina",
+      "efter",
+      "inom",
+      "utan",
+      "mellan",
+      "vilket",
+      "vilka",
+      "genom",
+      "också",
+    ],
+    headingKeywords: ["avsnitt", "artikel", "punkt", "paragraf", "bilaga"],
+    definitionVerbs: ["ska", "skall", "avser", "innebär", "omfattar"],
+    legalTerms: {
+      sekretess: ["confidential", "confidentiality"],
+      konfidentiell: ["confidential"],
+      tystnadsplikt: ["confidential", "confidentiality"],
+      uppsägning: ["termination", "terminate"],
+      uppsäga: ["termination", "terminate"],
+      hävning: ["termination", "terminate"],
+      avtalstid: ["term", "duration"],
+      giltighetstid: ["term", "duration"],
+      ansvar: ["liability"],
+      begränsning: ["limitation", "limit"],
+      skadestånd: ["damages"],
+      skadeslös: ["indemnify", "indemnification"],
+      ersättning: ["compensation", "fees"],
+      personuppgift: ["personal", "data"],
+      personuppgiftsansvarig: ["controller"],
+      personuppgiftsincident: ["breach", "incident"],
+      biträde: ["processor"],
+      underbiträde: ["subprocessor"],
+      överföring: ["transfer"],
+      säkerhet: ["security"],
+      tillämplig: ["applicable", "governing", "law"],
+      lagval: ["governing", "law"],
+      skiljeförfarande: ["arbitration"],
+      skiljedom: ["arbitration"],
+      påföljd: ["remedies"],
+      avtalsbrott: ["breach"],
+      domstol: ["court", "jurisdiction"],
+      tvist: ["dispute"],
+      immateriell: ["intellectual", "property"],
+      upphovsrätt: ["copyright", "intellectual", "property"],
+      nyttjanderätt: ["license", "use"],
+      betalning: ["payment"],
+      avgift: ["fees"],
+      faktur: ["invoice", "payment"],
+      överlåtelse: ["assignment"],
+      meddelande: ["notice", "notify"],
+      underrättelse: ["notice", "notify"],
+      granskning: ["audit"],
+      garanti: ["warranty"],
+      återlämn: ["return"],
+      förstör: ["destruction", "destroy"],
+      radera: ["destruction", "delete"],
+      ändamål: ["purpose"],
+      konkurrens: ["compete", "competition"],
+      värvning: ["solicit"],
+    },
+  },
+  {
+    code: "de",
+    name: "German",
+    nativeName: "Deutsch",
+    stopWords: [
+      "und",
+      "oder",
+      "der",
+      "die",
+      "das",
+      "des",
+      "dem",
+      "den",
+      "ein",
+      "eine",
+      "einer",
+      "eines",
+      "einem",
+      "einen",
+      "zu",
+      "von",
+      "mit",
+      "auf",
+      "für",
+      "ist",
+      "sind",
+      "wird",
+      "werden",
+      "nicht",
+      "bei",
+      "nach",
+      "aus",
+      "durch",
+      "im",
+      "vom",
+      "zur",
+      "zum",
+      "als",
+      "auch",
+      "sowie",
+      "soweit",
+      "sofern",
+      "gemäß",
+      "dieser",
+      "diese",
+      "dieses",
+      "sich",
+      "kann",
+      "muss",
+      "soll",
+      "wenn",
+      "über",
+    ],
+    headingKeywords: ["abschnitt", "artikel", "ziffer", "paragraph", "anlage"],
+    definitionVerbs: ["bedeutet", "bezeichnet", "umfasst"],
+    legalTerms: {
+      vertraulich: ["confidential"],
+      geheimhaltung: ["confidential", "confidentiality"],
+      kündig: ["termination", "terminate"],
+      laufzeit: ["term", "duration"],
+      haftung: ["liability"],
+      beschränkung: ["limitation", "limit"],
+      begrenzung: ["limitation", "limit"],
+      schaden: ["damages"],
+      freistellung: ["indemnify", "indemnification"],
+      schadlos: ["indemnify", "indemnification"],
+      personenbezogen: ["personal", "data"],
+      auftragsverarbeit: ["processor", "processing"],
+      unterauftragsverarbeit: ["subprocessor"],
+      verantwortlich: ["controller"],
+      übermittlung: ["transfer"],
+      sicherheit: ["security"],
+      datenschutz: ["data", "protection"],
+      anwendbar: ["applicable", "governing", "law"],
+      rechtswahl: ["governing", "law"],
+      schieds: ["arbitration"],
+      gerichtsstand: ["jurisdiction", "court"],
+      gericht: ["court"],
+      rechtsbehelf: ["remedies"],
+      unterlassung: ["injunctive", "injunction"],
+      vertragsverletzung: ["breach"],
+      streitigkeit: ["dispute"],
+      geistig: ["intellectual", "property"],
+      eigentum: ["ownership", "property"],
+      urheberrecht: ["copyright", "intellectual", "property"],
+      lizenz: ["license"],
+      nutzungsrecht: ["license", "use"],
+      zahlung: ["payment"],
+      vergütung: ["fees", "payment"],
+      entgelt: ["fees", "payment"],
+      gebühr: ["fees"],
+      rechnung: ["invoice"],
+      abtretung: ["assignment"],
+      mitteilung: ["notice", "notify"],
+      benachrichtigung: ["notice", "notify"],
+      prüfung: ["audit"],
+      gewährleistung: ["warranty"],
+      garantie: ["warranty"],
+      rückgabe: ["return"],
+      vernicht: ["destruction", "destroy"],
+      lösch: ["destruction", "delete"],
+      zweck: ["purpose"],
+      wettbewerb: ["compete", "competition"],
+      abwerb: ["solicit"],
+      gewalt: ["force", "majeure"],
+      vertragsstrafe: ["penalty"],
+    },
+  },
+  {
+    code: "da",
+    name: "Danish",
+    nativeName: "Dansk",
+    stopWords: [
+      "og",
+      "af",
+      "til",
+      "er",
+      "det",
+      "den",
+      "de",
+      "en",
+      "et",
+      "som",
+      "på",
+      "med",
+      "for",
+      "ikke",
+      "eller",
+      "skal",
+      "kan",
+      "ved",
+      "samt",
+      "denne",
+      "dette",
+      "disse",
+      "fra",
+      "har",
+      "efter",
+      "mellem",
+      "hvis",
+      "hvor",
+      "også",
+      "nogen",
+      "andre",
+      "være",
+      "været",
+    ],
+    headingKeywords: ["afsnit", "artikel", "punkt", "paragraf", "bilag"],
+    definitionVerbs: ["skal", "betyder", "omfatter"],
+    legalTerms: {
+      fortrolig: ["confidential"],
+      tavshedspligt: ["confidential", "confidentiality"],
+      opsigelse: ["termination", "terminate"],
+      opsige: ["termination", "terminate"],
+      ophævelse: ["termination", "terminate"],
+      løbetid: ["term", "duration"],
+      varighed: ["term", "duration"],
+      ansvar: ["liability"],
+      begrænsning: ["limitation", "limit"],
+      erstatning: ["damages"],
+      skadesløs: ["indemnify", "indemnification"],
+      personoplysning: ["personal", "data"],
+      dataansvarlig: ["controller"],
+      databehandler: ["processor"],
+      underdatabehandler: ["subprocessor"],
+      overførsel: ["transfer"],
+      sikkerhed: ["security"],
+      gældende: ["applicable", "governing", "law"],
+      lovvalg: ["governing", "law"],
+      voldgift: ["arbitration"],
+      domstol: ["court", "jurisdiction"],
+      værneting: ["jurisdiction", "court"],
+      mislighold: ["breach"],
+      tvist: ["dispute"],
+      immateriel: ["intellectual", "property"],
+      ophavsret: ["copyright", "intellectual", "property"],
+      brugsret: ["license", "use"],
+      betaling: ["payment"],
+      vederlag: ["fees", "payment"],
+      gebyr: ["fees"],
+      faktura: ["invoice", "payment"],
+      overdragelse: ["assignment"],
+      meddelelse: ["notice", "notify"],
+      underretning: ["notice", "notify"],
+      garanti: ["warranty"],
+      tilbagelever: ["return"],
+      sletning: ["destruction", "delete"],
+      slette: ["destruction", "delete"],
+      konkurrence: ["compete", "competition"],
+    },
+  },
+  {
+    code: "no",
+    name: "Norwegian",
+    nativeName: "Norsk",
+    stopWords: [
+      "og",
+      "av",
+      "til",
+      "er",
+      "det",
+      "den",
+      "de",
+      "en",
+      "et",
+      "som",
+      "på",
+      "med",
+      "for",
+      "ikke",
+      "eller",
+      "skal",
+      "kan",
+      "ved",
+      "samt",
+      "denne",
+      "dette",
+      "disse",
+      "fra",
+      "har",
+      "seg",
+      "etter",
+      "mellom",
+      "dersom",
+      "hvis",
+      "hvor",
+      "også",
+      "noen",
+      "andre",
+      "være",
+      "vært",
+    ],
+    headingKeywords: ["avsnitt", "artikkel", "punkt", "paragraf", "vedlegg"],
+    definitionVerbs: ["skal", "betyr", "omfatter"],
+    legalTerms: {
+      konfidensiell: ["confidential"],
+      taushetsplikt: ["confidential", "confidentiality"],
+      oppsigelse: ["termination", "terminate"],
+      oppsi: ["termination", "terminate"],
+      heving: ["termination", "terminate"],
+      varighet: ["term", "duration"],
+      ansvar: ["liability"],
+      begrensning: ["limitation", "limit"],
+      erstatning: ["damages"],
+      skadesløs: ["indemnify", "indemnification"],
+      personopplysning: ["personal", "data"],
+      behandlingsansvarlig: ["controller"],
+      databehandler: ["processor"],
+      underdatabehandler: ["subprocessor"],
+      overføring: ["transfer"],
+      sikkerhet: ["security"],
+      gjeldende: ["applicable", "governing", "law"],
+      lovvalg: ["governing", "law"],
+      voldgift: ["arbitration"],
+      domstol: ["court", "jurisdiction"],
+      verneting: ["jurisdiction", "court"],
+      mislighold: ["breach"],
+      tvist: ["dispute"],
+      immateriell: ["intellectual", "property"],
+      opphavsrett: ["copyright", "intellectual", "property"],
+      bruksrett: ["license", "use"],
+      betaling: ["payment"],
+      vederlag: ["fees", "payment"],
+      gebyr: ["fees"],
+      faktura: ["invoice", "payment"],
+      overdragelse: ["assignment"],
+      varsel: ["notice", "notify"],
+      varsling: ["notice", "notify"],
+      garanti: ["warranty"],
+      tilbakelever: ["return"],
+      sletting: ["destruction", "delete"],
+      slette: ["destruction", "delete"],
+      konkurranse: ["compete", "competition"],
+    },
+  },
+  {
+    code: "fi",
+    name: "Finnish",
+    nativeName: "Suomi",
+    stopWords: [
+      "ja",
+      "tai",
+      "on",
+      "ei",
+      "sekä",
+      "se",
+      "joka",
+      "jotka",
+      "jonka",
+      "että",
+      "kuin",
+      "mukaan",
+      "tämä",
+      "tämän",
+      "nämä",
+      "sen",
+      "ovat",
+      "voi",
+      "tulee",
+      "jos",
+      "kun",
+      "myös",
+      "osalta",
+      "eikä",
+      "sitä",
+      "niin",
+      "kuitenkin",
+    ],
+    headingKeywords: ["artikla", "kohta", "jakso", "pykälä", "liite"],
+    definitionVerbs: ["tarkoittaa", "tarkoitetaan", "sisältää"],
+    legalTerms: {
+      luottamuksellinen: ["confidential"],
+      salassapito: ["confidential", "confidentiality"],
+      irtisano: ["termination", "terminate"],
+      purka: ["termination", "terminate"],
+      voimassaolo: ["term", "duration"],
+      vastuu: ["liability"],
+      rajoitus: ["limitation", "limit"],
+      rajoitta: ["limitation", "limit"],
+      vahingonkorvaus: ["damages"],
+      henkilötie: ["personal", "data"],
+      rekisterinpitäjä: ["controller"],
+      käsittelijä: ["processor"],
+      alihankkija: ["subprocessor"],
+      siirto: ["transfer", "assignment"],
+      tietoturva: ["security"],
+      sovellettava: ["applicable", "governing", "law"],
+      välimies: ["arbitration"],
+      tuomioistuin: ["court", "jurisdiction"],
+      sopimusrikko: ["breach"],
+      riita: ["dispute"],
+      riida: ["dispute"],
+      immateriaali: ["intellectual", "property"],
+      tekijänoikeu: ["copyright", "intellectual", "property"],
+      käyttöoikeu: ["license", "use"],
+      maksu: ["payment", "fees"],
+      lasku: ["invoice"],
+      ilmoitus: ["notice", "notify"],
+      ilmoitta: ["notice", "notify"],
+      tarkastus: ["audit"],
+      takuu: ["warranty"],
+      palautta: ["return"],
+      tuhoa: ["destruction", "destroy"],
+      hävittä: ["destruction", "destroy"],
+      poista: ["destruction", "delete"],
+      tarkoitus: ["purpose"],
+      kilpailu: ["compete", "competition"],
+    },
+  },
+];
+
+/**
+ * How a review of a non-English contract is written. "bilingual" keeps the
+ * findings in English and drafts proposed edits in the contract's language;
+ * "contract" writes the whole report in the contract's language.
+ */
+export const REPORT_LANGUAGE_MODES = ["bilingual", "contract"] as const;
+
+export type ReportLanguageMode = (typeof REPORT_LANGUAGE_MODES)[number];
+
+export const DEFAULT_REPORT_LANGUAGE_MODE: ReportLanguageMode = "bilingual";
+
+export interface ContractLanguageDetection {
+  language: ContractLanguageCode;
+  /** 0–1: how clearly the winning language beat the runner-up. */
+  confidence: number;
+  /** Share of sampled words that are function words of each language. */
+  scores: Partial<Record<ContractLanguageCode, number>>;
+}
+
+const DETECTION_SAMPLE_CHARS = 20000;
+const MIN_DETECTION_WORDS = 12;
+const MIN_STOP_WORD_SHARE = 0.05;
+const COMPOUND_STEM_LENGTH = 7;
+
+/** The folding `normalizeForMatch` applies: lower case, accents removed. */
+export function foldForMatch(value: string): string {
+  return value
+    .normalize("NFKD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase();
+}
+
+export function getContractLanguage(
+  code: ContractLanguageCode,
+): ContractLanguageProfile {
+  const profile = CONTRACT_LANGUAGES.find((entry) => entry.code === code);
+  if (!profile) {
+    throw new Error(`Unknown contract language: ${code}`);
+  }
+  return profile;
+}
+
+/** Accepts a language code or its English or native name. */
+export function findContractLanguage(
+  value?: string | null,
+): ContractLanguageProfile | undefined {
+  const normalized = value?.trim().toLowerCase();
+  if (!normalized) return undefined;
+  return CONTRACT_LANGUAGES.find(
+    (entry) =>
+      entry.code === normalized ||
+      entry.name.toLowerCase() === normalized ||
+      entry.nativeName.toLowerCase() === normalized,
+  );
+}
+
+export function resolveReportLanguageMode(value: unknown): ReportLanguageMode {
+  return REPORT_LANGUAGE_MODES.includes(value as ReportLanguageMode)
+    ? (value as ReportLanguageMode)
+    : DEFAULT_REPORT_LANGUAGE_MODE;
+}
+
+const STOP_WORD_SETS = CONTRACT_LANGUAGES.map(
+  (entry) => [entry.code, new Set(entry.stopWords)] as const,
+);
+
+/**
+ * Picks the language whose function words make up the largest share of the
+ * opening of the document. Text too short to judge, or in a language without
+ * a profile, is reported as English with zero confidence.
+ */
+export function detectContractLanguage(
+  text: string,
+): ContractLanguageDetection {
+  const words =
+    text
+      .slice(0, DETECTION_SAMPLE_CHARS)
+      .toLowerCase()
+      .match(/\p{L}+/gu) ?? [];
+  const unknown: ContractLanguageDetection = {
+    language: DEFAULT_CONTRACT_LANGUAGE,
+    confidence: 0,
+    scores: {},
+  };
+  if (words.length < MIN_DETECTION_WORDS) return unknown;
+
+  const scores: Partial<Record<ContractLanguageCode, number>> = {};
+  STOP_WORD_SETS.forEach(([code, stopWords]) => {
+    const hits = words.filter((word) => stopWords.has(word)).length;
+    scores[code] = Math.round((hits / words.length) * 1000) / 1000;
+  });
+
+  const ranked = (
+    Object.entries(scores) as [ContractLanguageCode, number][]
+  ).sort((a, b) => b[1] - a[1]);
+  const [best, runnerUp] = ranked;
+  if (!best || best[1] < MIN_STOP_WORD_SHARE) {
+    return { ...unknown, scores };
+  }
+
+  return {
+    language: best[0],
+    confidence: Math.round((1 - (runnerUp?.[1] ?? 0) / best[1]) * 100) / 100,
+    scores,
+  };
+}
+
+/** Function words of every non-English profile, folded for matching. */
+export const FOREIGN_STOP_WORDS: ReadonlySet<string> = new Set(
+  CONTRACT_LANGUAGES.filter((entry) => entry.code !== "en").flatMap((entry) =>
+    entry.stopWords.map(foldForMatch),
+  ),
+);
+
+const LEGAL_TERM_STEMS = CONTRACT_LANGUAGES.flatMap((entry) =>
+  Object.entries(entry.legalTerms).map(([stem, terms]) => ({
+    stem: foldForMatch(stem),
+    terms,
+  })),
+);
+
+const MAX_CACHED_TERMS = 20000;
+const legalTermCache = new Map<string, string[]>();
+
+/**
+ * English equivalents of a folded word from any supported language, e.g.
+ * "ansvarsbegransning" → ["liability", "limitation", "limit"]. English words
+ * have none.
+ */
+export function legalTermEquivalents(token: string): string[] {
+  if (token.length < 4) return [];
+  const cached = legalTermCache.get(token);
+  if (cached) return cached;
+
+  const terms = new Set<string>();
+  LEGAL_TERM_STEMS.forEach(({ stem, terms: equivalents }) => {
+    const matches =
+      token.startsWith(stem) ||
+      (stem.length >= COMPOUND_STEM_LENGTH && token.includes(stem));
+    if (matches) {
+      equivalents.forEach((term) => terms.add(term));
+    }
+  });
+  const result = Array.from(terms);
+
+  if (legalTermCache.size >= MAX_CACHED_TERMS) legalTermCache.clear();
+  legalTermCache.set(token, result);
+  return result;
+}
+
+/** English legal vocabulary found in a passage, for keyword classifiers. */
+export function translateLegalTerms(text: string): string[] {
+  const words = foldForMatch(text).match(/\p{L}+/gu) ?? [];
+  return Array.from(new Set(words.flatMap(legalTermEquivalents)));
+}
+
+/**
+ * Prompt instructions for reviewing a contract that is not in English, or
+ * null for English contracts.
+ */
+export function buildContractLanguageInstructions(
+  language: ContractLanguageCode | null | undefined,
+  mode: ReportLanguageMode | null = DEFAULT_REPORT_LANGUAGE_MODE,
+): string | null {
+  if (!language || language === DEFAULT_CONTRACT_LANGUAGE) return null;
+  const { name } = getContractLanguage(language);
+  const reportInstruction =
+    mode === "contract"
+      ? `Write the whole report in ${name}: titles, summaries, recommendations, rationales, criteria and proposed edits.`
+      : `Write titles, summaries, recommendations, rationales and criteria in English. Draft proposedText for every proposed edit in ${name}, in the contract's own drafting style and defined terms.`;
+  return [
+    `The contract is written in ${name}.`,
+    `Quote excerpts, evidence, clause headings and anchorText verbatim in ${name}, exactly as they appear in the contract; never translate quoted text.`,
+    "Playbook requirements and clause templates are written in English: apply them by meaning, and translate template language before using it in a proposed edit.",
+    reportInstruction,
+    'Keep the marker "Not present in contract" in English.',
+  ].join(" ");
+}
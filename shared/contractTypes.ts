@@ -0,0 +1,1178 @@
+/**
+ * Registry of the contract types Maigon reviews out of the box. Solution keys,
+ * classifier categories, perspectives, playbook references and display names
+ * are all read from these entries, so a new type is declared here (plus its
+ * playbook) instead of in every consumer.
+ *
+ * The edge functions import this module directly, so it must stay free of
+ * runtime imports.
+ */
+
+export type ContractTypeKey =
+  | "nda"
+  | "dpa"
+  | "eula"
+  | "ppc"
+  | "psa"
+  | "ca"
+  | "rda"
+  | "msa"
+  | "saas";
+
+export type ContractPlaybookKey =
+  | "data_processing_agreement"
+  | "non_disclosure_agreement"
+  | "privacy_policy_document"
+  | "consultancy_agreement"
+  | "research_development_agreement"
+  | "end_user_license_agreement"
+  | "professional_services_agreement"
+  | "master_services_agreement"
+  | "saas_subscription_agreement";
+
+export const GENERAL_CONTRACT_TYPE = "general_commercial";
+
+export interface ContractPerspective {
+  id: string;
+  label: string;
+  description: string;
+  focusAreas: string[];
+  /** Party the review argues for. */
+  primary: string;
+  counterpart: string;
+  guidance: string;
+  tone: "blue" | "green" | "rose" | "amber";
+}
+
+export interface ContractClassificationRule {
+  confidence: number;
+  keywords: string[];
+  /** File-name hints besides the classification type itself. */
+  fileAliases: string[];
+  characteristics: string[];
+  reasoning: string;
+  subType?: string;
+  suggestedSolutions: string[];
+  partyRoles: {
+    party1: string;
+    party2: string;
+  };
+  /** Indicator lines the AI classifier is given for this category. */
+  promptIndicators: string[];
+}
+
+export interface ContractReviewGuidance {
+  focus: string[];
+  scoring: string[];
+  mustHave: string[];
+  watchouts: string[];
+}
+
+export interface ContractTypeDefinition {
+  key: ContractTypeKey;
+  classificationType: string;
+  /** Solution name shown when picking or recommending a review. */
+  displayName: string;
+  /** Name of the document itself, e.g. on a classification result. */
+  typeLabel: string;
+  customContractType: string;
+  aliases: string[];
+  playbookKey: ContractPlaybookKey;
+  catalog: {
+    title: string;
+    description: string;
+  };
+  detectionPatterns: RegExp[];
+  classification: ContractClassificationRule;
+  perspectives: ContractPerspective[];
+  reviewGuidance: ContractReviewGuidance;
+}
+
+export const CONTRACT_TYPES: ContractTypeDefinition[] = [
+  {
+    key: "nda",
+    classificationType: "non_disclosure_agreement",
+    displayName: "Non-Disclosure Agreement",
+    typeLabel: "Non-Disclosure Agreement",
+    customContractType: "nda",
+    aliases: ["non-disclosure", "non disclosure", "nda"],
+    playbookKey: "non_disclosure_agreement",
+    catalog: {
+      title: "Non-Disclosure Agreements",
+      description:
+        "Review non-disclosure agreements for compliance with established standards and best practices. Get instant report with compliance insights and extracted clauses.",
+    },
+    detectionPatterns: [
+      /non[-\s]?disclosure agreement/i,
+      /confidential information/i,
+      /disclosing party/i,
+    ],
+    classification: {
+      confidence: 0.9,
+      keywords: [
+        "confidential",
+        "non-disclosure",
+        "receiving party",
+        "disclosing party",
+        "trade secret",
+        "proprietary information",
+        "return or destroy",
+      ],
+      fileAliases: ["nda", "non-disclosure"],
+      characteristics: [
+        "Confidential information definitions present",
+        "Restrictions on disclosure or use",
+        "Obligations to return or destroy materials",
+        "Duration or survival clauses for confidentiality",
+      ],
+      reasoning:
+        "Confidentiality-focused language and party roles indicate a non-disclosure agreement.",
+      subType: "Mutual NDA",
+      suggestedSolutions: ["full_summary", "risk_assessment"],
+      partyRoles: {
+        party1: "Disclosing Party",
+        party2: "Receiving Party",
+      },
+      promptIndicators: [
+        'Keywords: "confidential information", "proprietary", "trade secrets", "non-disclosure", "confidentiality obligations"',
+        "Clauses: definition of confidential info, permitted disclosures, return/destruction, non-compete/non-solicit",
+        "Types: mutual/unilateral NDAs, standalone/embedded confidentiality provisions",
+      ],
+    },
+    perspectives: [
+      {
+        id: "disclosing-party",
+        label: "Disclosing Party",
+        description:
+          "Protect confidential information, limit use, and secure remedies for unauthorized disclosure.",
+        focusAreas: [
+          "Definition and scope of Confidential Information",
+          "Use restrictions and purpose limitations",
+          "Return/destruction obligations",
+          "Remedies, injunctive relief, and liability caps",
+        ],
+        primary: "Disclosing Party",
+        counterpart: "Receiving Party",
+        guidance:
+          "Protect confidential information, limit use, and secure remedies.",
+        tone: "blue",
+      },
+      {
+        id: "receiving-party",
+        label: "Receiving Party",
+        description:
+          "Ensure obligations are feasible, exclusions are reasonable, and liability is proportionate.",
+        focusAreas: [
+          "Exclusions (public domain, independently developed)",
+          "Duration of confidentiality and survival",
+          "Information handling and security requirements",
+          "Liability exposure and indemnities",
+        ],
+        primary: "Receiving Party",
+        counterpart: "Disclosing Party",
+        guidance:
+          "Ensure obligations are feasible, exclusions reasonable, and liability proportionate.",
+        tone: "green",
+      },
+      {
+        id: "mutual",
+        label: "Mutual",
+        description:
+          "Balance obligations for both parties when each shares confidential information.",
+        focusAreas: [
+          "Reciprocal confidentiality duties and exclusions",
+          "Residual knowledge and purpose limits",
+          "Return/destruction and survival periods",
+          "Remedies and enforcement symmetry",
+        ],
+        primary: "Each Party",
+        counterpart: "Other Party",
+        guidance:
+          "Check that duties, exclusions, and remedies apply symmetrically to both parties.",
+        tone: "amber",
+      },
+    ],
+    reviewGuidance: {
+      focus: [
+        "Assess the definition and scope of Confidential Information, including exclusions and residual knowledge carve-outs.",
+        "Evaluate obligations on the receiving party: permitted disclosures, use restrictions, security measures, and notice obligations.",
+        "Review duration, survival clauses, remedies (including injunctive relief), and processes for return/destroy mechanics.",
+      ],
+      scoring: [
+        "Confidentiality scope and exclusions should drive ~40% of the score.",
+        "Safeguards, remedies, and breach handling contribute ~30%.",
+        "Survival, termination, and dispute resolution make up the remaining 30%.",
+      ],
+      mustHave: [
+        "Clear definition of Confidential Information with standard exclusions.",
+        "Return or destruction obligations upon termination or request.",
+        "Remedies or injunctive relief plus survival period for confidentiality obligations.",
+      ],
+      watchouts: [
+        "No survival term for confidentiality obligations.",
+        "Exclusions so broad they undermine protection.",
+        "Lack of liability allocation or remedy for breaches.",
+      ],
+    },
+  },
+  {
+    key: "dpa",
+    classificationType: "data_processing_agreement",
+    displayName: "Data Processing Agreement",
+    typeLabel: "Data Processing Agreement",
+    customContractType: "data-processing",
+    aliases: ["data processing", "dpa"],
+    playbookKey: "data_processing_agreement",
+    catalog: {
+      title: "Data Processing Agreements",
+      description:
+        "Review data processing agreements for compliance with the GDPR and latest EDPB guidelines. Get instant compliance report with extracted clauses, concepts, terms, highlighted risks, and compliance recommendations. Used by large corporate clients with high volumes of DPAs.",
+    },
+    detectionPatterns: [
+      /data processing agreement/i,
+      /processor/i,
+      /controller/i,
+      /gdpr/i,
+    ],
+    classification: {
+      confidence: 0.92,
+      keywords: [
+        "data processing",
+        "personal data",
+        "controller",
+        "processor",
+        "gdpr",
+        "data subject",
+        "edpb",
+        "data protection",
+        "sub-processor",
+        "breach notification",
+      ],
+      fileAliases: ["dpa", "data-processing"],
+      characteristics: [
+        "GDPR and data protection obligations referenced",
+        "Controller and processor roles defined",
+        "Security and breach notification terms present",
+        "Sub-processing or data transfer restrictions identified",
+      ],
+      reasoning:
+        "References to personal data handling and GDPR-style obligations align with a data processing agreement.",
+      subType: "GDPR-aligned DPA",
+      suggestedSolutions: ["compliance_score", "perspective_review"],
+      partyRoles: {
+        party1: "Data Controller",
+        party2: "Data Processor",
+      },
+      promptIndicators: [
+        'Keywords: "personal data", "data subject", "controller", "processor", "GDPR", "EDPB", "data protection", "processing activities"',
+        "Clauses: security measures, sub-processing, data breach notification, audit rights, cross-border transfers, SCCs",
+        "Regulatory: GDPR Article 28 compliance, data protection impact assessments",
+      ],
+    },
+    perspectives: [
+      {
+        id: "data-controller",
+        label: "Data Controller",
+        description:
+          "Ensure processor commitments, safeguards, and data subject protections meet controller obligations.",
+        focusAreas: [
+          "Processor obligations and sub-processor controls",
+          "Data breach notification and cooperation",
+          "Security safeguards and audit rights",
+          "Data subject rights support and deletion/return",
+        ],
+        primary: "Data Controller",
+        counterpart: "Data Processor",
+        guidance:
+          "Ensure processor commitments, sub-processor controls, and data subject support meet controller standards.",
+        tone: "blue",
+      },
+      {
+        id: "data-processor",
+        label: "Data Processor",
+        description:
+          "Evaluate controller requirements, liability exposure, and operational feasibility for the processor.",
+        focusAreas: [
+          "Scope of processing and documented instructions",
+          "Limitation of liability and indemnities",
+          "Security, certifications, and audit scope",
+          "Return/deletion timelines and assistance duties",
+        ],
+        primary: "Data Processor",
+        counterpart: "Data Controller",
+        guidance:
+          "Assess scope of instructions, liability, audit exposure, and operational feasibility for the processor.",
+        tone: "green",
+      },
+    ],
+    reviewGuidance: {
+      focus: [
+        "Verify lawful basis and clearly defined processing instructions from the controller.",
+        "Assess security measures, breach response, audit rights, and sub-processor governance.",
+        "Review cross-border transfer mechanisms, DPIA support, and data subject rights handling.",
+      ],
+      scoring: [
+        "Article 28/controller-processor clauses and instructions ~45% of the score.",
+        "Security measures, breach notification, and audit rights ~35%.",
+        "Transfers, DPIA cooperation, and data subject facilitation ~20%.",
+      ],
+      mustHave: [
+        "Documented processing instructions and purpose limitations.",
+        "Security measures with breach notification timelines.",
+        "Sub-processor approval, transfer safeguards, and data subject cooperation clauses.",
+      ],
+      watchouts: [
+        "No SLA for breach notification or incident cooperation.",
+        "Missing obligations or approvals for sub-processors.",
+        "Silence on cross-border transfers despite global operations.",
+      ],
+    },
+  },
+  {
+    key: "eula",
+    classificationType: "end_user_license_agreement",
+    displayName: "End User License Agreement",
+    typeLabel: "End User License Agreement",
+    customContractType: "license",
+    aliases: ["end user license", "software license", "eula"],
+    playbookKey: "end_user_license_agreement",
+    catalog: {
+      title: "End User License Agreements",
+      description:
+        "Review end user license agreements for compliance with established standards and best practices. Get instant report with insights and extracted clauses. Used most often for reviewing software license agreements.",
+    },
+    detectionPatterns: [
+      /end[-\s]?user license/i,
+      /software license/i,
+      /licensor/i,
+    ],
+    classification: {
+      confidence: 0.88,
+      keywords: [
+        "end user license",
+        "license grant",
+        "software",
+        "licensor",
+        "licensee",
+        "usage rights",
+        "subscription",
+        "software updates",
+      ],
+      fileAliases: ["eula", "license agreement"],
+      characteristics: [
+        "Software or digital product licence conditions defined",
+        "Usage restrictions and prohibited actions detailed",
+        "Support, maintenance, or updates referenced",
+        "Termination and IP ownership provisions present",
+      ],
+      reasoning:
+        "Terminology around licensing, permitted use, and software maintenance is consistent with an EULA.",
+      suggestedSolutions: ["risk_assessment", "full_summary"],
+      partyRoles: {
+        party1: "Licensor",
+        party2: "Licensee",
+      },
+      promptIndicators: [
+        'Keywords: "license", "end user", "software", "permitted use", "restrictions", "license grant", "proprietary rights"',
+        "Clauses: license scope, restrictions, warranties, support, updates, termination",
+        "Types: perpetual/subscription, enterprise/individual, installed or downloadable software",
+      ],
+    },
+    perspectives: [
+      {
+        id: "supplier",
+        label: "Supplier",
+        description:
+          "Review licensing scope, restrictions, and liability to protect the software publisher.",
+        focusAreas: [
+          "License scope, restrictions, and revocation",
+          "Warranty disclaimers and limitation of liability",
+          "IP protection and enforcement",
+          "Support/maintenance obligations",
+        ],
+        primary: "Supplier",
+        counterpart: "End User",
+        guidance:
+          "Review licensing scope, restrictions, and liability to protect the publisher.",
+        tone: "blue",
+      },
+      {
+        id: "end-user",
+        label: "End User",
+        description:
+          "Validate license rights, acceptable use, and available remedies for the software user.",
+        focusAreas: [
+          "Permitted uses and restrictions",
+          "Data usage/telemetry and privacy",
+          "Support, updates, and uptime expectations",
+          "Liability caps and available remedies",
+        ],
+        primary: "End User",
+        counterpart: "Supplier",
+        guidance:
+          "Validate license rights, acceptable use, and available remedies.",
+        tone: "green",
+      },
+    ],
+    reviewGuidance: {
+      focus: [
+        "Clarify licence scope, permitted/forbidden uses, transfer rights, and geographic limitations.",
+        "Assess warranty disclaimers, liability caps, termination triggers, and remedies.",
+        "Review update, maintenance, and support commitments, including SLAs if applicable.",
+      ],
+      scoring: [
+        "License scope and restrictions ~40% of the score.",
+        "Liability, indemnity, and dispute mechanisms ~30%.",
+        "Maintenance, updates, and termination obligations ~30%.",
+      ],
+      mustHave: [
+        "Specific permitted/prohibited uses, assignment, and transfer terms.",
+        "Termination rights for breach with post-termination obligations.",
+        "Warranty disclaimers and limitation of liability aligned with risk appetite.",
+      ],
+      watchouts: [
+        "License scope overly broad or silent on assignment.",
+        "No provisions for software updates or support expectations.",
+        "Missing limitation of liability or dispute resolution mechanism.",
+      ],
+    },
+  },
+  {
+    key: "ppc",
+    classificationType: "privacy_policy_document",
+    displayName: "Privacy Policy Compliance",
+    typeLabel: "Privacy Policy Document",
+    customContractType: "privacy",
+    aliases: ["privacy policy", "privacy notice", "ppc"],
+    playbookKey: "privacy_policy_document",
+    catalog: {
+      title: "Privacy Policy Documents",
+      description:
+        "Review privacy statements for compliance with the GDPR criteria. Get instant compliance report with extracted clauses and recommendations. Used most often for reviewing privacy notices of websites, as well as mobile applications published on App Store and Google Play.",
+    },
+    detectionPatterns: [
+      /privacy (policy|notice|statement)/i,
+      /personal (data|information)/i,
+      /cookies?/i,
+      /your (privacy )?rights/i,
+    ],
+    classification: {
+      confidence: 0.88,
+      keywords: [
+        "privacy policy",
+        "personal information",
+        "cookie",
+        "user rights",
+        "data retention",
+        "data collection",
+        "do not sell",
+        "ccpa",
+        "gdpr",
+      ],
+      fileAliases: ["privacy", "privacy-policy"],
+      characteristics: [
+        "User rights and privacy disclosures present",
+        "References to data collection or retention",
+        "Mentions of GDPR, CCPA, or similar regulations",
+        "Instructions for contacting privacy officer or exercising rights",
+      ],
+      reasoning:
+        "Regulatory transparency and user rights language matches a privacy policy document.",
+      suggestedSolutions: ["compliance_score", "full_summary"],
+      partyRoles: {
+        party1: "Service Provider",
+        party2: "End User",
+      },
+      promptIndicators: [
+        'Keywords: "privacy policy", "data collection", "user rights", "cookie policy", "privacy notice", "personal information"',
+        "Elements: data categories, processing purposes, legal basis, retention, rights, contact details",
+        "Compliance: GDPR transparency requirements, CCPA disclosures, privacy shield",
+      ],
+    },
+    perspectives: [
+      {
+        id: "data-subject",
+        label: "Data Subject",
+        description:
+          "Review from the individual’s viewpoint with emphasis on privacy rights, consent, and transparency.",
+        focusAreas: [
+          "Individual privacy rights and data access",
+          "Consent mechanisms and withdrawal options",
+          "Data retention and deletion rights",
+          "Data portability and transparency requirements",
+        ],
+        primary: "Data Subject",
+        counterpart: "Organization",
+        guidance:
+          "Focus on individual privacy rights, transparency, and lawful basis.",
+        tone: "blue",
+      },
+      {
+        id: "organization",
+        label: "Organization",
+        description:
+          "Assess obligations and liabilities for the business publishing the privacy notice.",
+        focusAreas: [
+          "Organizational compliance obligations",
+          "Business risk assessment and mitigation",
+          "Legal liability and financial exposure",
+          "Operational and procedural requirements",
+        ],
+        primary: "Organization",
+        counterpart: "Data Subjects",
+        guidance:
+          "Emphasize compliance obligations, disclosures, and risk/liability posture.",
+        tone: "green",
+      },
+    ],
+    reviewGuidance: {
+      focus: [
+        "Ensure transparency across data categories, purpose, legal bases, and contact details.",
+        "Confirm user rights, opt-out processes, consent mechanisms, and parent/child protections.",
+        "Assess cookie disclosures, analytics tracking, data sharing, and cross-border transfer statements.",
+      ],
+      scoring: [
+        "Transparency, data categories, and purposes ~35% of the score.",
+        "Rights handling, consent/opt-out, and contact details ~35%.",
+        "Transfer disclosures, security statements, and retention policies ~30%.",
+      ],
+      mustHave: [
+        "List of personal data collected with processing purposes and legal bases.",
+        "Instructions for exercising rights plus contact or DPO information.",
+        "Cookie/advertising disclosures and transfer safeguards.",
+      ],
+      watchouts: [
+        "No process for data subject rights or timelines.",
+        "Missing disclosure on cross-border transfers when applicable.",
+        "Cookies or trackers referenced but not explained.",
+      ],
+    },
+  },
+  {
+    key: "psa",
+    classificationType: "product_supply_agreement",
+    displayName: "Product Supply Agreement",
+    typeLabel: "Product Supply Agreement",
+    customContractType: "supply",
+    aliases: ["product supply", "supply agreement", "psa"],
+    playbookKey: "professional_services_agreement",
+    catalog: {
+      title: "Product Supply Agreements",
+      description:
+        "Review product supply agreements for compliance with established standards and best practices. Get instant report with insights and extracted clauses.",
+    },
+    detectionPatterns: [
+      /(product )?supply agreement/i,
+      /purchase orders?/i,
+      /goods/i,
+    ],
+    classification: {
+      confidence: 0.84,
+      keywords: [
+        "supply",
+        "purchase order",
+        "delivery",
+        "goods",
+        "products",
+        "quantity",
+        "specifications",
+        "inventory",
+      ],
+      fileAliases: ["supply", "supply-agreement", "purchase"],
+      characteristics: [
+        "Product or goods supply obligations",
+        "Delivery schedule or logistics language",
+        "Pricing, invoicing, or acceptance terms",
+        "Quality standards or warranties referenced",
+      ],
+      reasoning:
+        "References to goods delivery and purchase obligations indicate a product supply agreement.",
+      suggestedSolutions: ["risk_assessment", "perspective_review"],
+      partyRoles: {
+        party1: "Buyer",
+        party2: "Supplier",
+      },
+      promptIndicators: [
+        'Keywords: "supply", "purchase", "procurement", "delivery", "goods", "products", "specifications", "quantity"',
+        "Clauses: pricing, delivery terms, quality standards, warranties, returns, force majeure",
+        "Types: master supply, purchase orders, distribution, manufacturing",
+      ],
+    },
+    perspectives: [
+      {
+        id: "supplier",
+        label: "Supplier",
+        description:
+          "Assess supply commitments, forecasts, warranties, and limits on liability for providing goods.",
+        focusAreas: [
+          "Order commitments and forecast flexibility",
+          "Delivery terms, risk transfer, and delays",
+          "Product warranties and remedy scope",
+          "Liability caps and exclusions",
+        ],
+        primary: "Supplier",
+        counterpart: "Customer",
+        guidance:
+          "Assess supply commitments, forecasts, warranties, and liability limits.",
+        tone: "blue",
+      },
+      {
+        id: "customer",
+        label: "Customer",
+        description:
+          "Check supply reliability, quality protections, and commercial remedies for non-conforming goods.",
+        focusAreas: [
+          "Quantity/forecast protections and minimums",
+          "Delivery obligations and penalties",
+          "Quality standards, inspections, and returns",
+          "Indemnities and limitation of liability",
+        ],
+        primary: "Customer",
+        counterpart: "Supplier",
+        guidance:
+          "Check reliability, quality protections, and commercial remedies for non-conformance.",
+        tone: "green",
+      },
+    ],
+    reviewGuidance: {
+      focus: [
+        "Analyse product specifications, quality standards, inspection/acceptance procedures, and logistics responsibilities.",
+        "Review delivery schedules, forecasting, penalties, and change management mechanisms.",
+        "Assess warranty, liability, indemnities, force majeure, and continuity/resilience planning.",
+      ],
+      scoring: [
+        "Specifications, quality, and acceptance ~35% of scoring.",
+        "Logistics, delivery, and change control ~30%.",
+        "Warranty, liability, indemnity, and contingency planning ~35%.",
+      ],
+      mustHave: [
+        "Quality/inspection rights with acceptance criteria.",
+        "Forecasting, ordering cadence, and remedies for delays.",
+        "Risk allocation for defective goods and force majeure provisions.",
+      ],
+      watchouts: [
+        "No remedy for non-conforming goods.",
+        "Delivery lead times or penalties undefined.",
+        "Continuity or contingency obligations absent.",
+      ],
+    },
+  },
+  {
+    key: "ca",
+    classificationType: "consultancy_agreement",
+    displayName: "Consultancy Agreement",
+    typeLabel: "Consultancy Agreement",
+    customContractType: "consultancy",
+    aliases: ["consultancy", "consulting", "ca"],
+    playbookKey: "consultancy_agreement",
+    catalog: {
+      title: "Consultancy Agreements",
+      description:
+        "Review consultancy agreements (and other professional services agreements) for compliance with established standards and best practices. Get instant report with insights and extracted clauses.",
+    },
+    detectionPatterns: [
+      /consulting agreement/i,
+      /services? provider/i,
+      /consultant/i,
+    ],
+    classification: {
+      confidence: 0.85,
+      keywords: [
+        "consulting",
+        "services",
+        "professional services",
+        "statement of work",
+        "fees",
+        "expenses",
+        "deliverables",
+        "independent contractor",
+      ],
+      fileAliases: ["consulting", "consultancy"],
+      characteristics: [
+        "Professional services scope defined",
+        "Payment and expense handling clauses",
+        "Independent contractor language present",
+        "Deliverables or milestones described",
+      ],
+      reasoning:
+        "Service delivery language and statement of work references align with a consultancy agreement.",
+      suggestedSolutions: ["full_summary", "risk_assessment"],
+      partyRoles: {
+        party1: "Client",
+        party2: "Consultant",
+      },
+      promptIndicators: [
+        'Keywords: "consulting services", "professional services", "advisory", "expertise", "deliverables", "statement of work"',
+        "Clauses: scope of services, fees, expenses, independent contractor, work product ownership",
+        "Types: strategic advisory, technical consulting, interim management",
+      ],
+    },
+    perspectives: [
+      {
+        id: "supplier",
+        label: "Supplier",
+        description:
+          "Check scope clarity, payment triggers, IP ownership, and limits on liability for delivering services.",
+        focusAreas: [
+          "Scope of work and change control",
+          "Fees, milestones, and payment terms",
+          "IP ownership and license back",
+          "Liability caps and exclusions",
+        ],
+        primary: "Supplier",
+        counterpart: "Client",
+        guidance:
+          "Check scope clarity, payment triggers, IP ownership, and liability caps.",
+        tone: "blue",
+      },
+      {
+        id: "client",
+        label: "Client",
+        description:
+          "Validate deliverable quality, acceptance rights, IP ownership, and protections for delays or defects.",
+        focusAreas: [
+          "Acceptance criteria and remedies",
+          "Service levels and delivery timelines",
+          "IP transfer/use rights",
+          "Indemnities and liability coverage",
+        ],
+        primary: "Client",
+        counterpart: "Supplier",
+        guidance:
+          "Validate deliverable quality, acceptance rights, and remedies for delays/defects.",
+        tone: "green",
+      },
+    ],
+    reviewGuidance: {
+      focus: [
+        "Clarify scope of services, deliverables, acceptance criteria, change control, and performance standards.",
+        "Review fee structure, invoicing cadence, expenses, milestones, and termination rights.",
+        "Assess IP ownership, confidentiality, non-solicitation, and liability/indemnity terms.",
+      ],
+      scoring: [
+        "Scope, deliverables, and acceptance ~35% of score.",
+        "Commercial terms, milestones, and change control ~30%.",
+        "IP ownership, confidentiality, and liability ~35%.",
+      ],
+      mustHave: [
+        "Detailed statement of work with milestones or deliverables.",
+        "Ownership/assignment of work product and pre-existing IP.",
+        "Termination rights, liability, and insurance/indemnity settings.",
+      ],
+      watchouts: [
+        "Scope vague or missing acceptance criteria.",
+        "No liability caps or indemnity provisions.",
+        "Key personnel or substitution rights absent.",
+      ],
+    },
+  },
+  {
+    key: "rda",
+    classificationType: "research_development_agreement",
+    displayName: "Research & Development Agreement",
+    typeLabel: "R&D Agreement",
+    customContractType: "research",
+    aliases: [
+      "research",
+      "development agreement",
+      "research and development",
+      "r&d",
+      "rda",
+    ],
+    playbookKey: "research_development_agreement",
+    catalog: {
+      title: "R&D Agreements",
+      description:
+        "Conduct compliance review of R&D agreements to ensure adherence to industry standards. Obtain a report on potential compliance risks and recommendations for risk mitigation.",
+    },
+    detectionPatterns: [
+      /research and development/i,
+      /collaboration/i,
+      /intellectual property rights/i,
+    ],
+    classification: {
+      confidence: 0.82,
+      keywords: [
+        "research",
+        "development",
+        "innovation",
+        "intellectual property",
+        "patent",
+        "technology transfer",
+        "collaboration",
+      ],
+      fileAliases: ["r&d", "research and development"],
+      characteristics: [
+        "Research collaboration or development activities outlined",
+        "Intellectual property ownership and licensing addressed",
+        "Milestones or deliverables defined",
+        "Confidentiality and publication considerations referenced",
+      ],
+      reasoning:
+        "Repeated references to research activity, IP ownership, and development milestones indicate an R&D agreement.",
+      suggestedSolutions: [
+        "full_summary",
+        "risk_assessment",
+        "perspective_review",
+      ],
+      partyRoles: {
+        party1: "Research Sponsor",
+        party2: "Research Provider",
+      },
+      promptIndicators: [
+        'Keywords: "research", "development", "innovation", "intellectual property", "patents", "technology transfer", "R&D collaboration"',
+        "Clauses: IP ownership, joint inventions, publication rights, commercialization, milestones",
+        "Types: sponsored research, joint development, technology licensing",
+      ],
+    },
+    perspectives: [
+      {
+        id: "contractor",
+        label: "Contractor",
+        description:
+          "Clarify research scope, IP ownership, and risk allocation while delivering development work.",
+        focusAreas: [
+          "Scope, milestones, and change control",
+          "Foreground/background IP and licensing",
+          "Confidential data handling",
+          "Liability caps and indemnities",
+        ],
+        primary: "Contractor",
+        counterpart: "Customer",
+        guidance:
+          "Clarify research scope, IP ownership, and risk allocation for delivery.",
+        tone: "blue",
+      },
+      {
+        id: "customer",
+        label: "Customer",
+        description:
+          "Protect investment with clear deliverables, ownership rights, and remedies for delays or defects.",
+        focusAreas: [
+          "Milestones, acceptance, and performance criteria",
+          "Ownership of results and license rights",
+          "Data security and confidentiality",
+          "Warranties, indemnities, and liability",
+        ],
+        primary: "Customer",
+        counterpart: "Contractor",
+        guidance:
+          "Protect investment with clear milestones, ownership, and remedies.",
+        tone: "green",
+      },
+    ],
+    reviewGuidance: {
+      focus: [
+        "Confirm research objectives, collaboration structure, governance, milestones, and contribution responsibilities.",
+        "Examine ownership of background and foreground IP, licensing rights, commercialisation terms, and joint inventions.",
+        "Evaluate publication rights, confidentiality, data sharing, ethical/regulatory compliance, and exit/termination mechanics.",
+      ],
+      scoring: [
+        "Ownership/licensing of background and foreground IP ~40% of score.",
+        "Governance, milestones, and funding controls ~35%.",
+        "Compliance, publication, and exit strategy ~25%.",
+      ],
+      mustHave: [
+        "Definition of background vs. new IP and ownership/outcome.",
+        "Governance mechanism (steering committee, reporting cadence).",
+        "Publication approval process and regulatory compliance covenants.",
+      ],
+      watchouts: [
+        "No dispute resolution around jointly developed IP.",
+        "Milestones and success criteria undefined.",
+        "No exit or wind-down mechanism if project halts early.",
+      ],
+    },
+  },
+  {
+    key: "msa",
+    classificationType: "master_services_agreement",
+    displayName: "Master Services Agreement",
+    typeLabel: "Master Services Agreement",
+    customContractType: "service",
+    aliases: ["master services", "master service agreement", "msa"],
+    playbookKey: "master_services_agreement",
+    catalog: {
+      title: "Master Services Agreements",
+      description:
+        "Review master services agreements and the framework terms that govern every statement of work. Get instant report on precedence, service levels, liability, and exit terms with extracted clauses.",
+    },
+    detectionPatterns: [
+      /master (services?|professional services) agreement/i,
+      /statements? of work/i,
+      /order of precedence/i,
+      /change (order|request)s?/i,
+    ],
+    classification: {
+      confidence: 0.85,
+      keywords: [
+        "master services agreement",
+        "master agreement",
+        "statement of work",
+        "order of precedence",
+        "change order",
+        "order form",
+        "service levels",
+        "acceptance",
+      ],
+      fileAliases: ["msa", "master services", "master-services"],
+      characteristics: [
+        "Framework terms governing future statements of work or orders",
+        "Order of precedence between master terms and SOWs",
+        "Change control and acceptance procedures",
+        "Service levels, liability caps, and SOW termination rights",
+      ],
+      reasoning:
+        "Framework terms that govern separately executed statements of work indicate a master services agreement.",
+      subType: "Services framework agreement",
+      suggestedSolutions: [
+        "risk_assessment",
+        "full_summary",
+        "perspective_review",
+      ],
+      partyRoles: {
+        party1: "Customer",
+        party2: "Service Provider",
+      },
+      promptIndicators: [
+        'Keywords: "master services agreement", "statement of work", "order form", "order of precedence", "change order", "service levels"',
+        "Clauses: framework terms for future SOWs/orders, acceptance, change control, SLAs, liability caps, termination of individual SOWs",
+        "Types: IT services MSA, outsourcing framework, professional services framework",
+      ],
+    },
+    perspectives: [
+      {
+        id: "customer",
+        label: "Customer",
+        description:
+          "Secure dependable delivery across every SOW, with acceptance rights, service levels, and remedies the SOWs cannot dilute.",
+        focusAreas: [
+          "Order of precedence and SOW overrides",
+          "Acceptance criteria and service levels",
+          "Ownership of deliverables and licences",
+          "Liability caps, indemnities, and exit support",
+        ],
+        primary: "Customer",
+        counterpart: "Service Provider",
+        guidance:
+          "Protect the customer across all SOWs: precedence, acceptance, service levels, and exit support.",
+        tone: "blue",
+      },
+      {
+        id: "service-provider",
+        label: "Service Provider",
+        description:
+          "Keep scope controlled, payment predictable, and liability capped across the framework and each SOW.",
+        focusAreas: [
+          "Scope definition and change control",
+          "Customer dependencies and delay relief",
+          "Payment terms and rate changes",
+          "Aggregate liability caps and exclusions",
+        ],
+        primary: "Service Provider",
+        counterpart: "Customer",
+        guidance:
+          "Protect the provider with controlled scope, documented customer dependencies, payment certainty, and an aggregate liability cap.",
+        tone: "green",
+      },
+    ],
+    reviewGuidance: {
+      focus: [
+        "Map the framework: how SOWs or orders are created, the order of precedence, and which terms a SOW may override.",
+        "Review acceptance, change control, service levels, and remedies that apply across every SOW.",
+        "Assess liability caps (per SOW vs. aggregate), indemnities, IP in deliverables, and termination of the MSA versus individual SOWs.",
+      ],
+      scoring: [
+        "Framework mechanics, precedence, and change control ~30% of the score.",
+        "Acceptance, service levels, and remedies ~35%.",
+        "Liability, indemnity, IP, and exit ~35%.",
+      ],
+      mustHave: [
+        "Order of precedence between the MSA, SOWs, and order forms.",
+        "Written change control and acceptance procedure for deliverables.",
+        "Liability cap, IP ownership of deliverables, and termination/transition terms that survive individual SOWs.",
+      ],
+      watchouts: [
+        "SOWs able to override core protections without saying so.",
+        "Liability cap reset per SOW or missing an aggregate limit.",
+        "Terminating the MSA leaves live SOWs without governing terms.",
+      ],
+    },
+  },
+  {
+    key: "saas",
+    classificationType: "saas_subscription_agreement",
+    displayName: "SaaS Subscription Agreement",
+    typeLabel: "SaaS Subscription Agreement",
+    customContractType: "service",
+    aliases: [
+      "saas",
+      "software as a service",
+      "software-as-a-service",
+      "subscription agreement",
+    ],
+    playbookKey: "saas_subscription_agreement",
+    catalog: {
+      title: "SaaS Subscription Agreements",
+      description:
+        "Review SaaS and cloud subscription agreements for availability commitments, data protection, and renewal terms. Get instant report with insights and extracted clauses.",
+    },
+    detectionPatterns: [
+      /software[-\s]as[-\s]a[-\s]service/i,
+      /subscription (term|fees?|period)/i,
+      /authori[sz]ed users?/i,
+      /uptime|service availability/i,
+    ],
+    classification: {
+      confidence: 0.86,
+      keywords: [
+        "software as a service",
+        "saas",
+        "subscription term",
+        "subscription fees",
+        "authorized users",
+        "uptime",
+        "service availability",
+        "customer data",
+        "hosted",
+      ],
+      fileAliases: ["saas", "subscription-agreement", "cloud services"],
+      characteristics: [
+        "Hosted service provided on a subscription basis",
+        "User limits, usage restrictions, or acceptable use terms",
+        "Availability commitments, support, or service credits",
+        "Customer data ownership, security, and export terms",
+      ],
+      reasoning:
+        "Subscription access to a hosted service with availability and customer data terms indicates a SaaS subscription agreement.",
+      subType: "Cloud subscription",
+      suggestedSolutions: [
+        "risk_assessment",
+        "compliance_score",
+        "perspective_review",
+      ],
+      partyRoles: {
+        party1: "Provider",
+        party2: "Customer",
+      },
+      promptIndicators: [
+        'Keywords: "software as a service", "subscription", "authorized users", "uptime", "service availability", "customer data", "hosted"',
+        "Clauses: subscription scope and user limits, SLAs and service credits, data security and ownership, renewal and price changes, data export on exit",
+        "Types: cloud subscription agreement, SaaS terms of service, platform access agreement",
+      ],
+    },
+    perspectives: [
+      {
+        id: "customer",
+        label: "Customer",
+        description:
+          "Check availability commitments, data protection, and exit rights for the subscribed service.",
+        focusAreas: [
+          "Uptime, support, and service credits",
+          "Data ownership, security, and breach notice",
+          "Renewal terms and price increases",
+          "Data export and transition on exit",
+        ],
+        primary: "Customer",
+        counterpart: "SaaS Provider",
+        guidance:
+          "Focus on availability, data protection, renewal pricing, and data export on exit.",
+        tone: "blue",
+      },
+      {
+        id: "provider",
+        label: "Provider",
+        description:
+          "Limit service commitments, protect the platform, and keep suspension rights and liability workable.",
+        focusAreas: [
+          "Usage restrictions and acceptable use",
+          "Service level scope and credit caps",
+          "Suspension rights and fee changes",
+          "Liability caps and warranty disclaimers",
+        ],
+        primary: "SaaS Provider",
+        counterpart: "Customer",
+        guidance:
+          "Keep service credits as the sole SLA remedy, protect the platform through usage restrictions, and cap liability.",
+        tone: "green",
+      },
+    ],
+    reviewGuidance: {
+      focus: [
+        "Confirm subscription scope: authorized users, usage limits, permitted use, and restrictions.",
+        "Evaluate availability commitments, support, service credits, and security/data protection obligations.",
+        "Review customer data ownership, export and deletion on exit, renewal and price-change mechanics, and liability allocation.",
+      ],
+      scoring: [
+        "Security, data protection, and customer data rights ~35% of the score.",
+        "Availability, support, and service credits ~30%.",
+        "Renewal, pricing, liability, and exit ~35%.",
+      ],
+      mustHave: [
+        "Uptime commitment with service credits or a termination right for chronic failure.",
+        "Customer ownership of its data with export and deletion on termination.",
+        "Security obligations, breach notification, and a DPA where personal data is processed.",
+      ],
+      watchouts: [
+        "Auto-renewal with uncapped price increases.",
+        "Provider may suspend or materially change the service unilaterally.",
+        "No window to export data after termination.",
+      ],
+    },
+  },
+];
+
+const normaliseLookup = (value: string) => value.trim().toLowerCase();
+
+export function getContractType(key: ContractTypeKey): ContractTypeDefinition {
+  const type = CONTRACT_TYPES.find((entry) => entry.key === key);
+  if (!type) {
+    throw new Error(`Unknown contract type: ${key}`);
+  }
+  return type;
+}
+
+/** Exact lookup by solution key, classification type, playbook key, name or alias. */
+export function findContractType(
+  value?: string | null,
+): ContractTypeDefinition | undefined {
+  if (!value) return undefined;
+  const normalized = normaliseLookup(value);
+  if (!normalized) return undefined;
+  const spaced = normalized.replace(/[_-]+/g, " ");
+  return CONTRACT_TYPES.find(
+    (type) =>
+      type.key === normalized ||
+      type.classificationType === normalized ||
+      type.playbookKey === normalized ||
+      type.displayName.toLowerCase() === normalized ||
+      type.aliases.includes(normalized) ||
+      type.aliases.includes(spaced),
+  );
+}
+
+/**
+ * Loose match for free-text solution ids and titles: the first type whose key
+ * or an alias appears anywhere in the value. Registry order breaks ties.
+ */
+export function matchContractType(
+  value?: string | null,
+): ContractTypeDefinition | undefined {
+  if (!value) return undefined;
+  const normalized = normaliseLookup(value);
+  if (!normalized) return undefined;
+  return CONTRACT_TYPES.find(
+    ({ key, aliases }) =>
+      normalized.includes(key) ||
+      aliases.some((alias) => normalized.includes(alias)),
+  );
+}
+
+export function findContractPerspective(
+  type: ContractTypeDefinition | undefined,
+  perspectiveId?: string | null,
+): ContractPerspective | undefined {
+  if (!type || !perspectiveId) return undefined;
+  const normalized = normaliseLookup(perspectiveId);
+  return type.perspectives.find((perspective) => perspective.id === normalized);
+}
@@ -177,3 +177,31 @@ export function getPlanStripeConfig(
 export function getPublicPlans(): PlanDefinition[] {
   return PLAN_CATALOG.filter((plan) => plan.isPublic !== false);
 }
+
+/**
+ * Days a report is kept under the first recognised plan key, or null for
+ * permanent storage. Unknown keys (such as a custom organization billing
+ * label) are skipped so the next key in line decides.
+ */
+export function resolveReportStorageDays(
+  planKeys: Array<string | null | undefined>,
+): number | null {
+  for (const key of planKeys) {
+    const plan = key ? getPlanByKey(key) : undefined;
+    if (!plan) continue;
+    return typeof plan.reportStorageDays === "number"
+      ? plan.reportStorageDays
+      : null;
+  }
+  return null;
+}
+
+export function computeReportExpiry(
+  storedAt: string | Date,
+  storageDays: number | null,
+): string | null {
+  if (storageDays === null) return null;
+  const start = new Date(storedAt).getTime();
+  if (!Number.isFinite(start)) return null;
+  return new Date(start + storageDays * 86_400_000).toISOString();
+}
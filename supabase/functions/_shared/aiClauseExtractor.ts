@@ -1,4 +1,12 @@
 import type { ClauseExtraction } from "./reviewSchema.ts";
+import {
+  DEFAULT_CONTRACT_LANGUAGE,
+  detectContractLanguage,
+  foldForMatch,
+  getContractLanguage,
+  translateLegalTerms,
+  type ContractLanguageCode,
+} from "../../../shared/contractLanguage.ts";
 
 export interface ClauseExtractionJob {
   clauses: ClauseExtraction[];
@@ -11,13 +19,17 @@ export async function extractClausesWithAI(options: {
   contractType?: string;
   filename?: string | null;
   maxClauses?: number;
+  /** Detected from the content when omitted. */
+  language?: ContractLanguageCode;
 }): Promise<ClauseExtractionJob> {
   const content = options.content?.trim();
   if (!content) {
     throw new Error("No content provided for clause extraction.");
   }
 
-  const segments = buildSegments(content);
+  const language =
+    options.language ?? detectContractLanguage(content).language;
+  const segments = buildSegments(content, language);
 
   if (!segments.length) {
     throw new Error("Unable to derive clause segments from content.");
@@ -28,6 +40,7 @@ export async function extractClausesWithAI(options: {
       segment,
       index,
       contractType: options.contractType,
+      language,
     }),
   );
 
@@ -60,7 +73,44 @@ function isLikelyInlineHeading(value: string): boolean {
   return false;
 }
 
-function buildSegments(content: string): ContractSegment[] {
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// English keywords stay recognised in every language: translated contracts
+// often keep "Section 4" or "Schedule 1" from their template.
+function buildHeadingPatterns(language: ContractLanguageCode) {
+  const english = getContractLanguage(DEFAULT_CONTRACT_LANGUAGE);
+  const profile = getContractLanguage(language);
+  const keywords = Array.from(
+    new Set([...english.headingKeywords, ...profile.headingKeywords]),
+  )
+    .map(escapeRegex)
+    .join("|");
+  const verbs = Array.from(
+    new Set([...english.definitionVerbs, ...profile.definitionVerbs]),
+  )
+    .map(escapeRegex)
+    .join("|");
+
+  // "Section 4 – Term", "§ 4 Term" and the Nordic "4 § Term".
+  const title = `(?:(?:\\s*[-–:]\\s*|\\s+)[\\p{L}\\p{N}\\s,&-]{1,80})?`;
+
+  return {
+    heading: new RegExp(
+      `^((?:${keywords})\\s+\\d+(?:\\.\\d+)*\\.?${title}|§\\s*\\d+[a-z]?${title}|\\d+\\s*§${title}|\\d+(?:\\.\\d+)*\\.?|\\p{Lu}[\\p{Lu}\\s,&-]{3,}|\\p{Lu}[\\p{L}\\p{N}\\s,&-]{0,80}:?)$`,
+      "iu",
+    ),
+    inlineHeading: new RegExp(
+      `^(\\p{Lu}[\\p{L}\\p{N}\\s,&-]{0,80}?)\\s+((?:${verbs})(?![\\p{L}\\p{N}])[\\s\\S]+)$`,
+      "iu",
+    ),
+  };
+}
+
+function buildSegments(
+  content: string,
+  language: ContractLanguageCode,
+): ContractSegment[] {
   const lines = content.split(/\r?\n/);
   const segments: ContractSegment[] = [];
   let currentHeading = "";
@@ -78,12 +128,10 @@ function buildSegments(content: string): ContractSegment[] {
     buffer = [];
   };
 
-  const headingRegex =
-    /^(section\s+\d+|article\s+\d+|\d+(?:\.\d+)*\.?|[A-Z][A-Z\s,&-]{3,}|[A-Z][A-Za-z0-9\s,&-]{0,80}:?)$/i;
+  const patterns = buildHeadingPatterns(language);
+  const headingRegex = patterns.heading;
   const splitInlineHeading = (line: string) => {
-    const match = line.match(
-      /^([A-Z][A-Za-z0-9\s,&-]{0,80}?)\s+((?:shall|means|mean|include|includes)\b[\s\S]+)$/i,
-    );
+    const match = line.match(patterns.inlineHeading);
     if (!match) return null;
     const heading = match[1].trim().replace(/[:\s]+$/, "");
     const remainder = match[2].trim();
@@ -127,14 +175,27 @@ function buildClauseFromSegment(options: {
   segment: ContractSegment;
   index: number;
   contractType?: string;
+  language: ContractLanguageCode;
 }): ClauseExtraction {
-  const { segment, index, contractType } = options;
-  const clauseId = segment.heading
-    .toLowerCase()
+  const { segment, index, contractType, language } = options;
+  const clauseId = foldForMatch(segment.heading)
     .replace(/[^a-z0-9]+/g, "-")
     .slice(0, 64) || `clause-${index + 1}`;
-  const category = inferCategory(segment.heading, segment.text, contractType);
-  const importance = inferImportance(segment.heading, segment.text);
+  // Keyword rules below are English; other languages are matched through
+  // their legal terms' English equivalents.
+  const englishTerms =
+    language === DEFAULT_CONTRACT_LANGUAGE
+      ? ""
+      : translateLegalTerms(`${segment.heading} ${segment.text}`).join(" ");
+  const category = inferCategory(
+    `${segment.heading} ${englishTerms}`,
+    segment.text,
+    contractType,
+  );
+  const importance = inferImportance(
+    `${segment.heading} ${englishTerms}`,
+    segment.text,
+  );
   const summary = buildSummary(segment.text);
 
   return {
@@ -155,6 +216,7 @@ function buildClauseFromSegment(options: {
     metadata: {
       source: "segment-parser",
       contractType,
+      language,
     },
   };
 }
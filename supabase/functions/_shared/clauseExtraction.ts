@@ -21,6 +21,7 @@ import {
   tokenVariants,
   tokenizeForMatch,
 } from "../../../shared/ai/reliability.ts";
+import { translateLegalTerms } from "../../../shared/contractLanguage.ts";
 
 const DEBUG_REVIEW = (() => {
   if (typeof Deno === "undefined") return false;
@@ -1641,10 +1642,16 @@ function buildIssueSignalText(
     .join(" ");
 }
 
+// The signal checks below look for English phrasing; text in other contract
+// languages also carries the English equivalents of its legal terms.
+function normalizeSignalText(value: string): string {
+  return [normalizeForMatch(value), ...translateLegalTerms(value)].join(" ");
+}
+
 function normalizeIssueSignals(
   issue: AnalysisReport["issuesToAddress"][number],
 ): string {
-  return normalizeForMatch(buildIssueSignalText(issue));
+  return normalizeSignalText(buildIssueSignalText(issue));
 }
 
 function issueHasTokens(
@@ -1671,8 +1678,8 @@ function clauseSupportsRemedies(
   clauseText: string,
 ): boolean {
   const headingText = buildClauseHeadingText(clause);
-  const normalizedHeading = normalizeForMatch(headingText);
-  const normalizedText = normalizeForMatch(clauseText);
+  const normalizedHeading = normalizeSignalText(headingText);
+  const normalizedText = normalizeSignalText(clauseText);
   const headingSignals =
     normalizedHeading.includes("remedies") ||
     normalizedHeading.includes("remedy");
@@ -1704,7 +1711,7 @@ function clauseSupportsUseLimitation(
   clause: ClauseExtraction,
   clauseText: string,
 ): boolean {
-  const normalized = normalizeForMatch(
+  const normalized = normalizeSignalText(
     `${clause.title ?? ""} ${clauseText}`,
   );
   const hasReceivingPartyObligation =
@@ -1739,7 +1746,7 @@ function clauseSupportsDefinition(
   clause: ClauseExtraction,
   clauseText: string,
 ): boolean {
-  const normalized = normalizeForMatch(
+  const normalized = normalizeSignalText(
     `${clause.title ?? ""} ${clauseText}`,
   );
   if (!normalized.includes("confidential information")) return false;
@@ -1755,7 +1762,7 @@ function clauseSupportsStrongDefinition(
   clause: ClauseExtraction,
   clauseText: string,
 ): boolean {
-  const normalized = normalizeForMatch(
+  const normalized = normalizeSignalText(
     `${clause.title ?? ""} ${clauseText}`,
   );
   if (!normalized.includes("confidential information")) return false;
@@ -1814,7 +1821,7 @@ function clauseSupportsReturnDestruction(
   clause: ClauseExtraction,
   clauseText: string,
 ): boolean {
-  const normalized = normalizeForMatch(
+  const normalized = normalizeSignalText(
     `${clause.title ?? ""} ${clauseText}`,
   );
   const hasConfidential = normalized.includes("confidential information");
@@ -1875,7 +1882,7 @@ function clauseSupportsGoverningLaw(
   clause: ClauseExtraction,
   clauseText: string,
 ): boolean {
-  const normalized = normalizeForMatch(
+  const normalized = normalizeSignalText(
     `${clause.title ?? ""} ${clauseText}`,
   );
   if (normalized.includes("governing law")) return true;
@@ -1932,7 +1939,7 @@ function clauseSupportsCompelledDisclosure(
   clause: ClauseExtraction,
   clauseText: string,
 ): boolean {
-  const normalized = normalizeForMatch(
+  const normalized = normalizeSignalText(
     `${clause.title ?? ""} ${clauseText}`,
   );
   return hasCompelledDisclosureProximity(normalized);
@@ -1952,7 +1959,7 @@ function clauseSupportsMarkingNotice(
   clause: ClauseExtraction,
   clauseText: string,
 ): boolean {
-  const normalized = normalizeForMatch(
+  const normalized = normalizeSignalText(
     `${clause.title ?? ""} ${clauseText}`,
   );
   if (!normalized.includes("confidential")) return false;
@@ -737,6 +737,10 @@ function describePurpose(contractTypeKey: string) {
       return "Provides the license terms for using software or digital services.";
     case "professional_services_agreement":
       return "Framework for delivering professional services and SOWs.";
+    case "master_services_agreement":
+      return "Sets the framework terms that govern each statement of work.";
+    case "saas_subscription_agreement":
+      return "Grants subscription access to a hosted software service.";
     default:
       return "Commercial agreement outlining obligations and risk allocation.";
   }
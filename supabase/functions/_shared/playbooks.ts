@@ -3,15 +3,13 @@ import type {
   CustomSolutionClauseTemplate,
   CustomSolutionDeviationRule,
 } from "../../../shared/api.ts";
+import {
+  applyPlaybookOverrides,
+  type PlaybookOverrideLike,
+} from "../../../shared/ai/reliability.ts";
+import type { ContractPlaybookKey } from "../../../shared/contractTypes.ts";
 
-export type PlaybookKey =
-  | "data_processing_agreement"
-  | "non_disclosure_agreement"
-  | "privacy_policy_document"
-  | "consultancy_agreement"
-  | "research_development_agreement"
-  | "end_user_license_agreement"
-  | "professional_services_agreement";
+export type PlaybookKey = ContractPlaybookKey;
 
 export interface ContractPlaybook {
   key: PlaybookKey;
@@ -24,6 +22,7 @@ export interface ContractPlaybook {
     title: string;
     mustInclude: string[];
     redFlags: string[];
+    fallbackPositions?: string[];
   }>;
   draftingTone: string;
   negotiationGuidance: string[];
@@ -91,12 +90,13 @@ const isHumanAnchor = (value: string) => {
 export function buildCustomPlaybook(
   customSolution: CustomSolution,
   baseKey: PlaybookKey,
+  overrides?: PlaybookOverrideLike[] | null,
 ): ContractPlaybook {
   const clauseLibrary = normaliseCustomClauses(customSolution.clauseLibrary);
   const deviationRules = normaliseCustomDeviationRules(
     customSolution.deviationRules,
   );
-  const basePlaybook = resolvePlaybook(baseKey);
+  const basePlaybook = resolvePlaybook(baseKey, overrides);
   const customRulesText = (customSolution.customRules ?? "").toLowerCase();
 
   const criticalClauseTitles = new Set<string>();
@@ -2195,19 +2195,302 @@ export const CONTRACT_PLAYBOOKS: Record<PlaybookKey, ContractPlaybook> = {
       "Ensure dependencies on client are documented",
     ],
   }),
+  master_services_agreement: createPlaybook({
+    key: "master_services_agreement",
+    displayName: "Master Services Agreement",
+    description:
+      "Framework terms that govern every statement of work: precedence, change control, service levels, and risk allocation.",
+    regulatoryFocus: [
+      "Outsourcing and subcontracting controls",
+      "Data protection for services personnel and client data",
+    ],
+    clauseTemplates: [
+      {
+        id: "msa-order-of-precedence",
+        title: "Order of precedence",
+        tags: ["order of precedence", "statement of work", "conflict"],
+        insertionAnchors: [
+          "Order of precedence",
+          "Statements of Work",
+          "Conflict",
+        ],
+        text:
+          "Order of precedence. Each Statement of Work is governed by this Agreement. If a Statement of Work conflicts with this Agreement, this Agreement prevails unless the Statement of Work expressly identifies the clause it amends and is signed by authorized representatives of both parties.",
+      },
+      {
+        id: "msa-change-control",
+        title: "Change control",
+        tags: ["change control", "change order", "scope change"],
+        insertionAnchors: [
+          "Change control",
+          "Changes",
+          "Change orders",
+        ],
+        text:
+          "Change control. Any change to the scope, timeline, or fees of a Statement of Work must be documented in a written change order signed by both parties. Until a change order is signed, Provider will continue to perform the existing Statement of Work.",
+      },
+      {
+        id: "msa-acceptance",
+        title: "Acceptance",
+        tags: ["acceptance", "deliverables", "testing"],
+        insertionAnchors: [
+          "Acceptance",
+          "Deliverables",
+          "Testing",
+        ],
+        text:
+          "Acceptance. Customer will accept each deliverable or notify Provider of material non-conformities with the applicable Statement of Work within ten (10) business days of delivery. Provider will correct notified non-conformities and resubmit the deliverable for acceptance.",
+      },
+      {
+        id: "msa-service-levels",
+        title: "Service levels",
+        tags: ["service levels", "sla", "service credits"],
+        insertionAnchors: [
+          "Service Levels",
+          "SLA",
+          "Service credits",
+        ],
+        text:
+          "Service levels. Provider shall meet the service levels set out in each Statement of Work. Service credits for missed service levels do not limit Customer's right to terminate the affected Statement of Work for repeated or material failure.",
+      },
+      {
+        id: "msa-liability",
+        title: "Limitation of liability",
+        tags: ["liability", "aggregate cap", "limitation of liability"],
+        insertionAnchors: [
+          "Limitation of liability",
+          "Liability",
+          "Indemnities",
+        ],
+        text:
+          "Limitation of liability. Each party's aggregate liability under this Agreement and all Statements of Work is limited to the fees paid or payable in the twelve (12) months before the claim, except for breaches of confidentiality, data protection obligations, indemnities, or willful misconduct.",
+      },
+      {
+        id: "msa-termination-transition",
+        title: "Termination and transition",
+        tags: ["termination", "transition", "exit"],
+        insertionAnchors: [
+          "Termination",
+          "Transition",
+          "Exit",
+        ],
+        text:
+          "Termination and transition. Termination of this Agreement does not terminate Statements of Work in progress, which remain governed by this Agreement until they expire or are terminated. On termination, Provider will provide reasonable transition assistance and return Customer data.",
+      },
+    ],
+    clauseAnchors: [
+      "Statements of work and order of precedence",
+      "Change control",
+      "Acceptance of deliverables",
+      "Service levels and service credits",
+      "Fees, invoicing, and rate changes",
+      "IP ownership of deliverables",
+      "Confidentiality and data protection",
+      "Subcontracting and personnel",
+      "Indemnities and limitation of liability",
+      "Termination of the MSA and of individual SOWs",
+      "Transition and exit assistance",
+      "Governing law and dispute resolution",
+    ],
+    criticalClauses: [
+      {
+        title: "Order of precedence",
+        mustInclude: [
+          "Ranking between MSA, SOWs, and order forms",
+          "Core protections a SOW cannot override",
+        ],
+        redFlags: ["SOW terms silently prevail over the MSA"],
+      },
+      {
+        title: "Change control",
+        mustInclude: ["Written change order signed by both parties"],
+        redFlags: ["Unilateral right to change scope or rates"],
+      },
+      {
+        title: "Acceptance and service levels",
+        mustInclude: ["Acceptance criteria/timeline", "Remedies for missed service levels"],
+        redFlags: ["Automatic acceptance", "Service credits as the only remedy for chronic failure"],
+      },
+      {
+        title: "Liability and indemnities",
+        mustInclude: [
+          "Aggregate cap across all SOWs",
+          "Carve-outs for confidentiality and data breaches",
+        ],
+        redFlags: ["Cap resets per SOW", "Unlimited liability for the customer"],
+      },
+      {
+        title: "Termination and transition",
+        mustInclude: [
+          "Effect of MSA termination on live SOWs",
+          "Exit assistance and data return",
+        ],
+        redFlags: ["No handover obligations on exit"],
+      },
+    ],
+    negotiationGuidance: [
+      "Keep risk allocation in the MSA and commercial detail in SOWs",
+      "Agree an aggregate liability cap rather than per-SOW caps",
+    ],
+  }),
+  saas_subscription_agreement: createPlaybook({
+    key: "saas_subscription_agreement",
+    displayName: "SaaS Subscription Agreement",
+    description:
+      "Hosted software subscriptions: availability, data protection, customer data rights, and renewal terms.",
+    regulatoryFocus: [
+      "GDPR Article 28 where personal data is hosted",
+      "ISO 27001 / SOC 2 assurance",
+      "Consumer and auto-renewal laws",
+    ],
+    clauseTemplates: [
+      {
+        id: "saas-subscription-scope",
+        title: "Subscription scope",
+        tags: ["subscription", "authorized users", "usage limits"],
+        insertionAnchors: [
+          "Subscription",
+          "Access and use",
+          "Authorized Users",
+        ],
+        text:
+          "Subscription scope. Provider grants Customer a non-exclusive right for its Authorized Users to access and use the Service during the Subscription Term, within the usage limits in the Order Form, for Customer's internal business purposes.",
+      },
+      {
+        id: "saas-service-levels",
+        title: "Service levels",
+        tags: ["service levels", "uptime", "service credits"],
+        insertionAnchors: [
+          "Service Levels",
+          "Availability",
+          "Support",
+        ],
+        text:
+          "Service levels. Provider will make the Service available at least 99.9% of each calendar month, excluding scheduled maintenance notified in advance. If availability falls below this level, Customer is entitled to service credits, and may terminate if availability falls below it in three (3) months of any six (6) month period.",
+      },
+      {
+        id: "saas-customer-data",
+        title: "Customer data",
+        tags: ["customer data", "data ownership", "data export"],
+        insertionAnchors: [
+          "Customer Data",
+          "Data ownership",
+          "Data export",
+        ],
+        text:
+          "Customer data. Customer retains all rights in Customer Data. Provider will use Customer Data only to provide the Service. For thirty (30) days after termination, Customer may export its Customer Data, after which Provider will delete it unless retention is required by law.",
+      },
+      {
+        id: "saas-security",
+        title: "Security and data protection",
+        tags: ["security", "data protection", "breach notification"],
+        insertionAnchors: [
+          "Security",
+          "Data protection",
+          "Personal data",
+        ],
+        text:
+          "Security and data protection. Provider will maintain appropriate technical and organizational measures to protect Customer Data, notify Customer without undue delay of any security incident affecting Customer Data, and process personal data in accordance with the data processing agreement.",
+      },
+      {
+        id: "saas-renewal-fees",
+        title: "Renewal and fees",
+        tags: ["renewal", "fees", "price increase"],
+        insertionAnchors: [
+          "Fees",
+          "Renewal",
+          "Subscription Term",
+        ],
+        text:
+          "Renewal and fees. The Subscription Term renews for successive periods of twelve (12) months unless either party gives notice of non-renewal at least sixty (60) days before the end of the current term. Fee increases on renewal are limited to five percent (5%) and require notice at least ninety (90) days before renewal.",
+      },
+      {
+        id: "saas-suspension",
+        title: "Suspension",
+        tags: ["suspension", "acceptable use", "notice"],
+        insertionAnchors: [
+          "Suspension",
+          "Acceptable use",
+        ],
+        text:
+          "Suspension. Provider may suspend access only to the extent necessary to address a security threat or a material breach of the acceptable use terms, and will give prior notice where reasonably possible and restore access promptly once the cause is resolved.",
+      },
+    ],
+    clauseAnchors: [
+      "Subscription scope and authorized users",
+      "Acceptable use and restrictions",
+      "Service levels, support, and service credits",
+      "Security and data protection",
+      "Customer data ownership, export, and deletion",
+      "Fees, renewal, and price changes",
+      "Suspension",
+      "Warranties and disclaimers",
+      "Indemnities and limitation of liability",
+      "Termination and transition",
+    ],
+    criticalClauses: [
+      {
+        title: "Service levels",
+        mustInclude: [
+          "Uptime commitment and measurement",
+          "Service credits or termination for chronic failure",
+        ],
+        redFlags: ["Availability on a reasonable-efforts basis only"],
+      },
+      {
+        title: "Customer data",
+        mustInclude: [
+          "Customer ownership of its data",
+          "Export and deletion on termination",
+        ],
+        redFlags: ["Provider may use customer data beyond providing the service"],
+      },
+      {
+        title: "Security and data protection",
+        mustInclude: ["Security measures", "Breach notification", "DPA where personal data is processed"],
+        redFlags: ["No breach notification commitment"],
+      },
+      {
+        title: "Renewal and pricing",
+        mustInclude: ["Renewal notice period", "Cap on price increases"],
+        redFlags: ["Auto-renewal with uncapped price increases"],
+      },
+      {
+        title: "Suspension",
+        mustInclude: ["Notice before suspension", "Suspension limited to the affected use"],
+        redFlags: ["Suspension at provider's discretion without notice"],
+      },
+    ],
+    negotiationGuidance: [
+      "Tie service credits to business-critical availability",
+      "Secure a data export window before deletion",
+    ],
+  }),
 };
 
 export function resolvePlaybook(
   key: string | null | undefined,
+  overrides?: PlaybookOverrideLike[] | null,
 ): ContractPlaybook {
   const normalized = (key ?? "").toLowerCase();
-  return (
+  const playbook =
     Object.values(CONTRACT_PLAYBOOKS).find(
       (playbook) => playbook.key === normalized,
     ) ??
     Object.values(CONTRACT_PLAYBOOKS).find((playbook) =>
       playbook.displayName.toLowerCase() === normalized,
     ) ??
-    CONTRACT_PLAYBOOKS.non_disclosure_agreement
-  );
+    CONTRACT_PLAYBOOKS.non_disclosure_agreement;
+
+  const applicable =
+    overrides?.filter((override) => override.playbookKey === playbook.key) ??
+    [];
+  if (!applicable.length) return playbook;
+
+  const merged = applyPlaybookOverrides(playbook, applicable);
+  // A replacing org playbook owns the full criteria set, so the built-in
+  // regional overlays would reintroduce clauses the organization removed.
+  return applicable.some((override) => override.mode === "replace")
+    ? { ...merged, regionalCriteria: [] }
+    : merged;
 }
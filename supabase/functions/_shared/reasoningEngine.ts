@@ -28,17 +28,41 @@ import {
   evaluatePlaybookCoverageFromContent,
   filterIssuesConflictingWithCriteriaMet,
   normaliseReportExpiry,
+  type PlaybookOverrideLike,
 } from "../../../shared/ai/reliability.ts";
 import { LEGAL_LANGUAGE_PROMPT_BLOCK } from "../../../shared/legalLanguage.ts";
+import { findContractType } from "../../../shared/contractTypes.ts";
+import {
+  buildContractLanguageInstructions,
+  type ContractLanguageCode,
+  type ReportLanguageMode,
+} from "../../../shared/contractLanguage.ts";
 import type { CustomSolution } from "../../../shared/api.ts";
+import {
+  resolveAnalysisDepthProfile,
+  type AnalysisDepthProfile,
+} from "../../../shared/ai/solutionProfiles.ts";
+import {
+  computeScoreBreakdown,
+  type ResolvedScoringProfile,
+  type ScoreBreakdown,
+} from "../../../shared/ai/scoringProfile.ts";
+import {
+  createLlmProviderRegistry,
+  LlmProviderError,
+  readLlmRoutingConfig,
+  resolveAiModelRoute,
+  resolveLlmProviderChain,
+  runWithLlmFailover,
+  type LlmProvider,
+  type LlmProviderId,
+  type LlmRequest,
+  type LlmResponse,
+} from "../../../shared/ai/llmProviders.ts";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
 
-const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY");
-const OPENAI_API_BASE =
-  Deno.env.get("OPENAI_API_BASE") ?? "https://api.openai.com/v1/chat/completions";
-const OPENAI_RESPONSES_API_BASE =
-  Deno.env.get("OPENAI_RESPONSES_API_BASE") ??
-  "https://api.openai.com/v1/responses";
+const LLM_PROVIDERS = createLlmProviderRegistry((key) => Deno.env.get(key));
+const LLM_ROUTING = readLlmRoutingConfig((key) => Deno.env.get(key));
 
 const MODEL_CATALOG: Record<
   "default" | "premium" | "intensive",
@@ -659,10 +683,12 @@ const DEBUG_REVIEW = (() => {
   if (raw === "0" || raw === "false" || raw === "no") return false;
   return true;
 })();
-const SKIP_ENHANCEMENTS = (() => {
-  const raw = (Deno.env.get("OPENAI_REASONING_SKIP_ENHANCEMENTS") ?? "1")
-    .toLowerCase()
+// When unset, the solution's analysis depth decides whether enhancements run.
+const SKIP_ENHANCEMENTS_OVERRIDE = (() => {
+  const raw = Deno.env.get("OPENAI_REASONING_SKIP_ENHANCEMENTS")
+    ?.toLowerCase()
     .trim();
+  if (!raw) return null;
   if (raw === "0" || raw === "false" || raw === "no") return false;
   return true;
 })();
@@ -695,18 +721,35 @@ interface ReasoningContext {
   } | null;
   clauseExtractions?: ClauseExtraction[] | null;
   clauseSetWeak?: boolean;
+  playbookOverrides?: PlaybookOverrideLike[] | null;
+  /** Organization and solution scoring profile; the default when absent. */
+  scoringProfile?: ResolvedScoringProfile | null;
+  /** Detected at ingestion; English when absent. */
+  contractLanguage?: ContractLanguageCode | null;
+  reportLanguage?: ReportLanguageMode | null;
+  /** Replaces the configured provider chain (golden-set replay/recording). */
+  providers?: LlmProvider[] | null;
 }
 
 type ReasoningMode = "full" | "compact" | "ultra";
 
+type ReasoningCandidate = {
+  provider: LlmProvider;
+  model: string;
+};
+
 type ReasoningSession = {
   model: string;
   tier: ModelTier;
+  depth: AnalysisDepthProfile;
+  /** Primary provider first, then the configured failover order. */
+  candidates: ReasoningCandidate[];
   playbookKey: PlaybookKey;
   playbook: ContractPlaybook;
   usePlaybookCoverage: boolean;
   buildPrompts: (mode: ReasoningMode) => { systemPrompt: string; userPrompt: string };
-  buildRequestPayload: (
+  buildRequest: (
+    candidate: ReasoningCandidate,
     systemPrompt: string,
     promptText: string,
     format:
@@ -714,7 +757,7 @@ type ReasoningSession = {
       | typeof jsonSchemaFormatCompact
       | typeof jsonSchemaFormatUltra,
     options?: { effort?: "low" | "medium" | "high"; maxTokens?: number | null },
-  ) => Record<string, unknown>;
+  ) => LlmRequest;
 };
 
 type AsyncReasoningStatus =
@@ -734,6 +777,7 @@ type AsyncReasoningStatus =
 interface ReasoningResult {
   report: AnalysisReport;
   raw: unknown;
+  provider: LlmProviderId;
   model: string;
   tier: ModelTier;
 }
@@ -760,6 +804,9 @@ class ReasoningIncompleteError extends Error {
 }
 
 function isAbortError(error: unknown) {
+  if (error instanceof LlmProviderError) {
+    return error.isTimeout;
+  }
   if (error instanceof DOMException && error.name === "AbortError") {
     return true;
   }
@@ -802,41 +849,13 @@ function normaliseSolutionKey(
     key?.toLowerCase() ??
     fallback?.toLowerCase() ??
     "non_disclosure_agreement";
-  switch (basis) {
-    case "dpa":
-    case "data_processing_agreement":
-      return "data_processing_agreement";
-    case "nda":
-    case "non_disclosure_agreement":
-      return "non_disclosure_agreement";
-    case "privacy_policy":
-    case "privacy_policy_document":
-      return "privacy_policy_document";
-    case "consultancy":
-    case "consultancy_agreement":
-      return "consultancy_agreement";
-    case "r&d":
-    case "research_and_development":
-    case "research_development_agreement":
-      return "research_development_agreement";
-    case "eula":
-    case "end_user_license_agreement":
-      return "end_user_license_agreement";
-    case "psa":
-    case "professional_services_agreement":
-    case "product_supply_agreement":
-      return "professional_services_agreement";
-    default:
-      return (
-        (basis as PlaybookKey) ?? ("non_disclosure_agreement" as PlaybookKey)
-      );
-  }
+  return findContractType(basis)?.playbookKey ?? (basis as PlaybookKey);
 }
 
 function buildSystemPrompt(
   playbookTitle: string,
   reviewType: string,
-  options?: { compact?: boolean },
+  options?: { compact?: boolean; languageInstructions?: string | null },
 ) {
   const compact = Boolean(options?.compact);
   const enumerationInstruction = compact
@@ -865,6 +884,7 @@ function buildSystemPrompt(
       ? "If output length is constrained, group similar findings and keep each item concise."
       : null,
     `Apply the playbook for ${playbookTitle}.`,
+    options?.languageInstructions ?? null,
     "Always respond with JSON that matches the requested schema.",
   ]
     .filter(Boolean)
@@ -883,6 +903,9 @@ function buildUserPrompt(
   options?: { compact?: boolean; maxChars?: number },
 ) {
   const compact = Boolean(options?.compact);
+  const depth = resolveAnalysisDepthProfile(
+    context.customSolution?.analysisDepth,
+  );
 
   const metadataSections = [
     context.filename ? `Filename: ${context.filename}` : null,
@@ -915,7 +938,11 @@ function buildUserPrompt(
         `Critical clauses:`,
         ...playbook.criticalClauses.map(
           (clause, index) =>
-            `${index + 1}. ${clause.title} | Must include: ${clause.mustInclude.join(", ")} | Red flags: ${clause.redFlags.join(", ")}`,
+            `${index + 1}. ${clause.title} | Must include: ${clause.mustInclude.join(", ")} | Red flags: ${clause.redFlags.join(", ")}${
+              clause.fallbackPositions?.length
+                ? ` | Fallback positions: ${clause.fallbackPositions.join(", ")}`
+                : ""
+            }`,
         ),
         `Drafting tone: ${playbook.draftingTone}`,
         `Negotiation guidance: ${playbook.negotiationGuidance.join("; ")}`,
@@ -966,9 +993,7 @@ function buildUserPrompt(
     const retrieved = buildRetrievedClauseContext({
       playbook,
       clauses: clauseExtractions,
-      maxPerAnchor: compact ? 1 : 2,
-      maxTotal: compact ? 8 : 14,
-      excerptLength: compact ? 220 : 320,
+      ...(compact ? depth.clauseRetrieval.compact : depth.clauseRetrieval.full),
     });
     if (!retrieved.summary) {
       return null;
@@ -1038,120 +1063,6 @@ function buildJsonSchemaDescription(
     .join("\n");
 }
 
-function shouldUseResponsesApi(model: string) {
-  return /(gpt-5|gpt-4|o1|o3|reasoning|deepseek)/i.test(model);
-}
-
-function buildResponsesInput(systemPrompt: string, userPrompt: string) {
-  return [
-    {
-      role: "system",
-      content: [{ type: "input_text", text: systemPrompt }],
-    },
-    {
-      role: "user",
-      content: [{ type: "input_text", text: userPrompt }],
-    },
-  ];
-}
-
-function extractResponsesContent(payload: any): string {
-  if (!payload) {
-    throw new Error("Model returned empty response");
-  }
-
-  const coerceText = (value: unknown) =>
-    typeof value === "string" && value.trim().length > 0 ? value : null;
-  const coerceJson = (value: unknown) =>
-    value && typeof value === "object" ? JSON.stringify(value) : null;
-
-  const output = payload.output;
-  if (Array.isArray(output)) {
-    for (const entry of output) {
-      const entryText = coerceText(entry?.text) ?? coerceText(entry?.content);
-      if (entryText) {
-        return entryText;
-      }
-      if (entry?.json) {
-        const entryJson = coerceJson(entry.json);
-        if (entryJson) {
-          return entryJson;
-        }
-      }
-      if (Array.isArray(entry?.content)) {
-        for (const part of entry.content) {
-          const partText = coerceText(part?.text) ?? coerceText(part?.content);
-          if (partText) {
-            return partText;
-          }
-          if (part?.json) {
-            const partJson = coerceJson(part.json);
-            if (partJson) {
-              return partJson;
-            }
-          }
-        }
-      }
-    }
-  }
-
-  if (
-    Array.isArray(payload?.choices) &&
-    typeof payload.choices[0]?.message?.content === "string"
-  ) {
-    return payload.choices[0].message.content;
-  }
-
-  if (typeof payload?.output_text === "string") {
-    const outputText = coerceText(payload.output_text);
-    if (outputText) {
-      return outputText;
-    }
-  }
-  if (Array.isArray(payload?.output_text)) {
-    const outputText = coerceText(payload.output_text[0]);
-    if (outputText) {
-      return outputText;
-    }
-  }
-
-  console.error("📭 Responses payload missing textual content", {
-    payloadPreview: (() => {
-      try {
-        return JSON.stringify(payload).slice(0, 2000);
-      } catch {
-        return "[unserializable payload]";
-      }
-    })(),
-  });
-
-  throw new Error("Model returned empty response");
-}
-
-function normaliseTokenUsage(payload: any, viaResponses: boolean) {
-  if (!payload || typeof payload !== "object") {
-    return undefined;
-  }
-  const usage = payload.usage;
-  if (!usage || typeof usage !== "object") {
-    return undefined;
-  }
-  if (viaResponses) {
-    return {
-      input: usage.input_tokens ?? usage.prompt_tokens,
-      output: usage.output_tokens ?? usage.completion_tokens,
-      totalCostUsd:
-        usage.total_cost_usd ?? usage.total_cost ?? usage.totalCostUsd,
-    };
-  }
-  return {
-    input: usage.prompt_tokens ?? usage.input_tokens,
-    output: usage.completion_tokens ?? usage.output_tokens,
-    totalCostUsd:
-      usage.total_cost_usd ?? usage.total_cost ?? usage.totalCostUsd,
-  };
-}
-
 function runHeuristicCritique(
   report: AnalysisReport,
   playbookKey: PlaybookKey,
@@ -2315,13 +2226,6 @@ function evaluatePlaybookCoverageFromReport(
   };
 }
 
-type ScoreBreakdown = {
-  issuePenalty: number;
-  criteriaPenalty: number;
-  coveragePenalty: number;
-  issuesBySeverity: Record<string, number>;
-};
-
 function computeRuleBasedScore(
   report: AnalysisReport,
   playbook: ContractPlaybook | null,
@@ -2329,36 +2233,12 @@ function computeRuleBasedScore(
     content?: string | null;
     clauses?: ClauseExtraction[] | null;
   },
+  scoringProfile?: ResolvedScoringProfile | null,
 ): {
   score: number;
   coverage: PlaybookCoverageSummary | null;
   breakdown: ScoreBreakdown;
 } {
-  const severityWeights: Record<string, number> = {
-    critical: 12,
-    high: 7,
-    medium: 4,
-    low: 2,
-    info: 1,
-  };
-
-  const issuesBySeverity: Record<string, number> = {};
-  report.issuesToAddress.forEach((issue) => {
-    const severity = issue.severity?.toLowerCase() ?? "medium";
-    issuesBySeverity[severity] = (issuesBySeverity[severity] ?? 0) + 1;
-  });
-  const issuePenaltyRaw = Object.entries(issuesBySeverity).reduce(
-    (sum, [severity, count]) => {
-      const weight = severityWeights[severity] ?? 4;
-      const scaled = weight * Math.log2(1 + count);
-      return sum + scaled;
-    },
-    0,
-  );
-  const issuePenalty = Math.min(60, Math.round(issuePenaltyRaw));
-  const criteriaPenalty = 0;
-
-  let coveragePenalty = 0;
   let coverage: PlaybookCoverageSummary | null = null;
   if (playbook) {
     const governingLaw = report.contractSummary?.governingLaw ?? "";
@@ -2378,21 +2258,22 @@ function computeRuleBasedScore(
       content: coverageContext?.content ?? "",
       clauses: coverageContext?.clauses ?? [],
     });
-    coveragePenalty = Math.round((1 - coverage.coverageScore) * 25);
   }
 
-  const rawScore = 100 - issuePenalty - criteriaPenalty - coveragePenalty;
-  const score = Math.max(0, Math.min(100, Math.round(rawScore)));
+  const breakdown = computeScoreBreakdown(
+    {
+      issues: report.issuesToAddress,
+      criteria: report.criteriaMet,
+      coverageScore: coverage?.coverageScore ?? null,
+    },
+    scoringProfile?.profile,
+    scoringProfile?.source,
+  );
 
   return {
-    score,
+    score: breakdown.score,
     coverage,
-    breakdown: {
-      issuePenalty,
-      criteriaPenalty,
-      coveragePenalty,
-      issuesBySeverity,
-    },
+    breakdown,
   };
 }
 
@@ -2438,42 +2319,37 @@ function buildEnhancementPrompt(
 async function generateEnhancementSections(
   context: ReasoningContext,
   report: AnalysisReport,
-  model: string,
+  candidate: ReasoningCandidate,
 ) {
   const prompt = buildEnhancementPrompt(context, report);
   const enhancementSystemPrompt = [
     "You are Maigon Counsel enhancements engine. Produce concise supplemental legal sections for a legal compliance review for legal contracts.",
     LEGAL_LANGUAGE_PROMPT_BLOCK,
-  ].join(" ");
-  const response = await fetch(OPENAI_RESPONSES_API_BASE, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model,
-      input: buildResponsesInput(
-        enhancementSystemPrompt,
-        prompt,
-      ),
-      text: {
-        format: enhancementsJsonSchema,
-      },
-      max_output_tokens: MAX_ENHANCEMENT_OUTPUT_TOKENS ?? undefined,
-    }),
+    buildContractLanguageInstructions(
+      context.contractLanguage,
+      context.reportLanguage,
+    ),
+  ]
+    .filter(Boolean)
+    .join(" ");
+  const response = await candidate.provider.generate({
+    model: candidate.model,
+    system: enhancementSystemPrompt,
+    messages: [{ role: "user", content: prompt }],
+    responseFormat: enhancementsJsonSchema,
+    maxOutputTokens: MAX_ENHANCEMENT_OUTPUT_TOKENS,
+    timeoutMs: REQUEST_TIMEOUT_MS,
   });
-
-  if (!response.ok) {
-    const errorBody = await response.text();
+  if (response.status !== "completed") {
     throw new Error(
-      `Enhancement generation failed (${model}): ${response.status} ${response.statusText} ${errorBody}`,
+      `Enhancement generation incomplete (${response.model}): ${
+        response.incompleteReason ?? "unknown reason"
+      }`,
     );
   }
 
-  const payload = await response.json();
-  const content = extractResponsesContent(payload);
-  const parsed = JSON.parse(content);
+  const payload = response.raw;
+  const parsed = JSON.parse(response.text);
   const sections = normaliseEnhancementSections(parsed);
   return { sections, raw: payload };
 }
@@ -2878,10 +2754,6 @@ function normaliseDraftMetadataPayload(
 }
 
 function createReasoningSession(context: ReasoningContext): ReasoningSession {
-  if (!OPENAI_API_KEY) {
-    throw new Error("OPENAI_API_KEY is not configured");
-  }
-
   const tier = FORCED_MODEL_TIER ?? context.modelTier ?? DEFAULT_MODEL_TIER;
   const customSolution = context.customSolution ?? null;
   const normalizedSolutionKey =
@@ -2894,8 +2766,8 @@ function createReasoningSession(context: ReasoningContext): ReasoningSession {
     context.classification?.contractType,
   );
   const playbook = customSolution
-    ? buildCustomPlaybook(customSolution, playbookKey)
-    : resolvePlaybook(playbookKey);
+    ? buildCustomPlaybook(customSolution, playbookKey, context.playbookOverrides)
+    : resolvePlaybook(playbookKey, context.playbookOverrides);
   const customModelOverride =
     customSolution?.modelSettings?.reasoningModel ??
     customSolution?.aiModel ??
@@ -2903,23 +2775,41 @@ function createReasoningSession(context: ReasoningContext): ReasoningSession {
   const resolvedOverride = customModelOverride
     ? resolveCustomModelId(customModelOverride)
     : null;
-  const model =
+  const openAiModel =
     resolvedOverride && /gpt-5-nano/i.test(resolvedOverride)
       ? resolvedOverride
       : resolveModelId(tier);
+  // Non-OpenAI model ids pin their provider; OpenAI ids only pick a tier.
+  const pinnedRoute = resolveAiModelRoute(customModelOverride);
+  const providers = context.providers?.length
+    ? context.providers
+    : resolveLlmProviderChain(
+        LLM_PROVIDERS,
+        LLM_ROUTING,
+        pinnedRoute?.provider ?? null,
+      );
+  const candidates = providers.map((provider) => ({
+    provider,
+    model:
+      provider.id === "openai"
+        ? openAiModel
+        : pinnedRoute?.provider === provider.id && pinnedRoute.model
+          ? pinnedRoute.model
+          : provider.defaultModel,
+  }));
+  const model = candidates[0].model;
   const usePlaybookCoverage = true;
 
-  const responsesSupported = shouldUseResponsesApi(model);
-  if (!responsesSupported) {
-    throw new Error("Selected model does not support structured responses API.");
-  }
-
+  const languageInstructions = buildContractLanguageInstructions(
+    context.contractLanguage,
+    context.reportLanguage,
+  );
   const buildPrompts = (mode: ReasoningMode) => {
     const compact = mode !== "full";
     const systemPrompt = buildSystemPrompt(
       playbook.displayName,
       context.reviewType,
-      { compact },
+      { compact, languageInstructions },
     );
     const userPrompt = `${buildUserPrompt(context, playbook, {
       compact,
@@ -2928,7 +2818,8 @@ function createReasoningSession(context: ReasoningContext): ReasoningSession {
     return { systemPrompt, userPrompt };
   };
 
-  const buildRequestPayload = (
+  const buildRequest = (
+    candidate: ReasoningCandidate,
     systemPrompt: string,
     promptText: string,
     format:
@@ -2936,36 +2827,41 @@ function createReasoningSession(context: ReasoningContext): ReasoningSession {
       | typeof jsonSchemaFormatCompact
       | typeof jsonSchemaFormatUltra,
     options?: { effort?: "low" | "medium" | "high"; maxTokens?: number | null },
-  ) => ({
-    model,
-    reasoning: {
-      effort: options?.effort ?? "medium",
-    },
-    input: buildResponsesInput(systemPrompt, promptText),
-    text: {
-      format,
-    },
-    max_output_tokens: options?.maxTokens ?? MAX_OUTPUT_TOKENS ?? undefined,
+  ): LlmRequest => ({
+    model: candidate.model,
+    system: systemPrompt,
+    messages: [{ role: "user", content: promptText }],
+    responseFormat: format,
+    reasoningEffort:
+      candidate.provider.id === "openai"
+        ? (options?.effort ?? "medium")
+        : undefined,
+    maxOutputTokens: options?.maxTokens ?? MAX_OUTPUT_TOKENS ?? undefined,
+    timeoutMs: REQUEST_TIMEOUT_MS,
   });
 
   return {
     model,
     tier,
+    depth: resolveAnalysisDepthProfile(customSolution?.analysisDepth),
+    candidates,
     playbookKey,
     playbook,
     usePlaybookCoverage,
     buildPrompts,
-    buildRequestPayload,
+    buildRequest,
   };
 }
 
-function buildCoreReportFromPayload(
-  payload: unknown,
+function buildCoreReportFromResponse(
+  response: LlmResponse,
   context: ReasoningContext,
   session: ReasoningSession,
 ): AnalysisReport {
-  const content = extractResponsesContent(payload);
-  const parsed = JSON.parse(content);
+  if (!response.text.trim()) {
+    throw new Error("Model returned empty response");
+  }
+  const parsed = JSON.parse(response.text);
   if (parsed && typeof parsed === "object") {
     applyOptionalSectionDefaults(parsed as Record<string, unknown>);
   }
@@ -2973,7 +2869,13 @@ function buildCoreReportFromPayload(
   report.generalInformation.reportExpiry = normaliseReportExpiry(
     report.generalInformation.reportExpiry,
   );
-  const tokenUsage = normaliseTokenUsage(payload, true);
+  const tokenUsage = response.usage
+    ? {
+        input: response.usage.inputTokens,
+        output: response.usage.outputTokens,
+        totalCostUsd: response.usage.totalCostUsd,
+      }
+    : undefined;
   const { notes: critiqueNotes, coverage, diagnostics } = runHeuristicCritique(
     report,
     session.playbookKey,
@@ -2987,7 +2889,7 @@ function buildCoreReportFromPayload(
     ...report,
     metadata: {
       ...report.metadata,
-      model: session.model,
+      model: response.model,
       modelCategory: session.tier,
       playbookKey: session.playbookKey,
       classification: {
@@ -3012,7 +2914,7 @@ async function finalizeReasoningReport(
   context: ReasoningContext,
   session: ReasoningSession,
   coreReport: AnalysisReport,
-  corePayload: unknown,
+  coreResponse: LlmResponse,
 ): Promise<ReasoningResult> {
   const baseReport = coreReport;
   let enhancementSections: EnhancementSections | null = null;
@@ -3021,14 +2923,18 @@ async function finalizeReasoningReport(
   let enhancementReason: string | undefined;
 
   try {
-    if (SKIP_ENHANCEMENTS) {
+    if (SKIP_ENHANCEMENTS_OVERRIDE ?? !session.depth.runEnhancements) {
       enhancementSections = buildEnhancementFallback(baseReport);
       enhancementSource = "fallback";
     } else {
+      const coreCandidate =
+        session.candidates.find(
+          (candidate) => candidate.provider.id === coreResponse.provider,
+        ) ?? session.candidates[0];
       const enhancementResult = await generateEnhancementSections(
         context,
         baseReport,
-        baseReport.metadata?.model ?? session.model,
+        { provider: coreCandidate.provider, model: coreResponse.model },
       );
       enhancementSections = enhancementResult.sections;
       enhancementRaw = enhancementResult.raw;
@@ -3113,6 +3019,7 @@ async function finalizeReasoningReport(
       clauses:
         context.clauseExtractions ?? clauseAlignedReport.clauseExtractions,
     },
+    context.scoringProfile,
   );
   const scoredReport: AnalysisReport = {
     ...reconciledReport,
@@ -3127,29 +3034,61 @@ async function finalizeReasoningReport(
         reconciledReport.metadata?.playbookCoverage,
       scoreSource: "rule_based",
       scoreBreakdown: scoringResult.breakdown,
+      language:
+        context.contractLanguage && context.contractLanguage !== "en"
+          ? {
+              contract: context.contractLanguage,
+              report: context.reportLanguage ?? "bilingual",
+            }
+          : undefined,
     } as AnalysisReport["metadata"],
   };
 
   return {
     report: scoredReport,
     raw: {
-      stageOne: corePayload,
+      stageOne: coreResponse.raw,
       stageTwo: enhancementRaw,
     },
-    model: session.model,
+    provider: coreResponse.provider,
+    model: coreResponse.model,
     tier: session.tier,
   };
 }
 
-export async function runReasoningAnalysis(
-  context: ReasoningContext,
-): Promise<ReasoningResult> {
-  const session = createReasoningSession(context);
-  const { model, tier } = session;
+function resolveModeRequestOptions(mode: ReasoningMode) {
+  const compactMaxTokens =
+    MAX_OUTPUT_TOKENS !== null && MAX_OUTPUT_TOKENS !== undefined
+      ? Math.min(MAX_OUTPUT_TOKENS, 6000)
+      : undefined;
+  const ultraMaxTokens =
+    MAX_OUTPUT_TOKENS !== null && MAX_OUTPUT_TOKENS !== undefined
+      ? Math.min(MAX_OUTPUT_TOKENS, 3000)
+      : undefined;
+  const format =
+    mode === "ultra"
+      ? jsonSchemaFormatUltra
+      : mode === "compact"
+        ? jsonSchemaFormatCompact
+        : jsonSchemaFormat;
+  const effort: "low" | "medium" = mode === "full" ? "medium" : "low";
+  const maxTokens =
+    mode === "ultra"
+      ? ultraMaxTokens
+      : mode === "compact"
+        ? compactMaxTokens
+        : MAX_OUTPUT_TOKENS ?? undefined;
+  return { format, effort, maxTokens };
+}
 
+async function generateCoreReport(
+  context: ReasoningContext,
+  session: ReasoningSession,
+  candidate: ReasoningCandidate,
+): Promise<{ coreReport: AnalysisReport; coreResponse: LlmResponse }> {
+  const { model } = candidate;
+  const provider = candidate.provider.id;
   let lastError: unknown = null;
-  let corePayload: unknown = null;
-  let coreReport: AnalysisReport | null = null;
 
   const isTightTimeout = REQUEST_TIMEOUT_MS <= 45000;
   const maxAttempts = 3;
@@ -3158,117 +3097,61 @@ export async function runReasoningAnalysis(
   for (let attemptIndex = 0; attemptIndex < maxAttempts; attemptIndex += 1) {
     const isLastAttempt = attemptIndex === maxAttempts - 1;
     const { systemPrompt, userPrompt } = session.buildPrompts(mode);
-    const compactMaxTokens =
-      MAX_OUTPUT_TOKENS !== null && MAX_OUTPUT_TOKENS !== undefined
-        ? Math.min(MAX_OUTPUT_TOKENS, 6000)
-        : undefined;
-    const ultraMaxTokens =
-      MAX_OUTPUT_TOKENS !== null && MAX_OUTPUT_TOKENS !== undefined
-        ? Math.min(MAX_OUTPUT_TOKENS, 3000)
-        : undefined;
-    const format =
-      mode === "ultra"
-        ? jsonSchemaFormatUltra
-        : mode === "compact"
-          ? jsonSchemaFormatCompact
-          : jsonSchemaFormat;
-    const effort =
-      mode === "full" ? "medium" : "low";
-    const maxTokens =
-      mode === "ultra"
-        ? ultraMaxTokens
-        : mode === "compact"
-          ? compactMaxTokens
-          : MAX_OUTPUT_TOKENS ?? undefined;
-    const requestPayload = session.buildRequestPayload(
+    const { format, effort, maxTokens } = resolveModeRequestOptions(mode);
+    const request = session.buildRequest(
+      candidate,
       systemPrompt,
       userPrompt,
       format,
-      {
-        effort,
-        maxTokens,
-      },
+      { effort, maxTokens },
     );
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
-    let response: Response;
+    let response: LlmResponse;
     try {
-      response = await fetch(OPENAI_RESPONSES_API_BASE, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${OPENAI_API_KEY}`,
-        },
-        body: JSON.stringify(requestPayload),
-        signal: controller.signal,
-      });
+      response = await candidate.provider.generate(request);
     } catch (error) {
       lastError = error;
       if (isAbortError(error) && !isLastAttempt && mode !== "ultra") {
         console.warn(
           "⚠️ Reasoning request aborted; retrying with smaller prompt",
-          { model, mode },
+          { provider, model, mode },
         );
         mode = mode === "full" ? "compact" : "ultra";
         continue;
       }
       throw error;
-    } finally {
-      clearTimeout(timeoutId);
-    }
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      throw new Error(
-        `OpenAI reasoning error (${model}): ${response.status} ${response.statusText} ${errorBody}`,
-      );
     }
 
-    const payload = await response.json();
-    if (payload?.status && payload.status !== "completed") {
-      const detailsCandidate =
-        payload?.status_details ?? payload?.incomplete_details ?? payload?.last_error;
-      const detail =
-        typeof detailsCandidate === "object"
-          ? JSON.stringify(detailsCandidate)
-          : detailsCandidate ?? "";
-      const reason =
-        typeof detailsCandidate === "object" &&
-        typeof (detailsCandidate as Record<string, unknown>).reason === "string"
-          ? (detailsCandidate as Record<string, string>).reason
-          : undefined;
-      console.error("⚠️ Responses API returned non-completed status", {
-        status: payload.status,
-        details: detailsCandidate ?? null,
+    if (response.status !== "completed") {
+      const reason = response.incompleteReason;
+      console.error("⚠️ Reasoning provider returned an incomplete response", {
+        provider,
+        model,
         reason: reason ?? null,
       });
       if (reason === "max_output_tokens" && !isLastAttempt && mode !== "ultra") {
         lastError = new ReasoningIncompleteError(
-          `OpenAI response incomplete: ${payload.status}${
-            detail ? ` ${detail}` : ""
-          }`,
+          `${provider} response incomplete${reason ? `: ${reason}` : ""}`,
           reason,
         );
         console.warn(
           "⚠️ Retrying reasoning with compact schema due to max_output_tokens",
-          { model, mode },
+          { provider, model, mode },
         );
         mode = mode === "full" ? "compact" : "ultra";
         continue;
       }
       throw new ReasoningIncompleteError(
-        `OpenAI response incomplete: ${payload.status}${
-          detail ? ` ${detail}` : ""
-        }`,
+        `${provider} response incomplete${reason ? `: ${reason}` : ""}`,
         reason,
       );
     }
 
     try {
-      coreReport = buildCoreReportFromPayload(payload, context, session);
-      corePayload = payload;
-      break;
+      return {
+        coreReport: buildCoreReportFromResponse(response, context, session),
+        coreResponse: response,
+      };
     } catch (error) {
       lastError = error;
       if (error instanceof ReasoningIncompleteError && !isLastAttempt && mode !== "ultra") {
@@ -3279,13 +3162,44 @@ export async function runReasoningAnalysis(
     }
   }
 
-  if (!coreReport) {
-    if (lastError instanceof Error) {
-      throw lastError;
-    }
-    throw new Error("Failed to generate core analysis report.");
+  if (lastError instanceof Error) {
+    throw lastError;
+  }
+  throw new Error("Failed to generate core analysis report.");
+}
+
+export async function runReasoningAnalysis(
+  context: ReasoningContext,
+): Promise<ReasoningResult> {
+  const session = createReasoningSession(context);
+  const { coreReport, coreResponse } = await runWithLlmFailover(
+    session.candidates,
+    (candidate) => generateCoreReport(context, session, candidate),
+    (failed, next, error) => {
+      console.warn("⚠️ Reasoning provider failed; failing over", {
+        failedProvider: failed.provider.id,
+        failedModel: failed.model,
+        nextProvider: next.provider.id,
+        nextModel: next.model,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    },
+  );
+  return finalizeReasoningReport(context, session, coreReport, coreResponse);
+}
+
+/**
+ * Background analysis needs a provider that can hold a response server-side
+ * between polls. When the primary provider cannot, callers run the analysis
+ * synchronously instead.
+ */
+export function supportsBackgroundReasoning(context: ReasoningContext): boolean {
+  try {
+    const [primary] = createReasoningSession(context).candidates;
+    return Boolean(primary.provider.startBackground && primary.provider.pollBackground);
+  } catch {
+    return false;
   }
-  return finalizeReasoningReport(context, session, coreReport, corePayload);
 }
 
 export async function startReasoningAnalysis(
@@ -3295,108 +3209,64 @@ export async function startReasoningAnalysis(
   responseId: string;
   status: string;
   mode: ReasoningMode;
+  provider: LlmProviderId;
   model: string;
   tier: ModelTier;
 }> {
   const session = createReasoningSession(context);
+  const [candidate] = session.candidates;
+  if (!candidate.provider.startBackground) {
+    throw new Error(
+      `Provider ${candidate.provider.id} does not support background reasoning.`,
+    );
+  }
   const requestStartedAt = Date.now();
   const isTightTimeout = REQUEST_TIMEOUT_MS <= 45000;
   const mode: ReasoningMode =
     options.modeOverride ?? (isTightTimeout ? "compact" : "full");
   const { systemPrompt, userPrompt } = session.buildPrompts(mode);
-  const compactMaxTokens =
-    MAX_OUTPUT_TOKENS !== null && MAX_OUTPUT_TOKENS !== undefined
-      ? Math.min(MAX_OUTPUT_TOKENS, 6000)
-      : undefined;
-  const ultraMaxTokens =
-    MAX_OUTPUT_TOKENS !== null && MAX_OUTPUT_TOKENS !== undefined
-      ? Math.min(MAX_OUTPUT_TOKENS, 3000)
-      : undefined;
-  const format =
-    mode === "ultra"
-      ? jsonSchemaFormatUltra
-      : mode === "compact"
-        ? jsonSchemaFormatCompact
-        : jsonSchemaFormat;
-  const effort = mode === "full" ? "medium" : "low";
-  const maxTokens =
-    mode === "ultra"
-      ? ultraMaxTokens
-      : mode === "compact"
-        ? compactMaxTokens
-        : MAX_OUTPUT_TOKENS ?? undefined;
+  const { format, effort, maxTokens } = resolveModeRequestOptions(mode);
 
-  const requestPayload = {
-    ...session.buildRequestPayload(systemPrompt, userPrompt, format, {
-      effort,
-      maxTokens,
-    }),
-    background: true,
-  };
-
-  const response = await fetch(OPENAI_RESPONSES_API_BASE, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify(requestPayload),
-  });
-
-  if (!response.ok) {
-    const errorBody = await response.text();
-    console.error("❌ OpenAI async start failed", {
-      model: session.model,
+  let started: Awaited<
+    ReturnType<NonNullable<LlmProvider["startBackground"]>>
+  >;
+  try {
+    started = await candidate.provider.startBackground({
+      ...session.buildRequest(candidate, systemPrompt, userPrompt, format, {
+        effort,
+        maxTokens,
+      }),
+      timeoutMs: null,
+    });
+  } catch (error) {
+    console.error("❌ Async reasoning start failed", {
+      provider: candidate.provider.id,
+      model: candidate.model,
       tier: session.tier,
       mode,
-      status: response.status,
-      statusText: response.statusText,
-      requestId: response.headers.get("x-request-id"),
-      processingMs: response.headers.get("openai-processing-ms"),
-      errorBody: errorBody.slice(0, 400),
+      status: error instanceof LlmProviderError ? error.status : null,
+      message: error instanceof Error ? error.message.slice(0, 400) : String(error),
     });
-    throw new Error(
-      `OpenAI reasoning error (${session.model}): ${response.status} ${response.statusText} ${errorBody}`,
-    );
+    throw error;
   }
 
-  const payload = await response.json();
-  const responseId =
-    typeof payload?.id === "string"
-      ? payload.id
-      : typeof payload?.response_id === "string"
-        ? payload.response_id
-        : typeof payload?.responseId === "string"
-          ? payload.responseId
-          : null;
-  if (!responseId) {
-    throw new Error("OpenAI response did not include an id for async polling.");
-  }
-
-  const status =
-    typeof payload?.status === "string" ? payload.status : "in_progress";
-
-  console.log("✅ OpenAI async analysis accepted", {
-    responseId,
-    status,
-    model: session.model,
+  console.log("✅ Async analysis accepted", {
+    responseId: started.responseId,
+    status: started.status,
+    provider: candidate.provider.id,
+    model: candidate.model,
     tier: session.tier,
     mode,
     durationMs: Date.now() - requestStartedAt,
-    requestId: response.headers.get("x-request-id"),
-    processingMs: response.headers.get("openai-processing-ms"),
-    rateLimitRequests: response.headers.get("x-ratelimit-remaining-requests"),
-    rateLimitTokens: response.headers.get("x-ratelimit-remaining-tokens"),
-    createdAt: payload?.created_at ?? null,
-    expiresAt: payload?.expires_at ?? null,
-    statusDetails: payload?.status_details ?? payload?.incomplete_details ?? null,
+    requestId: started.requestId ?? null,
   });
 
   return {
-    responseId,
-    status,
+    responseId: started.responseId,
+    status: started.status,
     mode,
-    model: session.model,
+    provider: candidate.provider.id,
+    model: candidate.model,
     tier: session.tier,
   };
 }
@@ -3407,67 +3277,51 @@ export async function pollReasoningAnalysis(
   options: { retryDepth?: number } = {},
 ): Promise<AsyncReasoningStatus> {
   const session = createReasoningSession(context);
+  const [candidate] = session.candidates;
+  if (!candidate.provider.pollBackground) {
+    throw new Error(
+      `Provider ${candidate.provider.id} does not support background reasoning.`,
+    );
+  }
   const requestStartedAt = Date.now();
   const retryDepth = Math.max(0, options.retryDepth ?? 0);
-  const response = await fetch(
-    `${OPENAI_RESPONSES_API_BASE}/${responseId}`,
-    {
-      headers: {
-        Authorization: `Bearer ${OPENAI_API_KEY}`,
-      },
-    },
-  );
 
-  if (!response.ok) {
-    const errorBody = await response.text();
-    console.error("❌ OpenAI poll failed", {
+  let polled: Awaited<ReturnType<NonNullable<LlmProvider["pollBackground"]>>>;
+  try {
+    polled = await candidate.provider.pollBackground(responseId);
+  } catch (error) {
+    console.error("❌ Async reasoning poll failed", {
       responseId,
-      model: session.model,
+      provider: candidate.provider.id,
+      model: candidate.model,
       tier: session.tier,
-      status: response.status,
-      statusText: response.statusText,
-      requestId: response.headers.get("x-request-id"),
-      processingMs: response.headers.get("openai-processing-ms"),
-      errorBody: errorBody.slice(0, 400),
+      status: error instanceof LlmProviderError ? error.status : null,
+      message: error instanceof Error ? error.message.slice(0, 400) : String(error),
     });
-    throw new Error(
-      `OpenAI reasoning poll error (${session.model}): ${response.status} ${response.statusText} ${errorBody}`,
-    );
+    throw error;
   }
 
-  const payload = await response.json();
-  const status =
-    typeof payload?.status === "string" ? payload.status : "completed";
-
-  if (status !== "completed") {
-    const detailsCandidate =
-      payload?.status_details ?? payload?.incomplete_details ?? payload?.last_error;
-    const reason =
-      typeof detailsCandidate === "object" &&
-      typeof (detailsCandidate as Record<string, unknown>).reason === "string"
-        ? (detailsCandidate as Record<string, unknown>).reason
-        : undefined;
-    console.warn("⏳ OpenAI async status", {
+  const { status, reason } = polled;
+  if (status !== "completed" || !polled.response) {
+    const payload = polled.raw as Record<string, unknown> | null;
+    console.warn("⏳ Async reasoning status", {
       responseId,
       status,
       reason: reason ?? null,
-      model: session.model,
+      provider: candidate.provider.id,
+      model: candidate.model,
       tier: session.tier,
       durationMs: Date.now() - requestStartedAt,
-      requestId: response.headers.get("x-request-id"),
-      processingMs: response.headers.get("openai-processing-ms"),
-      rateLimitRequests: response.headers.get("x-ratelimit-remaining-requests"),
-      rateLimitTokens: response.headers.get("x-ratelimit-remaining-tokens"),
+      requestId: polled.requestId ?? null,
       createdAt: payload?.created_at ?? null,
       expiresAt: payload?.expires_at ?? null,
       lastError: payload?.last_error ?? payload?.error ?? null,
-      statusDetails: detailsCandidate ?? null,
     });
 
     if (status === "incomplete" && reason === "max_output_tokens" && retryDepth < 1) {
       console.warn("🔁 Async analysis incomplete; retrying with ultra mode", {
         responseId,
-        model: session.model,
+        model: candidate.model,
       });
       const retryStart = await startReasoningAnalysis(context, {
         modeOverride: "ultra",
@@ -3484,21 +3338,25 @@ export async function pollReasoningAnalysis(
     return { status, responseId, reason, retryDepth };
   }
 
-  const coreReport = buildCoreReportFromPayload(payload, context, session);
+  const coreReport = buildCoreReportFromResponse(
+    polled.response,
+    context,
+    session,
+  );
   const result = await finalizeReasoningReport(
     context,
     session,
     coreReport,
-    payload,
+    polled.response,
   );
 
-  console.log("✅ OpenAI async completed", {
+  console.log("✅ Async analysis completed", {
     responseId,
-    model: session.model,
+    provider: candidate.provider.id,
+    model: polled.response.model,
     tier: session.tier,
     durationMs: Date.now() - requestStartedAt,
-    requestId: response.headers.get("x-request-id"),
-    processingMs: response.headers.get("openai-processing-ms"),
+    requestId: polled.requestId ?? null,
   });
 
   return { status: "completed", responseId, result };
@@ -5,7 +5,12 @@ export type RegionTokenContext = {
 };
 
 function normalizeRegionHint(value: string): string {
-  return value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+  return value
+    .normalize("NFKD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
 }
 
 const REGION_HINTS: Array<{ key: string; terms: string[] }> = [
@@ -43,15 +48,18 @@ const REGION_HINTS: Array<{ key: string; terms: string[] }> = [
     key: "eu",
     terms: ["european union", "eu", "eea"],
   },
-  { key: "de", terms: ["germany", "german", "deutschland"] },
+  {
+    key: "de",
+    terms: ["germany", "german", "deutschland", "deutsches", "deutschem"],
+  },
   { key: "fr", terms: ["france", "french"] },
   { key: "es", terms: ["spain", "spanish", "espana"] },
   { key: "it", terms: ["italy", "italian", "italia"] },
   { key: "nl", terms: ["netherlands", "dutch"] },
-  { key: "se", terms: ["sweden", "swedish", "sverige"] },
-  { key: "dk", terms: ["denmark", "danish", "danmark"] },
-  { key: "fi", terms: ["finland", "finnish", "suomi"] },
-  { key: "no", terms: ["norway", "norwegian", "norge"] },
+  { key: "se", terms: ["sweden", "swedish", "sverige", "svensk", "svenska"] },
+  { key: "dk", terms: ["denmark", "danish", "danmark", "dansk", "danske"] },
+  { key: "fi", terms: ["finland", "finnish", "suomi", "suomen"] },
+  { key: "no", terms: ["norway", "norwegian", "norge", "norsk", "norske"] },
   { key: "ie", terms: ["ireland", "irish"] },
   { key: "pt", terms: ["portugal", "portuguese"] },
   { key: "be", terms: ["belgium", "belgian", "belgie", "belgique"] },
@@ -172,6 +172,36 @@ const draftMetadataSchema = z
   })
   .nullable();
 
+const scoreBreakdownSchema = z.object({
+  score: z.number().optional(),
+  issuePenalty: z.number(),
+  criteriaPenalty: z.number(),
+  coveragePenalty: z.number(),
+  issuesBySeverity: z.record(z.number()).default({}),
+  contributions: z
+    .array(
+      z.object({
+        severity: z.string(),
+        category: z.string().nullable(),
+        count: z.number(),
+        multiplier: z.number(),
+        penalty: z.number(),
+      }),
+    )
+    .default([]),
+  criteriaMissed: z.array(z.string()).default([]),
+  coverageScore: z.number().nullable().optional(),
+  band: z
+    .object({
+      minScore: z.number(),
+      label: z.string(),
+      description: z.string().optional(),
+    })
+    .nullable()
+    .optional(),
+  profileSource: z.enum(["default", "organization", "solution"]).optional(),
+});
+
 const baseReportSchema = z.object({
   generatedAt: z.string(),
   generalInformation: generalInformationSchema,
@@ -199,6 +229,21 @@ const baseReportSchema = z.object({
         })
         .optional(),
       critiqueNotes: z.array(z.string()).optional(),
+      scoreSource: z.string().optional(),
+      scoreBreakdown: scoreBreakdownSchema.optional(),
+      language: z
+        .object({
+          contract: z.string(),
+          report: z.enum(["bilingual", "contract"]),
+        })
+        .optional(),
+      redaction: z
+        .object({
+          enabled: z.boolean(),
+          categories: z.array(z.string()),
+          counts: z.record(z.number()),
+        })
+        .optional(),
     })
     .optional(),
 });
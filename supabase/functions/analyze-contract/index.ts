@@ -12,6 +12,7 @@ import {
   runReasoningAnalysis,
   startReasoningAnalysis,
   pollReasoningAnalysis,
+  supportsBackgroundReasoning,
 } from "../_shared/reasoningEngine.ts";
 import type { AnalysisReport, ClauseExtraction } from "../_shared/reviewSchema.ts";
 import {
@@ -19,6 +20,34 @@ import {
   type SupabaseClient,
 } from "https://esm.sh/@supabase/supabase-js@2";
 import { LEGAL_LANGUAGE_PROMPT_BLOCK } from "../../../shared/legalLanguage.ts";
+import type { PlaybookOverrideLike } from "../../../shared/ai/reliability.ts";
+import { resolveAnalysisDepthProfile } from "../../../shared/ai/solutionProfiles.ts";
+import { resolveScoringProfile } from "../../../shared/ai/scoringProfile.ts";
+import {
+  CONTRACT_TYPES,
+  findContractPerspective,
+  findContractType,
+  matchContractType,
+} from "../../../shared/contractTypes.ts";
+import {
+  detectContractLanguage,
+  findContractLanguage,
+  resolveReportLanguageMode,
+  type ContractLanguageCode,
+} from "../../../shared/contractLanguage.ts";
+import {
+  createRedactionMap,
+  detectDefinedParties,
+  redactText,
+  redactValue,
+  restoreRedactions,
+  summariseRedactions,
+  type RedactionMap,
+} from "../../../shared/ai/redaction.ts";
+import {
+  buildReviewCacheKey,
+  type ReviewCacheMarker,
+} from "../../../shared/ai/reviewCache.ts";
 
 // Advanced AI Model configurations for sophisticated contract analysis
 const AI_CONFIGS = {
@@ -64,6 +93,8 @@ interface AnalysisRequest {
   asyncRetryDepth?: number;
   perspective?: string;
   perspectiveLabel?: string;
+  /** "bilingual" (default) or "contract"; only affects non-English contracts. */
+  reportLanguage?: string;
   customSolution?: any;
   contractType?: string;
   fileType?: string;
@@ -76,6 +107,7 @@ interface AnalysisRequest {
     characteristics: string[];
     reasoning: string;
     suggestedSolutions: string[];
+    parties?: string[];
   };
   ingestionWarnings?: unknown;
   selectedSolution?: {
@@ -83,6 +115,9 @@ interface AnalysisRequest {
     key?: string;
     title?: string;
   };
+  // Only honoured for service-role callers (the public API runner), which
+  // have no user session to resolve the organization from.
+  organizationId?: string;
 }
 
 const corsHeaders = {
@@ -152,6 +187,20 @@ async function hashText(value: string): Promise<string> {
     .join("");
 }
 
+/** The language ingestion detected, or a fresh detection for inline content. */
+function resolveContractLanguage(
+  ingestionRecord: ContractIngestionRecord | null,
+  content: string,
+): ContractLanguageCode {
+  const stored = ingestionRecord?.metadata?.language as
+    | { language?: string }
+    | undefined;
+  return (
+    findContractLanguage(stored?.language)?.code ??
+    detectContractLanguage(content).language
+  );
+}
+
 function readCachedClauseDigest(
   ingestionRecord: ContractIngestionRecord | null,
   contentHash: string,
@@ -204,28 +253,6 @@ async function persistClauseDigestIfMissing(
   }
 }
 
-const CONTRACT_PATTERNS: Record<string, RegExp[]> = {
-  nda: [
-    /non[-\s]?disclosure agreement/i,
-    /confidential information/i,
-    /disclosing party/i,
-  ],
-  dpa: [/data processing agreement/i, /processor/i, /controller/i, /gdpr/i],
-  eula: [/end[-\s]?user license/i, /software license/i, /licensor/i],
-  ppc: [/purchase and sale contract/i, /purchase price/i, /buyer/i, /seller/i],
-  rda: [
-    /research and development/i,
-    /collaboration/i,
-    /intellectual property rights/i,
-  ],
-  ca: [/consulting agreement/i, /services? provider/i, /consultant/i],
-  psa: [
-    /professional services agreement/i,
-    /statement of work/i,
-    /service levels?/i,
-  ],
-};
-
 function buildPerspectiveContext(request: AnalysisRequest): string {
   const perspective = (request.perspective || "").toLowerCase().trim();
   const perspectiveLabel = request.perspectiveLabel || request.perspective;
@@ -239,212 +266,10 @@ function buildPerspectiveContext(request: AnalysisRequest): string {
       .toString()
       .toLowerCase();
 
-  const mapping: Record<
-    string,
-    Record<
-      string,
-      { primary: string; counterpart: string; guidance?: string }
-    >
-  > = {
-    ppc: {
-      "data-subject": {
-        primary: "Data Subject",
-        counterpart: "Organization",
-        guidance:
-          "Focus on individual privacy rights, transparency, and lawful basis.",
-      },
-      organization: {
-        primary: "Organization",
-        counterpart: "Data Subjects",
-        guidance:
-          "Emphasize compliance obligations, disclosures, and risk/liability posture.",
-      },
-    },
-    privacy_policy_document: {
-      "data-subject": {
-        primary: "Data Subject",
-        counterpart: "Organization",
-        guidance:
-          "Focus on individual privacy rights, transparency, and lawful basis.",
-      },
-      organization: {
-        primary: "Organization",
-        counterpart: "Data Subjects",
-        guidance:
-          "Emphasize compliance obligations, disclosures, and risk/liability posture.",
-      },
-    },
-    dpa: {
-      "data-controller": {
-        primary: "Data Controller",
-        counterpart: "Data Processor",
-        guidance:
-          "Ensure processor commitments, sub-processor controls, and data subject support meet controller standards.",
-      },
-      "data-processor": {
-        primary: "Data Processor",
-        counterpart: "Data Controller",
-        guidance:
-          "Assess scope of instructions, liability, audit exposure, and operational feasibility for the processor.",
-      },
-    },
-    data_processing_agreement: {
-      "data-controller": {
-        primary: "Data Controller",
-        counterpart: "Data Processor",
-        guidance:
-          "Ensure processor commitments, sub-processor controls, and data subject support meet controller standards.",
-      },
-      "data-processor": {
-        primary: "Data Processor",
-        counterpart: "Data Controller",
-        guidance:
-          "Assess scope of instructions, liability, audit exposure, and operational feasibility for the processor.",
-      },
-    },
-    nda: {
-      "disclosing-party": {
-        primary: "Disclosing Party",
-        counterpart: "Receiving Party",
-        guidance:
-          "Protect confidential information, limit use, and secure remedies.",
-      },
-      "receiving-party": {
-        primary: "Receiving Party",
-        counterpart: "Disclosing Party",
-        guidance:
-          "Ensure obligations are feasible, exclusions reasonable, and liability proportionate.",
-      },
-    },
-    non_disclosure_agreement: {
-      "disclosing-party": {
-        primary: "Disclosing Party",
-        counterpart: "Receiving Party",
-        guidance:
-          "Protect confidential information, limit use, and secure remedies.",
-      },
-      "receiving-party": {
-        primary: "Receiving Party",
-        counterpart: "Disclosing Party",
-        guidance:
-          "Ensure obligations are feasible, exclusions reasonable, and liability proportionate.",
-      },
-    },
-    ca: {
-      supplier: {
-        primary: "Supplier",
-        counterpart: "Client",
-        guidance:
-          "Check scope clarity, payment triggers, IP ownership, and liability caps.",
-      },
-      client: {
-        primary: "Client",
-        counterpart: "Supplier",
-        guidance:
-          "Validate deliverable quality, acceptance rights, and remedies for delays/defects.",
-      },
-    },
-    consultancy_agreement: {
-      supplier: {
-        primary: "Supplier",
-        counterpart: "Client",
-        guidance:
-          "Check scope clarity, payment triggers, IP ownership, and liability caps.",
-      },
-      client: {
-        primary: "Client",
-        counterpart: "Supplier",
-        guidance:
-          "Validate deliverable quality, acceptance rights, and remedies for delays/defects.",
-      },
-    },
-    psa: {
-      supplier: {
-        primary: "Supplier",
-        counterpart: "Customer",
-        guidance:
-          "Assess supply commitments, forecasts, warranties, and liability limits.",
-      },
-      customer: {
-        primary: "Customer",
-        counterpart: "Supplier",
-        guidance:
-          "Check reliability, quality protections, and commercial remedies for non-conformance.",
-      },
-    },
-    product_supply_agreement: {
-      supplier: {
-        primary: "Supplier",
-        counterpart: "Customer",
-        guidance:
-          "Assess supply commitments, forecasts, warranties, and liability limits.",
-      },
-      customer: {
-        primary: "Customer",
-        counterpart: "Supplier",
-        guidance:
-          "Check reliability, quality protections, and commercial remedies for non-conformance.",
-      },
-    },
-    rda: {
-      contractor: {
-        primary: "Contractor",
-        counterpart: "Customer",
-        guidance:
-          "Clarify research scope, IP ownership, and risk allocation for delivery.",
-      },
-      customer: {
-        primary: "Customer",
-        counterpart: "Contractor",
-        guidance:
-          "Protect investment with clear milestones, ownership, and remedies.",
-      },
-    },
-    research_development_agreement: {
-      contractor: {
-        primary: "Contractor",
-        counterpart: "Customer",
-        guidance:
-          "Clarify research scope, IP ownership, and risk allocation for delivery.",
-      },
-      customer: {
-        primary: "Customer",
-        counterpart: "Contractor",
-        guidance:
-          "Protect investment with clear milestones, ownership, and remedies.",
-      },
-    },
-    eula: {
-      supplier: {
-        primary: "Supplier",
-        counterpart: "End User",
-        guidance:
-          "Review licensing scope, restrictions, and liability to protect the publisher.",
-      },
-      "end-user": {
-        primary: "End User",
-        counterpart: "Supplier",
-        guidance:
-          "Validate license rights, acceptable use, and available remedies.",
-      },
-    },
-    end_user_license_agreement: {
-      supplier: {
-        primary: "Supplier",
-        counterpart: "End User",
-        guidance:
-          "Review licensing scope, restrictions, and liability to protect the publisher.",
-      },
-      "end-user": {
-        primary: "End User",
-        counterpart: "Supplier",
-        guidance:
-          "Validate license rights, acceptable use, and available remedies.",
-      },
-    },
-  };
-
-  const roles = mapping[solutionKey]?.[perspective];
+  const roles = findContractPerspective(
+    findContractType(solutionKey),
+    perspective,
+  );
   const primary = roles?.primary || perspectiveLabel || "Selected party";
   const counterpart = roles?.counterpart || "Counterparty";
   const extraGuidance = roles?.guidance
@@ -459,187 +284,6 @@ USER-SELECTED PERSPECTIVE:
 - Instruction: Align "buyer" perspective to ${primary} and "seller" to ${counterpart}. Avoid generic or "mutual" framing; tailor all findings, scores, and recommendations to ${primary}'s interests. ${extraGuidance}`;
 }
 
-const SOLUTION_ANALYSIS_GUIDANCE: Record<
-  string,
-  {
-    title: string;
-    keywords: string[];
-    focus: string[];
-    scoring: string[];
-    mustHave: string[];
-    watchouts: string[];
-  }
-> = {
-  nda: {
-    title: "Non-Disclosure Agreement",
-    keywords: ["nda", "non-disclosure", "non disclosure"],
-    focus: [
-      "Assess the definition and scope of Confidential Information, including exclusions and residual knowledge carve-outs.",
-      "Evaluate obligations on the receiving party: permitted disclosures, use restrictions, security measures, and notice obligations.",
-      "Review duration, survival clauses, remedies (including injunctive relief), and processes for return/destroy mechanics.",
-    ],
-    scoring: [
-      "Confidentiality scope and exclusions should drive ~40% of the score.",
-      "Safeguards, remedies, and breach handling contribute ~30%.",
-      "Survival, termination, and dispute resolution make up the remaining 30%.",
-    ],
-    mustHave: [
-      "Clear definition of Confidential Information with standard exclusions.",
-      "Return or destruction obligations upon termination or request.",
-      "Remedies or injunctive relief plus survival period for confidentiality obligations.",
-    ],
-    watchouts: [
-      "No survival term for confidentiality obligations.",
-      "Exclusions so broad they undermine protection.",
-      "Lack of liability allocation or remedy for breaches.",
-    ],
-  },
-  dpa: {
-    title: "Data Processing Agreement",
-    keywords: ["dpa", "data processing"],
-    focus: [
-      "Verify lawful basis and clearly defined processing instructions from the controller.",
-      "Assess security measures, breach response, audit rights, and sub-processor governance.",
-      "Review cross-border transfer mechanisms, DPIA support, and data subject rights handling.",
-    ],
-    scoring: [
-      "Article 28/controller-processor clauses and instructions ~45% of the score.",
-      "Security measures, breach notification, and audit rights ~35%.",
-      "Transfers, DPIA cooperation, and data subject facilitation ~20%.",
-    ],
-    mustHave: [
-      "Documented processing instructions and purpose limitations.",
-      "Security measures with breach notification timelines.",
-      "Sub-processor approval, transfer safeguards, and data subject cooperation clauses.",
-    ],
-    watchouts: [
-      "No SLA for breach notification or incident cooperation.",
-      "Missing obligations or approvals for sub-processors.",
-      "Silence on cross-border transfers despite global operations.",
-    ],
-  },
-  eula: {
-    title: "End User License Agreement",
-    keywords: ["eula", "end user license", "software license"],
-    focus: [
-      "Clarify licence scope, permitted/forbidden uses, transfer rights, and geographic limitations.",
-      "Assess warranty disclaimers, liability caps, termination triggers, and remedies.",
-      "Review update, maintenance, and support commitments, including SLAs if applicable.",
-    ],
-    scoring: [
-      "License scope and restrictions ~40% of the score.",
-      "Liability, indemnity, and dispute mechanisms ~30%.",
-      "Maintenance, updates, and termination obligations ~30%.",
-    ],
-    mustHave: [
-      "Specific permitted/prohibited uses, assignment, and transfer terms.",
-      "Termination rights for breach with post-termination obligations.",
-      "Warranty disclaimers and limitation of liability aligned with risk appetite.",
-    ],
-    watchouts: [
-      "License scope overly broad or silent on assignment.",
-      "No provisions for software updates or support expectations.",
-      "Missing limitation of liability or dispute resolution mechanism.",
-    ],
-  },
-  ppc: {
-    title: "Privacy Policy Compliance",
-    keywords: ["ppc", "privacy policy", "privacy notice"],
-    focus: [
-      "Ensure transparency across data categories, purpose, legal bases, and contact details.",
-      "Confirm user rights, opt-out processes, consent mechanisms, and parent/child protections.",
-      "Assess cookie disclosures, analytics tracking, data sharing, and cross-border transfer statements.",
-    ],
-    scoring: [
-      "Transparency, data categories, and purposes ~35% of the score.",
-      "Rights handling, consent/opt-out, and contact details ~35%.",
-      "Transfer disclosures, security statements, and retention policies ~30%.",
-    ],
-    mustHave: [
-      "List of personal data collected with processing purposes and legal bases.",
-      "Instructions for exercising rights plus contact or DPO information.",
-      "Cookie/advertising disclosures and transfer safeguards.",
-    ],
-    watchouts: [
-      "No process for data subject rights or timelines.",
-      "Missing disclosure on cross-border transfers when applicable.",
-      "Cookies or trackers referenced but not explained.",
-    ],
-  },
-  ca: {
-    title: "Consultancy Agreement",
-    keywords: ["ca", "consultancy", "consulting"],
-    focus: [
-      "Clarify scope of services, deliverables, acceptance criteria, change control, and performance standards.",
-      "Review fee structure, invoicing cadence, expenses, milestones, and termination rights.",
-      "Assess IP ownership, confidentiality, non-solicitation, and liability/indemnity terms.",
-    ],
-    scoring: [
-      "Scope, deliverables, and acceptance ~35% of score.",
-      "Commercial terms, milestones, and change control ~30%.",
-      "IP ownership, confidentiality, and liability ~35%.",
-    ],
-    mustHave: [
-      "Detailed statement of work with milestones or deliverables.",
-      "Ownership/assignment of work product and pre-existing IP.",
-      "Termination rights, liability, and insurance/indemnity settings.",
-    ],
-    watchouts: [
-      "Scope vague or missing acceptance criteria.",
-      "No liability caps or indemnity provisions.",
-      "Key personnel or substitution rights absent.",
-    ],
-  },
-  rda: {
-    title: "Research & Development Agreement",
-    keywords: ["rda", "research", "development"],
-    focus: [
-      "Confirm research objectives, collaboration structure, governance, milestones, and contribution responsibilities.",
-      "Examine ownership of background and foreground IP, licensing rights, commercialisation terms, and joint inventions.",
-      "Evaluate publication rights, confidentiality, data sharing, ethical/regulatory compliance, and exit/termination mechanics.",
-    ],
-    scoring: [
-      "Ownership/licensing of background and foreground IP ~40% of score.",
-      "Governance, milestones, and funding controls ~35%.",
-      "Compliance, publication, and exit strategy ~25%.",
-    ],
-    mustHave: [
-      "Definition of background vs. new IP and ownership/outcome.",
-      "Governance mechanism (steering committee, reporting cadence).",
-      "Publication approval process and regulatory compliance covenants.",
-    ],
-    watchouts: [
-      "No dispute resolution around jointly developed IP.",
-      "Milestones and success criteria undefined.",
-      "No exit or wind-down mechanism if project halts early.",
-    ],
-  },
-  psa: {
-    title: "Product Supply Agreement",
-    keywords: ["psa", "product supply", "supply agreement", "purchase"],
-    focus: [
-      "Analyse product specifications, quality standards, inspection/acceptance procedures, and logistics responsibilities.",
-      "Review delivery schedules, forecasting, penalties, and change management mechanisms.",
-      "Assess warranty, liability, indemnities, force majeure, and continuity/resilience planning.",
-    ],
-    scoring: [
-      "Specifications, quality, and acceptance ~35% of scoring.",
-      "Logistics, delivery, and change control ~30%.",
-      "Warranty, liability, indemnity, and contingency planning ~35%.",
-    ],
-    mustHave: [
-      "Quality/inspection rights with acceptance criteria.",
-      "Forecasting, ordering cadence, and remedies for delays.",
-      "Risk allocation for defective goods and force majeure provisions.",
-    ],
-    watchouts: [
-      "No remedy for non-conforming goods.",
-      "Delivery lead times or penalties undefined.",
-      "Continuity or contingency obligations absent.",
-    ],
-  },
-};
-
 function getSolutionGuidance(
   selected: AnalysisRequest["selectedSolution"],
   fallbackContractType?: string,
@@ -661,14 +305,13 @@ function getSolutionGuidance(
   });
 
   for (const candidate of candidates) {
-    for (const [key, config] of Object.entries(SOLUTION_ANALYSIS_GUIDANCE)) {
-      if (
-        candidate === key ||
-        candidate.includes(key) ||
-        config.keywords.some((keyword) => candidate.includes(keyword))
-      ) {
-        return { key, ...config };
-      }
+    const type = matchContractType(candidate);
+    if (type) {
+      return {
+        key: type.key,
+        title: type.displayName,
+        ...type.reviewGuidance,
+      };
     }
   }
 
@@ -705,9 +348,9 @@ function detectContractType(
 ) {
   if (provided) return provided;
   let bestMatch: { type: string; score: number } | null = null;
-  for (const [type, patterns] of Object.entries(CONTRACT_PATTERNS)) {
+  for (const { key: type, detectionPatterns } of CONTRACT_TYPES) {
     let score = 0;
-    for (const pattern of patterns) {
+    for (const pattern of detectionPatterns) {
       if (pattern.test(content)) {
         score += 1;
       }
@@ -1198,10 +841,18 @@ const FORCED_MODEL_TIER = parseTierEnv("OPENAI_REASONING_FORCE_TIER");
 const DEFAULT_MODEL_TIER =
   FORCED_MODEL_TIER ?? parseTierEnv("OPENAI_REASONING_DEFAULT_TIER") ?? "intensive";
 
-function resolveModelTier(model?: string | null, reviewType?: string): ModelTier {
+function resolveModelTier(
+  model?: string | null,
+  reviewType?: string,
+  analysisDepth?: unknown,
+): ModelTier {
   if (FORCED_MODEL_TIER) {
     return FORCED_MODEL_TIER;
   }
+  // A solution's analysis depth outranks the client's default model choice.
+  if (analysisDepth) {
+    return resolveAnalysisDepthProfile(analysisDepth).modelTier;
+  }
   const value = model?.toLowerCase() ?? "";
   if (value.includes("intensive") || value.includes("pro")) {
     return "intensive";
@@ -1219,6 +870,7 @@ function buildLegacyResponse(
     contractType: string;
     reviewType: string;
     modelTier: ModelTier;
+    reviewCache?: ReviewCacheMarker;
   },
 ) {
   const summary =
@@ -1303,6 +955,7 @@ function buildLegacyResponse(
     clause_findings: report.clauseFindings,
     proposed_edits: report.proposedEdits,
     score: report.generalInformation.complianceScore,
+    score_breakdown: report.metadata?.scoreBreakdown ?? null,
     confidence:
       context.classification?.confidence ??
       report.metadata?.classification?.confidence ??
@@ -1312,6 +965,7 @@ function buildLegacyResponse(
     recommendations,
     action_items: actionItems,
     token_usage: report.metadata?.tokenUsage ?? null,
+    review_cache: context.reviewCache ?? null,
   };
 }
 serve(async (req) => {
@@ -1526,6 +1180,11 @@ serve(async (req) => {
       request.documentFormat,
       request.fileType || ingestionRecord?.mime_type,
     );
+    const contractLanguage = resolveContractLanguage(
+      ingestionRecord,
+      processedContent,
+    );
+    const reportLanguage = resolveReportLanguageMode(request.reportLanguage);
 
     fallbackContext = {
       reviewType: request.reviewType,
@@ -1547,7 +1206,11 @@ serve(async (req) => {
       });
     }
 
-    const modelTier = resolveModelTier(request.model, request.reviewType);
+    const modelTier = resolveModelTier(
+      request.model,
+      request.reviewType,
+      request.customSolution?.analysisDepth,
+    );
     const estimatedTimeSavingsMinutes = estimateTimeSavingsMinutes(
       processedContent,
       ingestionRecord,
@@ -1575,21 +1238,103 @@ serve(async (req) => {
       );
     }
 
+    const caller = await resolveCaller(req, request.organizationId);
+    const organizationId = caller.organizationId;
+    const playbookOverrides = await loadOrgPlaybookOverrides(organizationId);
+    if (playbookOverrides.length > 0) {
+      console.log("📘 Applying organization playbook overrides", {
+        requestId,
+        playbooks: playbookOverrides.map((override) => override.playbookKey),
+      });
+    }
+
+    const orgScoringProfile = await loadOrgScoringProfile(organizationId);
+    const scoringProfile = resolveScoringProfile({
+      organization: orgScoringProfile,
+      solution: request.customSolution?.scoringProfile,
+    });
+
+    // Placeholders depend only on the document and its classification, which
+    // the start and poll requests of an async review both carry, so they
+    // build identical maps.
+    const redaction = await loadOrgRedaction(
+      organizationId,
+      processedContent,
+      request.classification?.parties,
+    );
+    const redact = <T>(value: T): T =>
+      redaction ? redactValue(value, redaction) : value;
+    if (redaction) {
+      console.log("🕶️ Redacting contract before analysis", {
+        requestId,
+        categories: summariseRedactions(redaction).categories,
+      });
+    }
+
+    const reviewCacheKey = await buildReviewCacheKey({
+      content: processedContent,
+      reviewType: request.reviewType,
+      contractType: resolvedContractType,
+      solutionKey: request.selectedSolution?.key ?? request.selectedSolution?.id,
+      customSolution: request.customSolution,
+      perspective: request.perspective,
+      playbookOverrides,
+      scoringProfile: orgScoringProfile,
+      modelTier,
+      redacted: redaction !== null,
+      contractLanguage,
+      reportLanguage,
+    });
+
+    // Poll requests belong to an analysis that already missed the cache.
+    if (!request.responseId) {
+      const cached = await loadCachedReview(caller, reviewCacheKey);
+      if (cached) {
+        console.log("♻️ Serving cached review", {
+          requestId,
+          reviewId: cached.reviewId,
+          cachedAt: cached.cachedAt,
+        });
+        const responsePayload = buildLegacyResponse(cached.report, {
+          classification: request.classification,
+          contractType: resolvedContractType,
+          reviewType: request.reviewType,
+          modelTier,
+          reviewCache: {
+            key: reviewCacheKey,
+            hit: true,
+            reviewId: cached.reviewId,
+            cachedAt: cached.cachedAt,
+          },
+        });
+        return new Response(JSON.stringify(responsePayload), {
+          status: 200,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
     try {
       const reasoningContext = {
-        content: processedContent,
+        content: redaction
+          ? redactText(processedContent, redaction)
+          : processedContent,
         reviewType: request.reviewType,
-        classification: request.classification,
+        classification: redact(request.classification),
         selectedSolution: request.selectedSolution,
-        filename,
+        filename: redact(filename),
         documentFormat: resolvedDocumentFormat,
         ingestionWarnings: ingestionRecord?.warnings,
         ingestionId: request.ingestionId,
         modelTier,
-        clauseDigest,
-        clauseExtractions: clauseSeed,
+        clauseDigest: redact(clauseDigest),
+        clauseExtractions: redact(clauseSeed),
         clauseSetWeak: clauseQuality.isWeak,
         customSolution: request.customSolution,
+        playbookOverrides,
+        scoringProfile,
+        contractLanguage,
+        reportLanguage,
       };
 
       const responseId =
@@ -1649,15 +1394,17 @@ serve(async (req) => {
           responseId,
           durationMs: Date.now() - requestStartedAt,
         });
-        applyTimeSavingsToReport(
+        const report = restoreRedactedReport(
           pollResult.result.report,
-          estimatedTimeSavingsMinutes,
+          redaction,
         );
-        const responsePayload = buildLegacyResponse(pollResult.result.report, {
+        applyTimeSavingsToReport(report, estimatedTimeSavingsMinutes);
+        const responsePayload = buildLegacyResponse(report, {
           classification: request.classification,
           contractType: resolvedContractType,
           reviewType: request.reviewType,
           modelTier,
+          reviewCache: { key: reviewCacheKey, hit: false },
         });
 
         return new Response(JSON.stringify(responsePayload), {
@@ -1666,17 +1413,24 @@ serve(async (req) => {
         });
       }
 
-      if (request.async === true) {
+      // Providers without server-side background responses answer inline;
+      // callers accept a completed 200 in place of a 202 to poll.
+      if (
+        request.async === true &&
+        supportsBackgroundReasoning(reasoningContext)
+      ) {
         console.log("🧭 Starting async analysis", {
           requestId,
           reviewType: request.reviewType,
           modelTier,
+          reviewCache: { key: reviewCacheKey, hit: false },
         });
         const startResult = await startReasoningAnalysis(reasoningContext);
         console.log("⏳ Async analysis accepted", {
           requestId,
           responseId: startResult.responseId,
           status: startResult.status,
+          provider: startResult.provider,
           model: startResult.model,
           tier: startResult.tier,
           mode: startResult.mode,
@@ -1702,12 +1456,10 @@ serve(async (req) => {
         modelTier,
         durationMs: Date.now() - requestStartedAt,
       });
-      applyTimeSavingsToReport(
-        reasoningResult.report,
-        estimatedTimeSavingsMinutes,
-      );
+      const report = restoreRedactedReport(reasoningResult.report, redaction);
+      applyTimeSavingsToReport(report, estimatedTimeSavingsMinutes);
 
-      const responsePayload = buildLegacyResponse(reasoningResult.report, {
+      const responsePayload = buildLegacyResponse(report, {
         classification: request.classification,
         contractType: resolvedContractType,
         reviewType: request.reviewType,
@@ -2029,6 +1781,243 @@ async function loadIngestionRecord(
   return data as ContractIngestionRecord;
 }
 
+type OrgPlaybookOverrideRow = {
+  playbook_key: string;
+  mode: "extend" | "replace";
+  critical_clauses: unknown;
+  clause_anchors: unknown;
+  negotiation_guidance: unknown;
+};
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string")
+    : [];
+
+type RequestCaller = {
+  organizationId: string | null;
+  profileId: string | null;
+};
+
+const ANONYMOUS_CALLER: RequestCaller = { organizationId: null, profileId: null };
+
+// Org playbooks are resolved from the caller's session rather than the request
+// body so one organization cannot apply (or read) another's overrides.
+async function resolveRequestCaller(
+  supabase: SupabaseClient,
+  token: string,
+  requestedOrganizationId?: string,
+): Promise<RequestCaller> {
+  const serviceRole = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (serviceRole && token === serviceRole) {
+    return {
+      organizationId: requestedOrganizationId?.trim() || null,
+      profileId: null,
+    };
+  }
+
+  const { data: userData, error: userError } =
+    await supabase.auth.getUser(token);
+  if (userError || !userData?.user) return ANONYMOUS_CALLER;
+
+  const { data: profile, error: profileError } = await supabase
+    .from("user_profiles")
+    .select("id, organization_id")
+    .eq("auth_user_id", userData.user.id)
+    .maybeSingle();
+  if (profileError) throw profileError;
+  return {
+    organizationId: profile?.organization_id ?? null,
+    profileId: profile?.id ?? null,
+  };
+}
+
+async function resolveCaller(
+  req: Request,
+  requestedOrganizationId?: string,
+): Promise<RequestCaller> {
+  const authHeader = req.headers.get("authorization") ?? "";
+  const token = authHeader.replace(/^Bearer\s+/i, "").trim();
+  if (!token) return ANONYMOUS_CALLER;
+
+  try {
+    return await resolveRequestCaller(
+      getSupabaseAdminClient(),
+      token,
+      requestedOrganizationId,
+    );
+  } catch (error) {
+    console.warn("⚠️ Unable to resolve caller organization", {
+      error: formatErrorMessage(error),
+    });
+    return ANONYMOUS_CALLER;
+  }
+}
+
+// Entries are scoped to the caller's organization, or to the caller alone
+// when they have none. A failed lookup is treated as a miss.
+async function loadCachedReview(
+  caller: RequestCaller,
+  cacheKey: string,
+): Promise<{ reviewId: string; cachedAt: string; report: AnalysisReport } | null> {
+  if (!caller.organizationId && !caller.profileId) return null;
+
+  try {
+    const supabase = getSupabaseAdminClient();
+    if (caller.organizationId) {
+      const { data: org, error: orgError } = await supabase
+        .from("organizations")
+        .select("review_cache_enabled")
+        .eq("id", caller.organizationId)
+        .maybeSingle();
+      if (orgError) throw orgError;
+      if (org?.review_cache_enabled === false) return null;
+    }
+
+    let query = supabase
+      .from("review_cache_entries")
+      .select("review_id, created_at, contract_reviews (results)")
+      .eq("cache_key", cacheKey);
+    query = caller.organizationId
+      ? query.eq("organization_id", caller.organizationId)
+      : query.is("organization_id", null).eq("user_id", caller.profileId);
+    const { data, error } = await query
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+
+    const review = data?.contract_reviews as
+      | { results?: { structured_report?: AnalysisReport } }
+      | null
+      | undefined;
+    const report = review?.results?.structured_report;
+    if (!data || !report) return null;
+    return {
+      reviewId: data.review_id as string,
+      cachedAt: data.created_at as string,
+      report,
+    };
+  } catch (error) {
+    console.warn("⚠️ Unable to read review cache", {
+      error: formatErrorMessage(error),
+    });
+    return null;
+  }
+}
+
+async function loadOrgPlaybookOverrides(
+  organizationId: string | null,
+): Promise<PlaybookOverrideLike[]> {
+  if (!organizationId) return [];
+
+  try {
+    const supabase = getSupabaseAdminClient();
+    const { data, error } = await supabase
+      .from("org_playbooks")
+      .select(
+        "playbook_key, mode, critical_clauses, clause_anchors, negotiation_guidance",
+      )
+      .eq("organization_id", organizationId)
+      .eq("is_active", true);
+    if (error) throw error;
+
+    return ((data ?? []) as OrgPlaybookOverrideRow[]).map((row) => ({
+      playbookKey: row.playbook_key,
+      mode: row.mode,
+      criticalClauses: Array.isArray(row.critical_clauses)
+        ? (row.critical_clauses as Array<Record<string, unknown>>)
+            .filter((clause) => typeof clause?.title === "string")
+            .map((clause) => ({
+              title: clause.title as string,
+              mustInclude: toStringArray(clause.mustInclude),
+              redFlags: toStringArray(clause.redFlags),
+              fallbackPositions: toStringArray(clause.fallbackPositions),
+            }))
+        : [],
+      clauseAnchors: toStringArray(row.clause_anchors),
+      negotiationGuidance: toStringArray(row.negotiation_guidance),
+    }));
+  } catch (error) {
+    console.warn("⚠️ Unable to load organization playbooks", {
+      error: formatErrorMessage(error),
+    });
+    return [];
+  }
+}
+
+// A failed lookup scores with the default profile rather than failing the
+// review; the breakdown records which profile was applied.
+async function loadOrgScoringProfile(
+  organizationId: string | null,
+): Promise<unknown> {
+  if (!organizationId) return null;
+
+  try {
+    const { data, error } = await getSupabaseAdminClient()
+      .from("organizations")
+      .select("scoring_profile")
+      .eq("id", organizationId)
+      .maybeSingle();
+    if (error) throw error;
+    return data?.scoring_profile ?? null;
+  } catch (error) {
+    console.warn("⚠️ Unable to load organization scoring profile", {
+      error: formatErrorMessage(error),
+    });
+    return null;
+  }
+}
+
+// A failed settings lookup redacts rather than risk sending text the
+// organization asked to keep back.
+async function loadOrgRedaction(
+  organizationId: string | null,
+  content: string,
+  classifiedParties: unknown,
+): Promise<RedactionMap | null> {
+  if (!organizationId) return null;
+
+  let enabled = true;
+  try {
+    const { data, error } = await getSupabaseAdminClient()
+      .from("organizations")
+      .select("redact_before_analysis")
+      .eq("id", organizationId)
+      .maybeSingle();
+    if (error) throw error;
+    enabled = data?.redact_before_analysis === true;
+  } catch (error) {
+    console.warn("⚠️ Unable to load organization redaction setting", {
+      error: formatErrorMessage(error),
+    });
+  }
+
+  if (!enabled) return null;
+  // The classifier names parties the defined-term detector misses, e.g. ones
+  // introduced without a quoted role.
+  const parties = [
+    ...detectDefinedParties(content),
+    ...(Array.isArray(classifiedParties) ? classifiedParties : []),
+  ];
+  return createRedactionMap({ parties });
+}
+
+function restoreRedactedReport(
+  report: AnalysisReport,
+  redaction: RedactionMap | null,
+): AnalysisReport {
+  if (!redaction) return report;
+  const restored = restoreRedactions(report, redaction);
+  if (restored.metadata) {
+    restored.metadata = {
+      ...restored.metadata,
+      redaction: summariseRedactions(redaction),
+    };
+  }
+  return restored;
+}
+
 async function analyzeWithAI(request: AnalysisRequest, apiKey: string) {
   const modelConfig = AI_CONFIGS[request.model as keyof typeof AI_CONFIGS];
   if (!modelConfig) {
@@ -1,4 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import {
+  CONTRACT_TYPES,
+  GENERAL_CONTRACT_TYPE,
+} from "../../../shared/contractTypes.ts";
 
 // AI Model configurations for classification
 const AI_CONFIGS = {
@@ -30,6 +34,7 @@ interface ClassificationResult {
     party1: string;
     party2: string;
   };
+  parties: string[];
   fallback_used?: boolean;
   fallback_reason?: string;
 }
@@ -185,6 +190,18 @@ function extractErrorMessage(error: unknown): string {
   return String(error);
 }
 
+const SUPPORTED_CATEGORIES = [
+  ...CONTRACT_TYPES.map((type) => type.classificationType),
+  GENERAL_CONTRACT_TYPE,
+];
+
+const CATEGORY_GUIDE = CONTRACT_TYPES.map(
+  (type, index) =>
+    `${index + 1}. **${type.classificationType}**:\n${type.classification.promptIndicators
+      .map((line) => `   - ${line}`)
+      .join("\n")}`,
+).join("\n\n");
+
 async function classifyWithAI(
   request: ClassificationRequest,
   apiKey: string,
@@ -204,44 +221,11 @@ Your classifications are relied upon by Fortune 500 companies, law firms, and re
 
 **PRIMARY CONTRACT CATEGORIES** (with detailed identification criteria):
 
-1. **data_processing_agreement**:
-   - Keywords: "personal data", "data subject", "controller", "processor", "GDPR", "EDPB", "data protection", "processing activities"
-   - Clauses: security measures, sub-processing, data breach notification, audit rights, cross-border transfers, SCCs
-   - Regulatory: GDPR Article 28 compliance, data protection impact assessments
-
-2. **non_disclosure_agreement**:
-   - Keywords: "confidential information", "proprietary", "trade secrets", "non-disclosure", "confidentiality obligations"
-   - Clauses: definition of confidential info, permitted disclosures, return/destruction, non-compete/non-solicit
-   - Types: mutual/unilateral NDAs, standalone/embedded confidentiality provisions
-
-3. **privacy_policy_document**:
-   - Keywords: "privacy policy", "data collection", "user rights", "cookie policy", "privacy notice", "personal information"
-   - Elements: data categories, processing purposes, legal basis, retention, rights, contact details
-   - Compliance: GDPR transparency requirements, CCPA disclosures, privacy shield
-
-4. **consultancy_agreement**:
-   - Keywords: "consulting services", "professional services", "advisory", "expertise", "deliverables", "statement of work"
-   - Clauses: scope of services, fees, expenses, independent contractor, work product ownership
-   - Types: strategic advisory, technical consulting, interim management
-
-5. **research_development_agreement**:
-   - Keywords: "research", "development", "innovation", "intellectual property", "patents", "technology transfer", "R&D collaboration"
-   - Clauses: IP ownership, joint inventions, publication rights, commercialization, milestones
-   - Types: sponsored research, joint development, technology licensing
-
-6. **end_user_license_agreement**:
-   - Keywords: "license", "end user", "software", "permitted use", "restrictions", "license grant", "proprietary rights"
-   - Clauses: license scope, restrictions, warranties, support, updates, termination
-   - Types: perpetual/subscription, enterprise/individual, SaaS/on-premise
-
-7. **product_supply_agreement**:
-   - Keywords: "supply", "purchase", "procurement", "delivery", "goods", "products", "specifications", "quantity"
-   - Clauses: pricing, delivery terms, quality standards, warranties, returns, force majeure
-   - Types: master supply, purchase orders, distribution, manufacturing
-
-8. **general_commercial**:
+${CATEGORY_GUIDE}
+
+${CONTRACT_TYPES.length + 1}. **general_commercial**:
    - Any other commercial agreements: service agreements, partnership agreements, joint ventures, franchise, licensing (non-software), employment, sales contracts
-   - Use when contract doesn't clearly fit the 7 specific categories above
+   - Use when contract doesn't clearly fit the ${CONTRACT_TYPES.length} specific categories above
 
 **CLASSIFICATION METHODOLOGY**:
 1. Analyze document title and headings (weight: 20%)
@@ -267,7 +251,7 @@ Be precise, analytical, and provide high confidence classifications only when cl
 **REQUIRED OUTPUT**:
 
 Provide detailed classification with:
-- **Primary Classification**: Most appropriate category from the 8 types
+- **Primary Classification**: Most appropriate category from the ${CONTRACT_TYPES.length + 1} types
 - **Confidence Score**: Based on clarity of indicators (0.9+ for clear matches, 0.7-0.9 for strong matches, 0.5-0.7 for partial matches)
 - **Sub-Type**: Specific variant within category (e.g., "Mutual NDA", "GDPR-compliant DPA", "SaaS EULA")
 - **Key Characteristics**: 5-10 distinctive features that led to classification
@@ -287,7 +271,7 @@ ${request.fileName ? `- File Name: "${request.fileName}" (may contain type hints
 
 Return JSON in this EXACT structure (valid JSON required):
 {
-  "contractType": "string (exactly one of: data_processing_agreement, non_disclosure_agreement, privacy_policy_document, consultancy_agreement, research_development_agreement, end_user_license_agreement, product_supply_agreement, general_commercial)",
+  "contractType": "string (exactly one of: ${SUPPORTED_CATEGORIES.join(", ")})",
   "confidence": number (0.5-1.0, precise to 2 decimals),
   "subType": "string (specific variant or null)",
   "characteristics": [
@@ -309,7 +293,10 @@ Return JSON in this EXACT structure (valid JSON required):
   "partyRoles": {
     "party1": "string (role description, e.g., 'Data Controller', 'Disclosing Party')",
     "party2": "string (role description, e.g., 'Data Processor', 'Receiving Party')"
-  }
+  },
+  "parties": [
+    "string array (legal names of the contracting parties exactly as written, not their roles)"
+  ]
 }
 
 **CONTRACT CONTENT TO ANALYZE (FULL)**:
@@ -389,6 +376,15 @@ Analyze thoroughly and provide precise classification based on the evidence foun
         party1: result.partyRoles?.party1 || "Not specified",
         party2: result.partyRoles?.party2 || "Not specified",
       },
+      parties: Array.isArray(result.parties)
+        ? result.parties
+            .filter(
+              (party: unknown): party is string => typeof party === "string",
+            )
+            .map((party: string) => party.trim())
+            .filter((party: string) => party.length > 0)
+            .slice(0, 10)
+        : [],
     };
 
     console.log("✅ Enhanced classification result:", {
@@ -411,207 +407,19 @@ Analyze thoroughly and provide precise classification based on the evidence foun
   }
 }
 
-const FALLBACK_RULES: FallbackRule[] = [
-  {
-    type: "data_processing_agreement",
-    confidence: 0.92,
-    keywords: [
-      "data processing",
-      "personal data",
-      "controller",
-      "processor",
-      "gdpr",
-      "data subject",
-      "edpb",
-      "data protection",
-      "sub-processor",
-      "breach notification",
-    ],
-    characteristics: [
-      "GDPR and data protection obligations referenced",
-      "Controller and processor roles defined",
-      "Security and breach notification terms present",
-      "Sub-processing or data transfer restrictions identified",
-    ],
-    solutions: ["compliance_score", "perspective_review"],
-    reasoning:
-      "References to personal data handling and GDPR-style obligations align with a data processing agreement.",
-    subType: "GDPR-aligned DPA",
-    aliases: ["dpa", "data-processing"],
-    partyRoles: {
-      party1: "Data Controller",
-      party2: "Data Processor",
-    },
-  },
-  {
-    type: "non_disclosure_agreement",
-    confidence: 0.9,
-    keywords: [
-      "confidential",
-      "non-disclosure",
-      "receiving party",
-      "disclosing party",
-      "trade secret",
-      "proprietary information",
-      "return or destroy",
-    ],
-    characteristics: [
-      "Confidential information definitions present",
-      "Restrictions on disclosure or use",
-      "Obligations to return or destroy materials",
-      "Duration or survival clauses for confidentiality",
-    ],
-    solutions: ["full_summary", "risk_assessment"],
-    reasoning:
-      "Confidentiality-focused language and party roles indicate a non-disclosure agreement.",
-    subType: "Mutual NDA",
-    aliases: ["nda", "non-disclosure"],
-    partyRoles: {
-      party1: "Disclosing Party",
-      party2: "Receiving Party",
-    },
-  },
-  {
-    type: "privacy_policy_document",
-    confidence: 0.88,
-    keywords: [
-      "privacy policy",
-      "personal information",
-      "cookie",
-      "user rights",
-      "data retention",
-      "data collection",
-      "do not sell",
-      "ccpa",
-      "gdpr",
-    ],
-    characteristics: [
-      "User rights and privacy disclosures present",
-      "References to data collection or retention",
-      "Mentions of GDPR, CCPA, or similar regulations",
-      "Instructions for contacting privacy officer or exercising rights",
-    ],
-    solutions: ["compliance_score", "full_summary"],
-    reasoning:
-      "Regulatory transparency and user rights language matches a privacy policy document.",
-    aliases: ["privacy", "privacy-policy"],
-    partyRoles: {
-      party1: "Service Provider",
-      party2: "End User",
-    },
-  },
-  {
-    type: "consultancy_agreement",
-    confidence: 0.85,
-    keywords: [
-      "consulting",
-      "services",
-      "professional services",
-      "statement of work",
-      "fees",
-      "expenses",
-      "deliverables",
-      "independent contractor",
-    ],
-    characteristics: [
-      "Professional services scope defined",
-      "Payment and expense handling clauses",
-      "Independent contractor language present",
-      "Deliverables or milestones described",
-    ],
-    solutions: ["full_summary", "risk_assessment"],
-    reasoning:
-      "Service delivery language and statement of work references align with a consultancy agreement.",
-    aliases: ["consulting", "consultancy"],
-    partyRoles: {
-      party1: "Client",
-      party2: "Consultant",
-    },
-  },
-  {
-    type: "research_development_agreement",
-    confidence: 0.87,
-    keywords: [
-      "research",
-      "development",
-      "intellectual property",
-      "invention",
-      "technology transfer",
-      "commercialization",
-      "publication",
-    ],
-    characteristics: [
-      "Innovation or R&D cooperation described",
-      "IP ownership or licensing language",
-      "Milestones or research phases outlined",
-      "Publication or confidentiality restrictions",
-    ],
-    solutions: ["full_summary", "perspective_review"],
-    reasoning:
-      "IP-centric collaboration language indicates a research and development agreement.",
-    aliases: ["r&d", "research-development", "collaboration"],
-    partyRoles: {
-      party1: "Research Sponsor",
-      party2: "Research Partner",
-    },
-  },
-  {
-    type: "end_user_license_agreement",
-    confidence: 0.9,
-    keywords: [
-      "license",
-      "end user",
-      "software",
-      "permitted use",
-      "license grant",
-      "restrictions",
-      "updates",
-      "support",
-    ],
-    characteristics: [
-      "Software license grant and restrictions",
-      "Usage limitations or prohibited actions",
-      "Update, maintenance, or support terms",
-      "Termination tied to license violations",
-    ],
-    solutions: ["risk_assessment", "full_summary"],
-    reasoning:
-      "Software usage and licensing restrictions identify an end user license agreement.",
-    aliases: ["eula", "license agreement"],
-    partyRoles: {
-      party1: "Licensor",
-      party2: "Licensee",
-    },
-  },
-  {
-    type: "product_supply_agreement",
-    confidence: 0.86,
-    keywords: [
-      "supply",
-      "purchase",
-      "buyer",
-      "seller",
-      "delivery",
-      "quantity",
-      "specifications",
-      "warranty",
-    ],
-    characteristics: [
-      "Product or goods supply obligations",
-      "Delivery schedule or logistics language",
-      "Pricing, invoicing, or acceptance terms",
-      "Quality standards or warranties referenced",
-    ],
-    solutions: ["risk_assessment", "perspective_review"],
-    reasoning:
-      "References to goods delivery and purchase obligations indicate a product supply agreement.",
-    aliases: ["supply", "supply-agreement", "purchase"],
-    partyRoles: {
-      party1: "Buyer",
-      party2: "Supplier",
-    },
-  },
-];
+const FALLBACK_RULES: FallbackRule[] = CONTRACT_TYPES.map(
+  ({ classificationType, classification }) => ({
+    type: classificationType,
+    confidence: classification.confidence,
+    keywords: classification.keywords,
+    characteristics: classification.characteristics,
+    solutions: classification.suggestedSolutions,
+    reasoning: classification.reasoning,
+    subType: classification.subType,
+    aliases: classification.fileAliases,
+    partyRoles: classification.partyRoles,
+  }),
+);
 
 const DEFAULT_RULE: FallbackRule = {
   type: "general_commercial",
@@ -650,6 +458,7 @@ function generateFallbackClassification(
       keyTerms: ["Contract content unavailable"],
       jurisdiction: "Not specified",
       partyRoles: DEFAULT_RULE.partyRoles,
+      parties: [],
       fallback_used: true,
     };
   }
@@ -699,6 +508,7 @@ function generateFallbackClassification(
     keyTerms,
     jurisdiction: "Not specified",
     partyRoles: chosenRule.partyRoles,
+    parties: [],
     fallback_used: true,
   };
 }
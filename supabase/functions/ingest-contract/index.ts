@@ -6,6 +6,7 @@ import {
 } from "../_shared/pdf-parser.ts";
 import { extractClausesWithAI } from "../_shared/aiClauseExtractor.ts";
 import type { ClauseExtraction } from "../_shared/reviewSchema.ts";
+import { detectContractLanguage } from "../../../shared/contractLanguage.ts";
 import {
   createClient,
   type SupabaseClient,
@@ -131,10 +132,12 @@ serve(async (req) => {
     }
 
     const contentHash = await hashText(extractedText);
+    const language = detectContractLanguage(extractedText);
     const clausesJob = await extractClausesWithAI({
       content: extractedText,
       contractType: request.contractType,
       filename: fileName,
+      language: language.language,
     }).catch((error) => {
       console.warn("⚠️ Clause extraction failed, continuing", error);
       return { clauses: [] as ClauseExtraction[], source: "fallback" as const, raw: null };
@@ -147,6 +150,7 @@ serve(async (req) => {
       const supabase = getSupabaseAdminClient();
       const metadata: Record<string, unknown> = {
         ...(ingestionRecord.metadata ?? {}),
+        language,
         clauseExtractions: clausesJob.clauses ?? [],
         analysisSeed: {
           contentHash,
@@ -175,6 +179,7 @@ serve(async (req) => {
         status: "ready",
         cached: false,
         clausesCached: (clausesJob.clauses ?? []).length,
+        language: language.language,
       });
     }
 
@@ -185,6 +190,7 @@ serve(async (req) => {
       extractedText,
       wordCount: wordCount(extractedText),
       characterCount: extractedText.length,
+      language,
       clauseDigest,
       clauses: clausesJob.clauses ?? [],
       contentHash,
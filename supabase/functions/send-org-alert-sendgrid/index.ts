@@ -0,0 +1,218 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+
+const SENDGRID_API_KEY = Deno.env.get('SENDGRID_API_KEY')
+const SENDGRID_FROM_EMAIL = Deno.env.get('SENDGRID_FROM_EMAIL') || 'noreply@maigon.io'
+const SENDGRID_ORG_ALERT_TEMPLATE_ID = Deno.env.get('SENDGRID_ORG_ALERT_TEMPLATE_ID')
+
+interface OrgAlertItem {
+  label: string
+  detail?: string
+  severity?: string
+  url?: string
+}
+
+interface OrgAlertEmailRequest {
+  to: string[]
+  alert: {
+    type: string
+    organizationName: string | null
+    title: string
+    summary: string
+    items: OrgAlertItem[]
+    dashboardUrl: string
+    generatedAt: string
+  }
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { to, alert }: OrgAlertEmailRequest = await req.json()
+
+    if (!Array.isArray(to) || to.length === 0 || !alert?.title) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Unlike the account emails this reports a failure, so the caller's
+    // delivery log does not mark an unsent alert as sent.
+    if (!SENDGRID_API_KEY) {
+      console.error('SENDGRID_API_KEY not configured')
+      return new Response(
+        JSON.stringify({ error: 'Email service not configured' }),
+        {
+          status: 503,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const subject = alert.organizationName
+      ? `[${alert.organizationName}] ${alert.title}`
+      : alert.title
+    const recipients = to.map((email) => ({ email }))
+
+    let emailPayload
+
+    if (SENDGRID_ORG_ALERT_TEMPLATE_ID) {
+      emailPayload = {
+        from: {
+          email: SENDGRID_FROM_EMAIL,
+          name: 'Maigon'
+        },
+        personalizations: [
+          {
+            to: recipients,
+            dynamic_template_data: {
+              subject,
+              ...alert,
+              year: new Date().getFullYear()
+            }
+          }
+        ],
+        template_id: SENDGRID_ORG_ALERT_TEMPLATE_ID
+      }
+    } else {
+      emailPayload = {
+        from: {
+          email: SENDGRID_FROM_EMAIL,
+          name: 'Maigon'
+        },
+        personalizations: [
+          {
+            to: recipients,
+            subject
+          }
+        ],
+        content: [
+          {
+            type: 'text/html',
+            value: generateOrgAlertEmailHTML(alert)
+          }
+        ]
+      }
+    }
+
+    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${SENDGRID_API_KEY}`,
+      },
+      body: JSON.stringify(emailPayload),
+    })
+
+    if (response.ok || response.status === 202) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: 'Organization alert sent successfully via SendGrid',
+          messageId: response.headers.get('X-Message-Id')
+        }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    } else {
+      const errorText = await response.text()
+      console.error('SendGrid API error:', response.status, errorText)
+      return new Response(
+        JSON.stringify({
+          error: 'Failed to send organization alert via SendGrid',
+          details: errorText
+        }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+  } catch (error) {
+    console.error('Function error:', error)
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function generateOrgAlertEmailHTML(alert: OrgAlertEmailRequest['alert']): string {
+  const rows = alert.items.slice(0, 25).map((item) => `
+            <tr>
+              <td style="padding: 8px 0; border-bottom: 1px solid #eee;">
+                ${item.severity ? `<span class="severity">${escapeHtml(item.severity.toUpperCase())}</span>` : ''}
+                <strong>${escapeHtml(item.label)}</strong>
+                ${item.detail ? `<div style="color: #666;">${escapeHtml(item.detail)}</div>` : ''}
+              </td>
+            </tr>`).join('')
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${escapeHtml(alert.title)}</title>
+      <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; margin: 0; padding: 0; background-color: #f9f8f8; }
+        .container { max-width: 600px; margin: 0 auto; background-color: white; padding: 40px; border-radius: 8px; margin-top: 20px; }
+        .header { text-align: center; margin-bottom: 40px; }
+        .logo { font-size: 32px; font-weight: bold; color: #9A7C7C; margin-bottom: 20px; }
+        .content { line-height: 1.6; color: #333; }
+        .button { display: inline-block; padding: 14px 28px; background-color: #9A7C7C; color: white; text-decoration: none; border-radius: 6px; margin: 20px 0; font-weight: 500; }
+        .severity { display: inline-block; padding: 2px 8px; margin-right: 8px; border-radius: 4px; background-color: #fdecea; color: #b42318; font-size: 12px; font-weight: 600; }
+        .footer { margin-top: 40px; padding-top: 20px; border-top: 1px solid #eee; font-size: 14px; color: #666; text-align: center; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <div class="logo">MAIGON</div>
+          <h1 style="color: #333; margin: 0;">${escapeHtml(alert.title)}</h1>
+        </div>
+
+        <div class="content">
+          <p>${escapeHtml(alert.summary)}</p>
+
+          <table style="width: 100%; border-collapse: collapse;">${rows}
+          </table>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${alert.dashboardUrl}" class="button">Open Organization Dashboard</a>
+          </div>
+        </div>
+
+        <div class="footer">
+          <p>You are receiving this because alerts are enabled for ${escapeHtml(alert.organizationName ?? 'your organization')}.</p>
+          <p>&copy; ${new Date().getFullYear()} Maigon. All rights reserved.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `
+}
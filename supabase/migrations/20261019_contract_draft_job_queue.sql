@@ -0,0 +1,119 @@
+-- Lease-based queue semantics for contract_draft_jobs (compose + clause edit)
+-- Idempotent: safe to re-run
+
+alter table if exists public.contract_draft_jobs
+  add column if not exists job_type text not null default 'compose',
+  add column if not exists attempts integer not null default 0,
+  add column if not exists max_attempts integer not null default 3,
+  add column if not exists available_at timestamptz not null default now(),
+  add column if not exists locked_by text,
+  add column if not exists lease_expires_at timestamptz,
+  add column if not exists heartbeat_at timestamptz,
+  add column if not exists last_error text;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'contract_draft_jobs_job_type_check'
+  ) then
+    alter table public.contract_draft_jobs
+      add constraint contract_draft_jobs_job_type_check
+      check (job_type in ('compose', 'clause_edit'));
+  end if;
+end $$;
+
+-- clause edit jobs were previously only distinguishable through their payload
+update public.contract_draft_jobs
+set job_type = 'clause_edit'
+where payload->>'jobType' = 'clause_edit'
+  and job_type <> 'clause_edit';
+
+create index if not exists idx_contract_draft_jobs_claimable
+  on public.contract_draft_jobs(status, available_at)
+  where status = 'pending';
+
+create index if not exists idx_contract_draft_jobs_lease
+  on public.contract_draft_jobs(lease_expires_at)
+  where status = 'running';
+
+-- Atomically claim the next runnable job (or a specific job when p_job_id is set).
+-- Uses SKIP LOCKED so concurrent workers never claim the same row.
+create or replace function public.claim_contract_draft_job(
+  p_worker_id text,
+  p_lease_seconds integer default 120,
+  p_job_types text[] default null,
+  p_job_id uuid default null
+)
+returns setof public.contract_draft_jobs
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  update public.contract_draft_jobs jobs
+  set status = 'running',
+      attempts = jobs.attempts + 1,
+      locked_by = p_worker_id,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = now(),
+      started_at = coalesce(jobs.started_at, now()),
+      error = null
+  where jobs.id = (
+    select candidate.id
+    from public.contract_draft_jobs candidate
+    where candidate.status = 'pending'
+      and candidate.available_at <= now()
+      and (p_job_types is null or candidate.job_type = any(p_job_types))
+      and (p_job_id is null or candidate.id = p_job_id)
+    order by candidate.available_at, candidate.created_at
+    for update skip locked
+    limit 1
+  )
+  returning jobs.*;
+end;
+$$;
+
+-- Return running jobs whose lease lapsed (worker crashed or restarted) to the
+-- queue, or dead-letter them once they have exhausted their attempts.
+create or replace function public.requeue_expired_contract_draft_jobs()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  affected integer;
+begin
+  with expired as (
+    select id
+    from public.contract_draft_jobs
+    where status = 'running'
+      and lease_expires_at is not null
+      and lease_expires_at < now()
+    for update skip locked
+  )
+  update public.contract_draft_jobs jobs
+  set status = case when jobs.attempts >= jobs.max_attempts then 'failed' else 'pending' end,
+      error = case
+        when jobs.attempts >= jobs.max_attempts
+          then coalesce(jobs.last_error, 'Job lease expired')
+        else null
+      end,
+      last_error = coalesce(jobs.last_error, 'Job lease expired'),
+      finished_at = case when jobs.attempts >= jobs.max_attempts then now() else null end,
+      available_at = now(),
+      locked_by = null,
+      lease_expires_at = null
+  from expired
+  where jobs.id = expired.id;
+
+  get diagnostics affected = row_count;
+  return affected;
+end;
+$$;
+
+revoke all on function public.claim_contract_draft_job(text, integer, text[], uuid) from public;
+revoke all on function public.requeue_expired_contract_draft_jobs() from public;
+grant execute on function public.claim_contract_draft_job(text, integer, text[], uuid) to service_role;
+grant execute on function public.requeue_expired_contract_draft_jobs() to service_role;
@@ -0,0 +1,10 @@
+-- Per-page OCR output for scanned PDF ingestions
+
+alter table if exists public.contract_ingestions
+  add column if not exists ocr_pages jsonb,
+  add column if not exists ocr_confidence numeric(5, 2);
+
+comment on column public.contract_ingestions.ocr_pages is
+  'Per-page OCR text and confidence ({pageNumber, text, confidence, wordCount}[]) when strategy = pdf-ocr';
+comment on column public.contract_ingestions.ocr_confidence is
+  'Average OCR confidence (0-100) across pages that produced text';
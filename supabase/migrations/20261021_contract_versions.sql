@@ -0,0 +1,24 @@
+-- Link revised drafts to the contract they supersede so re-reviews can be
+-- compared against the previous review.
+
+alter table if exists public.contracts
+  add column if not exists previous_version_id uuid,
+  add column if not exists version_number integer not null default 1;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'contracts_previous_version_id_fkey') then
+    alter table public.contracts
+      add constraint contracts_previous_version_id_fkey
+      foreign key (previous_version_id) references public.contracts(id) on delete set null;
+  end if;
+end $$;
+
+create index if not exists idx_contracts_previous_version_id
+  on public.contracts(previous_version_id)
+  where previous_version_id is not null;
+
+comment on column public.contracts.previous_version_id is
+  'Contract this upload revises; the new review stores a version_comparison delta against its latest review';
+comment on column public.contracts.version_number is
+  '1 for an original upload, incremented for each revised draft in the chain';
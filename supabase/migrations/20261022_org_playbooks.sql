@@ -0,0 +1,68 @@
+-- Organization-managed playbooks that extend or replace the built-in
+-- criticalClauses for a contract type, with an immutable version history.
+
+create table if not exists public.org_playbooks (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  playbook_key text not null,
+  name text not null,
+  description text,
+  mode text not null default 'extend',
+  critical_clauses jsonb not null default '[]'::jsonb,
+  clause_anchors jsonb not null default '[]'::jsonb,
+  negotiation_guidance jsonb not null default '[]'::jsonb,
+  is_active boolean not null default true,
+  version integer not null default 1,
+  created_by uuid,
+  updated_by uuid,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'org_playbooks_mode_check') then
+    alter table public.org_playbooks
+      add constraint org_playbooks_mode_check
+      check (mode in ('extend', 'replace'));
+  end if;
+end $$;
+
+create unique index if not exists idx_org_playbooks_org_key
+  on public.org_playbooks(organization_id, playbook_key);
+
+drop trigger if exists trg_org_playbooks_updated_at on public.org_playbooks;
+create trigger trg_org_playbooks_updated_at
+  before update on public.org_playbooks
+  for each row execute function public.set_current_timestamp_updated_at();
+
+create table if not exists public.org_playbook_versions (
+  id uuid primary key default gen_random_uuid(),
+  playbook_id uuid not null references public.org_playbooks(id) on delete cascade,
+  version integer not null,
+  definition jsonb not null,
+  change_note text,
+  created_by uuid,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_org_playbook_versions_playbook_version
+  on public.org_playbook_versions(playbook_id, version);
+
+alter table public.org_playbooks enable row level security;
+alter table public.org_playbook_versions enable row level security;
+
+drop policy if exists "org_playbooks_service_role_only" on public.org_playbooks;
+create policy "org_playbooks_service_role_only"
+  on public.org_playbooks
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+drop policy if exists "org_playbook_versions_service_role_only" on public.org_playbook_versions;
+create policy "org_playbook_versions_service_role_only"
+  on public.org_playbook_versions
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+comment on column public.org_playbooks.mode is
+  'extend merges critical_clauses into the built-in playbook by title; replace swaps the built-in list';
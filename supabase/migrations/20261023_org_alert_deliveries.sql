@@ -0,0 +1,75 @@
+-- Alert delivery pipeline: channel configuration on the organization alert
+-- preferences plus a delivery log that org admins can inspect and retry.
+
+alter table if exists public.organization_alert_preferences
+  add column if not exists delivery_mode text not null default 'immediate',
+  add column if not exists email_recipients jsonb not null default '[]'::jsonb,
+  add column if not exists webhook_url text,
+  add column if not exists webhook_secret text,
+  add column if not exists slack_webhook_url text,
+  add column if not exists high_risk_cursor timestamptz,
+  add column if not exists pending_edits_cursor timestamptz;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'org_alert_prefs_delivery_mode_check') then
+    alter table public.organization_alert_preferences
+      add constraint org_alert_prefs_delivery_mode_check
+      check (delivery_mode in ('immediate', 'digest'));
+  end if;
+end $$;
+
+comment on column public.organization_alert_preferences.high_risk_cursor is
+  'Reviews created after this instant have not been scanned for high-risk alerts yet';
+comment on column public.organization_alert_preferences.pending_edits_cursor is
+  'Agent interactions that went stale before this instant have already been alerted';
+
+create table if not exists public.org_alert_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  alert_type text not null,
+  channel text not null,
+  dedupe_key text not null,
+  status text not null default 'pending',
+  payload jsonb not null default '{}'::jsonb,
+  attempts integer not null default 0,
+  max_attempts integer not null default 3,
+  next_attempt_at timestamptz not null default now(),
+  last_error text,
+  response_status integer,
+  sent_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'org_alert_deliveries_status_check') then
+    alter table public.org_alert_deliveries
+      add constraint org_alert_deliveries_status_check
+      check (status in ('pending', 'sending', 'sent', 'failed'));
+  end if;
+end $$;
+
+create unique index if not exists idx_org_alert_deliveries_dedupe
+  on public.org_alert_deliveries(organization_id, dedupe_key);
+
+create index if not exists idx_org_alert_deliveries_org_created
+  on public.org_alert_deliveries(organization_id, created_at desc);
+
+create index if not exists idx_org_alert_deliveries_due
+  on public.org_alert_deliveries(next_attempt_at)
+  where status = 'pending';
+
+drop trigger if exists trg_org_alert_deliveries_updated_at on public.org_alert_deliveries;
+create trigger trg_org_alert_deliveries_updated_at
+  before update on public.org_alert_deliveries
+  for each row execute function public.set_current_timestamp_updated_at();
+
+alter table public.org_alert_deliveries enable row level security;
+
+drop policy if exists "org_alert_deliveries_service_role_only" on public.org_alert_deliveries;
+create policy "org_alert_deliveries_service_role_only"
+  on public.org_alert_deliveries
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
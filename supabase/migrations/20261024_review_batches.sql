@@ -0,0 +1,93 @@
+-- Batch review: a folder or ZIP of contracts uploaded together, with one
+-- ingestion and one review tracked per document.
+
+create table if not exists public.review_batches (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.user_profiles(id) on delete cascade,
+  organization_id uuid references public.organizations(id) on delete set null,
+  name text not null,
+  review_type text not null,
+  perspective text,
+  status text not null default 'processing',
+  total_documents integer not null default 0,
+  completed_documents integer not null default 0,
+  failed_documents integer not null default 0,
+  completed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'review_batches_status_check') then
+    alter table public.review_batches
+      add constraint review_batches_status_check
+      check (status in ('processing', 'completed', 'cancelled'));
+  end if;
+end $$;
+
+create index if not exists idx_review_batches_user_created
+  on public.review_batches(user_id, created_at desc);
+
+drop trigger if exists trg_review_batches_updated_at on public.review_batches;
+create trigger trg_review_batches_updated_at
+  before update on public.review_batches
+  for each row execute function public.set_current_timestamp_updated_at();
+
+create table if not exists public.review_batch_items (
+  id uuid primary key default gen_random_uuid(),
+  batch_id uuid not null references public.review_batches(id) on delete cascade,
+  position integer not null,
+  ingestion_id uuid references public.contract_ingestions(id) on delete set null,
+  file_name text not null,
+  status text not null default 'queued',
+  progress integer not null default 0,
+  contract_type text,
+  classification_confidence numeric,
+  contract_id uuid references public.contracts(id) on delete set null,
+  review_id uuid references public.contract_reviews(id) on delete set null,
+  compliance_score numeric,
+  critical_issues integer,
+  high_issues integer,
+  credit_charged boolean not null default false,
+  error text,
+  started_at timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'review_batch_items_status_check') then
+    alter table public.review_batch_items
+      add constraint review_batch_items_status_check
+      check (status in ('queued', 'extracting', 'classifying', 'reviewing', 'completed', 'failed', 'skipped'));
+  end if;
+end $$;
+
+create index if not exists idx_review_batch_items_batch_position
+  on public.review_batch_items(batch_id, position);
+
+drop trigger if exists trg_review_batch_items_updated_at on public.review_batch_items;
+create trigger trg_review_batch_items_updated_at
+  before update on public.review_batch_items
+  for each row execute function public.set_current_timestamp_updated_at();
+
+alter table public.review_batches enable row level security;
+alter table public.review_batch_items enable row level security;
+
+drop policy if exists "review_batches_service_role_only" on public.review_batches;
+create policy "review_batches_service_role_only"
+  on public.review_batches
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+drop policy if exists "review_batch_items_service_role_only" on public.review_batch_items;
+create policy "review_batch_items_service_role_only"
+  on public.review_batch_items
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+comment on column public.review_batch_items.credit_charged is
+  'Set once the PAYG credit for this document has been deducted so retries never double-charge';
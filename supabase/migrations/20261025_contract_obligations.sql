@@ -0,0 +1,119 @@
+-- Obligations register: key dates extracted from each structured review,
+-- plus tokenised iCalendar feeds per user and per organization.
+
+create table if not exists public.contract_obligations (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid references public.organizations(id) on delete cascade,
+  user_id uuid not null references public.user_profiles(id) on delete cascade,
+  contract_id uuid not null references public.contracts(id) on delete cascade,
+  review_id uuid not null references public.contract_reviews(id) on delete cascade,
+  obligation_key text not null,
+  kind text not null,
+  title text not null,
+  description text not null default '',
+  due_date date,
+  period text,
+  owner text,
+  department text,
+  clause_id text,
+  source_text text,
+  contract_type text,
+  status text not null default 'open',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'contract_obligations_kind_check') then
+    alter table public.contract_obligations
+      add constraint contract_obligations_kind_check
+      check (kind in ('renewal', 'notice', 'termination', 'confidentiality_survival', 'payment', 'action_item'));
+  end if;
+  if not exists (select 1 from pg_constraint where conname = 'contract_obligations_status_check') then
+    alter table public.contract_obligations
+      add constraint contract_obligations_status_check
+      check (status in ('open', 'done', 'dismissed'));
+  end if;
+end $$;
+
+create unique index if not exists idx_contract_obligations_review_key
+  on public.contract_obligations(review_id, obligation_key);
+
+create index if not exists idx_contract_obligations_org_due
+  on public.contract_obligations(organization_id, due_date);
+
+create index if not exists idx_contract_obligations_user_due
+  on public.contract_obligations(user_id, due_date);
+
+drop trigger if exists trg_contract_obligations_updated_at on public.contract_obligations;
+create trigger trg_contract_obligations_updated_at
+  before update on public.contract_obligations
+  for each row execute function public.set_current_timestamp_updated_at();
+
+alter table public.contract_obligations enable row level security;
+
+drop policy if exists "contract_obligations_service_role_only" on public.contract_obligations;
+create policy "contract_obligations_service_role_only"
+  on public.contract_obligations
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+-- One row per review that has been through extraction, so backfills skip
+-- reviews that legitimately produced no obligations.
+create table if not exists public.contract_obligation_extractions (
+  review_id uuid primary key references public.contract_reviews(id) on delete cascade,
+  organization_id uuid references public.organizations(id) on delete cascade,
+  obligation_count integer not null default 0,
+  extracted_at timestamptz not null default now()
+);
+
+create index if not exists idx_contract_obligation_extractions_org
+  on public.contract_obligation_extractions(organization_id);
+
+alter table public.contract_obligation_extractions enable row level security;
+
+drop policy if exists "contract_obligation_extractions_service_role_only" on public.contract_obligation_extractions;
+create policy "contract_obligation_extractions_service_role_only"
+  on public.contract_obligation_extractions
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+create table if not exists public.obligation_calendar_feeds (
+  id uuid primary key default gen_random_uuid(),
+  token text not null unique,
+  scope text not null,
+  organization_id uuid references public.organizations(id) on delete cascade,
+  user_id uuid references public.user_profiles(id) on delete cascade,
+  created_by uuid references public.user_profiles(id) on delete set null,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'obligation_calendar_feeds_scope_check') then
+    alter table public.obligation_calendar_feeds
+      add constraint obligation_calendar_feeds_scope_check
+      check (
+        (scope = 'user' and user_id is not null)
+        or (scope = 'organization' and organization_id is not null)
+      );
+  end if;
+end $$;
+
+create unique index if not exists idx_obligation_calendar_feeds_active_user
+  on public.obligation_calendar_feeds(user_id)
+  where scope = 'user' and revoked_at is null;
+
+create unique index if not exists idx_obligation_calendar_feeds_active_org
+  on public.obligation_calendar_feeds(organization_id)
+  where scope = 'organization' and revoked_at is null;
+
+alter table public.obligation_calendar_feeds enable row level security;
+
+drop policy if exists "obligation_calendar_feeds_service_role_only" on public.obligation_calendar_feeds;
+create policy "obligation_calendar_feeds_service_role_only"
+  on public.obligation_calendar_feeds
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
@@ -0,0 +1,96 @@
+-- Public v1 API: organization API keys (stored as SHA-256 hashes) and the
+-- server-side review jobs submitted through them.
+
+create table if not exists public.organization_api_keys (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  name text not null,
+  key_prefix text not null,
+  key_hash text not null,
+  scopes text[] not null default array['documents:write', 'reviews:write', 'reviews:read'],
+  rate_limit_per_minute integer not null default 60,
+  created_by uuid not null references public.user_profiles(id) on delete cascade,
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'organization_api_keys_rate_limit_check') then
+    alter table public.organization_api_keys
+      add constraint organization_api_keys_rate_limit_check
+      check (rate_limit_per_minute between 1 and 600);
+  end if;
+end $$;
+
+create unique index if not exists idx_organization_api_keys_hash
+  on public.organization_api_keys(key_hash);
+
+create index if not exists idx_organization_api_keys_org
+  on public.organization_api_keys(organization_id, created_at desc);
+
+drop trigger if exists trg_organization_api_keys_updated_at on public.organization_api_keys;
+create trigger trg_organization_api_keys_updated_at
+  before update on public.organization_api_keys
+  for each row execute function public.set_current_timestamp_updated_at();
+
+create table if not exists public.api_review_jobs (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  api_key_id uuid references public.organization_api_keys(id) on delete set null,
+  ingestion_id uuid not null references public.contract_ingestions(id) on delete cascade,
+  contract_id uuid references public.contracts(id) on delete set null,
+  review_id uuid references public.contract_reviews(id) on delete set null,
+  solution_key text,
+  perspective text,
+  review_type text not null,
+  status text not null default 'queued',
+  response_id text,
+  retry_depth integer not null default 0,
+  attempts integer not null default 0,
+  request_payload jsonb,
+  error text,
+  next_poll_at timestamptz not null default now(),
+  locked_until timestamptz,
+  completed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'api_review_jobs_status_check') then
+    alter table public.api_review_jobs
+      add constraint api_review_jobs_status_check
+      check (status in ('queued', 'running', 'completed', 'failed'));
+  end if;
+end $$;
+
+create index if not exists idx_api_review_jobs_org_created
+  on public.api_review_jobs(organization_id, created_at desc);
+
+create index if not exists idx_api_review_jobs_pending
+  on public.api_review_jobs(next_poll_at)
+  where status in ('queued', 'running');
+
+drop trigger if exists trg_api_review_jobs_updated_at on public.api_review_jobs;
+create trigger trg_api_review_jobs_updated_at
+  before update on public.api_review_jobs
+  for each row execute function public.set_current_timestamp_updated_at();
+
+alter table public.organization_api_keys enable row level security;
+alter table public.api_review_jobs enable row level security;
+
+drop policy if exists "organization_api_keys_service_role_only" on public.organization_api_keys;
+create policy "organization_api_keys_service_role_only"
+  on public.organization_api_keys
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+drop policy if exists "api_review_jobs_service_role_only" on public.api_review_jobs;
+create policy "api_review_jobs_service_role_only"
+  on public.api_review_jobs
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
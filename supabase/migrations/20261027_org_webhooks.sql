@@ -0,0 +1,87 @@
+-- Outbound webhooks: org-configured endpoints subscribed to lifecycle events
+-- (ingestion, review, draft and agent-edit) plus a per-endpoint delivery log
+-- with retries and manual replay.
+
+create table if not exists public.org_webhook_endpoints (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  url text not null,
+  description text,
+  event_types text[] not null default '{}',
+  secret text not null,
+  enabled boolean not null default true,
+  created_by uuid references public.user_profiles(id) on delete set null,
+  scan_cursor timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+comment on column public.org_webhook_endpoints.scan_cursor is
+  'Draft jobs and edit approvals recorded before this instant have been enqueued for this endpoint';
+
+create index if not exists idx_org_webhook_endpoints_org
+  on public.org_webhook_endpoints(organization_id);
+
+drop trigger if exists trg_org_webhook_endpoints_updated_at on public.org_webhook_endpoints;
+create trigger trg_org_webhook_endpoints_updated_at
+  before update on public.org_webhook_endpoints
+  for each row execute function public.set_current_timestamp_updated_at();
+
+create table if not exists public.org_webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  endpoint_id uuid not null references public.org_webhook_endpoints(id) on delete cascade,
+  event_id text not null,
+  event_type text not null,
+  dedupe_key text not null,
+  payload jsonb not null default '{}'::jsonb,
+  status text not null default 'pending',
+  attempts integer not null default 0,
+  max_attempts integer not null default 6,
+  next_attempt_at timestamptz not null default now(),
+  last_error text,
+  response_status integer,
+  delivered_at timestamptz,
+  replay_of uuid references public.org_webhook_deliveries(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'org_webhook_deliveries_status_check') then
+    alter table public.org_webhook_deliveries
+      add constraint org_webhook_deliveries_status_check
+      check (status in ('pending', 'sending', 'sent', 'failed'));
+  end if;
+end $$;
+
+create unique index if not exists idx_org_webhook_deliveries_dedupe
+  on public.org_webhook_deliveries(endpoint_id, dedupe_key);
+
+create index if not exists idx_org_webhook_deliveries_org_created
+  on public.org_webhook_deliveries(organization_id, created_at desc);
+
+create index if not exists idx_org_webhook_deliveries_due
+  on public.org_webhook_deliveries(next_attempt_at)
+  where status = 'pending';
+
+drop trigger if exists trg_org_webhook_deliveries_updated_at on public.org_webhook_deliveries;
+create trigger trg_org_webhook_deliveries_updated_at
+  before update on public.org_webhook_deliveries
+  for each row execute function public.set_current_timestamp_updated_at();
+
+alter table public.org_webhook_endpoints enable row level security;
+alter table public.org_webhook_deliveries enable row level security;
+
+drop policy if exists "org_webhook_endpoints_service_role_only" on public.org_webhook_endpoints;
+create policy "org_webhook_endpoints_service_role_only"
+  on public.org_webhook_endpoints
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+drop policy if exists "org_webhook_deliveries_service_role_only" on public.org_webhook_deliveries;
+create policy "org_webhook_deliveries_service_role_only"
+  on public.org_webhook_deliveries
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
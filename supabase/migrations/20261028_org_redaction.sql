@@ -0,0 +1,8 @@
+-- Organization privacy setting: redact personal data and party names from
+-- contract text before it is sent to an LLM provider.
+
+alter table if exists public.organizations
+  add column if not exists redact_before_analysis boolean not null default false;
+
+comment on column public.organizations.redact_before_analysis is
+  'Replace names, contact details, bank and registration numbers with placeholders before LLM calls';
@@ -0,0 +1,35 @@
+-- Review cache: maps a content hash of an analysis request (normalised text,
+-- solution, custom solution, perspective, playbook overrides, model tier) to
+-- the review that answered it, so identical re-uploads reuse the report.
+
+create table if not exists public.review_cache_entries (
+  id uuid primary key default gen_random_uuid(),
+  cache_key text not null,
+  organization_id uuid references public.organizations(id) on delete cascade,
+  user_id uuid not null references public.user_profiles(id) on delete cascade,
+  review_id uuid not null references public.contract_reviews(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists idx_review_cache_entries_review
+  on public.review_cache_entries(review_id);
+
+create index if not exists idx_review_cache_entries_org_key
+  on public.review_cache_entries(organization_id, cache_key, created_at desc);
+
+create index if not exists idx_review_cache_entries_user_key
+  on public.review_cache_entries(user_id, cache_key, created_at desc);
+
+alter table public.review_cache_entries enable row level security;
+
+drop policy if exists "review_cache_entries_service_role_only" on public.review_cache_entries;
+create policy "review_cache_entries_service_role_only"
+  on public.review_cache_entries
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+alter table if exists public.organizations
+  add column if not exists review_cache_enabled boolean not null default true;
+
+comment on column public.organizations.review_cache_enabled is
+  'Serve the prior report when an identical contract is re-analysed under the same settings';
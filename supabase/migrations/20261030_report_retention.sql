@@ -0,0 +1,46 @@
+-- Report retention: per-review expiry derived from the plan's report storage
+-- days, expiry warnings, organization legal holds and an audit log of purges.
+
+alter table if exists public.contract_reviews
+  add column if not exists expires_at timestamptz,
+  add column if not exists expiry_warned_at timestamptz;
+
+create index if not exists idx_contract_reviews_expires_at
+  on public.contract_reviews(expires_at)
+  where expires_at is not null;
+
+alter table if exists public.organizations
+  add column if not exists legal_hold boolean not null default false,
+  add column if not exists legal_hold_reason text,
+  add column if not exists legal_hold_set_at timestamptz;
+
+comment on column public.organizations.legal_hold is
+  'Suspends retention purges of contracts, reviews and uploads for all members';
+
+-- No foreign key to contracts: the log outlives the rows it describes.
+create table if not exists public.retention_purge_log (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid references public.organizations(id) on delete set null,
+  user_id uuid references public.user_profiles(id) on delete set null,
+  contract_id uuid not null,
+  contract_title text,
+  plan_key text,
+  storage_days integer not null,
+  expired_at timestamptz not null,
+  purged jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_retention_purge_log_org_created
+  on public.retention_purge_log(organization_id, created_at desc);
+
+create index if not exists idx_retention_purge_log_user_created
+  on public.retention_purge_log(user_id, created_at desc);
+
+alter table public.retention_purge_log enable row level security;
+
+drop policy if exists "retention_purge_log_service_role_only" on public.retention_purge_log;
+create policy "retention_purge_log_service_role_only"
+  on public.retention_purge_log
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
@@ -0,0 +1,52 @@
+-- Review comments: threads anchored to an issue, proposed edit or clause of
+-- a stored review. Resolution state lives on the thread's root comment.
+
+create table if not exists public.review_comments (
+  id uuid primary key default gen_random_uuid(),
+  review_id uuid not null references public.contract_reviews(id) on delete cascade,
+  organization_id uuid references public.organizations(id) on delete cascade,
+  anchor_type text not null,
+  anchor_id text not null,
+  parent_id uuid references public.review_comments(id) on delete cascade,
+  author_id uuid references public.user_profiles(id) on delete set null,
+  body text not null,
+  mentions uuid[] not null default '{}',
+  resolved_at timestamptz,
+  resolved_by uuid references public.user_profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'review_comments_anchor_type_check') then
+    alter table public.review_comments
+      add constraint review_comments_anchor_type_check
+      check (anchor_type in ('issue', 'edit', 'clause'));
+  end if;
+  if not exists (select 1 from pg_constraint where conname = 'review_comments_body_check') then
+    alter table public.review_comments
+      add constraint review_comments_body_check
+      check (char_length(body) between 1 and 5000);
+  end if;
+end $$;
+
+create index if not exists idx_review_comments_review_anchor
+  on public.review_comments(review_id, anchor_type, anchor_id, created_at);
+
+create index if not exists idx_review_comments_parent
+  on public.review_comments(parent_id)
+  where parent_id is not null;
+
+drop trigger if exists trg_review_comments_updated_at on public.review_comments;
+create trigger trg_review_comments_updated_at
+  before update on public.review_comments
+  for each row execute function public.set_current_timestamp_updated_at();
+
+alter table public.review_comments enable row level security;
+
+drop policy if exists "review_comments_service_role_only" on public.review_comments;
+create policy "review_comments_service_role_only"
+  on public.review_comments
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
@@ -0,0 +1,129 @@
+-- Approval workflow: per-organization approval chains, a sign-off status
+-- machine on contracts and an append-only trail of approval decisions.
+
+create table if not exists public.organization_approval_chains (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid not null references public.organizations(id) on delete cascade,
+  name text not null,
+  contract_types text[] not null default '{}',
+  min_severity text,
+  stages jsonb not null default '[]'::jsonb,
+  priority integer not null default 0,
+  enabled boolean not null default true,
+  created_by uuid references public.user_profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'organization_approval_chains_min_severity_check') then
+    alter table public.organization_approval_chains
+      add constraint organization_approval_chains_min_severity_check
+      check (min_severity is null or min_severity in ('info', 'low', 'medium', 'high', 'critical'));
+  end if;
+end $$;
+
+create index if not exists idx_organization_approval_chains_org
+  on public.organization_approval_chains(organization_id, priority);
+
+drop trigger if exists trg_organization_approval_chains_updated_at on public.organization_approval_chains;
+create trigger trg_organization_approval_chains_updated_at
+  before update on public.organization_approval_chains
+  for each row execute function public.set_current_timestamp_updated_at();
+
+alter table public.organization_approval_chains enable row level security;
+
+drop policy if exists "organization_approval_chains_service_role_only" on public.organization_approval_chains;
+create policy "organization_approval_chains_service_role_only"
+  on public.organization_approval_chains
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+-- `status` tracks processing; `workflow_status` tracks sign-off. The chain's
+-- stages are copied on submission so later edits to the chain do not move
+-- contracts that are already awaiting approval.
+alter table if exists public.contracts
+  add column if not exists workflow_status text not null default 'draft',
+  add column if not exists approval_chain_id uuid references public.organization_approval_chains(id) on delete set null,
+  add column if not exists approval_chain_name text,
+  add column if not exists approval_stages jsonb,
+  add column if not exists approval_stage_index integer,
+  add column if not exists approval_review_id uuid,
+  add column if not exists workflow_updated_at timestamptz;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'contracts_workflow_status_check') then
+    alter table public.contracts
+      add constraint contracts_workflow_status_check
+      check (workflow_status in ('draft', 'in_review', 'awaiting_approval', 'approved', 'rejected'));
+  end if;
+end $$;
+
+create index if not exists idx_contracts_org_workflow_status
+  on public.contracts(organization_id, workflow_status)
+  where workflow_status = 'awaiting_approval';
+
+update public.contracts c
+set workflow_status = 'in_review'
+where c.workflow_status = 'draft'
+  and exists (select 1 from public.contract_reviews r where r.contract_id = c.id);
+
+-- No foreign keys: the trail is immutable and must outlive the contracts,
+-- members and organizations it describes.
+create table if not exists public.contract_approval_events (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid,
+  contract_id uuid not null,
+  contract_title text,
+  review_id uuid,
+  chain_id uuid,
+  chain_name text,
+  stage_index integer,
+  stage_name text,
+  action text not null,
+  from_status text not null,
+  to_status text not null,
+  actor_id uuid,
+  actor_email text,
+  reason text,
+  created_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'contract_approval_events_action_check') then
+    alter table public.contract_approval_events
+      add constraint contract_approval_events_action_check
+      check (action in ('submitted', 'approved', 'rejected', 'cleared', 'reopened'));
+  end if;
+end $$;
+
+create index if not exists idx_contract_approval_events_contract
+  on public.contract_approval_events(contract_id, created_at);
+
+create index if not exists idx_contract_approval_events_org_created
+  on public.contract_approval_events(organization_id, created_at desc);
+
+create or replace function public.prevent_contract_approval_event_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'contract_approval_events is append-only';
+end;
+$$;
+
+drop trigger if exists trg_contract_approval_events_immutable on public.contract_approval_events;
+create trigger trg_contract_approval_events_immutable
+  before update or delete on public.contract_approval_events
+  for each row execute function public.prevent_contract_approval_event_changes();
+
+alter table public.contract_approval_events enable row level security;
+
+drop policy if exists "contract_approval_events_service_role_only" on public.contract_approval_events;
+create policy "contract_approval_events_service_role_only"
+  on public.contract_approval_events
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
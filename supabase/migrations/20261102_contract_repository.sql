@@ -0,0 +1,123 @@
+-- Contract repository: folders, tags, extracted counterparties and full-text
+-- search over contract text and review findings.
+
+create table if not exists public.contract_folders (
+  id uuid primary key default gen_random_uuid(),
+  organization_id uuid references public.organizations(id) on delete cascade,
+  owner_id uuid not null references public.user_profiles(id) on delete cascade,
+  name text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'contract_folders_name_check') then
+    alter table public.contract_folders
+      add constraint contract_folders_name_check
+      check (char_length(btrim(name)) between 1 and 100);
+  end if;
+end $$;
+
+-- Folders are shared across an organization; members without one keep
+-- personal folders.
+create unique index if not exists idx_contract_folders_scope_name
+  on public.contract_folders(coalesce(organization_id, owner_id), lower(name));
+
+drop trigger if exists trg_contract_folders_updated_at on public.contract_folders;
+create trigger trg_contract_folders_updated_at
+  before update on public.contract_folders
+  for each row execute function public.set_current_timestamp_updated_at();
+
+alter table public.contract_folders enable row level security;
+
+drop policy if exists "contract_folders_service_role_only" on public.contract_folders;
+create policy "contract_folders_service_role_only"
+  on public.contract_folders
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+-- `folder_id` and `tags` are user-managed. The other columns are derived
+-- from the latest review and rewritten whenever one is saved; this includes
+-- `contract_type`, which the obligations register and approval chains
+-- already read.
+alter table if exists public.contracts
+  add column if not exists folder_id uuid references public.contract_folders(id) on delete set null,
+  add column if not exists tags text[] not null default '{}',
+  add column if not exists contract_type text,
+  add column if not exists counterparties text[] not null default '{}',
+  add column if not exists governing_law text,
+  add column if not exists latest_score integer,
+  add column if not exists latest_review_id uuid references public.contract_reviews(id) on delete set null,
+  add column if not exists review_search_text text;
+
+alter table if exists public.contracts
+  add column if not exists search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('english'::regconfig, coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(review_search_text, '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, left(coalesce(content, ''), 500000)), 'C')
+  ) stored;
+
+create index if not exists idx_contracts_search_vector
+  on public.contracts using gin(search_vector);
+
+create index if not exists idx_contracts_tags
+  on public.contracts using gin(tags);
+
+create index if not exists idx_contracts_counterparties
+  on public.contracts using gin(counterparties);
+
+create index if not exists idx_contracts_folder
+  on public.contracts(folder_id)
+  where folder_id is not null;
+
+create index if not exists idx_contracts_org_type
+  on public.contracts(organization_id, contract_type);
+
+-- Backfill from each contract's latest review. Party names are trimmed of a
+-- trailing role such as "(the Discloser)", matching the server's extractor.
+with latest as (
+  select distinct on (r.contract_id)
+    r.contract_id,
+    r.id as review_id,
+    r.score,
+    coalesce(r.results->'structured_report', '{}'::jsonb) as report
+  from public.contract_reviews r
+  order by r.contract_id, r.created_at desc
+)
+update public.contracts c
+set latest_review_id = latest.review_id,
+    contract_type = coalesce(
+      c.contract_type,
+      nullif(btrim(latest.report->'metadata'->'classification'->>'contractType'), '')
+    ),
+    counterparties = coalesce(
+      array(
+        select distinct btrim(regexp_replace(party, '\s*\([^)]*\)\s*$', ''))
+        from jsonb_array_elements_text(
+          case
+            when jsonb_typeof(latest.report->'contractSummary'->'parties') = 'array'
+              then latest.report->'contractSummary'->'parties'
+            else '[]'::jsonb
+          end
+        ) as party
+        where btrim(regexp_replace(party, '\s*\([^)]*\)\s*$', '')) <> ''
+      ),
+      '{}'
+    ),
+    governing_law = nullif(btrim(latest.report->'contractSummary'->>'governingLaw'), ''),
+    latest_score = latest.score,
+    review_search_text = (
+      select string_agg(concat_ws(' ', issue->>'title', issue->>'summary', issue->>'recommendation'), ' ')
+      from jsonb_array_elements(
+        case
+          when jsonb_typeof(latest.report->'issuesToAddress') = 'array'
+            then latest.report->'issuesToAddress'
+          else '[]'::jsonb
+        end
+      ) as issue
+    )
+from latest
+where latest.contract_id = c.id
+  and c.latest_review_id is null;
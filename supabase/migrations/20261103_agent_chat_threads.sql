@@ -0,0 +1,75 @@
+-- Agent chat history: named conversation threads per contract and owner, the
+-- messages exchanged in each and the proposed edits the model offered. Edits
+-- accepted from a thread are recorded in agent_edit_approvals with a link back
+-- to the thread and message that proposed them.
+
+create table if not exists public.agent_chat_threads (
+  id uuid primary key default gen_random_uuid(),
+  contract_id uuid not null references public.contracts(id) on delete cascade,
+  owner_id uuid not null references public.user_profiles(id) on delete cascade,
+  organization_id uuid references public.organizations(id) on delete set null,
+  title text not null,
+  shared_with_org boolean not null default false,
+  last_message_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_agent_chat_threads_contract_owner
+  on public.agent_chat_threads(contract_id, owner_id);
+
+create index if not exists idx_agent_chat_threads_contract_shared
+  on public.agent_chat_threads(contract_id, organization_id)
+  where shared_with_org;
+
+drop trigger if exists trg_agent_chat_threads_updated_at on public.agent_chat_threads;
+create trigger trg_agent_chat_threads_updated_at
+  before update on public.agent_chat_threads
+  for each row execute function public.set_current_timestamp_updated_at();
+
+alter table public.agent_chat_threads enable row level security;
+
+drop policy if exists "agent_chat_threads_service_role_only" on public.agent_chat_threads;
+create policy "agent_chat_threads_service_role_only"
+  on public.agent_chat_threads
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+create table if not exists public.agent_chat_messages (
+  id uuid primary key default gen_random_uuid(),
+  thread_id uuid not null references public.agent_chat_threads(id) on delete cascade,
+  role text not null,
+  content text not null,
+  proposed_edits jsonb not null default '[]'::jsonb,
+  provider text,
+  model text,
+  created_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'agent_chat_messages_role_check') then
+    alter table public.agent_chat_messages
+      add constraint agent_chat_messages_role_check
+      check (role in ('user', 'assistant'));
+  end if;
+end $$;
+
+create index if not exists idx_agent_chat_messages_thread
+  on public.agent_chat_messages(thread_id, created_at);
+
+alter table public.agent_chat_messages enable row level security;
+
+drop policy if exists "agent_chat_messages_service_role_only" on public.agent_chat_messages;
+create policy "agent_chat_messages_service_role_only"
+  on public.agent_chat_messages
+  using (auth.role() = 'service_role')
+  with check (auth.role() = 'service_role');
+
+alter table if exists public.agent_edit_approvals
+  add column if not exists thread_id uuid references public.agent_chat_threads(id) on delete set null,
+  add column if not exists message_id uuid references public.agent_chat_messages(id) on delete set null;
+
+create index if not exists idx_agent_edit_approvals_thread
+  on public.agent_edit_approvals(thread_id)
+  where thread_id is not null;
@@ -0,0 +1,15 @@
+-- Configurable compliance scoring: severity weights, category multipliers,
+-- criteria-miss penalty and score bands. A custom solution's profile refines
+-- its organization's; null falls back to the built-in default.
+
+alter table if exists public.organizations
+  add column if not exists scoring_profile jsonb;
+
+comment on column public.organizations.scoring_profile is
+  'Partial scoring profile applied to every review in the organization; null uses the default';
+
+alter table if exists public.custom_solutions
+  add column if not exists scoring_profile jsonb;
+
+comment on column public.custom_solutions.scoring_profile is
+  'Partial scoring profile layered over the organization profile for this solution';
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  groupAcceptedEdits,
+  normalizeThreadTitle,
+  parseAgentChatMessages,
+} from "../../server/services/agentChatThreads";
+
+describe("normalizeThreadTitle", () => {
+  it("falls back to a default title and collapses whitespace", () => {
+    expect(normalizeThreadTitle("   ")).toBe("New conversation");
+    expect(normalizeThreadTitle(undefined)).toBe("New conversation");
+    expect(normalizeThreadTitle("  Liability\n  cap  ")).toBe("Liability cap");
+  });
+
+  it("truncates long titles with an ellipsis", () => {
+    const title = normalizeThreadTitle("x".repeat(200));
+    expect(title).toHaveLength(120);
+    expect(title.endsWith("…")).toBe(true);
+  });
+});
+
+describe("parseAgentChatMessages", () => {
+  it("keeps proposed edits only on assistant messages", () => {
+    const edit = { id: "e1", suggestedText: "Cap liability at fees paid." };
+    const parsed = parseAgentChatMessages([
+      { role: "user", content: "Tighten the cap", proposedEdits: [edit] },
+      {
+        role: "assistant",
+        content: "Here is a proposal.",
+        proposedEdits: [edit, { id: "broken" }],
+        provider: "openai",
+        model: "gpt-4o",
+      },
+    ]);
+    expect("messages" in parsed).toBe(true);
+    if (!("messages" in parsed)) return;
+    expect(parsed.messages[0].proposedEdits).toEqual([]);
+    expect(parsed.messages[1].proposedEdits).toEqual([edit]);
+    expect(parsed.messages[1].provider).toBe("openai");
+  });
+
+  it("rejects empty batches, unknown roles and blank content", () => {
+    expect(parseAgentChatMessages([])).toHaveProperty("error");
+    expect(
+      parseAgentChatMessages([{ role: "system", content: "hi" }]),
+    ).toHaveProperty("error");
+    expect(
+      parseAgentChatMessages([{ role: "user", content: "  " }]),
+    ).toHaveProperty("error");
+  });
+});
+
+describe("groupAcceptedEdits", () => {
+  it("groups edit ids per message without duplicates", () => {
+    const grouped = groupAcceptedEdits([
+      { message_id: "m1", proposed_edit_id: "e1" },
+      { message_id: "m1", proposed_edit_id: "e1" },
+      { message_id: "m1", proposed_edit_id: "e2" },
+      { message_id: null, proposed_edit_id: "e3" },
+    ]);
+    expect(grouped.get("m1")).toEqual(["e1", "e2"]);
+    expect(grouped.size).toBe(1);
+  });
+});
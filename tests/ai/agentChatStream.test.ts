@@ -0,0 +1,125 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  createLlmProviderRegistry,
+  createSseParser,
+  type SseEvent,
+} from "../../shared/ai/llmProviders";
+import { createRedactionMap } from "../../shared/ai/redaction";
+import {
+  createAgentContentStream,
+  extractPartialMessageContent,
+} from "../../server/services/agentChatStream";
+
+describe("createSseParser", () => {
+  it("emits events split across chunks and skips comments", () => {
+    const events: SseEvent[] = [];
+    const parse = createSseParser((event) => events.push(event));
+    parse(": keep-alive\n\nevent: del");
+    parse('ta\r\ndata: {"text":"Hel');
+    parse('lo"}\r\n\r\ndata: line one\ndata: line two\n');
+    expect(events).toEqual([{ event: "delta", data: '{"text":"Hello"}' }]);
+    parse("\n");
+    expect(events[1]).toEqual({ event: null, data: "line one\nline two" });
+  });
+});
+
+describe("extractPartialMessageContent", () => {
+  it("decodes the content string while it is still open", () => {
+    expect(extractPartialMessageContent('{"message": {"role": "as')).toBeNull();
+    expect(
+      extractPartialMessageContent(
+        '{"message": {"role": "assistant", "content": "Cap liability\\nat 12 mo',
+      ),
+    ).toEqual({ text: "Cap liability\nat 12 mo", complete: false });
+  });
+
+  it("stops before an incomplete escape and reports completion", () => {
+    expect(
+      extractPartialMessageContent('{"message":{"content":"Say \\u00'),
+    ).toEqual({ text: "Say ", complete: false });
+    expect(
+      extractPartialMessageContent(
+        '{"message":{"content":"\\"Fees\\" \\u00a7 4"},"proposedEdits":[',
+      ),
+    ).toEqual({ text: '"Fees" § 4', complete: true });
+  });
+});
+
+describe("createAgentContentStream", () => {
+  it("restores placeholders only once they are complete", () => {
+    const redaction = createRedactionMap({ parties: ["Globex"] });
+    const placeholder = redaction.entries[0].placeholder;
+    const deltas: string[] = [];
+    const stream = createAgentContentStream({
+      redaction,
+      onText: (text) => deltas.push(text),
+    });
+
+    stream.push('{"message":{"content":"Notify ');
+    stream.push(placeholder.slice(0, 4));
+    stream.push(`${placeholder.slice(4)} in writing"}`);
+    expect(deltas).toEqual(["Notify ", "Globex in writing"]);
+
+    stream.reset();
+    stream.push('{"message":{"content":"Retry"}}');
+    expect(deltas.at(-1)).toBe("Retry");
+  });
+});
+
+describe("OpenAI chat streaming", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("forwards deltas and assembles the final response", async () => {
+    const body = [
+      'data: {"model":"gpt-4o-2024","choices":[{"delta":{"content":"{\\"a\\":"}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":"1}"},"finish_reason":"stop"}]}\n\n',
+      'data: {"choices":[],"usage":{"prompt_tokens":9,"completion_tokens":3}}\n\n',
+      "data: [DONE]\n\n",
+    ];
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              body.forEach((chunk) =>
+                controller.enqueue(new TextEncoder().encode(chunk)),
+              );
+              controller.close();
+            },
+          }),
+          { status: 200, headers: { "x-request-id": "req_1" } },
+        ),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = createLlmProviderRegistry((key) =>
+      key === "OPENAI_API_KEY" ? "sk-test" : undefined,
+    ).openai;
+    const deltas: string[] = [];
+    const response = await provider.stream!(
+      {
+        model: "gpt-4o",
+        system: "Be brief.",
+        messages: [{ role: "user", content: "Hi" }],
+        responseFormat: { type: "json_object" },
+      },
+      (text) => deltas.push(text),
+    );
+
+    const request = JSON.parse(
+      (fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1]
+        .body as string,
+    );
+    expect(request.stream).toBe(true);
+    expect(deltas).toEqual(['{"a":', "1}"]);
+    expect(response).toMatchObject({
+      text: '{"a":1}',
+      model: "gpt-4o-2024",
+      status: "completed",
+      usage: { inputTokens: 9, outputTokens: 3 },
+      requestId: "req_1",
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildContractLanguageInstructions,
+  detectContractLanguage,
+} from "../../shared/contractLanguage";
+import { tokenizeForMatch } from "../../shared/ai/reliability";
+import { extractClausesWithAI } from "../../supabase/functions/_shared/aiClauseExtractor.ts";
+
+const SWEDISH_CONTRACT = [
+  "1 § Parter",
+  "Detta avtal ingås mellan Leverantören och Kunden. Parterna ska samarbeta i god tro och enligt detta avtal.",
+  "Artikel 2 – Sekretess",
+  "Parterna ska hålla all konfidentiell information hemlig och inte lämna ut den till tredje man utan skriftligt samtycke.",
+  "Artikel 3 – Ansvarsbegränsning",
+  "Leverantörens ansvar enligt detta avtal är begränsat till det belopp som Kunden har betalat under de senaste tolv månaderna.",
+].join("\n");
+
+describe("detectContractLanguage", () => {
+  it("recognises Swedish, German and English contracts", () => {
+    expect(detectContractLanguage(SWEDISH_CONTRACT).language).toBe("sv");
+    expect(
+      detectContractLanguage(
+        "Der Auftragnehmer haftet nicht für mittelbare Schäden. Die Haftung ist auf den Betrag beschränkt, der in den letzten zwölf Monaten gezahlt wurde, und gilt für alle Ansprüche aus diesem Vertrag.",
+      ).language,
+    ).toBe("de");
+    const english = detectContractLanguage(
+      "The Supplier shall not be liable for any indirect loss. Liability is limited to the fees paid in the twelve months before the claim and applies to all claims under this agreement.",
+    );
+    expect(english.language).toBe("en");
+    expect(english.confidence).toBeGreaterThan(0);
+  });
+
+  it("falls back to English with no confidence for short text", () => {
+    expect(detectContractLanguage("Avtal om sekretess")).toMatchObject({
+      language: "en",
+      confidence: 0,
+    });
+  });
+});
+
+describe("language-aware matching", () => {
+  it("adds English equivalents for foreign legal terms", () => {
+    const tokens = tokenizeForMatch("Ansvarsbegränsning enligt avtalet");
+    expect(tokens).toEqual(expect.arrayContaining(["liability", "limitation"]));
+    expect(tokens).not.toContain("enligt");
+  });
+
+  it("segments Swedish section and article headings", async () => {
+    const job = await extractClausesWithAI({ content: SWEDISH_CONTRACT });
+    expect(job.clauses.map((clause) => clause.title)).toEqual([
+      "1 § Parter",
+      "Artikel 2 – Sekretess",
+      "Artikel 3 – Ansvarsbegränsning",
+    ]);
+    expect(job.clauses[1].category).toBe("confidential_information");
+    expect(job.clauses[2].metadata).toMatchObject({ language: "sv" });
+  });
+});
+
+describe("buildContractLanguageInstructions", () => {
+  it("only instructs the model for non-English contracts", () => {
+    expect(buildContractLanguageInstructions("en", "bilingual")).toBeNull();
+    const bilingual = buildContractLanguageInstructions("de", "bilingual");
+    expect(bilingual).toMatch(/verbatim in German/);
+    expect(bilingual).toMatch(/proposedText .* in German/);
+    expect(buildContractLanguageInstructions("sv", "contract")).toMatch(
+      /whole report in Swedish/,
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  CONTRACT_TYPES,
+  findContractPerspective,
+  findContractType,
+} from "../../shared/contractTypes";
+import {
+  contractTypeLabel,
+  deriveSolutionKey,
+  mapClassificationToSolutionKey,
+  solutionKeyToDisplayName,
+} from "../../shared/solutions";
+import { generateFallbackClassification } from "../../server/services/classificationFallback";
+
+describe("contract-type registry", () => {
+  it("declares unique keys, classification types and perspective ids", () => {
+    const keys = CONTRACT_TYPES.map((type) => type.key);
+    const classificationTypes = CONTRACT_TYPES.map(
+      (type) => type.classificationType,
+    );
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(new Set(classificationTypes).size).toBe(classificationTypes.length);
+    CONTRACT_TYPES.forEach((type) => {
+      const ids = type.perspectives.map((perspective) => perspective.id);
+      expect(ids.length).toBeGreaterThanOrEqual(2);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+  });
+
+  it("maps every catalog title back to its own solution key", () => {
+    CONTRACT_TYPES.forEach((type) => {
+      expect(deriveSolutionKey(undefined, type.catalog.title)).toBe(type.key);
+      expect(mapClassificationToSolutionKey(type.classificationType)).toBe(
+        type.key,
+      );
+    });
+  });
+
+  it("resolves legacy playbook aliases to the registered playbook", () => {
+    expect(findContractType("professional_services_agreement")?.key).toBe(
+      "psa",
+    );
+    expect(findContractType("privacy_policy")?.playbookKey).toBe(
+      "privacy_policy_document",
+    );
+    expect(findContractType("research_and_development")?.key).toBe("rda");
+    expect(findContractType("unknown_agreement")).toBeUndefined();
+  });
+});
+
+describe("Master Services and SaaS Subscription agreements", () => {
+  it("are offered as solutions with perspectives", () => {
+    expect(solutionKeyToDisplayName("msa")).toBe("Master Services Agreement");
+    expect(contractTypeLabel("saas_subscription_agreement")).toBe(
+      "SaaS Subscription Agreement",
+    );
+    const provider = findContractPerspective(
+      findContractType("saas_subscription_agreement"),
+      "provider",
+    );
+    expect(provider).toMatchObject({
+      primary: "SaaS Provider",
+      counterpart: "Customer",
+    });
+  });
+
+  it("are recognised by the rule-based classifier", () => {
+    const msa = generateFallbackClassification(
+      "This Master Services Agreement governs each Statement of Work. In case of conflict the order of precedence applies and any change order must be signed.",
+      "acme-msa.pdf",
+    );
+    expect(msa.contractType).toBe("master_services_agreement");
+    expect(msa.recommendedSolutionKey).toBe("msa");
+
+    const saas = generateFallbackClassification(
+      "Provider grants Customer's authorized users access to the software as a service during the subscription term, with 99.9% uptime and export of customer data.",
+    );
+    expect(saas.contractType).toBe("saas_subscription_agreement");
+    expect(saas.recommendedSolutionTitle).toBe("SaaS Subscription Agreement");
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect } from "vitest";
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import {
+  diffGoldenSetRuns,
+  renderGoldenSetHtml,
+  scoreGoldenSetCase,
+  summariseGoldenSetRun,
+  type GoldenSetCase,
+} from "../../shared/ai/goldenSet";
+import { validateAnalysisReport } from "../../shared/ai/reviewSchema";
+import { CONTRACT_PLAYBOOKS } from "../../supabase/functions/_shared/playbooks";
+
+const repoRoot = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "../..",
+);
+const goldenSetDir = path.join(repoRoot, "evals/golden-set");
+
+const content =
+  "1. Term. This Agreement lasts three (3) years. 2. Remedies. The Disclosing Party may seek injunctive relief.";
+
+const goldenCase: GoldenSetCase = {
+  id: "sample",
+  document: "sample.txt",
+  playbookKey: "non_disclosure_agreement",
+  expected: {
+    issues: [
+      { id: "term", keywords: ["term", "three"] },
+      { id: "residual", keywords: ["residual"] },
+    ],
+    criteria: { met: ["Remedies"], missing: ["Term & survival"] },
+    clauses: [
+      { category: "remedies", textIncludes: "injunctive relief" },
+      { textIncludes: "governing law" },
+    ],
+  },
+};
+
+const report = {
+  generalInformation: { complianceScore: 70 },
+  issuesToAddress: [
+    {
+      id: "issue-1",
+      title: "Short term",
+      recommendation: "Extend beyond three years",
+      rationale: "",
+      clauseReference: {
+        clauseId: "1",
+        excerpt: "This Agreement lasts three (3) years.",
+      },
+    },
+    {
+      id: "issue-2",
+      title: "Unclear notices",
+      recommendation: "Add a notices clause",
+      rationale: "",
+      clauseReference: { clauseId: "x", excerpt: "Notices by carrier pigeon" },
+    },
+  ],
+  criteriaMet: [{ title: "Remedies", evidence: "may seek injunctive relief" }],
+  clauseExtractions: [
+    {
+      id: "2",
+      title: "Remedies",
+      category: "remedies",
+      originalText: "The Disclosing Party may seek injunctive relief.",
+    },
+  ],
+  metadata: {
+    playbookCoverage: {
+      coverageScore: 0.5,
+      criticalClauses: [
+        { title: "Remedies", met: true },
+        { title: "Term & survival", met: true },
+      ],
+    },
+  },
+};
+
+describe("scoreGoldenSetCase", () => {
+  it("scores issues, criteria, clauses and evidence against labels", () => {
+    const result = scoreGoldenSetCase(goldenCase, report, content);
+    expect(result.metrics).toEqual({
+      issuePrecision: 0.5,
+      issueRecall: 0.5,
+      criteriaAccuracy: 0.5,
+      clauseRecall: 0.5,
+      evidenceMatchRate: 0.667,
+      playbookCoverage: 0.5,
+    });
+    expect(result.details?.missedIssues).toEqual(["residual"]);
+    expect(result.details?.unexpectedIssues).toEqual(["Unclear notices"]);
+    expect(result.details?.criteriaMismatches).toEqual([
+      { title: "Term & survival", expected: false, reported: true },
+    ]);
+    expect(result.details?.missedClauses).toEqual(["governing law"]);
+    expect(result.details?.complianceScore).toBe(70);
+  });
+});
+
+describe("diffGoldenSetRuns", () => {
+  it("flags metrics that drop beyond the tolerance", () => {
+    const scored = scoreGoldenSetCase(goldenCase, report, content);
+    const baseline = summariseGoldenSetRun(
+      [
+        {
+          ...scored,
+          metrics: { ...scored.metrics!, issueRecall: 1 },
+        },
+        { caseId: "retired", status: "scored", metrics: scored.metrics },
+      ],
+      "2026-01-01T00:00:00.000Z",
+    );
+    const current = summariseGoldenSetRun([
+      scored,
+      { caseId: "fresh", status: "skipped", reason: "No recording" },
+    ]);
+
+    const diff = diffGoldenSetRuns(current, baseline);
+    expect(diff.newCases).toEqual(["fresh"]);
+    expect(diff.removedCases).toEqual(["retired"]);
+    expect(
+      diff.regressions.map((delta) => `${delta.caseId}:${delta.metric}`),
+    ).toEqual(["null:issueRecall", "sample:issueRecall"]);
+
+    const html = renderGoldenSetHtml(current, diff);
+    expect(html).toContain("2 regression(s)");
+    expect(html).toContain("skipped: No recording");
+  });
+});
+
+describe("golden-set fixtures", () => {
+  const caseFiles = fs
+    .readdirSync(path.join(goldenSetDir, "cases"))
+    .filter((file) => file.endsWith(".json"));
+
+  it.each(caseFiles)(
+    "%s references a document and playbook criteria",
+    (file) => {
+      const loaded = JSON.parse(
+        fs.readFileSync(path.join(goldenSetDir, "cases", file), "utf8"),
+      ) as GoldenSetCase;
+      expect(`${loaded.id}.json`).toBe(file);
+      expect(fs.existsSync(path.join(repoRoot, loaded.document))).toBe(true);
+
+      const playbook =
+        CONTRACT_PLAYBOOKS[
+          loaded.playbookKey as keyof typeof CONTRACT_PLAYBOOKS
+        ];
+      expect(playbook).toBeDefined();
+      const titles = new Set(
+        playbook.criticalClauses.map((item) => item.title),
+      );
+      for (const title of [
+        ...(loaded.expected.criteria?.met ?? []),
+        ...(loaded.expected.criteria?.missing ?? []),
+      ]) {
+        expect(titles.has(title)).toBe(true);
+      }
+
+      const recordingPath = path.join(goldenSetDir, "recordings", file);
+      if (fs.existsSync(recordingPath)) {
+        const recording = JSON.parse(fs.readFileSync(recordingPath, "utf8"));
+        expect(recording.caseId).toBe(loaded.id);
+        expect(() =>
+          validateAnalysisReport(JSON.parse(recording.responses[0].text)),
+        ).not.toThrow();
+      }
+    },
+  );
+});
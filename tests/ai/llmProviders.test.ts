@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  createLlmProviderRegistry,
+  LlmProviderError,
+  normaliseLlmTokenUsage,
+  readLlmRoutingConfig,
+  resolveAiModelRoute,
+  resolveLlmProviderChain,
+  runWithLlmFailover,
+} from "../../shared/ai/llmProviders";
+
+const envFrom =
+  (values: Record<string, string>) =>
+  (key: string): string | undefined =>
+    values[key];
+
+describe("normaliseLlmTokenUsage", () => {
+  it("reads OpenAI Responses and Anthropic usage", () => {
+    expect(
+      normaliseLlmTokenUsage({
+        usage: { input_tokens: 120, output_tokens: 40 },
+      }),
+    ).toEqual({ inputTokens: 120, outputTokens: 40, totalCostUsd: undefined });
+  });
+
+  it("reads Chat Completions usage", () => {
+    expect(
+      normaliseLlmTokenUsage({
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_cost: 0.02 },
+      }),
+    ).toEqual({ inputTokens: 10, outputTokens: 5, totalCostUsd: 0.02 });
+  });
+
+  it("reads Gemini usage metadata", () => {
+    expect(
+      normaliseLlmTokenUsage({
+        usageMetadata: { promptTokenCount: 30, totalTokenCount: 50 },
+      }),
+    ).toEqual({ inputTokens: 30, outputTokens: 20 });
+  });
+
+  it("returns undefined when usage is absent", () => {
+    expect(normaliseLlmTokenUsage({ choices: [] })).toBeUndefined();
+    expect(normaliseLlmTokenUsage(null)).toBeUndefined();
+  });
+});
+
+describe("resolveAiModelRoute", () => {
+  it("pins non-OpenAI model ids to their provider", () => {
+    expect(resolveAiModelRoute("anthropic-claude-3-opus")).toEqual({
+      provider: "anthropic",
+      model: "claude-3-opus-20240229",
+    });
+    expect(resolveAiModelRoute("google-gemini-pro")?.provider).toBe("gemini");
+    expect(resolveAiModelRoute("self-hosted-llm")?.provider).toBe(
+      "openai_compatible",
+    );
+  });
+
+  it("leaves OpenAI ids to the primary provider", () => {
+    expect(resolveAiModelRoute("openai-gpt-5")).toBeNull();
+    expect(resolveAiModelRoute(undefined)).toBeNull();
+  });
+});
+
+describe("resolveLlmProviderChain", () => {
+  const registry = createLlmProviderRegistry(
+    envFrom({
+      OPENAI_API_KEY: "sk-test",
+      GEMINI_API_KEY: "gm-test",
+      LLM_LOCAL_BASE_URL: "http://llm.internal.eu/v1",
+    }),
+  );
+
+  it("defaults to OpenAI with no failover", () => {
+    const routing = readLlmRoutingConfig(envFrom({}));
+    expect(routing).toEqual({ primary: "openai", failoverOrder: [] });
+    expect(resolveLlmProviderChain(registry, routing).map((p) => p.id)).toEqual(
+      ["openai"],
+    );
+  });
+
+  it("orders the primary first and skips unconfigured providers", () => {
+    const routing = readLlmRoutingConfig(
+      envFrom({
+        LLM_PRIMARY_PROVIDER: "openai_compatible",
+        LLM_FAILOVER_ORDER: "anthropic, gemini, bogus, gemini",
+      }),
+    );
+    expect(routing.failoverOrder).toEqual(["anthropic", "gemini"]);
+    expect(resolveLlmProviderChain(registry, routing).map((p) => p.id)).toEqual(
+      ["openai_compatible", "gemini"],
+    );
+  });
+
+  it("puts a configured pinned provider ahead of the primary", () => {
+    const routing = readLlmRoutingConfig(envFrom({}));
+    expect(
+      resolveLlmProviderChain(registry, routing, "gemini").map((p) => p.id),
+    ).toEqual(["gemini"]);
+    expect(
+      resolveLlmProviderChain(registry, routing, "anthropic").map((p) => p.id),
+    ).toEqual(["openai"]);
+  });
+
+  it("throws when nothing is configured", () => {
+    const empty = createLlmProviderRegistry(envFrom({}));
+    expect(() =>
+      resolveLlmProviderChain(empty, readLlmRoutingConfig(envFrom({}))),
+    ).toThrow(LlmProviderError);
+  });
+});
+
+describe("runWithLlmFailover", () => {
+  it("moves to the next candidate after a failure", async () => {
+    const failovers: string[] = [];
+    const result = await runWithLlmFailover(
+      ["a", "b", "c"],
+      async (candidate) => {
+        if (candidate === "a") throw new Error("boom");
+        return `ok:${candidate}`;
+      },
+      (failed, next) => failovers.push(`${failed}->${next}`),
+    );
+    expect(result).toBe("ok:b");
+    expect(failovers).toEqual(["a->b"]);
+  });
+
+  it("rethrows the last error when every candidate fails", async () => {
+    await expect(
+      runWithLlmFailover(["a", "b"], async (candidate) => {
+        throw new Error(`fail:${candidate}`);
+      }),
+    ).rejects.toThrow("fail:b");
+  });
+});
@@ -1,10 +1,16 @@
 import { describe, it, expect } from "vitest";
-import { CONTRACT_PLAYBOOKS } from "../../shared/ai/playbooks";
+import { CONTRACT_PLAYBOOKS, resolvePlaybook } from "../../shared/ai/playbooks";
+import { evaluatePlaybookCoverageFromContent } from "../../shared/ai/reliability";
+import { CONTRACT_TYPES } from "../../shared/contractTypes";
 
 describe("Contract playbooks", () => {
-  it("cover seven predefined contract types", () => {
-    const keys = Object.keys(CONTRACT_PLAYBOOKS);
-    expect(keys).toHaveLength(7);
+  it("cover every playbook referenced by the contract-type registry", () => {
+    const keys = Object.keys(CONTRACT_PLAYBOOKS).sort();
+    const referenced = [
+      ...new Set(CONTRACT_TYPES.map((type) => type.playbookKey)),
+    ].sort();
+    expect(keys).toEqual(referenced);
+    expect(keys).toHaveLength(9);
   });
 
   it("each playbook declares anchors, regulatory focus, and critical clauses", () => {
@@ -20,3 +26,93 @@ describe("Contract playbooks", () => {
     });
   });
 });
+
+describe("Organization playbook overrides", () => {
+  const builtIn = CONTRACT_PLAYBOOKS.non_disclosure_agreement;
+
+  it("extends matching clauses and appends new ones", () => {
+    const playbook = resolvePlaybook("non_disclosure_agreement", [
+      {
+        playbookKey: "non_disclosure_agreement",
+        mode: "extend",
+        criticalClauses: [
+          {
+            title: "remedies",
+            mustInclude: ["Liquidated damages"],
+            redFlags: [],
+            fallbackPositions: ["Accept injunctive relief only"],
+          },
+          {
+            title: "Non-solicitation",
+            mustInclude: ["Twelve month restriction"],
+          },
+        ],
+        clauseAnchors: ["Non-solicitation"],
+      },
+    ]);
+
+    expect(playbook.criticalClauses).toHaveLength(
+      builtIn.criticalClauses.length + 1,
+    );
+    const remedies = playbook.criticalClauses.find(
+      (clause) => clause.title === "Remedies",
+    )!;
+    expect(remedies.mustInclude).toEqual(
+      expect.arrayContaining(["Liquidated damages"]),
+    );
+    expect(remedies.redFlags.length).toBeGreaterThan(0);
+    expect(remedies.fallbackPositions).toEqual([
+      "Accept injunctive relief only",
+    ]);
+    expect(playbook.clauseAnchors).toContain("Non-solicitation");
+    expect(CONTRACT_PLAYBOOKS.non_disclosure_agreement.criticalClauses).toHaveLength(
+      builtIn.criticalClauses.length,
+    );
+  });
+
+  it("replaces critical clauses and ignores overrides for other playbooks", () => {
+    const overrides = [
+      {
+        playbookKey: "non_disclosure_agreement",
+        mode: "replace" as const,
+        criticalClauses: [
+          { title: "Governing law", mustInclude: ["Laws of Sweden"] },
+        ],
+      },
+    ];
+    expect(
+      resolvePlaybook("non_disclosure_agreement", overrides).criticalClauses,
+    ).toEqual([
+      {
+        title: "Governing law",
+        mustInclude: ["Laws of Sweden"],
+        redFlags: [],
+        fallbackPositions: [],
+      },
+    ]);
+    expect(
+      resolvePlaybook("data_processing_agreement", overrides).criticalClauses,
+    ).toEqual(CONTRACT_PLAYBOOKS.data_processing_agreement.criticalClauses);
+  });
+
+  it("applies overrides when evaluating coverage from content", () => {
+    const playbook = { criticalClauses: [], clauseAnchors: [] };
+    const coverage = evaluatePlaybookCoverageFromContent(playbook, {
+      content: "This Agreement is governed by the laws of Sweden.",
+      overrides: [
+        {
+          mode: "replace",
+          criticalClauses: [
+            { title: "Governing law", mustInclude: ["laws of Sweden"] },
+            { title: "Audit rights", mustInclude: ["annual audit"] },
+          ],
+        },
+      ],
+    });
+
+    expect(coverage.criticalClauses.map((clause) => clause.met)).toEqual([
+      true,
+      false,
+    ]);
+  });
+});
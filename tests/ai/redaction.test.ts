@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  createRedactionMap,
+  detectDefinedParties,
+  redactText,
+  redactValue,
+  restoreRedactions,
+  restoreRedactionsInJson,
+  summariseRedactions,
+} from "../../shared/ai/redaction";
+
+const contract = [
+  'This Agreement is made between Northwind Traders Ltd ("Supplier") and Globex (the "Customer").',
+  "Notices: Attn: Jane Doe, jane.doe@globex.example, Tel: +44 20 7946 0958.",
+  "Supplier address: 221 Baker Street, London NW1 6XE. Company No. 01234567.",
+  "VAT No: GB 123 4567 89. Payments to IBAN GB29 NWBK 6016 1331 9268 19.",
+  "Either party may terminate on thirty (30) days' notice under clause 12.3.",
+].join("\n");
+
+describe("redactText", () => {
+  it("replaces parties and personal data with stable placeholders", () => {
+    const map = createRedactionMap({
+      parties: ["Globex", ...detectDefinedParties(contract)],
+    });
+    const redacted = redactText(contract, map);
+
+    for (const value of [
+      "Northwind Traders Ltd",
+      "Globex",
+      "Jane Doe",
+      "jane.doe@globex.example",
+      "+44 20 7946 0958",
+      "221 Baker Street",
+      "01234567",
+      "GB 123 4567 89",
+      "GB29 NWBK 6016 1331 9268 19",
+    ]) {
+      expect(redacted).not.toContain(value);
+    }
+    expect(redacted).toContain('[PARTY_1] (the "Customer")');
+    expect(redacted).toContain("thirty (30) days' notice under clause 12.3.");
+    expect(redactText("Globex shall pay", map)).toBe("[PARTY_1] shall pay");
+
+    expect(summariseRedactions(map)).toEqual({
+      enabled: true,
+      categories: [
+        "party",
+        "person",
+        "email",
+        "phone",
+        "address",
+        "iban",
+        "vat_number",
+        "company_number",
+      ],
+      counts: {
+        party: 2,
+        person: 1,
+        email: 1,
+        phone: 1,
+        address: 1,
+        iban: 1,
+        vat_number: 1,
+        company_number: 1,
+      },
+    });
+  });
+
+  it("round-trips structured values and raw JSON output", () => {
+    const map = createRedactionMap({ parties: ['Smith "Holdings"'] });
+    const prompt = redactValue(
+      { excerpt: 'Smith "Holdings" shall indemnify', tags: ["x"] },
+      map,
+    );
+    expect(prompt.excerpt).toBe("[PARTY_1] shall indemnify");
+
+    const output = '{"proposedText":"[PARTY_1] and [PARTY_9] agree"}';
+    expect(JSON.parse(restoreRedactionsInJson(output, map))).toEqual({
+      proposedText: 'Smith "Holdings" and [PARTY_9] agree',
+    });
+    expect(restoreRedactions({ parties: ["[PARTY_1]"] }, map)).toEqual({
+      parties: ['Smith "Holdings"'],
+    });
+  });
+
+  it("only reports seeded values that were found", () => {
+    const map = createRedactionMap({ parties: ["Initech LLC"] });
+    redactText("No names here.", map);
+    expect(summariseRedactions(map).categories).toEqual([]);
+  });
+});
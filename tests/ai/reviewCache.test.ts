@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildReviewCacheKey,
+  normaliseReviewText,
+  readReviewCacheMarker,
+  type ReviewCacheKeyInput,
+} from "../../shared/ai/reviewCache";
+
+const base: ReviewCacheKeyInput = {
+  content: "1. Term.\r\nThis Agreement lasts three (3) years.",
+  reviewType: "compliance_score",
+  contractType: "non_disclosure_agreement",
+  solutionKey: "nda",
+  customSolution: { id: "cs-1", prompts: { analysisPrompt: "Be strict" } },
+  perspective: "disclosing_party",
+  playbookOverrides: [{ playbookKey: "nda", mode: "extend" }],
+  modelTier: "pro",
+};
+
+describe("buildReviewCacheKey", () => {
+  it("ignores whitespace, quote style and key order", async () => {
+    expect(normaliseReviewText("  “Term”\n\n lasts  ")).toBe('"Term" lasts');
+
+    const key = await buildReviewCacheKey(base);
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(
+      await buildReviewCacheKey({
+        ...base,
+        content: "1.  Term. This Agreement lasts three (3) years.\n",
+        customSolution: {
+          prompts: { analysisPrompt: "Be strict" },
+          id: "cs-1",
+        },
+        solutionKey: " NDA ",
+      }),
+    ).toBe(key);
+  });
+
+  it("changes when any analysis input changes", async () => {
+    const key = await buildReviewCacheKey(base);
+    const variants: Partial<ReviewCacheKeyInput>[] = [
+      { content: "1. Term. This Agreement lasts five (5) years." },
+      { solutionKey: "dpa" },
+      { customSolution: { id: "cs-1", prompts: { analysisPrompt: "Be lax" } } },
+      { perspective: "receiving_party" },
+      { playbookOverrides: [{ playbookKey: "nda", mode: "replace" }] },
+      { modelTier: "standard" },
+      { redacted: true },
+    ];
+    for (const variant of variants) {
+      expect(await buildReviewCacheKey({ ...base, ...variant })).not.toBe(key);
+    }
+  });
+});
+
+describe("readReviewCacheMarker", () => {
+  it("reads the marker saved with review results", () => {
+    expect(
+      readReviewCacheMarker({
+        score: 70,
+        review_cache: { key: "abc", hit: true, reviewId: "r-1" },
+      }),
+    ).toEqual({ key: "abc", hit: true, reviewId: "r-1", cachedAt: undefined });
+    expect(readReviewCacheMarker({ review_cache: null })).toBeNull();
+    expect(readReviewCacheMarker(null)).toBeNull();
+  });
+});
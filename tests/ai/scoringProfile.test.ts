@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_SCORING_PROFILE,
+  computeScoreBreakdown,
+  normalizeScoringProfile,
+  resolveScoringProfile,
+  validateScoringProfile,
+} from "../../shared/ai/scoringProfile";
+
+const issues = [
+  { severity: "critical", category: "Liability" },
+  { severity: "high", category: "confidentiality" },
+  { severity: "high", tags: ["data-transfer"] },
+];
+
+describe("computeScoreBreakdown", () => {
+  it("keeps the log-scaled severity weights of the default profile", () => {
+    const breakdown = computeScoreBreakdown({ issues });
+    // 12·log2(2) + 7·log2(3) ≈ 23.1
+    expect(breakdown.issuePenalty).toBe(23);
+    expect(breakdown.score).toBe(77);
+    expect(breakdown.band?.label).toBe("Negotiate");
+    expect(breakdown.profileSource).toBe("default");
+  });
+
+  it("applies category multipliers to matching categories and tags", () => {
+    const profile = normalizeScoringProfile({
+      categoryMultipliers: { liability: 2, "Data Transfer": 2 },
+    });
+    const breakdown = computeScoreBreakdown({ issues }, profile, "solution");
+    expect(breakdown.contributions).toEqual([
+      {
+        severity: "critical",
+        category: "liability",
+        count: 1,
+        multiplier: 2,
+        penalty: 24,
+      },
+      {
+        severity: "high",
+        category: "data_transfer",
+        count: 1,
+        multiplier: 2,
+        penalty: 14,
+      },
+      { severity: "high", category: null, count: 1, multiplier: 1, penalty: 7 },
+    ]);
+    expect(breakdown.issuePenalty).toBe(45);
+  });
+
+  it("charges missed criteria and playbook coverage up to their caps", () => {
+    const criteria = Array.from({ length: 8 }, (_, index) => ({
+      title: `Criterion ${index + 1}`,
+      met: index === 0,
+    }));
+    const breakdown = computeScoreBreakdown(
+      { issues: [], criteria, coverageScore: 0.6 },
+      {
+        ...DEFAULT_SCORING_PROFILE,
+        criteriaMissPenalty: 3,
+        criteriaPenaltyCap: 15,
+      },
+    );
+    expect(breakdown.criteriaMissed).toHaveLength(7);
+    expect(breakdown.criteriaPenalty).toBe(15);
+    expect(breakdown.coveragePenalty).toBe(10);
+    expect(breakdown.score).toBe(75);
+  });
+
+  it("does not charge missed criteria under the default profile", () => {
+    const breakdown = computeScoreBreakdown({
+      issues: [],
+      criteria: [
+        { title: "Term", met: false },
+        { title: "Governing law", met: false },
+      ],
+      coverageScore: 1,
+    });
+    expect(breakdown.criteriaMissed).toEqual(["Term", "Governing law"]);
+    expect(breakdown.criteriaPenalty).toBe(0);
+    expect(breakdown.score).toBe(100);
+  });
+});
+
+describe("scoring profile layering", () => {
+  it("lets a solution refine its organization's profile", () => {
+    const { profile, source } = resolveScoringProfile({
+      organization: {
+        severityWeights: { critical: 20 },
+        bands: [
+          { minScore: 70, label: "Approve" },
+          { minScore: 0, label: "Escalate" },
+        ],
+      },
+      solution: { criteriaMissPenalty: 5 },
+    });
+    expect(source).toBe("solution");
+    expect(profile.severityWeights.critical).toBe(20);
+    expect(profile.severityWeights.high).toBe(7);
+    expect(profile.criteriaMissPenalty).toBe(5);
+    expect(profile.bands.map((band) => band.label)).toEqual([
+      "Approve",
+      "Escalate",
+    ]);
+  });
+
+  it("rejects unusable profiles before they are stored", () => {
+    expect(validateScoringProfile(DEFAULT_SCORING_PROFILE)).toBeNull();
+    expect(validateScoringProfile({ severityWeights: { severe: 3 } })).toMatch(
+      /Unknown severity/,
+    );
+    expect(validateScoringProfile({ categoryMultipliers: { ip: -1 } })).toMatch(
+      /between 0 and 10/,
+    );
+    expect(validateScoringProfile({ bands: [] })).toMatch(/non-empty/);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import {
+  ANALYSIS_DEPTH_PROFILES,
+  REPORT_FORMAT_LAYOUTS,
+  resolveAnalysisDepth,
+  resolveAnalysisDepthProfile,
+  resolveReportFormat,
+  selectTopIssues,
+} from "../../shared/ai/solutionProfiles";
+
+describe("analysis depth profiles", () => {
+  it("falls back to the standard depth for unknown values", () => {
+    expect(resolveAnalysisDepth("comprehensive")).toBe("comprehensive");
+    expect(resolveAnalysisDepth("toString")).toBe("standard");
+    expect(resolveAnalysisDepth(undefined)).toBe("standard");
+  });
+
+  it("scales model tier, enhancements and clause retrieval with depth", () => {
+    const basic = resolveAnalysisDepthProfile("basic");
+    const comprehensive = resolveAnalysisDepthProfile("comprehensive");
+    expect(basic.modelTier).toBe("default");
+    expect(comprehensive.modelTier).toBe("intensive");
+    expect(basic.runEnhancements).toBe(false);
+    expect(comprehensive.runEnhancements).toBe(true);
+    expect(basic.clauseRetrieval.full.maxTotal).toBeLessThan(
+      ANALYSIS_DEPTH_PROFILES.standard.clauseRetrieval.full.maxTotal,
+    );
+    expect(comprehensive.clauseRetrieval.full.maxTotal).toBeGreaterThan(
+      ANALYSIS_DEPTH_PROFILES.standard.clauseRetrieval.full.maxTotal,
+    );
+  });
+});
+
+describe("report format layouts", () => {
+  it("keeps the detailed layout for missing or unknown formats", () => {
+    expect(resolveReportFormat("executive")).toBe("executive");
+    expect(resolveReportFormat("poster")).toBe("detailed");
+    expect(REPORT_FORMAT_LAYOUTS.detailed.sections).toBeNull();
+    expect(REPORT_FORMAT_LAYOUTS.executive.brief).toBe(true);
+  });
+
+  it("selects the most severe issues in report order", () => {
+    const issues = [
+      { id: "1", severity: "low" },
+      { id: "2", severity: "high" },
+      { id: "3", severity: "critical" },
+      { id: "4", severity: "high" },
+      { id: "5", severity: "medium" },
+    ];
+    expect(selectTopIssues(issues, 3).map((issue) => issue.id)).toEqual([
+      "3",
+      "2",
+      "4",
+    ]);
+  });
+});
@@ -0,0 +1,207 @@
+import { describe, it, expect } from "vitest";
+import {
+  compareContractVersions,
+  isVersionReportLike,
+  segmentContractText,
+} from "../../shared/ai/versionComparison";
+
+const previousClauses = [
+  {
+    id: "c1",
+    clauseId: "c1",
+    title: "Confidentiality Obligations",
+    originalText:
+      "The Recipient shall keep all Confidential Information strictly confidential and use it solely for the Purpose.",
+  },
+  {
+    id: "c2",
+    clauseId: "c2",
+    title: "Term",
+    originalText:
+      "This Agreement shall remain in force for a period of two (2) years from the Effective Date.",
+  },
+  {
+    id: "c3",
+    clauseId: "c3",
+    title: "Governing Law",
+    originalText: "This Agreement is governed by the laws of England and Wales.",
+  },
+  {
+    id: "c4",
+    clauseId: "c4",
+    title: "Non-Solicitation",
+    originalText:
+      "Neither party shall solicit employees of the other party for twelve months after termination.",
+  },
+];
+
+const currentClauses = [
+  {
+    id: "k1",
+    clauseId: "k1",
+    title: "Confidentiality Obligations",
+    originalText:
+      "The Recipient shall keep all Confidential Information strictly confidential and use it solely for the Purpose.",
+  },
+  {
+    id: "k2",
+    clauseId: "k2",
+    title: "Term",
+    originalText:
+      "This Agreement shall remain in force for a period of five (5) years from the Effective Date, and confidentiality obligations survive termination.",
+  },
+  {
+    id: "k3",
+    clauseId: "k3",
+    title: "Governing Law",
+    originalText: "This Agreement is governed by the laws of Sweden.",
+  },
+  {
+    id: "k4",
+    clauseId: "k4",
+    title: "Injunctive Relief",
+    originalText:
+      "Each party acknowledges that damages may be inadequate and the disclosing party may seek injunctive relief.",
+  },
+];
+
+describe("compareContractVersions", () => {
+  const report = compareContractVersions({
+    previousText: "",
+    currentText: "",
+    previousReport: {
+      clauseExtractions: previousClauses,
+      issuesToAddress: [
+        {
+          id: "issue-term",
+          title: "Confidentiality term too short",
+          severity: "high",
+          clauseReference: { clauseId: "c2", heading: "Term" },
+        },
+        {
+          id: "issue-remedies",
+          title: "No injunctive relief clause",
+          severity: "medium",
+        },
+        {
+          id: "issue-law",
+          title: "Governing law unfavourable",
+          severity: "low",
+          clauseReference: { clauseId: "c3", heading: "Governing Law" },
+        },
+      ],
+      proposedEdits: [
+        {
+          id: "edit-term",
+          clauseId: "c2",
+          anchorText: "a period of two (2) years",
+          proposedText:
+            "a period of five (5) years from the Effective Date, and confidentiality obligations survive termination",
+          intent: "replace",
+        },
+        {
+          id: "edit-law",
+          clauseId: "c3",
+          anchorText: "the laws of England and Wales",
+          proposedText: "the laws of Ireland",
+          intent: "replace",
+        },
+        {
+          id: "edit-confidentiality",
+          clauseId: "c1",
+          anchorText: "use it solely for the Purpose",
+          proposedText: "use it solely for the Purpose and return it on request",
+          intent: "replace",
+        },
+      ],
+    },
+    currentReport: {
+      clauseExtractions: currentClauses,
+      issuesToAddress: [
+        {
+          id: "issue-law-2",
+          title: "Governing law unfavourable to the discloser",
+          severity: "medium",
+          clauseReference: { clauseId: "k3", heading: "Governing Law" },
+        },
+        {
+          id: "issue-notice",
+          title: "Missing breach notification obligation",
+          severity: "medium",
+        },
+      ],
+    },
+  });
+
+  it("classifies clause changes across versions", () => {
+    const byTitle = Object.fromEntries(
+      report.clauseChanges.map((change) => [change.title, change.changeType]),
+    );
+    expect(byTitle["Confidentiality Obligations"]).toBe("unchanged");
+    expect(byTitle["Term"]).toBe("modified");
+    expect(byTitle["Governing Law"]).toBe("modified");
+    expect(byTitle["Non-Solicitation"]).toBe("removed");
+    expect(byTitle["Injunctive Relief"]).toBe("added");
+  });
+
+  it("reports resolved, persisting and new issues", () => {
+    const statusById = Object.fromEntries(
+      report.issues.map((issue) => [
+        issue.previousIssueId ?? issue.currentIssueId,
+        issue.status,
+      ]),
+    );
+    expect(statusById["issue-term"]).toBe("resolved");
+    expect(statusById["issue-remedies"]).toBe("resolved");
+    expect(statusById["issue-law"]).toBe("persisting");
+    expect(statusById["issue-notice"]).toBe("new");
+    expect(report.summary).toMatchObject({
+      issuesResolved: 2,
+      issuesPersisting: 1,
+      issuesNew: 1,
+    });
+  });
+
+  it("detects accepted, altered and rejected edits", () => {
+    const outcomeById = Object.fromEntries(
+      report.proposedEdits.map((edit) => [edit.editId, edit.outcome]),
+    );
+    expect(outcomeById["edit-term"]).toBe("accepted");
+    expect(outcomeById["edit-law"]).toBe("altered");
+    expect(outcomeById["edit-confidentiality"]).toBe("rejected");
+  });
+
+  it("falls back to paragraph segmentation without clause extractions", () => {
+    const segments = segmentContractText(
+      "1. Definitions\n\nConfidential Information means any information disclosed.\n\n2. Term\n\nThis Agreement lasts two years.",
+    );
+    expect(segments).toHaveLength(2);
+    expect(segments[0].title).toBe("1. Definitions");
+
+    const comparison = compareContractVersions({
+      previousText:
+        "1. Definitions\n\nConfidential Information means any information disclosed.\n\n2. Term\n\nThis Agreement lasts two years.",
+      currentText:
+        "1. Definitions\n\nConfidential Information means any information disclosed.\n\n2. Term\n\nThis Agreement lasts three years.",
+    });
+    expect(comparison.summary).toMatchObject({
+      clausesUnchanged: 1,
+      clausesModified: 1,
+      clausesAdded: 0,
+      clausesRemoved: 0,
+    });
+  });
+});
+
+describe("isVersionReportLike", () => {
+  it("accepts stored reports and rejects malformed results", () => {
+    expect(isVersionReportLike({ clauseExtractions: previousClauses })).toBe(
+      true,
+    );
+    expect(isVersionReportLike({ issuesToAddress: null })).toBe(true);
+    expect(isVersionReportLike({ proposedEdits: "none" })).toBe(false);
+    expect(isVersionReportLike([previousClauses])).toBe(false);
+    expect(isVersionReportLike("report")).toBe(false);
+    expect(isVersionReportLike(null)).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import crypto from "crypto";
+import { describe, it, expect, vi } from "vitest";
+import {
+  buildSlackPayload,
+  extractHighRiskFindings,
+  mapAlertPreferencesRow,
+  postJson,
+  signWebhookPayload,
+} from "../../server/services/alertDispatcher";
+import type { OrgAlertMessage } from "../../shared/api";
+
+const message: OrgAlertMessage = {
+  type: "high_risk_review",
+  organizationId: "org-1",
+  organizationName: "Acme",
+  title: "High-risk findings in a new review",
+  summary: "Supplier MSA has 2 critical or high severity findings.",
+  items: [
+    { label: "Supplier MSA", detail: "Uncapped liability", severity: "critical" },
+    { label: "Supplier MSA", detail: "No termination for convenience", severity: "high" },
+  ],
+  dashboardUrl: "https://app.example.com/org-admin",
+  generatedAt: "2026-10-19T00:00:00.000Z",
+};
+
+describe("alert dispatcher", () => {
+  it("signs webhook bodies so receivers can verify them", () => {
+    const body = JSON.stringify(message);
+    const header = signWebhookPayload("whsec_test", 1760000000, body);
+    const [timestampPart, digestPart] = header.split(",");
+
+    expect(timestampPart).toBe("t=1760000000");
+    const expected = crypto
+      .createHmac("sha256", "whsec_test")
+      .update(`1760000000.${body}`)
+      .digest("hex");
+    expect(digestPart).toBe(`v1=${expected}`);
+    expect(signWebhookPayload("other", 1760000000, body)).not.toBe(header);
+  });
+
+  it("extracts critical and high findings from structured and legacy reports", () => {
+    const structured = extractHighRiskFindings({
+      structured_report: {
+        issuesToAddress: [
+          { title: "Uncapped liability", severity: "critical" },
+          { title: "Typo in definitions", severity: "low" },
+        ],
+      },
+      action_items: [{ action: "Ignored when structured issues exist" }],
+    });
+    expect(structured).toEqual([
+      { severity: "critical", description: "Uncapped liability" },
+    ]);
+
+    const legacy = extractHighRiskFindings({
+      recommendations: [{ description: "Clarify scope", severity: "medium" }],
+      action_items: ["Negotiate liability cap"],
+    });
+    expect(legacy).toEqual([
+      { severity: "high", description: "Negotiate liability cap" },
+    ]);
+    expect(extractHighRiskFindings(null)).toEqual([]);
+  });
+
+  it("builds a Slack-compatible payload with a text fallback", () => {
+    const payload = buildSlackPayload(message);
+    expect(payload.text).toContain(message.title);
+    expect(payload.blocks[0]).toMatchObject({ type: "header" });
+    const listBlock = payload.blocks[2] as { text: { text: string } };
+    expect(listBlock.text.text).toContain("*CRITICAL* Supplier MSA — Uncapped liability");
+    expect(JSON.stringify(payload.blocks.at(-1))).toContain(message.dashboardUrl);
+  });
+
+  it("never exposes the webhook secret in mapped preferences", () => {
+    const preferences = mapAlertPreferencesRow({
+      notify_high_risk: true,
+      alert_channel: "webhook",
+      webhook_url: "https://hooks.example.com/maigon",
+      webhook_secret: "whsec_test",
+      email_recipients: ["legal@example.com", 42],
+    });
+    expect(preferences.webhookSecretConfigured).toBe(true);
+    expect(preferences.emailRecipients).toEqual(["legal@example.com"]);
+    expect(JSON.stringify(preferences)).not.toContain("whsec_test");
+  });
+
+  it("reports failed deliveries without echoing the response body", async () => {
+    const fetchMock = vi.fn(
+      async () => new Response("root:x:0:0:root:/root:/bin/bash", { status: 502 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    try {
+      const failure = await postJson("https://hooks.example.com/maigon", "{}", {}, {
+        redirect: "manual",
+      }).catch((error: Error) => error);
+      expect(failure).toMatchObject({
+        message: "Endpoint responded 502",
+        responseStatus: 502,
+      });
+      expect(fetchMock).toHaveBeenCalledWith(
+        "https://hooks.example.com/maigon",
+        expect.objectContaining({ redirect: "manual" }),
+      );
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
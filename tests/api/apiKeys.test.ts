@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import {
+  createApiKeyRateLimiter,
+  generateApiKey,
+  hashApiKey,
+  isWellFormedApiKey,
+} from "../../server/services/orgApiKeysRepository";
+import { publicApiV1OpenApiDocument } from "../../server/openapi/publicApiV1";
+
+describe("organization API keys", () => {
+  it("generates prefixed keys whose prefix identifies them", () => {
+    const { secret, prefix } = generateApiKey();
+
+    expect(secret.startsWith(`${prefix}_`)).toBe(true);
+    expect(prefix).toMatch(/^mgn_[a-f0-9]{8}$/);
+    expect(isWellFormedApiKey(secret)).toBe(true);
+    expect(generateApiKey().secret).not.toBe(secret);
+  });
+
+  it("stores a stable SHA-256 hash rather than the key", () => {
+    const { secret } = generateApiKey();
+
+    expect(hashApiKey(secret)).toMatch(/^[a-f0-9]{64}$/);
+    expect(hashApiKey(secret)).toBe(hashApiKey(secret));
+    expect(hashApiKey(secret)).not.toContain(secret);
+  });
+
+  it("rejects malformed keys before any lookup", () => {
+    expect(isWellFormedApiKey("")).toBe(false);
+    expect(isWellFormedApiKey("mgn_1234abcd")).toBe(false);
+    expect(isWellFormedApiKey("sk_live_1234abcd_" + "a".repeat(43))).toBe(false);
+  });
+});
+
+describe("createApiKeyRateLimiter", () => {
+  it("allows the per-key limit within a window and resets afterwards", () => {
+    const limiter = createApiKeyRateLimiter(60_000);
+    const start = 1_000_000;
+
+    expect(limiter.consume("key-a", 2, start)).toMatchObject({
+      allowed: true,
+      remaining: 1,
+    });
+    expect(limiter.consume("key-a", 2, start + 10)).toMatchObject({
+      allowed: true,
+      remaining: 0,
+    });
+    expect(limiter.consume("key-a", 2, start + 20)).toMatchObject({
+      allowed: false,
+      resetAt: start + 60_000,
+    });
+    expect(limiter.consume("key-b", 2, start + 20).allowed).toBe(true);
+    expect(limiter.consume("key-a", 2, start + 60_000).allowed).toBe(true);
+  });
+});
+
+describe("public API OpenAPI document", () => {
+  it("describes the versioned review endpoints", () => {
+    expect(Object.keys(publicApiV1OpenApiDocument.paths)).toEqual([
+      "/documents",
+      "/reviews",
+      "/reviews/{reviewJobId}",
+      "/reviews/{reviewJobId}/report",
+    ]);
+  });
+});
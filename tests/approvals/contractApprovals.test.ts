@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import {
+  canApproveStage,
+  canTransition,
+  maxIssueSeverity,
+  parseApprovalChainInput,
+  selectApprovalChain,
+} from "../../server/services/contractApprovals";
+import type { ApprovalChain } from "../../shared/api";
+
+const chain = (
+  overrides: Partial<ApprovalChain> & Pick<ApprovalChain, "id">,
+): ApprovalChain => ({
+  name: overrides.id,
+  contractTypes: [],
+  minSeverity: null,
+  stages: [{ name: "Legal", approverIds: [] }],
+  priority: 0,
+  enabled: true,
+  createdAt: "2026-10-01T00:00:00.000Z",
+  updatedAt: "2026-10-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("maxIssueSeverity", () => {
+  it("returns the worst severity among structured issues", () => {
+    expect(
+      maxIssueSeverity({
+        structured_report: {
+          issuesToAddress: [
+            { severity: "low" },
+            { severity: "High" },
+            { severity: "medium" },
+            { severity: "unknown" },
+          ],
+        },
+      }),
+    ).toBe("high");
+  });
+
+  it("returns null without structured issues", () => {
+    expect(maxIssueSeverity({ structured_report: {} })).toBeNull();
+    expect(maxIssueSeverity(null)).toBeNull();
+  });
+});
+
+describe("selectApprovalChain", () => {
+  const chains = [
+    chain({ id: "fallback", priority: 50 }),
+    chain({
+      id: "nda-critical",
+      priority: 10,
+      contractTypes: ["NDA"],
+      minSeverity: "high",
+    }),
+    chain({ id: "disabled", priority: 0, enabled: false }),
+  ];
+
+  it("picks the highest-priority enabled chain whose conditions match", () => {
+    expect(
+      selectApprovalChain(chains, {
+        contractType: "nda",
+        maxSeverity: "critical",
+      })?.id,
+    ).toBe("nda-critical");
+  });
+
+  it("falls through when the severity threshold is not met", () => {
+    expect(
+      selectApprovalChain(chains, {
+        contractType: "nda",
+        maxSeverity: "medium",
+      })?.id,
+    ).toBe("fallback");
+    expect(
+      selectApprovalChain(chains, { contractType: "nda", maxSeverity: null })
+        ?.id,
+    ).toBe("fallback");
+  });
+
+  it("returns null when nothing applies", () => {
+    expect(
+      selectApprovalChain([chains[1], chains[2]], {
+        contractType: "dpa",
+        maxSeverity: "critical",
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("workflow rules", () => {
+  it("only allows the defined status moves", () => {
+    expect(canTransition("draft", "in_review")).toBe(true);
+    expect(canTransition("in_review", "awaiting_approval")).toBe(true);
+    expect(canTransition("awaiting_approval", "rejected")).toBe(true);
+    expect(canTransition("draft", "approved")).toBe(false);
+    expect(canTransition("approved", "rejected")).toBe(false);
+  });
+
+  it("limits stage sign-off to named approvers or org admins", () => {
+    const named = { name: "Finance", approverIds: ["p-1"] };
+    const open = { name: "Legal", approverIds: [] };
+    expect(canApproveStage(named, { profileId: "p-1" }, false)).toBe(true);
+    expect(canApproveStage(named, { profileId: "p-2" }, true)).toBe(false);
+    expect(canApproveStage(open, { profileId: "p-2" }, true)).toBe(true);
+    expect(canApproveStage(open, { profileId: "p-2" }, false)).toBe(false);
+  });
+});
+
+describe("parseApprovalChainInput", () => {
+  it("normalises a full chain definition", () => {
+    const result = parseApprovalChainInput({
+      name: "  High risk ",
+      contractTypes: ["NDA", "NDA", " DPA "],
+      minSeverity: "high",
+      stages: [{ name: "Legal", approverIds: ["p-1", "p-1"] }],
+    });
+    expect(result).toEqual({
+      input: {
+        name: "High risk",
+        contractTypes: ["NDA", "DPA"],
+        minSeverity: "high",
+        stages: [{ name: "Legal", approverIds: ["p-1"] }],
+      },
+    });
+  });
+
+  it("rejects unnamed stages and unknown severities", () => {
+    expect(
+      parseApprovalChainInput({ name: "x", stages: [{ name: "" }] }),
+    ).toEqual({ error: "Every stage needs a name" });
+    expect(
+      parseApprovalChainInput({ minSeverity: "severe" }, { partial: true }),
+    ).toHaveProperty("error");
+  });
+
+  it("only validates supplied fields for partial updates", () => {
+    expect(
+      parseApprovalChainInput({ enabled: false }, { partial: true }),
+    ).toEqual({ input: { enabled: false } });
+  });
+});
@@ -0,0 +1,284 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Request, Response } from "express";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  RequestAuthError,
+  requireUserAccess,
+  resolveActingUserId,
+} from "../../server/lib/requestAuth";
+import {
+  assertContractAccess,
+  assertDraftJobAccess,
+  assertDraftSnapshotAccess,
+  assertIngestionAccess,
+  assertStorageObjectAccess,
+} from "../../server/lib/resourceAccess";
+import type { UserAccessContext } from "../../shared/api";
+
+const id = (suffix: string) =>
+  `00000000-0000-4000-8000-${suffix.padStart(12, "0")}`;
+
+const ORG_A = id("a0");
+const ORG_B = id("b0");
+
+const profiles = [
+  {
+    id: id("a1"),
+    auth_user_id: id("aa1"),
+    role: "user",
+    organization_id: ORG_A,
+    organization_role: "member",
+  },
+  {
+    id: id("a2"),
+    auth_user_id: id("aa2"),
+    role: "user",
+    organization_id: ORG_A,
+    organization_role: "member",
+  },
+  {
+    id: id("b1"),
+    auth_user_id: id("bb1"),
+    role: "user",
+    organization_id: ORG_B,
+    organization_role: "org_admin",
+  },
+  {
+    id: id("c1"),
+    auth_user_id: id("cc1"),
+    role: "user",
+    organization_id: null,
+    organization_role: null,
+  },
+  {
+    id: id("d1"),
+    auth_user_id: id("dd1"),
+    role: "admin",
+    organization_id: null,
+    organization_role: null,
+  },
+];
+
+const tables: Record<string, Array<Record<string, unknown>>> = {
+  user_profiles: profiles,
+  contracts: [
+    // Personal contract without organization_id: membership comes from the owner.
+    { id: id("ca"), user_id: id("a1"), organization_id: null },
+    { id: id("cb"), user_id: id("b1"), organization_id: ORG_B },
+    { id: id("cc"), user_id: id("c1"), organization_id: null },
+  ],
+  // Legacy ingestion rows store the auth user id instead of the profile id.
+  contract_ingestions: [
+    { id: id("1a"), user_id: id("aa1") },
+    { id: id("1b"), user_id: id("b1") },
+  ],
+  contract_draft_snapshots: [{ id: id("5b"), contract_id: id("cb") }],
+  contract_draft_jobs: [{ id: id("7b"), contract_id: id("cb") }],
+};
+
+const tokens: Record<string, string> = {
+  "token-alice": id("aa1"),
+  "token-bob": id("bb1"),
+  "token-orphan": id("ee1"),
+};
+
+function createFakeSupabase(): SupabaseClient {
+  return {
+    auth: {
+      getUser: async (token: string) =>
+        tokens[token]
+          ? { data: { user: { id: tokens[token] } }, error: null }
+          : { data: { user: null }, error: { message: "invalid JWT" } },
+    },
+    from(table: string) {
+      const filters: Array<[string, unknown]> = [];
+      const query = {
+        select: () => query,
+        eq: (column: string, value: unknown) => {
+          filters.push([column, value]);
+          return query;
+        },
+        maybeSingle: async () => ({
+          data:
+            (tables[table] ?? []).find((row) =>
+              filters.every(([column, value]) => row[column] === value),
+            ) ?? null,
+          error: null,
+        }),
+      };
+      return query;
+    },
+  } as unknown as SupabaseClient;
+}
+
+const client = createFakeSupabase();
+
+function accessFor(profileId: string): UserAccessContext {
+  const profile = profiles.find((entry) => entry.id === profileId)!;
+  return {
+    profileId: profile.id,
+    authUserId: profile.auth_user_id,
+    maigonRole: profile.role === "admin" ? "admin" : "user",
+    isMaigonAdmin: profile.role === "admin",
+    organizationId: profile.organization_id,
+    organizationRole: null,
+    organization: null,
+    quotas: {} as UserAccessContext["quotas"],
+  };
+}
+
+const alice = accessFor(id("a1"));
+const anna = accessFor(id("a2"));
+const bob = accessFor(id("b1"));
+const carol = accessFor(id("c1"));
+const admin = accessFor(id("d1"));
+
+async function runMiddleware(headers: Record<string, string>) {
+  const req = {
+    header: (name: string) => headers[name.toLowerCase()],
+  } as unknown as Request;
+  const res = {
+    locals: {} as Record<string, unknown>,
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(payload: unknown) {
+      this.body = payload;
+      return this;
+    },
+  };
+  const next = vi.fn();
+  await requireUserAccess(() => client)(req, res as unknown as Response, next);
+  return { res, next };
+}
+
+async function expectNotFound(promise: Promise<void>) {
+  await expect(promise).rejects.toMatchObject({
+    name: "RequestAuthError",
+    status: 404,
+  });
+}
+
+describe("requireUserAccess", () => {
+  it("rejects requests without a bearer token, even with identity headers", async () => {
+    const { res, next } = await runMiddleware({ "x-auth-user-id": id("aa1") });
+    expect(res.statusCode).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("rejects tokens Supabase cannot verify", async () => {
+    const { res, next } = await runMiddleware({
+      authorization: "Bearer forged-token",
+    });
+    expect(res.statusCode).toBe(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("rejects verified users without a profile", async () => {
+    const { res, next } = await runMiddleware({
+      authorization: "Bearer token-orphan",
+    });
+    expect(res.statusCode).toBe(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("resolves the access context from the verified token only", async () => {
+    const { res, next } = await runMiddleware({
+      authorization: "Bearer token-bob",
+      "x-auth-user-id": id("aa1"),
+    });
+    expect(next).toHaveBeenCalledOnce();
+    expect(res.locals.userAccess).toMatchObject({
+      profileId: id("b1"),
+      organizationId: ORG_B,
+    });
+  });
+});
+
+describe("cross-tenant resource access", () => {
+  it("lets owners, organization members and admins use a contract", async () => {
+    await assertContractAccess(alice, id("ca"), client);
+    await assertContractAccess(anna, id("ca"), client);
+    await assertContractAccess(bob, id("cb"), client);
+    await assertContractAccess(admin, id("ca"), client);
+  });
+
+  it("hides other tenants' contracts", async () => {
+    await expectNotFound(assertContractAccess(bob, id("ca"), client));
+    await expectNotFound(assertContractAccess(alice, id("cb"), client));
+    await expectNotFound(assertContractAccess(alice, id("cc"), client));
+    await expectNotFound(assertContractAccess(carol, id("ca"), client));
+  });
+
+  it("answers missing and malformed ids like foreign ones", async () => {
+    await expectNotFound(assertContractAccess(alice, id("ff"), client));
+    await expectNotFound(assertContractAccess(alice, "1 or 1=1", client));
+  });
+
+  it("guards ingestions stored under auth or profile ids", async () => {
+    await assertIngestionAccess(alice, id("1a"), client);
+    await assertIngestionAccess(anna, id("1a"), client);
+    await expectNotFound(assertIngestionAccess(bob, id("1a"), client));
+    await expectNotFound(assertIngestionAccess(alice, id("1b"), client));
+  });
+
+  it("guards draft snapshots and jobs through their contract", async () => {
+    await assertDraftSnapshotAccess(bob, id("5b"), client);
+    await assertDraftJobAccess(bob, id("7b"), client);
+    await expectNotFound(assertDraftSnapshotAccess(alice, id("5b"), client));
+    await expectNotFound(assertDraftJobAccess(anna, id("7b"), client));
+    await expectNotFound(assertDraftJobAccess(carol, id("7b"), client));
+  });
+
+  it("only honours storage references inside the caller's scope", async () => {
+    const ref = (path: string) => ({ bucket: "contracts", path });
+    await assertStorageObjectAccess(
+      alice,
+      ref(`derived/${id("1a")}/draft.zip`),
+      client,
+    );
+    await assertStorageObjectAccess(
+      bob,
+      ref(`drafts/${id("cb")}/draft.zip`),
+      client,
+    );
+    await expectNotFound(
+      assertStorageObjectAccess(
+        bob,
+        ref(`raw/${id("1a")}/upload.docx`),
+        client,
+      ),
+    );
+    await expectNotFound(
+      assertStorageObjectAccess(
+        bob,
+        ref(`drafts/${id("cb")}/../${id("1a")}/upload.docx`),
+        client,
+      ),
+    );
+    await expectNotFound(
+      assertStorageObjectAccess(
+        alice,
+        { bucket: "billing-exports", path: `derived/${id("1a")}/draft.zip` },
+        client,
+      ),
+    );
+  });
+});
+
+describe("resolveActingUserId", () => {
+  it("acts for the caller when no or their own id is given", () => {
+    expect(resolveActingUserId(alice, undefined)).toBe(alice.profileId);
+    expect(resolveActingUserId(alice, alice.authUserId)).toBe(alice.profileId);
+  });
+
+  it("refuses to act for another user unless the caller is an admin", () => {
+    expect(() => resolveActingUserId(bob, alice.profileId)).toThrow(
+      RequestAuthError,
+    );
+    expect(resolveActingUserId(admin, alice.profileId)).toBe(alice.profileId);
+  });
+});
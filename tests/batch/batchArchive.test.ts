@@ -0,0 +1,137 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import JSZip from "jszip";
+import { afterAll, beforeAll, describe, it, expect } from "vitest";
+import { listBatchDocuments } from "../../server/services/batchArchiveService";
+import { countReviewSeverities } from "../../server/services/reviewBatchRepository";
+
+let workDir: string;
+
+beforeAll(async () => {
+  workDir = await fs.mkdtemp(path.join(os.tmpdir(), "batch-test-"));
+});
+
+afterAll(async () => {
+  await fs.rm(workDir, { recursive: true, force: true });
+});
+
+describe("batch archive expansion", () => {
+  it("expands ZIP entries and skips metadata, unsupported and empty files", async () => {
+    const zip = new JSZip();
+    zip.file("Data Room/NDA - Acme.docx", "docx bytes");
+    zip.file("Data Room/MSA.pdf", "pdf bytes");
+    zip.file("Data Room/notes.xlsx", "spreadsheet");
+    zip.file("Data Room/empty.txt", "");
+    zip.file("__MACOSX/Data Room/._MSA.pdf", "resource fork");
+    zip.file("Data Room/.DS_Store", "finder");
+    const archivePath = path.join(workDir, "room.zip");
+    await fs.writeFile(
+      archivePath,
+      await zip.generateAsync({ type: "nodebuffer" }),
+    );
+
+    const loosePath = path.join(workDir, "side-letter.txt");
+    await fs.writeFile(loosePath, "Side letter text");
+
+    const { documents, skipped } = await listBatchDocuments([
+      {
+        path: archivePath,
+        originalname: "room.zip",
+        mimetype: "application/zip",
+        size: (await fs.stat(archivePath)).size,
+      },
+      {
+        path: loosePath,
+        originalname: "side-letter.txt",
+        mimetype: "text/plain",
+        size: 16,
+      },
+    ]);
+
+    expect(documents.map((document) => document.fileName)).toEqual([
+      "Data Room/MSA.pdf",
+      "Data Room/NDA - Acme.docx",
+      "side-letter.txt",
+    ]);
+    expect(documents[0].contentType).toBe("application/pdf");
+    expect((await documents[1].read()).toString()).toBe("docx bytes");
+    expect(skipped).toEqual([
+      { fileName: "Data Room/empty.txt", reason: "File is empty" },
+      { fileName: "Data Room/notes.xlsx", reason: "Unsupported file type" },
+    ]);
+  });
+
+  it("measures inflated sizes instead of trusting the ZIP headers", async () => {
+    const zip = new JSZip();
+    zip.file("bomb.txt", Buffer.alloc(11 * 1024 * 1024));
+    zip.file("contract.txt", "Contract text");
+    const archive = await zip.generateAsync({
+      type: "nodebuffer",
+      compression: "DEFLATE",
+    });
+    // Claim 100 bytes for bomb.txt in its local and central headers.
+    for (const [signature, offset] of [
+      [0x04034b50, 22],
+      [0x02014b50, 24],
+    ]) {
+      const marker = Buffer.alloc(4);
+      marker.writeUInt32LE(signature);
+      const index = archive.indexOf(marker);
+      archive.writeUInt32LE(100, index + offset);
+    }
+    const archivePath = path.join(workDir, "forged.zip");
+    await fs.writeFile(archivePath, archive);
+
+    const { documents, skipped } = await listBatchDocuments([
+      {
+        path: archivePath,
+        originalname: "forged.zip",
+        size: archive.length,
+      },
+    ]);
+
+    expect(skipped).toEqual([
+      { fileName: "bomb.txt", reason: "File exceeds the 10MB limit" },
+    ]);
+    expect(documents.map((document) => document.fileName)).toEqual([
+      "contract.txt",
+    ]);
+  });
+
+  it("reports archives that cannot be opened", async () => {
+    const brokenPath = path.join(workDir, "broken.zip");
+    await fs.writeFile(brokenPath, "not a zip");
+
+    const { documents, skipped } = await listBatchDocuments([
+      { path: brokenPath, originalname: "broken.zip", size: 9 },
+    ]);
+
+    expect(documents).toHaveLength(0);
+    expect(skipped).toEqual([
+      { fileName: "broken.zip", reason: "Archive could not be opened" },
+    ]);
+  });
+});
+
+describe("review severity counts", () => {
+  it("prefers structured issues over legacy action items", () => {
+    expect(
+      countReviewSeverities({
+        structured_report: {
+          issuesToAddress: [
+            { severity: "critical" },
+            { severity: "High" },
+            { severity: "medium" },
+          ],
+        },
+        action_items: [{ severity: "critical" }, { severity: "critical" }],
+      }),
+    ).toEqual({ critical: 1, high: 1 });
+
+    expect(
+      countReviewSeverities({ action_items: [{ severity: "critical" }] }),
+    ).toEqual({ critical: 1, high: 0 });
+    expect(countReviewSeverities(null)).toEqual({ critical: 0, high: 0 });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildCommentThreads,
+  selectMentionedMembers,
+  type ReviewCommentRecord,
+} from "../../server/services/reviewComments";
+import type { ReviewCommentAuthor } from "../../shared/api";
+
+const ada: ReviewCommentAuthor = {
+  id: "p-ada",
+  name: "Ada Lovelace",
+  email: "ada@example.com",
+};
+const alan: ReviewCommentAuthor = {
+  id: "p-alan",
+  name: "Alan Turing",
+  email: "alan@example.com",
+};
+
+const row = (
+  overrides: Partial<ReviewCommentRecord> & Pick<ReviewCommentRecord, "id">,
+): ReviewCommentRecord => ({
+  review_id: "r-1",
+  organization_id: "org-1",
+  anchor_type: "issue",
+  anchor_id: "issue-1",
+  parent_id: null,
+  author_id: ada.id,
+  body: "Looks risky",
+  mentions: [],
+  resolved_at: null,
+  resolved_by: null,
+  created_at: "2026-10-19T10:00:00.000Z",
+  updated_at: "2026-10-19T10:00:00.000Z",
+  ...overrides,
+});
+
+describe("buildCommentThreads", () => {
+  it("nests replies under their thread in posting order", () => {
+    const authors = new Map([
+      [ada.id, ada],
+      [alan.id, alan],
+    ]);
+    const threads = buildCommentThreads(
+      [
+        row({
+          id: "c-3",
+          parent_id: "c-1",
+          author_id: ada.id,
+          created_at: "2026-10-19T10:10:00.000Z",
+        }),
+        row({
+          id: "c-2",
+          parent_id: "c-1",
+          author_id: alan.id,
+          created_at: "2026-10-19T10:05:00.000Z",
+        }),
+        row({
+          id: "c-1",
+          resolved_at: "2026-10-19T11:00:00.000Z",
+          resolved_by: alan.id,
+        }),
+        row({
+          id: "c-4",
+          anchor_type: "edit",
+          anchor_id: "edit-1",
+          author_id: "p-gone",
+          created_at: "2026-10-19T12:00:00.000Z",
+        }),
+        row({ id: "c-5", parent_id: "c-missing" }),
+      ],
+      authors,
+    );
+
+    expect(threads.map((thread) => thread.id)).toEqual(["c-1", "c-4"]);
+    expect(threads[0].replies.map((reply) => reply.id)).toEqual(["c-2", "c-3"]);
+    expect(threads[0].resolvedBy).toEqual(alan);
+    expect(threads[1]).toMatchObject({
+      anchorType: "edit",
+      anchorId: "edit-1",
+      resolvedAt: null,
+    });
+    expect(threads[1].root.author).toBeNull();
+  });
+});
+
+describe("selectMentionedMembers", () => {
+  it("only notifies members still mentioned by name, never the author", () => {
+    expect(
+      selectMentionedMembers(
+        "@alan turing can you check this? cc @Ada Lovelace",
+        [alan.id, ada.id, "p-outsider"],
+        [ada, alan],
+        ada.id,
+      ),
+    ).toEqual([alan]);
+    expect(
+      selectMentionedMembers("Never mind", [alan.id], [ada, alan], ada.id),
+    ).toEqual([]);
+  });
+});
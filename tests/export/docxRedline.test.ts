@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import {
+  buildTrackedChangesDocx,
+  diffWords,
+} from "../../server/services/docxRedlineService";
+
+const W = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+async function buildDocx(bodyXml: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file(
+    "[Content_Types].xml",
+    '<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>',
+  );
+  zip.file(
+    "word/_rels/document.xml.rels",
+    '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>',
+  );
+  zip.file(
+    "word/document.xml",
+    `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="${W}"><w:body>${bodyXml}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/></w:sectPr></w:body></w:document>`,
+  );
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+async function readPart(buffer: Buffer, name: string): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  return (await zip.file(name)?.async("string")) ?? "";
+}
+
+describe("DOCX tracked-changes redline", () => {
+  it("diffs at word level and groups changes", () => {
+    expect(diffWords("a period of two (2) years", "a period of five (5) years")).toEqual([
+      { type: "equal", text: "a period of " },
+      { type: "delete", text: "two (2)" },
+      { type: "insert", text: "five (5)" },
+      { type: "equal", text: " years" },
+    ]);
+  });
+
+  it("emits w:del/w:ins revisions across split runs and keeps formatting", async () => {
+    const source = await buildDocx(
+      '<w:p><w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">This Agreement remains in force for </w:t></w:r><w:r><w:rPr><w:i/><w:sz w:val="22"/></w:rPr><w:t>a period of two (2) years.</w:t></w:r></w:p>',
+    );
+    const result = await buildTrackedChangesDocx(
+      source,
+      [
+        {
+          id: "edit-term",
+          anchorText: "for a period of two (2) years",
+          proposedText: "for a period of five (5) years",
+          rationale: "Market standard for confidentiality is five years.",
+        },
+      ],
+      { date: new Date("2026-01-01T00:00:00Z") },
+    );
+
+    expect(result.appliedEditIds).toEqual(["edit-term"]);
+    expect(result.unmatchedEditIds).toEqual([]);
+
+    const document = await readPart(result.buffer, "word/document.xml");
+    expect(document).toContain(
+      '<w:del w:id="2" w:author="Maigon" w:date="2026-01-01T00:00:00Z"><w:r><w:rPr><w:i/><w:sz w:val="22"/></w:rPr><w:delText xml:space="preserve">two (2)</w:delText></w:r></w:del>',
+    );
+    expect(document).toMatch(/<w:ins w:id="\d+" w:author="Maigon"[^>]*><w:r><w:rPr><w:i\/><w:sz w:val="22"\/><\/w:rPr><w:t xml:space="preserve">five \(5\)<\/w:t><\/w:r><\/w:ins>/);
+    expect(document).toContain('<w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">This Agreement remains in force </w:t></w:r>');
+    expect(document).toContain(
+      '<w:r><w:rPr><w:i/><w:sz w:val="22"/></w:rPr><w:t xml:space="preserve"> years</w:t></w:r>',
+    );
+    expect(document).toContain('<w:commentRangeStart w:id="1"/>');
+    expect(document).toContain('<w:commentReference w:id="1"/>');
+
+    const comments = await readPart(result.buffer, "word/comments.xml");
+    expect(comments).toContain('w:author="Maigon"');
+    expect(comments).toContain("Market standard for confidentiality is five years.");
+    expect(await readPart(result.buffer, "[Content_Types].xml")).toContain(
+      'PartName="/word/comments.xml"',
+    );
+    expect(await readPart(result.buffer, "word/_rels/document.xml.rels")).toContain(
+      'Target="comments.xml"',
+    );
+  });
+
+  it("appends unanchored insertions and reports unmatched edits", async () => {
+    const source = await buildDocx("<w:p><w:r><w:t>Existing text.</w:t></w:r></w:p>");
+    const result = await buildTrackedChangesDocx(
+      source,
+      [
+        {
+          id: "edit-missing",
+          anchorText: "Not present in contract",
+          proposedText: "The Recipient shall notify the Discloser of any breach.",
+          intent: "insert",
+        },
+        {
+          id: "edit-unknown",
+          anchorText: "text that does not exist",
+          proposedText: "replacement",
+          intent: "replace",
+        },
+      ],
+      { includeComments: false },
+    );
+
+    expect(result.appliedEditIds).toEqual(["edit-missing"]);
+    expect(result.unmatchedEditIds).toEqual(["edit-unknown"]);
+    const document = await readPart(result.buffer, "word/document.xml");
+    expect(document).toMatch(
+      /<w:p><w:pPr><w:rPr><w:ins [^>]*\/><\/w:rPr><\/w:pPr><w:ins [^>]*><w:r><w:t xml:space="preserve">The Recipient shall notify the Discloser of any breach\.<\/w:t><\/w:r><\/w:ins><\/w:p><w:sectPr>/,
+    );
+    expect(await readPart(result.buffer, "word/comments.xml")).toBe("");
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+const recognizeQueue: Array<{ text: string; confidence: number } | Error> = [];
+const createWorker = vi.fn();
+const terminate = vi.fn();
+
+vi.mock("tesseract.js", () => ({
+  createWorker: (...args: unknown[]) => {
+    createWorker(...args);
+    return Promise.resolve({
+      recognize: () => {
+        const next = recognizeQueue.shift() ?? { text: "", confidence: 0 };
+        return next instanceof Error
+          ? Promise.reject(next)
+          : Promise.resolve({ data: next });
+      },
+      terminate: () => {
+        terminate();
+        return Promise.resolve();
+      },
+    });
+  },
+}));
+
+let storedPdf: Buffer = Buffer.alloc(0);
+
+vi.mock("../../server/services/storageService", () => ({
+  DEFAULT_BUCKET: "contracts",
+  listIngestionFiles: () => Promise.resolve([{ name: "contract.pdf" }]),
+  downloadIngestionFile: async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "ocr-test-"));
+    const localPath = path.join(dir, "contract.pdf");
+    await fs.writeFile(localPath, storedPdf);
+    return {
+      localPath,
+      mimeType: "application/pdf",
+      size: storedPdf.length,
+    };
+  },
+  removeLocalFile: (filePath: string) => fs.rm(filePath, { force: true }),
+  uploadBufferToStorage: () => Promise.resolve(null),
+}));
+
+const savedRows: Array<Record<string, unknown>> = [];
+
+vi.mock("../../server/lib/supabaseAdmin", () => ({
+  getSupabaseAdminClient: () => {
+    const builder: any = {
+      update(values: Record<string, unknown>) {
+        savedRows.push(values);
+        return builder;
+      },
+      eq: () => builder,
+      select: () => builder,
+      single: () =>
+        Promise.resolve({ data: { id: "ingestion-1" }, error: null }),
+    };
+    return { from: () => builder };
+  },
+}));
+
+import { extractDocument } from "../../server/services/documentExtractionService";
+import { saveExtractionResult } from "../../server/services/ingestionRepository";
+
+// Builds a minimal single-font PDF; an empty string yields a page with no text
+// layer. The header comment pads the file past one 64KB chunk, below which the
+// pdfjs build bundled with pdf-parse misreads cross-reference offsets.
+function buildPdf(pages: string[]): Buffer {
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages
+      .map((_, index) => `${4 + index * 2} 0 R`)
+      .join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+  pages.forEach((text, index) => {
+    const stream = text ? `BT /F1 12 Tf 72 720 Td (${text}) Tj ET` : "";
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + index * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    );
+  });
+
+  let body = `%PDF-1.4\n%${"-".repeat(70_000)}\n`;
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(body.length);
+    body += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = body.length;
+  body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    body += `${String(offset).padStart(10, "0")} 00000 n \n`;
+  }
+  body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(body, "latin1");
+}
+
+const OCR_PAGE_ONE =
+  "This Mutual Non-Disclosure Agreement is entered into between Acme AB and Globex Ltd for the purpose of evaluating a potential business relationship.";
+const OCR_PAGE_TWO =
+  "Each party shall keep the Confidential Information of the other party secret and use it only for the Purpose for a period of five years.";
+
+describe("PDF OCR extraction", () => {
+  beforeEach(() => {
+    recognizeQueue.length = 0;
+    savedRows.length = 0;
+    createWorker.mockClear();
+    terminate.mockClear();
+    vi.stubEnv("CLOUDCONVERT_API_KEY", "");
+    vi.stubEnv("OCR_ENABLED", "true");
+    vi.stubEnv("OCR_LANG_PATH", "/srv/tessdata");
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("recognises scanned pages with a local language path", async () => {
+    storedPdf = buildPdf(["", ""]);
+    recognizeQueue.push(
+      { text: OCR_PAGE_ONE, confidence: 91.24 },
+      { text: OCR_PAGE_TWO, confidence: 52 },
+    );
+
+    const result = await extractDocument({ ingestionId: "ingestion-1" });
+
+    expect(createWorker).toHaveBeenCalledWith(["eng"], undefined, {
+      langPath: "/srv/tessdata",
+    });
+    expect(terminate).toHaveBeenCalledTimes(1);
+    expect(result.strategy).toBe("pdf-ocr");
+    expect(result.needsOcr).toBe(false);
+    expect(result.text).toBe(`${OCR_PAGE_ONE}\n\n${OCR_PAGE_TWO}`);
+    expect(result.ocr).toMatchObject({
+      engine: "tesseract.js",
+      pageCount: 2,
+      averageConfidence: 71.6,
+    });
+    expect(result.ocr?.pages.map((page) => page.confidence)).toEqual([
+      91.2, 52,
+    ]);
+    expect(result.warnings).toEqual([
+      expect.stringMatching(/OCR confidence is low on page\(s\) 2\./),
+    ]);
+  }, 30000);
+
+  it("leaves OCR off unless it is enabled with a local language path", async () => {
+    storedPdf = buildPdf([""]);
+
+    vi.stubEnv("OCR_ENABLED", "");
+    const disabled = await extractDocument({ ingestionId: "ingestion-1" });
+    vi.stubEnv("OCR_ENABLED", "true");
+    vi.stubEnv("OCR_LANG_PATH", "");
+    const missingLangPath = await extractDocument({
+      ingestionId: "ingestion-1",
+    });
+
+    expect(createWorker).not.toHaveBeenCalled();
+    for (const result of [disabled, missingLangPath]) {
+      expect(result.strategy).toBe("pdf-digital");
+      expect(result.needsOcr).toBe(true);
+      expect(result.ocr).toBeUndefined();
+    }
+  }, 30000);
+
+  it("keeps short digital PDFs on their text layer", async () => {
+    storedPdf = buildPdf([
+      "Acme AB and Globex Ltd agree to keep each other's information confidential.",
+    ]);
+
+    const result = await extractDocument({ ingestionId: "ingestion-1" });
+
+    expect(createWorker).not.toHaveBeenCalled();
+    expect(result.strategy).toBe("pdf-digital");
+    expect(result.needsOcr).toBe(false);
+    expect(result.text).toContain("Globex Ltd agree");
+  }, 30000);
+
+  it("keeps the digital result when OCR recovers no extra text", async () => {
+    storedPdf = buildPdf(["Page 1"]);
+    recognizeQueue.push({ text: "", confidence: 0 });
+
+    const result = await extractDocument({ ingestionId: "ingestion-1" });
+
+    expect(createWorker).toHaveBeenCalledTimes(1);
+    expect(result.strategy).toBe("pdf-digital");
+    expect(result.needsOcr).toBe(true);
+    expect(result.ocr).toBeUndefined();
+    expect(result.warnings).toContain(
+      "OCR did not recover additional text from this PDF.",
+    );
+  }, 30000);
+
+  it("reports OCR failures and still releases the worker", async () => {
+    storedPdf = buildPdf([""]);
+    recognizeQueue.push(new Error("traineddata missing"));
+
+    const result = await extractDocument({ ingestionId: "ingestion-1" });
+
+    expect(terminate).toHaveBeenCalledTimes(1);
+    expect(result.strategy).toBe("pdf-digital");
+    expect(result.needsOcr).toBe(true);
+    expect(result.warnings).toContain("OCR failed: traineddata missing");
+  }, 30000);
+
+  it("saves OCR pages and confidence with the extraction", async () => {
+    storedPdf = buildPdf([""]);
+    recognizeQueue.push({ text: OCR_PAGE_ONE, confidence: 88 });
+    const extraction = await extractDocument({ ingestionId: "ingestion-1" });
+
+    await saveExtractionResult({ ingestionId: "ingestion-1", extraction });
+
+    expect(savedRows).toHaveLength(1);
+    expect(savedRows[0]).toMatchObject({
+      status: "extracted",
+      strategy: "pdf-ocr",
+      needs_ocr: false,
+      ocr_confidence: 88,
+      ocr_pages: [
+        { pageNumber: 1, text: OCR_PAGE_ONE, confidence: 88, wordCount: 22 },
+      ],
+      metadata: {
+        ocr: {
+          engine: "tesseract.js",
+          languages: ["eng"],
+          averageConfidence: 88,
+        },
+      },
+    });
+  }, 30000);
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const updates: Array<{ values: Record<string, unknown>; filters: Array<[string, unknown]> }> = [];
+const rpcCalls: Array<{ fn: string; args: unknown }> = [];
+let claimQueue: unknown[] = [];
+let updatedRow: unknown = { id: "job-1" };
+
+function createQueryBuilder() {
+  const entry = { values: {} as Record<string, unknown>, filters: [] as Array<[string, unknown]> };
+  const builder: any = {
+    update(values: Record<string, unknown>) {
+      entry.values = values;
+      updates.push(entry);
+      return builder;
+    },
+    eq(column: string, value: unknown) {
+      entry.filters.push([column, value]);
+      return builder;
+    },
+    select() {
+      return builder;
+    },
+    maybeSingle() {
+      return Promise.resolve({ data: updatedRow, error: null });
+    },
+    then(resolve: (value: unknown) => void) {
+      resolve({ data: null, error: null });
+    },
+  };
+  return builder;
+}
+
+vi.mock("../../server/lib/supabaseAdmin", () => ({
+  getSupabaseAdminClient: () => ({
+    from: () => createQueryBuilder(),
+    rpc: (fn: string, args: unknown) => {
+      rpcCalls.push({ fn, args });
+      if (fn === "requeue_expired_contract_draft_jobs") {
+        return Promise.resolve({ data: 0, error: null });
+      }
+      const next = claimQueue.shift();
+      return Promise.resolve({ data: next ? [next] : [], error: null });
+    },
+  }),
+}));
+
+import {
+  LostJobLeaseError,
+  NonRetryableJobError,
+  computeRetryDelayMs,
+  processQueuedJob,
+  runClaimedJob,
+  type QueueJob,
+} from "../../server/services/jobQueue";
+import { markDraftJobSucceeded } from "../../server/services/draftJobsRepository";
+
+const baseJob: QueueJob = {
+  id: "job-1",
+  contractId: "contract-1",
+  jobType: "compose",
+  status: "running",
+  attempts: 1,
+  maxAttempts: 3,
+  availableAt: null,
+  lockedBy: "worker-a",
+  leaseExpiresAt: null,
+};
+
+describe("Job queue", () => {
+  beforeEach(() => {
+    updates.length = 0;
+    rpcCalls.length = 0;
+    claimQueue = [];
+    updatedRow = { id: "job-1" };
+  });
+
+  it("backs off exponentially and caps the delay", () => {
+    const policy = { baseDelayMs: 1_000, maxDelayMs: 10_000 };
+    const noJitter = () => 0;
+    expect(computeRetryDelayMs(1, policy, noJitter)).toBe(1_000);
+    expect(computeRetryDelayMs(2, policy, noJitter)).toBe(2_000);
+    expect(computeRetryDelayMs(3, policy, noJitter)).toBe(4_000);
+    expect(computeRetryDelayMs(10, policy, noJitter)).toBe(10_000);
+    expect(computeRetryDelayMs(2, policy, () => 1)).toBe(2_400);
+  });
+
+  it("requeues a failed attempt while attempts remain", async () => {
+    const outcome = await runClaimedJob(baseJob, "worker-a", async () => {
+      throw new Error("upstream timeout");
+    });
+
+    expect(outcome.status).toBe("retrying");
+    const update = updates.at(-1)!;
+    expect(update.values.status).toBe("pending");
+    expect(update.values.last_error).toBe("upstream timeout");
+    expect(update.values.locked_by).toBeNull();
+    expect(update.filters).toContainEqual(["locked_by", "worker-a"]);
+  });
+
+  it("dead-letters once the attempt budget is exhausted", async () => {
+    const outcome = await runClaimedJob(
+      { ...baseJob, attempts: 3 },
+      "worker-a",
+      async () => {
+        throw new Error("still failing");
+      },
+    );
+
+    expect(outcome).toEqual({ status: "failed", error: "still failing" });
+    expect(updates.at(-1)!.values).toMatchObject({
+      status: "failed",
+      error: "still failing",
+      last_error: "still failing",
+    });
+  });
+
+  it("dead-letters non-retryable errors on the first attempt", async () => {
+    const outcome = await runClaimedJob(baseJob, "worker-a", async () => {
+      throw new NonRetryableJobError("Job payload missing");
+    });
+
+    expect(outcome.status).toBe("failed");
+  });
+
+  it("only settles a job while this worker still holds its lease", async () => {
+    await markDraftJobSucceeded({ id: "job-1", workerId: "worker-a" });
+    expect(updates.at(-1)!.filters).toEqual([
+      ["id", "job-1"],
+      ["status", "running"],
+      ["locked_by", "worker-a"],
+    ]);
+
+    updatedRow = null;
+    await expect(
+      markDraftJobSucceeded({ id: "job-1", workerId: "worker-a" }),
+    ).rejects.toBeInstanceOf(LostJobLeaseError);
+  });
+
+  it("abandons an attempt whose lease was lost without recording a failure", async () => {
+    const outcome = await runClaimedJob(baseJob, "worker-a", async () => {
+      throw new LostJobLeaseError("job-1");
+    });
+
+    expect(outcome).toEqual({ status: "lost" });
+    expect(updates).toHaveLength(0);
+  });
+
+  it("claims the specific job when processing inline", async () => {
+    claimQueue = [
+      {
+        id: "job-1",
+        contract_id: "contract-1",
+        job_type: "clause_edit",
+        status: "running",
+        attempts: 1,
+        max_attempts: 3,
+      },
+    ];
+    const handler = vi.fn(async () => {});
+
+    await processQueuedJob("job-1", "clause_edit", handler, {
+      workerId: "inline-a",
+    });
+
+    expect(handler).toHaveBeenCalledWith("job-1", "inline-a");
+    expect(rpcCalls[0]).toMatchObject({
+      fn: "requeue_expired_contract_draft_jobs",
+    });
+    expect(rpcCalls[1]).toMatchObject({
+      fn: "claim_contract_draft_job",
+      args: {
+        p_worker_id: "inline-a",
+        p_job_types: ["clause_edit"],
+        p_job_id: "job-1",
+      },
+    });
+  });
+
+  it("skips jobs that are not claimable", async () => {
+    const handler = vi.fn(async () => {});
+    await processQueuedJob("job-1", "compose", handler);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
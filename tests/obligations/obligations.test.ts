@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import {
+  extractObligations,
+  findDatesInText,
+  findDurationInText,
+  resolveContractEndDate,
+} from "../../shared/ai/obligations";
+import { buildObligationsCalendar } from "../../server/services/obligationsRegister";
+import type { ContractObligation } from "../../shared/api";
+
+const iso = (date: Date | null) => (date ? date.toISOString().slice(0, 10) : null);
+
+describe("obligation date parsing", () => {
+  it("reads written, ISO and day-first numeric dates", () => {
+    expect(
+      findDatesInText(
+        "Signed 1 March 2024, amended on March 15, 2025 and 2025-06-30; notice by 31/12/2026.",
+      ).map(iso),
+    ).toEqual(["2024-03-01", "2025-03-15", "2025-06-30", "2026-12-31"]);
+  });
+
+  it("reads durations written as words with numerals in brackets", () => {
+    expect(findDurationInText("for a period of three (3) years")).toMatchObject({
+      amount: 3,
+      unit: "year",
+    });
+    expect(findDurationInText("at least ninety days' notice")).toMatchObject({
+      amount: 90,
+      unit: "day",
+    });
+  });
+
+  it("resolves the contract end date from a start date and a term", () => {
+    expect(
+      iso(resolveContractEndDate("Three (3) years from 1 March 2024")),
+    ).toBe("2027-02-28");
+    expect(
+      iso(resolveContractEndDate("1 January 2025 to 31 December 2026")),
+    ).toBe("2026-12-31");
+    expect(resolveContractEndDate("Indefinite")).toBeNull();
+  });
+});
+
+describe("extractObligations", () => {
+  const report = {
+    contractSummary: {
+      contractPeriod: "1 January 2025 to 31 December 2026",
+    },
+    clauseExtractions: [
+      {
+        id: "c-term",
+        clauseId: "term",
+        title: "Term and Renewal",
+        originalText:
+          "This Agreement renews automatically for successive one-year periods unless either party gives at least ninety (90) days' written notice prior to expiry of the then-current term.",
+      },
+      {
+        id: "c-conf",
+        clauseId: "confidentiality",
+        title: "Confidentiality",
+        originalText:
+          "The obligations in this clause shall survive for five (5) years after termination or expiry of this Agreement.",
+      },
+      {
+        id: "c-pay",
+        clauseId: "fees",
+        title: "Fees and Payment",
+        originalText: "Invoices are payable within thirty (30) days of receipt.",
+      },
+      {
+        id: "c-law",
+        clauseId: "law",
+        title: "Governing Law",
+        originalText: "Swedish law applies.",
+      },
+    ],
+    actionItems: [
+      {
+        id: "a1",
+        title: "Confirm insurance certificate",
+        description: "Supplier must provide certificate",
+        owner: "Procurement",
+        dueDate: "2025-02-15",
+      },
+      { id: "a2", title: "No deadline", description: "" },
+    ],
+  };
+
+  it("derives dated rows from the contract period and clause text", () => {
+    const byKind = Object.fromEntries(
+      extractObligations(report).map((obligation) => [obligation.kind, obligation]),
+    );
+
+    expect(byKind.renewal).toMatchObject({
+      key: "renewal:term",
+      dueDate: "2026-12-31",
+    });
+    expect(byKind.notice).toMatchObject({
+      dueDate: "2026-10-02",
+      period: "90 days",
+      clauseId: "term",
+    });
+    expect(byKind.confidentiality_survival).toMatchObject({
+      dueDate: "2031-12-31",
+    });
+    expect(byKind.payment).toMatchObject({ dueDate: null, period: "30 days" });
+    expect(byKind.action_item).toMatchObject({
+      key: "action_item:a1",
+      dueDate: "2025-02-15",
+      owner: "Procurement",
+    });
+    expect(byKind.termination).toBeUndefined();
+  });
+
+  it("returns stable keys so re-extraction does not duplicate rows", () => {
+    expect(extractObligations(report).map((item) => item.key)).toEqual(
+      extractObligations(report).map((item) => item.key),
+    );
+    expect(extractObligations(null)).toEqual([]);
+  });
+});
+
+describe("buildObligationsCalendar", () => {
+  const base: ContractObligation = {
+    id: "ob-1",
+    organizationId: "org-1",
+    userId: "user-1",
+    contractId: "contract-1",
+    contractTitle: "Supplier MSA, v2",
+    contractType: "msa",
+    reviewId: "review-1",
+    kind: "notice",
+    title: "Non-renewal notice deadline",
+    description: "Notice of non-renewal must be given 90 days before expiry.",
+    dueDate: "2026-10-02",
+    period: "90 days",
+    owner: "Legal",
+    department: null,
+    clauseId: "term",
+    sourceText: "x".repeat(200),
+    status: "open",
+    createdAt: "2026-01-01T00:00:00.000Z",
+  };
+
+  it("renders dated obligations as escaped, folded all-day events", () => {
+    const calendar = buildObligationsCalendar(
+      [base, { ...base, id: "ob-2", dueDate: null }],
+      {
+        calendarName: "Obligations",
+        appBaseUrl: "https://app.example.com",
+        now: new Date("2026-10-19T08:00:00Z"),
+      },
+    );
+    const lines = calendar.split("\r\n");
+
+    expect(calendar.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(lines).toContain("DTSTART;VALUE=DATE:20261002");
+    expect(lines).toContain("DTEND;VALUE=DATE:20261003");
+    expect(lines).toContain("DTSTAMP:20261019T080000Z");
+    expect(calendar).toContain(
+      "SUMMARY:Non-renewal notice deadline – Supplier MSA\\, v2",
+    );
+    expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(calendar.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildReviewSearchText,
+  extractCounterparties,
+  normalizeTags,
+  parseContractSearchQuery,
+  tallyFacet,
+} from "../../server/services/contractRepository";
+
+describe("contract repository indexing", () => {
+  it("extracts counterparties without role labels or duplicates", () => {
+    expect(
+      extractCounterparties([
+        "Acme Ltd (the “Discloser”)",
+        "  Globex   Corporation ",
+        "ACME LTD",
+        42,
+        "",
+      ]),
+    ).toEqual(["Acme Ltd", "Globex Corporation"]);
+    expect(extractCounterparties(undefined)).toEqual([]);
+  });
+
+  it("indexes the purpose, issues and clause findings of a report", () => {
+    const text = buildReviewSearchText({
+      contractSummary: { purpose: "Evaluate a partnership" },
+      issuesToAddress: [
+        {
+          title: "Uncapped liability",
+          summary: "No cap applies",
+          recommendation: "Add a cap",
+        },
+      ],
+      clauseFindings: [{ title: "Term", summary: "Five years" }],
+    });
+    expect(text.split("\n")).toEqual([
+      "Evaluate a partnership",
+      "Uncapped liability",
+      "No cap applies",
+      "Add a cap",
+      "Term",
+      "Five years",
+    ]);
+    expect(buildReviewSearchText(null)).toBe("");
+  });
+
+  it("tallies facet values, most common first", () => {
+    expect(tallyFacet(["NDA", "DPA", "NDA", null, " "])).toEqual([
+      { value: "NDA", count: 2 },
+      { value: "DPA", count: 1 },
+    ]);
+  });
+});
+
+describe("contract repository input", () => {
+  it("normalises tags and rejects invalid lists", () => {
+    expect(normalizeTags([" Renewal  Due ", "renewal due", "EU"])).toEqual([
+      "renewal due",
+      "eu",
+    ]);
+    expect(normalizeTags(["ok", 5])).toBeNull();
+    expect(normalizeTags(["x".repeat(41)])).toBeNull();
+    expect(normalizeTags("nda")).toBeNull();
+  });
+
+  it("parses search filters with paging defaults", () => {
+    expect(
+      parseContractSearchQuery({
+        q: " liability cap ",
+        scope: "organization",
+        tag: "EU",
+        minScore: "40",
+        to: "2026-10-01",
+      }),
+    ).toEqual({
+      filters: {
+        query: "liability cap",
+        scope: "organization",
+        folderId: undefined,
+        tag: "eu",
+        counterparty: undefined,
+        contractType: undefined,
+        governingLaw: undefined,
+        minScore: 40,
+        maxScore: undefined,
+        from: undefined,
+        to: "2026-10-01",
+        page: 1,
+        pageSize: 25,
+      },
+    });
+  });
+
+  it("rejects out-of-range scores, bad dates and oversized pages", () => {
+    expect(parseContractSearchQuery({ minScore: "120" })).toHaveProperty(
+      "error",
+    );
+    expect(parseContractSearchQuery({ from: "yesterday" })).toHaveProperty(
+      "error",
+    );
+    expect(parseContractSearchQuery({ pageSize: "500" })).toHaveProperty(
+      "error",
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  classifyRetention,
+  contractRetentionStart,
+} from "../../server/services/reportRetention";
+import {
+  computeReportExpiry,
+  resolveReportStorageDays,
+} from "../../shared/plans";
+
+const now = new Date("2026-10-19T12:00:00.000Z");
+
+describe("report retention", () => {
+  it("resolves storage days from the first recognised plan", () => {
+    expect(resolveReportStorageDays(["free_trial"])).toBe(7);
+    expect(resolveReportStorageDays(["standard", "free_trial"])).toBe(7);
+    expect(resolveReportStorageDays(["professional", "free_trial"])).toBeNull();
+    expect(resolveReportStorageDays([null, undefined])).toBeNull();
+
+    expect(computeReportExpiry("2026-10-12T12:00:00.000Z", 7)).toBe(
+      "2026-10-19T12:00:00.000Z",
+    );
+    expect(computeReportExpiry("2026-10-12T12:00:00.000Z", null)).toBeNull();
+  });
+
+  it("warns inside the warning window and purges once expired", () => {
+    expect(classifyRetention("2026-10-19T12:00:00.000Z", now, 3)).toBe("purge");
+    expect(classifyRetention("2026-10-21T00:00:00.000Z", now, 3)).toBe("warn");
+    expect(classifyRetention("2026-10-25T00:00:00.000Z", now, 3)).toBe(
+      "retain",
+    );
+    expect(classifyRetention(null, now, 3)).toBe("retain");
+  });
+
+  it("restarts the clock from the latest review of a contract", () => {
+    expect(
+      contractRetentionStart({
+        created_at: "2026-10-01T00:00:00.000Z",
+        contract_reviews: [
+          {
+            id: "r-1",
+            created_at: "2026-10-01T00:05:00.000Z",
+            expires_at: null,
+            expiry_warned_at: null,
+          },
+          {
+            id: "r-2",
+            created_at: "2026-10-15T09:00:00.000Z",
+            expires_at: null,
+            expiry_warned_at: null,
+          },
+        ],
+      }),
+    ).toBe("2026-10-15T09:00:00.000Z");
+    expect(
+      contractRetentionStart({
+        created_at: "2026-10-01T00:00:00.000Z",
+        contract_reviews: null,
+      }),
+    ).toBe("2026-10-01T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,153 @@
+import crypto from "crypto";
+import { describe, it, expect, vi } from "vitest";
+
+const resolvedAddresses = new Map<string, string[]>();
+
+vi.mock("dns/promises", () => {
+  const lookup = async (hostname: string) =>
+    (resolvedAddresses.get(hostname) ?? ["93.184.216.34"]).map((address) => ({
+      address,
+      family: address.includes(":") ? 6 : 4,
+    }));
+  return { lookup, default: { lookup } };
+});
+
+import {
+  assertPublicWebhookTarget,
+  buildWebhookEvent,
+  generateWebhookSecret,
+  parseWebhookEndpointInput,
+} from "../../server/services/orgWebhooks";
+import { signWebhookPayload } from "../../server/services/alertDispatcher";
+
+const draftData = {
+  jobId: "job-1",
+  contractId: "contract-1",
+  draftKey: null,
+  snapshotId: "snap-1",
+};
+
+describe("buildWebhookEvent", () => {
+  it("derives a stable event id from the event type and source row", () => {
+    const first = buildWebhookEvent(
+      "draft.succeeded",
+      "org-1",
+      "job-1",
+      draftData,
+    );
+    const again = buildWebhookEvent(
+      "draft.succeeded",
+      "org-1",
+      "job-1",
+      draftData,
+      new Date(Date.now() + 60_000),
+    );
+    const other = buildWebhookEvent("draft.failed", "org-1", "job-1", {
+      ...draftData,
+      error: "boom",
+    });
+
+    expect(first.id).toMatch(/^evt_[a-f0-9]{24}$/);
+    expect(again.id).toBe(first.id);
+    expect(other.id).not.toBe(first.id);
+  });
+
+  it("produces payloads receivers can verify with the endpoint secret", () => {
+    const secret = generateWebhookSecret();
+    const body = JSON.stringify(
+      buildWebhookEvent("draft.succeeded", "org-1", "job-1", draftData),
+    );
+    const header = signWebhookPayload(secret, 1_700_000_000, body);
+    const expected = crypto
+      .createHmac("sha256", secret)
+      .update(`1700000000.${body}`)
+      .digest("hex");
+
+    expect(secret.startsWith("whsec_")).toBe(true);
+    expect(header).toBe(`t=1700000000,v1=${expected}`);
+  });
+});
+
+describe("parseWebhookEndpointInput", () => {
+  it("keeps only catalogued event types", () => {
+    const parsed = parseWebhookEndpointInput({
+      url: "https://hooks.example.com/maigon",
+      eventTypes: ["review.completed", "contract.deleted"],
+    });
+
+    expect(parsed).toEqual({
+      input: {
+        url: "https://hooks.example.com/maigon",
+        eventTypes: ["review.completed"],
+      },
+    });
+  });
+
+  it("rejects invalid URLs and empty subscriptions", () => {
+    expect(
+      parseWebhookEndpointInput({
+        url: "ftp://x",
+        eventTypes: ["review.completed"],
+      }),
+    ).toHaveProperty("error");
+    expect(
+      parseWebhookEndpointInput({ url: "https://x.test", eventTypes: [] }),
+    ).toHaveProperty("error");
+  });
+
+  it("rejects loopback, link-local, private and unique-local hosts", () => {
+    for (const url of [
+      "http://localhost:8080/hook",
+      "https://api.localhost/hook",
+      "https://127.0.0.1/hook",
+      "https://2130706433/hook",
+      "https://169.254.169.254/latest/meta-data",
+      "https://10.1.2.3/hook",
+      "https://172.20.0.5/hook",
+      "https://192.168.1.10/hook",
+      "https://[::1]/hook",
+      "https://[fd12:3456::1]/hook",
+      "https://[fe80::1]/hook",
+      "https://[::ffff:10.0.0.1]/hook",
+    ]) {
+      expect(
+        parseWebhookEndpointInput({ url, eventTypes: ["review.completed"] }),
+      ).toEqual({ error: "url must point to a public host" });
+    }
+    expect(
+      parseWebhookEndpointInput({
+        url: "https://172.32.0.1/hook",
+        eventTypes: ["review.completed"],
+      }),
+    ).toHaveProperty("input");
+  });
+
+  it("validates only the supplied fields on partial updates", () => {
+    expect(
+      parseWebhookEndpointInput({ enabled: false }, { partial: true }),
+    ).toEqual({
+      input: { enabled: false },
+    });
+  });
+});
+
+describe("assertPublicWebhookTarget", () => {
+  it("re-checks the resolved address before delivery", async () => {
+    resolvedAddresses.set("hooks.example.com", ["93.184.216.34"]);
+    resolvedAddresses.set("rebound.example.com", ["203.0.113.7", "10.0.0.8"]);
+    resolvedAddresses.set("metadata.example.com", ["fe80::a9fe:a9fe"]);
+
+    await expect(
+      assertPublicWebhookTarget("https://hooks.example.com/maigon"),
+    ).resolves.toBeUndefined();
+    await expect(
+      assertPublicWebhookTarget("https://rebound.example.com/maigon"),
+    ).rejects.toThrow("Webhook URL resolves to a private address");
+    await expect(
+      assertPublicWebhookTarget("https://metadata.example.com/maigon"),
+    ).rejects.toThrow("Webhook URL resolves to a private address");
+    await expect(
+      assertPublicWebhookTarget("https://127.0.0.1/maigon"),
+    ).rejects.toThrow("Webhook URL points to a private address");
+  });
+});
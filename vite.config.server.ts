@@ -5,7 +5,10 @@ import path from "path";
 export default defineConfig({
   build: {
     lib: {
-      entry: path.resolve(__dirname, "server/node-build.ts"),
+      entry: {
+        "node-build": path.resolve(__dirname, "server/node-build.ts"),
+        worker: path.resolve(__dirname, "server/worker.ts"),
+      },
       name: "server",
       fileName: "production",
       formats: ["es"],
@@ -37,6 +40,9 @@ export default defineConfig({
         "cloudconvert",
         "html-docx-js",
         "html-pdf-node",
+        "pdfjs-dist",
+        "@napi-rs/canvas",
+        "tesseract.js",
       ],
       output: {
         format: "es",